@@ -0,0 +1,182 @@
+/**
+ * LAN sync hub - relays orders, status changes and waiter calls between the
+ * shop's devices over the local network, so the Kitchen keeps seeing new
+ * orders while the internet is down.
+ *
+ * Run on any always-on machine on the shop Wi-Fi (laptop, Raspberry Pi):
+ *   HUB_KEY=some-secret npm run hub
+ * Then on each staff device open Server Status, enter http://<machine-ip>:4310
+ * and the same key under "Local hub".
+ *
+ * Browsers won't let an https:// page (the hosted app) call an http:// hub, so
+ * for that give the hub a certificate the devices trust and use https://:
+ *   HUB_KEY=some-secret HUB_CERT_FILE=hub.crt HUB_KEY_FILE=hub.key npm run hub
+ *
+ * The hub never talks to Supabase. Every device still queues its own writes in
+ * its outbox and sends them once the internet is back; the hub only lets the
+ * other devices see those writes in the meantime. Node 18+, no dependencies.
+ */
+
+import { createServer } from 'node:http';
+import { createServer as createTlsServer } from 'node:https';
+import { appendFileSync, existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { randomBytes } from 'node:crypto';
+
+const PORT = Number(process.env.HUB_PORT) || 4310;
+const JOURNAL_FILE = process.env.HUB_JOURNAL || 'hub-journal.jsonl';
+const CERT_FILE = process.env.HUB_CERT_FILE;
+const KEY_FILE = process.env.HUB_KEY_FILE;
+// Long enough to cover an outage; by then the devices have caught up through Supabase
+const KEEP_MS = 24 * 60 * 60 * 1000;
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const HUB_KEY = process.env.HUB_KEY || randomBytes(6).toString('hex');
+if (!process.env.HUB_KEY) {
+  console.log(`[Hub] No HUB_KEY set, using ${HUB_KEY} for this run`);
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, X-Hub-Key',
+};
+
+// Journal of relayed events, so a device that reloads or reconnects can catch up
+let events = [];
+let lastSeq = 0;
+
+const isRecent = (event) => Date.now() - event.receivedAt < KEEP_MS;
+
+if (existsSync(JOURNAL_FILE)) {
+  events = readFileSync(JOURNAL_FILE, 'utf8')
+    .split('\n')
+    .filter(Boolean)
+    .map(line => { try { return JSON.parse(line); } catch { return null; } })
+    .filter(event => event && isRecent(event));
+  lastSeq = events.reduce((max, e) => Math.max(max, e.seq), 0);
+  writeFileSync(JOURNAL_FILE, events.map(e => JSON.stringify(e) + '\n').join(''));
+  console.log(`[Hub] Loaded ${events.length} events from ${JOURNAL_FILE}`);
+}
+
+const clients = new Set();
+
+const send = (res, event) => {
+  res.write(`id: ${event.seq}\ndata: ${JSON.stringify(event)}\n\n`);
+};
+
+const json = (res, status, body) => {
+  res.writeHead(status, { ...corsHeaders, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks = [];
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new Error('Body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const handleRequest = async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders);
+    res.end();
+    return;
+  }
+
+  // Fixed base: the Host header is whatever the caller sent
+  const url = new URL(req.url, 'http://localhost');
+
+  // Open, so devices can find the hub before they have the key
+  if (req.method === 'GET' && url.pathname === '/health') {
+    json(res, 200, { status: 'ok', service: 'chiyadani-hub', clients: clients.size, lastSeq });
+    return;
+  }
+
+  // EventSource can't send headers, so the stream takes the key as a query parameter
+  const key = req.headers['x-hub-key'] || url.searchParams.get('key');
+  if (key !== HUB_KEY) {
+    json(res, 401, { error: 'Wrong hub key' });
+    return;
+  }
+
+  // Live stream; replays what the device missed (EventSource resends the last id it saw)
+  if (req.method === 'GET' && url.pathname === '/events') {
+    const since = Number(req.headers['last-event-id'] ?? url.searchParams.get('since') ?? 0) || 0;
+    res.writeHead(200, {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write('retry: 3000\n\n');
+    events.filter(e => e.seq > since).forEach(e => send(res, e));
+    clients.add(res);
+    req.on('close', () => clients.delete(res));
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/events') {
+    let event;
+    try {
+      const body = JSON.parse(await readBody(req));
+      if (typeof body.deviceId !== 'string' || typeof body.api !== 'string' || typeof body.method !== 'string' || !Array.isArray(body.args)) {
+        throw new Error('Expected { deviceId, api, method, args }');
+      }
+      event = { seq: ++lastSeq, deviceId: body.deviceId, api: body.api, method: body.method, args: body.args, receivedAt: Date.now() };
+    } catch (err) {
+      json(res, 400, { error: err.message });
+      return;
+    }
+
+    events.push(event);
+    events = events.filter(isRecent);
+    try {
+      appendFileSync(JOURNAL_FILE, JSON.stringify(event) + '\n');
+    } catch (err) {
+      console.error('[Hub] Failed to write journal:', err.message);
+    }
+    clients.forEach(client => send(client, event));
+    json(res, 200, { seq: event.seq });
+    return;
+  }
+
+  json(res, 404, { error: 'Not found' });
+};
+
+// One bad request must not take the hub down for every device
+const handleRequestSafely = async (req, res) => {
+  try {
+    await handleRequest(req, res);
+  } catch (err) {
+    console.error('[Hub] Request failed:', err.message);
+    if (res.headersSent) {
+      res.end();
+    } else {
+      json(res, err instanceof TypeError ? 400 : 500, { error: 'Bad request' });
+    }
+  }
+};
+
+if (Boolean(CERT_FILE) !== Boolean(KEY_FILE)) {
+  console.error('[Hub] Set both HUB_CERT_FILE and HUB_KEY_FILE to serve HTTPS');
+  process.exit(1);
+}
+const server = CERT_FILE
+  ? createTlsServer({ cert: readFileSync(CERT_FILE), key: readFileSync(KEY_FILE) }, handleRequestSafely)
+  : createServer(handleRequestSafely);
+
+// Keeps idle streams open through Wi-Fi access points that drop quiet connections
+setInterval(() => clients.forEach(client => client.write(': ping\n\n')), 25000);
+
+server.listen(PORT, () => {
+  console.log(`[Hub] Listening on port ${PORT} (${CERT_FILE ? 'https' : 'http'})`);
+});
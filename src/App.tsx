@@ -6,6 +6,7 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { DataProvider } from "@/components/DataProvider";
 import { OfflineIndicator } from "@/components/OfflineIndicator";
 import { SubscriptionGuard } from "@/components/SubscriptionGuard";
+import { StaffGuard } from "@/components/StaffGuard";
 import Hub from "./pages/Hub";
 import TableOrder from "./pages/TableOrder";
 import ScanTable from "./pages/ScanTable";
@@ -14,6 +15,7 @@ import Counter from "./pages/Counter";
 import Admin from "./pages/Admin";
 import Auth from "./pages/Auth";
 import Kitchen from "./pages/Kitchen";
+import PayOnline from "./pages/PayOnline";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -34,11 +36,14 @@ const App = () => (
               <Route path="/hub" element={<Hub />} />
               <Route path="/install" element={<Install />} />
               <Route path="/table/:tableNumber" element={<TableOrder />} />
+              {/* eSewa / Khalti checkout hand-off and return */}
+              <Route path="/pay" element={<PayOnline />} />
               
               {/* Staff routes */}
-              <Route path="/counter" element={<Counter />} />
-              <Route path="/admin" element={<Admin />} />
-              <Route path="/kitchen" element={<Kitchen />} />
+              <Route path="/counter" element={<StaffGuard permission="use_counter"><Counter /></StaffGuard>} />
+              <Route path="/admin" element={<StaffGuard><Admin /></StaffGuard>} />
+              <Route path="/kitchen" element={<StaffGuard permission="use_kitchen"><Kitchen /></StaffGuard>} />
+              <Route path="/kitchen/:station" element={<StaffGuard permission="use_kitchen"><Kitchen /></StaffGuard>} />
               <Route path="/auth" element={<Auth />} />
               
               <Route path="*" element={<NotFound />} />
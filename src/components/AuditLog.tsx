@@ -0,0 +1,135 @@
+import { memo, useCallback, useEffect, useMemo, useState } from 'react';
+import { RefreshCw, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BsDatePicker } from '@/components/BsDatePicker';
+import { useStore } from '@/store/useStore';
+import { auditActionLabels, getAuditChanges } from '@/lib/audit';
+import { getNepalDateDaysAgo, getNepalTodayString } from '@/lib/nepalTime';
+import { formatBsDateTime } from '@/lib/bikramSambat';
+import { AuditAction } from '@/types';
+
+// Read-only audit trail (audit tab of the admin panel)
+const AuditLog = memo(function AuditLog() {
+  const { auditLog, loadAuditLog } = useStore();
+  const [dateFrom, setDateFrom] = useState(getNepalDateDaysAgo(7));
+  const [dateTo, setDateTo] = useState(getNepalTodayString());
+  const [actionFilter, setActionFilter] = useState<AuditAction | 'all'>('all');
+  const [actorFilter, setActorFilter] = useState('all');
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Dates are picked in Nepal time; the server keeps UTC
+  const refresh = useCallback(() => {
+    setIsLoading(true);
+    loadAuditLog(`${dateFrom}T00:00:00+05:45`, `${dateTo}T23:59:59+05:45`)
+      .finally(() => setIsLoading(false));
+  }, [dateFrom, dateTo, loadAuditLog]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const actors = useMemo(() => [...new Set(auditLog.map(e => e.actorName))].sort(), [auditLog]);
+
+  const entries = auditLog.filter(e => {
+    if (actionFilter !== 'all' && e.action !== actionFilter) return false;
+    if (actorFilter !== 'all' && e.actorName !== actorFilter) return false;
+    if (!search) return true;
+    const q = search.toLowerCase();
+    return e.entityId.toLowerCase().includes(q) ||
+      JSON.stringify([e.before, e.after]).toLowerCase().includes(q);
+  });
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 mb-4">
+        <h2 className="text-lg md:text-2xl font-bold">Audit Log</h2>
+        <Button onClick={refresh} variant="outline" size="sm" className="w-full sm:w-auto" disabled={isLoading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} /> Refresh
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <div className="relative flex-1 min-w-[180px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Search order, phone, value..."
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <Select value={actionFilter} onValueChange={(v: AuditAction | 'all') => setActionFilter(v)}>
+          <SelectTrigger className="w-[200px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All actions</SelectItem>
+            {(Object.keys(auditActionLabels) as AuditAction[]).map(action => (
+              <SelectItem key={action} value={action}>{auditActionLabels[action]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={actorFilter} onValueChange={setActorFilter}>
+          <SelectTrigger className="w-[160px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Everyone</SelectItem>
+            {actors.map(actor => (
+              <SelectItem key={actor} value={actor}>{actor}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <BsDatePicker value={dateFrom} onChange={setDateFrom} placeholder="From" className="w-auto min-w-[150px]" />
+        <BsDatePicker value={dateTo} onChange={setDateTo} placeholder="To" className="w-auto min-w-[150px]" />
+      </div>
+
+      <div className="bg-card rounded-xl border border-border overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-muted">
+              <tr>
+                <th className="text-left p-4">Time</th>
+                <th className="text-left p-4">Who</th>
+                <th className="text-left p-4">Action</th>
+                <th className="text-left p-4">Record</th>
+                <th className="text-left p-4">Changes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="p-8 text-center text-muted-foreground">No audit entries for these filters</td>
+                </tr>
+              ) : entries.map(entry => (
+                <tr key={entry.id} className="border-t border-border align-top">
+                  <td className="p-4 whitespace-nowrap">{formatBsDateTime(entry.createdAt)}</td>
+                  <td className="p-4 whitespace-nowrap">{entry.actorName}</td>
+                  <td className="p-4 whitespace-nowrap">{auditActionLabels[entry.action] || entry.action}</td>
+                  <td className="p-4 font-mono text-xs">{entry.entityId}</td>
+                  <td className="p-4">
+                    <div className="space-y-1 max-w-xl">
+                      {getAuditChanges(entry.before, entry.after).map(change => (
+                        <div key={change.field} className="text-xs break-all">
+                          <span className="font-medium">{change.field}:</span>{' '}
+                          {change.before !== undefined && (
+                            <span className="text-destructive line-through mr-1">{change.before}</span>
+                          )}
+                          {change.after !== undefined && <span className="text-success">{change.after}</span>}
+                        </div>
+                      ))}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+      {auditLog.length >= 500 && (
+        <p className="text-xs text-muted-foreground mt-2">Showing the latest 500 entries - narrow the dates to see older ones</p>
+      )}
+    </div>
+  );
+});
+
+export { AuditLog };
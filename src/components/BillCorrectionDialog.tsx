@@ -0,0 +1,210 @@
+import { memo, useEffect, useState } from 'react';
+import { Minus, Plus, RotateCcw } from 'lucide-react';
+import { PaymentMethod, Transaction } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useStore } from '@/store/useStore';
+import { getTransactionTenders, roundMoney } from '@/lib/billing';
+import { formatItemName } from '@/lib/modifiers';
+import { PAYMENT_METHODS, paymentMethodLabels } from '@/lib/paymentGateways';
+import { getRefundableAmount, getRefundValue, isCorrectable, TransactionCorrection } from '@/lib/refunds';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+type CorrectionMode = TransactionCorrection['kind'];
+
+interface BillCorrectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sale: Transaction | null;
+  onCorrected?: (correction: Transaction) => void;
+}
+
+// Void or partly refund a paid sale (same day, reason and manager PIN required)
+const BillCorrectionDialog = memo(function BillCorrectionDialog({
+  open,
+  onOpenChange,
+  sale,
+  onCorrected,
+}: BillCorrectionDialogProps) {
+  const { transactions, correctTransaction } = useStore();
+  const [mode, setMode] = useState<CorrectionMode>('refund');
+  const [lineQty, setLineQty] = useState<Record<string, number>>({});
+  const [amountInput, setAmountInput] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [reason, setReason] = useState('');
+  const [pin, setPin] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open && sale) {
+      setMode('refund');
+      setLineQty({});
+      setAmountInput('');
+      setMethod(getTransactionTenders(sale)[0]?.method || 'cash');
+      setReason('');
+      setPin('');
+    }
+  }, [open, sale]);
+
+  if (!sale) return null;
+
+  const refundable = getRefundableAmount(sale, transactions);
+  // Refunds can go back on the customer's account only if the sale was charged to it
+  const refundMethods = PAYMENT_METHODS.filter(m => m !== 'account' || getTransactionTenders(sale).some(t => t.method === 'account'));
+  // Once part of a sale is refunded, only the remainder can be refunded
+  const canVoid = refundable === sale.total;
+  const selectedLines = sale.items
+    .filter(item => (lineQty[item.id] || 0) > 0)
+    .map(item => ({ ...item, qty: lineQty[item.id] }));
+  const suggestedAmount = Math.min(refundable, getRefundValue(sale, selectedLines));
+  const refundAmount = amountInput !== '' ? roundMoney(parseFloat(amountInput) || 0) : suggestedAmount;
+
+  const setQty = (id: string, qty: number, max: number) => {
+    setLineQty({ ...lineQty, [id]: Math.max(0, Math.min(max, qty)) });
+    setAmountInput('');
+  };
+
+  const handleSubmit = async () => {
+    if (!reason.trim()) {
+      toast.error('Please enter a reason');
+      return;
+    }
+    if (mode === 'refund' && (refundAmount <= 0 || refundAmount > refundable)) {
+      toast.error(`Refund must be between रू1 and रू${refundable}`);
+      return;
+    }
+    if (pin.length < 4) {
+      toast.error('Manager PIN required');
+      return;
+    }
+
+    const correction: TransactionCorrection = mode === 'void'
+      ? { kind: 'void', reason: reason.trim() }
+      : { kind: 'refund', reason: reason.trim(), amount: refundAmount, method, items: selectedLines };
+
+    setIsSubmitting(true);
+    try {
+      const result = await correctTransaction(sale.id, correction, pin);
+      toast.success(mode === 'void'
+        ? `Sale voided (approved by ${result.approvedBy})`
+        : `रू${refundAmount} refunded (approved by ${result.approvedBy})`);
+      onCorrected?.(result);
+      onOpenChange(false);
+    } catch (error) {
+      // The database explains what was wrong (PIN, amount, day)
+      toast.error((error as { message?: string })?.message || 'Could not correct the sale');
+      setPin('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md w-[calc(100%-2rem)] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RotateCcw className="w-5 h-5 text-destructive" />
+            Void / Refund #{sale.id.slice(-6)}
+          </DialogTitle>
+        </DialogHeader>
+
+        {!isCorrectable(sale) || refundable <= 0 ? (
+          <p className="py-4 text-sm text-muted-foreground">
+            {refundable <= 0 ? 'This sale has already been fully reversed.' : "Only today's sales can be voided or refunded."}
+          </p>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-2 gap-2">
+              {(['refund', 'void'] as CorrectionMode[]).map(m => (
+                <Button
+                  key={m}
+                  variant={mode === m ? 'default' : 'outline'}
+                  disabled={m === 'void' && !canVoid}
+                  onClick={() => setMode(m)}
+                >
+                  {m === 'void' ? 'Void whole sale' : 'Partial refund'}
+                </Button>
+              ))}
+            </div>
+
+            {mode === 'void' ? (
+              <div className="p-3 rounded-xl bg-destructive/10 text-sm">
+                <div className="flex justify-between font-bold">
+                  <span>Reverse</span>
+                  <span>रू{sale.total}</span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Every tender is reversed and the bill reopens so it can be billed again.
+                </p>
+              </div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  {sale.items.map(item => {
+                    const qty = lineQty[item.id] || 0;
+                    return (
+                      <div key={item.id} className={cn('flex items-center justify-between text-sm', qty > 0 && 'font-medium')}>
+                        <span className="flex-1">{item.qty}x {formatItemName(item)}</span>
+                        <div className="flex items-center gap-2">
+                          <Button size="icon" variant="outline" className="h-7 w-7" onClick={() => setQty(item.id, qty - 1, item.qty)}>
+                            <Minus className="w-3 h-3" />
+                          </Button>
+                          <span className="w-5 text-center">{qty}</span>
+                          <Button size="icon" variant="outline" className="h-7 w-7" onClick={() => setQty(item.id, qty + 1, item.qty)}>
+                            <Plus className="w-3 h-3" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    type="number"
+                    placeholder={`Amount (max ${refundable})`}
+                    value={amountInput !== '' ? amountInput : suggestedAmount || ''}
+                    onChange={(e) => setAmountInput(e.target.value)}
+                  />
+                  <Select value={method} onValueChange={(v: PaymentMethod) => setMethod(v)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {refundMethods.map(m => (
+                        <SelectItem key={m} value={m}>{paymentMethodLabels[m]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+
+            <Input placeholder="Reason (required)" value={reason} onChange={(e) => setReason(e.target.value)} />
+            <Input
+              type="password"
+              inputMode="numeric"
+              maxLength={6}
+              placeholder="Manager PIN"
+              value={pin}
+              onChange={(e) => setPin(e.target.value.slice(0, 6))}
+              autoComplete="off"
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          {isCorrectable(sale) && refundable > 0 && (
+            <Button variant="destructive" onClick={handleSubmit} disabled={isSubmitting}>
+              {mode === 'void' ? `Void रू${sale.total}` : `Refund रू${refundAmount}`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+});
+
+export { BillCorrectionDialog };
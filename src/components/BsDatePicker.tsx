@@ -0,0 +1,114 @@
+import { memo, useState } from 'react';
+import { CalendarDays, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { adToBs, BS_MONTHS, bsToAd, formatBsDateReadable, getBsMonthDays, getBsToday, isBsYearSupported } from '@/lib/bikramSambat';
+import { getNepalTodayString } from '@/lib/nepalTime';
+import { cn } from '@/lib/utils';
+
+const WEEKDAYS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+
+interface BsDatePickerProps {
+  value: string; // AD date (YYYY-MM-DD) so filters keep comparing AD dates, or '' for none
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+// Date picker laid out as a Bikram Sambat month
+const BsDatePicker = memo(function BsDatePicker({
+  value,
+  onChange,
+  placeholder = 'Pick date',
+  className,
+}: BsDatePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [view, setView] = useState({ year: 0, month: 1 });
+
+  const selected = value ? adToBs(value) : null;
+  const today = getBsToday();
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      const start = selected ?? today;
+      if (start) setView({ year: start.year, month: start.month });
+    }
+    setOpen(next);
+  };
+
+  const shiftMonth = (delta: number) => {
+    const index = view.year * 12 + (view.month - 1) + delta;
+    const year = Math.floor(index / 12);
+    if (isBsYearSupported(year)) setView({ year, month: (index % 12) + 1 });
+  };
+
+  const firstDay = bsToAd({ year: view.year, month: view.month, day: 1 });
+  const leadingBlanks = firstDay ? new Date(firstDay).getUTCDay() : 0;
+  const days = Array.from({ length: getBsMonthDays(view.year, view.month) }, (_, i) => i + 1);
+
+  const pick = (day: number) => {
+    const ad = bsToAd({ year: view.year, month: view.month, day });
+    if (!ad) return;
+    onChange(ad);
+    setOpen(false);
+  };
+
+  const isDay = (date: typeof selected, day: number) =>
+    date?.year === view.year && date.month === view.month && date.day === day;
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className={cn('justify-start font-normal', !value && 'text-muted-foreground', className)}>
+          <CalendarDays className="w-4 h-4 mr-2 shrink-0" />
+          <span className="truncate">{value ? formatBsDateReadable(value) : placeholder}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-3" align="start">
+        <div className="flex items-center justify-between mb-2">
+          <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => shiftMonth(-1)}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-sm font-medium">{BS_MONTHS[view.month - 1]} {view.year}</span>
+          <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => shiftMonth(1)}>
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="grid grid-cols-7 gap-1 text-center text-xs">
+          {WEEKDAYS.map(day => (
+            <span key={day} className="text-muted-foreground py-1">{day}</span>
+          ))}
+          {Array.from({ length: leadingBlanks }, (_, i) => <span key={`blank-${i}`} />)}
+          {days.map(day => (
+            <button
+              key={day}
+              onClick={() => pick(day)}
+              className={cn(
+                'h-8 rounded-md hover:bg-muted',
+                isDay(today, day) && 'ring-1 ring-primary',
+                isDay(selected, day) && 'bg-primary text-primary-foreground hover:bg-primary'
+              )}
+            >
+              {day}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center justify-between mt-3 text-xs text-muted-foreground">
+          <span>{value ? `${value} AD` : ''}</span>
+          <div className="flex gap-1">
+            {value && (
+              <Button size="sm" variant="ghost" className="h-7" onClick={() => { onChange(''); setOpen(false); }}>
+                Clear
+              </Button>
+            )}
+            <Button size="sm" variant="ghost" className="h-7" onClick={() => { onChange(getNepalTodayString()); setOpen(false); }}>
+              Today
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+});
+
+export { BsDatePicker };
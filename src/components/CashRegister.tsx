@@ -2,64 +2,141 @@ import { useState, memo } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Wallet, Calculator, TrendingUp, TrendingDown, Clock } from 'lucide-react';
-import { formatNepalDateTime } from '@/lib/nepalTime';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Wallet, TrendingUp, TrendingDown, Clock, Printer, ArrowLeftRight } from 'lucide-react';
+import { useStore } from '@/store/useStore';
+import { CashMovementType, RegisterSession } from '@/types';
+import { formatNepalDateTime, formatNepalTime } from '@/lib/nepalTime';
+import {
+  NPR_DENOMINATIONS,
+  getDenominationTotal,
+  getRegisterSummary,
+  movementLabels,
+  printZReport,
+} from '@/lib/register';
 import { toast } from 'sonner';
 
 interface CashRegisterProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  todayRevenue: number;
-  todayExpenses: number;
-  cashPayments: number;
-  fonepayPayments: number;
 }
 
 const CashRegister = memo(function CashRegister({
   open,
   onOpenChange,
-  todayRevenue,
-  todayExpenses,
-  cashPayments,
-  fonepayPayments,
 }: CashRegisterProps) {
+  const {
+    transactions,
+    expenses,
+    settings,
+    currentUser,
+    getOpenRegisterSession,
+    openRegister,
+    addCashMovement,
+    closeRegister,
+  } = useStore();
+
   const [openingBalance, setOpeningBalance] = useState<string>('');
-  const [isRegisterOpen, setIsRegisterOpen] = useState(false);
-  const [registerOpenTime, setRegisterOpenTime] = useState<string>('');
+  const [movementType, setMovementType] = useState<CashMovementType>('cash_in');
+  const [movementAmount, setMovementAmount] = useState('');
+  const [movementReason, setMovementReason] = useState('');
+  const [isCounting, setIsCounting] = useState(false);
+  const [denominations, setDenominations] = useState<Record<string, number>>({});
+  const [closedSession, setClosedSession] = useState<RegisterSession | null>(null);
 
-  const expectedCash = (parseFloat(openingBalance) || 0) + cashPayments - todayExpenses;
-  const totalInRegister = cashPayments + fonepayPayments;
+  const session = getOpenRegisterSession();
+  const summary = session ? getRegisterSummary(session, transactions, expenses) : null;
+  const countedCash = getDenominationTotal(denominations);
+  const staffName = currentUser?.name || 'Counter';
 
   const handleOpenRegister = () => {
     if (!openingBalance || parseFloat(openingBalance) < 0) {
       toast.error('Please enter a valid opening balance');
       return;
     }
-    setIsRegisterOpen(true);
-    setRegisterOpenTime(new Date().toISOString());
+    if (!openRegister(parseFloat(openingBalance), staffName)) {
+      toast.error('A register is already open');
+      return;
+    }
+    setOpeningBalance('');
+    setClosedSession(null);
     toast.success('Cash register opened');
   };
 
+  const handleAddMovement = () => {
+    const amount = parseFloat(movementAmount);
+    if (!amount || amount <= 0) {
+      toast.error('Please enter a valid amount');
+      return;
+    }
+    if (!movementReason.trim()) {
+      toast.error('Please enter a reason');
+      return;
+    }
+    addCashMovement(movementType, amount, movementReason.trim(), staffName);
+    setMovementAmount('');
+    setMovementReason('');
+    toast.success(`${movementLabels[movementType]} recorded`);
+  };
+
   const handleCloseRegister = () => {
-    setIsRegisterOpen(false);
+    if (!confirm(`Close register with counted cash रू${countedCash}?`)) return;
+    const closed = closeRegister(denominations, staffName);
+    if (!closed) return;
+    setClosedSession(closed);
+    setIsCounting(false);
+    setDenominations({});
     toast.success('Cash register closed');
   };
 
+  const handleOpenChange = (value: boolean) => {
+    if (!value) {
+      setIsCounting(false);
+      setClosedSession(null);
+    }
+    onOpenChange(value);
+  };
+
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-md">
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Wallet className="w-5 h-5 text-primary" />
-            Daily Cash Register
+            Cash Register
           </DialogTitle>
         </DialogHeader>
 
         <div className="space-y-4 py-4">
-          {!isRegisterOpen ? (
+          {closedSession ? (
+            // Close result - variance is only revealed after the blind count
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="p-3 rounded-xl bg-muted/50">
+                  <div className="text-xs text-muted-foreground mb-1">Expected</div>
+                  <div className="text-lg font-bold">रू{(closedSession.expectedCash ?? 0).toLocaleString()}</div>
+                </div>
+                <div className="p-3 rounded-xl bg-muted/50">
+                  <div className="text-xs text-muted-foreground mb-1">Counted</div>
+                  <div className="text-lg font-bold">रू{(closedSession.countedCash ?? 0).toLocaleString()}</div>
+                </div>
+              </div>
+              <div className={`p-4 rounded-xl text-center ${
+                (closedSession.variance ?? 0) === 0 ? 'bg-success/10 text-success' : 'bg-destructive/10 text-destructive'
+              }`}>
+                <div className="text-xs mb-1">Variance</div>
+                <div className="text-2xl font-bold">
+                  {(closedSession.variance ?? 0) > 0 ? '+' : ''}रू{(closedSession.variance ?? 0).toLocaleString()}
+                </div>
+              </div>
+              <Button variant="outline" className="w-full" onClick={() => printZReport(closedSession, settings.restaurantName)}>
+                <Printer className="w-4 h-4 mr-2" /> Print Z-Report
+              </Button>
+            </div>
+          ) : !session || !summary ? (
             <div className="space-y-4">
               <div>
-                <label className="text-sm font-medium text-muted-foreground">Opening Balance</label>
+                <label className="text-sm font-medium text-muted-foreground">Opening Float</label>
                 <div className="relative mt-1">
                   <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">रू</span>
                   <Input
@@ -75,6 +152,29 @@ const CashRegister = memo(function CashRegister({
                 Open Register
               </Button>
             </div>
+          ) : isCounting ? (
+            // Blind count - the expected amount is not shown until the register is closed
+            <div className="space-y-3">
+              <h4 className="font-semibold">Count the drawer</h4>
+              <div className="grid grid-cols-2 gap-2">
+                {NPR_DENOMINATIONS.map(note => (
+                  <div key={note} className="flex items-center gap-2">
+                    <span className="w-14 text-sm text-right text-muted-foreground">रू{note} ×</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={denominations[note] || ''}
+                      onChange={(e) => setDenominations({ ...denominations, [note]: Math.max(0, parseInt(e.target.value) || 0) })}
+                      placeholder="0"
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between font-bold border-t pt-3">
+                <span>Counted Cash</span>
+                <span className="text-primary">रू{countedCash.toLocaleString()}</span>
+              </div>
+            </div>
           ) : (
             <div className="space-y-4">
               {/* Register Status */}
@@ -82,11 +182,11 @@ const CashRegister = memo(function CashRegister({
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2 text-success">
                     <div className="w-2 h-2 bg-success rounded-full animate-pulse" />
-                    <span className="text-sm font-medium">Register Open</span>
+                    <span className="text-sm font-medium">Register Open · {session.openedBy}</span>
                   </div>
                   <div className="flex items-center gap-1 text-xs text-muted-foreground">
                     <Clock className="w-3 h-3" />
-                    {registerOpenTime && formatNepalDateTime(new Date(registerOpenTime))}
+                    {formatNepalDateTime(session.openedAt)}
                   </div>
                 </div>
               </div>
@@ -94,26 +194,28 @@ const CashRegister = memo(function CashRegister({
               {/* Summary Cards */}
               <div className="grid grid-cols-2 gap-3">
                 <div className="p-3 rounded-xl bg-muted/50">
-                  <div className="text-xs text-muted-foreground mb-1">Opening</div>
-                  <div className="text-lg font-bold">रू{parseFloat(openingBalance).toLocaleString()}</div>
+                  <div className="text-xs text-muted-foreground mb-1">Opening Float</div>
+                  <div className="text-lg font-bold">रू{session.openingFloat.toLocaleString()}</div>
                 </div>
                 <div className="p-3 rounded-xl bg-success/10">
                   <div className="text-xs text-success mb-1 flex items-center gap-1">
-                    <TrendingUp className="w-3 h-3" /> Cash In
+                    <TrendingUp className="w-3 h-3" /> Cash Sales
                   </div>
-                  <div className="text-lg font-bold text-success">रू{cashPayments.toLocaleString()}</div>
+                  <div className="text-lg font-bold text-success">रू{summary.cashPayments.toLocaleString()}</div>
                 </div>
                 <div className="p-3 rounded-xl bg-destructive/10">
                   <div className="text-xs text-destructive mb-1 flex items-center gap-1">
-                    <TrendingDown className="w-3 h-3" /> Cash Out
+                    <TrendingDown className="w-3 h-3" /> Expenses
                   </div>
-                  <div className="text-lg font-bold text-destructive">रू{todayExpenses.toLocaleString()}</div>
+                  <div className="text-lg font-bold text-destructive">रू{summary.expenseTotal.toLocaleString()}</div>
                 </div>
                 <div className="p-3 rounded-xl bg-primary/10">
                   <div className="text-xs text-primary mb-1 flex items-center gap-1">
-                    <Calculator className="w-3 h-3" /> Expected
+                    <ArrowLeftRight className="w-3 h-3" /> In / Out
+                  </div>
+                  <div className="text-lg font-bold text-primary">
+                    +{summary.cashIn.toLocaleString()} / −{(summary.cashOut + summary.payouts).toLocaleString()}
                   </div>
-                  <div className="text-lg font-bold text-primary">रू{expectedCash.toLocaleString()}</div>
                 </div>
               </div>
 
@@ -123,27 +225,89 @@ const CashRegister = memo(function CashRegister({
                 <div className="space-y-2 text-sm">
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Cash Payments</span>
-                    <span className="font-medium">रू{cashPayments.toLocaleString()}</span>
+                    <span className="font-medium">रू{summary.cashPayments.toLocaleString()}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Fonepay Payments</span>
-                    <span className="font-medium">रू{fonepayPayments.toLocaleString()}</span>
+                    <span className="font-medium">रू{summary.fonepayPayments.toLocaleString()}</span>
                   </div>
+                  {summary.esewaPayments !== 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">eSewa Payments</span>
+                      <span className="font-medium">रू{summary.esewaPayments.toLocaleString()}</span>
+                    </div>
+                  )}
+                  {summary.khaltiPayments !== 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Khalti Payments</span>
+                      <span className="font-medium">रू{summary.khaltiPayments.toLocaleString()}</span>
+                    </div>
+                  )}
                   <div className="border-t pt-2 mt-2 flex justify-between font-bold">
                     <span>Total Revenue</span>
-                    <span className="text-primary">रू{todayRevenue.toLocaleString()}</span>
+                    <span className="text-primary">रू{summary.revenue.toLocaleString()}</span>
                   </div>
                 </div>
               </div>
+
+              {/* Cash movements */}
+              <div className="p-4 rounded-xl border bg-card space-y-3">
+                <h4 className="font-semibold">Cash Movements</h4>
+                <div className="grid grid-cols-2 gap-2">
+                  <Select value={movementType} onValueChange={(v: CashMovementType) => setMovementType(v)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(movementLabels) as CashMovementType[]).map(type => (
+                        <SelectItem key={type} value={type}>{movementLabels[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    placeholder="Amount"
+                    value={movementAmount}
+                    onChange={(e) => setMovementAmount(e.target.value)}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Reason"
+                    value={movementReason}
+                    onChange={(e) => setMovementReason(e.target.value)}
+                  />
+                  <Button variant="outline" onClick={handleAddMovement}>Record</Button>
+                </div>
+                {session.movements.length > 0 && (
+                  <div className="space-y-1 text-sm max-h-32 overflow-y-auto">
+                    {[...session.movements].reverse().map(m => (
+                      <div key={m.id} className="flex justify-between">
+                        <span className="text-muted-foreground">
+                          {formatNepalTime(m.createdAt)} · {movementLabels[m.type]} · {m.reason}
+                        </span>
+                        <span className={m.type === 'cash_in' ? 'text-success' : 'text-destructive'}>
+                          {m.type === 'cash_in' ? '+' : '−'}रू{m.amount}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
             </div>
           )}
         </div>
 
-        {isRegisterOpen && (
+        {session && !closedSession && (
           <DialogFooter>
-            <Button variant="outline" onClick={handleCloseRegister}>
-              Close Register
-            </Button>
+            {isCounting ? (
+              <>
+                <Button variant="outline" onClick={() => setIsCounting(false)}>Back</Button>
+                <Button onClick={handleCloseRegister}>Close Register</Button>
+              </>
+            ) : (
+              <Button variant="outline" onClick={() => setIsCounting(true)}>
+                Close Register
+              </Button>
+            )}
           </DialogFooter>
         )}
       </DialogContent>
@@ -0,0 +1,317 @@
+import { memo, useMemo, useState } from 'react';
+import { Download, Edit, FileText, Loader2, Plus, Printer, Wallet } from 'lucide-react';
+import { AccountPaymentMethod, Customer } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useStore } from '@/store/useStore';
+import {
+  ACCOUNT_PAYMENT_METHODS, AGING_BUCKETS, exportAccountStatement, getAccountAging, getAccountEntries,
+  hasAccount, printAccountStatement,
+} from '@/lib/accounts';
+import { formatBsDate } from '@/lib/bikramSambat';
+import { paymentMethodLabels } from '@/lib/paymentGateways';
+import { phoneSchema, sanitizeText } from '@/lib/validation';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+// Customer accounts (khata): tabs, what's owed and for how long (accounts tab of the admin panel)
+const CustomerAccounts = memo(function CustomerAccounts() {
+  const {
+    customers, transactions, accountPayments, settings,
+    setCustomerCreditLimit, recordAccountPayment, getOpenRegisterSession,
+  } = useStore();
+  const [limitTarget, setLimitTarget] = useState<Customer | 'new' | null>(null);
+  const [limitPhone, setLimitPhone] = useState('');
+  const [limitAmount, setLimitAmount] = useState('');
+  const [savingLimit, setSavingLimit] = useState(false);
+  const [payTarget, setPayTarget] = useState<Customer | null>(null);
+  const [payAmount, setPayAmount] = useState('');
+  const [payMethod, setPayMethod] = useState<AccountPaymentMethod>('cash');
+  const [payNote, setPayNote] = useState('');
+  const [statementTarget, setStatementTarget] = useState<Customer | null>(null);
+
+  // Open accounts, and closed ones that still owe or are owed money
+  const accounts = useMemo(() => customers
+    .map(customer => {
+      const entries = getAccountEntries(customer.phone, transactions, accountPayments);
+      const balance = entries[entries.length - 1]?.balance ?? 0;
+      return { customer, entries, balance, aging: getAccountAging(entries) };
+    })
+    .filter(a => hasAccount(a.customer) || a.balance !== 0)
+    .sort((a, b) => b.balance - a.balance), [customers, transactions, accountPayments]);
+
+  const totalOwed = accounts.reduce((sum, a) => sum + Math.max(0, a.balance), 0);
+  const agingTotals = AGING_BUCKETS.map((_, i) => accounts.reduce((sum, a) => sum + a.aging[i], 0));
+  const getAccount = (phone: string) => accounts.find(a => a.customer.phone === phone);
+  const statement = statementTarget ? getAccount(statementTarget.phone) : undefined;
+
+  const openLimit = (customer: Customer | null) => {
+    setLimitTarget(customer ?? 'new');
+    setLimitPhone('');
+    setLimitAmount(customer?.creditLimit ? String(customer.creditLimit) : '');
+  };
+
+  const saveLimit = async (close = false) => {
+    const phone = limitTarget === 'new' ? limitPhone.trim() : limitTarget?.phone;
+    if (!phone) return;
+    if (limitTarget === 'new') {
+      const result = phoneSchema.safeParse(phone);
+      if (!result.success) {
+        toast.error(result.error.errors[0].message);
+        return;
+      }
+      if (hasAccount(customers.find(c => c.phone === phone))) {
+        toast.error('This customer already has an account');
+        return;
+      }
+    }
+    const limit = Math.max(0, parseFloat(limitAmount) || 0);
+    setSavingLimit(true);
+    try {
+      await setCustomerCreditLimit(phone, close ? null : limit);
+      toast.success(close ? 'Account closed' : limitTarget === 'new' ? 'Account opened' : 'Limit updated');
+      setLimitTarget(null);
+    } catch (err) {
+      console.error('[Accounts] Saving the limit failed:', err);
+      toast.error('Could not save the account');
+    } finally {
+      setSavingLimit(false);
+    }
+  };
+
+  const openPay = (customer: Customer) => {
+    const balance = getAccount(customer.phone)?.balance ?? 0;
+    setPayTarget(customer);
+    setPayAmount(balance > 0 ? String(balance) : '');
+    setPayMethod('cash');
+    setPayNote('');
+  };
+
+  const handlePay = () => {
+    if (!payTarget) return;
+    const amount = parseFloat(payAmount);
+    if (isNaN(amount) || amount <= 0) {
+      toast.error('Please enter an amount');
+      return;
+    }
+    recordAccountPayment(payTarget.phone, amount, payMethod, sanitizeText(payNote));
+    toast.success(`Received रू${amount} from ${payTarget.name || payTarget.phone}`);
+    setPayTarget(null);
+  };
+
+  const limitCustomer = limitTarget !== 'new' ? limitTarget : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h2 className="text-lg md:text-2xl font-bold">Customer Accounts</h2>
+          <p className="text-xs md:text-sm text-muted-foreground mt-1">
+            Bills charged to a tab at the counter · Outstanding: रू{totalOwed.toLocaleString()}
+          </p>
+        </div>
+        <Button onClick={() => openLimit(null)} className="gradient-primary">
+          <Plus className="w-4 h-4 mr-2" /> Open Account
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {AGING_BUCKETS.map((bucket, i) => (
+          <div key={bucket.label} className="bg-card p-4 rounded-xl border border-border">
+            <div className="text-xs md:text-sm text-muted-foreground mb-1">{bucket.label}</div>
+            <div className={cn('text-lg md:text-xl font-bold', i === AGING_BUCKETS.length - 1 && agingTotals[i] > 0 && 'text-destructive')}>
+              रू{agingTotals[i].toLocaleString()}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-card rounded-xl border border-border overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-muted">
+              <tr>
+                <th className="text-left p-4">Customer</th>
+                <th className="text-right p-4">Limit</th>
+                <th className="text-right p-4">Balance</th>
+                {AGING_BUCKETS.map(bucket => <th key={bucket.label} className="text-right p-4 whitespace-nowrap">{bucket.label}</th>)}
+                <th className="text-right p-4">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {accounts.length === 0 ? (
+                <tr><td colSpan={4 + AGING_BUCKETS.length} className="p-8 text-center text-muted-foreground">No customer accounts yet</td></tr>
+              ) : accounts.map(({ customer, balance, aging }) => {
+                const overLimit = !!customer.creditLimit && balance > customer.creditLimit;
+                return (
+                  <tr key={customer.phone} className="border-t border-border">
+                    <td className="p-4">
+                      <div className="font-medium">{customer.name || customer.phone}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {customer.name && customer.phone}
+                        {!hasAccount(customer) && ' · closed'}
+                      </div>
+                    </td>
+                    <td className="p-4 text-right whitespace-nowrap">
+                      {!hasAccount(customer) ? '—' : customer.creditLimit ? `रू${customer.creditLimit.toLocaleString()}` : 'No limit'}
+                    </td>
+                    <td className={cn('p-4 text-right whitespace-nowrap font-semibold', overLimit && 'text-destructive', balance < 0 && 'text-success')}>
+                      रू{balance.toLocaleString()}
+                    </td>
+                    {aging.map((amount, i) => (
+                      <td key={i} className="p-4 text-right whitespace-nowrap text-muted-foreground">{amount ? `रू${amount.toLocaleString()}` : '—'}</td>
+                    ))}
+                    <td className="p-4">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="outline" size="sm" onClick={() => openPay(customer)}>
+                          <Wallet className="w-4 h-4 mr-1" /> Receive
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setStatementTarget(customer)}>
+                          <FileText className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => openLimit(customer)}>
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Open account / change limit */}
+      <Dialog open={!!limitTarget} onOpenChange={(open) => !open && setLimitTarget(null)}>
+        <DialogContent className="max-w-sm w-[calc(100%-2rem)]">
+          <DialogHeader>
+            <DialogTitle>{limitCustomer ? `${limitCustomer.name || limitCustomer.phone} Account` : 'Open Account'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3 py-2">
+            {!limitCustomer && (
+              <Input
+                type="tel"
+                inputMode="numeric"
+                maxLength={10}
+                placeholder="Customer phone (98XXXXXXXX)"
+                value={limitPhone}
+                onChange={e => setLimitPhone(e.target.value.replace(/\D/g, ''))}
+              />
+            )}
+            <Input
+              type="number"
+              min={0}
+              placeholder="Credit limit (रू, blank for no limit)"
+              value={limitAmount}
+              onChange={e => setLimitAmount(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">The counter won't charge bills that would take the balance over the limit.</p>
+          </div>
+          <DialogFooter className="gap-2">
+            {limitCustomer && hasAccount(limitCustomer) && (
+              <Button variant="outline" onClick={() => saveLimit(true)} disabled={savingLimit} className="sm:mr-auto">
+                Close Account
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setLimitTarget(null)}>Cancel</Button>
+            <Button onClick={() => saveLimit()} className="gradient-primary" disabled={savingLimit}>
+              {savingLimit && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {limitCustomer && hasAccount(limitCustomer) ? 'Save' : 'Open'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Receive payment */}
+      <Dialog open={!!payTarget} onOpenChange={(open) => !open && setPayTarget(null)}>
+        <DialogContent className="max-w-sm w-[calc(100%-2rem)]">
+          <DialogHeader><DialogTitle>Payment from {payTarget?.name || payTarget?.phone}</DialogTitle></DialogHeader>
+          {payTarget && (
+            <div className="space-y-3 py-2">
+              <p className="text-sm text-muted-foreground">Owes: रू{(getAccount(payTarget.phone)?.balance ?? 0).toLocaleString()}</p>
+              <Input type="number" min={0} placeholder="Amount (रू)" value={payAmount} onChange={e => setPayAmount(e.target.value)} />
+              <Select value={payMethod} onValueChange={(v: AccountPaymentMethod) => setPayMethod(v)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {ACCOUNT_PAYMENT_METHODS.map(method => (
+                    <SelectItem key={method} value={method}>{paymentMethodLabels[method]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {payMethod === 'cash' && (
+                <p className="text-xs text-muted-foreground">
+                  {getOpenRegisterSession() ? 'Recorded as cash in to the open register' : 'No register is open, so the till is not affected'}
+                </p>
+              )}
+              <Input placeholder="Note (optional)" value={payNote} onChange={e => setPayNote(e.target.value)} />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPayTarget(null)}>Cancel</Button>
+            <Button onClick={handlePay} className="gradient-primary">Record Payment</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Statement */}
+      <Dialog open={!!statementTarget} onOpenChange={(open) => !open && setStatementTarget(null)}>
+        <DialogContent className="max-w-2xl w-[calc(100%-2rem)] max-h-[90vh] overflow-y-auto">
+          <DialogHeader><DialogTitle>Statement · {statementTarget?.name || statementTarget?.phone}</DialogTitle></DialogHeader>
+          {statementTarget && statement && (
+            <div className="space-y-3">
+              <div className="overflow-x-auto border border-border rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted">
+                    <tr>
+                      <th className="text-left p-2">Date</th>
+                      <th className="text-left p-2">Details</th>
+                      <th className="text-right p-2">Charge</th>
+                      <th className="text-right p-2">Paid</th>
+                      <th className="text-right p-2">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {statement.entries.length === 0 ? (
+                      <tr><td colSpan={5} className="p-6 text-center text-muted-foreground">Nothing on this account yet</td></tr>
+                    ) : statement.entries.map(entry => (
+                      <tr key={entry.id} className="border-t border-border">
+                        <td className="p-2 whitespace-nowrap">{formatBsDate(entry.date)}</td>
+                        <td className="p-2">{entry.description}</td>
+                        <td className="p-2 text-right">{entry.amount > 0 ? `रू${entry.amount}` : ''}</td>
+                        <td className="p-2 text-right text-success">{entry.amount < 0 ? `रू${-entry.amount}` : ''}</td>
+                        <td className="p-2 text-right font-medium">रू{entry.balance}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="flex justify-between font-bold">
+                <span>Balance due</span>
+                <span>रू{statement.balance.toLocaleString()}</span>
+              </div>
+            </div>
+          )}
+          <DialogFooter className="gap-2">
+            <Button
+              variant="outline"
+              onClick={() => statementTarget && statement && exportAccountStatement(statementTarget, statement.entries)}
+            >
+              <Download className="w-4 h-4 mr-2" /> Export CSV
+            </Button>
+            <Button
+              onClick={() => statementTarget && statement && printAccountStatement(statementTarget, statement.entries, settings.restaurantName)}
+              className="gradient-primary"
+            >
+              <Printer className="w-4 h-4 mr-2" /> Print
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+});
+
+export { CustomerAccounts };
@@ -0,0 +1,104 @@
+import { memo, useCallback, useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CustomerLoyalty } from '@/types';
+import { useStore } from '@/store/useStore';
+import { LoyaltyHistory } from '@/components/LoyaltyHistory';
+
+interface CustomerPointsPanelProps {
+  phone: string;
+  onAdjusted?: (balance: number) => void;
+}
+
+// Points ledger in the admin's customer details, with manual adjustments for
+// staff allowed to make them (complaints, goodwill, mistakes at the counter)
+const CustomerPointsPanel = memo(function CustomerPointsPanel({ phone, onAdjusted }: CustomerPointsPanelProps) {
+  const { fetchCustomerLoyalty, adjustCustomerPoints, hasPermission } = useStore();
+  const [loyalty, setLoyalty] = useState<CustomerLoyalty | null>(null);
+  const [points, setPoints] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(() => {
+    fetchCustomerLoyalty(phone).then(setLoyalty);
+  }, [phone, fetchCustomerLoyalty]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const adjust = async () => {
+    const change = parseInt(points, 10);
+    if (!change) {
+      toast.error('Enter the points to add or take away');
+      return;
+    }
+    if (!reason.trim()) {
+      toast.error('Enter a reason');
+      return;
+    }
+    if (loyalty && loyalty.points + change < 0) {
+      toast.error(`Only ${loyalty.points} points to take away`);
+      return;
+    }
+    setSaving(true);
+    try {
+      await adjustCustomerPoints(phone, change, reason.trim());
+      const balance = (loyalty?.points ?? 0) + change;
+      onAdjusted?.(balance);
+      toast.success(`Points ${change > 0 ? 'added' : 'removed'}`);
+      setPoints('');
+      setReason('');
+      load();
+    } catch (err) {
+      console.error('[Customers] Points adjustment failed:', err);
+      toast.error('Could not adjust points');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Points History</p>
+        {loyalty?.tier && <span className="text-xs bg-warning/10 text-warning px-2 py-1 rounded-full">{loyalty.tier}</span>}
+      </div>
+
+      {!loyalty ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="max-h-60 overflow-y-auto border border-border rounded-lg px-3">
+          <LoyaltyHistory entries={loyalty.entries} />
+        </div>
+      )}
+
+      {hasPermission('adjust_points') && (
+        <div className="space-y-2 border-t border-border pt-3">
+          <p className="text-sm font-medium">Adjust Points</p>
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              step="1"
+              placeholder="+50 or -20"
+              value={points}
+              onChange={e => setPoints(e.target.value)}
+              className="w-28"
+            />
+            <Input placeholder="Reason" value={reason} onChange={e => setReason(e.target.value)} />
+          </div>
+          <Button size="sm" onClick={adjust} disabled={saving || !loyalty}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Adjustment
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export { CustomerPointsPanel };
@@ -6,25 +6,166 @@ import {
   ordersApi,
   billsApi,
   customersApi,
-  staffApi,
   settingsApi,
   expensesApi,
+  registerSessionsApi,
   waiterCallsApi,
   transactionsApi,
   categoriesApi,
+  ingredientsApi,
+  diningTablesApi,
+  promotionsApi,
+  accountPaymentsApi,
+  reservationsApi,
   checkBackendHealth,
 } from '@/lib/apiClient';
+import { offlineStorage, StaffSnapshot } from '@/lib/offlineStorage';
+import { Bill, Order, WaiterCall } from '@/types';
+import { outbox, describeOutboxEntry } from '@/lib/outbox';
+import { lanHub } from '@/lib/lanHub';
 import { Loader2, Cloud, CloudOff } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
 
 interface DataProviderProps {
   children: React.ReactNode;
 }
 
+const SNAPSHOT_DELAY_MS = 2000;
+
+const takeSnapshot = (): StaffSnapshot | null => {
+  const state = useStore.getState();
+  if (!state.isAuthenticated || !state.sessionToken || !state.currentUser || !state.isDataLoaded) return null;
+  return {
+    token: state.sessionToken,
+    currentUser: state.currentUser,
+    settings: state.settings,
+    menuItems: state.menuItems,
+    categories: state.categories,
+    orders: state.orders,
+    bills: state.bills,
+    transactions: state.transactions,
+    expenses: state.expenses,
+    waiterCalls: state.waiterCalls,
+    registerSessions: state.registerSessions,
+    ingredients: state.ingredients,
+    diningTables: state.diningTables,
+    promotions: state.promotions,
+    accountPayments: state.accountPayments,
+    customers: state.customers,
+    reservations: state.reservations,
+    savedAt: Date.now(),
+  };
+};
+
+const restoreSnapshot = (snapshot: StaffSnapshot) => {
+  const store = useStore.getState();
+  store.setMenuItems(snapshot.menuItems);
+  store.setOrders(snapshot.orders);
+  store.setBills(snapshot.bills);
+  store.setSettings(snapshot.settings);
+  store.setExpenses(snapshot.expenses);
+  store.setWaiterCalls(snapshot.waiterCalls);
+  store.setTransactions(snapshot.transactions);
+  store.setCategories(snapshot.categories);
+  store.setRegisterSessions(snapshot.registerSessions);
+  store.setIngredients(snapshot.ingredients);
+  store.setDiningTables(snapshot.diningTables);
+  store.setPromotions(snapshot.promotions ?? []);
+  store.setAccountPayments(snapshot.accountPayments ?? []);
+  store.setCustomers(snapshot.customers ?? []);
+  store.setReservations(snapshot.reservations ?? []);
+  store.setDataLoaded(true);
+};
+
+// Server rows win, except where a write is on the way: from this device's outbox or
+// another's, relayed by the LAN hub. Keeps rows the server hasn't seen yet and ones
+// updated past the server's version
+const mergeWithPending = <T extends { id: string; version?: number }>(server: T[], local: T[], pendingIds: Set<string>): T[] => {
+  const localById = new Map(local.filter(row => pendingIds.has(row.id)).map(row => [row.id, row]));
+  const merged = server.map(row => {
+    const mine = localById.get(row.id);
+    localById.delete(row.id);
+    return mine && (mine.version ?? 0) > (row.version ?? 0) ? mine : row;
+  });
+  return [...merged, ...localById.values()];
+};
+
+// Staff see every order; a customer sees the anonymous kitchen queue plus their own orders
+const fetchOrders = async (): Promise<Order[]> => {
+  const { sessionToken, customerSession } = useStore.getState();
+  if (sessionToken) return ordersApi.getAll();
+  const [queue, mine] = await Promise.all([
+    ordersApi.getQueue(),
+    customerSession ? ordersApi.getForCustomer(customerSession.tableNumber, customerSession.phone) : Promise.resolve([]),
+  ]);
+  const mineIds = new Set(mine.map(o => o.id));
+  return [...mine, ...queue.filter(o => !mineIds.has(o.id))];
+};
+
+const fetchBills = async (): Promise<Bill[]> => {
+  const { sessionToken, customerSession } = useStore.getState();
+  if (sessionToken) return billsApi.getAll();
+  return customerSession ? billsApi.getForCustomer(customerSession.tableNumber, customerSession.phone) : [];
+};
+
+const fetchWaiterCalls = async (): Promise<WaiterCall[]> => {
+  const { sessionToken, customerSession } = useStore.getState();
+  if (sessionToken) return waiterCallsApi.getAll();
+  return customerSession ? waiterCallsApi.getForTable(customerSession.tableNumber, customerSession.phone) : [];
+};
+
+const refreshOrders = async () => {
+  const orders = await fetchOrders().catch(() => null);
+  if (!orders) return;
+  const store = useStore.getState();
+  lanHub.settle(orders);
+  const pendingIds = new Set([...outbox.getPendingIds('ordersApi', 'diningTablesApi'), ...lanHub.getRelayedIds()]);
+  store.setOrders(mergeWithPending(orders, store.orders, pendingIds));
+};
+
+const refreshWaiterCalls = async () => {
+  const waiterCalls = await fetchWaiterCalls().catch(() => null);
+  if (!waiterCalls) return;
+  const store = useStore.getState();
+  lanHub.settle(waiterCalls);
+  const pendingIds = new Set([...outbox.getPendingIds('waiterCallsApi'), ...lanHub.getRelayedIds()]);
+  store.setWaiterCalls(mergeWithPending(waiterCalls, store.waiterCalls, pendingIds));
+};
+
+// Tills are shared across counters
+const refreshRegisterSessions = async () => {
+  const registerSessions = await registerSessionsApi.getAll().catch(() => null);
+  if (registerSessions) useStore.getState().setRegisterSessions(registerSessions);
+};
+
+// Bookings and the waitlist
+const refreshReservations = async () => {
+  const reservations = await reservationsApi.getAll().catch(() => null);
+  if (reservations) useStore.getState().setReservations(reservations);
+};
+
+// Payments on other counters also deduct ingredient stock
+const refreshBills = async () => {
+  const [bills, transactions, ingredients] = await Promise.all([
+    fetchBills().catch(() => null),
+    transactionsApi.getAll().catch(() => null),
+    ingredientsApi.getAll().catch(() => null),
+  ]);
+  const store = useStore.getState();
+  if (bills) store.setBills(mergeWithPending(bills, store.bills, outbox.getPendingIds('billsApi', 'diningTablesApi')));
+  if (transactions) store.setTransactions(mergeWithPending(transactions, store.transactions, outbox.getPendingIds('transactionsApi')));
+  if (ingredients) store.setIngredients(ingredients);
+};
+
 export function DataProvider({ children }: DataProviderProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const hasLoadedRef = useRef(false);
+  // Started from this device's snapshot because the backend was out of reach
+  const [isOfflineStart, setIsOfflineStart] = useState(false);
+  const sessionToken = useStore((state) => state.sessionToken);
+  const customerSession = useStore((state) => state.customerSession);
 
   const loadDataFromBackend = async () => {
     if (hasLoadedRef.current) {
@@ -38,21 +179,38 @@ export function DataProvider({ children }: DataProviderProps) {
     try {
       const healthy = await checkBackendHealth();
       if (!healthy) {
+        // Signed-in staff keep working from the last snapshot; their changes wait in the outbox
+        const snapshot = await offlineStorage.getSnapshot().catch(() => null);
+        if (snapshot && snapshot.token === useStore.getState().sessionToken) {
+          restoreSnapshot(snapshot);
+          hasLoadedRef.current = true;
+          setIsOfflineStart(true);
+          console.log('[DataProvider] Backend unreachable, started from offline snapshot');
+          return;
+        }
         throw new Error('Cannot connect to database. Please check your Supabase configuration.');
       }
 
+      // Writes made offline go first so the data below includes them
+      await outbox.flush();
+
       // Fetch all data from Supabase
-      const [menuItems, orders, bills, customers, staff, settings, expenses, waiterCalls, transactions, categories] = await Promise.all([
+      const [menuItems, orders, bills, customers, settings, expenses, waiterCalls, transactions, categories, registerSessions, ingredients, diningTables, promotions, accountPayments, reservations] = await Promise.all([
         menuApi.getAll().catch(() => []),
-        ordersApi.getAll().catch(() => []),
-        billsApi.getAll().catch(() => []),
+        fetchOrders().catch(() => []),
+        fetchBills().catch(() => []),
         customersApi.getAll().catch(() => []),
-        staffApi.getAll().catch(() => []),
         settingsApi.get().catch(() => null),
         expensesApi.getAll().catch(() => []),
-        waiterCallsApi.getAll().catch(() => []),
+        fetchWaiterCalls().catch(() => []),
         transactionsApi.getAll().catch(() => []),
         categoriesApi.getAll().catch(() => []),
+        registerSessionsApi.getAll().catch(() => []),
+        ingredientsApi.getAll().catch(() => []),
+        diningTablesApi.getAll().catch(() => []),
+        promotionsApi.getAll().catch(() => []),
+        accountPaymentsApi.getAll().catch(() => []),
+        reservationsApi.getAll().catch(() => []),
       ]);
 
       // Update store with backend data
@@ -61,15 +219,21 @@ export function DataProvider({ children }: DataProviderProps) {
       store.setOrders(orders || []);
       store.setBills(bills || []);
       store.setCustomers(customers || []);
-      store.setStaff(staff || []);
       store.setSettings(settings);
       store.setExpenses(expenses || []);
       store.setWaiterCalls(waiterCalls || []);
       store.setTransactions(transactions || []);
       store.setCategories(categories || []);
+      store.setRegisterSessions(registerSessions || []);
+      store.setIngredients(ingredients || []);
+      store.setDiningTables(diningTables || []);
+      store.setPromotions(promotions || []);
+      store.setAccountPayments(accountPayments || []);
+      store.setReservations(reservations || []);
       store.setDataLoaded(true);
 
       hasLoadedRef.current = true;
+      setIsOfflineStart(false);
       console.log('[DataProvider] Successfully loaded data from Supabase');
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to connect to database';
@@ -85,61 +249,137 @@ export function DataProvider({ children }: DataProviderProps) {
     // Initial load
     loadDataFromBackend();
 
-    // Subscribe to realtime updates for orders
-    const ordersChannel = supabase
-      .channel('orders-changes')
+    // Orders, bills, tills, reservations and waiter calls are staff-only, so realtime can't send their rows; it sends
+    // a signal from data_changes (see CHANGE SIGNALS in schema.sql) and we reload
+    const dataChangesChannel = supabase
+      .channel('data-changes')
       .on(
         'postgres_changes',
-        { event: '*', schema: 'public', table: 'orders' },
-        async () => {
-          console.log('[DataProvider] Orders updated via Realtime');
-          const orders = await ordersApi.getAll().catch(() => []);
-          useStore.getState().setOrders(orders);
+        { event: '*', schema: 'public', table: 'data_changes' },
+        (payload) => {
+          const tableName = (payload.new as { table_name?: string }).table_name;
+          console.log(`[DataProvider] ${tableName} updated via Realtime`);
+          if (tableName === 'orders') refreshOrders();
+          if (tableName === 'bills') refreshBills();
+          if (tableName === 'register_sessions') refreshRegisterSessions();
+          if (tableName === 'reservations') refreshReservations();
+          if (tableName === 'waiter_calls') refreshWaiterCalls();
         }
       )
       .subscribe();
 
-    // Subscribe to realtime updates for waiter_calls
-    const waiterCallsChannel = supabase
-      .channel('waiter-calls-changes')
+    // Subscribe to realtime updates for dining tables (layout and cleaning/bill flags)
+    const diningTablesChannel = supabase
+      .channel('dining-tables-changes')
       .on(
         'postgres_changes',
-        { event: '*', schema: 'public', table: 'waiter_calls' },
+        { event: '*', schema: 'public', table: 'dining_tables' },
         async () => {
-          console.log('[DataProvider] Waiter calls updated via Realtime');
-          const waiterCalls = await waiterCallsApi.getAll().catch(() => []);
-          useStore.getState().setWaiterCalls(waiterCalls);
+          console.log('[DataProvider] Dining tables updated via Realtime');
+          const diningTables = await diningTablesApi.getAll().catch(() => []);
+          useStore.getState().setDiningTables(diningTables);
         }
       )
       .subscribe();
 
-    // Subscribe to realtime updates for bills
-    const billsChannel = supabase
-      .channel('bills-changes')
+    // Subscribe to realtime updates for promotions (edits and coupon uses)
+    const promotionsChannel = supabase
+      .channel('promotions-changes')
       .on(
         'postgres_changes',
-        { event: '*', schema: 'public', table: 'bills' },
+        { event: '*', schema: 'public', table: 'promotions' },
         async () => {
-          console.log('[DataProvider] Bills updated via Realtime');
-          const [bills, transactions] = await Promise.all([
-            billsApi.getAll().catch(() => []),
-            transactionsApi.getAll().catch(() => []),
-          ]);
-          const store = useStore.getState();
-          store.setBills(bills);
-          store.setTransactions(transactions);
+          console.log('[DataProvider] Promotions updated via Realtime');
+          const promotions = await promotionsApi.getAll().catch(() => null);
+          if (promotions) useStore.getState().setPromotions(promotions);
         }
       )
       .subscribe();
 
+    // A change that lost to a newer one from another device: tell whoever made it and
+    // put the winning data back on screen
+    const unsubscribeLost = outbox.onLost((entry) => {
+      toast.warning(`${describeOutboxEntry(entry)} - changed on another device, your change was not applied`);
+      refreshOrders();
+      refreshBills();
+    });
+
+    // Devices on the same Wi-Fi share orders and waiter calls through the hub, if one is set up
+    const stopLanHub = lanHub.start();
+
     // Cleanup subscriptions
     return () => {
-      supabase.removeChannel(ordersChannel);
-      supabase.removeChannel(waiterCallsChannel);
-      supabase.removeChannel(billsChannel);
+      unsubscribeLost();
+      stopLanHub();
+      supabase.removeChannel(dataChangesChannel);
+      supabase.removeChannel(diningTablesChannel);
+      supabase.removeChannel(promotionsChannel);
+    };
+  }, []);
+
+  // Keep a snapshot of signed-in devices so the Counter and Kitchen can start without internet
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribe = useStore.subscribe(() => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        const snapshot = takeSnapshot();
+        if (snapshot) offlineStorage.cacheSnapshot(snapshot).catch(console.error);
+      }, SNAPSHOT_DELAY_MS);
+    });
+    return () => {
+      unsubscribe();
+      if (timer) clearTimeout(timer);
     };
   }, []);
 
+  // Once the connection is back, swap the snapshot for live data
+  useEffect(() => {
+    if (!isOfflineStart) return;
+    const handleOnline = () => {
+      hasLoadedRef.current = false;
+      loadDataFromBackend();
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [isOfflineStart]);
+
+  // Customers get their orders, bills and table's waiter calls once they've given a phone number
+  useEffect(() => {
+    if (sessionToken || !hasLoadedRef.current) return;
+    refreshOrders();
+    refreshBills();
+    refreshWaiterCalls();
+  }, [sessionToken, customerSession]);
+
+  // Orders, bills, waiter calls, sales, tills, customers, expenses, stock, coupons, account payments and reservations are staff-only under RLS, so reload them once a staff member signs in
+  useEffect(() => {
+    if (!sessionToken || !hasLoadedRef.current) return;
+    refreshOrders();
+    refreshBills();
+    refreshWaiterCalls();
+    Promise.all([
+      customersApi.getAll().catch(() => []),
+      expensesApi.getAll().catch(() => []),
+      transactionsApi.getAll().catch(() => []),
+      ingredientsApi.getAll().catch(() => []),
+      promotionsApi.getAll().catch(() => []),
+      accountPaymentsApi.getAll().catch(() => []),
+      reservationsApi.getAll().catch(() => []),
+      registerSessionsApi.getAll().catch(() => []),
+    ]).then(([customers, expenses, transactions, ingredients, promotions, accountPayments, reservations, registerSessions]) => {
+      const store = useStore.getState();
+      store.setCustomers(customers);
+      store.setExpenses(expenses);
+      store.setTransactions(transactions);
+      store.setIngredients(ingredients);
+      store.setPromotions(promotions);
+      store.setAccountPayments(accountPayments);
+      store.setReservations(reservations);
+      store.setRegisterSessions(registerSessions);
+    });
+  }, [sessionToken]);
+
   const handleRetry = () => {
     hasLoadedRef.current = false;
     loadDataFromBackend();
@@ -0,0 +1,156 @@
+import { memo, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { DiningTable } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { TableMap, TableInfo } from '@/components/ui/TableMap';
+import { useStore } from '@/store/useStore';
+import {
+  DEFAULT_TABLE_AREA, getDefaultTablePosition, getNextTableNumber, getOpenTableOrders,
+  getTableAreas, getTableName, getTableStatus,
+} from '@/lib/tables';
+import { sanitizeText } from '@/lib/validation';
+import { toast } from 'sonner';
+
+const emptyForm = { number: '', name: '', area: DEFAULT_TABLE_AREA, capacity: '4' };
+
+// Admin floor plan: add, rename and arrange tables by dragging them
+const FloorPlanEditor = memo(function FloorPlanEditor() {
+  const { diningTables, orders, bills, addDiningTable, updateDiningTable, deleteDiningTable } = useStore();
+  const [editing, setEditing] = useState<DiningTable | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  const areas = getTableAreas(diningTables);
+  const tables: TableInfo[] = diningTables.map(table => ({
+    tableNumber: table.number,
+    name: getTableName(table.number, diningTables),
+    area: table.area,
+    capacity: table.capacity,
+    x: table.x,
+    y: table.y,
+    status: getTableStatus(table, orders, bills),
+  }));
+
+  const openForm = (table: DiningTable | null) => {
+    setEditing(table);
+    setForm(table ? {
+      number: String(table.number),
+      name: table.name,
+      area: table.area,
+      capacity: String(table.capacity),
+    } : { ...emptyForm, number: String(getNextTableNumber(diningTables)), area: areas[0] });
+    setFormOpen(true);
+  };
+
+  const handleSave = () => {
+    const area = sanitizeText(form.area) || DEFAULT_TABLE_AREA;
+    const values = {
+      name: sanitizeText(form.name),
+      area,
+      capacity: Math.max(1, parseInt(form.capacity) || 1),
+    };
+    // Moving a table to another area puts it on that area's next free spot
+    const position = getDefaultTablePosition(diningTables.filter(t => t.area === area && t.number !== editing?.number).length);
+    if (editing) {
+      updateDiningTable(editing.number, editing.area === area ? values : { ...values, ...position });
+      toast.success('Table updated');
+    } else {
+      const number = parseInt(form.number);
+      if (!number || number < 1) {
+        toast.error('Please enter a table number');
+        return;
+      }
+      if (diningTables.some(t => t.number === number)) {
+        toast.error(`Table ${number} already exists`);
+        return;
+      }
+      addDiningTable({ number, ...values, ...position });
+      toast.success('Table added');
+    }
+    setFormOpen(false);
+  };
+
+  const handleDelete = (table: DiningTable) => {
+    if (getOpenTableOrders(table.number, orders, bills).length > 0) {
+      toast.error('This table has open orders');
+      return;
+    }
+    if (!confirm(`Delete ${getTableName(table.number, diningTables)}? Its QR code will stop working.`)) return;
+    deleteDiningTable(table.number);
+    setFormOpen(false);
+    toast.success('Table deleted');
+  };
+
+  return (
+    <div className="space-y-3 mb-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="font-bold">Floor Plan</h3>
+          <p className="text-xs text-muted-foreground">Drag tables into place; tap one to edit it</p>
+        </div>
+        <Button onClick={() => openForm(null)} size="sm" variant="outline">
+          <Plus className="w-4 h-4 mr-2" /> Add Table
+        </Button>
+      </div>
+
+      <TableMap
+        tables={tables}
+        areas={areas}
+        onTableMove={(number, x, y) => updateDiningTable(number, { x, y })}
+        onTableClick={(number) => openForm(diningTables.find(t => t.number === number) || null)}
+        className="bg-card rounded-xl border border-border p-4"
+      />
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${getTableName(editing.number, diningTables)}` : 'Add Table'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div>
+              <label className="text-sm font-medium">Number</label>
+              <Input
+                type="number"
+                value={form.number}
+                onChange={e => setForm({ ...form, number: e.target.value })}
+                disabled={!!editing}
+              />
+              <p className="text-xs text-muted-foreground mt-1">Used in the table's QR code link</p>
+            </div>
+            <div>
+              <label className="text-sm font-medium">Name</label>
+              <Input
+                value={form.name}
+                onChange={e => setForm({ ...form, name: e.target.value })}
+                placeholder={`Table ${form.number || ''}`.trim()}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium">Area</label>
+              <Input value={form.area} onChange={e => setForm({ ...form, area: e.target.value })} list="table-areas" />
+              <datalist id="table-areas">
+                {areas.map(a => <option key={a} value={a} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className="text-sm font-medium">Seats</label>
+              <Input type="number" min={1} value={form.capacity} onChange={e => setForm({ ...form, capacity: e.target.value })} />
+            </div>
+          </div>
+          <DialogFooter className="gap-2">
+            {editing && (
+              <Button variant="outline" className="text-destructive mr-auto" onClick={() => handleDelete(editing)}>
+                <Trash2 className="w-4 h-4 mr-1" /> Delete
+              </Button>
+            )}
+            <Button onClick={handleSave} className="gradient-primary">Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+});
+
+export { FloorPlanEditor };
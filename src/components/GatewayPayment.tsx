@@ -0,0 +1,200 @@
+import { memo, useEffect, useMemo, useRef, useState } from 'react';
+import { Loader2, CheckCircle2, XCircle, RefreshCw, Smartphone } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
+import { GatewayMethod, PaymentGateway } from '@/types';
+import { Button } from '@/components/ui/button';
+import { gatewayColors, getPaymentProvider, paymentMethodLabels, PaymentRequest } from '@/lib/paymentGateways';
+
+interface GatewayPaymentProps {
+  method: GatewayMethod;
+  amount: number;
+  label: string; // Shown in the customer's app, e.g. the table
+  gateways: PaymentGateway[];
+  // reference is set when the gateway itself confirmed the payment
+  onSuccess: (reference?: string) => void;
+  onCancel: () => void;
+}
+
+const TIMEOUT_SECONDS = 180;
+const POLL_MS = 3000;
+
+type Status = 'loading' | 'ready' | 'success' | 'failed' | 'expired' | 'error';
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+// Takes one digital payment: shows the gateway's QR and waits for it to confirm,
+// or lets staff confirm by hand when the gateway isn't set up
+const GatewayPayment = memo(function GatewayPayment({ method, amount, label, gateways, onSuccess, onCancel }: GatewayPaymentProps) {
+  const provider = useMemo(() => getPaymentProvider(method, gateways), [method, gateways]);
+  const [attempt, setAttempt] = useState(0);
+  const [status, setStatus] = useState<Status>('loading');
+  const [request, setRequest] = useState<PaymentRequest | null>(null);
+  const [error, setError] = useState('');
+  const [countdown, setCountdown] = useState(TIMEOUT_SECONDS);
+  const color = gatewayColors[method];
+  // The counter re-renders often; a new callback shouldn't restart the success delay
+  const onSuccessRef = useRef(onSuccess);
+  onSuccessRef.current = onSuccess;
+
+  useEffect(() => {
+    let cancelled = false;
+    setStatus('loading');
+    setRequest(null);
+    provider.start(amount, label)
+      .then(next => {
+        if (cancelled) return;
+        setRequest(next);
+        setCountdown(TIMEOUT_SECONDS);
+        setStatus('ready');
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : String(err));
+        setStatus('error');
+      });
+    return () => { cancelled = true; };
+  }, [provider, amount, label, attempt]);
+
+  // Manual confirmations don't expire; staff decide when they've seen the money
+  useEffect(() => {
+    if (status !== 'ready' || request?.manual) return;
+    const timer = setInterval(() => {
+      setCountdown(prev => {
+        if (prev <= 1) {
+          setStatus('expired');
+          return 0;
+        }
+        return prev - 1;
+      });
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [status, request]);
+
+  useEffect(() => {
+    if (status !== 'ready' || !request || request.manual) return;
+    let checking = false;
+    const poll = setInterval(async () => {
+      if (checking) return;
+      checking = true;
+      try {
+        const result = await provider.check(request.reference);
+        if (result === 'paid') setStatus('success');
+        if (result === 'failed') setStatus('failed');
+      } catch (err) {
+        console.warn('[Payment] Status check failed:', err);
+      } finally {
+        checking = false;
+      }
+    }, POLL_MS);
+    return () => clearInterval(poll);
+  }, [status, request, provider]);
+
+  useEffect(() => {
+    if (status !== 'success' || !request) return;
+    const timer = setTimeout(() => onSuccessRef.current(request.manual ? undefined : request.reference), 1500);
+    return () => clearTimeout(timer);
+  }, [status, request]);
+
+  const retry = () => setAttempt(a => a + 1);
+
+  return (
+    <div className="flex flex-col items-center p-6">
+      <div className="text-center mb-4">
+        <div className="flex items-center justify-center gap-2 mb-2">
+          <Smartphone className="h-8 w-8" style={{ color }} />
+          <span className="text-xl font-bold" style={{ color }}>{paymentMethodLabels[method]}</span>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {request?.manual ? 'Confirm once the payment shows in your account' : 'Scan QR to pay securely'}
+        </p>
+      </div>
+
+      <div className="bg-white border-2 border-[#eee] rounded-xl p-4 mb-4 relative">
+        {status === 'loading' && (
+          <div className="w-[250px] h-[250px] flex items-center justify-center">
+            <Loader2 className="w-12 h-12 animate-spin" style={{ color }} />
+          </div>
+        )}
+
+        {status === 'ready' && request?.qr && (
+          <>
+            <div className="w-[250px] h-[250px] flex items-center justify-center">
+              <QRCodeSVG value={request.qr} size={250} level="M" includeMargin />
+            </div>
+            <Button variant="ghost" size="sm" onClick={retry} className="absolute top-2 right-2 h-8 w-8 p-0">
+              <RefreshCw className="w-4 h-4" />
+            </Button>
+          </>
+        )}
+
+        {status === 'ready' && request?.manual && (
+          <div className="w-[250px] h-[250px] flex flex-col items-center justify-center text-center text-sm text-[#666] gap-2 px-2">
+            <Smartphone className="w-12 h-12" style={{ color }} />
+            <p>
+              {paymentMethodLabels[method]} isn't connected in Settings. Have the customer pay to your
+              {' '}{paymentMethodLabels[method]} QR and check the amount before confirming.
+            </p>
+          </div>
+        )}
+
+        {status === 'success' && (
+          <div className="w-[250px] h-[250px] flex flex-col items-center justify-center bg-[#f0fdf4]">
+            <CheckCircle2 className="w-16 h-16 text-[#27ae60] mb-3 animate-[popIn_0.5s]" />
+            <span className="text-lg font-bold text-[#27ae60]">Payment Successful!</span>
+          </div>
+        )}
+
+        {(status === 'failed' || status === 'expired' || status === 'error') && (
+          <div className="w-[250px] h-[250px] flex flex-col items-center justify-center bg-[#fef2f2] text-center px-2">
+            <XCircle className="w-16 h-16 text-[#e74c3c] mb-3" />
+            <span className="text-lg font-bold text-[#e74c3c]">
+              {status === 'failed' ? 'Payment Failed' : status === 'expired' ? 'Payment Timeout' : 'Could not start payment'}
+            </span>
+            {status === 'error' && <span className="text-xs text-[#666] mt-1 break-words">{error}</span>}
+            <Button variant="outline" size="sm" onClick={retry} className="mt-3">
+              <RefreshCw className="w-4 h-4 mr-2" /> Try Again
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-muted/40 border rounded-lg px-6 py-3 mb-4">
+        <span className="text-sm text-[#666]">Amount to pay:</span>
+        <div className="text-2xl font-bold" style={{ color }}>रू {amount}</div>
+      </div>
+
+      {status === 'ready' && !request?.manual && (
+        <div className="text-center mb-4">
+          <div className={`text-lg font-mono font-bold ${countdown < 60 ? 'text-[#e74c3c]' : 'text-[#333]'}`}>
+            {formatTime(countdown)}
+          </div>
+          <div className="text-xs text-[#999] mt-1">Ref: {request?.reference}</div>
+        </div>
+      )}
+
+      {status === 'ready' && request?.manual && (
+        <Button className="mb-4 text-white" style={{ backgroundColor: color }} onClick={() => setStatus('success')}>
+          Payment received
+        </Button>
+      )}
+
+      {status === 'ready' && request && provider.simulate && (
+        <Button
+          variant="outline"
+          onClick={() => provider.simulate?.(request.reference)}
+          className="mb-4 border-dashed"
+        >
+          Simulate payment (mock)
+        </Button>
+      )}
+
+      {status !== 'success' && (
+        <Button variant="ghost" onClick={onCancel} className="text-[#666]">
+          Cancel
+        </Button>
+      )}
+    </div>
+  );
+});
+
+export { GatewayPayment };
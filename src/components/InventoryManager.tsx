@@ -0,0 +1,302 @@
+import { memo, useCallback, useEffect, useState } from 'react';
+import { Edit, PackagePlus, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { Ingredient, StockMovementType } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useStore } from '@/store/useStore';
+import { formatBsDateTime } from '@/lib/bikramSambat';
+import { formatQuantity, INGREDIENT_UNITS, isLowStock, roundQty, stockMovementTypeLabels } from '@/lib/inventory';
+import { sanitizeText } from '@/lib/validation';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+type StockEntryType = Exclude<StockMovementType, 'sale'>;
+
+const emptyForm = { name: '', unit: 'g', costPerUnit: '', lowStockLevel: '', stock: '' };
+
+// Ingredients, stock levels and stock movements (inventory tab of the admin panel)
+const InventoryManager = memo(function InventoryManager() {
+  const {
+    ingredients, menuItems, stockMovements,
+    addIngredient, updateIngredient, deleteIngredient, recordStockMovement, loadStockMovements,
+  } = useStore();
+  const [editing, setEditing] = useState<Ingredient | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [stockTarget, setStockTarget] = useState<Ingredient | null>(null);
+  const [stockType, setStockType] = useState<StockEntryType>('purchase');
+  const [stockQty, setStockQty] = useState('');
+  const [stockNote, setStockNote] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refresh = useCallback(() => {
+    setIsLoading(true);
+    loadStockMovements().finally(() => setIsLoading(false));
+  }, [loadStockMovements]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const sorted = [...ingredients].sort((a, b) => a.name.localeCompare(b.name));
+  const lowCount = ingredients.filter(isLowStock).length;
+  const getUsedIn = (id: string) => menuItems.filter(m => (m.recipe || []).some(line => line.ingredientId === id));
+
+  const openForm = (ingredient: Ingredient | null) => {
+    setEditing(ingredient);
+    setForm(ingredient ? {
+      name: ingredient.name,
+      unit: ingredient.unit,
+      costPerUnit: String(ingredient.costPerUnit),
+      lowStockLevel: String(ingredient.lowStockLevel),
+      stock: '',
+    } : emptyForm);
+    setFormOpen(true);
+  };
+
+  const handleSave = () => {
+    const name = sanitizeText(form.name);
+    if (!name) {
+      toast.error('Please enter a name');
+      return;
+    }
+    const values = {
+      name,
+      unit: form.unit,
+      costPerUnit: Math.max(0, parseFloat(form.costPerUnit) || 0),
+      lowStockLevel: Math.max(0, parseFloat(form.lowStockLevel) || 0),
+    };
+    if (editing) {
+      updateIngredient(editing.id, values);
+      toast.success('Ingredient updated');
+    } else {
+      addIngredient({ ...values, stock: Math.max(0, parseFloat(form.stock) || 0) });
+      toast.success('Ingredient added');
+    }
+    setFormOpen(false);
+  };
+
+  const handleDelete = (ingredient: Ingredient) => {
+    const usedIn = getUsedIn(ingredient.id);
+    const warning = usedIn.length > 0 ? `\nIt is used in ${usedIn.map(m => m.name).join(', ')}.` : '';
+    if (!confirm(`Delete ${ingredient.name}?${warning}`)) return;
+    deleteIngredient(ingredient.id);
+    toast.success('Ingredient deleted');
+  };
+
+  const openStock = (ingredient: Ingredient) => {
+    setStockTarget(ingredient);
+    setStockType('purchase');
+    setStockQty('');
+    setStockNote('');
+  };
+
+  const handleStock = () => {
+    if (!stockTarget) return;
+    const qty = parseFloat(stockQty);
+    if (isNaN(qty) || qty < 0 || (qty === 0 && stockType !== 'adjustment')) {
+      toast.error('Please enter a quantity');
+      return;
+    }
+    // A stock count books the difference from what the system expected
+    const change = stockType === 'purchase' ? qty : stockType === 'waste' ? -qty : roundQty(qty - stockTarget.stock);
+    if (change === 0) {
+      toast.info('Stock already matches');
+    } else {
+      recordStockMovement(stockTarget.id, stockType, change, sanitizeText(stockNote));
+      toast.success(`${stockTarget.name}: ${change > 0 ? '+' : ''}${formatQuantity(change, stockTarget.unit)}`);
+    }
+    setStockTarget(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h2 className="text-lg md:text-2xl font-bold">Inventory</h2>
+          <p className="text-xs md:text-sm text-muted-foreground mt-1">
+            Sales deduct recipe ingredients automatically{lowCount > 0 && ` · ${lowCount} running low`}
+          </p>
+        </div>
+        <Button onClick={() => openForm(null)} size="sm" className="gradient-primary">
+          <Plus className="w-4 h-4 mr-2" /> Add Ingredient
+        </Button>
+      </div>
+
+      <div className="bg-card rounded-xl border border-border overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-muted">
+              <tr>
+                <th className="text-left p-4">Ingredient</th>
+                <th className="text-right p-4">In stock</th>
+                <th className="text-right p-4">Low at</th>
+                <th className="text-right p-4">Cost / unit</th>
+                <th className="text-left p-4">Used in</th>
+                <th className="text-right p-4">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.length === 0 ? (
+                <tr><td colSpan={6} className="p-8 text-center text-muted-foreground">No ingredients yet</td></tr>
+              ) : sorted.map(i => {
+                const usedIn = getUsedIn(i.id);
+                return (
+                  <tr key={i.id} className="border-t border-border">
+                    <td className="p-4 font-medium">{i.name}</td>
+                    <td className={cn('p-4 text-right whitespace-nowrap', isLowStock(i) && 'text-destructive font-semibold')}>
+                      {formatQuantity(i.stock, i.unit)}
+                    </td>
+                    <td className="p-4 text-right whitespace-nowrap text-muted-foreground">{formatQuantity(i.lowStockLevel, i.unit)}</td>
+                    <td className="p-4 text-right whitespace-nowrap">रू{i.costPerUnit}/{i.unit}</td>
+                    <td className="p-4 text-xs text-muted-foreground">
+                      {usedIn.length > 0 ? usedIn.map(m => m.name).join(', ') : '—'}
+                    </td>
+                    <td className="p-4">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="outline" size="sm" onClick={() => openStock(i)}>
+                          <PackagePlus className="w-4 h-4 mr-1" /> Stock
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => openForm(i)}>
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(i)}>
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="font-bold">Stock Movements</h3>
+          <Button onClick={refresh} variant="outline" size="sm" disabled={isLoading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} /> Refresh
+          </Button>
+        </div>
+        <div className="bg-card rounded-xl border border-border overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="text-left p-4">Time</th>
+                  <th className="text-left p-4">Ingredient</th>
+                  <th className="text-left p-4">Type</th>
+                  <th className="text-right p-4">Change</th>
+                  <th className="text-left p-4">Note</th>
+                  <th className="text-left p-4">By</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stockMovements.length === 0 ? (
+                  <tr><td colSpan={6} className="p-8 text-center text-muted-foreground">No stock movements yet</td></tr>
+                ) : stockMovements.slice(0, 100).map(m => {
+                  const ingredient = ingredients.find(i => i.id === m.ingredientId);
+                  return (
+                    <tr key={m.id} className="border-t border-border">
+                      <td className="p-4 whitespace-nowrap">{formatBsDateTime(m.createdAt)}</td>
+                      <td className="p-4">{ingredient?.name || 'Deleted ingredient'}</td>
+                      <td className="p-4">{stockMovementTypeLabels[m.type]}</td>
+                      <td className={cn('p-4 text-right whitespace-nowrap', m.quantity < 0 ? 'text-destructive' : 'text-success')}>
+                        {m.quantity > 0 && '+'}{formatQuantity(m.quantity, ingredient?.unit || '')}
+                      </td>
+                      <td className="p-4 text-muted-foreground">{m.note || (m.reference ? `Sale #${m.reference.slice(-6)}` : '—')}</td>
+                      <td className="p-4 whitespace-nowrap">{m.createdBy}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {/* Add / Edit Ingredient */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-sm w-[calc(100%-2rem)]">
+          <DialogHeader><DialogTitle>{editing ? 'Edit Ingredient' : 'Add Ingredient'}</DialogTitle></DialogHeader>
+          <div className="space-y-3 py-2">
+            <Input placeholder="Name (e.g. Milk)" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={form.unit} onValueChange={(v: string) => setForm({ ...form, unit: v })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {INGREDIENT_UNITS.map(unit => <SelectItem key={unit} value={unit}>{unit}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={0}
+                placeholder={`Cost per ${form.unit} (रू)`}
+                value={form.costPerUnit}
+                onChange={e => setForm({ ...form, costPerUnit: e.target.value })}
+              />
+            </div>
+            <Input
+              type="number"
+              min={0}
+              placeholder={`Alert when stock falls to (${form.unit})`}
+              value={form.lowStockLevel}
+              onChange={e => setForm({ ...form, lowStockLevel: e.target.value })}
+            />
+            {!editing && (
+              <Input
+                type="number"
+                min={0}
+                placeholder={`Opening stock (${form.unit})`}
+                value={form.stock}
+                onChange={e => setForm({ ...form, stock: e.target.value })}
+              />
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} className="gradient-primary">{editing ? 'Save' : 'Add'}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Stock entry */}
+      <Dialog open={!!stockTarget} onOpenChange={(open) => !open && setStockTarget(null)}>
+        <DialogContent className="max-w-sm w-[calc(100%-2rem)]">
+          <DialogHeader><DialogTitle>{stockTarget?.name} Stock</DialogTitle></DialogHeader>
+          {stockTarget && (
+            <div className="space-y-3 py-2">
+              <p className="text-sm text-muted-foreground">In stock: {formatQuantity(stockTarget.stock, stockTarget.unit)}</p>
+              <Select value={stockType} onValueChange={(v: StockEntryType) => setStockType(v)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="purchase">Received (add)</SelectItem>
+                  <SelectItem value="waste">Waste / spoilage (remove)</SelectItem>
+                  <SelectItem value="adjustment">Stock count (set)</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={0}
+                placeholder={stockType === 'adjustment' ? `Counted stock (${stockTarget.unit})` : `Quantity (${stockTarget.unit})`}
+                value={stockQty}
+                onChange={e => setStockQty(e.target.value)}
+              />
+              <Input placeholder="Note (optional)" value={stockNote} onChange={e => setStockNote(e.target.value)} />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStockTarget(null)}>Cancel</Button>
+            <Button onClick={handleStock} className="gradient-primary">Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+});
+
+export { InventoryManager };
@@ -0,0 +1,39 @@
+import { memo } from 'react';
+import { PackageX } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useStore } from '@/store/useStore';
+import { formatQuantity, isLowStock } from '@/lib/inventory';
+
+// Counter header warning for ingredients at or below their low-stock level
+const LowStockAlert = memo(function LowStockAlert() {
+  const ingredients = useStore(state => state.ingredients);
+  const lowStock = ingredients.filter(isLowStock).sort((a, b) => a.stock - b.stock);
+
+  if (lowStock.length === 0) return null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 text-xs flex items-center gap-1 border-amber-400 text-amber-700 bg-amber-50 hover:bg-amber-100">
+          <PackageX className="w-3 h-3" /> Low stock ({lowStock.length})
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-3" align="end">
+        <p className="text-sm font-semibold mb-2">Running low</p>
+        <div className="space-y-1 max-h-64 overflow-y-auto">
+          {lowStock.map(i => (
+            <div key={i.id} className="flex justify-between text-sm">
+              <span>{i.name}</span>
+              <span className={i.stock <= 0 ? 'text-destructive font-medium' : 'text-amber-700'}>
+                {i.stock <= 0 ? 'Out' : formatQuantity(i.stock, i.unit)}
+              </span>
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+});
+
+export { LowStockAlert };
@@ -0,0 +1,37 @@
+import { memo } from 'react';
+import { LoyaltyEntry } from '@/types';
+import { formatNepalDate } from '@/lib/nepalTime';
+import { loyaltyEntryLabels } from '@/lib/loyalty';
+
+interface LoyaltyHistoryProps {
+  entries: LoyaltyEntry[];
+}
+
+// A customer's points ledger, newest first
+const LoyaltyHistory = memo(function LoyaltyHistory({ entries }: LoyaltyHistoryProps) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-4">No points yet</p>;
+  }
+
+  return (
+    <div className="divide-y divide-border">
+      {entries.map(entry => (
+        <div key={entry.id} className="flex items-start justify-between gap-3 py-2 text-sm">
+          <div className="min-w-0">
+            <div className="font-medium">{loyaltyEntryLabels[entry.type]}</div>
+            {entry.reason && <div className="text-xs text-muted-foreground truncate">{entry.reason}</div>}
+            <div className="text-xs text-muted-foreground">
+              {formatNepalDate(entry.createdAt)}
+              {entry.expiresAt && ` · expires ${formatNepalDate(entry.expiresAt)}`}
+            </div>
+          </div>
+          <span className={`font-semibold shrink-0 ${entry.points >= 0 ? 'text-success' : 'text-destructive'}`}>
+            {entry.points > 0 ? '+' : ''}{entry.points}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+});
+
+export { LoyaltyHistory };
@@ -14,6 +14,7 @@ interface MenuItemCardProps {
   qty: number;
   isFavorite: boolean;
   badge?: BadgeType;
+  hasOptions?: boolean; // Item has modifier groups; price is the starting price
   onAddToCart: () => void;
   onUpdateQty: (delta: number) => void;
   onToggleFavorite: () => void;
@@ -30,6 +31,7 @@ const MenuItemCard = memo(function MenuItemCard({
   qty,
   isFavorite,
   badge,
+  hasOptions,
   onAddToCart,
   onUpdateQty,
   onToggleFavorite,
@@ -63,7 +65,7 @@ const MenuItemCard = memo(function MenuItemCard({
             <Heart className={cn("w-4 h-4", isFavorite && 'fill-current')} />
           </button>
         </div>
-        <p className="font-medium text-[#333]">रू{price}</p>
+        <p className="font-medium text-[#333]">{hasOptions ? `from रू${price}` : `रू${price}`}</p>
         {description && (
           <p className="text-xs text-[#888] mt-1 line-clamp-2">{description}</p>
         )}
@@ -74,7 +76,7 @@ const MenuItemCard = memo(function MenuItemCard({
             <span className="inline-block bg-gray-200 text-gray-500 font-medium px-4 py-1.5 rounded-full text-sm">
               Unavailable
             </span>
-          ) : qty === 0 ? (
+          ) : qty === 0 || hasOptions ? (
             <button
               onClick={onAddToCart}
               className={cn(
@@ -82,7 +84,7 @@ const MenuItemCard = memo(function MenuItemCard({
                 isAnimating && 'cart-bounce'
               )}
             >
-              ADD
+              ADD{hasOptions && qty > 0 && ` · ${qty}`}
             </button>
           ) : (
             <div className="inline-flex items-center bg-white border border-[#eee] rounded-full overflow-hidden shadow-[0_2px_8px_rgba(0,0,0,0.1)]">
@@ -0,0 +1,138 @@
+import { memo } from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { ModifierGroup, ModifierOption } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+
+interface ModifierGroupsEditorProps {
+  groups: ModifierGroup[];
+  onChange: (groups: ModifierGroup[]) => void;
+}
+
+const generateId = () => Math.random().toString(36).substring(2, 11);
+
+const ModifierGroupsEditor = memo(function ModifierGroupsEditor({ groups, onChange }: ModifierGroupsEditorProps) {
+  const updateGroup = (id: string, changes: Partial<ModifierGroup>) => {
+    onChange(groups.map(g => g.id === id ? { ...g, ...changes } : g));
+  };
+
+  const addGroup = () => {
+    onChange([...groups, {
+      id: generateId(),
+      name: '',
+      required: false,
+      minSelections: 0,
+      maxSelections: 1,
+      options: [{ id: generateId(), name: '', priceDelta: 0 }],
+    }]);
+  };
+
+  const removeGroup = (id: string) => {
+    onChange(groups.filter(g => g.id !== id));
+  };
+
+  const updateOption = (group: ModifierGroup, optionId: string, changes: Partial<ModifierOption>) => {
+    updateGroup(group.id, {
+      options: group.options.map(o => o.id === optionId ? { ...o, ...changes } : o)
+    });
+  };
+
+  const addOption = (group: ModifierGroup) => {
+    updateGroup(group.id, {
+      options: [...group.options, { id: generateId(), name: '', priceDelta: 0 }]
+    });
+  };
+
+  const removeOption = (group: ModifierGroup, optionId: string) => {
+    updateGroup(group.id, { options: group.options.filter(o => o.id !== optionId) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium">Options & Variants</label>
+        <Button type="button" variant="outline" size="sm" onClick={addGroup}>
+          <Plus className="w-3 h-3 mr-1" /> Add Group
+        </Button>
+      </div>
+      {groups.length === 0 && (
+        <p className="text-xs text-muted-foreground">e.g. Size (Small / Large), Add-ons (Extra cheese +रू30)</p>
+      )}
+      {groups.map(group => (
+        <div key={group.id} className="border rounded-lg p-3 space-y-2 bg-muted/30">
+          <div className="flex gap-2 items-center">
+            <Input
+              placeholder="Group name (e.g. Size)"
+              value={group.name}
+              onChange={e => updateGroup(group.id, { name: e.target.value })}
+              className="h-8"
+            />
+            <Button type="button" variant="ghost" size="sm" onClick={() => removeGroup(group.id)}>
+              <Trash2 className="w-4 h-4 text-destructive" />
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-3 items-center text-xs">
+            <label className="flex items-center gap-2">
+              <Switch
+                checked={group.required}
+                onCheckedChange={(checked) => updateGroup(group.id, {
+                  required: checked,
+                  minSelections: checked ? Math.max(1, group.minSelections) : 0
+                })}
+              />
+              Required
+            </label>
+            <label className="flex items-center gap-1">
+              Min
+              <Input
+                type="number"
+                min={0}
+                value={group.minSelections}
+                onChange={e => updateGroup(group.id, { minSelections: Math.max(0, parseInt(e.target.value) || 0) })}
+                className="h-7 w-14"
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              Max
+              <Input
+                type="number"
+                min={1}
+                value={group.maxSelections}
+                onChange={e => updateGroup(group.id, { maxSelections: Math.max(1, parseInt(e.target.value) || 1) })}
+                className="h-7 w-14"
+              />
+            </label>
+          </div>
+          <div className="space-y-1">
+            {group.options.map(option => (
+              <div key={option.id} className="flex gap-2 items-center">
+                <Input
+                  placeholder="Option"
+                  value={option.name}
+                  onChange={e => updateOption(group, option.id, { name: e.target.value })}
+                  className="h-8"
+                />
+                <Input
+                  type="number"
+                  placeholder="+रू"
+                  value={option.priceDelta}
+                  onChange={e => updateOption(group, option.id, { priceDelta: parseFloat(e.target.value) || 0 })}
+                  className="h-8 w-24"
+                />
+                <Button type="button" variant="ghost" size="sm" onClick={() => removeOption(group, option.id)}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button type="button" variant="ghost" size="sm" className="text-xs" onClick={() => addOption(group)}>
+              <Plus className="w-3 h-3 mr-1" /> Add Option
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+});
+
+export { ModifierGroupsEditor };
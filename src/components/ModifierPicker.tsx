@@ -0,0 +1,118 @@
+import { memo, useState } from 'react';
+import { Check } from 'lucide-react';
+import { MenuItem, ModifierGroup, SelectedModifier } from '@/types';
+import { getMinSelections, getUnitPrice, validateModifierSelection } from '@/lib/modifiers';
+import { cn } from '@/lib/utils';
+
+interface ModifierPickerProps {
+  item: MenuItem;
+  onConfirm: (modifiers: SelectedModifier[]) => void;
+  onClose: () => void;
+}
+
+const ModifierPicker = memo(function ModifierPicker({ item, onConfirm, onClose }: ModifierPickerProps) {
+  const groups = item.modifierGroups || [];
+  const [selected, setSelected] = useState<SelectedModifier[]>([]);
+
+  const isSelected = (optionId: string) => selected.some(m => m.optionId === optionId);
+
+  const toggleOption = (group: ModifierGroup, optionId: string) => {
+    const option = group.options.find(o => o.id === optionId);
+    if (!option) return;
+
+    if (isSelected(optionId)) {
+      setSelected(selected.filter(m => m.optionId !== optionId));
+      return;
+    }
+
+    const entry: SelectedModifier = {
+      groupId: group.id,
+      groupName: group.name,
+      optionId: option.id,
+      optionName: option.name,
+      priceDelta: option.priceDelta,
+    };
+    const inGroup = selected.filter(m => m.groupId === group.id);
+
+    if (group.maxSelections === 1) {
+      // Single choice - replace the current pick
+      setSelected([...selected.filter(m => m.groupId !== group.id), entry]);
+    } else if (inGroup.length < group.maxSelections) {
+      setSelected([...selected, entry]);
+    }
+  };
+
+  const error = validateModifierSelection(groups, selected);
+  const unitPrice = getUnitPrice(item.price, selected);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[2000] flex items-end" onClick={onClose}>
+      <div
+        className="bg-white w-full rounded-t-[20px] p-6 max-h-[85vh] overflow-y-auto animate-slide-up"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-xl font-bold">{item.name}</h2>
+            {item.description && <p className="text-sm text-[#888]">{item.description}</p>}
+          </div>
+          <button onClick={onClose} className="text-2xl">×</button>
+        </div>
+
+        {groups.map(group => {
+          const min = getMinSelections(group);
+          return (
+            <div key={group.id} className="mb-5">
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="font-semibold">{group.name}</h3>
+                <span className={cn(
+                  "text-xs px-2 py-0.5 rounded-full",
+                  min > 0 ? 'bg-[#fff3e0] text-[#e67e22]' : 'bg-[#f0f0f0] text-[#888]'
+                )}>
+                  {min > 0 ? 'Required' : 'Optional'}
+                  {group.maxSelections > 1 && ` · up to ${group.maxSelections}`}
+                </span>
+              </div>
+              {group.options.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => toggleOption(group, option.id)}
+                  className={cn(
+                    "w-full flex justify-between items-center p-3 mb-2 border-2 rounded-lg text-left transition-colors",
+                    isSelected(option.id) ? 'border-[#06C167] bg-[#06C167]/5' : 'border-[#eee]'
+                  )}
+                >
+                  <span className="flex items-center gap-2">
+                    <span className={cn(
+                      "w-5 h-5 flex items-center justify-center border-2",
+                      group.maxSelections === 1 ? 'rounded-full' : 'rounded',
+                      isSelected(option.id) ? 'border-[#06C167] bg-[#06C167] text-white' : 'border-[#ccc]'
+                    )}>
+                      {isSelected(option.id) && <Check className="w-3 h-3" />}
+                    </span>
+                    {option.name}
+                  </span>
+                  {option.priceDelta !== 0 && (
+                    <span className="text-sm text-[#666]">
+                      {option.priceDelta > 0 ? '+' : '−'}रू{Math.abs(option.priceDelta)}
+                    </span>
+                  )}
+                </button>
+              ))}
+            </div>
+          );
+        })}
+
+        <button
+          onClick={() => !error && onConfirm(selected)}
+          disabled={!!error}
+          className="w-full bg-[#06C167] text-white p-4 rounded-lg text-lg font-semibold disabled:opacity-50"
+        >
+          {error || `Add to cart · रू${unitPrice}`}
+        </button>
+      </div>
+    </div>
+  );
+});
+
+export { ModifierPicker };
@@ -1,37 +1,106 @@
-import { WifiOff, RefreshCw } from 'lucide-react';
+import { useState } from 'react';
+import { WifiOff, RefreshCw, AlertTriangle, Trash2 } from 'lucide-react';
 import { useOfflineSync } from '@/hooks/useOfflineSync';
+import { useStore } from '@/store/useStore';
+import { outbox, describeOutboxEntry } from '@/lib/outbox';
+import { formatNepalDateTime } from '@/lib/nepalTime';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 
 /**
- * Shows offline status and pending sync count
+ * Shows offline status, pending sync count and writes the server rejected
  */
 export function OfflineIndicator() {
-  const { isOnline, pendingSyncCount } = useOfflineSync();
+  const { isOnline, pendingSyncCount, conflicts, lastSyncError } = useOfflineSync();
+  const isAuthenticated = useStore(state => state.isAuthenticated);
+  const [conflictsOpen, setConflictsOpen] = useState(false);
+  // Customers can't act on rejected writes, so only staff see them
+  const showConflicts = isAuthenticated && conflicts.length > 0;
 
-  if (isOnline && pendingSyncCount === 0) {
+  if (isOnline && pendingSyncCount === 0 && !showConflicts) {
     return null;
   }
 
   return (
-    <div 
-      className={cn(
-        "fixed bottom-20 left-1/2 -translate-x-1/2 z-50 px-4 py-2 rounded-full shadow-lg flex items-center gap-2 text-sm font-medium transition-all",
-        isOnline 
-          ? "bg-primary text-primary-foreground" 
-          : "bg-warning text-warning-foreground"
-      )}
-    >
-      {!isOnline ? (
-        <>
-          <WifiOff className="w-4 h-4" />
-          <span>Offline Mode</span>
-        </>
-      ) : pendingSyncCount > 0 ? (
-        <>
-          <RefreshCw className="w-4 h-4 animate-spin" />
-          <span>Syncing {pendingSyncCount} item{pendingSyncCount > 1 ? 's' : ''}...</span>
-        </>
-      ) : null}
-    </div>
+    <>
+      <div className="fixed bottom-20 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2">
+        {(!isOnline || pendingSyncCount > 0) && (
+          <div
+            className={cn(
+              "px-4 py-2 rounded-full shadow-lg flex items-center gap-2 text-sm font-medium transition-all",
+              isOnline
+                ? "bg-primary text-primary-foreground"
+                : "bg-warning text-warning-foreground"
+            )}
+            title={lastSyncError}
+          >
+            {!isOnline ? (
+              <>
+                <WifiOff className="w-4 h-4" />
+                <span>Offline Mode{pendingSyncCount > 0 ? ` · ${pendingSyncCount} to sync` : ''}</span>
+              </>
+            ) : (
+              <>
+                <RefreshCw className="w-4 h-4 animate-spin" />
+                <span>Syncing {pendingSyncCount} item{pendingSyncCount > 1 ? 's' : ''}...</span>
+              </>
+            )}
+          </div>
+        )}
+        {showConflicts && (
+          <button
+            onClick={() => setConflictsOpen(true)}
+            className="px-4 py-2 rounded-full shadow-lg flex items-center gap-2 text-sm font-medium bg-destructive text-destructive-foreground"
+          >
+            <AlertTriangle className="w-4 h-4" />
+            {conflicts.length} change{conflicts.length > 1 ? 's' : ''} not saved
+          </button>
+        )}
+      </div>
+
+      <Dialog open={conflictsOpen && showConflicts} onOpenChange={setConflictsOpen}>
+        <DialogContent className="max-w-lg w-[calc(100%-2rem)] max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5 text-destructive" />
+              Changes the server rejected
+            </DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            These were made on this device but the server refused them, usually because someone else changed
+            the same record or your session expired. Retry once the cause is fixed, or discard to drop the change.
+          </p>
+          <div className="space-y-2">
+            {conflicts.map(entry => (
+              <div key={entry.id} className="border border-border rounded-lg p-3 text-sm">
+                <div className="flex justify-between gap-2">
+                  <span className="font-medium">{describeOutboxEntry(entry)}</span>
+                  <span className="text-xs text-muted-foreground">{formatNepalDateTime(entry.createdAt)}</span>
+                </div>
+                <p className="text-xs text-destructive mt-1 break-words">{entry.error}</p>
+                <div className="flex gap-2 mt-2">
+                  <Button size="sm" variant="outline" onClick={() => outbox.retry(entry.id)}>
+                    <RefreshCw className="w-3 h-3 mr-1" /> Retry
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="text-destructive"
+                    onClick={() => {
+                      if (confirm(`Discard "${describeOutboxEntry(entry)}"? It will not reach the server.`)) {
+                        outbox.discard(entry.id);
+                      }
+                    }}
+                  >
+                    <Trash2 className="w-3 h-3 mr-1" /> Discard
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
   );
 }
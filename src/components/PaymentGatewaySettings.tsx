@@ -0,0 +1,169 @@
+import { memo, useCallback, useEffect, useState } from 'react';
+import { CreditCard, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { GatewayMethod, PaymentGateway } from '@/types';
+import { paymentGatewaysApi } from '@/lib/apiClient';
+import { GATEWAY_METHODS, gatewayColors, isMockPayments, paymentMethodLabels } from '@/lib/paymentGateways';
+
+interface GatewayForm {
+  enabled: boolean;
+  live: boolean;
+  merchantCode: string;
+  username: string;
+  secretKey: string;
+  password: string;
+  hasSecret: boolean;
+}
+
+// What each gateway calls its credentials
+const fieldLabels: Record<GatewayMethod, { merchantCode?: string; username?: string; secretKey: string; password?: string }> = {
+  fonepay: { merchantCode: 'Merchant code', username: 'API username', secretKey: 'Secret key', password: 'API password' },
+  esewa: { merchantCode: 'Product code', secretKey: 'Secret key' },
+  khalti: { secretKey: 'Live secret key' },
+};
+
+const toForm = (gateway?: PaymentGateway): GatewayForm => ({
+  enabled: gateway?.enabled ?? false,
+  live: gateway?.live ?? false,
+  merchantCode: gateway?.merchantCode ?? '',
+  username: gateway?.username ?? '',
+  secretKey: '',
+  password: '',
+  hasSecret: gateway?.hasSecret ?? false,
+});
+
+// Merchant accounts for Fonepay, eSewa and Khalti (settings tab of the admin panel).
+// Secrets are write-only: the server keeps them and makes the gateway calls.
+const PaymentGatewaySettings = memo(function PaymentGatewaySettings() {
+  const [forms, setForms] = useState<Record<GatewayMethod, GatewayForm> | null>(null);
+  const [saving, setSaving] = useState<GatewayMethod | null>(null);
+
+  const load = useCallback(() => {
+    paymentGatewaysApi.getAll()
+      .then(gateways => setForms(Object.fromEntries(GATEWAY_METHODS.map(method =>
+        [method, toForm(gateways.find(g => g.provider === method))]
+      )) as Record<GatewayMethod, GatewayForm>))
+      .catch(err => {
+        console.error('[Settings] Failed to load payment gateways:', err);
+        toast.error('Could not load payment gateways');
+      });
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const update = (method: GatewayMethod, changes: Partial<GatewayForm>) => {
+    setForms(prev => prev && { ...prev, [method]: { ...prev[method], ...changes } });
+  };
+
+  const save = async (method: GatewayMethod) => {
+    if (!forms) return;
+    const form = forms[method];
+    if (form.enabled && !form.hasSecret && !form.secretKey.trim()) {
+      toast.error(`Enter the ${paymentMethodLabels[method]} secret key`);
+      return;
+    }
+    setSaving(method);
+    try {
+      await paymentGatewaysApi.save(
+        { provider: method, enabled: form.enabled, live: form.live, merchantCode: form.merchantCode.trim(), username: form.username.trim() },
+        { secretKey: form.secretKey.trim(), password: form.password.trim() }
+      );
+      toast.success(`${paymentMethodLabels[method]} saved`);
+      load();
+    } catch (err) {
+      console.error('[Settings] Failed to save payment gateway:', err);
+      toast.error(`Could not save ${paymentMethodLabels[method]}`);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-5">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <CreditCard className="w-5 h-5 text-primary" />
+        Payment Gateways
+      </h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        Connected gateways show a QR for the exact bill and confirm the payment by themselves.
+        Methods that aren't connected are confirmed by staff at the counter.
+      </p>
+      {isMockPayments && (
+        <p className="text-xs text-warning mb-4">Mock payments are on (VITE_PAYMENT_MOCK): no gateway is called.</p>
+      )}
+
+      {!forms ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="space-y-5">
+          {GATEWAY_METHODS.map(method => {
+            const form = forms[method];
+            const labels = fieldLabels[method];
+            return (
+              <div key={method} className="border-t border-border pt-4 first:border-0 first:pt-0 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="font-semibold" style={{ color: gatewayColors[method] }}>{paymentMethodLabels[method]}</span>
+                  <Switch checked={form.enabled} onCheckedChange={enabled => update(method, { enabled })} />
+                </div>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <label className="text-sm font-medium">Live mode</label>
+                    <p className="text-xs text-muted-foreground">Off uses the gateway's test environment.</p>
+                  </div>
+                  <Switch checked={form.live} onCheckedChange={live => update(method, { live })} />
+                </div>
+                {labels.merchantCode && (
+                  <div>
+                    <label className="text-sm font-medium">{labels.merchantCode}</label>
+                    <Input value={form.merchantCode} onChange={e => update(method, { merchantCode: e.target.value })} />
+                  </div>
+                )}
+                {labels.username && (
+                  <div>
+                    <label className="text-sm font-medium">{labels.username}</label>
+                    <Input value={form.username} onChange={e => update(method, { username: e.target.value })} />
+                  </div>
+                )}
+                <div>
+                  <label className="text-sm font-medium">{labels.secretKey}</label>
+                  <Input
+                    type="password"
+                    autoComplete="off"
+                    value={form.secretKey}
+                    onChange={e => update(method, { secretKey: e.target.value })}
+                    placeholder={form.hasSecret ? 'Saved - leave blank to keep' : ''}
+                  />
+                </div>
+                {labels.password && (
+                  <div>
+                    <label className="text-sm font-medium">{labels.password}</label>
+                    <Input
+                      type="password"
+                      autoComplete="off"
+                      value={form.password}
+                      onChange={e => update(method, { password: e.target.value })}
+                      placeholder={form.hasSecret ? 'Saved - leave blank to keep' : ''}
+                    />
+                  </div>
+                )}
+                <Button size="sm" onClick={() => save(method)} disabled={saving !== null}>
+                  {saving === method && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Save {paymentMethodLabels[method]}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export { PaymentGatewaySettings };
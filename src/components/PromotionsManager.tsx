@@ -0,0 +1,483 @@
+import { memo, useState } from 'react';
+import { Edit, Plus, Trash2, X } from 'lucide-react';
+import { Promotion, PromotionComboItem, PromotionType } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useStore } from '@/store/useStore';
+import { isCouponUsedUp, isPromotionRunning, promotionTypeLabels, WEEKDAYS } from '@/lib/promotions';
+import { sanitizeText } from '@/lib/validation';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+interface PromotionForm {
+  name: string;
+  type: PromotionType;
+  active: boolean;
+  code: string;
+  maxUses: string;
+  startsOn: string;
+  endsOn: string;
+  days: number[];
+  startTime: string;
+  endTime: string;
+  categories: string[];
+  menuItemIds: string[];
+  percentOff: string;
+  amountOff: string;
+  minSubtotal: string;
+  comboItems: PromotionComboItem[];
+  bundlePrice: string;
+  buyQty: string;
+  getQty: string;
+}
+
+const emptyForm: PromotionForm = {
+  name: '', type: 'happy_hour', active: true, code: '', maxUses: '',
+  startsOn: '', endsOn: '', days: [], startTime: '', endTime: '',
+  categories: [], menuItemIds: [], percentOff: '', amountOff: '', minSubtotal: '',
+  comboItems: [], bundlePrice: '', buyQty: '1', getQty: '1',
+};
+
+const toForm = (p: Promotion): PromotionForm => ({
+  name: p.name,
+  type: p.type,
+  active: p.active,
+  code: p.code || '',
+  maxUses: p.maxUses !== undefined ? String(p.maxUses) : '',
+  startsOn: p.startsOn || '',
+  endsOn: p.endsOn || '',
+  days: p.days || [],
+  startTime: p.startTime || '',
+  endTime: p.endTime || '',
+  categories: p.categories || [],
+  menuItemIds: p.menuItemIds || [],
+  percentOff: p.percentOff !== undefined ? String(p.percentOff) : '',
+  amountOff: p.amountOff !== undefined ? String(p.amountOff) : '',
+  minSubtotal: p.minSubtotal !== undefined ? String(p.minSubtotal) : '',
+  comboItems: p.comboItems || [],
+  bundlePrice: p.bundlePrice !== undefined ? String(p.bundlePrice) : '',
+  buyQty: p.buyQty !== undefined ? String(p.buyQty) : '1',
+  getQty: p.getQty !== undefined ? String(p.getQty) : '1',
+});
+
+// Blank optional numbers stay unset rather than becoming 0
+const toNumber = (value: string) => {
+  const n = parseFloat(value);
+  return isNaN(n) ? undefined : Math.max(0, n);
+};
+
+const toggle = <T,>(list: T[], value: T) => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+// Happy hours, combos, buy-X-get-Y, spend thresholds and coupon codes (promotions tab of the admin panel)
+const PromotionsManager = memo(function PromotionsManager() {
+  const { promotions, categories, menuItems, addPromotion, updatePromotion, deletePromotion } = useStore();
+  const [editing, setEditing] = useState<Promotion | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState<PromotionForm>(emptyForm);
+
+  const sorted = [...promotions].sort((a, b) => a.name.localeCompare(b.name));
+  const runningCount = promotions.filter(p => isPromotionRunning(p)).length;
+  const getItemName = (id: string) => menuItems.find(m => m.id === id)?.name || 'Deleted item';
+
+  const describeSchedule = (p: Promotion) => {
+    const parts: string[] = [];
+    if (p.days?.length) parts.push(p.days.map(d => WEEKDAYS[d]).join(', '));
+    if (p.startTime && p.endTime) parts.push(`${p.startTime}–${p.endTime}`);
+    if (p.startsOn || p.endsOn) parts.push(`${p.startsOn || '…'} to ${p.endsOn || '…'}`);
+    return parts.join(' · ') || 'Always';
+  };
+
+  const describeOffer = (p: Promotion) => {
+    switch (p.type) {
+      case 'happy_hour':
+        return `${p.percentOff ?? 0}% off`;
+      case 'combo':
+        return `${(p.comboItems || []).map(c => `${c.qty}× ${getItemName(c.menuItemId)}`).join(' + ')} for रू${p.bundlePrice ?? 0}`;
+      case 'bogo':
+        return `Buy ${p.buyQty ?? 0} get ${p.getQty ?? 0} free`;
+      case 'threshold':
+        return `${p.percentOff ? `${p.percentOff}%` : `रू${p.amountOff ?? 0}`} off${p.minSubtotal ? ` over रू${p.minSubtotal}` : ''}`;
+    }
+  };
+
+  const openForm = (promotion: Promotion | null) => {
+    setEditing(promotion);
+    setForm(promotion ? toForm(promotion) : emptyForm);
+    setFormOpen(true);
+  };
+
+  const handleSave = () => {
+    const name = sanitizeText(form.name);
+    if (!name) {
+      toast.error('Please enter a name');
+      return;
+    }
+    if ((form.startTime === '') !== (form.endTime === '')) {
+      toast.error('Set both a start and an end time, or neither');
+      return;
+    }
+    if (form.startsOn && form.endsOn && form.endsOn < form.startsOn) {
+      toast.error('The end date is before the start date');
+      return;
+    }
+
+    const percentOff = toNumber(form.percentOff);
+    if (percentOff !== undefined && percentOff > 100) {
+      toast.error('Percent off can be at most 100');
+      return;
+    }
+    const comboItems = form.comboItems.filter(c => c.menuItemId && c.qty > 0);
+    const bundlePrice = toNumber(form.bundlePrice);
+    const buyQty = Math.floor(toNumber(form.buyQty) ?? 0);
+    const getQty = Math.floor(toNumber(form.getQty) ?? 0);
+    const amountOff = toNumber(form.amountOff);
+
+    if (form.type === 'happy_hour' && !percentOff) {
+      toast.error('Enter the percent off');
+      return;
+    }
+    if (form.type === 'combo' && (comboItems.length === 0 || bundlePrice === undefined)) {
+      toast.error('Add the combo items and a bundle price');
+      return;
+    }
+    if (form.type === 'bogo' && (buyQty <= 0 || getQty <= 0)) {
+      toast.error('Enter how many to buy and how many are free');
+      return;
+    }
+    if (form.type === 'threshold' && !percentOff && !amountOff) {
+      toast.error('Enter a percent or an amount off');
+      return;
+    }
+
+    const maxUses = toNumber(form.maxUses);
+    const code = form.code.trim();
+    const targetsItems = form.type === 'happy_hour' || form.type === 'bogo';
+    // Only keep the fields the chosen type uses; clearing the rest matters when editing
+    const values = {
+      name,
+      type: form.type,
+      active: form.active,
+      code: code || undefined,
+      maxUses: code && maxUses ? Math.floor(maxUses) : undefined,
+      startsOn: form.startsOn || undefined,
+      endsOn: form.endsOn || undefined,
+      days: form.days.length > 0 ? [...form.days].sort() : undefined,
+      startTime: form.startTime || undefined,
+      endTime: form.endTime || undefined,
+      categories: targetsItems && form.categories.length > 0 ? form.categories : undefined,
+      menuItemIds: targetsItems && form.menuItemIds.length > 0 ? form.menuItemIds : undefined,
+      percentOff: form.type === 'happy_hour' || form.type === 'threshold' ? percentOff || undefined : undefined,
+      amountOff: form.type === 'threshold' && !percentOff ? amountOff : undefined,
+      minSubtotal: form.type === 'threshold' ? toNumber(form.minSubtotal) : undefined,
+      comboItems: form.type === 'combo' ? comboItems : undefined,
+      bundlePrice: form.type === 'combo' ? bundlePrice : undefined,
+      buyQty: form.type === 'bogo' ? buyQty : undefined,
+      getQty: form.type === 'bogo' ? getQty : undefined,
+    };
+
+    if (code && promotions.some(p => p.code === code.toUpperCase() && p.id !== editing?.id)) {
+      toast.error('Another promotion already uses that code');
+      return;
+    }
+
+    if (editing) {
+      updatePromotion(editing.id, values);
+      toast.success('Promotion updated');
+    } else {
+      addPromotion(values);
+      toast.success('Promotion added');
+    }
+    setFormOpen(false);
+  };
+
+  const handleDelete = (promotion: Promotion) => {
+    if (!confirm(`Delete ${promotion.name}? Bills that already used it keep their discount.`)) return;
+    deletePromotion(promotion.id);
+    toast.success('Promotion deleted');
+  };
+
+  const updateComboItem = (index: number, changes: Partial<PromotionComboItem>) => {
+    setForm({ ...form, comboItems: form.comboItems.map((c, i) => i === index ? { ...c, ...changes } : c) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h2 className="text-lg md:text-2xl font-bold">Promotions</h2>
+          <p className="text-xs md:text-sm text-muted-foreground mt-1">
+            Applied at the counter and shown in the customer's cart · {runningCount} running now
+          </p>
+        </div>
+        <Button onClick={() => openForm(null)} className="gradient-primary">
+          <Plus className="w-4 h-4 mr-2" /> Add Promotion
+        </Button>
+      </div>
+
+      <div className="bg-card rounded-xl border border-border overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-muted">
+              <tr>
+                <th className="text-left p-4">Name</th>
+                <th className="text-left p-4">Offer</th>
+                <th className="text-left p-4">When</th>
+                <th className="text-left p-4">Coupon</th>
+                <th className="text-center p-4">Active</th>
+                <th className="text-right p-4">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.length === 0 ? (
+                <tr><td colSpan={6} className="p-8 text-center text-muted-foreground">No promotions yet</td></tr>
+              ) : sorted.map(p => (
+                <tr key={p.id} className="border-t border-border">
+                  <td className="p-4">
+                    <div className="font-medium">{p.name}</div>
+                    <div className="text-xs text-muted-foreground">{promotionTypeLabels[p.type]}</div>
+                  </td>
+                  <td className="p-4">{describeOffer(p)}</td>
+                  <td className="p-4 text-xs text-muted-foreground">{describeSchedule(p)}</td>
+                  <td className="p-4 whitespace-nowrap">
+                    {p.code ? (
+                      <>
+                        <span className="font-mono font-semibold">{p.code}</span>
+                        <div className={cn('text-xs', isCouponUsedUp(p) ? 'text-destructive' : 'text-muted-foreground')}>
+                          {p.uses}{p.maxUses !== undefined && ` / ${p.maxUses}`} used
+                        </div>
+                      </>
+                    ) : <span className="text-muted-foreground">Automatic</span>}
+                  </td>
+                  <td className="p-4 text-center">
+                    <Switch checked={p.active} onCheckedChange={(checked) => updatePromotion(p.id, { active: checked })} />
+                  </td>
+                  <td className="p-4">
+                    <div className="flex justify-end gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => openForm(p)}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(p)}>
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Add / Edit Promotion */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-md w-[calc(100%-2rem)] max-h-[90vh] overflow-y-auto">
+          <DialogHeader><DialogTitle>{editing ? 'Edit Promotion' : 'Add Promotion'}</DialogTitle></DialogHeader>
+          <div className="space-y-3 py-2">
+            <Input placeholder="Name (e.g. Evening Happy Hour)" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+            <div className="flex items-center gap-3">
+              <Select value={form.type} onValueChange={(v: PromotionType) => setForm({ ...form, type: v })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(promotionTypeLabels) as PromotionType[]).map(type => (
+                    <SelectItem key={type} value={type}>{promotionTypeLabels[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <label className="flex items-center gap-2 text-sm shrink-0">
+                <Switch checked={form.active} onCheckedChange={(checked) => setForm({ ...form, active: checked })} />
+                Active
+              </label>
+            </div>
+
+            {form.type === 'happy_hour' && (
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                placeholder="Percent off (%)"
+                value={form.percentOff}
+                onChange={e => setForm({ ...form, percentOff: e.target.value })}
+              />
+            )}
+
+            {form.type === 'bogo' && (
+              <div className="grid grid-cols-2 gap-2">
+                <Input type="number" min={1} placeholder="Buy" value={form.buyQty} onChange={e => setForm({ ...form, buyQty: e.target.value })} />
+                <Input type="number" min={1} placeholder="Get free" value={form.getQty} onChange={e => setForm({ ...form, getQty: e.target.value })} />
+              </div>
+            )}
+
+            {(form.type === 'happy_hour' || form.type === 'bogo') && (
+              <div className="space-y-2">
+                <p className="text-xs text-muted-foreground">Applies to (nothing selected = whole menu)</p>
+                <div className="flex flex-wrap gap-1">
+                  {categories.map(c => (
+                    <Button
+                      key={c.id}
+                      type="button"
+                      size="sm"
+                      variant={form.categories.includes(c.name) ? 'default' : 'outline'}
+                      onClick={() => setForm({ ...form, categories: toggle(form.categories, c.name) })}
+                    >
+                      {c.name}
+                    </Button>
+                  ))}
+                </div>
+                <Select value="" onValueChange={(id: string) => setForm({ ...form, menuItemIds: toggle(form.menuItemIds, id) })}>
+                  <SelectTrigger><SelectValue placeholder="Add a single item…" /></SelectTrigger>
+                  <SelectContent>
+                    {menuItems.filter(m => !form.menuItemIds.includes(m.id)).map(m => (
+                      <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {form.menuItemIds.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {form.menuItemIds.map(id => (
+                      <span key={id} className="inline-flex items-center gap-1 text-xs bg-muted px-2 py-1 rounded-full">
+                        {getItemName(id)}
+                        <button type="button" onClick={() => setForm({ ...form, menuItemIds: toggle(form.menuItemIds, id) })}>
+                          <X className="w-3 h-3" />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {form.type === 'combo' && (
+              <div className="space-y-2">
+                {form.comboItems.map((line, index) => (
+                  <div key={index} className="flex gap-2">
+                    <Select value={line.menuItemId} onValueChange={(id: string) => updateComboItem(index, { menuItemId: id })}>
+                      <SelectTrigger><SelectValue placeholder="Item" /></SelectTrigger>
+                      <SelectContent>
+                        {menuItems.map(m => <SelectItem key={m.id} value={m.id}>{m.name} (रू{m.price})</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-20"
+                      value={line.qty}
+                      onChange={e => updateComboItem(index, { qty: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setForm({ ...form, comboItems: form.comboItems.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setForm({ ...form, comboItems: [...form.comboItems, { menuItemId: '', qty: 1 }] })}
+                >
+                  <Plus className="w-4 h-4 mr-1" /> Add Item
+                </Button>
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder="Bundle price (रू)"
+                  value={form.bundlePrice}
+                  onChange={e => setForm({ ...form, bundlePrice: e.target.value })}
+                />
+              </div>
+            )}
+
+            {form.type === 'threshold' && (
+              <div className="space-y-2">
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder="Minimum bill (रू)"
+                  value={form.minSubtotal}
+                  onChange={e => setForm({ ...form, minSubtotal: e.target.value })}
+                />
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    placeholder="Percent off (%)"
+                    value={form.percentOff}
+                    onChange={e => setForm({ ...form, percentOff: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    placeholder="or Amount off (रू)"
+                    value={form.amountOff}
+                    onChange={e => setForm({ ...form, amountOff: e.target.value })}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2 border-t border-border pt-3">
+              <p className="text-sm font-medium">When</p>
+              <div className="flex flex-wrap gap-1">
+                {WEEKDAYS.map((day, index) => (
+                  <Button
+                    key={day}
+                    type="button"
+                    size="sm"
+                    variant={form.days.includes(index) ? 'default' : 'outline'}
+                    onClick={() => setForm({ ...form, days: toggle(form.days, index) })}
+                  >
+                    {day}
+                  </Button>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <Input type="time" value={form.startTime} onChange={e => setForm({ ...form, startTime: e.target.value })} />
+                <Input type="time" value={form.endTime} onChange={e => setForm({ ...form, endTime: e.target.value })} />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <Input type="date" value={form.startsOn} onChange={e => setForm({ ...form, startsOn: e.target.value })} />
+                <Input type="date" value={form.endsOn} onChange={e => setForm({ ...form, endsOn: e.target.value })} />
+              </div>
+              <p className="text-xs text-muted-foreground">Leave blank to run every day, all day. Times are Nepal time.</p>
+            </div>
+
+            <div className="space-y-2 border-t border-border pt-3">
+              <p className="text-sm font-medium">Coupon</p>
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  placeholder="Code (optional)"
+                  value={form.code}
+                  onChange={e => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                  className="font-mono"
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  placeholder="Max uses"
+                  value={form.maxUses}
+                  disabled={!form.code.trim()}
+                  onChange={e => setForm({ ...form, maxUses: e.target.value })}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                With a code, the promotion only applies when the code is entered at the counter.
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} className="gradient-primary">{editing ? 'Save' : 'Add'}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+});
+
+export { PromotionsManager };
@@ -0,0 +1,519 @@
+import { memo, useCallback, useEffect, useState } from 'react';
+import { Ban, Edit, PackageCheck, Plus, RefreshCw, Trash2, Wallet, X } from 'lucide-react';
+import { PurchaseOrder, Supplier, SupplierPaymentMethod } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useStore } from '@/store/useStore';
+import { formatBsDateTime } from '@/lib/bikramSambat';
+import {
+  getLinesTotal, getOutstandingLines, getSupplierBalance, purchaseOrderStatusLabels, supplierPaymentMethodLabels,
+} from '@/lib/purchasing';
+import { sanitizeText } from '@/lib/validation';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+interface LineInput {
+  ingredientId: string;
+  qty: string;
+  unitCost: string;
+}
+
+// Purchase order or goods receipt being entered
+interface LinesForm {
+  mode: 'order' | 'receive';
+  supplierId: string;
+  purchaseOrderId?: string;
+  lines: LineInput[];
+  note: string;
+}
+
+const emptySupplier = { name: '', phone: '', contactPerson: '', notes: '' };
+const emptyLine: LineInput = { ingredientId: '', qty: '', unitCost: '' };
+
+const statusStyles: Record<PurchaseOrder['status'], string> = {
+  open: 'bg-primary/10 text-primary',
+  partial: 'bg-warning/10 text-warning',
+  received: 'bg-success/10 text-success',
+  cancelled: 'bg-muted text-muted-foreground',
+};
+
+// Suppliers, purchase orders, goods received and supplier payments (purchasing tab of the admin panel)
+const PurchasingManager = memo(function PurchasingManager() {
+  const {
+    ingredients, suppliers, purchaseOrders, goodsReceipts, supplierPayments,
+    loadPurchasing, addSupplier, updateSupplier, deleteSupplier,
+    createPurchaseOrder, cancelPurchaseOrder, receiveGoods, paySupplier, getOpenRegisterSession,
+  } = useStore();
+  const [isLoading, setIsLoading] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [supplierFormOpen, setSupplierFormOpen] = useState(false);
+  const [supplierForm, setSupplierForm] = useState(emptySupplier);
+  const [linesForm, setLinesForm] = useState<LinesForm | null>(null);
+  const [payTarget, setPayTarget] = useState<Supplier | null>(null);
+  const [payAmount, setPayAmount] = useState('');
+  const [payMethod, setPayMethod] = useState<SupplierPaymentMethod>('cash');
+  const [payNote, setPayNote] = useState('');
+
+  const refresh = useCallback(() => {
+    setIsLoading(true);
+    loadPurchasing().finally(() => setIsLoading(false));
+  }, [loadPurchasing]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const sortedSuppliers = [...suppliers].sort((a, b) => a.name.localeCompare(b.name));
+  const getSupplierName = (id: string) => suppliers.find(s => s.id === id)?.name || 'Deleted supplier';
+  const getBalance = (id: string) => getSupplierBalance(id, goodsReceipts, supplierPayments);
+  const totalOwed = suppliers.reduce((sum, s) => sum + Math.max(0, getBalance(s.id)), 0);
+  const getIngredient = (id: string) => ingredients.find(i => i.id === id);
+
+  // Suppliers
+  const openSupplierForm = (supplier: Supplier | null) => {
+    setEditingSupplier(supplier);
+    setSupplierForm(supplier ? {
+      name: supplier.name,
+      phone: supplier.phone,
+      contactPerson: supplier.contactPerson || '',
+      notes: supplier.notes || '',
+    } : emptySupplier);
+    setSupplierFormOpen(true);
+  };
+
+  const handleSaveSupplier = () => {
+    const values = {
+      name: sanitizeText(supplierForm.name),
+      phone: sanitizeText(supplierForm.phone),
+      contactPerson: sanitizeText(supplierForm.contactPerson),
+      notes: sanitizeText(supplierForm.notes),
+    };
+    if (!values.name) {
+      toast.error('Please enter a name');
+      return;
+    }
+    if (editingSupplier) {
+      updateSupplier(editingSupplier.id, values);
+      toast.success('Supplier updated');
+    } else {
+      addSupplier(values);
+      toast.success('Supplier added');
+    }
+    setSupplierFormOpen(false);
+  };
+
+  const handleDeleteSupplier = (supplier: Supplier) => {
+    const hasHistory = purchaseOrders.some(o => o.supplierId === supplier.id)
+      || goodsReceipts.some(r => r.supplierId === supplier.id)
+      || supplierPayments.some(p => p.supplierId === supplier.id);
+    if (hasHistory) {
+      toast.error(`${supplier.name} has orders or payments and can't be deleted`);
+      return;
+    }
+    if (!confirm(`Delete ${supplier.name}?`)) return;
+    deleteSupplier(supplier.id);
+    toast.success('Supplier deleted');
+  };
+
+  // Purchase orders and goods receipts
+  const openOrder = () => {
+    setLinesForm({ mode: 'order', supplierId: '', lines: [{ ...emptyLine }], note: '' });
+  };
+
+  const openReceive = (order?: PurchaseOrder) => {
+    setLinesForm(order ? {
+      mode: 'receive',
+      supplierId: order.supplierId,
+      purchaseOrderId: order.id,
+      lines: getOutstandingLines(order).map(line => ({
+        ingredientId: line.ingredientId,
+        qty: String(line.qty),
+        unitCost: String(line.unitCost),
+      })),
+      note: '',
+    } : { mode: 'receive', supplierId: '', lines: [{ ...emptyLine }], note: '' });
+  };
+
+  const updateLine = (index: number, changes: Partial<LineInput>) => {
+    if (!linesForm) return;
+    setLinesForm({
+      ...linesForm,
+      lines: linesForm.lines.map((line, i) => i === index ? { ...line, ...changes } : line),
+    });
+  };
+
+  // Picking an ingredient suggests its current cost
+  const selectIngredient = (index: number, ingredientId: string) => {
+    const line = linesForm?.lines[index];
+    const cost = getIngredient(ingredientId)?.costPerUnit;
+    updateLine(index, { ingredientId, unitCost: line?.unitCost || (cost ? String(cost) : '') });
+  };
+
+  const parsedLines = (linesForm?.lines || [])
+    .map(line => ({
+      ingredientId: line.ingredientId,
+      qty: parseFloat(line.qty) || 0,
+      unitCost: Math.max(0, parseFloat(line.unitCost) || 0),
+    }))
+    .filter(line => line.ingredientId && line.qty > 0);
+  const linesTotal = getLinesTotal(parsedLines);
+
+  const handleSaveLines = () => {
+    if (!linesForm) return;
+    if (!linesForm.supplierId) {
+      toast.error('Please choose a supplier');
+      return;
+    }
+    if (parsedLines.length === 0) {
+      toast.error('Please add at least one item');
+      return;
+    }
+    const note = sanitizeText(linesForm.note);
+    if (linesForm.mode === 'order') {
+      createPurchaseOrder(linesForm.supplierId, parsedLines, note);
+      toast.success('Purchase order raised');
+    } else {
+      receiveGoods(linesForm.supplierId, parsedLines, linesForm.purchaseOrderId, note);
+      toast.success(`Received रू${linesTotal} from ${getSupplierName(linesForm.supplierId)}`);
+    }
+    setLinesForm(null);
+  };
+
+  const handleCancelOrder = (order: PurchaseOrder) => {
+    if (!confirm(`Cancel the order to ${getSupplierName(order.supplierId)}?`)) return;
+    cancelPurchaseOrder(order.id);
+    toast.success('Order cancelled');
+  };
+
+  // Payments
+  const openPay = (supplier: Supplier) => {
+    const balance = getBalance(supplier.id);
+    setPayTarget(supplier);
+    setPayAmount(balance > 0 ? String(balance) : '');
+    setPayMethod('cash');
+    setPayNote('');
+  };
+
+  const handlePay = () => {
+    if (!payTarget) return;
+    const amount = parseFloat(payAmount);
+    if (isNaN(amount) || amount <= 0) {
+      toast.error('Please enter an amount');
+      return;
+    }
+    paySupplier(payTarget.id, amount, payMethod, sanitizeText(payNote));
+    toast.success(`Paid रू${amount} to ${payTarget.name}`);
+    setPayTarget(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h2 className="text-lg md:text-2xl font-bold">Purchasing</h2>
+          <p className="text-xs md:text-sm text-muted-foreground mt-1">
+            Received goods add stock and an expense · Owed to suppliers: रू{totalOwed.toLocaleString()}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={refresh} variant="outline" size="sm" disabled={isLoading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} /> Refresh
+          </Button>
+          <Button onClick={() => openSupplierForm(null)} variant="outline" size="sm">
+            <Plus className="w-4 h-4 mr-2" /> Add Supplier
+          </Button>
+          <Button onClick={() => openReceive()} variant="outline" size="sm" disabled={suppliers.length === 0}>
+            <PackageCheck className="w-4 h-4 mr-2" /> Receive Goods
+          </Button>
+          <Button onClick={openOrder} size="sm" className="gradient-primary" disabled={suppliers.length === 0}>
+            <Plus className="w-4 h-4 mr-2" /> New Order
+          </Button>
+        </div>
+      </div>
+
+      {/* Suppliers */}
+      <div className="bg-card rounded-xl border border-border overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-muted">
+              <tr>
+                <th className="text-left p-4">Supplier</th>
+                <th className="text-left p-4">Phone</th>
+                <th className="text-right p-4">Owed</th>
+                <th className="text-right p-4">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedSuppliers.length === 0 ? (
+                <tr><td colSpan={4} className="p-8 text-center text-muted-foreground">No suppliers yet</td></tr>
+              ) : sortedSuppliers.map(s => {
+                const balance = getBalance(s.id);
+                return (
+                  <tr key={s.id} className="border-t border-border">
+                    <td className="p-4">
+                      <div className="font-medium">{s.name}</div>
+                      {s.contactPerson && <div className="text-xs text-muted-foreground">{s.contactPerson}</div>}
+                    </td>
+                    <td className="p-4 font-mono">{s.phone || '—'}</td>
+                    <td className={cn('p-4 text-right font-semibold whitespace-nowrap', balance > 0 && 'text-destructive')}>
+                      रू{balance.toLocaleString()}
+                    </td>
+                    <td className="p-4">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="outline" size="sm" onClick={() => openPay(s)}>
+                          <Wallet className="w-4 h-4 mr-1" /> Pay
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => openSupplierForm(s)}>
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDeleteSupplier(s)}>
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Purchase Orders */}
+      <div>
+        <h3 className="font-bold mb-3">Purchase Orders</h3>
+        <div className="bg-card rounded-xl border border-border overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="text-left p-4">Date</th>
+                  <th className="text-left p-4">Supplier</th>
+                  <th className="text-left p-4">Items</th>
+                  <th className="text-right p-4">Total</th>
+                  <th className="text-left p-4">Status</th>
+                  <th className="text-right p-4">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {purchaseOrders.length === 0 ? (
+                  <tr><td colSpan={6} className="p-8 text-center text-muted-foreground">No purchase orders yet</td></tr>
+                ) : purchaseOrders.slice(0, 50).map(o => (
+                  <tr key={o.id} className="border-t border-border">
+                    <td className="p-4 whitespace-nowrap">{formatBsDateTime(o.createdAt)}</td>
+                    <td className="p-4">{getSupplierName(o.supplierId)}</td>
+                    <td className="p-4 text-xs text-muted-foreground">
+                      {o.lines.map(line => {
+                        const ingredient = getIngredient(line.ingredientId);
+                        return `${ingredient?.name || 'Deleted'} ${line.receivedQty}/${line.qty} ${ingredient?.unit || ''}`;
+                      }).join(', ')}
+                    </td>
+                    <td className="p-4 text-right whitespace-nowrap">रू{getLinesTotal(o.lines)}</td>
+                    <td className="p-4">
+                      <span className={cn('px-2 py-1 rounded-full text-xs whitespace-nowrap', statusStyles[o.status])}>
+                        {purchaseOrderStatusLabels[o.status]}
+                      </span>
+                    </td>
+                    <td className="p-4">
+                      <div className="flex justify-end gap-1">
+                        {(o.status === 'open' || o.status === 'partial') && (
+                          <Button variant="outline" size="sm" onClick={() => openReceive(o)}>
+                            <PackageCheck className="w-4 h-4 mr-1" /> Receive
+                          </Button>
+                        )}
+                        {o.status === 'open' && (
+                          <Button variant="ghost" size="sm" onClick={() => handleCancelOrder(o)}>
+                            <Ban className="w-4 h-4 text-destructive" />
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {/* Goods received and payments */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div>
+          <h3 className="font-bold mb-3">Goods Received</h3>
+          <div className="bg-card rounded-xl border border-border divide-y divide-border">
+            {goodsReceipts.length === 0 ? (
+              <p className="p-8 text-center text-sm text-muted-foreground">Nothing received yet</p>
+            ) : goodsReceipts.slice(0, 30).map(r => (
+              <div key={r.id} className="p-3 flex justify-between gap-3 text-sm">
+                <div>
+                  <div className="font-medium">{getSupplierName(r.supplierId)}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatBsDateTime(r.createdAt)} · {r.createdBy}{r.purchaseOrderId ? ' · against order' : ''}
+                  </div>
+                </div>
+                <div className="font-semibold whitespace-nowrap">रू{r.total}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+        <div>
+          <h3 className="font-bold mb-3">Supplier Payments</h3>
+          <div className="bg-card rounded-xl border border-border divide-y divide-border">
+            {supplierPayments.length === 0 ? (
+              <p className="p-8 text-center text-sm text-muted-foreground">No payments yet</p>
+            ) : supplierPayments.slice(0, 30).map(p => (
+              <div key={p.id} className="p-3 flex justify-between gap-3 text-sm">
+                <div>
+                  <div className="font-medium">{getSupplierName(p.supplierId)}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatBsDateTime(p.createdAt)} · {supplierPaymentMethodLabels[p.method]} · {p.createdBy}
+                    {p.note && ` · ${p.note}`}
+                  </div>
+                </div>
+                <div className="font-semibold text-success whitespace-nowrap">रू{p.amount}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Add / Edit Supplier */}
+      <Dialog open={supplierFormOpen} onOpenChange={setSupplierFormOpen}>
+        <DialogContent className="max-w-sm w-[calc(100%-2rem)]">
+          <DialogHeader><DialogTitle>{editingSupplier ? 'Edit Supplier' : 'Add Supplier'}</DialogTitle></DialogHeader>
+          <div className="space-y-3 py-2">
+            <Input placeholder="Name (e.g. Himalayan Dairy)" value={supplierForm.name} onChange={e => setSupplierForm({ ...supplierForm, name: e.target.value })} />
+            <Input placeholder="Phone" value={supplierForm.phone} onChange={e => setSupplierForm({ ...supplierForm, phone: e.target.value })} />
+            <Input placeholder="Contact person (optional)" value={supplierForm.contactPerson} onChange={e => setSupplierForm({ ...supplierForm, contactPerson: e.target.value })} />
+            <Input placeholder="Notes (optional)" value={supplierForm.notes} onChange={e => setSupplierForm({ ...supplierForm, notes: e.target.value })} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSupplierFormOpen(false)}>Cancel</Button>
+            <Button onClick={handleSaveSupplier} className="gradient-primary">{editingSupplier ? 'Save' : 'Add'}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* New Purchase Order / Receive Goods */}
+      <Dialog open={!!linesForm} onOpenChange={(open) => !open && setLinesForm(null)}>
+        <DialogContent className="max-w-lg w-[calc(100%-2rem)] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{linesForm?.mode === 'order' ? 'New Purchase Order' : 'Receive Goods'}</DialogTitle>
+          </DialogHeader>
+          {linesForm && (
+            <div className="space-y-3 py-2">
+              <Select
+                value={linesForm.supplierId}
+                onValueChange={(v: string) => setLinesForm({ ...linesForm, supplierId: v })}
+                disabled={!!linesForm.purchaseOrderId}
+              >
+                <SelectTrigger><SelectValue placeholder="Supplier" /></SelectTrigger>
+                <SelectContent>
+                  {sortedSuppliers.map(s => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              {linesForm.purchaseOrderId && (
+                <p className="text-xs text-muted-foreground">Quantities still to come on this order. Change them to what actually arrived.</p>
+              )}
+              {linesForm.lines.map((line, index) => (
+                <div key={index} className="flex gap-2 items-center">
+                  <Select value={line.ingredientId} onValueChange={(v: string) => selectIngredient(index, v)}>
+                    <SelectTrigger className="h-8"><SelectValue placeholder="Ingredient" /></SelectTrigger>
+                    <SelectContent>
+                      {ingredients.map(i => <SelectItem key={i.id} value={i.id}>{i.name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={0}
+                    placeholder={`Qty${getIngredient(line.ingredientId) ? ` (${getIngredient(line.ingredientId)?.unit})` : ''}`}
+                    value={line.qty}
+                    onChange={e => updateLine(index, { qty: e.target.value })}
+                    className="h-8 w-24"
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    placeholder="रू / unit"
+                    value={line.unitCost}
+                    onChange={e => updateLine(index, { unitCost: e.target.value })}
+                    className="h-8 w-24"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setLinesForm({ ...linesForm, lines: linesForm.lines.filter((_, i) => i !== index) })}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setLinesForm({ ...linesForm, lines: [...linesForm.lines, { ...emptyLine }] })}
+                disabled={ingredients.length === 0}
+              >
+                <Plus className="w-3 h-3 mr-1" /> Add Item
+              </Button>
+              {ingredients.length === 0 && (
+                <p className="text-xs text-muted-foreground">Add ingredients under Inventory first</p>
+              )}
+              <Input placeholder="Note (e.g. bill number)" value={linesForm.note} onChange={e => setLinesForm({ ...linesForm, note: e.target.value })} />
+              <div className="flex justify-between font-semibold border-t border-border pt-3">
+                <span>Total</span>
+                <span>रू{linesTotal}</span>
+              </div>
+              {linesForm.mode === 'receive' && (
+                <p className="text-xs text-muted-foreground">Adds the stock, records an ingredients expense and puts the total on the supplier's account</p>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setLinesForm(null)}>Cancel</Button>
+            <Button onClick={handleSaveLines} className="gradient-primary">
+              {linesForm?.mode === 'order' ? 'Raise Order' : 'Post Receipt'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Pay Supplier */}
+      <Dialog open={!!payTarget} onOpenChange={(open) => !open && setPayTarget(null)}>
+        <DialogContent className="max-w-sm w-[calc(100%-2rem)]">
+          <DialogHeader><DialogTitle>Pay {payTarget?.name}</DialogTitle></DialogHeader>
+          {payTarget && (
+            <div className="space-y-3 py-2">
+              <p className="text-sm text-muted-foreground">Owed: रू{getBalance(payTarget.id).toLocaleString()}</p>
+              <Input type="number" min={0} placeholder="Amount (रू)" value={payAmount} onChange={e => setPayAmount(e.target.value)} />
+              <Select value={payMethod} onValueChange={(v: SupplierPaymentMethod) => setPayMethod(v)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(supplierPaymentMethodLabels) as SupplierPaymentMethod[]).map(method => (
+                    <SelectItem key={method} value={method}>{supplierPaymentMethodLabels[method]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {payMethod === 'cash' && (
+                <p className="text-xs text-muted-foreground">
+                  {getOpenRegisterSession() ? 'Recorded as a payout from the open register' : 'No register is open, so the till is not affected'}
+                </p>
+              )}
+              <Input placeholder="Note (optional)" value={payNote} onChange={e => setPayNote(e.target.value)} />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPayTarget(null)}>Cancel</Button>
+            <Button onClick={handlePay} className="gradient-primary">Pay</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+});
+
+export { PurchasingManager };
@@ -0,0 +1,286 @@
+import { memo, useState } from 'react';
+import { Minus, Plus, Search, ShoppingBag } from 'lucide-react';
+import { MenuItem, Order, OrderItem, OrderType, SelectedModifier } from '@/types';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ModifierPicker } from '@/components/ModifierPicker';
+import { useStore } from '@/store/useStore';
+import { formatItemName, getLineKey, getStartingPrice, getUnitPrice, hasModifiers } from '@/lib/modifiers';
+import { orderTypeLabels } from '@/lib/orderTypes';
+import { calculateBillTax } from '@/lib/tax';
+import { phoneSchema, sanitizeText, validateInput } from '@/lib/validation';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+type CounterOrderType = Exclude<OrderType, 'dine_in'>;
+
+const COUNTER_ORDER_TYPES: CounterOrderType[] = ['counter', 'takeaway', 'delivery'];
+
+interface QuickSaleProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // payNow: take payment straight away instead of leaving the bill open
+  onCreated: (order: Order, payNow: boolean) => void;
+}
+
+// Counter POS: ring up walk-in, takeaway and delivery orders without a table
+const QuickSale = memo(function QuickSale({ open, onOpenChange, onCreated }: QuickSaleProps) {
+  const { menuItems, categories, settings, addOrder } = useStore();
+  const [orderType, setOrderType] = useState<CounterOrderType>('counter');
+  const [category, setCategory] = useState('all');
+  const [search, setSearch] = useState('');
+  const [cart, setCart] = useState<OrderItem[]>([]);
+  const [modifierItem, setModifierItem] = useState<MenuItem | null>(null);
+  const [phone, setPhone] = useState('');
+  const [notes, setNotes] = useState('');
+  const [address, setAddress] = useState('');
+  const [deliveryFee, setDeliveryFee] = useState('');
+  const [rider, setRider] = useState('');
+
+  const riders = settings.deliveryRiders || [];
+  const fee = orderType === 'delivery' ? Math.max(0, parseFloat(deliveryFee) || 0) : 0;
+  const tax = calculateBillTax(cart, 0, settings, fee);
+  const itemCount = cart.reduce((sum, c) => sum + c.qty, 0);
+
+  const visibleItems = menuItems.filter(m =>
+    m.available &&
+    (category === 'all' || m.category === category) &&
+    (!search || m.name.toLowerCase().includes(search.toLowerCase()))
+  );
+
+  const reset = () => {
+    setOrderType('counter');
+    setCart([]);
+    setPhone('');
+    setNotes('');
+    setAddress('');
+    setDeliveryFee(String(settings.deliveryFee || ''));
+    setRider('');
+    setSearch('');
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) reset();
+    onOpenChange(next);
+  };
+
+  const addToCart = (item: MenuItem, modifiers?: SelectedModifier[]) => {
+    // Items with options open the picker first
+    if (!modifiers && hasModifiers(item)) {
+      setModifierItem(item);
+      return;
+    }
+    const lineKey = getLineKey(item.id, modifiers);
+    const existing = cart.find(c => getLineKey(c.menuItemId, c.modifiers) === lineKey);
+    if (existing) {
+      setCart(cart.map(c => c.id === existing.id ? { ...c, qty: c.qty + 1 } : c));
+    } else {
+      setCart([...cart, {
+        id: Math.random().toString(36).substring(2, 9),
+        menuItemId: item.id,
+        name: item.name,
+        qty: 1,
+        price: getUnitPrice(item.price, modifiers),
+        ...(modifiers && modifiers.length > 0 && { modifiers }),
+      }]);
+    }
+  };
+
+  const updateLineQty = (lineId: string, delta: number) => {
+    setCart(prev => prev
+      .map(c => c.id === lineId ? { ...c, qty: c.qty + delta } : c)
+      .filter(c => c.qty > 0)
+    );
+  };
+
+  const handleSubmit = (payNow: boolean) => {
+    if (cart.length === 0) {
+      toast.error('Please add items first');
+      return;
+    }
+    const customerPhone = phone.trim();
+    if (customerPhone || orderType === 'delivery') {
+      const phoneValidation = validateInput(phoneSchema, customerPhone);
+      if (!phoneValidation.success) {
+        toast.error(phoneValidation.error);
+        return;
+      }
+    }
+    const deliveryAddress = sanitizeText(address);
+    if (orderType === 'delivery' && !deliveryAddress) {
+      toast.error('Please enter the delivery address');
+      return;
+    }
+
+    // Counter sales are handed over on the spot; takeaway and delivery go to the kitchen
+    const order = addOrder(0, customerPhone, cart, sanitizeText(notes), {
+      orderType,
+      status: orderType === 'counter' ? 'served' : 'accepted',
+      ...(orderType === 'delivery' && {
+        delivery: { address: deliveryAddress, fee, ...(rider && { rider }) },
+      }),
+    });
+    toast.success(`${orderTypeLabels[orderType]} order #${order.id.slice(-6)} created`);
+    onOpenChange(false);
+    onCreated(order, payNow);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl w-[calc(100%-2rem)] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShoppingBag className="w-5 h-5 text-primary" />
+            Quick Sale
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="grid md:grid-cols-[1fr_320px] gap-4">
+          {/* Menu */}
+          <div className="space-y-3 min-w-0">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input value={search} onChange={e => setSearch(e.target.value)} placeholder="Search menu..." className="pl-9" />
+            </div>
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {['all', ...categories.map(c => c.name)].map(name => (
+                <button
+                  key={name}
+                  onClick={() => setCategory(name)}
+                  className={cn(
+                    "px-3 py-1 rounded-full text-xs font-medium border whitespace-nowrap",
+                    category === name ? "bg-primary text-primary-foreground border-primary" : "border-border text-muted-foreground"
+                  )}
+                >
+                  {name === 'all' ? 'All' : name}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 max-h-[50vh] overflow-y-auto">
+              {visibleItems.map(item => (
+                <button
+                  key={item.id}
+                  onClick={() => addToCart(item)}
+                  className="text-left p-3 rounded-lg border border-border hover:border-primary hover:bg-primary/5 transition-colors"
+                >
+                  <div className="text-sm font-medium leading-tight">{item.name}</div>
+                  <div className="text-xs text-muted-foreground mt-1">
+                    {hasModifiers(item) ? `from रू${getStartingPrice(item)}` : `रू${item.price}`}
+                  </div>
+                </button>
+              ))}
+              {visibleItems.length === 0 && (
+                <p className="col-span-full text-center text-sm text-muted-foreground py-8">No items found</p>
+              )}
+            </div>
+          </div>
+
+          {/* Order */}
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-1 bg-muted p-1 rounded-lg">
+              {COUNTER_ORDER_TYPES.map(type => (
+                <button
+                  key={type}
+                  onClick={() => setOrderType(type)}
+                  className={cn(
+                    "py-1.5 rounded-md text-xs font-medium",
+                    orderType === type ? "bg-background shadow-sm" : "text-muted-foreground"
+                  )}
+                >
+                  {orderTypeLabels[type]}
+                </button>
+              ))}
+            </div>
+
+            <div className="border border-border rounded-lg divide-y divide-border max-h-52 overflow-y-auto">
+              {cart.length === 0 ? (
+                <p className="text-center text-sm text-muted-foreground py-6">Tap items to add them</p>
+              ) : cart.map(line => (
+                <div key={line.id} className="flex items-center gap-2 p-2 text-sm">
+                  <span className="flex-1 min-w-0 truncate">{formatItemName(line)}</span>
+                  <button onClick={() => updateLineQty(line.id, -1)} className="w-6 h-6 rounded border border-border flex items-center justify-center">
+                    <Minus className="w-3 h-3" />
+                  </button>
+                  <span className="w-5 text-center">{line.qty}</span>
+                  <button onClick={() => updateLineQty(line.id, 1)} className="w-6 h-6 rounded border border-border flex items-center justify-center">
+                    <Plus className="w-3 h-3" />
+                  </button>
+                  <span className="w-14 text-right">{line.qty * line.price}</span>
+                </div>
+              ))}
+            </div>
+
+            <Input
+              value={phone}
+              onChange={e => setPhone(e.target.value.replace(/\D/g, '').slice(0, 10))}
+              placeholder={orderType === 'delivery' ? 'Customer phone' : 'Customer phone (optional, for points)'}
+              inputMode="numeric"
+            />
+            {orderType === 'delivery' && (
+              <>
+                <Input value={address} onChange={e => setAddress(e.target.value)} placeholder="Delivery address" />
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    value={deliveryFee}
+                    onChange={e => setDeliveryFee(e.target.value)}
+                    placeholder="Delivery fee"
+                  />
+                  <Select value={rider || 'none'} onValueChange={v => setRider(v === 'none' ? '' : v)}>
+                    <SelectTrigger><SelectValue placeholder="Rider" /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No rider yet</SelectItem>
+                      {riders.map(r => <SelectItem key={r} value={r}>{r}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+            <Input value={notes} onChange={e => setNotes(e.target.value)} placeholder="Notes for the kitchen" />
+
+            <div className="text-sm space-y-1">
+              {tax.serviceCharge > 0 && (
+                <div className="flex justify-between text-muted-foreground"><span>Service charge</span><span>रू{tax.serviceCharge}</span></div>
+              )}
+              {tax.deliveryFee > 0 && (
+                <div className="flex justify-between text-muted-foreground"><span>Delivery fee</span><span>रू{tax.deliveryFee}</span></div>
+              )}
+              {tax.vat > 0 && (
+                <div className="flex justify-between text-muted-foreground"><span>VAT</span><span>रू{tax.vat}</span></div>
+              )}
+              <div className="flex justify-between font-bold text-lg">
+                <span>{itemCount} item{itemCount === 1 ? '' : 's'}</span>
+                <span>रू{tax.total}</span>
+              </div>
+            </div>
+
+            <Button className="w-full bg-[#27ae60] hover:bg-[#27ae60]/90" disabled={cart.length === 0} onClick={() => handleSubmit(true)}>
+              Charge रू{tax.total}
+            </Button>
+            {orderType !== 'counter' && (
+              <Button variant="outline" className="w-full" disabled={cart.length === 0} onClick={() => handleSubmit(false)}>
+                Send to kitchen, pay later
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {modifierItem && (
+          <ModifierPicker
+            item={modifierItem}
+            onClose={() => setModifierItem(null)}
+            onConfirm={(modifiers) => {
+              addToCart(modifierItem, modifiers);
+              setModifierItem(null);
+            }}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+});
+
+export { QuickSale };
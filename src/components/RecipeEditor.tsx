@@ -0,0 +1,82 @@
+import { memo } from 'react';
+import { Plus, X } from 'lucide-react';
+import { RecipeLine } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useStore } from '@/store/useStore';
+import { getFoodCostPercent, getRecipeCost } from '@/lib/inventory';
+
+interface RecipeEditorProps {
+  recipe: RecipeLine[];
+  price: number;
+  onChange: (recipe: RecipeLine[]) => void;
+}
+
+// Ingredients used per serving of a menu item, with its food cost
+const RecipeEditor = memo(function RecipeEditor({ recipe, price, onChange }: RecipeEditorProps) {
+  const ingredients = useStore(state => state.ingredients);
+
+  const updateLine = (index: number, changes: Partial<RecipeLine>) => {
+    onChange(recipe.map((line, i) => i === index ? { ...line, ...changes } : line));
+  };
+
+  const addLine = () => {
+    onChange([...recipe, { ingredientId: '', qty: 0 }]);
+  };
+
+  const removeLine = (index: number) => {
+    onChange(recipe.filter((_, i) => i !== index));
+  };
+
+  const cost = getRecipeCost({ recipe }, ingredients);
+  const foodCost = getFoodCostPercent({ recipe, price }, ingredients);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium">Recipe</label>
+        <Button type="button" variant="outline" size="sm" onClick={addLine} disabled={ingredients.length === 0}>
+          <Plus className="w-3 h-3 mr-1" /> Add Ingredient
+        </Button>
+      </div>
+      {ingredients.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Add ingredients under Inventory to track stock for this item</p>
+      ) : recipe.length === 0 && (
+        <p className="text-xs text-muted-foreground">e.g. Milk 150 ml, Tea leaves 5 g per cup</p>
+      )}
+      {recipe.map((line, index) => {
+        const unit = ingredients.find(i => i.id === line.ingredientId)?.unit;
+        return (
+          <div key={index} className="flex gap-2 items-center">
+            <Select value={line.ingredientId} onValueChange={(v: string) => updateLine(index, { ingredientId: v })}>
+              <SelectTrigger className="h-8"><SelectValue placeholder="Ingredient" /></SelectTrigger>
+              <SelectContent>
+                {ingredients.map(i => <SelectItem key={i.id} value={i.id}>{i.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min={0}
+              placeholder="Qty"
+              value={line.qty || ''}
+              onChange={e => updateLine(index, { qty: parseFloat(e.target.value) || 0 })}
+              className="h-8 w-20"
+            />
+            <span className="text-xs text-muted-foreground w-8">{unit}</span>
+            <Button type="button" variant="ghost" size="sm" onClick={() => removeLine(index)}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        );
+      })}
+      {recipe.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Cost रू{cost}{foodCost !== undefined && ` · Food cost ${foodCost}%`}
+        </p>
+      )}
+    </div>
+  );
+});
+
+export { RecipeEditor };
@@ -0,0 +1,418 @@
+import { memo, useEffect, useMemo, useState } from 'react';
+import { CalendarClock, Check, Edit, Plus, UserPlus, Users, X } from 'lucide-react';
+import { Reservation } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BsDatePicker } from '@/components/BsDatePicker';
+import { useStore } from '@/store/useStore';
+import {
+  estimateWaitlist, formatWaitEstimate, getFittingTables, getNoShowCount, getReservationMinutes, getTableReservation,
+  getUpcomingReservations, getWaitlist, isLate,
+} from '@/lib/reservations';
+import { getTableName, getTableStatus, tableStatusLabels } from '@/lib/tables';
+import { formatBsDateReadable } from '@/lib/bikramSambat';
+import { formatNepalDate, formatNepalTime, getNepalTime, getNepalTodayString } from '@/lib/nepalTime';
+import { phoneSchema, sanitizeText } from '@/lib/validation';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+const NO_TABLE = 'none';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Booking form fields are Nepal date and time; stored as an ISO timestamp
+const toBookingTime = (date: string, time: string) => new Date(`${date}T${time}:00+05:45`).toISOString();
+
+const toTimeInput = (iso: string) => {
+  const nepal = getNepalTime(new Date(iso));
+  return `${String(nepal.getHours()).padStart(2, '0')}:${String(nepal.getMinutes()).padStart(2, '0')}`;
+};
+
+const getDayLabel = (iso: string, now: Date) => {
+  const day = formatNepalDate(iso);
+  if (day === formatNepalDate(now)) return 'Today';
+  if (day === formatNepalDate(new Date(now.getTime() + DAY_MS))) return 'Tomorrow';
+  return formatBsDateReadable(iso);
+};
+
+interface BookingForm {
+  date: string;
+  time: string;
+  partySize: string;
+  name: string;
+  phone: string;
+  table: string;
+  notes: string;
+}
+
+const emptyForm = (): BookingForm => ({
+  date: getNepalTodayString(),
+  time: '',
+  partySize: '2',
+  name: '',
+  phone: '',
+  table: NO_TABLE,
+  notes: '',
+});
+
+// Counter reservations tab: the booking timeline and the walk-in waitlist
+const Reservations = memo(function Reservations() {
+  const {
+    reservations, diningTables, orders, bills, settings,
+    addReservation, updateReservation, setReservationStatus,
+  } = useStore();
+  const [now, setNow] = useState(() => new Date());
+  const [formTarget, setFormTarget] = useState<Reservation | 'booking' | 'walk_in' | null>(null);
+  const [form, setForm] = useState<BookingForm>(emptyForm);
+  const [seatTarget, setSeatTarget] = useState<Reservation | null>(null);
+  const [seatTable, setSeatTable] = useState('');
+
+  // Late badges and wait estimates move with the clock
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const upcoming = useMemo(() => getUpcomingReservations(reservations), [reservations]);
+  const waitlist = useMemo(() => getWaitlist(reservations), [reservations]);
+  const estimates = useMemo(
+    () => estimateWaitlist(diningTables, orders, bills, reservations, settings, now),
+    [diningTables, orders, bills, reservations, settings, now]
+  );
+
+  // Bookings grouped by day for the timeline
+  const days = useMemo(() => {
+    const groups: { label: string; items: Reservation[] }[] = [];
+    upcoming.forEach(r => {
+      const label = getDayLabel(r.time, now);
+      const group = groups.find(g => g.label === label);
+      if (group) group.items.push(r);
+      else groups.push({ label, items: [r] });
+    });
+    return groups;
+  }, [upcoming, now]);
+
+  const editing = formTarget && typeof formTarget === 'object' ? formTarget : null;
+  const walkIn = formTarget === 'walk_in' || !!editing?.walkIn;
+  const partySize = Math.max(1, parseInt(form.partySize) || 1);
+  const formTime = form.date && form.time ? toBookingTime(form.date, form.time) : '';
+  const fittingTables = formTime && !walkIn
+    ? getFittingTables(partySize, formTime, diningTables, reservations, settings, editing?.id)
+    : [];
+
+  const openForm = (target: Reservation | 'booking' | 'walk_in') => {
+    setFormTarget(target);
+    if (typeof target === 'object') {
+      setForm({
+        date: formatNepalDate(target.time),
+        time: toTimeInput(target.time),
+        partySize: String(target.partySize),
+        name: target.name,
+        phone: target.phone,
+        table: target.tableNumber !== undefined ? String(target.tableNumber) : NO_TABLE,
+        notes: target.notes || '',
+      });
+    } else {
+      setForm(emptyForm());
+    }
+  };
+
+  const updateForm = (changes: Partial<BookingForm>) => setForm(current => ({ ...current, ...changes }));
+
+  const handleSave = () => {
+    const name = sanitizeText(form.name);
+    const phone = form.phone.trim();
+    if (!name) {
+      toast.error('Please enter a name');
+      return;
+    }
+    if (phone || !walkIn) {
+      const result = phoneSchema.safeParse(phone);
+      if (!result.success) {
+        toast.error(result.error.errors[0].message);
+        return;
+      }
+    }
+    if (!walkIn && !formTime) {
+      toast.error('Please pick a date and time');
+      return;
+    }
+    if (!walkIn && !editing && new Date(formTime).getTime() < Date.now()) {
+      toast.error('That time has already passed');
+      return;
+    }
+    const tableNumber = !walkIn && form.table !== NO_TABLE ? Number(form.table) : undefined;
+    if (tableNumber !== undefined && !fittingTables.some(t => t.number === tableNumber)) {
+      toast.error(`${getTableName(tableNumber, diningTables)} is too small or already booked then`);
+      return;
+    }
+
+    const details = { name, phone, partySize, notes: sanitizeText(form.notes) || undefined };
+    if (editing) {
+      updateReservation(editing.id, walkIn ? details : { ...details, time: formTime, tableNumber });
+      toast.success('Reservation updated');
+    } else if (walkIn) {
+      addReservation({ ...details, time: new Date().toISOString(), walkIn: true, status: 'waiting' });
+      toast.success(`${name} added to the waitlist`);
+    } else {
+      addReservation({ ...details, time: formTime, walkIn: false, tableNumber, status: 'booked' });
+      toast.success(`Booked for ${getDayLabel(formTime, new Date())} ${formatNepalTime(formTime)}`);
+    }
+    setFormTarget(null);
+  };
+
+  // Tables that seat the party, with what's happening on them now
+  const seatOptions = seatTarget
+    ? diningTables
+        .filter(t => t.capacity >= seatTarget.partySize)
+        .map(table => {
+          const held = getTableReservation(table.number, reservations, bills, settings, now);
+          const status = getTableStatus(table, orders, bills, held);
+          return { table, status, heldForOther: held && held.id !== seatTarget.id };
+        })
+    : [];
+
+  const openSeat = (reservation: Reservation) => {
+    const suggested = reservation.tableNumber ?? estimates.get(reservation.id)?.tableNumber;
+    setSeatTarget(reservation);
+    setSeatTable(suggested !== undefined ? String(suggested) : '');
+  };
+
+  const handleSeat = () => {
+    if (!seatTarget || !seatTable) return;
+    const option = seatOptions.find(o => o.table.number === Number(seatTable));
+    if (!option) return;
+    // A table reserved for this party is theirs to take
+    const busy = option.heldForOther || (option.status !== 'free' && option.status !== 'reserved');
+    if (busy && !confirm(`${getTableName(option.table.number, diningTables)} is ${tableStatusLabels[option.status].toLowerCase()}. Seat them there anyway?`)) return;
+    setReservationStatus(seatTarget.id, 'seated', option.table.number);
+    toast.success(`${seatTarget.name} seated at ${getTableName(option.table.number, diningTables)}`);
+    setSeatTarget(null);
+  };
+
+  const handleNoShow = (reservation: Reservation) => {
+    if (!confirm(`Mark ${reservation.name} as a no-show?`)) return;
+    setReservationStatus(reservation.id, 'no_show');
+  };
+
+  const handleCancel = (reservation: Reservation) => {
+    if (!confirm(reservation.walkIn ? `Remove ${reservation.name} from the waitlist?` : `Cancel ${reservation.name}'s booking?`)) return;
+    setReservationStatus(reservation.id, 'cancelled');
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-[3fr_2fr] gap-5">
+      {/* Booking timeline */}
+      <div className="space-y-4">
+        <div className="flex flex-wrap justify-between items-center gap-3">
+          <h3 className="text-lg font-bold">Upcoming Reservations</h3>
+          <Button onClick={() => openForm('booking')} className="bg-[#333] hover:bg-[#333]/90">
+            <Plus className="w-4 h-4 mr-2" /> New Booking
+          </Button>
+        </div>
+
+        {days.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm p-8 text-center text-muted-foreground">No upcoming reservations</div>
+        ) : days.map(day => (
+          <div key={day.label} className="space-y-2">
+            <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">{day.label}</p>
+            <div className="relative border-l-2 border-violet-500/30 ml-2 space-y-2">
+              {day.items.map(r => {
+                const late = isLate(r, now);
+                const noShows = getNoShowCount(r.phone, reservations);
+                return (
+                  <div key={r.id} className="relative ml-4 bg-white rounded-lg shadow-sm p-3">
+                    <div className={cn('absolute -left-[23px] top-4 w-3 h-3 rounded-full border-2 border-white', late ? 'bg-destructive' : 'bg-violet-500')} />
+                    <div className="flex flex-wrap items-start justify-between gap-2">
+                      <div>
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <span className="font-bold">{formatNepalTime(r.time)}</span>
+                          <span className="font-medium">{r.name}</span>
+                          <span className="flex items-center gap-0.5 text-xs text-muted-foreground">
+                            <Users className="w-3 h-3" /> {r.partySize}
+                          </span>
+                          {late && <span className="px-2 py-0.5 rounded-full text-[10px] font-semibold bg-destructive/10 text-destructive">Late</span>}
+                          {noShows > 0 && (
+                            <span className="px-2 py-0.5 rounded-full text-[10px] font-semibold bg-warning/10 text-warning">
+                              {noShows} no-show{noShows > 1 ? 's' : ''}
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-0.5">
+                          {r.phone}
+                          {' · '}
+                          {r.tableNumber !== undefined ? getTableName(r.tableNumber, diningTables) : 'No table yet'}
+                          {r.notes && ` · ${r.notes}`}
+                        </p>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button size="sm" className="h-8" onClick={() => openSeat(r)}>
+                          <Check className="w-4 h-4 mr-1" /> Seat
+                        </Button>
+                        {late && (
+                          <Button size="sm" variant="outline" className="h-8" onClick={() => handleNoShow(r)}>
+                            No-show
+                          </Button>
+                        )}
+                        <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => openForm(r)}>
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" className="h-8 w-8 p-0 text-destructive" onClick={() => handleCancel(r)}>
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Walk-in waitlist */}
+      <div className="space-y-4">
+        <div className="flex flex-wrap justify-between items-center gap-3">
+          <h3 className="text-lg font-bold">Waitlist ({waitlist.length})</h3>
+          <Button variant="outline" onClick={() => openForm('walk_in')}>
+            <UserPlus className="w-4 h-4 mr-2" /> Add Walk-in
+          </Button>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm divide-y divide-border">
+          {waitlist.length === 0 ? (
+            <p className="p-8 text-center text-muted-foreground">Nobody waiting</p>
+          ) : waitlist.map((r, i) => {
+            const estimate = estimates.get(r.id);
+            const waited = Math.max(0, Math.floor((now.getTime() - new Date(r.time).getTime()) / 60000));
+            return (
+              <div key={r.id} className="p-3 flex items-center gap-3">
+                <span className="w-6 h-6 rounded-full bg-muted flex items-center justify-center text-xs font-bold flex-shrink-0">{i + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{r.name}</span>
+                    <span className="flex items-center gap-0.5 text-xs text-muted-foreground">
+                      <Users className="w-3 h-3" /> {r.partySize}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Waiting {waited} min
+                    {' · '}
+                    <span className={cn(estimate?.minutes === null ? 'text-destructive' : 'text-foreground font-medium')}>
+                      {formatWaitEstimate(estimate)}
+                    </span>
+                    {estimate?.tableNumber !== undefined && ` (${getTableName(estimate.tableNumber, diningTables)})`}
+                  </p>
+                </div>
+                <Button size="sm" className="h-8" onClick={() => openSeat(r)}>Seat</Button>
+                <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => openForm(r)}>
+                  <Edit className="w-4 h-4" />
+                </Button>
+                <Button size="sm" variant="ghost" className="h-8 w-8 p-0 text-destructive" onClick={() => handleCancel(r)}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Estimates assume each party keeps a table for about {getReservationMinutes(settings)} minutes and leave booked tables free for their bookings.
+        </p>
+      </div>
+
+      {/* New / edit booking or walk-in */}
+      <Dialog open={!!formTarget} onOpenChange={(open) => !open && setFormTarget(null)}>
+        <DialogContent className="max-w-sm w-[calc(100%-2rem)]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <CalendarClock className="w-5 h-5 text-primary" />
+              {editing ? `Edit ${walkIn ? 'Walk-in' : 'Booking'}` : walkIn ? 'Add Walk-in' : 'New Booking'}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3 py-2">
+            <Input placeholder="Name" value={form.name} onChange={e => updateForm({ name: e.target.value })} />
+            <Input
+              type="tel"
+              inputMode="numeric"
+              maxLength={10}
+              placeholder={walkIn ? 'Phone (optional)' : 'Phone (98XXXXXXXX)'}
+              value={form.phone}
+              onChange={e => updateForm({ phone: e.target.value.replace(/\D/g, '') })}
+            />
+            {getNoShowCount(form.phone, reservations) > 0 && (
+              <p className="text-xs text-warning">Didn't turn up {getNoShowCount(form.phone, reservations)} time(s) before</p>
+            )}
+            <Input
+              type="number"
+              min={1}
+              placeholder="Party size"
+              value={form.partySize}
+              onChange={e => updateForm({ partySize: e.target.value })}
+            />
+            {!walkIn && (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  <BsDatePicker value={form.date} onChange={date => updateForm({ date })} className="w-full" />
+                  <Input type="time" value={form.time} onChange={e => updateForm({ time: e.target.value })} />
+                </div>
+                <Select value={form.table} onValueChange={table => updateForm({ table })} disabled={!formTime}>
+                  <SelectTrigger><SelectValue placeholder="Table" /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_TABLE}>Assign later</SelectItem>
+                    {fittingTables.map(t => (
+                      <SelectItem key={t.number} value={String(t.number)}>
+                        {getTableName(t.number, diningTables)} · {t.area} ({t.capacity} seats)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {formTime && fittingTables.length === 0 && (
+                  <p className="text-xs text-destructive">No free table seats {partySize} then</p>
+                )}
+              </>
+            )}
+            <Input placeholder="Notes (optional)" value={form.notes} onChange={e => updateForm({ notes: e.target.value })} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormTarget(null)}>Cancel</Button>
+            <Button onClick={handleSave} className="bg-[#333] hover:bg-[#333]/90">
+              {editing ? 'Save' : walkIn ? 'Add to Waitlist' : 'Book'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Seat a booking or walk-in */}
+      <Dialog open={!!seatTarget} onOpenChange={(open) => !open && setSeatTarget(null)}>
+        <DialogContent className="max-w-sm w-[calc(100%-2rem)]">
+          <DialogHeader>
+            <DialogTitle>Seat {seatTarget?.name} ({seatTarget?.partySize})</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3 py-2">
+            {seatOptions.length === 0 ? (
+              <p className="text-sm text-destructive">No table seats {seatTarget?.partySize}</p>
+            ) : (
+              <Select value={seatTable} onValueChange={setSeatTable}>
+                <SelectTrigger><SelectValue placeholder="Choose a table" /></SelectTrigger>
+                <SelectContent>
+                  {seatOptions.map(({ table, status, heldForOther }) => (
+                    <SelectItem key={table.number} value={String(table.number)}>
+                      {getTableName(table.number, diningTables)} · {table.capacity} seats ({heldForOther && status === 'reserved' ? 'Reserved for someone else' : tableStatusLabels[status]})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSeatTarget(null)}>Cancel</Button>
+            <Button onClick={handleSeat} disabled={!seatTable} className="bg-[#333] hover:bg-[#333]/90">Seat</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+});
+
+export { Reservations };
@@ -0,0 +1,106 @@
+import { memo, useState } from 'react';
+import { Plus, ShieldCheck, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { useStore } from '@/store/useStore';
+import { OWNER_ROLE, PERMISSIONS } from '@/lib/permissions';
+import { Permission, Role } from '@/types';
+import { toast } from 'sonner';
+
+// Permission matrix for built-in and custom roles (staff tab of the admin panel)
+const RolePermissionsMatrix = memo(function RolePermissionsMatrix() {
+  const { roles, staff, saveRole, deleteRole } = useStore();
+  const [newRoleName, setNewRoleName] = useState('');
+
+  const togglePermission = (role: Role, permission: Permission, enabled: boolean) => {
+    const permissions = enabled
+      ? [...role.permissions, permission]
+      : role.permissions.filter(p => p !== permission);
+    saveRole({ ...role, permissions });
+  };
+
+  const handleAddRole = () => {
+    const name = newRoleName.trim();
+    const id = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+    if (!id) return;
+    if (roles.some(r => r.id === id)) {
+      toast.error('A role with that name already exists');
+      return;
+    }
+    saveRole({ id, name, permissions: [], builtIn: false });
+    setNewRoleName('');
+    toast.success(`Role "${name}" added`);
+  };
+
+  const handleDeleteRole = (role: Role) => {
+    if (staff.some(s => s.role === role.id)) {
+      toast.error('Reassign staff with this role before deleting it');
+      return;
+    }
+    if (!confirm(`Delete role "${role.name}"?`)) return;
+    deleteRole(role.id);
+  };
+
+  return (
+    <div className="mt-8">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <ShieldCheck className="w-5 h-5 text-primary" /> Roles & Permissions
+      </h3>
+      <div className="bg-card rounded-xl border border-border overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-border">
+              <th className="p-3 text-left font-medium text-muted-foreground">Permission</th>
+              {roles.map(role => (
+                <th key={role.id} className="p-3 text-center font-medium whitespace-nowrap">
+                  <div className="flex items-center justify-center gap-1">
+                    {role.name}
+                    {!role.builtIn && (
+                      <button onClick={() => handleDeleteRole(role)} className="text-destructive" title="Delete role">
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {PERMISSIONS.map(permission => (
+              <tr key={permission.id} className="border-b border-border last:border-0">
+                <td className="p-3">
+                  {permission.label}
+                  <span className="ml-2 text-xs text-muted-foreground">{permission.area}</span>
+                </td>
+                {roles.map(role => (
+                  <td key={role.id} className="p-3 text-center">
+                    {/* Owners always keep every permission */}
+                    <Checkbox
+                      checked={role.id === OWNER_ROLE || role.permissions.includes(permission.id)}
+                      disabled={role.id === OWNER_ROLE}
+                      onCheckedChange={(checked) => togglePermission(role, permission.id, checked === true)}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex gap-2 mt-3 max-w-sm">
+        <Input
+          placeholder="New role name"
+          value={newRoleName}
+          onChange={(e) => setNewRoleName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAddRole()}
+        />
+        <Button variant="outline" onClick={handleAddRole}>
+          <Plus className="w-4 h-4 mr-1" /> Add Role
+        </Button>
+      </div>
+    </div>
+  );
+});
+
+export { RolePermissionsMatrix };
@@ -1,14 +1,24 @@
 import { useState, useMemo } from 'react';
 import { useStore } from '@/store/useStore';
+import { countBills, getItemShare, getTenderTotal, roundMoney } from '@/lib/billing';
+import { GATEWAY_METHODS, gatewayColors, paymentMethodLabels } from '@/lib/paymentGateways';
+import { getBillTax } from '@/lib/tax';
+import { getSalesByOrderType, orderTypeLabels } from '@/lib/orderTypes';
+import { formatFiscalYear, getFiscalYearRange, getFiscalYearStart } from '@/lib/bikramSambat';
+import { getNepalTodayString } from '@/lib/nepalTime';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { TrendingUp, TrendingDown, DollarSign, ShoppingBag, Users, CreditCard } from 'lucide-react';
+import { TrendingUp, TrendingDown, DollarSign, ShoppingBag, Users, CreditCard, Receipt, Utensils } from 'lucide-react';
 
-type ReportPeriod = 'today' | 'week' | 'month';
+type ReportPeriod = 'today' | 'week' | 'month' | 'fiscal';
+
+// Midnight in Nepal at the start of an AD date (YYYY-MM-DD)
+const nepalMidnight = (date: string) => new Date(`${date}T00:00:00+05:45`);
 
 export default function SalesReport() {
   const { transactions, customers, orders } = useStore();
   const [period, setPeriod] = useState<ReportPeriod>('today');
+  const fiscalYear = getFiscalYearStart(getNepalTodayString());
 
   const reportData = useMemo(() => {
     const now = new Date();
@@ -40,6 +50,15 @@ export default function SalesReport() {
         previousPeriodStart.setMonth(previousPeriodStart.getMonth() - 1);
         previousPeriodEnd = monthStart;
         break;
+      case 'fiscal': {
+        // Nepali fiscal year, 1 Shrawan to the end of Asar
+        const current = getFiscalYearRange(fiscalYear);
+        const previous = getFiscalYearRange(fiscalYear - 1);
+        periodStart = current ? nepalMidnight(current.from) : monthStart;
+        previousPeriodStart = previous ? nepalMidnight(previous.from) : periodStart;
+        previousPeriodEnd = periodStart;
+        break;
+      }
     }
 
     const periodTransactions = transactions.filter(
@@ -55,8 +74,8 @@ export default function SalesReport() {
       ? ((totalRevenue - previousRevenue) / previousRevenue * 100).toFixed(1)
       : totalRevenue > 0 ? '100' : '0';
 
-    const totalOrders = periodTransactions.length;
-    const previousOrders = previousTransactions.length;
+    const totalOrders = countBills(periodTransactions);
+    const previousOrders = countBills(previousTransactions);
     const ordersChange = previousOrders > 0
       ? ((totalOrders - previousOrders) / previousOrders * 100).toFixed(1)
       : totalOrders > 0 ? '100' : '0';
@@ -68,25 +87,36 @@ export default function SalesReport() {
       : avgOrderValue > 0 ? '100' : '0';
 
     // Payment method breakdown
-    const cashTotal = periodTransactions
-      .filter(t => t.paymentMethod === 'cash')
-      .reduce((sum, t) => sum + t.total, 0);
-    const fonepayTotal = periodTransactions
-      .filter(t => t.paymentMethod === 'fonepay')
-      .reduce((sum, t) => sum + t.total, 0);
+    const cashTotal = getTenderTotal(periodTransactions, 'cash');
+    const gatewayTotals = GATEWAY_METHODS.map(method => ({ method, total: getTenderTotal(periodTransactions, method) }));
+
+    // Tax summary; voids and refunds carry negative amounts and net themselves out
+    const taxSummary = periodTransactions.reduce((sum, t) => {
+      const tax = getBillTax(t);
+      return {
+        taxableAmount: sum.taxableAmount + tax.taxableAmount,
+        nonTaxableAmount: sum.nonTaxableAmount + tax.nonTaxableAmount,
+        serviceCharge: sum.serviceCharge + tax.serviceCharge,
+        vat: sum.vat + tax.vat,
+      };
+    }, { taxableAmount: 0, nonTaxableAmount: 0, serviceCharge: 0, vat: 0 });
+
+    const orderTypes = getSalesByOrderType(periodTransactions).filter(o => o.bills > 0 || o.revenue !== 0);
 
     // Top selling items
     const itemSales: Record<string, { name: string; qty: number; revenue: number }> = {};
     periodTransactions.forEach(t => {
+      const share = getItemShare(t);
       t.items.forEach(item => {
         if (!itemSales[item.name]) {
           itemSales[item.name] = { name: item.name, qty: 0, revenue: 0 };
         }
-        itemSales[item.name].qty += item.qty;
-        itemSales[item.name].revenue += item.qty * item.price;
+        itemSales[item.name].qty += item.qty * share;
+        itemSales[item.name].revenue += item.qty * item.price * share;
       });
     });
     const topItems = Object.values(itemSales)
+      .map(i => ({ ...i, qty: roundMoney(i.qty), revenue: roundMoney(i.revenue) }))
       .sort((a, b) => b.revenue - a.revenue)
       .slice(0, 5);
 
@@ -117,26 +147,33 @@ export default function SalesReport() {
       avgOrderValue,
       avgChange: parseFloat(avgChange),
       cashTotal,
-      fonepayTotal,
+      gatewayTotals,
+      taxSummary: {
+        taxableAmount: roundMoney(taxSummary.taxableAmount),
+        nonTaxableAmount: roundMoney(taxSummary.nonTaxableAmount),
+        serviceCharge: roundMoney(taxSummary.serviceCharge),
+        vat: roundMoney(taxSummary.vat),
+      },
+      orderTypes,
       topItems,
       hourlyData,
       dailyData,
       uniqueCustomers: new Set(periodTransactions.flatMap(t => t.customerPhones)).size,
     };
-  }, [transactions, period]);
+  }, [transactions, period, fiscalYear]);
 
   return (
     <div className="space-y-6">
       {/* Period Selector */}
-      <div className="flex gap-2">
-        {(['today', 'week', 'month'] as ReportPeriod[]).map(p => (
+      <div className="flex flex-wrap gap-2">
+        {(['today', 'week', 'month', 'fiscal'] as ReportPeriod[]).map(p => (
           <Button
             key={p}
             variant={period === p ? 'default' : 'outline'}
             onClick={() => setPeriod(p)}
             className="capitalize"
           >
-            {p === 'today' ? 'Today' : p === 'week' ? 'Last 7 Days' : 'This Month'}
+            {p === 'today' ? 'Today' : p === 'week' ? 'Last 7 Days' : p === 'month' ? 'This Month' : `FY ${formatFiscalYear(fiscalYear)}`}
           </Button>
         ))}
       </div>
@@ -176,7 +213,7 @@ export default function SalesReport() {
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-2 gap-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
             <div className="p-4 bg-[#f0f9f4] rounded-lg border border-[#27ae60]/20">
               <div className="text-sm text-[#666] mb-1">Cash</div>
               <div className="text-2xl font-bold text-[#27ae60]">
@@ -188,18 +225,78 @@ export default function SalesReport() {
                   : '0%'}
               </div>
             </div>
-            <div className="p-4 bg-[#fdf0f4] rounded-lg border border-[#c32148]/20">
-              <div className="text-sm text-[#666] mb-1">Fonepay</div>
-              <div className="text-2xl font-bold text-[#c32148]">
-                रू{reportData.fonepayTotal.toLocaleString()}
-              </div>
-              <div className="text-xs text-[#888] mt-1">
-                {reportData.totalRevenue > 0 
-                  ? `${((reportData.fonepayTotal / reportData.totalRevenue) * 100).toFixed(0)}%` 
-                  : '0%'}
+            {reportData.gatewayTotals.map(({ method, total }) => (
+              <div
+                key={method}
+                className="p-4 rounded-lg border"
+                style={{ borderColor: `${gatewayColors[method]}33`, backgroundColor: `${gatewayColors[method]}0d` }}
+              >
+                <div className="text-sm text-[#666] mb-1">{paymentMethodLabels[method]}</div>
+                <div className="text-2xl font-bold" style={{ color: gatewayColors[method] }}>
+                  रू{total.toLocaleString()}
+                </div>
+                <div className="text-xs text-[#888] mt-1">
+                  {reportData.totalRevenue > 0 
+                    ? `${((total / reportData.totalRevenue) * 100).toFixed(0)}%` 
+                    : '0%'}
+                </div>
               </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Order Types */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Utensils className="w-5 h-5" /> By Order Type
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {reportData.orderTypes.length === 0 ? (
+            <p className="text-[#999] text-center py-4">No sales data for this period.</p>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {reportData.orderTypes.map(o => (
+                <div key={o.type} className="p-4 bg-muted rounded-lg">
+                  <div className="text-sm text-[#666] mb-1">{orderTypeLabels[o.type]}</div>
+                  <div className="text-xl font-bold">रू{o.revenue.toLocaleString()}</div>
+                  <div className="text-xs text-[#888] mt-1">
+                    {o.bills} bill{o.bills === 1 ? '' : 's'}
+                    {reportData.totalRevenue > 0 && ` · ${((o.revenue / reportData.totalRevenue) * 100).toFixed(0)}%`}
+                  </div>
+                </div>
+              ))}
             </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Tax Summary */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Receipt className="w-5 h-5" /> Tax Summary
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {([
+              ['Taxable Sales', reportData.taxSummary.taxableAmount],
+              ['Non-taxable Sales', reportData.taxSummary.nonTaxableAmount],
+              ['Service Charge', reportData.taxSummary.serviceCharge],
+              ['VAT Collected', reportData.taxSummary.vat],
+            ] as [string, number][]).map(([label, value]) => (
+              <div key={label} className="p-4 bg-muted rounded-lg">
+                <div className="text-sm text-[#666] mb-1">{label}</div>
+                <div className="text-xl font-bold">रू{value.toLocaleString()}</div>
+              </div>
+            ))}
           </div>
+          <p className="text-xs text-[#888] mt-3">
+            Taxable sales include service charge and delivery fees; non-taxable covers VAT-exempt items and bills from before tax was tracked.
+          </p>
         </CardContent>
       </Card>
 
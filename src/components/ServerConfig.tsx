@@ -1,18 +1,35 @@
-import { useState } from 'react';
+import { useState, useSyncExternalStore } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Server, Wifi, WifiOff, RefreshCw, Settings2, QrCode, Copy, Check } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Server, Wifi, WifiOff, RefreshCw, Settings2, QrCode, Copy, Check, Router, Search } from 'lucide-react';
 import { checkBackendHealth, getApiBaseUrl } from '@/lib/apiClient';
+import { lanHub, checkLanHub, discoverLanHub, getHubUrlProblem, LanHubStatus } from '@/lib/lanHub';
 import { toast } from 'sonner';
 import { QRCodeSVG } from 'qrcode.react';
 
+const hubStatusLabels: Record<LanHubStatus, string> = {
+  off: 'Not set up',
+  connecting: 'Connecting...',
+  connected: 'Connected',
+  error: 'Wrong key or hub stopped',
+};
+
+const subscribeHub = (listener: () => void) => lanHub.subscribe(listener);
+const getHubStatus = () => lanHub.getStatus();
+
 export function ServerConfig() {
   const [testing, setTesting] = useState(false);
   const [open, setOpen] = useState(false);
   const [showQR, setShowQR] = useState(false);
   const [copied, setCopied] = useState(false);
   const [isConnected, setIsConnected] = useState(true);
+  const hubStatus = useSyncExternalStore(subscribeHub, getHubStatus);
+  const [hubUrl, setHubUrl] = useState(lanHub.getConfig()?.url ?? '');
+  const [hubKey, setHubKey] = useState(lanHub.getConfig()?.key ?? '');
+  const [findingHub, setFindingHub] = useState(false);
+  const hubUrlProblem = hubUrl.trim() ? getHubUrlProblem(hubUrl) : null;
 
   // Get the current app URL for QR code
   const getQrUrl = () => {
@@ -40,6 +57,44 @@ export function ServerConfig() {
     }
   };
 
+  const handleFindHub = async () => {
+    setFindingHub(true);
+    try {
+      const url = await discoverLanHub();
+      if (url) {
+        setHubUrl(url);
+        toast.success('Found a hub on this network');
+      } else {
+        toast.error('No hub found. Enter its address from the hub window');
+      }
+    } finally {
+      setFindingHub(false);
+    }
+  };
+
+  const handleConnectHub = async () => {
+    if (!hubUrl.trim() || !hubKey.trim()) {
+      toast.error('Enter the hub address and key');
+      return;
+    }
+    if (hubUrlProblem) {
+      toast.error(hubUrlProblem);
+      return;
+    }
+    if (!(await checkLanHub(hubUrl))) {
+      toast.error('No hub answering at that address');
+      return;
+    }
+    lanHub.configure({ url: hubUrl, key: hubKey.trim() });
+    toast.success('Local hub saved');
+  };
+
+  const handleDisconnectHub = () => {
+    lanHub.configure(null);
+    setHubUrl('');
+    setHubKey('');
+  };
+
   const handleCopyUrl = async () => {
     try {
       await navigator.clipboard.writeText(currentUrl);
@@ -61,6 +116,7 @@ export function ServerConfig() {
           ) : (
             <Badge variant="destructive">Offline</Badge>
           )}
+          {hubStatus === 'connected' && <Badge variant="secondary">LAN</Badge>}
         </Button>
       </DialogTrigger>
       <DialogContent className="sm:max-w-md">
@@ -149,6 +205,50 @@ export function ServerConfig() {
             </Button>
           </div>
 
+          {/* Local hub: keeps devices in sync over the shop Wi-Fi when the internet is down */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="flex items-center gap-2 text-sm font-medium">
+                <Router className="h-4 w-4" />
+                Local hub
+              </span>
+              <Badge variant={hubStatus === 'connected' ? 'default' : hubStatus === 'error' ? 'destructive' : 'secondary'}>
+                {hubStatusLabels[hubStatus]}
+              </Badge>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                value={hubUrl}
+                onChange={e => setHubUrl(e.target.value)}
+                placeholder="http://192.168.1.20:4310"
+              />
+              <Button variant="outline" size="icon" onClick={handleFindHub} disabled={findingHub} title="Find hub">
+                <Search className={`h-4 w-4 ${findingHub ? 'animate-pulse' : ''}`} />
+              </Button>
+            </div>
+            {hubUrlProblem && <p className="text-xs text-destructive">{hubUrlProblem}</p>}
+            <Input
+              value={hubKey}
+              onChange={e => setHubKey(e.target.value)}
+              placeholder="Hub key"
+              type="password"
+            />
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={handleConnectHub}>
+                {lanHub.getConfig() ? 'Update' : 'Connect'}
+              </Button>
+              {lanHub.getConfig() && (
+                <Button variant="ghost" onClick={handleDisconnectHub}>Remove</Button>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Orders, kitchen progress and waiter calls reach the other devices through the hub while the
+              internet is down. Each device still saves to the cloud once it's back. Customer phones don't
+              use the hub, so orders and waiter calls from the QR menu wait until the internet is back; take
+              them at the Counter meanwhile.
+            </p>
+          </div>
+
           {/* Info */}
           <div className="text-sm text-muted-foreground">
             <p>Backend: <code className="bg-muted px-1 rounded text-xs">{getApiBaseUrl() || 'Supabase'}</code></p>
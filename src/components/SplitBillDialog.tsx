@@ -0,0 +1,221 @@
+import { memo, useEffect, useMemo, useState } from 'react';
+import { Minus, Plus, Trash2 } from 'lucide-react';
+import { OrderItem } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { useStore } from '@/store/useStore';
+import { buildItemSplitParts, roundMoney, splitEvenly, SplitPart } from '@/lib/billing';
+import { formatItemName } from '@/lib/modifiers';
+import { calculateBillTax } from '@/lib/tax';
+import { cn } from '@/lib/utils';
+
+type SplitMode = 'item' | 'even' | 'custom';
+
+interface SplitBillDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  items: OrderItem[];
+  subtotal: number;
+  discount: number;
+  deliveryFee: number;
+  total: number; // With service charge, delivery fee and VAT
+  onConfirm: (parts: SplitPart[]) => void;
+}
+
+const SplitBillDialog = memo(function SplitBillDialog({
+  open,
+  onOpenChange,
+  items,
+  subtotal,
+  discount,
+  deliveryFee,
+  total,
+  onConfirm,
+}: SplitBillDialogProps) {
+  const { settings } = useStore();
+  const [mode, setMode] = useState<SplitMode>('item');
+  const [seatCount, setSeatCount] = useState(2);
+  const [ways, setWays] = useState(2);
+  const [assignments, setAssignments] = useState<Record<string, number>>({});
+  const [customAmounts, setCustomAmounts] = useState<number[]>([]);
+  const [customInput, setCustomInput] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setAssignments({});
+      setCustomAmounts([]);
+      setCustomInput('');
+    }
+  }, [open]);
+
+  // Every unit of every line can go to a different seat
+  const units = useMemo(() => items.flatMap(item =>
+    Array.from({ length: item.qty }, (_, n) => ({ key: `${item.id}#${n}`, item }))
+  ), [items]);
+
+  const unassignedCount = units.filter(u => assignments[u.key] === undefined).length;
+
+  const buildParts = (): SplitPart[] => {
+    if (mode === 'item') {
+      const seats = Array.from({ length: seatCount }, (_, seat) => {
+        const seatItems: OrderItem[] = [];
+        units.filter(u => assignments[u.key] === seat).forEach(u => {
+          const existing = seatItems.find(i => i.id === u.item.id);
+          if (existing) {
+            existing.qty += 1;
+          } else {
+            seatItems.push({ ...u.item, qty: 1 });
+          }
+        });
+        return { label: `Seat ${seat + 1}`, items: seatItems };
+      });
+      return buildItemSplitParts(seats, total, seatItems => {
+        const seatSubtotal = seatItems.reduce((sum, i) => sum + i.price * i.qty, 0);
+        const seatDiscount = subtotal > 0 ? (discount * seatSubtotal) / subtotal : 0;
+        const seatDeliveryFee = subtotal > 0 ? roundMoney((deliveryFee * seatSubtotal) / subtotal) : 0;
+        return calculateBillTax(seatItems, seatDiscount, settings, seatDeliveryFee).total;
+      });
+    }
+    if (mode === 'even') {
+      return splitEvenly(total, ways).map((amount, i) => ({ label: `Share ${i + 1}/${ways}`, amount }));
+    }
+    const remainder = roundMoney(total - customAmounts.reduce((sum, a) => sum + a, 0));
+    const amounts = remainder > 0 ? [...customAmounts, remainder] : customAmounts;
+    return amounts.map((amount, i) => ({ label: `Part ${i + 1}`, amount }));
+  };
+
+  const parts = buildParts();
+  const customRemainder = roundMoney(total - customAmounts.reduce((sum, a) => sum + a, 0));
+
+  const canConfirm = parts.length >= 2 && (mode !== 'item' || unassignedCount === 0);
+
+  const addCustomAmount = () => {
+    const amount = parseFloat(customInput);
+    if (!amount || amount <= 0 || amount >= customRemainder) return;
+    setCustomAmounts([...customAmounts, roundMoney(amount)]);
+    setCustomInput('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg w-[calc(100%-2rem)] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Split Bill · रू{total}</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-2 mb-4">
+          {([['item', 'By Item'], ['even', 'Evenly'], ['custom', 'Custom']] as [SplitMode, string][]).map(([m, label]) => (
+            <Button key={m} variant={mode === m ? 'default' : 'outline'} onClick={() => setMode(m)}>
+              {label}
+            </Button>
+          ))}
+        </div>
+
+        {mode === 'item' && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Seats</span>
+              <div className="flex items-center gap-2">
+                <Button size="icon" variant="outline" className="h-8 w-8" onClick={() => setSeatCount(Math.max(2, seatCount - 1))}>
+                  <Minus className="w-4 h-4" />
+                </Button>
+                <span className="w-6 text-center font-bold">{seatCount}</span>
+                <Button size="icon" variant="outline" className="h-8 w-8" onClick={() => setSeatCount(Math.min(10, seatCount + 1))}>
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="max-h-[280px] overflow-y-auto space-y-2 border rounded-lg p-2">
+              {units.map(unit => (
+                <div key={unit.key} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">{formatItemName(unit.item)} <span className="text-muted-foreground">रू{unit.item.price}</span></span>
+                  <div className="flex gap-1 shrink-0">
+                    {Array.from({ length: seatCount }, (_, seat) => (
+                      <button
+                        key={seat}
+                        onClick={() => setAssignments({ ...assignments, [unit.key]: seat })}
+                        className={cn(
+                          "w-7 h-7 rounded-full text-xs font-bold border",
+                          assignments[unit.key] === seat ? 'bg-primary text-primary-foreground border-primary' : 'border-border'
+                        )}
+                      >
+                        {seat + 1}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+            {unassignedCount > 0 && (
+              <p className="text-xs text-warning">{unassignedCount} item{unassignedCount > 1 ? 's' : ''} not assigned to a seat</p>
+            )}
+          </div>
+        )}
+
+        {mode === 'even' && (
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Split between</span>
+            <div className="flex items-center gap-2">
+              <Button size="icon" variant="outline" className="h-8 w-8" onClick={() => setWays(Math.max(2, ways - 1))}>
+                <Minus className="w-4 h-4" />
+              </Button>
+              <span className="w-6 text-center font-bold">{ways}</span>
+              <Button size="icon" variant="outline" className="h-8 w-8" onClick={() => setWays(Math.min(20, ways + 1))}>
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {mode === 'custom' && (
+          <div className="space-y-3">
+            {customAmounts.map((amount, i) => (
+              <div key={i} className="flex items-center justify-between text-sm">
+                <span>Part {i + 1}</span>
+                <span className="flex items-center gap-2">
+                  रू{amount}
+                  <button onClick={() => setCustomAmounts(customAmounts.filter((_, idx) => idx !== i))} className="text-destructive">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </span>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                placeholder={`Amount (max रू${customRemainder})`}
+                value={customInput}
+                onChange={e => setCustomInput(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && addCustomAmount()}
+              />
+              <Button variant="outline" onClick={addCustomAmount}>
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">The remainder (रू{customRemainder}) becomes the last part.</p>
+          </div>
+        )}
+
+        {/* Preview */}
+        <div className="border-t border-border mt-4 pt-3 space-y-1">
+          {parts.map(part => (
+            <div key={part.label} className="flex justify-between text-sm">
+              <span>{part.label}{part.items && ` · ${part.items.reduce((sum, i) => sum + i.qty, 0)} items`}</span>
+              <span className="font-bold">रू{part.amount}</span>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button disabled={!canConfirm} onClick={() => onConfirm(parts)}>
+            Create {parts.length} Bills
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+});
+
+export { SplitBillDialog };
@@ -0,0 +1,39 @@
+import { ReactNode } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { useStore } from '@/store/useStore';
+import { useStaffSession } from '@/hooks/useStaffSession';
+import { getHomeRoute, hasPermission } from '@/lib/permissions';
+import { Permission } from '@/types';
+
+interface StaffGuardProps {
+  children: ReactNode;
+  permission?: Permission;
+}
+
+// Staff routes only render once the server has verified the session token
+export function StaffGuard({ children, permission }: StaffGuardProps) {
+  useStaffSession();
+  const isAuthenticated = useStore((state) => state.isAuthenticated);
+  const isSessionChecked = useStore((state) => state.isSessionChecked);
+  const currentUser = useStore((state) => state.currentUser);
+
+  if (!isSessionChecked) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  // Signed in but without access to this screen: send them to one they can use
+  if (permission && !hasPermission(currentUser, permission)) {
+    return <Navigate to={getHomeRoute(currentUser)} replace />;
+  }
+
+  return <>{children}</>;
+}
@@ -8,7 +8,7 @@ interface SubscriptionGuardProps {
 }
 
 // Customer-facing routes where subscription check should be skipped entirely
-const CUSTOMER_ROUTES = ['/', '/table'];
+const CUSTOMER_ROUTES = ['/', '/table', '/pay'];
 
 function isCustomerRoute(pathname: string): boolean {
   return CUSTOMER_ROUTES.some(route => 
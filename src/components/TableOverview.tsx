@@ -0,0 +1,159 @@
+import { memo, useMemo, useState } from 'react';
+import { Map, ArrowRightLeft, Receipt, Sparkles, Search } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TableMap, TableInfo } from '@/components/ui/TableMap';
+import { useStore } from '@/store/useStore';
+import { TableStatus } from '@/types';
+import { getOpenTableOrders, getTableAreas, getTableName, getTableStatus, tableStatusLabels } from '@/lib/tables';
+import { getTableReservation } from '@/lib/reservations';
+import { formatNepalTime } from '@/lib/nepalTime';
+import { toast } from 'sonner';
+
+interface TableOverviewProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onShowOrders: (tableNumber: number) => void;
+}
+
+// Counter floor plan: live table status, service flags, transfer and merge
+const TableOverview = memo(function TableOverview({ open, onOpenChange, onShowOrders }: TableOverviewProps) {
+  const { orders, bills, diningTables, reservations, settings, moveTable, setTableServiceStatus } = useStore();
+  const [selected, setSelected] = useState<number | null>(null);
+  const [moveTo, setMoveTo] = useState('');
+
+  const tables = useMemo<TableInfo[]>(() => diningTables.map(table => {
+    const openOrders = getOpenTableOrders(table.number, orders, bills);
+    const reservation = getTableReservation(table.number, reservations, bills, settings);
+    return {
+      tableNumber: table.number,
+      name: getTableName(table.number, diningTables),
+      area: table.area,
+      capacity: table.capacity,
+      x: table.x,
+      y: table.y,
+      status: getTableStatus(table, orders, bills, reservation),
+      customerCount: new Set(openOrders.map(o => o.customerPhone)).size || undefined,
+      totalAmount: openOrders.reduce((sum, o) => sum + o.total, 0) || undefined,
+      hasPendingOrders: openOrders.some(o => o.status === 'pending'),
+      hasReadyOrders: openOrders.some(o => o.status === 'ready'),
+      heldFor: reservation?.status === 'booked' ? `${reservation.name} · ${formatNepalTime(reservation.time)}` : undefined,
+    };
+  }), [diningTables, orders, bills, reservations, settings]);
+
+  const areas = getTableAreas(diningTables);
+  const current = tables.find(t => t.tableNumber === selected);
+  const target = tables.find(t => t.tableNumber === Number(moveTo));
+  const counts = (status: TableStatus) => tables.filter(t => t.status === status).length;
+  const isInUse = (t?: TableInfo) => t?.status === 'occupied' || t?.status === 'bill_requested';
+  const inUse = isInUse(current);
+  const merge = isInUse(target);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setSelected(null);
+      setMoveTo('');
+    }
+    onOpenChange(next);
+  };
+
+  const handleMove = () => {
+    if (!current || !target) return;
+    if (merge && !confirm(`Merge ${current.name} into ${target.name}? Both tables will be paid on one bill.`)) return;
+    moveTable(current.tableNumber, target.tableNumber);
+    toast.success(merge ? `${current.name} merged into ${target.name}` : `${current.name} moved to ${target.name}`);
+    setSelected(target.tableNumber);
+    setMoveTo('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl w-[calc(100%-2rem)] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Map className="w-5 h-5 text-primary" />
+            Table Overview
+          </DialogTitle>
+        </DialogHeader>
+
+        <TableMap
+          tables={tables}
+          areas={areas}
+          selectedTable={selected ?? undefined}
+          onTableClick={(tableNumber) => { setSelected(tableNumber); setMoveTo(''); }}
+        />
+
+        <div className="flex flex-wrap justify-center gap-4 text-sm text-muted-foreground">
+          {(Object.keys(tableStatusLabels) as TableStatus[]).map(status => (
+            <span key={status}>{tableStatusLabels[status]}: {counts(status)}</span>
+          ))}
+        </div>
+
+        {current && (
+          <div className="border-t border-border pt-4 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <div>
+                <p className="font-bold">{current.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {current.area} · {current.capacity} seats · {tableStatusLabels[current.status]}
+                  {current.totalAmount ? ` · रू${current.totalAmount}` : ''}
+                </p>
+                {current.heldFor && (
+                  <p className="text-xs text-violet-600">Held for {current.heldFor}</p>
+                )}
+              </div>
+              <Button size="sm" variant="outline" onClick={() => { onShowOrders(current.tableNumber); handleOpenChange(false); }}>
+                <Search className="w-4 h-4 mr-1" /> Orders
+              </Button>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {inUse && (
+                <Button
+                  size="sm"
+                  variant={current.status === 'bill_requested' ? 'default' : 'outline'}
+                  onClick={() => setTableServiceStatus(current.tableNumber, current.status === 'bill_requested' ? undefined : 'bill_requested')}
+                >
+                  <Receipt className="w-4 h-4 mr-1" />
+                  {current.status === 'bill_requested' ? 'Clear bill request' : 'Bill requested'}
+                </Button>
+              )}
+              {current.status === 'cleaning' && (
+                <Button size="sm" variant="outline" onClick={() => setTableServiceStatus(current.tableNumber, undefined)}>
+                  <Sparkles className="w-4 h-4 mr-1" /> Mark clean
+                </Button>
+              )}
+              {(current.status === 'free' || current.status === 'reserved') && (
+                <Button size="sm" variant="outline" onClick={() => setTableServiceStatus(current.tableNumber, 'cleaning')}>
+                  <Sparkles className="w-4 h-4 mr-1" /> Needs cleaning
+                </Button>
+              )}
+            </div>
+
+            {inUse && (
+              <div className="flex gap-2">
+                <Select value={moveTo} onValueChange={setMoveTo}>
+                  <SelectTrigger className="h-9"><SelectValue placeholder="Move or merge into..." /></SelectTrigger>
+                  <SelectContent>
+                    {tables.filter(t => t.tableNumber !== current.tableNumber).map(t => (
+                      <SelectItem key={t.tableNumber} value={String(t.tableNumber)}>
+                        {t.name} · {t.area} ({tableStatusLabels[t.status]})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button size="sm" className="h-9" onClick={handleMove} disabled={!target}>
+                  <ArrowRightLeft className="w-4 h-4 mr-1" />
+                  {merge ? 'Merge' : 'Move'}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+});
+
+export { TableOverview };
@@ -1,114 +1,185 @@
-import { memo } from 'react';
+import { memo, useRef, useState } from 'react';
 import { cn } from '@/lib/utils';
-import { Users, ShoppingCart, Clock } from 'lucide-react';
-
-export type TableStatus = 'empty' | 'ordering' | 'occupied' | 'waiting';
+import { Users, Clock, BellRing, CalendarClock } from 'lucide-react';
+import { TableStatus } from '@/types';
+import { DEFAULT_TABLE_AREA, tableStatusLabels } from '@/lib/tables';
 
 interface TableInfo {
   tableNumber: number;
+  name: string;
+  area: string;
+  capacity: number;
+  x: number;
+  y: number;
   status: TableStatus;
   customerCount?: number;
   totalAmount?: number;
-  hasActiveOrders?: boolean;
   hasPendingOrders?: boolean;
+  hasReadyOrders?: boolean;
+  heldFor?: string; // Booking the table is held for, e.g. "Sita · 7:30 PM"
 }
 
 interface TableMapProps {
   tables: TableInfo[];
+  areas: string[];
   onTableClick?: (tableNumber: number) => void;
+  // Set to let tables be dragged around the floor plan (positions are percentages)
+  onTableMove?: (tableNumber: number, x: number, y: number) => void;
+  selectedTable?: number;
   className?: string;
 }
 
-const statusStyles: Record<TableStatus, { bg: string; border: string; text: string; pulse?: boolean }> = {
-  empty: {
+const statusStyles: Record<TableStatus, { bg: string; border: string; text: string }> = {
+  free: {
     bg: 'bg-muted/30 hover:bg-muted/50',
     border: 'border-border',
     text: 'text-muted-foreground',
   },
-  ordering: {
-    bg: 'bg-warning/10 hover:bg-warning/20',
-    border: 'border-warning',
-    text: 'text-warning',
-    pulse: true,
+  reserved: {
+    bg: 'bg-violet-500/10 hover:bg-violet-500/20',
+    border: 'border-violet-500',
+    text: 'text-violet-600',
   },
   occupied: {
     bg: 'bg-destructive/10 hover:bg-destructive/20',
     border: 'border-destructive',
     text: 'text-destructive',
   },
-  waiting: {
-    bg: 'bg-success/10 hover:bg-success/20',
-    border: 'border-success',
-    text: 'text-success',
+  bill_requested: {
+    bg: 'bg-warning/10 hover:bg-warning/20',
+    border: 'border-warning',
+    text: 'text-warning',
+  },
+  cleaning: {
+    bg: 'bg-primary/10 hover:bg-primary/20',
+    border: 'border-primary border-dashed',
+    text: 'text-primary',
   },
 };
 
-const statusLabels: Record<TableStatus, string> = {
-  empty: 'Empty',
-  ordering: 'Ordering',
-  occupied: 'Occupied',
-  waiting: 'Ready',
-};
+const clamp = (value: number) => Math.min(95, Math.max(5, Math.round(value * 10) / 10));
+
+const TableMap = memo(function TableMap({ tables, areas, onTableClick, onTableMove, selectedTable, className }: TableMapProps) {
+  const [area, setArea] = useState(areas[0] || DEFAULT_TABLE_AREA);
+  const [drag, setDrag] = useState<{ tableNumber: number; x: number; y: number; moved: boolean } | null>(null);
+  const canvasRef = useRef<HTMLDivElement>(null);
+
+  // The selected area may have been renamed or emptied
+  const activeArea = areas.includes(area) ? area : areas[0] || DEFAULT_TABLE_AREA;
+  const areaTables = tables.filter(t => t.area === activeArea);
+
+  const getPosition = (clientX: number, clientY: number) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    return {
+      x: clamp(((clientX - rect.left) / rect.width) * 100),
+      y: clamp(((clientY - rect.top) / rect.height) * 100),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLButtonElement>, table: TableInfo) => {
+    if (!onTableMove) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ tableNumber: table.tableNumber, x: table.x, y: table.y, moved: false });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (!drag) return;
+    const position = getPosition(e.clientX, e.clientY);
+    if (position) setDrag({ ...drag, ...position, moved: true });
+  };
+
+  const handlePointerUp = (table: TableInfo) => {
+    if (!drag) return;
+    if (drag.moved) {
+      onTableMove?.(table.tableNumber, drag.x, drag.y);
+    } else {
+      onTableClick?.(table.tableNumber);
+    }
+    setDrag(null);
+  };
 
-const TableMap = memo(function TableMap({ tables, onTableClick, className }: TableMapProps) {
   return (
-    <div className={cn("space-y-4", className)}>
+    <div className={cn("space-y-3", className)}>
+      {/* Areas */}
+      {areas.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {areas.map(a => (
+            <button
+              key={a}
+              onClick={() => setArea(a)}
+              className={cn(
+                "px-3 py-1 rounded-full text-xs font-medium border",
+                a === activeArea ? "bg-primary text-primary-foreground border-primary" : "border-border text-muted-foreground"
+              )}
+            >
+              {a} ({tables.filter(t => t.area === a).length})
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Legend */}
       <div className="flex flex-wrap gap-3 text-xs">
-        {Object.entries(statusStyles).map(([status, style]) => (
+        {(Object.keys(statusStyles) as TableStatus[]).map(status => (
           <div key={status} className="flex items-center gap-1.5">
-            <div className={cn("w-3 h-3 rounded-full border", style.bg, style.border)} />
-            <span className="text-muted-foreground capitalize">{statusLabels[status as TableStatus]}</span>
+            <div className={cn("w-3 h-3 rounded-full border", statusStyles[status].bg, statusStyles[status].border)} />
+            <span className="text-muted-foreground">{tableStatusLabels[status]}</span>
           </div>
         ))}
       </div>
-      
-      {/* Table Grid */}
-      <div className="grid grid-cols-5 gap-3">
-        {tables.map((table) => {
+
+      {/* Floor plan */}
+      <div
+        ref={canvasRef}
+        className="relative w-full aspect-[16/10] rounded-xl border border-border bg-muted/10 bg-[radial-gradient(hsl(var(--border))_1px,transparent_1px)] [background-size:20px_20px] overflow-hidden touch-none"
+      >
+        {areaTables.length === 0 && (
+          <p className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">No tables in {activeArea}</p>
+        )}
+        {areaTables.map(table => {
           const style = statusStyles[table.status];
+          const dragging = drag?.tableNumber === table.tableNumber ? drag : null;
           return (
             <button
               key={table.tableNumber}
-              onClick={() => onTableClick?.(table.tableNumber)}
+              onClick={onTableMove ? undefined : () => onTableClick?.(table.tableNumber)}
+              onPointerDown={e => handlePointerDown(e, table)}
+              onPointerMove={handlePointerMove}
+              onPointerUp={() => handlePointerUp(table)}
+              style={{ left: `${dragging?.x ?? table.x}%`, top: `${dragging?.y ?? table.y}%` }}
               className={cn(
-                "relative aspect-square rounded-xl border-2 flex flex-col items-center justify-center transition-all duration-200 hover:scale-105 hover:shadow-lg group",
+                "absolute -translate-x-1/2 -translate-y-1/2 rounded-xl border-2 flex flex-col items-center justify-center transition-shadow hover:shadow-lg",
+                table.capacity > 4 ? "w-24 h-16" : "w-16 h-16",
                 style.bg,
                 style.border,
-                style.text
+                style.text,
+                onTableMove && "cursor-move",
+                dragging && "shadow-xl z-10",
+                selectedTable === table.tableNumber && "ring-2 ring-primary ring-offset-2"
               )}
             >
-              <span className="text-lg font-bold">{table.tableNumber}</span>
-              
-              {table.status !== 'empty' && (
-                <>
-                  <div className="flex items-center gap-1 text-xs mt-1">
-                    <Users className="w-3 h-3" />
-                    <span>{table.customerCount || 1}</span>
-                  </div>
-                  
-                  {table.totalAmount !== undefined && table.totalAmount > 0 && (
-                    <span className="text-[10px] mt-0.5 font-medium">
-                      रू{table.totalAmount}
-                    </span>
-                  )}
-                  
-                  {/* Status indicator */}
-                  <span className={cn(
-                    "absolute top-1 right-1 w-2 h-2 rounded-full",
-                    table.status === 'ordering' && "bg-warning animate-pulse",
-                    table.status === 'occupied' && "bg-destructive",
-                    table.status === 'waiting' && "bg-success animate-pulse"
-                  )} />
-                  
-                  {/* Icon indicator */}
-                  {table.hasPendingOrders && (
-                    <Clock className="absolute top-1 left-1 w-3 h-3 text-warning" />
-                  )}
-                  {table.hasActiveOrders && !table.hasPendingOrders && (
-                    <ShoppingCart className="absolute top-1 left-1 w-3 h-3 text-primary" />
-                  )}
-                </>
+              <span className="text-sm font-bold leading-tight truncate max-w-full px-1">{table.name}</span>
+              <span className="flex items-center gap-0.5 text-[10px]">
+                <Users className="w-3 h-3" />
+                {table.customerCount ? `${table.customerCount}/${table.capacity}` : table.capacity}
+              </span>
+              {table.totalAmount !== undefined && table.totalAmount > 0 && (
+                <span className="text-[10px] font-medium">रू{table.totalAmount}</span>
+              )}
+              {table.heldFor && (
+                <span className="text-[10px] leading-tight truncate max-w-full px-1">{table.heldFor}</span>
+              )}
+
+              {/* Kitchen progress */}
+              {table.hasPendingOrders && (
+                <Clock className="absolute top-1 left-1 w-3 h-3 text-warning animate-pulse" />
+              )}
+              {table.hasReadyOrders && (
+                <BellRing className="absolute top-1 right-1 w-3 h-3 text-success animate-pulse" />
+              )}
+              {table.heldFor && !table.hasReadyOrders && (
+                <CalendarClock className="absolute top-1 right-1 w-3 h-3" />
               )}
             </button>
           );
@@ -1,12 +1,14 @@
 import { useEffect, useRef } from 'react';
 import { useStore } from '@/store/useStore';
 import { toast } from 'sonner';
+import { getReleaseTime } from '@/lib/preOrders';
 
 const AUTO_CANCEL_MINUTES = 30;
 
 export function useAutoCancel() {
   const orders = useStore((state) => state.orders);
   const updateOrderStatus = useStore((state) => state.updateOrderStatus);
+  const settings = useStore((state) => state.settings);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
 
   useEffect(() => {
@@ -17,7 +19,8 @@ export function useAutoCancel() {
       orders
         .filter(order => order.status === 'pending')
         .forEach(order => {
-          const orderAge = now - new Date(order.createdAt).getTime();
+          // Pre-orders wait for their pickup slot; the clock starts when the kitchen gets them
+          const orderAge = now - getReleaseTime(order, settings).getTime();
           if (orderAge > cancelThreshold) {
             updateOrderStatus(order.id, 'cancelled');
             toast.info(`Order #${order.id.slice(-6)} auto-cancelled (30min timeout)`);
@@ -36,5 +39,5 @@ export function useAutoCancel() {
         clearInterval(intervalRef.current);
       }
     };
-  }, [orders, updateOrderStatus]);
+  }, [orders, updateOrderStatus, settings]);
 }
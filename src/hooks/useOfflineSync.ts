@@ -1,18 +1,24 @@
-import { useEffect, useState, useCallback } from 'react';
-import { offlineStorage, BackgroundSync } from '@/lib/offlineStorage';
+import { useEffect, useState, useCallback, useSyncExternalStore } from 'react';
+import { offlineStorage } from '@/lib/offlineStorage';
+import { outbox } from '@/lib/outbox';
 import { useStore } from '@/store/useStore';
 import { toast } from 'sonner';
 
 /**
  * Hook to manage offline data synchronization
  * - Caches menu and categories for offline access
- * - Syncs pending orders when back online
- * - Provides offline status
+ * - Replays the write outbox when back online
+ * - Provides offline status, pending writes and conflicts
  */
 export function useOfflineSync() {
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [hasCachedData, setHasCachedData] = useState(false);
-  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  const outboxEntries = useSyncExternalStore(
+    (listener) => outbox.subscribe(listener),
+    () => outbox.getEntries()
+  );
+  const pendingSyncCount = outboxEntries.filter(e => e.status === 'pending').length;
+  const conflicts = outboxEntries.filter(e => e.status === 'conflict');
   
   const { menuItems, categories, settings } = useStore();
 
@@ -25,7 +31,7 @@ export function useOfflineSync() {
     
     const handleOffline = () => {
       setIsOnline(false);
-      toast.warning('You\'re offline. Orders will be synced when connected.');
+      toast.warning('You\'re offline. Changes are saved on this device and will sync when connected.');
     };
 
     window.addEventListener('online', handleOnline);
@@ -61,21 +67,9 @@ export function useOfflineSync() {
     offlineStorage.hasCachedData().then(setHasCachedData);
   }, []);
 
-  // Update pending sync count
+  // Start replaying the outbox
   useEffect(() => {
-    const updateCount = async () => {
-      const queue = await offlineStorage.getSyncQueue();
-      setPendingSyncCount(queue.length);
-    };
-
-    updateCount();
-    const interval = setInterval(updateCount, 5000);
-    return () => clearInterval(interval);
-  }, []);
-
-  // Start background sync
-  useEffect(() => {
-    const cleanup = BackgroundSync.startAutoSync();
+    const cleanup = outbox.start();
     return cleanup;
   }, []);
 
@@ -99,24 +93,12 @@ export function useOfflineSync() {
     }
   }, []);
 
-  // Queue an order for offline sync
-  const queueOfflineOrder = useCallback(async (orderData: any) => {
-    const id = await offlineStorage.addToSyncQueue({
-      type: 'order',
-      data: orderData
-    });
-    
-    setPendingSyncCount(prev => prev + 1);
-    toast.info('Order saved offline. Will sync when connected.');
-    
-    return id;
-  }, []);
-
   return {
     isOnline,
     hasCachedData,
     pendingSyncCount,
+    conflicts,
+    lastSyncError: outboxEntries.find(e => e.status === 'pending' && e.error)?.error,
     loadCachedData,
-    queueOfflineOrder
   };
 }
@@ -0,0 +1,32 @@
+import { useEffect } from 'react';
+import { toast } from 'sonner';
+import { useStore } from '@/store/useStore';
+
+const SESSION_CHECK_INTERVAL = 60 * 1000; // 1 minute
+
+/**
+ * Verify the staff session with the server on mount, on window focus and every minute.
+ * Expired or revoked sessions (e.g. after a role change) sign the user out.
+ */
+export function useStaffSession() {
+  const verifySession = useStore((state) => state.verifySession);
+
+  useEffect(() => {
+    const check = async () => {
+      const wasAuthenticated = useStore.getState().isAuthenticated;
+      const isValid = await verifySession();
+      if (wasAuthenticated && !isValid) {
+        toast.info('Your session has ended. Please sign in again.');
+      }
+    };
+
+    check();
+    const interval = setInterval(check, SESSION_CHECK_INTERVAL);
+    window.addEventListener('focus', check);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('focus', check);
+    };
+  }, [verifySession]);
+}
@@ -0,0 +1,85 @@
+import { useEffect, useRef, useState } from 'react';
+import { useStore } from '@/store/useStore';
+import { receiptPrinter } from '@/lib/receiptPrinter';
+import { formatNepalDateTime } from '@/lib/nepalTime';
+import { formatModifiers } from '@/lib/modifiers';
+import { getStationItems } from '@/lib/stations';
+import { getOrderDestination } from '@/lib/orderTypes';
+import { isReleasedToKitchen } from '@/lib/preOrders';
+import { getItemStatus } from '@/lib/itemStatus';
+import { Order } from '@/types';
+
+// Lines for this station the kitchen still has to make
+const getOpenStationItems = (order: Order, station: string) =>
+  order.status === 'accepted' || order.status === 'preparing'
+    ? getStationItems(order, station).filter(i => ['queued', 'cooking'].includes(getItemStatus(i)))
+    : [];
+
+/**
+ * Auto-print a chit for each newly accepted order that has lines for this station.
+ * Orders already accepted when the screen opens are not reprinted. Pre-orders
+ * print once they are released to the kitchen, so pass a clock that ticks.
+ * An order only counts as printed once its chit went out; chits that couldn't
+ * print are tried again when the printer (re)connects, one at a time, with only
+ * the lines still queued or cooking (orders finished meanwhile are skipped).
+ */
+export function useStationChits(station: string | null, now: Date) {
+  const orders = useStore((state) => state.orders);
+  const diningTables = useStore((state) => state.diningTables);
+  const settings = useStore((state) => state.settings);
+  const printedIdsRef = useRef<Set<string>>(new Set());
+  const queuedIdsRef = useRef<Set<string>>(new Set());
+  const printQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const isInitializedRef = useRef(false);
+  const [connectCount, setConnectCount] = useState(0);
+
+  useEffect(() => receiptPrinter.onConnect(() => setConnectCount(count => count + 1)), []);
+
+  useEffect(() => {
+    if (!station) return;
+
+    const acceptedOrders = orders.filter(o =>
+      o.status !== 'pending' && o.status !== 'cancelled' && getStationItems(o, station).length > 0 &&
+      isReleasedToKitchen(o, settings, now)
+    );
+
+    // Skip initial load - just remember what is already on the board
+    if (!isInitializedRef.current) {
+      printedIdsRef.current = new Set(acceptedOrders.map(o => o.id));
+      isInitializedRef.current = true;
+      return;
+    }
+
+    if (!receiptPrinter.isConnected()) return;
+
+    acceptedOrders.forEach(order => {
+      if (printedIdsRef.current.has(order.id) || queuedIdsRef.current.has(order.id)) return;
+      const items = getOpenStationItems(order, station);
+      if (items.length === 0) return;
+      queuedIdsRef.current.add(order.id);
+
+      const chit = {
+        station,
+        destination: getOrderDestination(order, diningTables),
+        address: order.delivery?.address,
+        orderId: order.id,
+        date: formatNepalDateTime(order.createdAt),
+        items: items.map(i => ({
+          name: i.name,
+          qty: i.qty,
+          modifiers: formatModifiers(i.modifiers) || undefined,
+        })),
+        notes: order.notes || undefined,
+      };
+      printQueueRef.current = printQueueRef.current
+        .then(() => receiptPrinter.printKitchenChit(chit))
+        .then(() => {
+          printedIdsRef.current.add(order.id);
+        })
+        .catch(err => console.error(`[StationChits] Failed to print chit for ${station}:`, err))
+        .finally(() => {
+          queuedIdsRef.current.delete(order.id);
+        });
+    });
+  }, [orders, station, diningTables, settings, now, connectCount]);
+}
@@ -1,5 +1,7 @@
 import { useMemo } from "react";
 import { useStore } from "@/store/useStore";
+import { Order } from "@/types";
+import { getReleaseTime, isReleasedToKitchen } from "@/lib/preOrders";
 
 const AVERAGE_PREP_TIME = 8; // Default fallback in minutes
 
@@ -38,26 +40,34 @@ export function useWaitTime() {
   };
 
   const estimateWaitTime = useMemo(() => {
+    const now = new Date();
     // Get orders that are pending or accepted (in queue)
     const queuedOrders = orders.filter(
       (o) => o.status === "pending" || o.status === "accepted" || o.status === "preparing",
     );
 
-    // Calculate total queue time
-    let totalQueueMinutes = 0;
-
-    queuedOrders.forEach((order) => {
-      order.items.forEach((item) => {
-        const prepTime = getPrepTimeForItem(item.name, item.menuItemId);
-        totalQueueMinutes += prepTime * item.qty;
+    const getOrderMinutes = (order: Order) =>
+      order.items.reduce((sum, item) => sum + getPrepTimeForItem(item.name, item.menuItemId) * item.qty, 0);
+
+    // Calculate total queue time for what the kitchen already has
+    let totalQueueMinutes = queuedOrders
+      .filter((o) => isReleasedToKitchen(o, settings, now))
+      .reduce((sum, o) => sum + getOrderMinutes(o), 0);
+
+    // Pre-orders released before that queue clears (or the next order is cooked) land alongside it
+    const windowMinutes = Math.max(AVERAGE_PREP_TIME, Math.ceil(totalQueueMinutes / kitchenHandles));
+    const windowEnd = now.getTime() + windowMinutes * 60 * 1000;
+    queuedOrders
+      .filter((o) => !isReleasedToKitchen(o, settings, now) && getReleaseTime(o, settings).getTime() <= windowEnd)
+      .forEach((o) => {
+        totalQueueMinutes += getOrderMinutes(o);
       });
-    });
 
     // Divide by kitchen parallel capacity
     const estimatedMinutes = Math.ceil(totalQueueMinutes / kitchenHandles);
 
     return estimatedMinutes;
-  }, [orders, categoryPrepTimes, kitchenHandles, menuItems]);
+  }, [orders, categoryPrepTimes, kitchenHandles, menuItems, settings]);
 
   const getWaitTimeForNewOrder = (cartItems: { name: string; qty: number }[]) => {
     let newOrderTime = 0;
@@ -83,7 +93,11 @@ export function useWaitTime() {
   };
 
   const getQueueLength = () => {
-    return orders.filter((o) => o.status === "pending" || o.status === "accepted" || o.status === "preparing").length;
+    return orders.filter(
+      (o) =>
+        (o.status === "pending" || o.status === "accepted" || o.status === "preparing") &&
+        isReleasedToKitchen(o, settings),
+    ).length;
   };
 
   return {
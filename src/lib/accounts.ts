@@ -0,0 +1,158 @@
+// Customer accounts (khata): bills charged to a tab and the payments that settle it.
+// Balances are worked out from the sales and payments, like supplier balances
+import { AccountEntry, AccountPayment, AccountPaymentMethod, Customer, Transaction } from '@/types';
+import { getTransactionTenders, roundMoney } from '@/lib/billing';
+import { formatBsDate } from '@/lib/bikramSambat';
+import { GATEWAY_METHODS, paymentMethodLabels } from '@/lib/paymentGateways';
+import { transactionKindLabels } from '@/lib/refunds';
+import { formatInvoiceNumber } from '@/lib/tax';
+
+export const ACCOUNT_PAYMENT_METHODS: AccountPaymentMethod[] = ['cash', ...GATEWAY_METHODS];
+
+export const AGING_BUCKETS = [
+  { label: '0–30 days', maxDays: 30 },
+  { label: '31–60 days', maxDays: 60 },
+  { label: '61–90 days', maxDays: 90 },
+  { label: '90+ days', maxDays: Infinity },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const hasAccount = (customer: Pick<Customer, 'creditLimit'> | undefined): boolean =>
+  customer?.creditLimit !== undefined;
+
+// Account tenders of a sale, void or refund that went on this customer's tab.
+// Older tenders without a phone belong to the bill's first customer
+const getAccountAmount = (t: Transaction, phone: string): number =>
+  getTransactionTenders(t)
+    .filter(p => p.method === 'account' && (p.customerPhone ?? t.customerPhones[0]) === phone)
+    .reduce((sum, p) => sum + p.amount, 0);
+
+const describeTransaction = (t: Transaction): string => {
+  const bill = formatInvoiceNumber(t) ?? `#${t.billId.slice(-6)}`;
+  const label = t.kind && t.kind !== 'sale' ? `${transactionKindLabels[t.kind]} of bill` : 'Bill';
+  return `${label} ${bill}${t.splitLabel ? ` (${t.splitLabel})` : ''}`;
+};
+
+/** Statement lines for a customer, oldest first, each with the balance after it. */
+export function getAccountEntries(phone: string, transactions: Transaction[], payments: AccountPayment[]): AccountEntry[] {
+  const lines = [
+    ...transactions
+      .map(t => ({ t, amount: getAccountAmount(t, phone) }))
+      .filter(({ amount }) => amount !== 0)
+      .map(({ t, amount }) => ({
+        id: t.id,
+        type: amount > 0 ? 'charge' as const : 'credit' as const,
+        date: t.paidAt,
+        description: describeTransaction(t),
+        amount,
+        transactionId: t.id,
+      })),
+    ...payments
+      .filter(p => p.customerPhone === phone)
+      .map(p => ({
+        id: p.id,
+        type: 'payment' as const,
+        date: p.createdAt,
+        description: `Payment (${paymentMethodLabels[p.method]})${p.note ? ` · ${p.note}` : ''}`,
+        amount: -p.amount,
+      })),
+  ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  let balance = 0;
+  return lines.map(line => {
+    balance = roundMoney(balance + line.amount);
+    return { ...line, amount: roundMoney(line.amount), balance };
+  });
+}
+
+export function getAccountBalance(phone: string, transactions: Transaction[], payments: AccountPayment[]): number {
+  const charged = transactions.reduce((sum, t) => sum + getAccountAmount(t, phone), 0);
+  const paid = payments.filter(p => p.customerPhone === phone).reduce((sum, p) => sum + p.amount, 0);
+  return roundMoney(charged - paid);
+}
+
+// What more can go on the tab; a limit of 0 means no limit
+export function getAvailableCredit(customer: Pick<Customer, 'creditLimit'>, balance: number): number {
+  if (!customer.creditLimit) return Infinity;
+  return roundMoney(Math.max(0, customer.creditLimit - balance));
+}
+
+/**
+ * The unpaid balance split by how old the charges are. Payments and credits
+ * settle the oldest charges first, so what's left is the most recent.
+ */
+export function getAccountAging(entries: AccountEntry[], now = new Date()): number[] {
+  let credit = entries.filter(e => e.amount < 0).reduce((sum, e) => sum - e.amount, 0);
+  const buckets = AGING_BUCKETS.map(() => 0);
+  entries
+    .filter(e => e.amount > 0)
+    .forEach(charge => {
+      const settled = Math.min(credit, charge.amount);
+      credit -= settled;
+      const owed = charge.amount - settled;
+      if (owed <= 0) return;
+      const days = (now.getTime() - new Date(charge.date).getTime()) / DAY_MS;
+      buckets[AGING_BUCKETS.findIndex(b => days <= b.maxDays)] += owed;
+    });
+  return buckets.map(roundMoney);
+}
+
+const getStatementRows = (entries: AccountEntry[]) =>
+  entries.map(e => [formatBsDate(e.date), e.description, e.amount > 0 ? e.amount : '', e.amount < 0 ? -e.amount : '', e.balance]);
+
+// Print a customer's statement to hand over or send with the monthly bill
+export function printAccountStatement(customer: Customer, entries: AccountEntry[], restaurantName: string) {
+  const balance = entries[entries.length - 1]?.balance ?? 0;
+  const rows = getStatementRows(entries).map(cells => `
+    <tr>${cells.map((cell, i) => `<td style="padding: 2px 4px; ${i > 1 ? 'text-align: right;' : ''}">${cell}</td>`).join('')}</tr>
+  `).join('');
+
+  const printContent = `
+    <div style="font-family: monospace; width: 560px; padding: 10px;">
+      <div style="text-align: center; border-bottom: 1px dashed black; padding-bottom: 10px; margin-bottom: 10px;">
+        <h2 style="margin: 0;">${restaurantName.toUpperCase()}</h2>
+        <div style="font-weight: bold;">ACCOUNT STATEMENT</div>
+        <div>${customer.name ? `${customer.name} · ` : ''}${customer.phone}</div>
+        <div>As of ${formatBsDate(new Date())}</div>
+      </div>
+      <table style="width: 100%; border-collapse: collapse; font-size: 12px;">
+        <thead>
+          <tr style="border-bottom: 1px dashed black;">
+            <th style="text-align: left; padding: 2px 4px;">Date</th>
+            <th style="text-align: left; padding: 2px 4px;">Details</th>
+            <th style="text-align: right; padding: 2px 4px;">Charge</th>
+            <th style="text-align: right; padding: 2px 4px;">Paid</th>
+            <th style="text-align: right; padding: 2px 4px;">Balance</th>
+          </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+      <div style="display: flex; justify-content: space-between; font-weight: bold; font-size: 1.2rem; margin-top: 10px; border-top: 1px dashed black; padding-top: 8px;">
+        <span>BALANCE DUE</span>
+        <span>रू${balance}</span>
+      </div>
+    </div>
+  `;
+
+  const printWindow = window.open('', '_blank', 'width=640,height=800');
+  if (printWindow) {
+    printWindow.document.write(printContent);
+    printWindow.document.close();
+    printWindow.print();
+    printWindow.close();
+  }
+}
+
+export function exportAccountStatement(customer: Customer, entries: AccountEntry[]) {
+  const headers = ['Date (BS)', 'Details', 'Charge', 'Paid', 'Balance'];
+  const csv = [headers, ...getStatementRows(entries)]
+    .map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))
+    .join('\n');
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `statement_${customer.phone}_${new Date().toISOString().split('T')[0]}.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -8,10 +8,25 @@ export {
   billsApi,
   customersApi,
   staffApi,
+  rolesApi,
+  authApi,
   settingsApi,
   expensesApi,
   waiterCallsApi,
+  registerSessionsApi,
+  diningTablesApi,
+  ingredientsApi,
+  stockMovementsApi,
+  suppliersApi,
+  purchaseOrdersApi,
+  goodsReceiptsApi,
+  supplierPaymentsApi,
+  promotionsApi,
+  accountPaymentsApi,
+  reservationsApi,
   transactionsApi,
+  auditLogApi,
+  paymentGatewaysApi,
   checkBackendHealth,
   getApiBaseUrl,
 } from './supabaseApi';
@@ -0,0 +1,114 @@
+// Audit log helpers (labels and before/after diffs for the admin audit tab)
+import { AuditAction } from '@/types';
+
+export const auditActionLabels: Record<AuditAction, string> = {
+  'staff.login': 'Staff signed in',
+  'staff.logout': 'Staff signed out',
+  'staff.create': 'Staff added',
+  'staff.update': 'Staff updated',
+  'staff.delete': 'Staff deleted',
+  'role.save': 'Role saved',
+  'role.delete': 'Role deleted',
+  'category.create': 'Category added',
+  'category.update': 'Category updated',
+  'category.delete': 'Category deleted',
+  'category.reorder': 'Categories reordered',
+  'menu.create': 'Menu item added',
+  'menu.update': 'Menu item updated',
+  'menu.delete': 'Menu item deleted',
+  'menu.availability': 'Availability changed',
+  'order.create': 'Order placed',
+  'order.status': 'Order status changed',
+  'order.item_status': 'Item status changed',
+  'order.cancel': 'Order cancelled',
+  'order.rider': 'Rider assigned',
+  'bill.create': 'Bill created',
+  'bill.split': 'Bill split',
+  'bill.pay': 'Bill paid',
+  'bill.void': 'Bill voided',
+  'bill.refund': 'Bill refunded',
+  'customer.update': 'Customer updated',
+  'customer.phone_change': 'Customer phone changed',
+  'customer.points_redeem': 'Points redeemed',
+  'customer.points_adjust': 'Points adjusted',
+  'customer.credit_limit': 'Account limit changed',
+  'customer.account_payment': 'Account payment',
+  'table.create': 'Table added',
+  'table.update': 'Table updated',
+  'table.delete': 'Table deleted',
+  'table.status': 'Table status changed',
+  'table.transfer': 'Table transferred',
+  'table.merge': 'Tables merged',
+  'reservation.create': 'Reservation added',
+  'reservation.update': 'Reservation updated',
+  'reservation.status': 'Reservation status changed',
+  'waiter.call': 'Waiter called',
+  'waiter.acknowledge': 'Waiter call acknowledged',
+  'waiter.dismiss': 'Waiter call dismissed',
+  'expense.create': 'Expense recorded',
+  'expense.delete': 'Expense deleted',
+  'inventory.create': 'Ingredient added',
+  'inventory.update': 'Ingredient updated',
+  'inventory.delete': 'Ingredient deleted',
+  'inventory.adjust': 'Stock adjusted',
+  'supplier.create': 'Supplier added',
+  'supplier.update': 'Supplier updated',
+  'supplier.delete': 'Supplier deleted',
+  'supplier.payment': 'Supplier paid',
+  'promotion.create': 'Promotion added',
+  'promotion.update': 'Promotion updated',
+  'promotion.delete': 'Promotion deleted',
+  'purchase_order.create': 'Purchase order raised',
+  'purchase_order.cancel': 'Purchase order cancelled',
+  'goods_receipt.post': 'Goods received',
+  'register.open': 'Register opened',
+  'register.cash_movement': 'Cash movement',
+  'register.close': 'Register closed',
+  'settings.update': 'Settings changed',
+  'payment_gateway.update': 'Payment gateway changed',
+  'payment_block.override': 'Payment block overridden',
+};
+
+// Keep an audit entry to the fields that were actually touched
+export function pickFields<T extends object>(source: T, keys: string[]): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(source).filter(([key]) => keys.includes(key))
+  ) as Partial<T>;
+}
+
+export interface AuditChange {
+  field: string;
+  before?: string;
+  after?: string;
+}
+
+export function formatAuditValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Field-level differences between the before and after snapshots. Snapshots
+ * that aren't plain objects (e.g. the category order list) show as one change.
+ */
+export function getAuditChanges(before: unknown, after: unknown): AuditChange[] {
+  if (!isRecord(before) && !isRecord(after)) {
+    if (before === undefined && after === undefined) return [];
+    return [{ field: 'value', before: formatAuditValue(before), after: formatAuditValue(after) }];
+  }
+  const from = isRecord(before) ? before : {};
+  const to = isRecord(after) ? after : {};
+  const fields = [...new Set([...Object.keys(from), ...Object.keys(to)])];
+
+  return fields
+    .filter(field => JSON.stringify(from[field]) !== JSON.stringify(to[field]))
+    .map(field => ({
+      field,
+      ...(isRecord(before) && { before: formatAuditValue(from[field]) }),
+      ...(isRecord(after) && { after: formatAuditValue(to[field]) }),
+    }));
+}
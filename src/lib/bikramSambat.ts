@@ -0,0 +1,128 @@
+// Bikram Sambat (BS) calendar: conversion from and to AD dates in Nepal time
+import { formatNepalDate, formatNepalTime, getNepalTodayString } from '@/lib/nepalTime';
+
+export interface BsDate {
+  year: number;
+  month: number; // 1 = Baisakh ... 12 = Chaitra
+  day: number;
+}
+
+export const BS_MONTHS = [
+  'Baisakh', 'Jestha', 'Asar', 'Shrawan', 'Bhadra', 'Asoj',
+  'Kartik', 'Mangsir', 'Poush', 'Magh', 'Falgun', 'Chaitra',
+];
+
+// Days in each month (Baisakh first). BS months don't follow a rule, so the
+// lengths come from the published calendars
+const BS_CALENDAR: Record<number, number[]> = {
+  2070: [31, 31, 31, 32, 31, 31, 29, 30, 30, 29, 30, 30],
+  2071: [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30],
+  2072: [31, 32, 31, 32, 31, 30, 30, 29, 30, 29, 30, 30],
+  2073: [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 31],
+  2074: [31, 31, 31, 32, 31, 31, 30, 29, 30, 29, 30, 30],
+  2075: [31, 31, 32, 32, 31, 30, 30, 29, 30, 29, 30, 30],
+  2076: [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 30],
+  2077: [31, 32, 31, 32, 31, 30, 30, 30, 29, 30, 29, 31],
+  2078: [31, 31, 31, 32, 31, 31, 30, 29, 30, 29, 30, 30],
+  2079: [31, 31, 32, 31, 31, 31, 30, 29, 30, 29, 30, 30],
+  2080: [31, 32, 31, 32, 31, 30, 30, 30, 29, 29, 30, 30],
+  2081: [31, 31, 32, 32, 31, 30, 30, 30, 29, 30, 30, 30],
+  2082: [31, 31, 32, 31, 31, 30, 30, 30, 29, 30, 30, 30],
+  2083: [31, 31, 32, 31, 31, 30, 30, 30, 29, 30, 30, 30],
+  2084: [31, 31, 32, 31, 31, 30, 30, 30, 29, 30, 30, 30],
+  2085: [31, 32, 31, 32, 30, 31, 30, 30, 29, 30, 30, 30],
+  2086: [30, 32, 31, 32, 31, 30, 30, 30, 29, 30, 30, 30],
+  2087: [31, 31, 32, 31, 31, 31, 30, 30, 29, 30, 30, 30],
+  2088: [30, 31, 32, 32, 30, 31, 30, 30, 29, 30, 30, 30],
+  2089: [30, 32, 31, 32, 31, 30, 30, 30, 29, 30, 30, 30],
+  2090: [30, 32, 31, 32, 31, 30, 30, 30, 29, 30, 30, 30],
+};
+
+const FIRST_YEAR = 2070;
+const EPOCH = Date.UTC(2013, 3, 14); // 1 Baisakh 2070
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+export function isBsYearSupported(year: number): boolean {
+  return BS_CALENDAR[year] !== undefined;
+}
+
+export function getBsMonthDays(year: number, month: number): number {
+  return BS_CALENDAR[year]?.[month - 1] ?? 30;
+}
+
+// AD date string (YYYY-MM-DD, Nepal time) to BS; null outside the supported years
+export function adToBs(adDate: string): BsDate | null {
+  const [y, m, d] = adDate.split('-').map(Number);
+  let days = Math.round((Date.UTC(y, m - 1, d) - EPOCH) / DAY_MS);
+  if (days < 0) return null;
+
+  for (let year = FIRST_YEAR; isBsYearSupported(year); year++) {
+    for (let month = 1; month <= 12; month++) {
+      const length = BS_CALENDAR[year][month - 1];
+      if (days < length) return { year, month, day: days + 1 };
+      days -= length;
+    }
+  }
+  return null;
+}
+
+// BS date to an AD date string (YYYY-MM-DD); null outside the supported years
+export function bsToAd({ year, month, day }: BsDate): string | null {
+  if (!isBsYearSupported(year)) return null;
+  let days = day - 1;
+  for (let y = FIRST_YEAR; y < year; y++) days += sum(BS_CALENDAR[y]);
+  days += sum(BS_CALENDAR[year].slice(0, month - 1));
+  return new Date(EPOCH + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function getBsToday(): BsDate | null {
+  return adToBs(getNepalTodayString());
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// BS counterpart of formatNepalDate, e.g. "2082-07-01" (falls back to AD)
+export function formatBsDate(date: Date | string): string {
+  const ad = formatNepalDate(date);
+  const bs = adToBs(ad);
+  return bs ? `${bs.year}-${pad(bs.month)}-${pad(bs.day)}` : ad;
+}
+
+// BS counterpart of formatNepalDateReadable, e.g. "1 Kartik 2082"
+export function formatBsDateReadable(date: Date | string): string {
+  const ad = formatNepalDate(date);
+  const bs = adToBs(ad);
+  return bs ? `${bs.day} ${BS_MONTHS[bs.month - 1]} ${bs.year}` : ad;
+}
+
+// e.g. "2082-07-01 2:30 PM"
+export function formatBsDateTime(date: Date | string): string {
+  return `${formatBsDate(date)} ${formatNepalTime(date)}`;
+}
+
+// ===========================================
+// FISCAL YEAR (1 Shrawan to the end of Asar)
+// ===========================================
+
+// BS year the fiscal year containing this AD date started in
+export function getFiscalYearStart(adDate: string): number {
+  const bs = adToBs(adDate);
+  if (bs) return bs.month >= 4 ? bs.year : bs.year - 1;
+  // Outside the calendar table: Shrawan starts in mid-July
+  const [y, m, d] = adDate.split('-').map(Number);
+  return y + (m * 100 + d >= 716 ? 57 : 56);
+}
+
+// e.g. 2082 -> "2082/83"
+export function formatFiscalYear(startYear: number): string {
+  return `${startYear}/${pad((startYear + 1) % 100)}`;
+}
+
+// First and last AD day of a fiscal year
+export function getFiscalYearRange(startYear: number): { from: string; to: string } | null {
+  const from = bsToAd({ year: startYear, month: 4, day: 1 });
+  const to = bsToAd({ year: startYear + 1, month: 3, day: getBsMonthDays(startYear + 1, 3) });
+  return from && to ? { from, to } : null;
+}
@@ -0,0 +1,122 @@
+// Bill splitting and tender helpers
+import { Bill, OrderItem, PaymentMethod, Tender, Transaction } from '@/types';
+
+export interface SplitPart {
+  label: string;
+  amount: number; // What this sub-bill pays, after its share of the discount and with tax
+  items?: OrderItem[]; // Set when splitting by item/seat
+}
+
+export function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Split an amount N ways in whole rupees; the last share absorbs the remainder
+export function splitEvenly(amount: number, ways: number): number[] {
+  if (ways <= 1) return [amount];
+  const share = Math.floor(amount / ways);
+  const shares = Array.from({ length: ways }, () => share);
+  shares[ways - 1] = roundMoney(amount - share * (ways - 1));
+  return shares;
+}
+
+/**
+ * Build sub-bills from items assigned to seats. Each seat pays what its lines
+ * cost as a bill of their own (discount share, service charge, VAT).
+ */
+export function buildItemSplitParts(
+  seats: { label: string; items: OrderItem[] }[],
+  total: number,
+  getSeatTotal: (items: OrderItem[]) => number
+): SplitPart[] {
+  const parts = seats
+    .filter(seat => seat.items.length > 0)
+    .map(seat => ({ label: seat.label, amount: roundMoney(getSeatTotal(seat.items)), items: seat.items }));
+  // Keep the parts summing exactly to the bill total
+  if (parts.length > 0) {
+    const others = parts.slice(0, -1).reduce((sum, p) => sum + p.amount, 0);
+    parts[parts.length - 1].amount = roundMoney(total - others);
+  }
+  return parts;
+}
+
+// Orders count as paid once every bill that contains them is paid
+export function getPaidOrderIds(bills: Bill[]): Set<string> {
+  const billsByOrder: Record<string, Bill[]> = {};
+  bills.forEach(bill => {
+    bill.orders.forEach(o => {
+      (billsByOrder[o.id] = billsByOrder[o.id] || []).push(bill);
+    });
+  });
+
+  const paid = new Set<string>();
+  Object.entries(billsByOrder).forEach(([orderId, orderBills]) => {
+    // A plain paid bill settles the order outright
+    if (orderBills.some(b => b.status === 'paid' && !b.splitGroupId)) {
+      paid.add(orderId);
+      return;
+    }
+    const groups = [...new Set(orderBills.filter(b => b.splitGroupId).map(b => b.splitGroupId))];
+    if (groups.some(groupId =>
+      bills.filter(b => b.splitGroupId === groupId).every(b => b.status === 'paid')
+    )) {
+      paid.add(orderId);
+    }
+  });
+  return paid;
+}
+
+// Orders sitting in a split that still has unpaid sub-bills
+export function getOrderIdsInOpenSplits(bills: Bill[]): Set<string> {
+  const ids = new Set<string>();
+  bills
+    .filter(b => b.splitGroupId && b.status === 'unpaid')
+    .forEach(b => b.orders.forEach(o => ids.add(o.id)));
+  return ids;
+}
+
+export function getPaymentMethodLabel(tenders: Tender[]): PaymentMethod | 'mixed' {
+  const methods = [...new Set(tenders.filter(t => t.amount > 0).map(t => t.method))];
+  return methods.length === 1 ? methods[0] : 'mixed';
+}
+
+export function getTransactionTenders(t: Pick<Transaction, 'payments' | 'paymentMethod' | 'total'>): Tender[] {
+  if (t.payments && t.payments.length > 0) return t.payments;
+  return [{ method: t.paymentMethod === 'mixed' ? 'cash' : t.paymentMethod, amount: t.total }];
+}
+
+// Amount taken through one method across transactions, counting each tender of mixed payments
+export function getTenderTotal(transactions: Transaction[], method: PaymentMethod): number {
+  return transactions.reduce((sum, t) =>
+    sum + getTransactionTenders(t).filter(p => p.method === method).reduce((s, p) => s + p.amount, 0), 0
+  );
+}
+
+// Number of transactions that used a method at least once
+export function getTenderCount(transactions: Transaction[], method: PaymentMethod): number {
+  return transactions.filter(t => getTransactionTenders(t).some(p => p.method === method && p.amount > 0)).length;
+}
+
+export function formatTenders(t: Pick<Transaction, 'payments' | 'paymentMethod' | 'total'>): string {
+  const tenders = getTransactionTenders(t);
+  if (tenders.length === 1) return tenders[0].method.toUpperCase();
+  return tenders.map(p => `${p.method.toUpperCase()} ${p.amount}`).join(' + ');
+}
+
+export function getItemShare(t: Pick<Transaction, 'itemShare'>): number {
+  return t.itemShare ?? 1;
+}
+
+export function isSaleTransaction(t: Pick<Transaction, 'kind'>): boolean {
+  return !t.kind || t.kind === 'sale';
+}
+
+// Sub-bills of one split count as a single bill in order counts; voided sales don't count
+export function countBills(transactions: Transaction[]): number {
+  const voided = new Set(transactions.filter(t => t.kind === 'void').map(t => t.refundOf));
+  return new Set(
+    transactions
+      .filter(t => isSaleTransaction(t) && !voided.has(t.id))
+      .map(t => t.splitGroupId || t.billId)
+  ).size;
+}
@@ -0,0 +1,70 @@
+// Stock and recipe costing helpers (the database deducts stock when sales are recorded)
+import { Ingredient, MenuItem, RecipeLine, StockMovementType, Transaction } from '@/types';
+import { getItemShare, roundMoney } from '@/lib/billing';
+
+export const INGREDIENT_UNITS = ['g', 'kg', 'ml', 'l', 'pcs'];
+
+export const stockMovementTypeLabels: Record<StockMovementType, string> = {
+  sale: 'Sale',
+  purchase: 'Purchase',
+  adjustment: 'Stock count',
+  waste: 'Waste',
+};
+
+// Stock quantities keep three decimals (grams of a kilo, millilitres of a litre)
+export const roundQty = (qty: number) => Math.round(qty * 1000) / 1000;
+
+export function formatQuantity(qty: number, unit: string): string {
+  return `${roundQty(qty)} ${unit}`;
+}
+
+// Drop half-filled lines before saving a menu item
+export function cleanRecipe(recipe: RecipeLine[] | undefined): RecipeLine[] {
+  return (recipe || []).filter(line => line.ingredientId && line.qty > 0);
+}
+
+export function getRecipeCost(item: Pick<MenuItem, 'recipe'>, ingredients: Ingredient[]): number {
+  return roundMoney((item.recipe || []).reduce((sum, line) => {
+    const ingredient = ingredients.find(i => i.id === line.ingredientId);
+    return sum + (ingredient ? line.qty * ingredient.costPerUnit : 0);
+  }, 0));
+}
+
+// Recipe cost as a share of the menu price; undefined when the item has no recipe
+export function getFoodCostPercent(item: Pick<MenuItem, 'recipe' | 'price'>, ingredients: Ingredient[]): number | undefined {
+  if (!item.recipe?.length || item.price <= 0) return undefined;
+  return Math.round((getRecipeCost(item, ingredients) / item.price) * 1000) / 10;
+}
+
+/**
+ * Ingredients a transaction takes out of stock, mirroring deduct_recipe_stock in
+ * the database. Voids carry negative quantities and put the stock back; refunds
+ * don't, since the food was made.
+ */
+export function getStockUsage(
+  t: Pick<Transaction, 'items' | 'itemShare' | 'kind'>,
+  menuItems: MenuItem[]
+): Record<string, number> {
+  const usage: Record<string, number> = {};
+  if (t.kind === 'refund') return usage;
+  const share = getItemShare(t);
+  t.items.forEach(item => {
+    const menuItem = menuItems.find(m => m.id === item.menuItemId);
+    (menuItem?.recipe || []).forEach(line => {
+      usage[line.ingredientId] = (usage[line.ingredientId] || 0) + item.qty * line.qty * share;
+    });
+  });
+  return usage;
+}
+
+export function isLowStock(ingredient: Ingredient): boolean {
+  return ingredient.stock <= ingredient.lowStockLevel;
+}
+
+// Available items that can't be made even once more with the stock on hand
+export function getSoldOutItems(menuItems: MenuItem[], ingredients: Ingredient[]): MenuItem[] {
+  return menuItems.filter(item => item.available && (item.recipe || []).some(line => {
+    const ingredient = ingredients.find(i => i.id === line.ingredientId);
+    return ingredient !== undefined && ingredient.stock < line.qty;
+  }));
+}
@@ -0,0 +1,69 @@
+// Per-line kitchen status helpers. Order status is derived from its lines.
+import { ItemStatus, Order, OrderItem, OrderStatus } from '@/types';
+
+export const itemStatusFlow: ItemStatus[] = ['queued', 'cooking', 'ready', 'served'];
+
+export const itemStatusLabels: Record<ItemStatus, string> = {
+  queued: 'Queued',
+  cooking: 'Cooking',
+  ready: 'Ready',
+  served: 'Served',
+};
+
+export function getItemStatus(item: OrderItem): ItemStatus {
+  return item.status || 'queued';
+}
+
+export function getNextItemStatus(status: ItemStatus): ItemStatus | null {
+  const idx = itemStatusFlow.indexOf(status);
+  return idx >= 0 && idx < itemStatusFlow.length - 1 ? itemStatusFlow[idx + 1] : null;
+}
+
+// Set a line's status and stamp the matching timestamp
+export function applyItemStatus(item: OrderItem, status: ItemStatus, timestamp: string): OrderItem {
+  const updated: OrderItem = { ...item, status };
+  if (status === 'cooking' && !item.startedAt) updated.startedAt = timestamp;
+  if (status === 'ready') {
+    updated.readyAt = timestamp;
+    if (!item.startedAt) updated.startedAt = timestamp;
+  }
+  if (status === 'served') updated.servedAt = timestamp;
+  return updated;
+}
+
+/**
+ * Derive the order-level status from its lines.
+ * Pending and cancelled orders are decided by staff, not by the kitchen lines.
+ */
+export function deriveOrderStatus(status: OrderStatus, items: OrderItem[]): OrderStatus {
+  if (status === 'pending' || status === 'cancelled' || items.length === 0) return status;
+  const statuses = items.map(getItemStatus);
+  if (statuses.every(s => s === 'served')) return 'served';
+  if (statuses.every(s => s === 'ready' || s === 'served')) return 'ready';
+  if (statuses.some(s => s !== 'queued')) return 'preparing';
+  return 'accepted';
+}
+
+// Order status only moves forward; the database enforces the same rules
+const orderStatusTransitions: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['accepted', 'cancelled'],
+  accepted: ['preparing', 'ready', 'served', 'cancelled'],
+  preparing: ['ready', 'served', 'cancelled'],
+  ready: ['served', 'cancelled'],
+  served: [],
+  cancelled: [],
+};
+
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus): boolean {
+  return from === to || orderStatusTransitions[from].includes(to);
+}
+
+// Quantities per status, e.g. for "3/5 ready" progress labels
+export function getOrderProgress(order: Order): { done: number; total: number; counts: Record<ItemStatus, number> } {
+  const counts: Record<ItemStatus, number> = { queued: 0, cooking: 0, ready: 0, served: 0 };
+  order.items.forEach(item => {
+    counts[getItemStatus(item)] += item.qty;
+  });
+  const total = order.items.reduce((sum, i) => sum + i.qty, 0);
+  return { done: counts.ready + counts.served, total, counts };
+}
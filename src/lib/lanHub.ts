@@ -0,0 +1,270 @@
+/**
+ * LAN hub client - shares this device's order and waiter call writes with the
+ * other devices in the shop through the local hub (hub/lan-hub.js), and applies
+ * theirs, so they keep working together while the internet is down.
+ * Supabase stays the record: each device's outbox still sends its own writes.
+ * Only staff devices hold the hub key, so customer phones don't take part.
+ */
+import { Order, OrderItem, OrderStatus, DeliveryDetails, WaiterCall } from '@/types';
+import { useStore } from '@/store/useStore';
+import { outbox, OutboxEntry } from '@/lib/outbox';
+import { canTransitionOrder } from '@/lib/itemStatus';
+import { getNepalTimestamp } from '@/lib/nepalTime';
+
+const CONFIG_KEY = 'chiyadani:lanHub';
+const DEVICE_KEY = 'chiyadani:deviceId';
+const SINCE_KEY = 'chiyadani:lanHubSince';
+export const DEFAULT_HUB_PORT = 4310;
+// Relayed rows the server hasn't caught up with are kept over Supabase data this long
+const RELAY_KEEP_MS = 24 * 60 * 60 * 1000;
+const HEALTH_TIMEOUT_MS = 3000;
+
+export interface LanHubConfig {
+  url: string; // e.g. http://192.168.1.20:4310
+  key: string;
+}
+
+export type LanHubStatus = 'off' | 'connecting' | 'connected' | 'error';
+
+interface HubEvent {
+  seq: number;
+  deviceId: string;
+  api: string;
+  method: string;
+  args: unknown[];
+}
+
+type Relay = (args: unknown[]) => string | null; // Applies a write, returns the id it touched
+
+const nextVersion = (version?: number) => (version ?? 1) + 1;
+
+// Another device's update applies unless this device has already moved the order past
+// the version it was based on; the server sorts out the rest once it's back
+const updateOrder = (id: string, base: number | undefined, change: (order: Order) => Partial<Order> | null): string | null => {
+  const order = useStore.getState().orders.find(o => o.id === id);
+  if (!order || (base !== undefined && (order.version ?? 1) > base)) return null;
+  const changes = change(order);
+  if (!changes) return null;
+  useStore.getState().setOrders(useStore.getState().orders.map(o =>
+    o.id === id ? { ...o, ...changes, updatedAt: getNepalTimestamp(), version: nextVersion(base ?? o.version) } : o
+  ));
+  return id;
+};
+
+const updateCalls = (fn: (calls: WaiterCall[]) => WaiterCall[]) => {
+  const store = useStore.getState();
+  store.setWaiterCalls(fn(store.waiterCalls));
+};
+
+// The writes that are relayed, keyed like outbox entries
+const relays: Record<string, Relay> = {
+  'ordersApi.create': ([order]) => {
+    const incoming = order as Order;
+    const store = useStore.getState();
+    if (store.orders.some(o => o.id === incoming.id)) return null;
+    store.setOrders([...store.orders, incoming]);
+    return incoming.id;
+  },
+  'ordersApi.updateStatus': ([id, status, version]) =>
+    updateOrder(id as string, version as number | undefined, order =>
+      canTransitionOrder(order.status, status as OrderStatus) ? { status: status as OrderStatus } : null),
+  'ordersApi.updateItems': ([id, items, status, version]) =>
+    updateOrder(id as string, version as number | undefined, order =>
+      canTransitionOrder(order.status, status as OrderStatus) ? { items: items as OrderItem[], status: status as OrderStatus } : null),
+  'ordersApi.updateDelivery': ([id, delivery, version]) =>
+    updateOrder(id as string, version as number | undefined, () => ({ delivery: delivery as DeliveryDetails })),
+  'ordersApi.cancelByCustomer': ([id]) =>
+    updateOrder(id as string, undefined, order => order.status === 'pending' ? { status: 'cancelled' } : null),
+  'waiterCallsApi.create': ([call]) => {
+    const incoming = call as WaiterCall;
+    if (useStore.getState().waiterCalls.some(c => c.id === incoming.id)) return null;
+    updateCalls(calls => [...calls, incoming]);
+    return incoming.id;
+  },
+  'waiterCallsApi.acknowledge': ([id]) => {
+    updateCalls(calls => calls.map(c =>
+      c.id === id ? { ...c, status: 'acknowledged' as const, acknowledgedAt: getNepalTimestamp() } : c
+    ));
+    return id as string;
+  },
+  'waiterCallsApi.dismiss': ([id]) => {
+    updateCalls(calls => calls.filter(c => c.id !== id));
+    return id as string;
+  },
+};
+
+export function getLanHubConfig(): LanHubConfig | null {
+  try {
+    const config = JSON.parse(localStorage.getItem(CONFIG_KEY) || 'null');
+    return config?.url ? config : null;
+  } catch {
+    return null;
+  }
+}
+
+const getDeviceId = () => {
+  let id = localStorage.getItem(DEVICE_KEY);
+  if (!id) {
+    id = `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 11)}`;
+    localStorage.setItem(DEVICE_KEY, id);
+  }
+  return id;
+};
+
+const isSecurePage = () => window.location.protocol === 'https:';
+
+// Without a scheme the hub is assumed to match the page
+export const normalizeHubUrl = (url: string) => {
+  const trimmed = url.trim().replace(/\/+$/, '');
+  return /^https?:\/\//.test(trimmed) ? trimmed : `${isSecurePage() ? 'https' : 'http'}://${trimmed}`;
+};
+
+// Browsers block http:// requests from an https:// page (mixed content), so such a hub can never connect
+export function getHubUrlProblem(url: string): string | null {
+  if (isSecurePage() && normalizeHubUrl(url).startsWith('http://')) {
+    return 'This page is served over HTTPS, so the browser blocks an http:// hub. Start the hub with HUB_CERT_FILE and HUB_KEY_FILE and use its https:// address, or open the app from a LAN http:// address.';
+  }
+  return null;
+}
+
+// True if a hub answers at this address
+export async function checkLanHub(url: string): Promise<boolean> {
+  if (getHubUrlProblem(url)) return false;
+  try {
+    const response = await fetch(`${normalizeHubUrl(url)}/health`, { signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS) });
+    const body = await response.json();
+    return body?.service === 'chiyadani-hub';
+  } catch {
+    return false;
+  }
+}
+
+// Places a hub usually is: the machine serving the app, or one announced as chiyadani-hub.local
+export async function discoverLanHub(): Promise<string | null> {
+  const scheme = isSecurePage() ? 'https' : 'http';
+  const candidates = [
+    `${scheme}://${window.location.hostname}:${DEFAULT_HUB_PORT}`,
+    `${scheme}://chiyadani-hub.local:${DEFAULT_HUB_PORT}`,
+  ];
+  for (const url of candidates) {
+    if (await checkLanHub(url)) return url;
+  }
+  return null;
+}
+
+class LanHub {
+  private config = getLanHubConfig();
+  private source: EventSource | null = null;
+  private status: LanHubStatus = 'off';
+  private listeners = new Set<() => void>();
+  // Rows changed through the hub -> the version they got, until Supabase has them
+  private relayed = new Map<string, { version: number; at: number }>();
+
+  getStatus(): LanHubStatus {
+    return this.status;
+  }
+
+  getConfig(): LanHubConfig | null {
+    return this.config;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  configure(config: LanHubConfig | null) {
+    this.config = config && { ...config, url: normalizeHubUrl(config.url) };
+    if (this.config) {
+      localStorage.setItem(CONFIG_KEY, JSON.stringify(this.config));
+    } else {
+      localStorage.removeItem(CONFIG_KEY);
+    }
+    localStorage.removeItem(SINCE_KEY);
+    this.connect();
+  }
+
+  // Publishes this device's writes and listens for the others'
+  start(): () => void {
+    const unsubscribe = outbox.onEnqueue(entry => this.publish(entry));
+    this.connect();
+    return () => {
+      unsubscribe();
+      this.disconnect();
+    };
+  }
+
+  // Ids the server may not have caught up with yet, see DataProvider
+  getRelayedIds(): Set<string> {
+    const now = Date.now();
+    this.relayed.forEach((row, id) => {
+      if (now - row.at > RELAY_KEEP_MS) this.relayed.delete(id);
+    });
+    return new Set(this.relayed.keys());
+  }
+
+  // Server rows that have caught up with what came through the hub
+  settle(rows: { id: string; version?: number }[]) {
+    rows.forEach(row => {
+      const relayed = this.relayed.get(row.id);
+      if (relayed && (row.version ?? 1) >= relayed.version) this.relayed.delete(row.id);
+    });
+  }
+
+  private connect() {
+    this.disconnect();
+    if (!this.config) return;
+    if (getHubUrlProblem(this.config.url)) {
+      this.setStatus('error');
+      return;
+    }
+    const since = localStorage.getItem(SINCE_KEY) || '0';
+    const source = new EventSource(`${this.config.url}/events?key=${encodeURIComponent(this.config.key)}&since=${since}`);
+    this.source = source;
+    this.setStatus('connecting');
+    source.onopen = () => this.setStatus('connected');
+    // EventSource reconnects by itself, picking up from the last event it saw
+    source.onerror = () => this.setStatus(source.readyState === EventSource.CLOSED ? 'error' : 'connecting');
+    source.onmessage = (message) => {
+      try {
+        this.apply(JSON.parse(message.data));
+      } catch (err) {
+        console.error('[LanHub] Bad event:', err);
+      }
+    };
+  }
+
+  private disconnect() {
+    this.source?.close();
+    this.source = null;
+    this.setStatus('off');
+  }
+
+  private apply(event: HubEvent) {
+    localStorage.setItem(SINCE_KEY, String(event.seq));
+    if (event.deviceId === getDeviceId()) return;
+    const id = relays[`${event.api}.${event.method}`]?.(event.args);
+    if (!id) return;
+    const order = useStore.getState().orders.find(o => o.id === id);
+    this.relayed.set(id, { version: order?.version ?? 1, at: Date.now() });
+  }
+
+  // Best effort: the outbox is what gets the write to Supabase, with or without the hub
+  private publish(entry: OutboxEntry) {
+    if (!this.config || !relays[`${entry.api}.${entry.method}`] || getHubUrlProblem(this.config.url)) return;
+    fetch(`${this.config.url}/events`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Hub-Key': this.config.key },
+      body: JSON.stringify({ deviceId: getDeviceId(), api: entry.api, method: entry.method, args: entry.args }),
+    }).catch(err => console.warn('[LanHub] Could not reach the hub:', err));
+  }
+
+  private setStatus(status: LanHubStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Singleton instance
+export const lanHub = new LanHub();
@@ -0,0 +1,56 @@
+// Loyalty points: the database books every earn, redemption and expiry to the
+// customer's ledger (see book_loyalty_points); these mirror its rules so the
+// counter can show balances and discounts before the sale reaches the server.
+import { Customer, LoyaltyEntryType, LoyaltyTier, MenuItem, Settings, Transaction } from '@/types';
+import { getLineTotal } from '@/lib/modifiers';
+
+export const loyaltyEntryLabels: Record<LoyaltyEntryType, string> = {
+  earn: 'Earned',
+  redeem: 'Redeemed',
+  adjust: 'Adjusted',
+  expire: 'Expired',
+};
+
+// The highest tier whose minimum spend the customer has reached
+export function getLoyaltyTier(totalSpent: number, settings: Settings): LoyaltyTier | undefined {
+  return (settings.loyaltyTiers || [])
+    .filter(t => totalSpent >= t.minSpent)
+    .sort((a, b) => b.minSpent - a.minSpent)[0];
+}
+
+// Points one phone on the sale earns: its share of the total, weighted by the
+// category earn rules and the customer's tier
+export function getEarnedPoints(
+  sale: Pick<Transaction, 'total' | 'items' | 'customerPhones'>,
+  customer: Pick<Customer, 'totalSpent'> | undefined,
+  settings: Settings,
+  menuItems: MenuItem[]
+): number {
+  if (!settings.pointSystemEnabled || sale.customerPhones.length === 0) return 0;
+
+  const rules = settings.loyaltyEarnRules || [];
+  let base = 0;
+  let weighted = 0;
+  sale.items.forEach(item => {
+    const line = getLineTotal(item);
+    const category = menuItems.find(m => m.id === item.menuItemId)?.category;
+    base += line;
+    weighted += line * (rules.find(r => r.category === category)?.multiplier ?? 1);
+  });
+
+  const tierMultiplier = getLoyaltyTier(customer?.totalSpent ?? 0, settings)?.multiplier ?? 1;
+  return Math.max(0, Math.floor(
+    (sale.total / sale.customerPhones.length)
+    * (base > 0 ? weighted / base : 1)
+    * (settings.pointsPerRupee ?? 0.1)
+    * tierMultiplier
+  ));
+}
+
+// The most a balance can take off a bill, within the settings' limits
+export function getPointsDiscount(points: number, amount: number, settings: Settings): { points: number; discount: number } {
+  const value = settings.pointValueInRupees || 1;
+  const usable = Math.min(points, settings.maxDiscountPoints || Infinity);
+  const discount = Math.floor(Math.min(usable * value, amount, settings.maxDiscountRupees || Infinity));
+  return discount > 0 ? { points: Math.ceil(discount / value), discount } : { points: 0, discount: 0 };
+}
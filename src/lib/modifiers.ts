@@ -0,0 +1,90 @@
+// Menu item modifier helpers (sizes, add-ons, variants)
+import { MenuItem, ModifierGroup, OrderItem, SelectedModifier } from '@/types';
+
+export function hasModifiers(item: Pick<MenuItem, 'modifierGroups'>): boolean {
+  return (item.modifierGroups || []).some(g => g.options.length > 0);
+}
+
+export function getModifierDelta(modifiers: SelectedModifier[] = []): number {
+  return modifiers.reduce((sum, m) => sum + m.priceDelta, 0);
+}
+
+// Unit price of a menu item with the chosen options applied
+export function getUnitPrice(basePrice: number, modifiers: SelectedModifier[] = []): number {
+  return Math.max(0, basePrice + getModifierDelta(modifiers));
+}
+
+// Cheapest valid price for an item, used for "from रू" labels
+export function getStartingPrice(item: MenuItem): number {
+  const requiredDelta = (item.modifierGroups || [])
+    .filter(g => g.required || g.minSelections > 0)
+    .reduce((sum, g) => {
+      const deltas = g.options.map(o => o.priceDelta).sort((a, b) => a - b);
+      const count = Math.max(1, g.minSelections);
+      return sum + deltas.slice(0, count).reduce((s, d) => s + d, 0);
+    }, 0);
+  return Math.max(0, item.price + requiredDelta);
+}
+
+// Minimum number of options a customer must pick in a group
+export function getMinSelections(group: ModifierGroup): number {
+  return group.required ? Math.max(1, group.minSelections) : group.minSelections;
+}
+
+/**
+ * Validate selections against group rules.
+ * Returns an error message, or null when the selection is valid.
+ */
+export function validateModifierSelection(
+  groups: ModifierGroup[] = [],
+  modifiers: SelectedModifier[] = []
+): string | null {
+  for (const group of groups) {
+    const count = modifiers.filter(m => m.groupId === group.id).length;
+    const min = getMinSelections(group);
+    if (count < min) {
+      return min === 1
+        ? `Please choose ${group.name}`
+        : `Please choose at least ${min} for ${group.name}`;
+    }
+    if (group.maxSelections > 0 && count > group.maxSelections) {
+      return `Choose up to ${group.maxSelections} for ${group.name}`;
+    }
+  }
+  return null;
+}
+
+// Stable key so identical item + option combinations share one cart line
+export function getLineKey(menuItemId: string, modifiers: SelectedModifier[] = []): string {
+  if (modifiers.length === 0) return menuItemId;
+  const ids = modifiers.map(m => m.optionId).sort().join(',');
+  return `${menuItemId}:${ids}`;
+}
+
+export function formatModifiers(modifiers: SelectedModifier[] = []): string {
+  return modifiers.map(m => m.optionName).join(', ');
+}
+
+// Display name including chosen options, e.g. "Milk Tea (Large, Extra sugar)"
+export function formatItemName(item: Pick<OrderItem, 'name' | 'modifiers'>): string {
+  const mods = formatModifiers(item.modifiers);
+  return mods ? `${item.name} (${mods})` : item.name;
+}
+
+export function getLineTotal(item: Pick<OrderItem, 'price' | 'qty'>): number {
+  return item.price * item.qty;
+}
+
+// Drop blank groups/options and keep min/max consistent before saving a menu item
+export function cleanModifierGroups(groups: ModifierGroup[] = []): ModifierGroup[] {
+  return groups
+    .map(g => {
+      const options = g.options
+        .map(o => ({ ...o, name: o.name.trim() }))
+        .filter(o => o.name);
+      const maxSelections = Math.min(Math.max(1, g.maxSelections), options.length || 1);
+      const minSelections = Math.min(g.required ? Math.max(1, g.minSelections) : g.minSelections, maxSelections);
+      return { ...g, name: g.name.trim(), options, minSelections, maxSelections };
+    })
+    .filter(g => g.name && g.options.length > 0);
+}
@@ -1,17 +1,36 @@
 /**
  * Offline Storage using IndexedDB
- * Provides persistent storage for menu items, orders, and sync queue
+ * Provides persistent storage for menu items, the write outbox and the staff snapshot
  */
+import type { OutboxEntry } from '@/lib/outbox';
+import type {
+  AccountPayment, Bill, Category, Customer, DiningTable, Expense, Ingredient, MenuItem, Order, Promotion, RegisterSession, Reservation,
+  Settings, Staff, Transaction, WaiterCall,
+} from '@/types';
 
 const DB_NAME = 'chiyadani-offline';
-const DB_VERSION = 1;
-
-interface SyncQueueItem {
-  id: string;
-  type: 'order' | 'waiterCall';
-  data: any;
-  timestamp: number;
-  retries: number;
+const DB_VERSION = 2;
+
+// Last known state of a signed-in device, used to start the Counter and Kitchen without internet
+export interface StaffSnapshot {
+  token: string;
+  currentUser: Staff;
+  settings: Settings;
+  menuItems: MenuItem[];
+  categories: Category[];
+  orders: Order[];
+  bills: Bill[];
+  transactions: Transaction[];
+  expenses: Expense[];
+  waiterCalls: WaiterCall[];
+  registerSessions: RegisterSession[];
+  ingredients: Ingredient[];
+  diningTables: DiningTable[];
+  promotions?: Promotion[]; // Missing from snapshots saved before promotions
+  accountPayments?: AccountPayment[]; // With customers, lets the counter charge accounts offline
+  customers?: Customer[];
+  reservations?: Reservation[];
+  savedAt: number;
 }
 
 class OfflineStorage {
@@ -48,10 +67,15 @@ class OfflineStorage {
           db.createObjectStore('categories', { keyPath: 'id' });
         }
 
-        // Store for offline orders (pending sync)
-        if (!db.objectStoreNames.contains('syncQueue')) {
-          const syncStore = db.createObjectStore('syncQueue', { keyPath: 'id' });
-          syncStore.createIndex('timestamp', 'timestamp', { unique: false });
+        // Version 1 queued orders for REST endpoints that never existed; nothing wrote to it
+        if (db.objectStoreNames.contains('syncQueue')) {
+          db.deleteObjectStore('syncQueue');
+        }
+
+        // Writes waiting to reach the server, replayed in order
+        if (!db.objectStoreNames.contains('outbox')) {
+          const outboxStore = db.createObjectStore('outbox', { keyPath: 'id' });
+          outboxStore.createIndex('seq', 'seq', { unique: false });
         }
 
         // Store for settings cache
@@ -129,36 +153,27 @@ class OfflineStorage {
     });
   }
 
-  // Sync Queue (for offline orders)
-  async addToSyncQueue(item: Omit<SyncQueueItem, 'id' | 'timestamp' | 'retries'>): Promise<string> {
-    const store = await this.getStore('syncQueue', 'readwrite');
-    const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    
-    const queueItem: SyncQueueItem = {
-      ...item,
-      id,
-      timestamp: Date.now(),
-      retries: 0
-    };
-
+  // Outbox
+  async putOutboxEntry(entry: OutboxEntry): Promise<void> {
+    const store = await this.getStore('outbox', 'readwrite');
     return new Promise((resolve, reject) => {
-      const request = store.put(queueItem);
-      request.onsuccess = () => resolve(id);
+      const request = store.put(entry);
+      request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
     });
   }
 
-  async getSyncQueue(): Promise<SyncQueueItem[]> {
-    const store = await this.getStore('syncQueue');
+  async getOutbox(): Promise<OutboxEntry[]> {
+    const store = await this.getStore('outbox');
     return new Promise((resolve, reject) => {
-      const request = store.getAll();
+      const request = store.index('seq').getAll();
       request.onsuccess = () => resolve(request.result);
       request.onerror = () => reject(request.error);
     });
   }
 
-  async removeFromSyncQueue(id: string): Promise<void> {
-    const store = await this.getStore('syncQueue', 'readwrite');
+  async removeOutboxEntry(id: string): Promise<void> {
+    const store = await this.getStore('outbox', 'readwrite');
     return new Promise((resolve, reject) => {
       const request = store.delete(id);
       request.onsuccess = () => resolve();
@@ -166,26 +181,6 @@ class OfflineStorage {
     });
   }
 
-  async updateSyncQueueItem(id: string, updates: Partial<SyncQueueItem>): Promise<void> {
-    const store = await this.getStore('syncQueue', 'readwrite');
-    
-    return new Promise((resolve, reject) => {
-      const getRequest = store.get(id);
-      getRequest.onsuccess = () => {
-        const item = getRequest.result;
-        if (item) {
-          const updated = { ...item, ...updates };
-          const putRequest = store.put(updated);
-          putRequest.onsuccess = () => resolve();
-          putRequest.onerror = () => reject(putRequest.error);
-        } else {
-          resolve();
-        }
-      };
-      getRequest.onerror = () => reject(getRequest.error);
-    });
-  }
-
   // Settings cache
   async cacheSetting(key: string, value: any): Promise<void> {
     const store = await this.getStore('settings', 'readwrite');
@@ -205,6 +200,19 @@ class OfflineStorage {
     });
   }
 
+  // Staff snapshot
+  async cacheSnapshot(snapshot: StaffSnapshot): Promise<void> {
+    return this.cacheSetting('staffSnapshot', snapshot);
+  }
+
+  async getSnapshot(): Promise<StaffSnapshot | null> {
+    return this.getSetting('staffSnapshot');
+  }
+
+  async clearSnapshot(): Promise<void> {
+    return this.cacheSetting('staffSnapshot', null);
+  }
+
   // Check if we have cached data
   async hasCachedData(): Promise<boolean> {
     try {
@@ -230,86 +238,3 @@ class OfflineStorage {
 
 // Singleton instance
 export const offlineStorage = new OfflineStorage();
-
-// Background sync manager
-export class BackgroundSync {
-  private static isProcessing = false;
-
-  static async processSyncQueue(): Promise<void> {
-    if (this.isProcessing) return;
-    if (!navigator.onLine) return;
-
-    this.isProcessing = true;
-
-    try {
-      const queue = await offlineStorage.getSyncQueue();
-      
-      for (const item of queue) {
-        try {
-          // Attempt to sync based on type
-          if (item.type === 'order') {
-            const response = await fetch('/api/orders', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify(item.data)
-            });
-
-            if (response.ok) {
-              await offlineStorage.removeFromSyncQueue(item.id);
-              console.log('Synced offline order:', item.id);
-            } else {
-              throw new Error(`Failed to sync order: ${response.status}`);
-            }
-          } else if (item.type === 'waiterCall') {
-            const response = await fetch('/api/waiter-calls', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify(item.data)
-            });
-
-            if (response.ok) {
-              await offlineStorage.removeFromSyncQueue(item.id);
-            }
-          }
-        } catch (error) {
-          console.error('Failed to sync item:', item.id, error);
-          // Increment retry count
-          await offlineStorage.updateSyncQueueItem(item.id, {
-            retries: item.retries + 1
-          });
-
-          // Remove if too many retries
-          if (item.retries >= 5) {
-            await offlineStorage.removeFromSyncQueue(item.id);
-            console.error('Removed item after max retries:', item.id);
-          }
-        }
-      }
-    } finally {
-      this.isProcessing = false;
-    }
-  }
-
-  static startAutoSync(intervalMs = 30000): () => void {
-    // Process immediately
-    this.processSyncQueue();
-
-    // Set up interval
-    const intervalId = setInterval(() => {
-      this.processSyncQueue();
-    }, intervalMs);
-
-    // Listen for online events
-    const onlineHandler = () => {
-      console.log('Back online, processing sync queue...');
-      this.processSyncQueue();
-    };
-    window.addEventListener('online', onlineHandler);
-
-    // Return cleanup function
-    return () => {
-      clearInterval(intervalId);
-      window.removeEventListener('online', onlineHandler);
-    };
-  }
-}
@@ -0,0 +1,42 @@
+// Order types - dine-in from a table, or takeaway, delivery and quick sales rung up at the counter
+import { DiningTable, Order, OrderType, Transaction } from '@/types';
+import { getTableName } from '@/lib/tables';
+import { countBills, roundMoney } from '@/lib/billing';
+
+export const orderTypeLabels: Record<OrderType, string> = {
+  dine_in: 'Dine-in',
+  takeaway: 'Takeaway',
+  delivery: 'Delivery',
+  counter: 'Counter sale',
+};
+
+export const ORDER_TYPES = Object.keys(orderTypeLabels) as OrderType[];
+
+export function getOrderType(order: { orderType?: OrderType }): OrderType {
+  return order.orderType ?? 'dine_in';
+}
+
+export function isTableOrder(order: { orderType?: OrderType }): boolean {
+  return getOrderType(order) === 'dine_in';
+}
+
+// Where an order is going: its table for dine-in, otherwise the order type
+export function getOrderDestination(order: { orderType?: OrderType; tableNumber: number }, tables: DiningTable[]): string {
+  return isTableOrder(order) ? getTableName(order.tableNumber, tables) : orderTypeLabels[getOrderType(order)];
+}
+
+export function getDeliveryFee(orders: Order[]): number {
+  return roundMoney(orders.reduce((sum, o) => sum + (o.delivery?.fee ?? 0), 0));
+}
+
+// Net sales and bill count per order type; voids and refunds carry their sale's type
+export function getSalesByOrderType(transactions: Transaction[]): { type: OrderType; revenue: number; bills: number }[] {
+  return ORDER_TYPES.map(type => {
+    const ofType = transactions.filter(t => getOrderType(t) === type);
+    return {
+      type,
+      revenue: roundMoney(ofType.reduce((sum, t) => sum + t.total, 0)),
+      bills: countBills(ofType),
+    };
+  });
+}
@@ -0,0 +1,420 @@
+/**
+ * Write outbox - every store mutation is saved to IndexedDB before it is sent,
+ * then replayed through the Supabase API in order until the server has it.
+ * Nothing is dropped: writes the server rejects wait as conflicts for staff to retry or discard.
+ */
+import {
+  categoriesApi,
+  menuApi,
+  ordersApi,
+  billsApi,
+  customersApi,
+  staffApi,
+  rolesApi,
+  expensesApi,
+  waiterCallsApi,
+  registerSessionsApi,
+  diningTablesApi,
+  ingredientsApi,
+  stockMovementsApi,
+  suppliersApi,
+  purchaseOrdersApi,
+  goodsReceiptsApi,
+  supplierPaymentsApi,
+  promotionsApi,
+  accountPaymentsApi,
+  reservationsApi,
+  transactionsApi,
+  auditLogApi,
+} from '@/lib/apiClient';
+import { MISSING_ROW_CODE, STALE_WRITE_CODE } from '@/lib/supabaseApi';
+import { offlineStorage } from '@/lib/offlineStorage';
+
+const apis = {
+  categoriesApi,
+  menuApi,
+  ordersApi,
+  billsApi,
+  customersApi,
+  staffApi,
+  rolesApi,
+  expensesApi,
+  waiterCallsApi,
+  registerSessionsApi,
+  diningTablesApi,
+  ingredientsApi,
+  stockMovementsApi,
+  suppliersApi,
+  purchaseOrdersApi,
+  goodsReceiptsApi,
+  supplierPaymentsApi,
+  promotionsApi,
+  accountPaymentsApi,
+  reservationsApi,
+  transactionsApi,
+  auditLogApi,
+};
+
+type Apis = typeof apis;
+type AnyFn = (...args: never[]) => unknown;
+
+export type OutboxApi = keyof Apis;
+export type OutboxMethod<A extends OutboxApi> = {
+  [M in keyof Apis[A]]: Apis[A][M] extends AnyFn ? M : never;
+}[keyof Apis[A]] & string;
+type OutboxArgs<A extends OutboxApi, M extends OutboxMethod<A>> = Apis[A][M] extends (...args: infer P) => unknown ? P : never;
+type OutboxResult<A extends OutboxApi, M extends OutboxMethod<A>> = Apis[A][M] extends (...args: never[]) => infer R ? Awaited<R> : never;
+
+export interface OutboxEntry {
+  id: string; // Idempotency key
+  seq: number; // Replay order
+  api: OutboxApi;
+  method: string;
+  args: unknown[];
+  createdAt: string;
+  attempts: number;
+  status: 'pending' | 'conflict';
+  error?: string;
+  group?: string; // Writes of one store action, see batch()
+}
+
+const apiLabels: Record<OutboxApi, string> = {
+  categoriesApi: 'Category',
+  menuApi: 'Menu item',
+  ordersApi: 'Order',
+  billsApi: 'Bill',
+  customersApi: 'Customer',
+  staffApi: 'Staff',
+  rolesApi: 'Role',
+  expensesApi: 'Expense',
+  waiterCallsApi: 'Waiter call',
+  registerSessionsApi: 'Register',
+  diningTablesApi: 'Table',
+  ingredientsApi: 'Ingredient',
+  stockMovementsApi: 'Stock movement',
+  suppliersApi: 'Supplier',
+  purchaseOrdersApi: 'Purchase order',
+  goodsReceiptsApi: 'Goods receipt',
+  supplierPaymentsApi: 'Supplier payment',
+  promotionsApi: 'Promotion',
+  accountPaymentsApi: 'Account payment',
+  reservationsApi: 'Reservation',
+  transactionsApi: 'Sale',
+  auditLogApi: 'Audit entry',
+};
+
+const MAX_RETRY_DELAY_MS = 60000;
+// How long an update waits for the device that created its row, as long as the LAN hub keeps events
+const MAX_HOLD_MS = 24 * 60 * 60 * 1000;
+
+// e.g. "Order: update status"
+export function describeOutboxEntry(entry: OutboxEntry): string {
+  const action = entry.method.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return `${apiLabels[entry.api] ?? entry.api}: ${action}`;
+}
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 11)}`;
+
+const getErrorCode = (err: unknown) => (err as { code?: string } | null)?.code || '';
+
+const getErrorMessage = (err: unknown) =>
+  (err as { message?: string } | null)?.message || String(err);
+
+// Records a write touches: the id it's addressed to, the ids of records it sends
+// and lists of ids (e.g. a bill's orders)
+const getTouchedIds = (entry: OutboxEntry): Set<string> => {
+  const ids = new Set<string>();
+  entry.args.forEach((arg, i) => {
+    if (typeof arg === 'string' && i === 0) ids.add(arg);
+    else if (Array.isArray(arg)) arg.forEach(item => typeof item === 'string' && ids.add(item));
+    else if (arg && typeof (arg as { id?: unknown }).id === 'string') ids.add((arg as { id: string }).id);
+  });
+  return ids;
+};
+
+// A later write waits for an earlier one of the same action or on the same record
+const dependsOn = (later: OutboxEntry, earlier: OutboxEntry) => {
+  if (earlier.seq >= later.seq) return false;
+  if (later.group && later.group === earlier.group) return true;
+  const earlierIds = getTouchedIds(earlier);
+  return [...getTouchedIds(later)].some(id => earlierIds.has(id));
+};
+
+// Postgres and PostgREST rejections carry a code; a missing one means the request never got an answer.
+// Connection, timeout and lock errors are worth retrying, anything else needs a person
+const isTransientError = (err: unknown) => {
+  const code = getErrorCode(err);
+  return !code || /^(08|53|57)/.test(code) || code === '40001' || code === '40P01';
+};
+
+class Outbox {
+  private entries: OutboxEntry[] = [];
+  private lastSeq = 0;
+  private loadPromise: Promise<void> | null = null;
+  private flushPromise: Promise<void> | null = null;
+  private flushAgain = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<() => void>();
+  private appliedHandlers = new Map<string, Set<(result: unknown) => void>>();
+  private lostHandlers = new Set<(entry: OutboxEntry, error: string) => void>();
+  private enqueueHandlers = new Set<(entry: OutboxEntry) => void>();
+  private group: string | null = null;
+
+  // Entries saved by an earlier session; entries queued meanwhile are kept
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = offlineStorage.getOutbox()
+        .then(saved => {
+          const queued = new Set(this.entries.map(e => e.id));
+          this.entries = [...saved.filter(e => !queued.has(e.id)), ...this.entries].sort((a, b) => a.seq - b.seq);
+          this.lastSeq = Math.max(this.lastSeq, ...this.entries.map(e => e.seq));
+          this.notify();
+        })
+        .catch(err => console.error('[Outbox] Failed to load saved writes:', err));
+    }
+    return this.loadPromise;
+  }
+
+  getEntries(): OutboxEntry[] {
+    return this.entries;
+  }
+
+  // Ids of the records that queued writes to these APIs touch, sent or not
+  getPendingIds(...apiNames: OutboxApi[]): Set<string> {
+    const ids = new Set<string>();
+    const collect = (arg: unknown) => {
+      if (typeof arg === 'string') ids.add(arg);
+      else if (Array.isArray(arg)) arg.forEach(collect);
+      else if (arg && typeof (arg as { id?: unknown }).id === 'string') ids.add((arg as { id: string }).id);
+    };
+    this.entries.filter(e => apiNames.includes(e.api)).forEach(e => e.args.forEach(collect));
+    return ids;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // Called with the server's answer each time a write of this kind lands
+  onApplied<A extends OutboxApi, M extends OutboxMethod<A>>(
+    api: A,
+    method: M,
+    handler: (result: OutboxResult<A, M>) => void
+  ): () => void {
+    const key = `${api}.${method}`;
+    const handlers = this.appliedHandlers.get(key) ?? new Set();
+    handlers.add(handler as (result: unknown) => void);
+    this.appliedHandlers.set(key, handlers);
+    return () => { handlers.delete(handler as (result: unknown) => void); };
+  }
+
+  // Called when a newer change on another device wins over a write from this one
+  onLost(handler: (entry: OutboxEntry, error: string) => void): () => void {
+    this.lostHandlers.add(handler);
+    return () => { this.lostHandlers.delete(handler); };
+  }
+
+  // Called with every write as it is queued, before it reaches the server
+  onEnqueue(handler: (entry: OutboxEntry) => void): () => void {
+    this.enqueueHandlers.add(handler);
+    return () => { this.enqueueHandlers.delete(handler); };
+  }
+
+  // Writes queued inside fn belong to one action: if the server turns one of them
+  // down, the action's later writes wait with it, and if it was stale they are set
+  // aside as conflicts for staff to retry or discard
+  batch<T>(fn: () => T): T {
+    const outer = this.group;
+    this.group = outer ?? newId();
+    try {
+      return fn();
+    } finally {
+      this.group = outer;
+    }
+  }
+
+  enqueue<A extends OutboxApi, M extends OutboxMethod<A>>(api: A, method: M, ...args: OutboxArgs<A, M>): void {
+    this.lastSeq = Math.max(Date.now(), this.lastSeq + 1);
+    const entry: OutboxEntry = {
+      id: newId(),
+      seq: this.lastSeq,
+      api,
+      method,
+      args,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+      status: 'pending',
+      ...(this.group && { group: this.group }),
+    };
+    this.entries = [...this.entries, entry];
+    this.notify();
+    this.enqueueHandlers.forEach(handler => handler(entry));
+    // Write-ahead: the entry is on disk before the request goes out
+    this.persist(entry).finally(() => this.flush());
+  }
+
+  flush(): Promise<void> {
+    if (this.flushPromise) {
+      // A retried conflict may sit behind where the running pass has got to
+      this.flushAgain = true;
+      return this.flushPromise;
+    }
+    this.flushPromise = this.load()
+      .then(async () => {
+        let done: boolean;
+        do {
+          this.flushAgain = false;
+          done = await this.drain();
+        } while (done && this.flushAgain);
+      })
+      .finally(() => { this.flushPromise = null; });
+    return this.flushPromise;
+  }
+
+  retry(id: string): Promise<void> {
+    const entry = this.entries.find(e => e.id === id);
+    if (!entry) return Promise.resolve();
+    return this.save({ ...entry, status: 'pending', error: undefined }).then(() => this.flush());
+  }
+
+  // Only ever on a person's say-so
+  discard(id: string): Promise<void> {
+    return this.remove(id);
+  }
+
+  // Flush on reconnect and every so often while writes are waiting
+  start(intervalMs = 30000): () => void {
+    this.flush();
+    const intervalId = setInterval(() => {
+      if (this.entries.some(e => e.status === 'pending')) this.flush();
+    }, intervalMs);
+    const onlineHandler = () => this.flush();
+    window.addEventListener('online', onlineHandler);
+    return () => {
+      clearInterval(intervalId);
+      window.removeEventListener('online', onlineHandler);
+    };
+  }
+
+  // Sends pending writes oldest first. One the server won't take yet holds back the
+  // later writes of its action and those on the same records, so they never overtake
+  // it; a write that gets no answer stops the pass. Resolves false if it had to stop
+  private async drain(): Promise<boolean> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    // Conflicts, and writes set aside in this pass: waiting for their record or behind another
+    const held = this.entries.filter(e => e.status === 'conflict');
+    let lastSeq = -1;
+    let entry: OutboxEntry | undefined;
+    while ((entry = this.entries.find(e => e.status === 'pending' && e.seq > lastSeq))) {
+      if (!navigator.onLine) return false;
+      lastSeq = entry.seq;
+
+      const waiting = entry;
+      const blocker = held.find(e => dependsOn(waiting, e));
+      if (blocker) {
+        held.push(waiting);
+        const error = `Waiting for ${describeOutboxEntry(blocker)}`;
+        if (waiting.error !== error) await this.save({ ...waiting, error });
+        continue;
+      }
+
+      const fn = (apis[entry.api] as unknown as Record<string, ((...args: unknown[]) => Promise<unknown>) | undefined>)?.[entry.method];
+      // Saved by an older version of the app for a write this one no longer makes
+      if (!fn) {
+        const conflict: OutboxEntry = { ...entry, status: 'conflict', error: 'This kind of change is no longer sent' };
+        await this.save(conflict);
+        held.push(conflict);
+        continue;
+      }
+
+      // Count the attempt before sending, so after a reload we know an earlier send may have landed
+      const sending = { ...entry, attempts: entry.attempts + 1 };
+      await this.save(sending);
+
+      try {
+        const result = await fn(...sending.args);
+        await this.remove(sending.id);
+        this.appliedHandlers.get(`${sending.api}.${sending.method}`)?.forEach(handler => handler(result));
+      } catch (err) {
+        // Records carry client ids, so a duplicate after an earlier attempt is that attempt having landed
+        if (getErrorCode(err) === '23505' && sending.attempts > 1) {
+          await this.remove(sending.id);
+          continue;
+        }
+        const error = getErrorMessage(err);
+        // A row another device created offline: wait for it rather than drop the update.
+        // The attempt didn't land, so it doesn't count; the regular flush tries again
+        if (getErrorCode(err) === MISSING_ROW_CODE && Date.now() - new Date(sending.createdAt).getTime() < MAX_HOLD_MS) {
+          console.warn(`[Outbox] ${describeOutboxEntry(sending)} waiting for its record to reach the server`);
+          await this.save({ ...sending, attempts: entry.attempts, error });
+          held.push(sending);
+          continue;
+        }
+        // An earlier attempt that landed unanswered looks just like a newer change
+        // from elsewhere, so only a first attempt can be called lost for sure.
+        // Only that write is dropped; the rest of its action may still be wanted
+        // against the newer data, so it waits for staff to retry or discard
+        if (getErrorCode(err) === STALE_WRITE_CODE && sending.attempts === 1) {
+          console.warn(`[Outbox] ${describeOutboxEntry(sending)} lost to a newer change:`, error);
+          await this.remove(sending.id);
+          const rest = sending.group ? this.entries.filter(e => e.group === sending.group && e.status === 'pending') : [];
+          for (const e of rest) {
+            const conflict: OutboxEntry = { ...e, status: 'conflict', error: `Held back: ${describeOutboxEntry(sending)} was changed on another device first` };
+            await this.save(conflict);
+            held.push(conflict);
+          }
+          this.lostHandlers.forEach(handler => handler(sending, error));
+          continue;
+        }
+        if (isTransientError(err)) {
+          console.warn(`[Outbox] ${describeOutboxEntry(sending)} failed, will retry:`, error);
+          await this.save({ ...sending, error });
+          this.scheduleRetry(sending.attempts);
+          return false;
+        }
+        console.error(`[Outbox] ${describeOutboxEntry(sending)} was rejected:`, err);
+        const conflict: OutboxEntry = { ...sending, status: 'conflict', error };
+        await this.save(conflict);
+        held.push(conflict);
+      }
+    }
+    return true;
+  }
+
+  private scheduleRetry(attempts: number) {
+    const delay = Math.min(MAX_RETRY_DELAY_MS, 1000 * 2 ** Math.min(attempts, 6));
+    this.retryTimer = setTimeout(() => this.flush(), delay);
+  }
+
+  private async save(entry: OutboxEntry): Promise<void> {
+    // Discarded while a request was out
+    if (!this.entries.some(e => e.id === entry.id)) return;
+    this.entries = this.entries.map(e => e.id === entry.id ? entry : e);
+    this.notify();
+    await this.persist(entry);
+  }
+
+  private async remove(id: string): Promise<void> {
+    this.entries = this.entries.filter(e => e.id !== id);
+    this.notify();
+    await offlineStorage.removeOutboxEntry(id)
+      .catch(err => console.error('[Outbox] Failed to remove write:', err));
+  }
+
+  // Without IndexedDB (e.g. private browsing) writes still queue in memory for this session
+  private async persist(entry: OutboxEntry): Promise<void> {
+    await offlineStorage.putOutboxEntry(entry)
+      .catch(err => console.error('[Outbox] Failed to save write, keeping it in memory:', err));
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Singleton instance
+export const outbox = new Outbox();
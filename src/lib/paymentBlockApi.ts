@@ -68,10 +68,11 @@ export async function recordPaymentBlock(
 /**
  * Override a payment block (staff confirmation)
  */
-export async function overridePaymentBlock(blockId: number): Promise<boolean> {
+export async function overridePaymentBlock(blockId: number, staffPin: string): Promise<boolean> {
   try {
     const { data, error } = await supabase.rpc('override_payment_block', {
-      p_block_id: blockId
+      p_block_id: blockId,
+      p_pin: staffPin
     });
 
     if (error) {
@@ -0,0 +1,103 @@
+// Payment providers - how each digital method takes a payment at the counter.
+// Gateways set up in Settings show a QR and confirm by themselves; the others
+// fall back to staff checking the customer's app. VITE_PAYMENT_MOCK=true swaps
+// every gateway for a mock, for trying the flow without merchant accounts.
+import { GatewayMethod, PaymentGateway, PaymentMethod } from '@/types';
+import { paymentGatewaysApi } from '@/lib/apiClient';
+import type { GatewayPaymentStatus } from '@/lib/supabaseApi';
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  fonepay: 'Fonepay',
+  esewa: 'eSewa',
+  khalti: 'Khalti',
+  account: 'Account',
+};
+
+export const GATEWAY_METHODS: GatewayMethod[] = ['fonepay', 'esewa', 'khalti'];
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['cash', ...GATEWAY_METHODS, 'account'];
+
+export const isGatewayMethod = (method: PaymentMethod): method is GatewayMethod =>
+  (GATEWAY_METHODS as PaymentMethod[]).includes(method);
+
+// Brand colours for buttons and QR screens
+export const gatewayColors: Record<GatewayMethod, string> = {
+  fonepay: '#c32148',
+  esewa: '#60bb46',
+  khalti: '#5c2d91',
+};
+
+export const isMockPayments = import.meta.env.VITE_PAYMENT_MOCK === 'true';
+
+// Where customers' phones land after an eSewa or Khalti checkout, see PayOnline
+export const PAY_PATH = '/pay';
+
+export interface PaymentRequest {
+  reference: string; // Sent to the gateway and kept on the tender
+  qr?: string; // What the customer scans
+  manual?: boolean; // No gateway: staff confirm once they've seen the payment
+}
+
+export interface PaymentProvider {
+  method: GatewayMethod;
+  start(amount: number, label: string): Promise<PaymentRequest>;
+  check(reference: string): Promise<GatewayPaymentStatus>;
+  simulate?(reference: string): void; // Mock only
+}
+
+const newReference = (method: GatewayMethod) =>
+  `${method.slice(0, 2).toUpperCase()}${Date.now().toString(36).toUpperCase()}${Math.random().toString(36).substring(2, 6).toUpperCase()}`;
+
+// eSewa's checkout is a form post, so the QR opens our page that makes it
+export const encodeCheckoutForm = (url: string, fields: Record<string, string>) =>
+  btoa(JSON.stringify({ url, fields })).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const decodeCheckoutForm = (encoded: string): { url: string; fields: Record<string, string> } | null => {
+  try {
+    return JSON.parse(atob(encoded.replace(/-/g, '+').replace(/_/g, '/')));
+  } catch {
+    return null;
+  }
+};
+
+const gatewayProvider = (method: GatewayMethod): PaymentProvider => ({
+  method,
+  async start(amount, label) {
+    const reference = newReference(method);
+    const returnUrl = `${window.location.origin}${PAY_PATH}`;
+    const checkout = await paymentGatewaysApi.start(reference, method, amount, label, returnUrl);
+    const qr = checkout.qr
+      ?? (checkout.fields && checkout.url ? `${returnUrl}#${encodeCheckoutForm(checkout.url, checkout.fields)}` : checkout.url);
+    return { reference, qr };
+  },
+  check: (reference) => paymentGatewaysApi.check(reference),
+});
+
+const manualProvider = (method: GatewayMethod): PaymentProvider => ({
+  method,
+  start: async () => ({ reference: newReference(method), manual: true }),
+  check: async () => 'pending',
+});
+
+const mockPayments = new Map<string, GatewayPaymentStatus>();
+
+const mockProvider = (method: GatewayMethod): PaymentProvider => ({
+  method,
+  async start(amount) {
+    const reference = newReference(method);
+    mockPayments.set(reference, 'pending');
+    return { reference, qr: `mock-${method}://pay?ref=${reference}&amount=${amount}` };
+  },
+  check: async (reference) => mockPayments.get(reference) ?? 'failed',
+  simulate: (reference) => { mockPayments.set(reference, 'paid'); },
+});
+
+export function isGatewayReady(gateways: PaymentGateway[], method: GatewayMethod): boolean {
+  return gateways.some(g => g.provider === method && g.enabled && g.hasSecret);
+}
+
+export function getPaymentProvider(method: GatewayMethod, gateways: PaymentGateway[]): PaymentProvider {
+  if (isMockPayments) return mockProvider(method);
+  return isGatewayReady(gateways, method) ? gatewayProvider(method) : manualProvider(method);
+}
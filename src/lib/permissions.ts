@@ -0,0 +1,73 @@
+// Role-based permission helpers (the database enforces the same matrix)
+import { Permission, Staff } from '@/types';
+
+export const OWNER_ROLE = 'owner';
+
+export interface PermissionInfo {
+  id: Permission;
+  label: string;
+  area: 'Counter' | 'Kitchen' | 'Admin';
+}
+
+export const PERMISSIONS: PermissionInfo[] = [
+  { id: 'use_counter', label: 'Use counter (accept orders, create bills)', area: 'Counter' },
+  { id: 'take_payment', label: 'Take payment', area: 'Counter' },
+  { id: 'apply_discount', label: 'Apply discount', area: 'Counter' },
+  { id: 'void_paid_bill', label: 'Void paid bill', area: 'Counter' },
+  { id: 'record_expense', label: 'Record expense', area: 'Counter' },
+  { id: 'delete_expense', label: 'Delete expense', area: 'Counter' },
+  { id: 'manage_register', label: 'Open / close cash register', area: 'Counter' },
+  { id: 'override_payment_block', label: 'Override payment block', area: 'Counter' },
+  { id: 'manage_reservations', label: 'Manage reservations & waitlist', area: 'Counter' },
+  { id: 'use_kitchen', label: 'Use kitchen display', area: 'Kitchen' },
+  { id: 'edit_menu', label: 'Edit menu & prices', area: 'Admin' },
+  { id: 'view_analytics', label: 'View analytics & history', area: 'Admin' },
+  { id: 'view_customers', label: 'View customers', area: 'Admin' },
+  { id: 'adjust_points', label: 'Adjust loyalty points', area: 'Admin' },
+  { id: 'manage_accounts', label: 'Manage customer accounts (khata)', area: 'Admin' },
+  { id: 'manage_staff', label: 'Manage staff & roles', area: 'Admin' },
+  { id: 'manage_settings', label: 'Manage settings & tables', area: 'Admin' },
+  { id: 'manage_inventory', label: 'Manage inventory & stock', area: 'Admin' },
+  { id: 'manage_purchasing', label: 'Manage suppliers & purchasing', area: 'Admin' },
+  { id: 'manage_promotions', label: 'Manage promotions & coupons', area: 'Admin' },
+  { id: 'view_audit_log', label: 'View audit log', area: 'Admin' },
+];
+
+// Admin panel tabs and the permission each one needs
+export const ADMIN_TAB_PERMISSIONS: Record<string, Permission> = {
+  dashboard: 'view_analytics',
+  analytics: 'view_analytics',
+  menu: 'edit_menu',
+  inventory: 'manage_inventory',
+  purchasing: 'manage_purchasing',
+  promotions: 'manage_promotions',
+  customers: 'view_customers',
+  accounts: 'manage_accounts',
+  history: 'view_analytics',
+  staff: 'manage_staff',
+  qr: 'manage_settings',
+  settings: 'manage_settings',
+  audit: 'view_audit_log',
+};
+
+// Owners always hold every permission so the restaurant can't lock itself out
+export function hasPermission(user: Pick<Staff, 'role' | 'permissions'> | null | undefined, permission: Permission): boolean {
+  if (!user) return false;
+  return user.role === OWNER_ROLE || (user.permissions || []).includes(permission);
+}
+
+export function canAccessAdmin(user: Pick<Staff, 'role' | 'permissions'> | null | undefined): boolean {
+  return Object.values(ADMIN_TAB_PERMISSIONS).some(p => hasPermission(user, p));
+}
+
+// Where a staff member lands after signing in
+export function getHomeRoute(user: Pick<Staff, 'role' | 'permissions'> | null | undefined): string {
+  if (hasPermission(user, 'use_counter')) return '/counter';
+  if (hasPermission(user, 'use_kitchen')) return '/kitchen';
+  if (canAccessAdmin(user)) return '/admin';
+  return '/';
+}
+
+export function formatRoleName(roleId: string, roles: { id: string; name: string }[]): string {
+  return roles.find(r => r.id === roleId)?.name || roleId;
+}
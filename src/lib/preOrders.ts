@@ -0,0 +1,101 @@
+// Pre-orders - takeaway orders for a later pickup slot. The kitchen only sees the
+// ticket a set time before the slot; the database checks the slot on insert
+import { Order, Settings } from '@/types';
+import { formatNepalDate, formatNepalDateReadable, formatNepalTime, getNepalTime } from '@/lib/nepalTime';
+
+export const PRE_ORDER_DAYS = 2; // Today and tomorrow
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export interface PreOrderSlot {
+  time: string; // ISO start of the slot, stored as the order's scheduledFor
+  label: string; // e.g. "3:00 PM"
+  day: number; // 0 today, 1 tomorrow
+  taken: number;
+  capacity: number;
+}
+
+export const getSlotMinutes = (settings: Settings) => Math.max(5, settings.preOrderSlotMinutes || 15);
+export const getReleaseMinutes = (settings: Settings) => settings.preOrderReleaseMinutes ?? 20;
+export const getSlotCapacity = (settings: Settings) => Math.max(1, settings.kitchenHandles || 3);
+
+export function isPreOrder(order: Pick<Order, 'scheduledFor'>): boolean {
+  return !!order.scheduledFor;
+}
+
+// When the order joins the kitchen queue: straight away, or ahead of its pickup slot
+export function getReleaseTime(order: Pick<Order, 'scheduledFor' | 'createdAt'>, settings: Settings): Date {
+  if (!order.scheduledFor) return new Date(order.createdAt);
+  return new Date(new Date(order.scheduledFor).getTime() - getReleaseMinutes(settings) * MINUTE_MS);
+}
+
+export function isReleasedToKitchen(order: Pick<Order, 'scheduledFor' | 'createdAt'>, settings: Settings, now = new Date()): boolean {
+  return getReleaseTime(order, settings).getTime() <= now.getTime();
+}
+
+// Pre-orders still waiting for their release, soonest first
+export function getUpcomingPreOrders(orders: Order[], settings: Settings, now = new Date()): Order[] {
+  return orders
+    .filter(o => isPreOrder(o) && o.status !== 'cancelled' && !isReleasedToKitchen(o, settings, now))
+    .sort((a, b) => new Date(a.scheduledFor!).getTime() - new Date(b.scheduledFor!).getTime());
+}
+
+const parseTime = (value: string | undefined, fallback: number): number => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value || '');
+  return match ? Number(match[1]) * 60 + Number(match[2]) : fallback;
+};
+
+/**
+ * Pickup slots from the opening time to the closing time, Nepal time, counted
+ * from midnight like check_pre_order_slot. Slots too soon for the kitchen to
+ * get the ticket in time are left out; full ones stay so they can be shown.
+ */
+export function getPreOrderSlots(settings: Settings, orders: Order[], now = new Date()): PreOrderSlot[] {
+  const slotMinutes = getSlotMinutes(settings);
+  const open = parseTime(settings.preOrderOpenTime, 8 * 60);
+  const close = parseTime(settings.preOrderCloseTime, 20 * 60);
+  const earliest = now.getTime() + getReleaseMinutes(settings) * MINUTE_MS;
+  const capacity = getSlotCapacity(settings);
+
+  const nepal = getNepalTime(now);
+  const midnight = now.getTime() - ((nepal.getHours() * 60 + nepal.getMinutes()) * 60 + nepal.getSeconds()) * 1000 - nepal.getMilliseconds();
+
+  const taken = new Map<number, number>();
+  orders
+    .filter(o => isPreOrder(o) && o.status !== 'cancelled')
+    .forEach(o => {
+      const time = new Date(o.scheduledFor!).getTime();
+      taken.set(time, (taken.get(time) ?? 0) + 1);
+    });
+
+  const slots: PreOrderSlot[] = [];
+  for (let day = 0; day < PRE_ORDER_DAYS; day++) {
+    const start = Math.ceil(open / slotMinutes) * slotMinutes;
+    for (let minute = start; minute <= close; minute += slotMinutes) {
+      const time = midnight + day * DAY_MS + minute * MINUTE_MS;
+      if (time < earliest) continue;
+      slots.push({
+        time: new Date(time).toISOString(),
+        label: formatNepalTime(new Date(time)),
+        day,
+        taken: taken.get(time) ?? 0,
+        capacity,
+      });
+    }
+  }
+  return slots;
+}
+
+export function isSlotFull(slot: PreOrderSlot): boolean {
+  return slot.taken >= slot.capacity;
+}
+
+// "Today 3:00 PM", "Tomorrow 9:30 AM" or a date for anything further out
+export function formatPickupTime(scheduledFor: string, now = new Date()): string {
+  const day = formatNepalDate(scheduledFor);
+  const label = day === formatNepalDate(now) ? 'Today'
+    : day === formatNepalDate(new Date(now.getTime() + DAY_MS)) ? 'Tomorrow'
+    : formatNepalDateReadable(scheduledFor);
+  return `${label} ${formatNepalTime(scheduledFor)}`;
+}
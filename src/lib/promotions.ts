@@ -0,0 +1,223 @@
+// Promotions: which ones are running and what they take off a bill. The counter
+// charges from here and the customer's cart previews from here, so both agree.
+//
+// Happy hours, combos and buy-X-get-Y work on items: the one saving most claims
+// its items first, and an item is only ever discounted once. Spend-and-save
+// offers then come off what's left - the best automatic one, plus a coupon.
+import { AppliedPromotion, MenuItem, OrderItem, Promotion, PromotionType, Transaction } from '@/types';
+import { isSaleTransaction, roundMoney } from '@/lib/billing';
+import { isVoided } from '@/lib/refunds';
+import { formatNepalDate, getNepalTime } from '@/lib/nepalTime';
+
+export const promotionTypeLabels: Record<PromotionType, string> = {
+  happy_hour: 'Happy hour',
+  combo: 'Combo',
+  bogo: 'Buy X get Y',
+  threshold: 'Spend & save',
+};
+
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface PromotionResult {
+  applied: AppliedPromotion[];
+  discount: number;
+}
+
+// One unit of a line, so a promotion can claim part of a line's quantity
+interface Unit {
+  menuItemId: string;
+  category?: string;
+  price: number;
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+// Active, within its dates, on one of its weekdays and inside its hours (Nepal time)
+export function isPromotionRunning(promotion: Promotion, now = new Date()): boolean {
+  if (!promotion.active) return false;
+  const today = formatNepalDate(now);
+  if (promotion.startsOn && today < promotion.startsOn) return false;
+  if (promotion.endsOn && today > promotion.endsOn) return false;
+
+  const nepal = getNepalTime(now);
+  if (promotion.days?.length && !promotion.days.includes(nepal.getDay())) return false;
+  if (!promotion.startTime || !promotion.endTime) return true;
+
+  const minutes = nepal.getHours() * 60 + nepal.getMinutes();
+  const start = toMinutes(promotion.startTime);
+  const end = toMinutes(promotion.endTime);
+  // A window past midnight, e.g. 21:00-01:00
+  return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+export function isCouponUsedUp(promotion: Promotion): boolean {
+  return promotion.maxUses !== undefined && promotion.uses >= promotion.maxUses;
+}
+
+// The coupon behind a code typed at the counter, or why it can't be used
+export function findCoupon(code: string, promotions: Promotion[], now = new Date()): { coupon?: Promotion; error?: string } {
+  const wanted = code.trim().toUpperCase();
+  const coupon = promotions.find(p => p.code === wanted);
+  if (!coupon) return { error: 'No coupon with that code' };
+  if (isCouponUsedUp(coupon)) return { error: 'This coupon has been used up' };
+  if (!isPromotionRunning(coupon, now)) return { error: 'This coupon is not valid right now' };
+  return { coupon };
+}
+
+const coversUnit = (promotion: Promotion, unit: Unit) => {
+  const hasTargets = (promotion.categories?.length ?? 0) > 0 || (promotion.menuItemIds?.length ?? 0) > 0;
+  return !hasTargets
+    || (unit.category !== undefined && !!promotion.categories?.includes(unit.category))
+    || !!promotion.menuItemIds?.includes(unit.menuItemId);
+};
+
+// What an item promotion saves on the unclaimed units, and the units it uses
+function evaluateItemPromotion(promotion: Promotion, units: Unit[]): { discount: number; used: Unit[] } {
+  switch (promotion.type) {
+    case 'happy_hour': {
+      const used = units.filter(u => coversUnit(promotion, u));
+      const value = used.reduce((sum, u) => sum + u.price, 0);
+      return { discount: (value * (promotion.percentOff ?? 0)) / 100, used };
+    }
+
+    case 'combo': {
+      const lines = promotion.comboItems || [];
+      if (lines.length === 0 || promotion.bundlePrice === undefined) return { discount: 0, used: [] };
+      // Dearest units first, so the bundle saves the most
+      const left = [...units].sort((a, b) => b.price - a.price);
+      const used: Unit[] = [];
+      let discount = 0;
+      for (;;) {
+        const bundle: Unit[] = [];
+        for (const line of lines) {
+          const matches = left.filter(u => u.menuItemId === line.menuItemId && !bundle.includes(u)).slice(0, line.qty);
+          if (matches.length < line.qty) return { discount, used };
+          bundle.push(...matches);
+        }
+        const value = bundle.reduce((sum, u) => sum + u.price, 0);
+        if (value <= promotion.bundlePrice) return { discount, used };
+        discount += value - promotion.bundlePrice;
+        used.push(...bundle);
+        bundle.forEach(u => left.splice(left.indexOf(u), 1));
+      }
+    }
+
+    case 'bogo': {
+      const buy = promotion.buyQty ?? 0;
+      const get = promotion.getQty ?? 0;
+      if (buy <= 0 || get <= 0) return { discount: 0, used: [] };
+      // In each group of buy + get, the cheapest get units are free
+      const eligible = units.filter(u => coversUnit(promotion, u)).sort((a, b) => b.price - a.price);
+      const groups = Math.floor(eligible.length / (buy + get));
+      const used = eligible.slice(0, groups * (buy + get));
+      let discount = 0;
+      for (let g = 0; g < groups; g++) {
+        discount += used.slice(g * (buy + get) + buy, (g + 1) * (buy + get)).reduce((sum, u) => sum + u.price, 0);
+      }
+      return { discount, used };
+    }
+
+    default:
+      return { discount: 0, used: [] };
+  }
+}
+
+const getThresholdDiscount = (promotion: Promotion, amount: number) => {
+  if (amount <= 0 || amount < (promotion.minSubtotal ?? 0)) return 0;
+  return promotion.percentOff ? (amount * promotion.percentOff) / 100 : promotion.amountOff ?? 0;
+};
+
+/**
+ * The promotions a bill qualifies for and what each takes off. Automatic
+ * promotions apply when they're running; a coupon only when it's passed in
+ * (look it up with findCoupon first).
+ */
+export function applyPromotions(
+  items: OrderItem[],
+  promotions: Promotion[],
+  menuItems: MenuItem[],
+  coupon?: Promotion,
+  now = new Date()
+): PromotionResult {
+  const candidates = [
+    ...promotions.filter(p => !p.code && isPromotionRunning(p, now)),
+    ...(coupon ? [coupon] : []),
+  ];
+  const subtotal = items.reduce((sum, i) => sum + i.qty * i.price, 0);
+  const applied: AppliedPromotion[] = [];
+  let remaining = subtotal;
+
+  const apply = (promotion: Promotion, amount: number) => {
+    const discount = roundMoney(Math.min(amount, remaining));
+    if (discount <= 0) return;
+    remaining = roundMoney(remaining - discount);
+    applied.push({
+      promotionId: promotion.id,
+      name: promotion.name,
+      discount,
+      ...(promotion.code && { code: promotion.code }),
+    });
+  };
+
+  let units: Unit[] = items.flatMap(item => {
+    const category = menuItems.find(m => m.id === item.menuItemId)?.category;
+    return Array.from({ length: Math.max(0, item.qty) }, () => ({ menuItemId: item.menuItemId, category, price: item.price }));
+  });
+
+  const itemPromotions = candidates.filter(p => p.type !== 'threshold');
+  while (itemPromotions.length > 0) {
+    const results = itemPromotions.map(p => ({ promotion: p, ...evaluateItemPromotion(p, units) }));
+    const best = results.reduce((a, b) => (b.discount > a.discount ? b : a));
+    if (best.discount <= 0) break;
+    apply(best.promotion, best.discount);
+    units = units.filter(u => !best.used.includes(u));
+    itemPromotions.splice(itemPromotions.indexOf(best.promotion), 1);
+  }
+
+  const automatic = candidates
+    .filter(p => p.type === 'threshold' && !p.code)
+    .map(p => ({ promotion: p, discount: getThresholdDiscount(p, remaining) }))
+    .sort((a, b) => b.discount - a.discount)[0];
+  if (automatic) apply(automatic.promotion, automatic.discount);
+  if (coupon?.type === 'threshold') apply(coupon, getThresholdDiscount(coupon, remaining));
+
+  return { applied, discount: roundMoney(subtotal - remaining) };
+}
+
+export const getPromotionDiscount = (applied: AppliedPromotion[] = []) =>
+  roundMoney(applied.reduce((sum, p) => sum + p.discount, 0));
+
+// A sub-bill's part of the promotions (split bills share the discount by amount)
+export function scalePromotions(applied: AppliedPromotion[], share: number): AppliedPromotion[] {
+  return applied
+    .map(p => ({ ...p, discount: roundMoney(p.discount * share) }))
+    .filter(p => p.discount > 0);
+}
+
+export interface PromotionCost {
+  promotionId: string;
+  name: string;
+  bills: number;
+  discount: number;
+}
+
+// What each promotion gave away on sales that weren't voided, most expensive first
+export function getPromotionCosts(transactions: Transaction[]): PromotionCost[] {
+  const costs = new Map<string, PromotionCost & { billIds: Set<string> }>();
+  transactions
+    .filter(t => isSaleTransaction(t) && t.promotions?.length && !isVoided(t, transactions))
+    .forEach(t => {
+      t.promotions!.forEach(p => {
+        const cost = costs.get(p.promotionId) ?? { promotionId: p.promotionId, name: p.name, bills: 0, discount: 0, billIds: new Set<string>() };
+        cost.billIds.add(t.splitGroupId ?? t.billId);
+        cost.discount += p.discount;
+        costs.set(p.promotionId, cost);
+      });
+    });
+  return [...costs.values()]
+    .map(({ billIds, ...cost }) => ({ ...cost, bills: billIds.size, discount: roundMoney(cost.discount) }))
+    .sort((a, b) => b.discount - a.discount);
+}
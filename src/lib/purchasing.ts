@@ -0,0 +1,48 @@
+// Purchase order, goods receipt and supplier balance helpers
+import { GoodsReceipt, GoodsReceiptLine, PurchaseOrder, PurchaseOrderStatus, SupplierPayment, SupplierPaymentMethod } from '@/types';
+import { roundMoney } from '@/lib/billing';
+import { roundQty } from '@/lib/inventory';
+
+export const purchaseOrderStatusLabels: Record<PurchaseOrderStatus, string> = {
+  open: 'Ordered',
+  partial: 'Part received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+export const supplierPaymentMethodLabels: Record<SupplierPaymentMethod, string> = {
+  cash: 'Cash (from till)',
+  bank: 'Bank transfer',
+  fonepay: 'Fonepay',
+};
+
+export function getLinesTotal(lines: Pick<GoodsReceiptLine, 'qty' | 'unitCost'>[]): number {
+  return roundMoney(lines.reduce((sum, line) => sum + line.qty * line.unitCost, 0));
+}
+
+// Quantity per ingredient still to come on an order
+export function getOutstandingLines(order: PurchaseOrder): GoodsReceiptLine[] {
+  return order.lines
+    .map(line => ({ ingredientId: line.ingredientId, qty: roundQty(Math.max(0, line.qty - line.receivedQty)), unitCost: line.unitCost }))
+    .filter(line => line.qty > 0);
+}
+
+/**
+ * The order after a receipt is posted against it, mirroring post_goods_receipt
+ * in the database. Over-deliveries count as received in full.
+ */
+export function applyReceiptToOrder(order: PurchaseOrder, lines: GoodsReceiptLine[]): PurchaseOrder {
+  const updated = order.lines.map(line => {
+    const received = lines.filter(l => l.ingredientId === line.ingredientId).reduce((sum, l) => sum + l.qty, 0);
+    return { ...line, receivedQty: roundQty(line.receivedQty + received) };
+  });
+  const status: PurchaseOrderStatus = updated.every(line => line.receivedQty >= line.qty) ? 'received' : 'partial';
+  return { ...order, lines: updated, status };
+}
+
+// What we owe a supplier: everything received from them less what we've paid
+export function getSupplierBalance(supplierId: string, receipts: GoodsReceipt[], payments: SupplierPayment[]): number {
+  const received = receipts.filter(r => r.supplierId === supplierId).reduce((sum, r) => sum + r.total, 0);
+  const paid = payments.filter(p => p.supplierId === supplierId).reduce((sum, p) => sum + p.amount, 0);
+  return roundMoney(received - paid);
+}
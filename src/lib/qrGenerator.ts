@@ -10,6 +10,8 @@
 import { QRCodeSVG } from 'qrcode.react';
 import { renderToStaticMarkup } from 'react-dom/server';
 import { createElement } from 'react';
+import { DiningTable } from '@/types';
+import { getTableName } from '@/lib/tables';
 
 /**
  * Generate a QR code as an SVG string
@@ -30,12 +32,13 @@ export function generateQRSVG(data: string, size: number = 120): string {
  */
 export interface PrintQRData {
   tableNum: number;
+  tableName: string;
   tableQR: string;
   wifiQR: string | null;
 }
 
 export function generatePrintQRData(
-  tableCount: number,
+  tables: DiningTable[],
   baseUrl: string,
   wifiSSID?: string,
   wifiPassword?: string
@@ -48,11 +51,12 @@ export function generatePrintQRData(
   
   const result: PrintQRData[] = [];
   
-  for (let i = 1; i <= tableCount; i++) {
+  for (const table of tables) {
     // Use /scan?table=X format so it works with dynamic table switching
-    const tableUrl = `${baseUrl}/scan?table=${i}`;
+    const tableUrl = `${baseUrl}/scan?table=${table.number}`;
     result.push({
-      tableNum: i,
+      tableNum: table.number,
+      tableName: getTableName(table.number, tables),
       tableQR: generateQRSVG(tableUrl, 120),
       wifiQR: wifiQRSVG,
     });
@@ -2,6 +2,8 @@
  * Thermal Receipt Printer Support via Web USB API
  * Supports ESC/POS compatible printers
  */
+import { PaymentMethod, Tender } from '@/types';
+import { PrintMode } from '@/lib/tax';
 
 // Type declarations for Web USB API (not all browsers support this)
 declare global {
@@ -80,6 +82,7 @@ const COMMANDS = {
 class ReceiptPrinter {
   private printer: PrinterDevice | null = null;
   private isConnecting = false;
+  private connectListeners = new Set<() => void>();
 
   // Check if Web USB is supported
   isSupported(): boolean {
@@ -91,6 +94,14 @@ class ReceiptPrinter {
     return this.printer !== null && this.printer.device.opened;
   }
 
+  // Called after each successful connect; returns an unsubscribe function
+  onConnect(listener: () => void): () => void {
+    this.connectListeners.add(listener);
+    return () => {
+      this.connectListeners.delete(listener);
+    };
+  }
+
   // Connect to printer
   async connect(): Promise<boolean> {
     if (!this.isSupported()) {
@@ -141,6 +152,7 @@ class ReceiptPrinter {
       await this.sendCommand(COMMANDS.INIT);
       
       console.log('Printer connected successfully');
+      this.connectListeners.forEach(listener => listener());
       return true;
     } catch (error) {
       console.error('Failed to connect to printer:', error);
@@ -203,12 +215,26 @@ class ReceiptPrinter {
       await this.sendText(receipt.restaurantName);
       await this.sendCommand(COMMANDS.NORMAL_SIZE);
       await this.sendCommand(COMMANDS.BOLD_OFF);
+      if (receipt.panNumber) {
+        await this.sendText(`PAN/VAT: ${receipt.panNumber}`);
+      }
+
+      // Invoice title, and the copy marking on reprints
+      await this.sendCommand(COMMANDS.BOLD_ON);
+      await this.sendText(receipt.title);
+      await this.sendCommand(COMMANDS.BOLD_OFF);
+      if (receipt.copy) {
+        await this.sendText('COPY OF ORIGINAL');
+      }
 
       // Separator
       await this.sendText('--------------------------------');
 
       // Bill info
       await this.sendCommand(COMMANDS.ALIGN_LEFT);
+      if (receipt.invoiceNumber) {
+        await this.sendText(`Invoice No: ${receipt.invoiceNumber}`);
+      }
       await this.sendText(`Table: ${receipt.tableNumber}`);
       await this.sendText(`Date: ${receipt.date}`);
       await this.sendText(`Bill #: ${receipt.billId}`);
@@ -240,6 +266,16 @@ class ReceiptPrinter {
       if (receipt.discount > 0) {
         await this.sendText(`Discount: Rs. ${receipt.discount}`);
       }
+      if (receipt.serviceCharge) {
+        await this.sendText(`Service Charge: Rs. ${receipt.serviceCharge}`);
+      }
+      if (receipt.vat) {
+        await this.sendText(`Taxable: Rs. ${receipt.taxableAmount ?? 0}`);
+        if (receipt.nonTaxableAmount) {
+          await this.sendText(`Non-taxable: Rs. ${receipt.nonTaxableAmount}`);
+        }
+        await this.sendText(`VAT: Rs. ${receipt.vat}`);
+      }
       
       await this.sendCommand(COMMANDS.BOLD_ON);
       await this.sendCommand(COMMANDS.DOUBLE_HEIGHT);
@@ -247,10 +283,21 @@ class ReceiptPrinter {
       await this.sendCommand(COMMANDS.NORMAL_SIZE);
       await this.sendCommand(COMMANDS.BOLD_OFF);
 
-      // Payment method
+      // Payment method (estimates are printed before payment)
       await this.sendCommand(COMMANDS.ALIGN_CENTER);
       await this.sendText('--------------------------------');
-      await this.sendText(`Payment: ${receipt.paymentMethod?.toUpperCase() || 'CASH'}`);
+      if (receipt.mode === 'estimate') {
+        await this.sendText('This is not a tax invoice');
+      } else if (receipt.payments && receipt.payments.length > 1) {
+        for (const p of receipt.payments) {
+          await this.sendText(`${p.method.toUpperCase()}: Rs. ${p.amount}`);
+        }
+      } else {
+        await this.sendText(`Payment: ${receipt.paymentMethod?.toUpperCase() || 'CASH'}`);
+      }
+      if (receipt.splitLabel) {
+        await this.sendText(`Split: ${receipt.splitLabel}`);
+      }
 
       // Footer
       await this.sendCommand(COMMANDS.FEED_LINES(2));
@@ -268,6 +315,50 @@ class ReceiptPrinter {
     }
   }
 
+  // Print a kitchen chit for one prep station
+  async printKitchenChit(chit: KitchenChitData): Promise<void> {
+    if (!this.isConnected()) {
+      throw new Error('Printer not connected');
+    }
+
+    await this.sendCommand(COMMANDS.INIT);
+    await this.sendCommand(COMMANDS.ALIGN_CENTER);
+    await this.sendCommand(COMMANDS.BOLD_ON);
+    await this.sendText(chit.station.toUpperCase());
+    await this.sendCommand(COMMANDS.DOUBLE_HEIGHT);
+    await this.sendText(chit.destination.toUpperCase());
+    await this.sendCommand(COMMANDS.NORMAL_SIZE);
+    await this.sendCommand(COMMANDS.BOLD_OFF);
+    if (chit.address) {
+      await this.sendText(chit.address);
+    }
+    await this.sendText(chit.date);
+    await this.sendText('--------------------------------');
+
+    await this.sendCommand(COMMANDS.ALIGN_LEFT);
+    await this.sendCommand(COMMANDS.BOLD_ON);
+    for (const item of chit.items) {
+      await this.sendText(`${item.qty} x ${item.name.substring(0, 26)}`);
+      if (item.modifiers) {
+        await this.sendCommand(COMMANDS.BOLD_OFF);
+        await this.sendText(`    ${item.modifiers.substring(0, 28)}`);
+        await this.sendCommand(COMMANDS.BOLD_ON);
+      }
+    }
+    await this.sendCommand(COMMANDS.BOLD_OFF);
+
+    if (chit.notes) {
+      await this.sendText('--------------------------------');
+      await this.sendText(`Note: ${chit.notes}`);
+    }
+
+    await this.sendText('--------------------------------');
+    await this.sendCommand(COMMANDS.ALIGN_CENTER);
+    await this.sendText(`Ref: #${chit.orderId.slice(-6)}`);
+    await this.sendCommand(COMMANDS.FEED_LINES(3));
+    await this.sendCommand(COMMANDS.PARTIAL_CUT);
+  }
+
   // Print a test page
   async printTest(): Promise<void> {
     if (!this.isConnected()) {
@@ -292,9 +383,14 @@ class ReceiptPrinter {
 
 export interface ReceiptData {
   restaurantName: string;
+  panNumber?: string;
+  mode: PrintMode;
+  title: string; // "TAX INVOICE", "INVOICE" or "ESTIMATE"
+  invoiceNumber?: string; // e.g. "2082/83-00012"
+  copy?: boolean; // Reprints are marked as copies
   tableNumber: number;
   billId: string;
-  date: string;
+  date: string; // BS date and time, e.g. "2082-07-01 2:30 PM"
   items: Array<{
     name: string;
     qty: number;
@@ -303,8 +399,28 @@ export interface ReceiptData {
   }>;
   subtotal: number;
   discount: number;
+  serviceCharge?: number;
+  taxableAmount?: number;
+  nonTaxableAmount?: number;
+  vat?: number;
   total: number;
-  paymentMethod?: 'cash' | 'fonepay';
+  paymentMethod?: PaymentMethod | 'mixed';
+  payments?: Tender[]; // Set for mixed payments
+  splitLabel?: string; // e.g. "Seat 2" on a split bill
+}
+
+export interface KitchenChitData {
+  station: string;
+  destination: string; // Table name, or the order type for orders without a table
+  address?: string; // Delivery orders
+  orderId: string;
+  date: string;
+  items: Array<{
+    name: string;
+    qty: number;
+    modifiers?: string;
+  }>;
+  notes?: string;
 }
 
 // Singleton instance
@@ -318,6 +434,7 @@ export function useReceiptPrinter() {
     connect: () => receiptPrinter.connect(),
     disconnect: () => receiptPrinter.disconnect(),
     printReceipt: (data: ReceiptData) => receiptPrinter.printReceipt(data),
+    printKitchenChit: (data: KitchenChitData) => receiptPrinter.printKitchenChit(data),
     printTest: () => receiptPrinter.printTest(),
   };
 }
@@ -0,0 +1,105 @@
+// Void and refund helpers (compensating transactions for paid bills)
+import { OrderItem, PaymentMethod, Transaction, TransactionKind } from '@/types';
+import { getItemShare, getTransactionTenders, isSaleTransaction, roundMoney } from '@/lib/billing';
+import { getNepalTodayString, getTransactionDateInNepal } from '@/lib/nepalTime';
+import { getBillTax, scaleBillTax } from '@/lib/tax';
+
+export type TransactionCorrection =
+  | { kind: 'void'; reason: string }
+  | { kind: 'refund'; reason: string; amount: number; method: PaymentMethod; items: OrderItem[] };
+
+// Corrections are only allowed on the day of the sale (Nepal time) so closed days stay closed
+export function isCorrectable(sale: Transaction): boolean {
+  return isSaleTransaction(sale) && getTransactionDateInNepal(sale.paidAt) === getNepalTodayString();
+}
+
+export function getCorrections(sale: Transaction, transactions: Transaction[]): Transaction[] {
+  return transactions.filter(t => t.refundOf === sale.id);
+}
+
+// What is left to refund after earlier voids and refunds (their totals are negative)
+export function getRefundableAmount(sale: Transaction, transactions: Transaction[]): number {
+  const reversed = getCorrections(sale, transactions).reduce((sum, t) => sum - t.total, 0);
+  return roundMoney(Math.max(0, sale.total - reversed));
+}
+
+export function isVoided(sale: Transaction, transactions: Transaction[]): boolean {
+  return getCorrections(sale, transactions).some(t => t.kind === 'void');
+}
+
+/**
+ * Amount to hand back for some of the sale's lines. Lines are valued net of the
+ * bill discount, and scaled for amount-split sub-bills that only paid a share.
+ */
+export function getRefundValue(sale: Transaction, lines: OrderItem[]): number {
+  const share = getItemShare(sale);
+  const gross = sale.items.reduce((sum, i) => sum + i.qty * i.price * share, 0);
+  const netRatio = gross > 0 ? sale.total / gross : 0;
+  return roundMoney(lines.reduce((sum, i) => sum + i.qty * i.price * share, 0) * netRatio);
+}
+
+const negateItems = (items: OrderItem[]): OrderItem[] => items.map(i => ({ ...i, qty: -i.qty }));
+
+/**
+ * The compensating transaction for a void or refund. Negative totals, tenders and
+ * item quantities net the sale out of revenue, tender totals, item reports and
+ * the register's expected cash without special cases.
+ */
+export function buildCorrectionTransaction(
+  sale: Transaction,
+  correction: TransactionCorrection,
+  id: string,
+  paidAt: string
+): Transaction {
+  const base = {
+    id,
+    billId: sale.billId,
+    tableNumber: sale.tableNumber,
+    customerPhones: sale.customerPhones,
+    discount: 0,
+    paidAt,
+    kind: correction.kind,
+    refundOf: sale.id,
+    reason: correction.reason,
+    ...(sale.splitGroupId && { splitGroupId: sale.splitGroupId, splitLabel: sale.splitLabel }),
+    ...(sale.itemShare !== undefined && { itemShare: sale.itemShare }),
+    ...(sale.orderType && { orderType: sale.orderType }),
+  };
+  // The reversed part of the sale's service charge and VAT, as the database records it
+  const share = correction.kind === 'void' || sale.total === 0 ? -1 : -correction.amount / sale.total;
+  const { total: _total, ...tax } = scaleBillTax(getBillTax(sale), share);
+  const taxFields = sale.vat !== undefined ? tax : {};
+
+  if (correction.kind === 'void') {
+    return {
+      ...base,
+      ...taxFields,
+      total: -sale.total,
+      paymentMethod: sale.paymentMethod,
+      payments: getTransactionTenders(sale).map(p => ({ ...p, amount: -p.amount })),
+      items: negateItems(sale.items),
+    };
+  }
+
+  return {
+    ...base,
+    ...taxFields,
+    total: -correction.amount,
+    paymentMethod: correction.method,
+    payments: [{
+      method: correction.method,
+      amount: -correction.amount,
+      // Credited back to the tab the sale was charged to
+      ...(correction.method === 'account' && {
+        customerPhone: getTransactionTenders(sale).find(t => t.method === 'account')?.customerPhone,
+      }),
+    }],
+    items: negateItems(correction.items),
+  };
+}
+
+export const transactionKindLabels: Record<TransactionKind, string> = {
+  sale: 'Sale',
+  void: 'Void',
+  refund: 'Refund',
+};
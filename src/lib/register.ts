@@ -0,0 +1,137 @@
+// Cash register (till) session helpers
+import { CashMovement, CashMovementType, Expense, RegisterSession, Transaction } from '@/types';
+import { getTenderTotal, isSaleTransaction, roundMoney } from '@/lib/billing';
+import { formatBsDateTime } from '@/lib/bikramSambat';
+
+// NPR notes and coins counted at close, largest first
+export const NPR_DENOMINATIONS = [1000, 500, 100, 50, 20, 10, 5, 2, 1];
+
+export const movementLabels: Record<CashMovementType, string> = {
+  cash_in: 'Cash In',
+  cash_out: 'Cash Out',
+  payout: 'Payout',
+};
+
+export function getDenominationTotal(denominations: Record<string, number> = {}): number {
+  return Object.entries(denominations).reduce((sum, [note, count]) => sum + Number(note) * (count || 0), 0);
+}
+
+const isWithinSession = (timestamp: string, session: RegisterSession): boolean => {
+  const time = new Date(timestamp).getTime();
+  const end = session.closedAt ? new Date(session.closedAt).getTime() : Infinity;
+  return time >= new Date(session.openedAt).getTime() && time <= end;
+};
+
+export function getSessionTransactions(session: RegisterSession, transactions: Transaction[]): Transaction[] {
+  return transactions.filter(t => isWithinSession(t.paidAt, session));
+}
+
+// Goods receipts book their expense on the supplier's account, not the till
+export function getSessionExpenses(session: RegisterSession, expenses: Expense[]): Expense[] {
+  return expenses.filter(e => !e.goodsReceiptId && isWithinSession(e.createdAt, session));
+}
+
+export function getMovementTotal(movements: CashMovement[], type: CashMovementType): number {
+  return movements.filter(m => m.type === type).reduce((sum, m) => sum + m.amount, 0);
+}
+
+export interface RegisterSummary {
+  cashPayments: number;
+  fonepayPayments: number;
+  esewaPayments: number;
+  khaltiPayments: number;
+  revenue: number;
+  expenseTotal: number;
+  cashIn: number;
+  cashOut: number;
+  payouts: number;
+  expectedCash: number;
+  transactionCount: number;
+}
+
+/**
+ * Live figures for a session. Expected cash in the drawer is the float plus
+ * cash takings and cash-ins, minus cash-outs, payouts and expenses paid from the till.
+ * Cash refunds and voids are negative tenders, so takings are already net of them.
+ */
+export function getRegisterSummary(
+  session: RegisterSession,
+  transactions: Transaction[],
+  expenses: Expense[]
+): RegisterSummary {
+  const sessionTransactions = getSessionTransactions(session, transactions);
+  const cashPayments = getTenderTotal(sessionTransactions, 'cash');
+  const fonepayPayments = getTenderTotal(sessionTransactions, 'fonepay');
+  const esewaPayments = getTenderTotal(sessionTransactions, 'esewa');
+  const khaltiPayments = getTenderTotal(sessionTransactions, 'khalti');
+  const expenseTotal = getSessionExpenses(session, expenses).reduce((sum, e) => sum + e.amount, 0);
+  const cashIn = getMovementTotal(session.movements, 'cash_in');
+  const cashOut = getMovementTotal(session.movements, 'cash_out');
+  const payouts = getMovementTotal(session.movements, 'payout');
+
+  return {
+    cashPayments,
+    fonepayPayments,
+    esewaPayments,
+    khaltiPayments,
+    revenue: sessionTransactions.reduce((sum, t) => sum + t.total, 0),
+    expenseTotal,
+    cashIn,
+    cashOut,
+    payouts,
+    expectedCash: roundMoney(session.openingFloat + cashPayments + cashIn - cashOut - payouts - expenseTotal),
+    transactionCount: sessionTransactions.filter(isSaleTransaction).length,
+  };
+}
+
+// Print an end-of-shift Z-report for a closed session
+export function printZReport(session: RegisterSession, restaurantName: string) {
+  const row = (label: string, value: string | number) => `
+    <div style="display: flex; justify-content: space-between;">
+      <span>${label}</span>
+      <span>${value}</span>
+    </div>
+  `;
+  const counts = Object.entries(session.denominations || {})
+    .filter(([, count]) => count > 0)
+    .sort(([a], [b]) => Number(b) - Number(a));
+
+  const printContent = `
+    <div style="font-family: monospace; width: 300px; padding: 10px;">
+      <div style="text-align: center; border-bottom: 1px dashed black; padding-bottom: 10px; margin-bottom: 10px;">
+        <h2 style="margin: 0;">${restaurantName.toUpperCase()}</h2>
+        <div style="font-weight: bold;">Z-REPORT</div>
+        <div>Opened: ${formatBsDateTime(session.openedAt)} (${session.openedBy || '-'})</div>
+        <div>Closed: ${session.closedAt ? formatBsDateTime(session.closedAt) : '-'} (${session.closedBy || '-'})</div>
+      </div>
+      ${row('Transactions', session.transactionCount ?? 0)}
+      ${row('Cash sales', session.cashPayments ?? 0)}
+      ${row('Fonepay sales', session.fonepayPayments ?? 0)}
+      ${session.esewaPayments ? row('eSewa sales', session.esewaPayments) : ''}
+      ${session.khaltiPayments ? row('Khalti sales', session.khaltiPayments) : ''}
+      <div style="border-top: 1px dashed black; margin: 8px 0;"></div>
+      ${row('Opening float', session.openingFloat)}
+      ${row('Cash in', getMovementTotal(session.movements, 'cash_in'))}
+      ${row('Cash out', -getMovementTotal(session.movements, 'cash_out'))}
+      ${row('Payouts', -getMovementTotal(session.movements, 'payout'))}
+      ${row('Expenses', -(session.expenseTotal ?? 0))}
+      <div style="border-top: 1px dashed black; margin: 8px 0;"></div>
+      ${counts.map(([note, count]) => row(`${note} x ${count}`, Number(note) * count)).join('')}
+      <div style="border-top: 1px dashed black; margin: 8px 0;"></div>
+      ${row('Expected cash', session.expectedCash ?? 0)}
+      ${row('Counted cash', session.countedCash ?? 0)}
+      <div style="display: flex; justify-content: space-between; font-weight: bold; font-size: 1.2rem; margin-top: 10px;">
+        <span>VARIANCE</span>
+        <span>${(session.variance ?? 0) > 0 ? '+' : ''}${session.variance ?? 0}</span>
+      </div>
+    </div>
+  `;
+
+  const printWindow = window.open('', '_blank', 'width=400,height=600');
+  if (printWindow) {
+    printWindow.document.write(printContent);
+    printWindow.document.close();
+    printWindow.print();
+    printWindow.close();
+  }
+}
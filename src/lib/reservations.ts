@@ -0,0 +1,176 @@
+// Reservations and the walk-in waitlist: which tables fit a party, which are held
+// for a booking, and roughly how long walk-ins will wait for a table
+import { Bill, DiningTable, Order, Reservation, ReservationStatus, Settings } from '@/types';
+import { getOpenTableOrders, getTableStatus } from '@/lib/tables';
+
+export const reservationStatusLabels: Record<ReservationStatus, string> = {
+  booked: 'Booked',
+  waiting: 'Waiting',
+  seated: 'Seated',
+  no_show: 'No-show',
+  cancelled: 'Cancelled',
+};
+
+export const LATE_AFTER_MINUTES = 15; // A booking this late can be marked as a no-show
+const CLEARING_MINUTES = 5; // Soonest a table in use (or being cleaned) is expected back
+
+const MINUTE_MS = 60 * 1000;
+
+export const getReservationMinutes = (settings: Settings) => settings.reservationMinutes || 90;
+export const getHoldMinutes = (settings: Settings) => settings.reservationHoldMinutes ?? 30;
+
+export function isLate(reservation: Reservation, now = new Date()): boolean {
+  return reservation.status === 'booked' &&
+    now.getTime() > new Date(reservation.time).getTime() + LATE_AFTER_MINUTES * MINUTE_MS;
+}
+
+export function getNoShowCount(phone: string, reservations: Reservation[]): number {
+  if (!phone) return 0;
+  return reservations.filter(r => r.phone === phone && r.status === 'no_show').length;
+}
+
+// Bookings still to arrive, soonest first
+export function getUpcomingReservations(reservations: Reservation[]): Reservation[] {
+  return reservations
+    .filter(r => r.status === 'booked')
+    .sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+}
+
+// Walk-ins in the order they joined
+export function getWaitlist(reservations: Reservation[]): Reservation[] {
+  return reservations
+    .filter(r => r.status === 'waiting')
+    .sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+}
+
+/**
+ * The reservation a table is showing right now: a booking inside its hold
+ * window, or a party seated from the book or waitlist that hasn't paid yet
+ * (they may not have ordered anything so far).
+ */
+export function getTableReservation(
+  tableNumber: number,
+  reservations: Reservation[],
+  bills: Bill[],
+  settings: Settings,
+  now = new Date(),
+): Reservation | undefined {
+  const duration = getReservationMinutes(settings) * MINUTE_MS;
+  return reservations.find(r => {
+    if (r.tableNumber !== tableNumber) return false;
+    if (r.status === 'booked') {
+      const start = new Date(r.time).getTime();
+      return now.getTime() >= start - getHoldMinutes(settings) * MINUTE_MS && now.getTime() < start + duration;
+    }
+    if (r.status === 'seated' && r.seatedAt) {
+      const seatedAt = new Date(r.seatedAt).getTime();
+      return now.getTime() < seatedAt + duration && !bills.some(b =>
+        b.tableNumber === tableNumber && b.status === 'paid' && b.paidAt && new Date(b.paidAt).getTime() > seatedAt
+      );
+    }
+    return false;
+  });
+}
+
+// Other bookings on the table close enough in time to clash with this one
+export function getTableConflicts(
+  tableNumber: number,
+  time: string,
+  reservations: Reservation[],
+  settings: Settings,
+  excludeId?: string,
+): Reservation[] {
+  const duration = getReservationMinutes(settings) * MINUTE_MS;
+  const start = new Date(time).getTime();
+  return reservations.filter(r =>
+    r.id !== excludeId && r.status === 'booked' && r.tableNumber === tableNumber &&
+    Math.abs(new Date(r.time).getTime() - start) < duration
+  );
+}
+
+// Tables that seat the party and are free of other bookings then, snuggest fit first
+export function getFittingTables(
+  partySize: number,
+  time: string,
+  tables: DiningTable[],
+  reservations: Reservation[],
+  settings: Settings,
+  excludeId?: string,
+): DiningTable[] {
+  return tables
+    .filter(t => t.capacity >= partySize && getTableConflicts(t.number, time, reservations, settings, excludeId).length === 0)
+    .sort((a, b) => a.capacity - b.capacity || a.number - b.number);
+}
+
+export interface WaitEstimate {
+  minutes: number | null; // null when no table seats the party
+  tableNumber?: number; // The table expected to free up for them
+}
+
+/**
+ * Walks the waitlist in order, giving each party the fitting table expected to
+ * free up first. A table in use frees up a sitting after its first open order
+ * (or after the party was seated); bookings keep their table for a sitting.
+ */
+export function estimateWaitlist(
+  tables: DiningTable[],
+  orders: Order[],
+  bills: Bill[],
+  reservations: Reservation[],
+  settings: Settings,
+  now = new Date(),
+): Map<string, WaitEstimate> {
+  const duration = getReservationMinutes(settings) * MINUTE_MS;
+  const soonest = now.getTime() + CLEARING_MINUTES * MINUTE_MS;
+  const bookings = getUpcomingReservations(reservations);
+
+  // Push a free time past any booking that would start before the next sitting ends
+  const clearOfBookings = (tableNumber: number, from: number) => bookings
+    .filter(r => r.tableNumber === tableNumber)
+    .reduce((freeAt, r) => {
+      const start = new Date(r.time).getTime();
+      return start + duration > freeAt && start < freeAt + duration ? Math.max(freeAt, start + duration) : freeAt;
+    }, from);
+
+  const freeAt = new Map<number, number>();
+  tables.forEach(table => {
+    const reservation = getTableReservation(table.number, reservations, bills, settings, now);
+    const status = getTableStatus(table, orders, bills, reservation);
+    let from = now.getTime();
+    if (status === 'cleaning') from = soonest;
+    if (status === 'occupied' || status === 'bill_requested') {
+      const since = [
+        ...getOpenTableOrders(table.number, orders, bills).map(o => new Date(o.createdAt).getTime()),
+        ...(reservation?.status === 'seated' && reservation.seatedAt ? [new Date(reservation.seatedAt).getTime()] : []),
+      ];
+      from = Math.max(soonest, (since.length > 0 ? Math.min(...since) : now.getTime()) + duration);
+    }
+    freeAt.set(table.number, clearOfBookings(table.number, from));
+  });
+
+  const estimates = new Map<string, WaitEstimate>();
+  getWaitlist(reservations).forEach(entry => {
+    const candidates = tables.filter(t =>
+      t.capacity >= entry.partySize && (entry.tableNumber === undefined || t.number === entry.tableNumber)
+    );
+    if (candidates.length === 0) {
+      estimates.set(entry.id, { minutes: null });
+      return;
+    }
+    const best = candidates.reduce((a, b) => (freeAt.get(b.number)! < freeAt.get(a.number)! ? b : a));
+    const at = freeAt.get(best.number)!;
+    estimates.set(entry.id, {
+      minutes: Math.max(0, Math.ceil((at - now.getTime()) / MINUTE_MS)),
+      tableNumber: best.number,
+    });
+    freeAt.set(best.number, clearOfBookings(best.number, at + duration));
+  });
+  return estimates;
+}
+
+export function formatWaitEstimate(estimate: WaitEstimate | undefined): string {
+  if (!estimate || estimate.minutes === null) return 'No table big enough';
+  if (estimate.minutes === 0) return 'Table free now';
+  if (estimate.minutes < 60) return `~${estimate.minutes} min`;
+  return `~${Math.floor(estimate.minutes / 60)}h ${estimate.minutes % 60}m`;
+}
@@ -0,0 +1,46 @@
+// Kitchen station routing - each category is prepared at a named station
+import { Category, MenuItem, Order, OrderItem, Settings } from '@/types';
+
+export const DEFAULT_STATION = 'Kitchen';
+
+export function getStationSlug(station: string): string {
+  return station.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+export function getStations(settings: Settings, categories: Category[] = []): string[] {
+  const names = [
+    DEFAULT_STATION,
+    ...(settings.kitchenStations || []),
+    ...categories.map(c => c.station).filter(Boolean),
+  ];
+  // De-duplicate by slug, keeping the first spelling
+  const seen = new Set<string>();
+  return names.filter(name => {
+    const slug = getStationSlug(name);
+    if (!slug || seen.has(slug)) return false;
+    seen.add(slug);
+    return true;
+  });
+}
+
+export function findStationBySlug(slug: string, stations: string[]): string | null {
+  return stations.find(s => getStationSlug(s) === slug) || null;
+}
+
+// Station for a menu item, looked up through its category
+export function getMenuItemStation(menuItem: MenuItem | undefined, categories: Category[]): string {
+  const category = categories.find(c => c.name === menuItem?.category);
+  return category?.station || DEFAULT_STATION;
+}
+
+export function getItemStation(item: OrderItem): string {
+  return item.station || DEFAULT_STATION;
+}
+
+export function isStationItem(item: OrderItem, station: string): boolean {
+  return getStationSlug(getItemStation(item)) === getStationSlug(station);
+}
+
+export function getStationItems(order: Order, station: string): OrderItem[] {
+  return order.items.filter(item => isStationItem(item, station));
+}
@@ -3,11 +3,25 @@ import { createClient, SupabaseClient } from '@supabase/supabase-js';
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL as string;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
 
+// Staff session token saved by the store on login
+export const STAFF_SESSION_KEY = 'sajilo_session';
+
+// RLS policies read the staff claim from this header; customers never send it
+const fetchWithStaffToken: typeof fetch = (input, init) => {
+  const token = localStorage.getItem(STAFF_SESSION_KEY);
+  if (!token) return fetch(input, init);
+  const headers = new Headers(init?.headers);
+  headers.set('x-staff-token', token);
+  return fetch(input, { ...init, headers });
+};
+
 // Create a placeholder client that will fail gracefully if credentials are missing
 let supabaseInstance: SupabaseClient;
 
 if (supabaseUrl && supabaseAnonKey) {
-  supabaseInstance = createClient(supabaseUrl, supabaseAnonKey);
+  supabaseInstance = createClient(supabaseUrl, supabaseAnonKey, {
+    global: { fetch: fetchWithStaffToken },
+  });
 } else {
   console.warn('Supabase credentials not configured. Some features will not work.');
   // Create a mock client for development - will show errors but won't crash
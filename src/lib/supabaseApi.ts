@@ -1,5 +1,26 @@
 // Supabase API Client with camelCase <-> snake_case mapping
 import { supabase } from './supabase';
+import type { AccountPayment, AccountPaymentMethod, AuditAction, AuditEntry, CashMovement, CustomerLoyalty, DiningTable, GatewayMethod, GoodsReceipt, GoodsReceiptLine, Ingredient, LoyaltyEntryType, Permission, PurchaseOrder, PurchaseOrderLine, PaymentGateway, Promotion, PromotionComboItem, PromotionType, PurchaseOrderStatus, RegisterSession, Reservation, ReservationStatus, Role, Staff, StaffSession, StockMovement, StockMovementType, Supplier, SupplierPayment, SupplierPaymentMethod, Transaction } from '@/types';
+
+// Optimistic concurrency: updates carrying the row version this device last saw match
+// no row once another device has changed it, and the database rejects order status
+// moves that go backwards with the same code. Either way the newer change wins
+export const STALE_WRITE_CODE = 'SW409';
+
+// An update to a row another device created offline and hasn't sent yet; it can
+// go through once that device catches up (see the LAN hub), so it isn't stale
+export const MISSING_ROW_CODE = 'SW404';
+
+const staleWriteError = (what: string) =>
+  Object.assign(new Error(`This ${what} was changed on another device`), { code: STALE_WRITE_CODE });
+
+// An update that matched no row: stale if the row is there, otherwise not on the server yet
+const unmatchedUpdateError = async (table: string, what: string, id: string) => {
+  const { data } = await supabase.from(table).select('id').eq('id', id).maybeSingle();
+  return data
+    ? staleWriteError(what)
+    : Object.assign(new Error(`This ${what} is not on the server yet`), { code: MISSING_ROW_CODE });
+};
 
 // ===========================================
 // FIELD MAPPERS
@@ -11,6 +32,7 @@ const mapCategoryFromDb = (row: any) => ({
   name: row.name,
   sortOrder: row.sort_order ?? 0,
   prepTime: row.prep_time ?? 5,
+  station: row.station ?? '',
 });
 
 const mapCategoryToDb = (cat: any) => ({
@@ -18,6 +40,7 @@ const mapCategoryToDb = (cat: any) => ({
   name: cat.name,
   sort_order: cat.sortOrder ?? 0,
   prep_time: cat.prepTime ?? 5,
+  station: cat.station ?? '',
 });
 
 // Menu Items
@@ -29,6 +52,9 @@ const mapMenuItemFromDb = (row: any) => ({
   available: row.available ?? true,
   description: row.description ?? '',
   image: row.image ?? '',
+  modifierGroups: row.modifier_groups ?? [],
+  taxable: row.taxable ?? true,
+  recipe: row.recipe ?? [],
 });
 
 const mapMenuItemToDb = (item: any) => ({
@@ -39,6 +65,9 @@ const mapMenuItemToDb = (item: any) => ({
   available: item.available ?? true,
   description: item.description ?? '',
   image: item.image ?? '',
+  modifier_groups: item.modifierGroups ?? [],
+  taxable: item.taxable ?? true,
+  recipe: item.recipe ?? [],
 });
 
 // Orders
@@ -50,8 +79,12 @@ const mapOrderFromDb = (row: any) => ({
   status: row.status ?? 'pending',
   total: Number(row.total),
   notes: row.notes ?? '',
+  orderType: row.order_type ?? 'dine_in',
+  delivery: row.delivery ?? undefined,
+  scheduledFor: row.scheduled_for ?? undefined,
   createdAt: row.created_at,
   updatedAt: row.updated_at ?? row.created_at,
+  version: row.version ?? 1,
 });
 
 const mapOrderToDb = (order: any) => ({
@@ -62,6 +95,9 @@ const mapOrderToDb = (order: any) => ({
   status: order.status ?? 'pending',
   total: order.total,
   notes: order.notes ?? '',
+  order_type: order.orderType ?? 'dine_in',
+  delivery: order.delivery ?? null,
+  scheduled_for: order.scheduledFor ?? null,
   created_at: order.createdAt,
   updated_at: order.updatedAt ?? order.createdAt,
 });
@@ -74,11 +110,24 @@ const mapBillFromDb = (row: any) => ({
   customerPhones: row.customer_phones ?? [],
   subtotal: Number(row.subtotal),
   discount: Number(row.discount ?? 0),
+  pointsRedeemed: row.points_redeemed ?? 0,
+  promotions: row.promotions ?? [],
   total: Number(row.total),
   status: row.status ?? 'unpaid',
   paymentMethod: row.payment_method,
+  payments: row.payments ?? [],
   paidAt: row.paid_at,
   createdAt: row.created_at,
+  version: row.version ?? 1,
+  splitGroupId: row.split_group_id ?? undefined,
+  splitLabel: row.split_label ?? undefined,
+  items: row.items ?? undefined,
+  itemShare: row.item_share != null ? Number(row.item_share) : undefined,
+  serviceCharge: row.service_charge != null ? Number(row.service_charge) : undefined,
+  deliveryFee: row.delivery_fee != null ? Number(row.delivery_fee) : undefined,
+  taxableAmount: row.taxable_amount != null ? Number(row.taxable_amount) : undefined,
+  nonTaxableAmount: row.non_taxable_amount != null ? Number(row.non_taxable_amount) : undefined,
+  vat: row.vat != null ? Number(row.vat) : undefined,
 });
 
 const mapBillToDb = (bill: any) => ({
@@ -88,11 +137,23 @@ const mapBillToDb = (bill: any) => ({
   customer_phones: bill.customerPhones ?? [],
   subtotal: bill.subtotal,
   discount: bill.discount ?? 0,
+  points_redeemed: bill.pointsRedeemed ?? 0,
+  promotions: bill.promotions ?? [],
   total: bill.total,
   status: bill.status ?? 'unpaid',
   payment_method: bill.paymentMethod,
+  payments: bill.payments ?? [],
   paid_at: bill.paidAt,
   created_at: bill.createdAt,
+  split_group_id: bill.splitGroupId ?? null,
+  split_label: bill.splitLabel ?? null,
+  items: bill.items ?? null,
+  item_share: bill.itemShare ?? null,
+  service_charge: bill.serviceCharge ?? null,
+  delivery_fee: bill.deliveryFee ?? null,
+  taxable_amount: bill.taxableAmount ?? null,
+  non_taxable_amount: bill.nonTaxableAmount ?? null,
+  vat: bill.vat ?? null,
 });
 
 // Transactions
@@ -103,9 +164,27 @@ const mapTransactionFromDb = (row: any) => ({
   customerPhones: row.customer_phones ?? [],
   total: Number(row.total),
   discount: Number(row.discount ?? 0),
+  pointsRedeemed: row.points_redeemed ?? 0,
+  promotions: row.promotions ?? [],
   paymentMethod: row.payment_method,
+  payments: row.payments ?? [],
   paidAt: row.paid_at,
   items: row.items ?? [],
+  splitGroupId: row.split_group_id ?? undefined,
+  splitLabel: row.split_label ?? undefined,
+  itemShare: row.item_share != null ? Number(row.item_share) : undefined,
+  kind: row.kind ?? 'sale',
+  refundOf: row.refund_of ?? undefined,
+  reason: row.reason ?? undefined,
+  approvedBy: row.approved_by ?? undefined,
+  orderType: row.order_type ?? 'dine_in',
+  serviceCharge: row.service_charge != null ? Number(row.service_charge) : undefined,
+  deliveryFee: row.delivery_fee != null ? Number(row.delivery_fee) : undefined,
+  taxableAmount: row.taxable_amount != null ? Number(row.taxable_amount) : undefined,
+  nonTaxableAmount: row.non_taxable_amount != null ? Number(row.non_taxable_amount) : undefined,
+  vat: row.vat != null ? Number(row.vat) : undefined,
+  fiscalYear: row.fiscal_year ?? undefined,
+  invoiceNumber: row.invoice_number ?? undefined,
 });
 
 const mapTransactionToDb = (tx: any) => ({
@@ -115,9 +194,22 @@ const mapTransactionToDb = (tx: any) => ({
   customer_phones: tx.customerPhones ?? [],
   total: tx.total,
   discount: tx.discount ?? 0,
+  points_redeemed: tx.pointsRedeemed ?? 0,
+  promotions: tx.promotions ?? [],
   payment_method: tx.paymentMethod,
+  payments: tx.payments ?? [],
   paid_at: tx.paidAt,
   items: tx.items ?? [],
+  split_group_id: tx.splitGroupId ?? null,
+  split_label: tx.splitLabel ?? null,
+  item_share: tx.itemShare ?? null,
+  order_type: tx.orderType ?? 'dine_in',
+  service_charge: tx.serviceCharge ?? null,
+  delivery_fee: tx.deliveryFee ?? null,
+  taxable_amount: tx.taxableAmount ?? null,
+  non_taxable_amount: tx.nonTaxableAmount ?? null,
+  vat: tx.vat ?? null,
+  fiscal_year: tx.fiscalYear ?? null,
 });
 
 // Customers
@@ -127,37 +219,68 @@ const mapCustomerFromDb = (row: any) => ({
   totalOrders: row.total_orders ?? 0,
   totalSpent: Number(row.total_spent ?? 0),
   points: row.points ?? 0,
+  creditLimit: row.credit_limit != null ? Number(row.credit_limit) : undefined,
   lastVisit: row.last_visit,
 });
 
-const mapCustomerToDb = (cust: any) => ({
-  phone: cust.phone,
-  name: cust.name ?? '',
-  total_orders: cust.totalOrders ?? 0,
-  total_spent: cust.totalSpent ?? 0,
-  points: cust.points ?? 0,
-  last_visit: cust.lastVisit,
-});
+// Staff - rows come from the staff_* functions, which never return hashes
+interface StaffRow {
+  id: string;
+  username: string;
+  role: string | null;
+  name: string | null;
+  has_pin: boolean | null;
+  permissions?: Permission[] | null;
+  created_at: string;
+}
 
-// Staff
-const mapStaffFromDb = (row: any) => ({
+const mapStaffFromDb = (row: StaffRow): Staff => ({
   id: row.id,
   username: row.username,
-  password: row.password,
-  pin: row.pin ?? '',
-  role: row.role ?? 'counter',
+  role: row.role ?? 'cashier',
   name: row.name ?? '',
+  hasPin: row.has_pin ?? false,
+  ...(row.permissions && { permissions: row.permissions }),
   createdAt: row.created_at,
 });
 
-const mapStaffToDb = (s: any) => ({
-  id: s.id,
-  username: s.username,
-  password: s.password,
-  pin: s.pin ?? '',
-  role: s.role ?? 'counter',
-  name: s.name ?? '',
-  created_at: s.createdAt,
+// NULL password/PIN tells staff_save to keep the stored hash
+const mapStaffToRpc = (token: string, s: Staff) => ({
+  p_token: token,
+  p_id: s.id,
+  p_username: s.username,
+  p_password: s.password || null,
+  p_pin: s.pin ?? null,
+  p_role: s.role ?? 'cashier',
+  p_name: s.name ?? '',
+});
+
+// Roles
+interface RoleRow {
+  id: string;
+  name: string;
+  permissions: Permission[] | null;
+  built_in: boolean | null;
+}
+
+const mapRoleFromDb = (row: RoleRow): Role => ({
+  id: row.id,
+  name: row.name,
+  permissions: row.permissions ?? [],
+  builtIn: row.built_in ?? false,
+});
+
+const mapRoleToDb = (role: Role) => ({
+  id: role.id,
+  name: role.name,
+  permissions: role.permissions,
+  built_in: role.builtIn,
+});
+
+const mapStaffSessionFromDb = (row: StaffRow & { token?: string; expires_at: string }, token: string): StaffSession => ({
+  token: row.token ?? token,
+  expiresAt: row.expires_at,
+  user: mapStaffFromDb(row),
 });
 
 // Settings
@@ -165,7 +288,6 @@ const mapSettingsFromDb = (row: any) => {
   if (!row) return {};
   return {
     restaurantName: row.restaurant_name ?? 'Chiyadani',
-    tableCount: row.table_count ?? 10,
     wifiSSID: row.wifi_ssid ?? '',
     wifiPassword: row.wifi_password ?? '',
     baseUrl: row.base_url ?? '',
@@ -174,20 +296,36 @@ const mapSettingsFromDb = (row: any) => {
     facebookUrl: row.facebook_url ?? '',
     tiktokUrl: row.tiktok_url ?? '',
     googleReviewUrl: row.google_review_url ?? '',
-    counterAsAdmin: row.counter_as_admin ?? false,
     kitchenHandles: row.kitchen_handles ?? 3,
+    kitchenStations: row.kitchen_stations ?? [],
+    preOrdersEnabled: row.pre_orders_enabled ?? false,
+    preOrderSlotMinutes: row.pre_order_slot_minutes ?? 15,
+    preOrderReleaseMinutes: row.pre_order_release_minutes ?? 20,
+    preOrderOpenTime: row.pre_order_open_time ?? '08:00',
+    preOrderCloseTime: row.pre_order_close_time ?? '20:00',
     pointSystemEnabled: row.point_system_enabled ?? false,
     pointsPerRupee: Number(row.points_per_rupee ?? 0.1),
     pointValueInRupees: Number(row.point_value_in_rupees ?? 1),
     maxDiscountRupees: Number(row.max_discount_rupees ?? 500),
     maxDiscountPoints: row.max_discount_points ?? 500,
+    pointsExpiryMonths: row.points_expiry_months ?? 0,
+    loyaltyTiers: row.loyalty_tiers ?? [],
+    loyaltyEarnRules: row.loyalty_earn_rules ?? [],
+    serviceChargeEnabled: row.service_charge_enabled ?? false,
+    serviceChargeRate: Number(row.service_charge_rate ?? 10),
+    vatEnabled: row.vat_enabled ?? false,
+    vatRate: Number(row.vat_rate ?? 13),
+    panNumber: row.pan_number ?? '',
+    deliveryFee: Number(row.delivery_fee ?? 0),
+    deliveryRiders: row.delivery_riders ?? [],
+    reservationMinutes: row.reservation_minutes ?? 90,
+    reservationHoldMinutes: row.reservation_hold_minutes ?? 30,
   };
 };
 
 const mapSettingsToDb = (s: any) => {
   const db: Record<string, any> = {};
   if (s.restaurantName !== undefined) db.restaurant_name = s.restaurantName;
-  if (s.tableCount !== undefined) db.table_count = s.tableCount;
   if (s.wifiSSID !== undefined) db.wifi_ssid = s.wifiSSID;
   if (s.wifiPassword !== undefined) db.wifi_password = s.wifiPassword;
   if (s.baseUrl !== undefined) db.base_url = s.baseUrl;
@@ -196,13 +334,30 @@ const mapSettingsToDb = (s: any) => {
   if (s.facebookUrl !== undefined) db.facebook_url = s.facebookUrl;
   if (s.tiktokUrl !== undefined) db.tiktok_url = s.tiktokUrl;
   if (s.googleReviewUrl !== undefined) db.google_review_url = s.googleReviewUrl;
-  if (s.counterAsAdmin !== undefined) db.counter_as_admin = s.counterAsAdmin;
   if (s.kitchenHandles !== undefined) db.kitchen_handles = s.kitchenHandles;
+  if (s.kitchenStations !== undefined) db.kitchen_stations = s.kitchenStations;
+  if (s.preOrdersEnabled !== undefined) db.pre_orders_enabled = s.preOrdersEnabled;
+  if (s.preOrderSlotMinutes !== undefined) db.pre_order_slot_minutes = s.preOrderSlotMinutes;
+  if (s.preOrderReleaseMinutes !== undefined) db.pre_order_release_minutes = s.preOrderReleaseMinutes;
+  if (s.preOrderOpenTime !== undefined) db.pre_order_open_time = s.preOrderOpenTime;
+  if (s.preOrderCloseTime !== undefined) db.pre_order_close_time = s.preOrderCloseTime;
   if (s.pointSystemEnabled !== undefined) db.point_system_enabled = s.pointSystemEnabled;
   if (s.pointsPerRupee !== undefined) db.points_per_rupee = s.pointsPerRupee;
   if (s.pointValueInRupees !== undefined) db.point_value_in_rupees = s.pointValueInRupees;
   if (s.maxDiscountRupees !== undefined) db.max_discount_rupees = s.maxDiscountRupees;
   if (s.maxDiscountPoints !== undefined) db.max_discount_points = s.maxDiscountPoints;
+  if (s.pointsExpiryMonths !== undefined) db.points_expiry_months = s.pointsExpiryMonths;
+  if (s.loyaltyTiers !== undefined) db.loyalty_tiers = s.loyaltyTiers;
+  if (s.loyaltyEarnRules !== undefined) db.loyalty_earn_rules = s.loyaltyEarnRules;
+  if (s.serviceChargeEnabled !== undefined) db.service_charge_enabled = s.serviceChargeEnabled;
+  if (s.serviceChargeRate !== undefined) db.service_charge_rate = s.serviceChargeRate;
+  if (s.vatEnabled !== undefined) db.vat_enabled = s.vatEnabled;
+  if (s.vatRate !== undefined) db.vat_rate = s.vatRate;
+  if (s.panNumber !== undefined) db.pan_number = s.panNumber;
+  if (s.deliveryFee !== undefined) db.delivery_fee = s.deliveryFee;
+  if (s.deliveryRiders !== undefined) db.delivery_riders = s.deliveryRiders;
+  if (s.reservationMinutes !== undefined) db.reservation_minutes = s.reservationMinutes;
+  if (s.reservationHoldMinutes !== undefined) db.reservation_hold_minutes = s.reservationHoldMinutes;
   db.updated_at = new Date().toISOString();
   return db;
 };
@@ -215,6 +370,8 @@ const mapExpenseFromDb = (row: any) => ({
   category: row.category,
   createdBy: row.created_by ?? '',
   createdAt: row.created_at,
+  supplierId: row.supplier_id ?? undefined,
+  goodsReceiptId: row.goods_receipt_id ?? undefined,
 });
 
 const mapExpenseToDb = (e: any) => ({
@@ -224,6 +381,483 @@ const mapExpenseToDb = (e: any) => ({
   category: e.category,
   created_by: e.createdBy ?? '',
   created_at: e.createdAt,
+  supplier_id: e.supplierId ?? null,
+  goods_receipt_id: e.goodsReceiptId ?? null,
+});
+
+// Ingredients - stock is only changed through stock movements
+interface IngredientRow {
+  id: string;
+  name: string;
+  unit: string | null;
+  stock: number | string | null;
+  low_stock_level: number | string | null;
+  cost_per_unit: number | string | null;
+  created_at: string;
+}
+
+const mapIngredientFromDb = (row: IngredientRow): Ingredient => ({
+  id: row.id,
+  name: row.name,
+  unit: row.unit ?? 'pcs',
+  stock: Number(row.stock ?? 0),
+  lowStockLevel: Number(row.low_stock_level ?? 0),
+  costPerUnit: Number(row.cost_per_unit ?? 0),
+  createdAt: row.created_at,
+});
+
+const mapIngredientToDb = (i: Omit<Ingredient, 'stock'>) => ({
+  id: i.id,
+  name: i.name,
+  unit: i.unit,
+  low_stock_level: i.lowStockLevel,
+  cost_per_unit: i.costPerUnit,
+  created_at: i.createdAt,
+});
+
+// Stock Movements
+interface StockMovementRow {
+  id: string;
+  ingredient_id: string;
+  type: StockMovementType;
+  quantity: number | string;
+  reference: string | null;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+const mapStockMovementFromDb = (row: StockMovementRow): StockMovement => ({
+  id: row.id,
+  ingredientId: row.ingredient_id,
+  type: row.type,
+  quantity: Number(row.quantity),
+  reference: row.reference ?? undefined,
+  note: row.note ?? undefined,
+  createdBy: row.created_by ?? '',
+  createdAt: row.created_at,
+});
+
+const mapStockMovementToDb = (m: StockMovement) => ({
+  id: m.id,
+  ingredient_id: m.ingredientId,
+  type: m.type,
+  quantity: m.quantity,
+  reference: m.reference ?? null,
+  note: m.note ?? '',
+  created_by: m.createdBy,
+  created_at: m.createdAt,
+});
+
+// Dining Tables
+interface DiningTableRow {
+  number: number;
+  name: string | null;
+  area: string | null;
+  capacity: number | null;
+  pos_x: number | string | null;
+  pos_y: number | string | null;
+  service_status: DiningTable['serviceStatus'] | null;
+}
+
+const mapDiningTableFromDb = (row: DiningTableRow): DiningTable => ({
+  number: row.number,
+  name: row.name ?? '',
+  area: row.area ?? 'Indoor',
+  capacity: row.capacity ?? 4,
+  x: Number(row.pos_x ?? 0),
+  y: Number(row.pos_y ?? 0),
+  serviceStatus: row.service_status ?? undefined,
+});
+
+// Service status is left out; it changes through set_table_service_status
+const mapDiningTableToDb = (t: DiningTable) => ({
+  number: t.number,
+  name: t.name,
+  area: t.area,
+  capacity: t.capacity,
+  pos_x: t.x,
+  pos_y: t.y,
+});
+
+// Reservations
+interface ReservationRow {
+  id: string;
+  name: string | null;
+  phone: string | null;
+  party_size: number;
+  time: string;
+  walk_in: boolean | null;
+  table_number: number | null;
+  status: ReservationStatus;
+  notes: string | null;
+  seated_at: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+const mapReservationFromDb = (row: ReservationRow): Reservation => ({
+  id: row.id,
+  name: row.name ?? '',
+  phone: row.phone ?? '',
+  partySize: row.party_size,
+  time: row.time,
+  walkIn: row.walk_in ?? false,
+  tableNumber: row.table_number ?? undefined,
+  status: row.status,
+  notes: row.notes ?? '',
+  seatedAt: row.seated_at ?? undefined,
+  createdBy: row.created_by ?? '',
+  createdAt: row.created_at,
+});
+
+const mapReservationToDb = (r: Reservation) => ({
+  id: r.id,
+  name: r.name,
+  phone: r.phone,
+  party_size: r.partySize,
+  time: r.time,
+  walk_in: r.walkIn,
+  table_number: r.tableNumber ?? null,
+  status: r.status,
+  notes: r.notes ?? '',
+  seated_at: r.seatedAt ?? null,
+  created_by: r.createdBy,
+  created_at: r.createdAt,
+});
+
+// Suppliers
+interface SupplierRow {
+  id: string;
+  name: string;
+  phone: string | null;
+  contact_person: string | null;
+  notes: string | null;
+  created_at: string;
+}
+
+const mapSupplierFromDb = (row: SupplierRow): Supplier => ({
+  id: row.id,
+  name: row.name,
+  phone: row.phone ?? '',
+  contactPerson: row.contact_person ?? undefined,
+  notes: row.notes ?? undefined,
+  createdAt: row.created_at,
+});
+
+const mapSupplierToDb = (s: Supplier) => ({
+  id: s.id,
+  name: s.name,
+  phone: s.phone,
+  contact_person: s.contactPerson ?? '',
+  notes: s.notes ?? '',
+  created_at: s.createdAt,
+});
+
+// Promotions - uses are counted by the database from paid bills
+interface PromotionRow {
+  id: string;
+  name: string;
+  type: PromotionType;
+  active: boolean | null;
+  code: string | null;
+  max_uses: number | null;
+  uses: number | null;
+  starts_on: string | null;
+  ends_on: string | null;
+  days: number[] | null;
+  start_time: string | null;
+  end_time: string | null;
+  categories: string[] | null;
+  menu_item_ids: string[] | null;
+  percent_off: number | string | null;
+  amount_off: number | string | null;
+  min_subtotal: number | string | null;
+  combo_items: PromotionComboItem[] | null;
+  bundle_price: number | string | null;
+  buy_qty: number | null;
+  get_qty: number | null;
+  created_at: string;
+}
+
+const optionalNumber = (value: number | string | null) => (value != null ? Number(value) : undefined);
+
+const mapPromotionFromDb = (row: PromotionRow): Promotion => ({
+  id: row.id,
+  name: row.name,
+  type: row.type,
+  active: row.active ?? true,
+  code: row.code ?? undefined,
+  maxUses: row.max_uses ?? undefined,
+  uses: row.uses ?? 0,
+  startsOn: row.starts_on ?? undefined,
+  endsOn: row.ends_on ?? undefined,
+  days: row.days ?? [],
+  startTime: row.start_time ?? undefined,
+  endTime: row.end_time ?? undefined,
+  categories: row.categories ?? [],
+  menuItemIds: row.menu_item_ids ?? [],
+  percentOff: optionalNumber(row.percent_off),
+  amountOff: optionalNumber(row.amount_off),
+  minSubtotal: optionalNumber(row.min_subtotal),
+  comboItems: row.combo_items ?? [],
+  bundlePrice: optionalNumber(row.bundle_price),
+  buyQty: row.buy_qty ?? undefined,
+  getQty: row.get_qty ?? undefined,
+  createdAt: row.created_at,
+});
+
+const mapPromotionToDb = (p: Promotion) => ({
+  id: p.id,
+  name: p.name,
+  type: p.type,
+  active: p.active,
+  code: p.code || null,
+  max_uses: p.maxUses ?? null,
+  starts_on: p.startsOn || null,
+  ends_on: p.endsOn || null,
+  days: p.days ?? [],
+  start_time: p.startTime || null,
+  end_time: p.endTime || null,
+  categories: p.categories ?? [],
+  menu_item_ids: p.menuItemIds ?? [],
+  percent_off: p.percentOff ?? null,
+  amount_off: p.amountOff ?? null,
+  min_subtotal: p.minSubtotal ?? null,
+  combo_items: p.comboItems ?? [],
+  bundle_price: p.bundlePrice ?? null,
+  buy_qty: p.buyQty ?? null,
+  get_qty: p.getQty ?? null,
+  created_at: p.createdAt,
+});
+
+// Purchase Orders - received quantities are kept by the database
+interface PurchaseOrderRow {
+  id: string;
+  supplier_id: string;
+  status: PurchaseOrderStatus | null;
+  lines: PurchaseOrderLine[] | null;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+const mapPurchaseOrderFromDb = (row: PurchaseOrderRow): PurchaseOrder => ({
+  id: row.id,
+  supplierId: row.supplier_id,
+  status: row.status ?? 'open',
+  lines: row.lines ?? [],
+  note: row.note ?? undefined,
+  createdBy: row.created_by ?? '',
+  createdAt: row.created_at,
+});
+
+const mapPurchaseOrderToDb = (o: PurchaseOrder) => ({
+  id: o.id,
+  supplier_id: o.supplierId,
+  status: o.status,
+  lines: o.lines,
+  note: o.note ?? '',
+  created_by: o.createdBy,
+  created_at: o.createdAt,
+});
+
+// Goods Receipts
+interface GoodsReceiptRow {
+  id: string;
+  supplier_id: string;
+  purchase_order_id: string | null;
+  lines: GoodsReceiptLine[] | null;
+  total: number | string;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+const mapGoodsReceiptFromDb = (row: GoodsReceiptRow): GoodsReceipt => ({
+  id: row.id,
+  supplierId: row.supplier_id,
+  purchaseOrderId: row.purchase_order_id ?? undefined,
+  lines: row.lines ?? [],
+  total: Number(row.total),
+  note: row.note ?? undefined,
+  createdBy: row.created_by ?? '',
+  createdAt: row.created_at,
+});
+
+const mapGoodsReceiptToDb = (r: GoodsReceipt) => ({
+  id: r.id,
+  supplier_id: r.supplierId,
+  purchase_order_id: r.purchaseOrderId ?? null,
+  lines: r.lines,
+  total: r.total,
+  note: r.note ?? '',
+  created_by: r.createdBy,
+  created_at: r.createdAt,
+});
+
+// Supplier Payments
+interface SupplierPaymentRow {
+  id: string;
+  supplier_id: string;
+  amount: number | string;
+  method: SupplierPaymentMethod | null;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+const mapSupplierPaymentFromDb = (row: SupplierPaymentRow): SupplierPayment => ({
+  id: row.id,
+  supplierId: row.supplier_id,
+  amount: Number(row.amount),
+  method: row.method ?? 'cash',
+  note: row.note ?? undefined,
+  createdBy: row.created_by ?? '',
+  createdAt: row.created_at,
+});
+
+const mapSupplierPaymentToDb = (p: SupplierPayment) => ({
+  id: p.id,
+  supplier_id: p.supplierId,
+  amount: p.amount,
+  method: p.method,
+  note: p.note ?? '',
+  created_by: p.createdBy,
+  created_at: p.createdAt,
+});
+
+// Account Payments
+interface AccountPaymentRow {
+  id: string;
+  customer_phone: string;
+  amount: number | string;
+  method: AccountPaymentMethod | null;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+const mapAccountPaymentFromDb = (row: AccountPaymentRow): AccountPayment => ({
+  id: row.id,
+  customerPhone: row.customer_phone,
+  amount: Number(row.amount),
+  method: row.method ?? 'cash',
+  note: row.note ?? undefined,
+  createdBy: row.created_by ?? '',
+  createdAt: row.created_at,
+});
+
+const mapAccountPaymentToDb = (p: AccountPayment) => ({
+  id: p.id,
+  customer_phone: p.customerPhone,
+  amount: p.amount,
+  method: p.method,
+  note: p.note ?? '',
+  created_by: p.createdBy,
+  created_at: p.createdAt,
+});
+
+// Register Sessions
+interface RegisterSessionRow {
+  id: string;
+  status: RegisterSession['status'] | null;
+  opening_float: number | string | null;
+  opened_at: string;
+  opened_by: string | null;
+  movements: CashMovement[] | null;
+  closed_at: string | null;
+  closed_by: string | null;
+  denominations: Record<string, number> | null;
+  counted_cash: number | string | null;
+  expected_cash: number | string | null;
+  variance: number | string | null;
+  cash_payments: number | string | null;
+  fonepay_payments: number | string | null;
+  esewa_payments: number | string | null;
+  khalti_payments: number | string | null;
+  expense_total: number | string | null;
+  transaction_count: number | null;
+}
+
+const toOptionalNumber = (value: number | string | null) => (value === null ? undefined : Number(value));
+
+const mapRegisterSessionFromDb = (row: RegisterSessionRow): RegisterSession => ({
+  id: row.id,
+  status: row.status ?? 'open',
+  openingFloat: Number(row.opening_float ?? 0),
+  openedAt: row.opened_at,
+  openedBy: row.opened_by ?? '',
+  movements: row.movements ?? [],
+  closedAt: row.closed_at ?? undefined,
+  closedBy: row.closed_by ?? undefined,
+  denominations: row.denominations ?? undefined,
+  countedCash: toOptionalNumber(row.counted_cash),
+  expectedCash: toOptionalNumber(row.expected_cash),
+  variance: toOptionalNumber(row.variance),
+  cashPayments: toOptionalNumber(row.cash_payments),
+  fonepayPayments: toOptionalNumber(row.fonepay_payments),
+  esewaPayments: toOptionalNumber(row.esewa_payments),
+  khaltiPayments: toOptionalNumber(row.khalti_payments),
+  expenseTotal: toOptionalNumber(row.expense_total),
+  transactionCount: row.transaction_count ?? undefined,
+});
+
+const mapRegisterSessionToDb = (s: Partial<RegisterSession>) => {
+  const db: Record<string, unknown> = {};
+  if (s.id !== undefined) db.id = s.id;
+  if (s.status !== undefined) db.status = s.status;
+  if (s.openingFloat !== undefined) db.opening_float = s.openingFloat;
+  if (s.openedAt !== undefined) db.opened_at = s.openedAt;
+  if (s.openedBy !== undefined) db.opened_by = s.openedBy;
+  if (s.movements !== undefined) db.movements = s.movements;
+  if (s.closedAt !== undefined) db.closed_at = s.closedAt;
+  if (s.closedBy !== undefined) db.closed_by = s.closedBy;
+  if (s.denominations !== undefined) db.denominations = s.denominations;
+  if (s.countedCash !== undefined) db.counted_cash = s.countedCash;
+  if (s.expectedCash !== undefined) db.expected_cash = s.expectedCash;
+  if (s.variance !== undefined) db.variance = s.variance;
+  if (s.cashPayments !== undefined) db.cash_payments = s.cashPayments;
+  if (s.fonepayPayments !== undefined) db.fonepay_payments = s.fonepayPayments;
+  if (s.esewaPayments !== undefined) db.esewa_payments = s.esewaPayments;
+  if (s.khaltiPayments !== undefined) db.khalti_payments = s.khaltiPayments;
+  if (s.expenseTotal !== undefined) db.expense_total = s.expenseTotal;
+  if (s.transactionCount !== undefined) db.transaction_count = s.transactionCount;
+  return db;
+};
+
+// Audit Log - the database stamps actor and time on insert
+interface AuditLogRow {
+  id: number | string;
+  action: AuditAction;
+  entity_id: string | null;
+  actor_id: string | null;
+  actor_name: string | null;
+  before: unknown;
+  after: unknown;
+  created_at: string;
+}
+
+const mapAuditEntryFromDb = (row: AuditLogRow): AuditEntry => ({
+  id: String(row.id),
+  action: row.action,
+  entityId: row.entity_id ?? '',
+  actorId: row.actor_id ?? undefined,
+  actorName: row.actor_name ?? '',
+  before: row.before ?? undefined,
+  after: row.after ?? undefined,
+  createdAt: row.created_at,
+});
+
+// key: idempotency key, so a replayed entry is only written once
+type NewAuditEntry = Pick<AuditEntry, 'action' | 'entityId' | 'before' | 'after'> & { key: string };
+
+const mapAuditEntryToDb = (entry: NewAuditEntry) => ({
+  idempotency_key: entry.key,
+  action: entry.action,
+  entity_id: entry.entityId,
+  before: entry.before ?? null,
+  after: entry.after ?? null,
 });
 
 // Waiter Calls
@@ -329,28 +963,76 @@ export const ordersApi = {
     if (error) throw error;
     return (data || []).map(mapOrderFromDb);
   },
+  // Customers can't read orders; this is the queue without anyone's details
+  getQueue: async () => {
+    const { data, error } = await supabase.rpc('get_order_queue');
+    if (error) throw error;
+    return (data || []).map((row: Record<string, unknown>) => mapOrderFromDb({ ...row, table_number: 0, customer_phone: '', total: 0 }));
+  },
+  // The customer's own orders at the table they scanned, and their pre-orders
+  getForCustomer: async (tableNumber: number, customerPhone: string) => {
+    const { data, error } = await supabase.rpc('get_customer_orders', {
+      p_table_number: tableNumber,
+      p_customer_phone: customerPhone,
+    });
+    if (error) throw error;
+    return (data || []).map(mapOrderFromDb);
+  },
+  // No returned row: customers can insert orders but not read them back
   create: async (order: any) => {
-    const { data, error } = await supabase
+    const { error } = await supabase
       .from('orders')
-      .insert(mapOrderToDb(order))
-      .select()
-      .single();
+      .insert(mapOrderToDb(order));
     if (error) throw error;
-    return mapOrderFromDb(data);
+    return order;
   },
-  updateStatus: async (id: string, status: string) => {
-    const updateData: any = { status, updated_at: new Date().toISOString() };
-    const { data, error } = await supabase
-      .from('orders')
-      .update(updateData)
-      .eq('id', id)
-      .select()
-      .single();
+  // version: the order's version when this device changed it; omit to overwrite
+  updateStatus: async (id: string, status: string, version?: number) => {
+    return updateOrderProgress(id, status, null, version);
+  },
+  // Per-line kitchen progress; order status is derived from the lines by the caller
+  updateItems: async (id: string, items: unknown[], status: string, version?: number) => {
+    return updateOrderProgress(id, status, items, version);
+  },
+  updateDelivery: async (id: string, delivery: unknown, version?: number) => {
+    return updateOrder(id, { delivery }, version);
+  },
+  // Customers can't update orders directly; the function only cancels their own pending order
+  cancelByCustomer: async (id: string, customerPhone: string): Promise<boolean> => {
+    const { data, error } = await supabase.rpc('customer_cancel_order', {
+      p_order_id: id,
+      p_customer_phone: customerPhone,
+    });
     if (error) throw error;
-    return mapOrderFromDb(data);
+    return data === true;
   },
 };
 
+// The kitchen can't update orders directly; the function only changes status and item progress
+const updateOrderProgress = async (id: string, status: string, items: unknown[] | null, version?: number) => {
+  const { data, error } = await supabase.rpc('update_order_progress', {
+    p_id: id,
+    p_status: status,
+    p_items: items,
+    p_version: version ?? null,
+  });
+  if (error) throw error;
+  if (!data?.length) throw await unmatchedUpdateError('orders', 'order', id);
+  return mapOrderFromDb(data[0]);
+};
+
+const updateOrder = async (id: string, changes: Record<string, unknown>, version?: number) => {
+  let query = supabase
+    .from('orders')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id);
+  if (version !== undefined) query = query.eq('version', version);
+  const { data, error } = await query.select().maybeSingle();
+  if (error) throw error;
+  if (!data) throw await unmatchedUpdateError('orders', 'order', id);
+  return mapOrderFromDb(data);
+};
+
 // Bills API
 export const billsApi = {
   getAll: async () => {
@@ -361,6 +1043,15 @@ export const billsApi = {
     if (error) throw error;
     return (data || []).map(mapBillFromDb);
   },
+  // The bills a customer is on at the table they scanned
+  getForCustomer: async (tableNumber: number, customerPhone: string) => {
+    const { data, error } = await supabase.rpc('get_customer_bills', {
+      p_table_number: tableNumber,
+      p_customer_phone: customerPhone,
+    });
+    if (error) throw error;
+    return (data || []).map(mapBillFromDb);
+  },
   create: async (bill: any) => {
     const { data, error } = await supabase
       .from('bills')
@@ -370,22 +1061,36 @@ export const billsApi = {
     if (error) throw error;
     return mapBillFromDb(data);
   },
-  pay: async (id: string, paymentMethod: string) => {
-    const { data, error } = await supabase
+  // version: the bill's version when this device took the payment, so a bill is only paid once
+  pay: async (id: string, paymentMethod: string, payments: unknown[] = [], version?: number) => {
+    let query = supabase
       .from('bills')
       .update({
         payment_method: paymentMethod,
+        payments,
         paid_at: new Date().toISOString(),
         status: 'paid',
       })
-      .eq('id', id)
-      .select()
-      .single();
+      .eq('id', id);
+    if (version !== undefined) query = query.eq('version', version);
+    const { data, error } = await query.select().maybeSingle();
     if (error) throw error;
+    if (!data) throw staleWriteError('bill');
     return mapBillFromDb(data);
   },
 };
 
+interface LoyaltyEntryRow {
+  id: string;
+  type: LoyaltyEntryType;
+  points: number;
+  reason: string | null;
+  transactionId: string | null;
+  expiresAt: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
 // Customers API
 export const customersApi = {
   getAll: async () => {
@@ -405,20 +1110,54 @@ export const customersApi = {
     if (error) throw error;
     return data ? mapCustomerFromDb(data) : null;
   },
-  upsert: async (customer: any) => {
+  updatePhone: async (oldPhone: string, newPhone: string) => {
     const { data, error } = await supabase
       .from('customers')
-      .upsert(mapCustomerToDb(customer), { onConflict: 'phone' })
+      .update({ phone: newPhone })
+      .eq('phone', oldPhone)
       .select()
       .single();
     if (error) throw error;
     return mapCustomerFromDb(data);
   },
-  updatePhone: async (oldPhone: string, newPhone: string) => {
+  // Balance, tier and history; also used by the customer ordering screen, which can't read these
+  // tables and passes the table it's ordering at
+  getLoyalty: async (phone: string, tableNumber?: number): Promise<CustomerLoyalty> => {
+    const { data, error } = await supabase.rpc('lookup_customer_loyalty', {
+      p_customer_phone: phone,
+      p_table_number: tableNumber ?? null,
+    });
+    if (error) throw error;
+    return {
+      points: Number(data?.points) || 0,
+      tier: data?.tier ?? undefined,
+      entries: (data?.entries ?? []).map((e: LoyaltyEntryRow) => ({
+        id: e.id,
+        type: e.type,
+        points: e.points,
+        reason: e.reason || undefined,
+        transactionId: e.transactionId ?? undefined,
+        expiresAt: e.expiresAt ?? undefined,
+        createdBy: e.createdBy || undefined,
+        createdAt: e.createdAt,
+      })),
+    };
+  },
+  // Needs the adjust_points permission; returns the new balance
+  adjustPoints: async (phone: string, points: number, reason: string): Promise<number> => {
+    const { data, error } = await supabase.rpc('adjust_loyalty_points', {
+      p_customer_phone: phone,
+      p_points: points,
+      p_reason: reason,
+    });
+    if (error) throw error;
+    return Number(data) || 0;
+  },
+  // Opens, changes or closes (null) a customer's account; the database only lets account managers
+  setCreditLimit: async (phone: string, creditLimit: number | null) => {
     const { data, error } = await supabase
       .from('customers')
-      .update({ phone: newPhone })
-      .eq('phone', oldPhone)
+      .upsert({ phone, credit_limit: creditLimit }, { onConflict: 'phone' })
       .select()
       .single();
     if (error) throw error;
@@ -426,40 +1165,82 @@ export const customersApi = {
   },
 };
 
-// Staff API
+// Staff Auth API - passwords are checked and hashed in the database
+export const authApi = {
+  login: async (username: string, password: string): Promise<StaffSession | null> => {
+    const { data, error } = await supabase.rpc('staff_login', { p_username: username, p_password: password });
+    if (error) throw error;
+    const row = (data || [])[0];
+    return row ? mapStaffSessionFromDb(row, row.token) : null;
+  },
+  verify: async (token: string): Promise<StaffSession | null> => {
+    const { data, error } = await supabase.rpc('staff_verify_session', { p_token: token });
+    if (error) throw error;
+    const row = (data || [])[0];
+    return row ? mapStaffSessionFromDb(row, token) : null;
+  },
+  logout: async (token: string) => {
+    const { error } = await supabase.rpc('staff_logout', { p_token: token });
+    if (error) throw error;
+  },
+  // Fresh installs have no staff until the first owner is created
+  needsSetup: async (): Promise<boolean> => {
+    const { data, error } = await supabase.rpc('staff_needs_setup');
+    if (error) throw error;
+    return data === true;
+  },
+  setupOwner: async (username: string, password: string, name: string) => {
+    const { error } = await supabase.rpc('staff_setup_owner', { p_username: username, p_password: password, p_name: name });
+    if (error) throw error;
+  },
+};
+
+// Staff API - every call needs an admin session token
 export const staffApi = {
-  getAll: async () => {
-    const { data, error } = await supabase
-      .from('staff')
-      .select('*')
-      .order('created_at', { ascending: false });
+  getAll: async (token: string) => {
+    const { data, error } = await supabase.rpc('staff_list', { p_token: token });
     if (error) throw error;
     return (data || []).map(mapStaffFromDb);
   },
-  create: async (staff: any) => {
-    const { data, error } = await supabase
-      .from('staff')
-      .insert(mapStaffToDb(staff))
-      .select()
-      .maybeSingle();
+  save: async (token: string, staff: Staff) => {
+    const { error } = await supabase.rpc('staff_save', mapStaffToRpc(token, staff));
+    if (error) throw error;
+  },
+  delete: async (token: string, id: string) => {
+    const { error } = await supabase.rpc('staff_delete', { p_token: token, p_id: id });
+    if (error) throw error;
+  },
+  verifyPin: async (pin: string): Promise<boolean> => {
+    const { data, error } = await supabase.rpc('verify_staff_pin', { p_pin: pin });
     if (error) throw error;
-    return data ? mapStaffFromDb(data) : staff;
+    return data === true;
   },
-  update: async (id: string, staff: any) => {
-    // Upsert so local default staff (id: '1'/'2') can be persisted even if DB is empty
-    const payload = { ...staff, id };
+};
 
+// Roles API - writes need the manage_staff permission
+export const rolesApi = {
+  getAll: async () => {
     const { data, error } = await supabase
-      .from('staff')
-      .upsert(mapStaffToDb(payload), { onConflict: 'id' })
+      .from('roles')
       .select('*')
-      .maybeSingle();
-
+      .order('created_at', { ascending: true });
     if (error) throw error;
-    return data ? mapStaffFromDb(data) : payload;
+    return (data || []).map(mapRoleFromDb);
+  },
+  upsert: async (role: Role) => {
+    const { data, error } = await supabase
+      .from('roles')
+      .upsert(mapRoleToDb(role), { onConflict: 'id' })
+      .select()
+      .single();
+    if (error) throw error;
+    return mapRoleFromDb(data);
   },
   delete: async (id: string) => {
-    const { error } = await supabase.from('staff').delete().eq('id', id);
+    const { error } = await supabase
+      .from('roles')
+      .delete()
+      .eq('id', id);
     if (error) throw error;
   },
 };
@@ -529,6 +1310,334 @@ export const expensesApi = {
   },
 };
 
+// Ingredients API - writes need the manage_inventory permission
+export const ingredientsApi = {
+  getAll: async () => {
+    const { data, error } = await supabase
+      .from('ingredients')
+      .select('*')
+      .order('name');
+    if (error) throw error;
+    return (data || []).map(mapIngredientFromDb);
+  },
+  create: async (ingredient: Omit<Ingredient, 'stock'>) => {
+    const { data, error } = await supabase
+      .from('ingredients')
+      .insert(mapIngredientToDb(ingredient))
+      .select()
+      .single();
+    if (error) throw error;
+    return mapIngredientFromDb(data);
+  },
+  update: async (id: string, ingredient: Omit<Ingredient, 'stock'>) => {
+    const { data, error } = await supabase
+      .from('ingredients')
+      .update(mapIngredientToDb(ingredient))
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return mapIngredientFromDb(data);
+  },
+  delete: async (id: string) => {
+    const { error } = await supabase.from('ingredients').delete().eq('id', id);
+    if (error) throw error;
+  },
+};
+
+// Stock Movements API - sale movements are written by the database
+export const stockMovementsApi = {
+  getAll: async () => {
+    const { data, error } = await supabase
+      .from('stock_movements')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(500);
+    if (error) throw error;
+    return (data || []).map(mapStockMovementFromDb);
+  },
+  create: async (movement: StockMovement) => {
+    const { data, error } = await supabase
+      .from('stock_movements')
+      .insert(mapStockMovementToDb(movement))
+      .select()
+      .single();
+    if (error) throw error;
+    return mapStockMovementFromDb(data);
+  },
+};
+
+// Dining Tables API - layout needs manage_settings; status and moves are for counter staff
+export const diningTablesApi = {
+  getAll: async () => {
+    const { data, error } = await supabase
+      .from('dining_tables')
+      .select('*')
+      .order('number');
+    if (error) throw error;
+    return (data || []).map(mapDiningTableFromDb);
+  },
+  create: async (table: DiningTable) => {
+    const { data, error } = await supabase
+      .from('dining_tables')
+      .insert(mapDiningTableToDb(table))
+      .select()
+      .single();
+    if (error) throw error;
+    return mapDiningTableFromDb(data);
+  },
+  update: async (number: number, table: DiningTable) => {
+    const { error } = await supabase
+      .from('dining_tables')
+      .update(mapDiningTableToDb(table))
+      .eq('number', number);
+    if (error) throw error;
+  },
+  delete: async (number: number) => {
+    const { error } = await supabase.from('dining_tables').delete().eq('number', number);
+    if (error) throw error;
+  },
+  setServiceStatus: async (number: number, status: DiningTable['serviceStatus']) => {
+    const { error } = await supabase.rpc('set_table_service_status', {
+      p_table_number: number,
+      p_status: status ?? null,
+    });
+    if (error) throw error;
+  },
+  // Moves orders and unpaid bills to another table in one database transaction
+  moveOrders: async (orderIds: string[], billIds: string[], tableNumber: number) => {
+    const { error } = await supabase.rpc('move_table_orders', {
+      p_order_ids: orderIds,
+      p_bill_ids: billIds,
+      p_table_number: tableNumber,
+    });
+    if (error) throw error;
+  },
+};
+
+// Reservations API - writes need the manage_reservations permission; the database
+// refuses a table too small for the party
+export const reservationsApi = {
+  getAll: async () => {
+    const { data, error } = await supabase
+      .from('reservations')
+      .select('*')
+      .order('time');
+    if (error) throw error;
+    return (data || []).map(mapReservationFromDb);
+  },
+  create: async (reservation: Reservation) => {
+    const { data, error } = await supabase
+      .from('reservations')
+      .insert(mapReservationToDb(reservation))
+      .select()
+      .single();
+    if (error) throw error;
+    return mapReservationFromDb(data);
+  },
+  update: async (id: string, reservation: Reservation) => {
+    const { data, error } = await supabase
+      .from('reservations')
+      .update(mapReservationToDb(reservation))
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return mapReservationFromDb(data);
+  },
+};
+
+// Suppliers API - writes need the manage_purchasing permission
+export const suppliersApi = {
+  getAll: async () => {
+    const { data, error } = await supabase
+      .from('suppliers')
+      .select('*')
+      .order('name');
+    if (error) throw error;
+    return (data || []).map(mapSupplierFromDb);
+  },
+  create: async (supplier: Supplier) => {
+    const { data, error } = await supabase
+      .from('suppliers')
+      .insert(mapSupplierToDb(supplier))
+      .select()
+      .single();
+    if (error) throw error;
+    return mapSupplierFromDb(data);
+  },
+  update: async (id: string, supplier: Supplier) => {
+    const { data, error } = await supabase
+      .from('suppliers')
+      .update(mapSupplierToDb(supplier))
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return mapSupplierFromDb(data);
+  },
+  delete: async (id: string) => {
+    const { error } = await supabase.from('suppliers').delete().eq('id', id);
+    if (error) throw error;
+  },
+};
+
+// Promotions API - writes need the manage_promotions permission; customers only
+// read the automatic ones
+export const promotionsApi = {
+  getAll: async () => {
+    const { data, error } = await supabase
+      .from('promotions')
+      .select('*')
+      .order('created_at');
+    if (error) throw error;
+    return (data || []).map(mapPromotionFromDb);
+  },
+  create: async (promotion: Promotion) => {
+    const { data, error } = await supabase
+      .from('promotions')
+      .insert(mapPromotionToDb(promotion))
+      .select()
+      .single();
+    if (error) throw error;
+    return mapPromotionFromDb(data);
+  },
+  update: async (id: string, promotion: Promotion) => {
+    const { data, error } = await supabase
+      .from('promotions')
+      .update(mapPromotionToDb(promotion))
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return mapPromotionFromDb(data);
+  },
+  delete: async (id: string) => {
+    const { error } = await supabase.from('promotions').delete().eq('id', id);
+    if (error) throw error;
+  },
+};
+
+// Purchase Orders API
+export const purchaseOrdersApi = {
+  getAll: async () => {
+    const { data, error } = await supabase
+      .from('purchase_orders')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(200);
+    if (error) throw error;
+    return (data || []).map(mapPurchaseOrderFromDb);
+  },
+  create: async (order: PurchaseOrder) => {
+    const { data, error } = await supabase
+      .from('purchase_orders')
+      .insert(mapPurchaseOrderToDb(order))
+      .select()
+      .single();
+    if (error) throw error;
+    return mapPurchaseOrderFromDb(data);
+  },
+  cancel: async (id: string) => {
+    const { error } = await supabase.from('purchase_orders').update({ status: 'cancelled' }).eq('id', id);
+    if (error) throw error;
+  },
+};
+
+// Goods Receipts API - posting one adds stock, books the expense and updates the order
+export const goodsReceiptsApi = {
+  getAll: async () => {
+    const { data, error } = await supabase
+      .from('goods_receipts')
+      .select('*')
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(mapGoodsReceiptFromDb);
+  },
+  create: async (receipt: GoodsReceipt) => {
+    const { data, error } = await supabase
+      .from('goods_receipts')
+      .insert(mapGoodsReceiptToDb(receipt))
+      .select()
+      .single();
+    if (error) throw error;
+    return mapGoodsReceiptFromDb(data);
+  },
+};
+
+// Supplier Payments API
+export const supplierPaymentsApi = {
+  getAll: async () => {
+    const { data, error } = await supabase
+      .from('supplier_payments')
+      .select('*')
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(mapSupplierPaymentFromDb);
+  },
+  create: async (payment: SupplierPayment) => {
+    const { data, error } = await supabase
+      .from('supplier_payments')
+      .insert(mapSupplierPaymentToDb(payment))
+      .select()
+      .single();
+    if (error) throw error;
+    return mapSupplierPaymentFromDb(data);
+  },
+};
+
+// Account Payments API
+export const accountPaymentsApi = {
+  getAll: async () => {
+    const { data, error } = await supabase
+      .from('account_payments')
+      .select('*')
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(mapAccountPaymentFromDb);
+  },
+  create: async (payment: AccountPayment) => {
+    const { data, error } = await supabase
+      .from('account_payments')
+      .insert(mapAccountPaymentToDb(payment))
+      .select()
+      .single();
+    if (error) throw error;
+    return mapAccountPaymentFromDb(data);
+  },
+};
+
+// Register Sessions API
+export const registerSessionsApi = {
+  getAll: async () => {
+    const { data, error } = await supabase
+      .from('register_sessions')
+      .select('*')
+      .order('opened_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(mapRegisterSessionFromDb);
+  },
+  create: async (session: RegisterSession) => {
+    const { data, error } = await supabase
+      .from('register_sessions')
+      .insert(mapRegisterSessionToDb(session))
+      .select()
+      .single();
+    if (error) throw error;
+    return mapRegisterSessionFromDb(data);
+  },
+  update: async (id: string, updates: Partial<RegisterSession>) => {
+    const { data, error } = await supabase
+      .from('register_sessions')
+      .update(mapRegisterSessionToDb(updates))
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return mapRegisterSessionFromDb(data);
+  },
+};
+
 // Waiter Calls API
 export const waiterCallsApi = {
   getAll: async () => {
@@ -539,14 +1648,22 @@ export const waiterCallsApi = {
     if (error) throw error;
     return (data || []).map(mapWaiterCallFromDb);
   },
+  // Calls at the table the customer scanned, without the callers' phones
+  getForTable: async (tableNumber: number, customerPhone: string) => {
+    const { data, error } = await supabase.rpc('get_table_waiter_calls', {
+      p_table_number: tableNumber,
+      p_customer_phone: customerPhone,
+    });
+    if (error) throw error;
+    return (data || []).map(mapWaiterCallFromDb);
+  },
+  // No returned row: customers can call a waiter but not read the call back
   create: async (call: any) => {
-    const { data, error } = await supabase
+    const { error } = await supabase
       .from('waiter_calls')
-      .insert(mapWaiterCallToDb(call))
-      .select()
-      .single();
+      .insert(mapWaiterCallToDb(call));
     if (error) throw error;
-    return mapWaiterCallFromDb(data);
+    return call;
   },
   acknowledge: async (id: string) => {
     const { data, error } = await supabase
@@ -583,6 +1700,111 @@ export const transactionsApi = {
     if (error) throw error;
     return mapTransactionFromDb(data);
   },
+  // Void or refund a sale; returns the name of the manager whose PIN approved it
+  correct: async (correction: Transaction, pin: string): Promise<string> => {
+    const { data, error } = await supabase.rpc('correct_transaction', {
+      p_id: correction.id,
+      p_sale_id: correction.refundOf,
+      p_kind: correction.kind,
+      p_amount: -correction.total,
+      p_payments: correction.payments ?? [],
+      p_items: correction.items,
+      p_reason: correction.reason ?? '',
+      p_pin: pin,
+    });
+    if (error) throw error;
+    if (!data) throw new Error('PIN is not valid for voids and refunds');
+    return data as string;
+  },
+};
+
+// Audit Log API - insert only, reading needs the view_audit_log permission
+export const auditLogApi = {
+  getAll: async (from?: string, to?: string) => {
+    let query = supabase
+      .from('audit_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(500);
+    if (from) query = query.gte('created_at', from);
+    if (to) query = query.lte('created_at', to);
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(mapAuditEntryFromDb);
+  },
+  // No .select() - customers may append entries but can't read them back
+  create: async (entry: NewAuditEntry) => {
+    const { error } = await supabase
+      .from('audit_log')
+      .insert(mapAuditEntryToDb(entry));
+    if (error) throw error;
+  },
+};
+
+// Payment Gateways API - the gateways are called by the database, which holds the secrets
+export interface GatewayCheckout {
+  qr?: string; // Fonepay dynamic QR payload
+  url?: string; // Checkout page (Khalti), or where the fields are posted (eSewa)
+  fields?: Record<string, string>;
+}
+
+export type GatewayPaymentStatus = 'pending' | 'paid' | 'failed';
+
+export interface GatewayCredentials {
+  secretKey: string; // Blank keeps the saved one
+  password: string;
+}
+
+interface PaymentGatewayRow {
+  provider: GatewayMethod;
+  enabled: boolean;
+  live: boolean;
+  merchant_code: string | null;
+  username: string | null;
+  has_secret: boolean;
+}
+
+export const paymentGatewaysApi = {
+  getAll: async (): Promise<PaymentGateway[]> => {
+    const { data, error } = await supabase.rpc('get_payment_gateways');
+    if (error) throw error;
+    return ((data || []) as PaymentGatewayRow[]).map(row => ({
+      provider: row.provider,
+      enabled: row.enabled,
+      live: row.live,
+      merchantCode: row.merchant_code ?? '',
+      username: row.username ?? '',
+      hasSecret: row.has_secret,
+    }));
+  },
+  save: async (gateway: Omit<PaymentGateway, 'hasSecret'>, credentials: GatewayCredentials) => {
+    const { error } = await supabase.rpc('save_payment_gateway', {
+      p_provider: gateway.provider,
+      p_enabled: gateway.enabled,
+      p_live: gateway.live,
+      p_merchant_code: gateway.merchantCode,
+      p_username: gateway.username,
+      p_secret_key: credentials.secretKey,
+      p_password: credentials.password,
+    });
+    if (error) throw error;
+  },
+  start: async (id: string, provider: GatewayMethod, amount: number, label: string, returnUrl: string): Promise<GatewayCheckout> => {
+    const { data, error } = await supabase.rpc('start_gateway_payment', {
+      p_id: id,
+      p_provider: provider,
+      p_amount: amount,
+      p_label: label,
+      p_return_url: returnUrl,
+    });
+    if (error) throw error;
+    return data as GatewayCheckout;
+  },
+  check: async (id: string): Promise<GatewayPaymentStatus> => {
+    const { data, error } = await supabase.rpc('check_gateway_payment', { p_id: id });
+    if (error) throw error;
+    return data as GatewayPaymentStatus;
+  },
 };
 
 // Health check
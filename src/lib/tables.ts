@@ -0,0 +1,61 @@
+// Dining table helpers: names, areas, floor plan placement and live status
+import { Bill, DiningTable, Order, Reservation, TableStatus } from '@/types';
+import { getPaidOrderIds } from '@/lib/billing';
+
+export const DEFAULT_TABLE_AREA = 'Indoor';
+
+export const tableStatusLabels: Record<TableStatus, string> = {
+  free: 'Free',
+  reserved: 'Reserved',
+  occupied: 'Occupied',
+  bill_requested: 'Bill requested',
+  cleaning: 'Cleaning',
+};
+
+export function getTableName(tableNumber: number, tables: DiningTable[]): string {
+  return tables.find(t => t.number === tableNumber)?.name || `Table ${tableNumber}`;
+}
+
+export function isKnownTable(tableNumber: number, tables: DiningTable[]): boolean {
+  return tables.some(t => t.number === tableNumber);
+}
+
+// Areas in the order they were first used, so the floor plan tabs stay put
+export function getTableAreas(tables: DiningTable[]): string[] {
+  const areas: string[] = [];
+  [...tables].sort((a, b) => a.number - b.number).forEach(t => {
+    if (!areas.includes(t.area)) areas.push(t.area);
+  });
+  return areas.length > 0 ? areas : [DEFAULT_TABLE_AREA];
+}
+
+export function getNextTableNumber(tables: DiningTable[]): number {
+  return tables.reduce((max, t) => Math.max(max, t.number), 0) + 1;
+}
+
+// New tables go on a five-across grid so they don't land on top of each other
+export function getDefaultTablePosition(indexInArea: number): { x: number; y: number } {
+  return { x: 10 + (indexInArea % 5) * 20, y: 15 + Math.floor(indexInArea / 5) * 25 };
+}
+
+// Orders on a table that haven't been cancelled or paid yet
+export function getOpenTableOrders(tableNumber: number, orders: Order[], bills: Bill[]): Order[] {
+  const paidOrderIds = getPaidOrderIds(bills);
+  return orders.filter(o =>
+    o.tableNumber === tableNumber && o.status !== 'cancelled' && !paidOrderIds.has(o.id)
+  );
+}
+
+/**
+ * A table with open orders or unpaid split bills is occupied (or waiting on its
+ * bill), as is one a party was just seated at. An empty one is free unless it's
+ * been flagged for cleaning or is held for a booking (see getTableReservation).
+ */
+export function getTableStatus(table: DiningTable, orders: Order[], bills: Bill[], reservation?: Reservation): TableStatus {
+  const inUse = getOpenTableOrders(table.number, orders, bills).length > 0
+    || bills.some(b => b.tableNumber === table.number && b.status === 'unpaid')
+    || reservation?.status === 'seated';
+  if (inUse) return table.serviceStatus === 'bill_requested' ? 'bill_requested' : 'occupied';
+  if (table.serviceStatus === 'cleaning') return 'cleaning';
+  return reservation?.status === 'booked' ? 'reserved' : 'free';
+}
@@ -0,0 +1,104 @@
+// Nepal VAT and service charge on bills, and tax invoice numbering helpers
+import { Bill, OrderItem, Settings, Transaction } from '@/types';
+import { roundMoney } from '@/lib/billing';
+import { getTransactionDateInNepal } from '@/lib/nepalTime';
+import { formatFiscalYear, getFiscalYearStart } from '@/lib/bikramSambat';
+
+export const DEFAULT_VAT_RATE = 13;
+export const DEFAULT_SERVICE_CHARGE_RATE = 10;
+
+export type TaxSettings = Pick<Settings, 'vatEnabled' | 'vatRate' | 'serviceChargeEnabled' | 'serviceChargeRate'>;
+
+export interface BillTax {
+  serviceCharge: number;
+  deliveryFee: number;
+  taxableAmount: number; // Net of discount, service charge and delivery fee included, before VAT
+  nonTaxableAmount: number; // VAT-exempt lines and their service charge
+  vat: number;
+  total: number;
+}
+
+export function getVatRate(settings: TaxSettings): number {
+  return settings.vatEnabled ? settings.vatRate ?? DEFAULT_VAT_RATE : 0;
+}
+
+export function getServiceChargeRate(settings: TaxSettings): number {
+  return settings.serviceChargeEnabled ? settings.serviceChargeRate ?? DEFAULT_SERVICE_CHARGE_RATE : 0;
+}
+
+// Items are VAT-able unless marked exempt on the menu
+export function isTaxableItem(item: Pick<OrderItem, 'taxable'>): boolean {
+  return item.taxable !== false;
+}
+
+/**
+ * Tax for a bill, in the order IRD expects: the discount comes off first,
+ * service charge is added on the discounted amount, then VAT is charged on
+ * the taxable lines plus their service charge. A delivery fee is VAT-able but
+ * takes no discount or service charge.
+ */
+export function calculateBillTax(items: OrderItem[], discount: number, settings: TaxSettings, deliveryFee = 0): BillTax {
+  const subtotal = items.reduce((sum, i) => sum + i.qty * i.price, 0);
+  const taxableSubtotal = items.filter(isTaxableItem).reduce((sum, i) => sum + i.qty * i.price, 0);
+  const netRatio = subtotal > 0 ? (subtotal - discount) / subtotal : 0;
+  const serviceChargeFactor = 1 + getServiceChargeRate(settings) / 100;
+
+  const net = subtotal - discount;
+  const serviceCharge = roundMoney(net * (serviceChargeFactor - 1));
+  const itemsTaxable = roundMoney(taxableSubtotal * netRatio * serviceChargeFactor);
+  const nonTaxableAmount = roundMoney(net + serviceCharge - itemsTaxable);
+  const taxableAmount = roundMoney(itemsTaxable + deliveryFee);
+  const vat = roundMoney(taxableAmount * getVatRate(settings) / 100);
+
+  return {
+    serviceCharge,
+    deliveryFee,
+    taxableAmount,
+    nonTaxableAmount,
+    vat,
+    total: roundMoney(taxableAmount + nonTaxableAmount + vat),
+  };
+}
+
+// A bill that pays part of a larger one (amount splits, partial refunds)
+export function scaleBillTax(tax: BillTax, share: number): BillTax {
+  return {
+    serviceCharge: roundMoney(tax.serviceCharge * share),
+    deliveryFee: roundMoney(tax.deliveryFee * share),
+    taxableAmount: roundMoney(tax.taxableAmount * share),
+    nonTaxableAmount: roundMoney(tax.nonTaxableAmount * share),
+    vat: roundMoney(tax.vat * share),
+    total: roundMoney(tax.total * share),
+  };
+}
+
+// Bills and transactions from before tax tracking count as non-taxable
+export function getBillTax(t: Pick<Bill | Transaction, 'serviceCharge' | 'deliveryFee' | 'taxableAmount' | 'nonTaxableAmount' | 'vat' | 'total'>): BillTax {
+  return {
+    serviceCharge: t.serviceCharge ?? 0,
+    deliveryFee: t.deliveryFee ?? 0,
+    taxableAmount: t.taxableAmount ?? 0,
+    nonTaxableAmount: t.nonTaxableAmount ?? roundMoney(t.total - (t.taxableAmount ?? 0) - (t.vat ?? 0)),
+    vat: t.vat ?? 0,
+    total: t.total,
+  };
+}
+
+// Fiscal year in Bikram Sambat, e.g. "2082/83"
+export function getFiscalYear(isoString: string): string {
+  return formatFiscalYear(getFiscalYearStart(getTransactionDateInNepal(isoString)));
+}
+
+export function formatInvoiceNumber(t: Pick<Transaction, 'fiscalYear' | 'invoiceNumber'>): string | undefined {
+  if (!t.invoiceNumber) return undefined;
+  return `${t.fiscalYear}-${String(t.invoiceNumber).padStart(5, '0')}`;
+}
+
+// Estimates are printed before payment and carry no invoice number
+export type PrintMode = 'tax_invoice' | 'estimate';
+
+// Businesses that aren't VAT registered issue a plain (PAN) invoice
+export function getInvoiceTitle(mode: PrintMode, settings: TaxSettings): string {
+  if (mode === 'estimate') return 'ESTIMATE';
+  return settings.vatEnabled ? 'TAX INVOICE' : 'INVOICE';
+}
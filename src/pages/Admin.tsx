@@ -2,7 +2,7 @@ import { useState, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useStore } from '@/store/useStore';
 import { useSubscription } from '@/hooks/useSubscription';
-import { MenuItem, Customer, Staff } from '@/types';
+import { MenuItem, Customer, Staff, ModifierGroup, RecipeLine, LoyaltyTier, LoyaltyEarnRule } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
@@ -11,12 +11,13 @@ import {
   Plus, Edit, Trash2, LogOut, Settings, LayoutDashboard, 
   UtensilsCrossed, Users, QrCode, History, TrendingUp, ShoppingBag, DollarSign,
   Download, Search, Eye, UserCog, BarChart3, Calendar, Image as ImageIcon, ToggleLeft, ToggleRight,
-  Check, X, Menu as MenuIcon, MonitorDot, GripVertical, Upload, Loader2, Shield, Pencil
+  Check, X, Menu as MenuIcon, MonitorDot, GripVertical, Upload, Loader2, Shield, Pencil, Wallet, Printer, ScrollText, Receipt, Boxes, Truck, Tag, BookOpen, Clock, CalendarClock
 } from 'lucide-react';
 import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { toast } from 'sonner';
 import { formatNepalDateTime, formatNepalDateReadable, getNepalTodayString, getNepalDateDaysAgo, getTransactionDateInNepal } from '@/lib/nepalTime';
+import { formatBsDate, formatBsDateReadable, formatBsDateTime } from '@/lib/bikramSambat';
 import { QRCodeSVG } from 'qrcode.react';
 import { generatePrintQRData } from '@/lib/qrGenerator';
 import { LineChart, Line, BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
@@ -36,6 +37,31 @@ import {
 } from '@/lib/validation';
 import { uploadToR2 } from '@/lib/r2Client';
 import { OptimizedImage } from '@/components/ui/OptimizedImage';
+import { ModifierGroupsEditor } from '@/components/ModifierGroupsEditor';
+import { RolePermissionsMatrix } from '@/components/RolePermissionsMatrix';
+import { AuditLog } from '@/components/AuditLog';
+import { InventoryManager } from '@/components/InventoryManager';
+import { PurchasingManager } from '@/components/PurchasingManager';
+import { PromotionsManager } from '@/components/PromotionsManager';
+import { CustomerAccounts } from '@/components/CustomerAccounts';
+import { FloorPlanEditor } from '@/components/FloorPlanEditor';
+import { RecipeEditor } from '@/components/RecipeEditor';
+import { PaymentGatewaySettings } from '@/components/PaymentGatewaySettings';
+import { CustomerPointsPanel } from '@/components/CustomerPointsPanel';
+import { BsDatePicker } from '@/components/BsDatePicker';
+import { cleanModifierGroups } from '@/lib/modifiers';
+import { DEFAULT_STATION, getStationSlug, getStations } from '@/lib/stations';
+import { countBills, formatTenders, getItemShare, getTenderCount, getTenderTotal, isSaleTransaction, roundMoney } from '@/lib/billing';
+import { GATEWAY_METHODS, PAYMENT_METHODS, gatewayColors, paymentMethodLabels } from '@/lib/paymentGateways';
+import { transactionKindLabels } from '@/lib/refunds';
+import { getLoyaltyTier } from '@/lib/loyalty';
+import { getPromotionCosts } from '@/lib/promotions';
+import { cleanRecipe, getFoodCostPercent, getRecipeCost } from '@/lib/inventory';
+import { DEFAULT_SERVICE_CHARGE_RATE, DEFAULT_VAT_RATE, formatInvoiceNumber } from '@/lib/tax';
+import { printZReport } from '@/lib/register';
+import { getTableName } from '@/lib/tables';
+import { getOrderDestination } from '@/lib/orderTypes';
+import { ADMIN_TAB_PERMISSIONS, OWNER_ROLE, canAccessAdmin, formatRoleName, hasPermission } from '@/lib/permissions';
 
 const COLORS = ['#06C167', '#3B82F6', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899'];
 
@@ -46,27 +72,30 @@ export default function Admin() {
     menuItems, addMenuItem, updateMenuItem, deleteMenuItem, toggleItemAvailability,
     bulkToggleAvailability,
     categories, addCategory, updateCategory, deleteCategory, reorderCategories,
-    customers, transactions, staff, settings, updateSettings,
-    addStaff, updateStaff, deleteStaff, expenses,
+    customers, transactions, staff, settings, updateSettings, ingredients,
+    addStaff, updateStaff, deleteStaff, expenses, registerSessions,
     isAuthenticated, currentUser, logout, getTodayStats,
-    updateCustomerPhone
+    updateCustomerPhone, roles, diningTables
   } = useStore();
 
   // Subscription status for admin
   const { status: subscriptionStatus } = useSubscription();
 
-  const [tab, setTab] = useState('dashboard');
+  const [requestedTab, setTab] = useState('dashboard');
   const [editingItem, setEditingItem] = useState<MenuItem | null>(null);
   const [isAddingItem, setIsAddingItem] = useState(false);
-  const [newItem, setNewItem] = useState<{ name: string; price: string; category: string; description: string; image: string }>({ 
-    name: '', price: '', category: '', description: '', image: ''
+  const [newItem, setNewItem] = useState<{ name: string; price: string; category: string; description: string; image: string; modifierGroups: ModifierGroup[]; taxable: boolean; recipe: RecipeLine[] }>({ 
+    name: '', price: '', category: '', description: '', image: '', modifierGroups: [], taxable: true, recipe: []
   });
 
   // Category management
   const [showCategoryManager, setShowCategoryManager] = useState(false);
   const [newCategoryName, setNewCategoryName] = useState('');
   const [newCategoryPrepTime, setNewCategoryPrepTime] = useState('5');
-  const [editingCategory, setEditingCategory] = useState<{ id: string; name: string; prepTime?: number } | null>(null);
+  const [newCategoryStation, setNewCategoryStation] = useState(DEFAULT_STATION);
+  const [editingCategory, setEditingCategory] = useState<{ id: string; name: string; prepTime?: number; station?: string } | null>(null);
+  const [newStationName, setNewStationName] = useState('');
+  const [newRiderName, setNewRiderName] = useState('');
 
   // Mobile menu state
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -80,13 +109,13 @@ export default function Admin() {
   const [historySearch, setHistorySearch] = useState('');
   const [historyDateFrom, setHistoryDateFrom] = useState('');
   const [historyDateTo, setHistoryDateTo] = useState('');
-  const [historyTab, setHistoryTab] = useState<'transactions' | 'expenses'>('transactions');
+  const [historyTab, setHistoryTab] = useState<'transactions' | 'expenses' | 'registers'>('transactions');
 
   // Modal states
   const [customerDetailModal, setCustomerDetailModal] = useState<Customer | null>(null);
   const [editingCustomerPhone, setEditingCustomerPhone] = useState<{ originalPhone: string; newPhone: string } | null>(null);
   const [staffModal, setStaffModal] = useState<{ open: boolean; editing: Staff | null }>({ open: false, editing: null });
-  const [newStaff, setNewStaff] = useState({ username: '', password: '', pin: '', name: '', role: 'counter' as 'admin' | 'counter' });
+  const [newStaff, setNewStaff] = useState({ username: '', password: '', pin: '', name: '', role: 'cashier' });
 
   // Dashboard date range states - use Nepal timezone
   const [dashboardDateFrom, setDashboardDateFrom] = useState(() => getNepalDateDaysAgo(30));
@@ -110,10 +139,8 @@ export default function Admin() {
     );
   }
 
-  // Redirect if not authenticated or not authorized
-  // Allow access if admin OR if counterAsAdmin is enabled for counter users
-  const isAuthorized = currentUser?.role === 'admin' || 
-    (currentUser?.role === 'counter' && settings.counterAsAdmin);
+  // Redirect if not authenticated or not allowed on any admin tab
+  const isAuthorized = canAccessAdmin(currentUser);
   
   useEffect(() => {
     if (!isAuthenticated || !isAuthorized) {
@@ -126,6 +153,7 @@ export default function Admin() {
   }
 
   const stats = getTodayStats();
+  const stations = getStations(settings, categories);
 
   // Calculate analytics data with Nepal timezone
   const getAnalyticsData = () => {
@@ -147,31 +175,57 @@ export default function Admin() {
     // Top items
     const itemCounts: Record<string, { name: string; qty: number; revenue: number }> = {};
     filtered.forEach(t => {
+      // Amount-split sub-bills each carry the full item list but pay only a share
+      const share = getItemShare(t);
       t.items.forEach(item => {
         if (!itemCounts[item.name]) {
           itemCounts[item.name] = { name: item.name, qty: 0, revenue: 0 };
         }
-        itemCounts[item.name].qty += item.qty;
-        itemCounts[item.name].revenue += item.qty * item.price;
+        itemCounts[item.name].qty += item.qty * share;
+        itemCounts[item.name].revenue += item.qty * item.price * share;
       });
     });
     const topItems = Object.values(itemCounts)
+      .map(i => ({ ...i, qty: roundMoney(i.qty), revenue: roundMoney(i.revenue) }))
       .sort((a, b) => b.qty - a.qty)
       .slice(0, 10);
 
+    // Food cost of items with a recipe, against what sold in the period
+    const soldById: Record<string, number> = {};
+    filtered.forEach(t => {
+      const share = getItemShare(t);
+      t.items.forEach(item => {
+        soldById[item.menuItemId] = (soldById[item.menuItemId] || 0) + item.qty * share;
+      });
+    });
+    const foodCost = menuItems
+      .filter(m => m.recipe?.length)
+      .map(m => {
+        const cost = getRecipeCost(m, ingredients);
+        const sold = roundMoney(soldById[m.id] || 0);
+        return {
+          id: m.id,
+          name: m.name,
+          price: m.price,
+          cost,
+          percent: getFoodCostPercent(m, ingredients) ?? 0,
+          sold,
+          totalCost: roundMoney(cost * sold),
+        };
+      })
+      .sort((a, b) => b.percent - a.percent);
+
     // Payment methods
-    const cashTransactions = filtered.filter(t => t.paymentMethod === 'cash');
-    const fonepayTransactions = filtered.filter(t => t.paymentMethod === 'fonepay');
-    const paymentMethods = [
-      { name: 'Cash', value: cashTransactions.length },
-      { name: 'Fonepay', value: fonepayTransactions.length },
-    ];
-    const cashTotal = cashTransactions.reduce((sum, t) => sum + t.total, 0);
-    const fonepayTotal = fonepayTransactions.reduce((sum, t) => sum + t.total, 0);
-
-    // Peak hours
+    const paymentMethods = PAYMENT_METHODS.map(method => ({
+      name: paymentMethodLabels[method],
+      value: getTenderCount(filtered, method),
+    }));
+    const cashTotal = getTenderTotal(filtered, 'cash');
+    const gatewayTotals = GATEWAY_METHODS.map(method => ({ method, total: getTenderTotal(filtered, method) }));
+
+    // Peak hours (voids and refunds aren't visits)
     const hourCounts: Record<number, number> = {};
-    filtered.forEach(t => {
+    filtered.filter(isSaleTransaction).forEach(t => {
       const hour = new Date(t.paidAt).getHours();
       hourCounts[hour] = (hourCounts[hour] || 0) + 1;
     });
@@ -181,17 +235,20 @@ export default function Admin() {
     }));
 
     const totalRevenue = filtered.reduce((sum, t) => sum + t.total, 0);
+    const billCount = countBills(filtered);
 
     return {
       totalRevenue,
-      totalOrders: filtered.length,
-      avgOrderValue: filtered.length ? Math.round(totalRevenue / filtered.length) : 0,
+      totalOrders: billCount,
+      avgOrderValue: billCount ? Math.round(totalRevenue / billCount) : 0,
       dailyRevenue,
       topItems,
       paymentMethods,
       peakHours,
+      foodCost,
+      promotionCosts: getPromotionCosts(filtered),
       cashTotal,
-      fonepayTotal,
+      gatewayTotals,
       uniqueCustomers: new Set(filtered.flatMap(t => t.customerPhones)).size,
       transactions: filtered
     };
@@ -219,23 +276,28 @@ export default function Admin() {
     // Top items for charts
     const itemCounts: Record<string, { name: string; qty: number; revenue: number }> = {};
     filtered.forEach(t => {
+      // Amount-split sub-bills each carry the full item list but pay only a share
+      const share = getItemShare(t);
       t.items.forEach(item => {
         if (!itemCounts[item.name]) {
           itemCounts[item.name] = { name: item.name, qty: 0, revenue: 0 };
         }
-        itemCounts[item.name].qty += item.qty;
-        itemCounts[item.name].revenue += item.qty * item.price;
+        itemCounts[item.name].qty += item.qty * share;
+        itemCounts[item.name].revenue += item.qty * item.price * share;
       });
     });
     const topItems = Object.values(itemCounts)
+      .map(i => ({ ...i, qty: roundMoney(i.qty), revenue: roundMoney(i.revenue) }))
       .sort((a, b) => b.qty - a.qty)
       .slice(0, 5);
 
+    const billCount = countBills(filtered);
+
     return {
       totalRevenue: filtered.reduce((sum, t) => sum + t.total, 0),
-      totalOrders: filtered.length,
+      totalOrders: billCount,
       uniqueCustomers: new Set(filtered.flatMap(t => t.customerPhones)).size,
-      avgOrderValue: filtered.length ? Math.round(filtered.reduce((sum, t) => sum + t.total, 0) / filtered.length) : 0,
+      avgOrderValue: billCount ? Math.round(filtered.reduce((sum, t) => sum + t.total, 0) / billCount) : 0,
       dailyRevenue,
       topItems
     };
@@ -266,6 +328,15 @@ export default function Admin() {
     return matchesSearch && matchesDateFrom && matchesDateTo;
   }).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 
+  const filteredRegisterSessions = registerSessions.filter(s => {
+    const matchesSearch = !historySearch ||
+      s.openedBy.toLowerCase().includes(historySearch.toLowerCase()) ||
+      (s.closedBy || '').toLowerCase().includes(historySearch.toLowerCase());
+    const matchesDateFrom = !historyDateFrom || s.openedAt.split('T')[0] >= historyDateFrom;
+    const matchesDateTo = !historyDateTo || s.openedAt.split('T')[0] <= historyDateTo;
+    return matchesSearch && matchesDateFrom && matchesDateTo;
+  }).sort((a, b) => new Date(b.openedAt).getTime() - new Date(a.openedAt).getTime());
+
   const handleAddItem = () => {
     // Validate menu item name
     const nameValidation = validateInput(menuItemNameSchema, newItem.name);
@@ -297,10 +368,13 @@ export default function Admin() {
       category: newItem.category, 
       available: true,
       description: newItem.description ? sanitizeText(newItem.description) : undefined,
-      image: newItem.image || undefined
+      image: newItem.image || undefined,
+      modifierGroups: cleanModifierGroups(newItem.modifierGroups),
+      taxable: newItem.taxable,
+      recipe: cleanRecipe(newItem.recipe)
     });
     toast.success('Item added');
-    setNewItem({ name: '', price: '', category: 'Tea', description: '', image: '' });
+    setNewItem({ name: '', price: '', category: 'Tea', description: '', image: '', modifierGroups: [], taxable: true, recipe: [] });
     setIsAddingItem(false);
   };
 
@@ -380,7 +454,11 @@ export default function Admin() {
 
   const handleUpdateItem = () => {
     if (!editingItem) return;
-    updateMenuItem(editingItem.id, editingItem);
+    updateMenuItem(editingItem.id, {
+      ...editingItem,
+      modifierGroups: cleanModifierGroups(editingItem.modifierGroups),
+      recipe: cleanRecipe(editingItem.recipe),
+    });
     toast.success('Item updated');
     setEditingItem(null);
   };
@@ -419,7 +497,7 @@ export default function Admin() {
       pin: newStaff.pin || undefined
     });
     toast.success('Staff added');
-    setNewStaff({ username: '', password: '', pin: '', name: '', role: 'counter' });
+    setNewStaff({ username: '', password: '', pin: '', name: '', role: 'cashier' });
     setStaffModal({ open: false, editing: null });
   };
 
@@ -474,29 +552,38 @@ export default function Admin() {
   };
 
   const exportHistoryCSV = () => {
-    const headers = ['Date', 'Table', 'Customers', 'Items', 'Total', 'Discount', 'Method'];
+    const headers = ['Date', 'Date (BS)', 'Invoice No', 'Table', 'Customers', 'Items', 'Total', 'Discount', 'Service Charge', 'VAT', 'Method', 'Type', 'Reason', 'Approved By'];
     const rows = filteredTransactions.map(t => [
       formatNepalDateTime(t.paidAt),
+      formatBsDate(t.paidAt),
+      formatInvoiceNumber(t) || '',
       t.tableNumber,
       t.customerPhones.join('; '),
       t.items.map(i => `${i.qty}x ${i.name}`).join('; '),
       t.total,
       t.discount,
-      t.paymentMethod
+      t.serviceCharge ?? 0,
+      t.vat ?? 0,
+      formatTenders(t),
+      transactionKindLabels[t.kind ?? 'sale'],
+      t.reason || '',
+      t.approvedBy || ''
     ]);
     downloadCSV([headers, ...rows], 'transactions');
   };
 
   const exportAnalyticsCSV = () => {
-    const headers = ['Date', 'Table', 'Customers', 'Items', 'Total', 'Discount', 'Method'];
+    const headers = ['Date', 'Date (BS)', 'Table', 'Customers', 'Items', 'Total', 'Discount', 'Promotions', 'Method'];
     const rows = analytics.transactions.map(t => [
       formatNepalDateTime(t.paidAt),
+      formatBsDate(t.paidAt),
       t.tableNumber,
       t.customerPhones.join('; '),
       t.items.map(i => `${i.qty}x ${i.name}`).join('; '),
       t.total,
       t.discount,
-      t.paymentMethod
+      (t.promotions || []).map(p => `${p.name} (${p.discount})`).join('; '),
+      formatTenders(t)
     ]);
     downloadCSV([headers, ...rows], `analytics_${analyticsDateFrom}_to_${analyticsDateTo}`);
   };
@@ -538,7 +625,7 @@ export default function Admin() {
     
     // Generate QR codes offline using our bundled library
     const qrData = generatePrintQRData(
-      settings.tableCount,
+      diningTables,
       baseUrl,
       wifiSSID || undefined,
       wifiPassword || undefined
@@ -564,7 +651,7 @@ export default function Admin() {
           }
         </div>
         <div class="table-section">
-          <div class="table-label">🍵 Table ${data.tableNum}</div>
+          <div class="table-label">🍵 ${data.tableName}</div>
           <div class="qr-container">${data.tableQR}</div>
           <div class="restaurant-name">${settings.restaurantName}</div>
         </div>
@@ -624,12 +711,22 @@ export default function Admin() {
     { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
     { id: 'analytics', label: 'Analytics', icon: BarChart3 },
     { id: 'menu', label: 'Menu', icon: UtensilsCrossed },
+    { id: 'inventory', label: 'Inventory', icon: Boxes },
+    { id: 'purchasing', label: 'Purchasing', icon: Truck },
+    { id: 'promotions', label: 'Promotions', icon: Tag },
     { id: 'customers', label: 'Customers', icon: Users },
+    { id: 'accounts', label: 'Accounts', icon: BookOpen },
     { id: 'history', label: 'History', icon: History },
     { id: 'staff', label: 'Staff', icon: UserCog },
     { id: 'qr', label: 'Tables & QR', icon: QrCode },
     { id: 'settings', label: 'Settings', icon: Settings },
-  ];
+    { id: 'audit', label: 'Audit Log', icon: ScrollText },
+  ].filter(item => hasPermission(currentUser, ADMIN_TAB_PERMISSIONS[item.id]));
+
+  // Fall back to the first tab this role may see
+  const tab = navItems.some(item => item.id === requestedTab) ? requestedTab : navItems[0]?.id;
+  // Only owners hand out the owner role
+  const assignableRoles = roles.filter(r => r.id !== OWNER_ROLE || currentUser?.role === OWNER_ROLE);
 
   return (
     <div className="min-h-screen bg-background flex flex-col lg:flex-row">
@@ -646,7 +743,7 @@ export default function Admin() {
           <span className="font-serif font-bold">{settings.restaurantName}</span>
         </div>
         <div className="flex items-center gap-2">
-          {tab !== 'settings' && (
+          {tab !== 'settings' && hasPermission(currentUser, 'use_counter') && (
             <Button 
               variant="ghost" 
               size="icon"
@@ -744,15 +841,17 @@ export default function Admin() {
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
               <div>
                 <h2 className="text-lg md:text-2xl font-bold">Dashboard</h2>
-                <p className="text-xs md:text-sm text-muted-foreground mt-1">{formatNepalDateTime(new Date())}</p>
+                <p className="text-xs md:text-sm text-muted-foreground mt-1">{formatBsDateReadable(new Date())} · {formatNepalDateTime(new Date())}</p>
               </div>
-              <Button 
-                variant="outline"
-                className="hidden lg:flex items-center gap-2"
-                onClick={() => navigate('/counter')}
-              >
-                <MonitorDot className="w-4 h-4" /> Counter
-              </Button>
+              {hasPermission(currentUser, 'use_counter') && (
+                <Button 
+                  variant="outline"
+                  className="hidden lg:flex items-center gap-2"
+                  onClick={() => navigate('/counter')}
+                >
+                  <MonitorDot className="w-4 h-4" /> Counter
+                </Button>
+              )}
             </div>
             
             {/* Date Range Filter */}
@@ -762,18 +861,8 @@ export default function Admin() {
                 <span className="font-medium">Date Range</span>
               </div>
               <div className="grid grid-cols-2 gap-2">
-                <Input
-                  type="date"
-                  value={dashboardDateFrom}
-                  onChange={e => setDashboardDateFrom(e.target.value)}
-                  className="w-full text-sm"
-                />
-                <Input
-                  type="date"
-                  value={dashboardDateTo}
-                  onChange={e => setDashboardDateTo(e.target.value)}
-                  className="w-full text-sm"
-                />
+                <BsDatePicker value={dashboardDateFrom} onChange={setDashboardDateFrom} placeholder="From" className="w-full text-sm" />
+                <BsDatePicker value={dashboardDateTo} onChange={setDashboardDateTo} placeholder="To" className="w-full text-sm" />
               </div>
               <div className="flex flex-wrap gap-2">
                 <Button 
@@ -906,7 +995,7 @@ export default function Admin() {
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
               <div>
                 <h2 className="text-lg md:text-2xl font-bold">Analytics & Reports</h2>
-                <p className="text-xs md:text-sm text-muted-foreground mt-1">{formatNepalDateTime(new Date())}</p>
+                <p className="text-xs md:text-sm text-muted-foreground mt-1">{formatBsDateReadable(new Date())} · {formatNepalDateTime(new Date())}</p>
               </div>
               <Button onClick={exportAnalyticsCSV} className="gradient-primary w-full sm:w-auto">
                 <Download className="w-4 h-4 mr-2" /> Export CSV
@@ -919,18 +1008,8 @@ export default function Admin() {
                 <span className="font-medium">Date Range</span>
               </div>
               <div className="grid grid-cols-2 gap-2">
-                <Input
-                  type="date"
-                  value={analyticsDateFrom}
-                  onChange={e => setAnalyticsDateFrom(e.target.value)}
-                  className="w-full text-sm"
-                />
-                <Input
-                  type="date"
-                  value={analyticsDateTo}
-                  onChange={e => setAnalyticsDateTo(e.target.value)}
-                  className="w-full text-sm"
-                />
+                <BsDatePicker value={analyticsDateFrom} onChange={setAnalyticsDateFrom} placeholder="From" className="w-full text-sm" />
+                <BsDatePicker value={analyticsDateTo} onChange={setAnalyticsDateTo} placeholder="To" className="w-full text-sm" />
               </div>
             </div>
 
@@ -943,7 +1022,7 @@ export default function Admin() {
             </div>
 
             {/* Payment Methods Summary */}
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 md:gap-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 md:gap-6">
               <div className="p-4 md:p-6 bg-[#f0f9f4] rounded-2xl border border-[#27ae60]/20">
                 <div className="text-xs md:text-sm text-muted-foreground mb-1">Cash Payments</div>
                 <div className="text-xl md:text-3xl font-bold text-[#27ae60]">
@@ -955,17 +1034,23 @@ export default function Admin() {
                     : '0%'}
                 </div>
               </div>
-              <div className="p-4 md:p-6 bg-[#fdf0f4] rounded-2xl border border-[#c32148]/20">
-                <div className="text-xs md:text-sm text-muted-foreground mb-1">Fonepay Payments</div>
-                <div className="text-xl md:text-3xl font-bold text-[#c32148]">
-                  रू {analytics.fonepayTotal.toLocaleString()}
-                </div>
-                <div className="text-xs text-muted-foreground mt-1">
-                  {analytics.totalRevenue > 0 
-                    ? `${((analytics.fonepayTotal / analytics.totalRevenue) * 100).toFixed(0)}% of total` 
-                    : '0%'}
+              {analytics.gatewayTotals.map(({ method, total }) => (
+                <div
+                  key={method}
+                  className="p-4 md:p-6 rounded-2xl border"
+                  style={{ borderColor: `${gatewayColors[method]}33`, backgroundColor: `${gatewayColors[method]}0d` }}
+                >
+                  <div className="text-xs md:text-sm text-muted-foreground mb-1">{paymentMethodLabels[method]} Payments</div>
+                  <div className="text-xl md:text-3xl font-bold" style={{ color: gatewayColors[method] }}>
+                    रू {total.toLocaleString()}
+                  </div>
+                  <div className="text-xs text-muted-foreground mt-1">
+                    {analytics.totalRevenue > 0 
+                      ? `${((total / analytics.totalRevenue) * 100).toFixed(0)}% of total` 
+                      : '0%'}
+                  </div>
                 </div>
-              </div>
+              ))}
             </div>
 
             {/* Charts */}
@@ -1024,6 +1109,69 @@ export default function Admin() {
                 </ResponsiveContainer>
               </div>
             </div>
+
+            {analytics.foodCost.length > 0 && (
+              <div className="bg-card p-4 md:p-6 rounded-2xl border border-border mt-4 md:mt-6">
+                <h3 className="font-bold mb-4 text-sm md:text-base">Food Cost</h3>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-muted-foreground">
+                        <th className="text-left py-2">Item</th>
+                        <th className="text-right py-2">Price</th>
+                        <th className="text-right py-2">Recipe Cost</th>
+                        <th className="text-right py-2">Food Cost</th>
+                        <th className="text-right py-2">Sold</th>
+                        <th className="text-right py-2">Ingredients Used</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analytics.foodCost.map(row => (
+                        <tr key={row.id} className="border-t border-border">
+                          <td className="py-2">{row.name}</td>
+                          <td className="py-2 text-right">रू{row.price}</td>
+                          <td className="py-2 text-right">रू{row.cost}</td>
+                          <td className="py-2 text-right font-medium">{row.percent}%</td>
+                          <td className="py-2 text-right">{row.sold}</td>
+                          <td className="py-2 text-right">रू{row.totalCost}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {analytics.promotionCosts.length > 0 && (
+              <div className="bg-card p-4 md:p-6 rounded-2xl border border-border mt-4 md:mt-6">
+                <h3 className="font-bold mb-4 text-sm md:text-base">Promotions</h3>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-muted-foreground">
+                        <th className="text-left py-2">Promotion</th>
+                        <th className="text-right py-2">Bills</th>
+                        <th className="text-right py-2">Cost</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analytics.promotionCosts.map(row => (
+                        <tr key={row.promotionId} className="border-t border-border">
+                          <td className="py-2">{row.name}</td>
+                          <td className="py-2 text-right">{row.bills}</td>
+                          <td className="py-2 text-right font-medium">रू{row.discount}</td>
+                        </tr>
+                      ))}
+                      <tr className="border-t border-border font-bold">
+                        <td className="py-2">Total</td>
+                        <td className="py-2 text-right" />
+                        <td className="py-2 text-right">रू{roundMoney(analytics.promotionCosts.reduce((sum, row) => sum + row.discount, 0))}</td>
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -1116,7 +1264,14 @@ export default function Admin() {
                           )}
                           <div className="flex-1 min-w-0">
                             <h4 className="font-semibold truncate text-sm md:text-base">{item.name}</h4>
-                            <p className="text-primary font-bold text-sm md:text-base">रू {item.price}</p>
+                            <p className="text-primary font-bold text-sm md:text-base">
+                              रू {item.price}
+                              {item.modifierGroups && item.modifierGroups.length > 0 && (
+                                <span className="ml-2 text-xs font-normal text-muted-foreground">
+                                  {item.modifierGroups.length} option group{item.modifierGroups.length > 1 ? 's' : ''}
+                                </span>
+                              )}
+                            </p>
                             {item.description && (
                               <p className="text-xs text-muted-foreground line-clamp-2 mt-1 hidden sm:block">{item.description}</p>
                             )}
@@ -1293,6 +1448,15 @@ export default function Admin() {
                 <DollarSign className="w-4 h-4 mr-2" />
                 Expenses ({filteredExpenses.length})
               </Button>
+              <Button
+                variant={historyTab === 'registers' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setHistoryTab('registers')}
+                className={historyTab === 'registers' ? 'gradient-primary' : ''}
+              >
+                <Wallet className="w-4 h-4 mr-2" />
+                Registers ({filteredRegisterSessions.length})
+              </Button>
             </div>
             
             {/* Filters */}
@@ -1300,25 +1464,19 @@ export default function Admin() {
               <div className="relative">
                 <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
                 <Input
-                  placeholder={historyTab === 'transactions' ? "Search table or phone..." : "Search description or category..."}
+                  placeholder={
+                    historyTab === 'transactions' ? "Search table or phone..." :
+                    historyTab === 'registers' ? "Search staff name..." :
+                    "Search description or category..."
+                  }
                   value={historySearch}
                   onChange={e => setHistorySearch(e.target.value)}
                   className="pl-10 w-full"
                 />
               </div>
               <div className="flex flex-wrap gap-2">
-                <Input
-                  type="date"
-                  value={historyDateFrom}
-                  onChange={e => setHistoryDateFrom(e.target.value)}
-                  className="flex-1 min-w-[130px]"
-                />
-                <Input
-                  type="date"
-                  value={historyDateTo}
-                  onChange={e => setHistoryDateTo(e.target.value)}
-                  className="flex-1 min-w-[130px]"
-                />
+                <BsDatePicker value={historyDateFrom} onChange={setHistoryDateFrom} placeholder="From" className="flex-1 min-w-[130px]" />
+                <BsDatePicker value={historyDateTo} onChange={setHistoryDateTo} placeholder="To" className="flex-1 min-w-[130px]" />
                 <Button variant="outline" size="sm" onClick={() => { setHistorySearch(''); setHistoryDateFrom(''); setHistoryDateTo(''); }}>
                   Clear
                 </Button>
@@ -1336,14 +1494,18 @@ export default function Admin() {
                     <div key={t.id} className="bg-card rounded-xl border border-border p-4">
                       <div className="flex justify-between items-start mb-2">
                         <div>
-                          <p className="font-bold">Table {t.tableNumber}</p>
-                          <p className="text-xs text-muted-foreground">{formatNepalDateTime(t.paidAt)}</p>
+                          <p className="font-bold">{getOrderDestination(t, diningTables)}</p>
+                          <p className="text-xs text-muted-foreground">{formatBsDateTime(t.paidAt)}</p>
                         </div>
                         <div className="text-right">
                           <p className="font-bold text-primary">रू {t.total}</p>
                           <span className={`text-xs px-2 py-0.5 rounded ${t.paymentMethod === 'cash' ? 'bg-success/10 text-success' : 'bg-accent/10 text-accent'}`}>
-                            {t.paymentMethod.toUpperCase()}
+                            {formatTenders(t)}
                           </span>
+                          {t.splitLabel && <p className="text-xs text-muted-foreground">{t.splitLabel}</p>}
+                          {!isSaleTransaction(t) && (
+                            <p className="text-xs text-destructive">{transactionKindLabels[t.kind ?? 'sale']}: {t.reason}</p>
+                          )}
                         </div>
                       </div>
                       <div className="text-xs text-muted-foreground mb-2">
@@ -1379,13 +1541,24 @@ export default function Admin() {
                           <tr><td colSpan={7} className="text-center py-8 text-muted-foreground">No transactions found</td></tr>
                         ) : filteredTransactions.slice(0, 50).map(t => (
                           <tr key={t.id} className="border-t border-border hover:bg-muted/50">
-                            <td className="p-4">{formatNepalDateTime(t.paidAt)}</td>
-                            <td className="p-4">Table {t.tableNumber}</td>
+                            <td className="p-4">
+                              {formatBsDateTime(t.paidAt)}
+                              {formatInvoiceNumber(t) && <p className="text-xs text-muted-foreground">Invoice {formatInvoiceNumber(t)}</p>}
+                            </td>
+                            <td className="p-4">{getOrderDestination(t, diningTables)}</td>
                             <td className="p-4">{t.customerPhones.join(', ') || 'Guest'}</td>
                             <td className="p-4 text-sm max-w-xs truncate">{t.items.map(i => `${i.qty}x ${i.name}`).join(', ')}</td>
                             <td className="p-4">{t.discount > 0 ? `-रू${t.discount}` : '-'}</td>
                             <td className="p-4 font-bold">रू {t.total}</td>
-                            <td className="p-4">{t.paymentMethod.toUpperCase()}</td>
+                            <td className="p-4">
+                              {formatTenders(t)}
+                              {t.splitLabel && <p className="text-xs text-muted-foreground">{t.splitLabel}</p>}
+                              {!isSaleTransaction(t) && (
+                                <p className="text-xs text-destructive">
+                                  {transactionKindLabels[t.kind ?? 'sale']}: {t.reason} ({t.approvedBy})
+                                </p>
+                              )}
+                            </td>
                           </tr>
                         ))}
                       </tbody>
@@ -1480,6 +1653,60 @@ export default function Admin() {
                 </div>
               </>
             )}
+
+            {/* Register Sessions View */}
+            {historyTab === 'registers' && (
+              <div className="bg-card rounded-xl border border-border overflow-hidden">
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-muted">
+                      <tr>
+                        <th className="text-left p-4">Opened</th>
+                        <th className="text-left p-4">Closed</th>
+                        <th className="text-left p-4">Float</th>
+                        <th className="text-left p-4">Cash Sales</th>
+                        <th className="text-left p-4">Expected</th>
+                        <th className="text-left p-4">Counted</th>
+                        <th className="text-left p-4">Variance</th>
+                        <th className="text-left p-4"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {filteredRegisterSessions.length === 0 ? (
+                        <tr><td colSpan={8} className="text-center py-8 text-muted-foreground">No register sessions found</td></tr>
+                      ) : filteredRegisterSessions.slice(0, 50).map(s => (
+                        <tr key={s.id} className="border-t border-border hover:bg-muted/50">
+                          <td className="p-4 text-sm">
+                            {formatNepalDateTime(s.openedAt)}
+                            <div className="text-xs text-muted-foreground">{s.openedBy}</div>
+                          </td>
+                          <td className="p-4 text-sm">
+                            {s.closedAt ? formatNepalDateTime(s.closedAt) : <span className="text-success font-medium">Open</span>}
+                            {s.closedBy && <div className="text-xs text-muted-foreground">{s.closedBy}</div>}
+                          </td>
+                          <td className="p-4">रू {s.openingFloat}</td>
+                          <td className="p-4">{s.cashPayments !== undefined ? `रू ${s.cashPayments}` : '-'}</td>
+                          <td className="p-4">{s.expectedCash !== undefined ? `रू ${s.expectedCash}` : '-'}</td>
+                          <td className="p-4">{s.countedCash !== undefined ? `रू ${s.countedCash}` : '-'}</td>
+                          <td className={`p-4 font-bold ${
+                            s.variance === undefined ? '' : s.variance === 0 ? 'text-success' : 'text-destructive'
+                          }`}>
+                            {s.variance !== undefined ? `${s.variance > 0 ? '+' : ''}रू ${s.variance}` : '-'}
+                          </td>
+                          <td className="p-4">
+                            {s.status === 'closed' && (
+                              <Button size="sm" variant="outline" onClick={() => printZReport(s, settings.restaurantName)}>
+                                <Printer className="w-4 h-4" />
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -1501,12 +1728,14 @@ export default function Admin() {
                       <p className="text-sm text-muted-foreground">@{s.username}</p>
                     </div>
                     <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                      s.role === 'admin' ? 'bg-primary/10 text-primary' : 'bg-muted text-muted-foreground'
+                      s.role === OWNER_ROLE ? 'bg-primary/10 text-primary' : 'bg-muted text-muted-foreground'
                     }`}>
-                      {s.role.toUpperCase()}
+                      {formatRoleName(s.role, roles).toUpperCase()}
                     </span>
                   </div>
-                  <p className="text-xs text-muted-foreground mb-3">Created: {formatNepalDateReadable(s.createdAt)}</p>
+                  <p className="text-xs text-muted-foreground mb-3">
+                    Created: {formatNepalDateReadable(s.createdAt)}{s.hasPin && ' · PIN set'}
+                  </p>
                   <div className="flex gap-2">
                     <Button size="sm" variant="outline" className="flex-1" onClick={() => setStaffModal({ open: true, editing: s })}>
                       <Edit className="w-3 h-3 mr-1" /> Edit
@@ -1518,6 +1747,8 @@ export default function Admin() {
                 </div>
               ))}
             </div>
+
+            <RolePermissionsMatrix />
           </div>
         )}
 
@@ -1530,10 +1761,11 @@ export default function Admin() {
                 <Download className="w-4 h-4 mr-2" /> Print All QR
               </Button>
             </div>
+            <FloorPlanEditor />
             <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-3 md:gap-4" ref={qrRef}>
-              {Array.from({ length: settings.tableCount }, (_, i) => i + 1).map(num => (
+              {diningTables.map(({ number: num }) => (
                 <div key={num} className="bg-card rounded-xl border border-border p-3 md:p-4 text-center">
-                  <p className="font-bold text-base md:text-lg mb-2">Table {num}</p>
+                  <p className="font-bold text-base md:text-lg mb-2 truncate">{getTableName(num, diningTables)}</p>
                   <div className="bg-white p-1 md:p-2 rounded-lg inline-block mb-2">
                     <QRCodeSVG
                       id={`qr-${num}`}
@@ -1553,6 +1785,21 @@ export default function Admin() {
           </div>
         )}
 
+        {/* Inventory */}
+        {tab === 'inventory' && <InventoryManager />}
+
+        {/* Purchasing */}
+        {tab === 'purchasing' && <PurchasingManager />}
+
+        {/* Promotions */}
+        {tab === 'promotions' && <PromotionsManager />}
+
+        {/* Customer Accounts */}
+        {tab === 'accounts' && <CustomerAccounts />}
+
+        {/* Audit Log */}
+        {tab === 'audit' && <AuditLog />}
+
         {/* Settings */}
         {tab === 'settings' && (
           <div className="max-w-5xl">
@@ -1571,10 +1818,6 @@ export default function Admin() {
                       <label className="text-sm font-medium">Restaurant Name</label>
                       <Input value={settings.restaurantName || ''} onChange={e => updateSettings({ restaurantName: e.target.value })} />
                     </div>
-                    <div>
-                      <label className="text-sm font-medium">Table Count</label>
-                      <Input type="number" value={settings.tableCount || 10} onChange={e => updateSettings({ tableCount: parseInt(e.target.value) || 10 })} />
-                    </div>
                     <div>
                       <label className="text-sm font-medium">Base URL (for QR codes)</label>
                       <div className="flex gap-2">
@@ -1620,24 +1863,7 @@ export default function Admin() {
                         Use hostname.local instead of IP to avoid issues when IP changes.
                       </p>
                     </div>
-                    
-                    <div className="pt-4 border-t border-border">
-                      <div className="flex items-center justify-between">
-                        <div>
-                          <label className="text-sm font-medium">Counter as Admin Mode</label>
-                          <p className="text-xs text-muted-foreground mt-1">
-                            Counter staff can access all admin features.
-                          </p>
-                        </div>
-                        <Switch
-                          checked={settings.counterAsAdmin || false}
-                          onCheckedChange={(checked) => {
-                            updateSettings({ counterAsAdmin: checked });
-                            toast.success(checked ? 'Counter staff now have admin access' : 'Counter staff have standard access');
-                          }}
-                        />
-                      </div>
-                    </div>
+
                   </div>
                 </div>
 
@@ -1758,6 +1984,206 @@ export default function Admin() {
                       Number of orders the kitchen can prepare simultaneously.
                     </p>
                   </div>
+                  <div className="mt-4">
+                    <label className="text-sm font-medium">Prep Stations</label>
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {stations.map(st => (
+                        <span key={st} className="inline-flex items-center gap-1 bg-muted px-2 py-1 rounded-lg text-sm">
+                          <a href={`/kitchen/${getStationSlug(st)}`} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                            {st}
+                          </a>
+                          {st !== DEFAULT_STATION && (settings.kitchenStations || []).includes(st) && (
+                            <button
+                              onClick={() => {
+                                if (categories.some(c => c.station === st)) {
+                                  toast.error(`Cannot remove: categories are routed to ${st}`);
+                                  return;
+                                }
+                                updateSettings({ kitchenStations: (settings.kitchenStations || []).filter(x => x !== st) });
+                              }}
+                              className="text-muted-foreground hover:text-destructive"
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          )}
+                        </span>
+                      ))}
+                    </div>
+                    <div className="flex gap-2 mt-2">
+                      <Input 
+                        value={newStationName}
+                        onChange={e => setNewStationName(e.target.value)}
+                        placeholder="e.g. Tea Bar, Bakery"
+                      />
+                      <Button
+                        variant="outline"
+                        disabled={!newStationName.trim()}
+                        onClick={() => {
+                          const name = sanitizeText(newStationName.trim());
+                          if (stations.some(st => getStationSlug(st) === getStationSlug(name))) {
+                            toast.error('Station already exists');
+                            return;
+                          }
+                          updateSettings({ kitchenStations: [...(settings.kitchenStations || []), name] });
+                          setNewStationName('');
+                        }}
+                      >
+                        <Plus className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Each station opens its own kitchen screen at /kitchen/station-name and prints its own chit.
+                    </p>
+                  </div>
+                </div>
+
+                {/* Pre-order Settings */}
+                <div className="bg-card rounded-xl border border-border p-5">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold flex items-center gap-2">
+                      <Clock className="w-5 h-5 text-primary" />
+                      Pre-orders
+                    </h3>
+                    <Switch
+                      checked={settings.preOrdersEnabled || false}
+                      onCheckedChange={(checked) => updateSettings({ preOrdersEnabled: checked })}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground mb-4">
+                    Customers can order takeaway for a later pickup slot. Each slot takes as many orders as the kitchen handles in parallel.
+                  </p>
+                  {settings.preOrdersEnabled && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="text-sm font-medium">First Pickup</label>
+                        <Input
+                          type="time"
+                          value={settings.preOrderOpenTime || '08:00'}
+                          onChange={e => updateSettings({ preOrderOpenTime: e.target.value || '08:00' })}
+                        />
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium">Last Pickup</label>
+                        <Input
+                          type="time"
+                          value={settings.preOrderCloseTime || '20:00'}
+                          onChange={e => updateSettings({ preOrderCloseTime: e.target.value || '20:00' })}
+                        />
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium">Slot Length (min)</label>
+                        <Input
+                          type="number"
+                          min="5"
+                          step="5"
+                          value={settings.preOrderSlotMinutes ?? 15}
+                          onChange={e => updateSettings({ preOrderSlotMinutes: Math.max(5, parseInt(e.target.value) || 15) })}
+                        />
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium">Send to Kitchen (min before)</label>
+                        <Input
+                          type="number"
+                          min="0"
+                          value={settings.preOrderReleaseMinutes ?? 20}
+                          onChange={e => updateSettings({ preOrderReleaseMinutes: Math.max(0, parseInt(e.target.value) || 0) })}
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {/* Reservation Settings */}
+                <div className="bg-card rounded-xl border border-border p-5">
+                  <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                    <CalendarClock className="w-5 h-5 text-primary" />
+                    Reservations
+                  </h3>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="text-sm font-medium">Table Time (min)</label>
+                      <Input
+                        type="number"
+                        min="15"
+                        step="15"
+                        value={settings.reservationMinutes ?? 90}
+                        onChange={e => updateSettings({ reservationMinutes: Math.max(15, parseInt(e.target.value) || 90) })}
+                      />
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium">Hold Table (min before)</label>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={settings.reservationHoldMinutes ?? 30}
+                        onChange={e => updateSettings({ reservationHoldMinutes: Math.max(0, parseInt(e.target.value) || 0) })}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    How long a party usually stays, used to space bookings and estimate waitlist times. Booked tables show as reserved on the floor plan from the hold time.
+                  </p>
+                </div>
+
+                {/* Delivery Settings */}
+                <div className="bg-card rounded-xl border border-border p-5">
+                  <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                    <Settings className="w-5 h-5 text-accent" />
+                    Delivery
+                  </h3>
+                  <div>
+                    <label className="text-sm font-medium">Default Delivery Fee (रू)</label>
+                    <Input 
+                      type="number" 
+                      min="0"
+                      value={settings.deliveryFee ?? 0} 
+                      onChange={e => updateSettings({ deliveryFee: Math.max(0, parseFloat(e.target.value) || 0) })} 
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Pre-filled on new delivery orders; it can be changed per order.
+                    </p>
+                  </div>
+                  <div className="mt-4">
+                    <label className="text-sm font-medium">Riders</label>
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {(settings.deliveryRiders || []).map(rider => (
+                        <span key={rider} className="inline-flex items-center gap-1 bg-muted px-2 py-1 rounded-lg text-sm">
+                          {rider}
+                          <button
+                            onClick={() => updateSettings({ deliveryRiders: (settings.deliveryRiders || []).filter(x => x !== rider) })}
+                            className="text-muted-foreground hover:text-destructive"
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                    <div className="flex gap-2 mt-2">
+                      <Input 
+                        value={newRiderName}
+                        onChange={e => setNewRiderName(e.target.value)}
+                        placeholder="Rider name"
+                      />
+                      <Button
+                        variant="outline"
+                        disabled={!newRiderName.trim()}
+                        onClick={() => {
+                          const name = sanitizeText(newRiderName.trim());
+                          if ((settings.deliveryRiders || []).some(x => x.toLowerCase() === name.toLowerCase())) {
+                            toast.error('Rider already exists');
+                            return;
+                          }
+                          updateSettings({ deliveryRiders: [...(settings.deliveryRiders || []), name] });
+                          setNewRiderName('');
+                        }}
+                      >
+                        <Plus className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Riders are assigned to delivery orders from the Counter.
+                    </p>
+                  </div>
                 </div>
 
                 {/* Theme & Sound Settings */}
@@ -1819,6 +2245,78 @@ export default function Admin() {
                   </div>
                 </div>
 
+                {/* Tax & Invoicing */}
+                <div className="bg-card rounded-xl border border-border p-5">
+                  <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                    <Receipt className="w-5 h-5 text-primary" />
+                    Tax & Invoicing
+                  </h3>
+                  <div className="space-y-4">
+                    <div>
+                      <label className="text-sm font-medium">PAN / VAT Number</label>
+                      <Input
+                        value={settings.panNumber || ''}
+                        onChange={e => updateSettings({ panNumber: e.target.value.replace(/\D/g, '').slice(0, 9) })}
+                        placeholder="9-digit PAN"
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Printed on every invoice.
+                      </p>
+                    </div>
+
+                    <div className="flex items-center justify-between pt-4 border-t border-border">
+                      <div>
+                        <label className="text-sm font-medium">Service Charge</label>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Added on the bill after discounts, before VAT.
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        {settings.serviceChargeEnabled && (
+                          <Input
+                            type="number"
+                            min="0"
+                            className="w-20"
+                            value={settings.serviceChargeRate ?? DEFAULT_SERVICE_CHARGE_RATE}
+                            onChange={e => updateSettings({ serviceChargeRate: parseFloat(e.target.value) || 0 })}
+                          />
+                        )}
+                        <Switch
+                          checked={settings.serviceChargeEnabled || false}
+                          onCheckedChange={(checked) => updateSettings({ serviceChargeEnabled: checked })}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="flex items-center justify-between pt-4 border-t border-border">
+                      <div>
+                        <label className="text-sm font-medium">VAT Registered</label>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Charges VAT on taxable items and prints tax invoices.
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        {settings.vatEnabled && (
+                          <Input
+                            type="number"
+                            min="0"
+                            className="w-20"
+                            value={settings.vatRate ?? DEFAULT_VAT_RATE}
+                            onChange={e => updateSettings({ vatRate: parseFloat(e.target.value) || 0 })}
+                          />
+                        )}
+                        <Switch
+                          checked={settings.vatEnabled || false}
+                          onCheckedChange={(checked) => updateSettings({ vatEnabled: checked })}
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Invoice numbers run without gaps and restart every fiscal year (1 Shrawan). Mark VAT-exempt items on the menu.
+                    </p>
+                  </div>
+                </div>
+
                 {/* Loyalty Point System */}
                 <div className="bg-card rounded-xl border border-border p-5">
                   <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
@@ -1908,11 +2406,130 @@ export default function Admin() {
                           </p>
                         </div>
                       </div>
-                      
+
+                      <div>
+                        <label className="text-sm font-medium">Points expire after (months)</label>
+                        <Input 
+                          type="number" 
+                          min="0"
+                          value={settings.pointsExpiryMonths || ''} 
+                          onChange={e => updateSettings({ pointsExpiryMonths: parseInt(e.target.value) || 0 })} 
+                          placeholder="Never"
+                          className="w-40"
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Unspent points lapse this long after they were earned. Leave empty to keep them forever.
+                        </p>
+                      </div>
+
+                      {/* Tiers */}
+                      <div className="pt-4 border-t border-border">
+                        <div className="flex items-center justify-between mb-2">
+                          <div>
+                            <label className="text-sm font-medium">Tiers</label>
+                            <p className="text-xs text-muted-foreground">Customers move up by lifetime spend and earn points faster.</p>
+                          </div>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => updateSettings({ loyaltyTiers: [...(settings.loyaltyTiers || []), { name: '', minSpent: 0, multiplier: 1 }] })}
+                          >
+                            <Plus className="w-4 h-4 mr-1" /> Tier
+                          </Button>
+                        </div>
+                        {(settings.loyaltyTiers || []).map((tier, index) => {
+                          const updateTier = (changes: Partial<LoyaltyTier>) => updateSettings({
+                            loyaltyTiers: (settings.loyaltyTiers || []).map((t, i) => i === index ? { ...t, ...changes } : t),
+                          });
+                          return (
+                            <div key={index} className="grid grid-cols-[1fr_7rem_5rem_auto] gap-2 mb-2 items-center">
+                              <Input placeholder="Name (e.g. Gold)" value={tier.name} onChange={e => updateTier({ name: e.target.value })} />
+                              <Input
+                                type="number"
+                                min="0"
+                                placeholder="From रू"
+                                value={tier.minSpent || ''}
+                                onChange={e => updateTier({ minSpent: parseFloat(e.target.value) || 0 })}
+                              />
+                              <Input
+                                type="number"
+                                min="0"
+                                step="0.1"
+                                placeholder="×"
+                                value={tier.multiplier}
+                                onChange={e => updateTier({ multiplier: parseFloat(e.target.value) || 1 })}
+                              />
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="text-destructive hover:text-destructive"
+                                onClick={() => updateSettings({ loyaltyTiers: (settings.loyaltyTiers || []).filter((_, i) => i !== index) })}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          );
+                        })}
+                        {(settings.loyaltyTiers || []).length > 0 && (
+                          <p className="text-xs text-muted-foreground">Name, lifetime spend from (रू), points multiplier</p>
+                        )}
+                      </div>
+
+                      {/* Earn rules */}
+                      <div className="pt-4 border-t border-border">
+                        <div className="flex items-center justify-between mb-2">
+                          <div>
+                            <label className="text-sm font-medium">Category Bonuses</label>
+                            <p className="text-xs text-muted-foreground">Earn more (or fewer) points on some categories.</p>
+                          </div>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={categories.length === 0}
+                            onClick={() => updateSettings({ loyaltyEarnRules: [...(settings.loyaltyEarnRules || []), { category: categories[0].name, multiplier: 2 }] })}
+                          >
+                            <Plus className="w-4 h-4 mr-1" /> Rule
+                          </Button>
+                        </div>
+                        {(settings.loyaltyEarnRules || []).map((rule, index) => {
+                          const updateRule = (changes: Partial<LoyaltyEarnRule>) => updateSettings({
+                            loyaltyEarnRules: (settings.loyaltyEarnRules || []).map((r, i) => i === index ? { ...r, ...changes } : r),
+                          });
+                          return (
+                            <div key={index} className="grid grid-cols-[1fr_5rem_auto] gap-2 mb-2 items-center">
+                              <Select value={rule.category} onValueChange={category => updateRule({ category })}>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                  {categories.map(cat => (
+                                    <SelectItem key={cat.id} value={cat.name}>{cat.name}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <Input
+                                type="number"
+                                min="0"
+                                step="0.1"
+                                value={rule.multiplier}
+                                onChange={e => updateRule({ multiplier: parseFloat(e.target.value) || 0 })}
+                              />
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="text-destructive hover:text-destructive"
+                                onClick={() => updateSettings({ loyaltyEarnRules: (settings.loyaltyEarnRules || []).filter((_, i) => i !== index) })}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          );
+                        })}
+                      </div>
                     </div>
                   )}
                 </div>
 
+                {hasPermission(currentUser, 'manage_settings') && <PaymentGatewaySettings />}
+
                 {/* Social Media Links */}
                 <div className="bg-card rounded-xl border border-border p-5">
                   <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
@@ -2033,9 +2650,25 @@ export default function Admin() {
                 )}
               </div>
             </div>
+            <ModifierGroupsEditor
+              groups={newItem.modifierGroups}
+              onChange={(modifierGroups) => setNewItem({ ...newItem, modifierGroups })}
+            />
+            <RecipeEditor
+              recipe={newItem.recipe}
+              price={parseFloat(newItem.price) || 0}
+              onChange={(recipe) => setNewItem({ ...newItem, recipe })}
+            />
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium">VAT applicable</label>
+              <Switch 
+                checked={newItem.taxable} 
+                onCheckedChange={(checked) => setNewItem({ ...newItem, taxable: checked })}
+              />
+            </div>
           </div>
           <DialogFooter>
-            <Button variant="outline" onClick={() => { setIsAddingItem(false); setNewItem({ name: '', price: '', category: '', description: '', image: '' }); }}>Cancel</Button>
+            <Button variant="outline" onClick={() => { setIsAddingItem(false); setNewItem({ name: '', price: '', category: '', description: '', image: '', modifierGroups: [], taxable: true, recipe: [] }); }}>Cancel</Button>
             <Button onClick={handleAddItem} className="gradient-primary">Add Item</Button>
           </DialogFooter>
         </DialogContent>
@@ -2103,6 +2736,15 @@ export default function Admin() {
                   )}
                 </div>
               </div>
+              <ModifierGroupsEditor
+                groups={editingItem.modifierGroups || []}
+                onChange={(modifierGroups) => setEditingItem({ ...editingItem, modifierGroups })}
+              />
+              <RecipeEditor
+                recipe={editingItem.recipe || []}
+                price={editingItem.price || 0}
+                onChange={(recipe) => setEditingItem({ ...editingItem, recipe })}
+              />
               <div className="flex items-center justify-between">
                 <label className="text-sm font-medium">Available</label>
                 <Switch 
@@ -2110,6 +2752,13 @@ export default function Admin() {
                   onCheckedChange={(checked) => setEditingItem({ ...editingItem, available: checked })}
                 />
               </div>
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium">VAT applicable</label>
+                <Switch 
+                  checked={editingItem.taxable !== false} 
+                  onCheckedChange={(checked) => setEditingItem({ ...editingItem, taxable: checked })}
+                />
+              </div>
             </div>
           )}
           <DialogFooter>
@@ -2145,7 +2794,7 @@ export default function Admin() {
                 <Button 
                   onClick={() => {
                     if (newCategoryName.trim()) {
-                      addCategory(newCategoryName.trim(), parseInt(newCategoryPrepTime) || 5);
+                      addCategory(newCategoryName.trim(), parseInt(newCategoryPrepTime) || 5, newCategoryStation);
                       setNewCategoryName('');
                       setNewCategoryPrepTime('5');
                       toast.success('Category added');
@@ -2156,8 +2805,12 @@ export default function Admin() {
                   <Plus className="w-4 h-4" />
                 </Button>
               </div>
+              <Select value={newCategoryStation} onValueChange={setNewCategoryStation}>
+                <SelectTrigger className="h-9"><SelectValue placeholder="Prep station" /></SelectTrigger>
+                <SelectContent>{stations.map(st => <SelectItem key={st} value={st}>{st}</SelectItem>)}</SelectContent>
+              </Select>
               <p className="text-xs text-muted-foreground">
-                Prep time is in minutes (used for wait time estimation)
+                Prep time is in minutes (used for wait time estimation). Station decides which kitchen screen gets the items.
               </p>
             </div>
 
@@ -2262,7 +2915,7 @@ export default function Admin() {
                           onChange={e => setEditingCategory({ ...editingCategory, name: e.target.value })}
                           onKeyDown={e => {
                             if (e.key === 'Enter' && editingCategory.name.trim()) {
-                              updateCategory(cat.id, editingCategory.name.trim(), editingCategory.prepTime);
+                              updateCategory(cat.id, editingCategory.name.trim(), editingCategory.prepTime, editingCategory.station);
                               setEditingCategory(null);
                               toast.success('Category updated');
                             } else if (e.key === 'Escape') {
@@ -2282,9 +2935,16 @@ export default function Admin() {
                           max="60"
                           placeholder="min"
                         />
+                        <Select 
+                          value={editingCategory.station || DEFAULT_STATION} 
+                          onValueChange={(v: string) => setEditingCategory({ ...editingCategory, station: v })}
+                        >
+                          <SelectTrigger className="w-28 h-9"><SelectValue /></SelectTrigger>
+                          <SelectContent>{stations.map(st => <SelectItem key={st} value={st}>{st}</SelectItem>)}</SelectContent>
+                        </Select>
                         <Button size="sm" variant="ghost" onClick={() => {
                           if (editingCategory.name.trim()) {
-                            updateCategory(cat.id, editingCategory.name.trim(), editingCategory.prepTime);
+                            updateCategory(cat.id, editingCategory.name.trim(), editingCategory.prepTime, editingCategory.station);
                             setEditingCategory(null);
                             toast.success('Category updated');
                           }
@@ -2304,10 +2964,13 @@ export default function Admin() {
                         <span className="text-xs text-muted-foreground bg-muted px-1.5 py-0.5 rounded">
                           {cat.prepTime || 5}m
                         </span>
+                        <span className="text-xs text-muted-foreground bg-background px-1.5 py-0.5 rounded">
+                          {cat.station || DEFAULT_STATION}
+                        </span>
                         <span className="text-xs text-muted-foreground">
                           {menuItems.filter(m => m.category === cat.name).length} items
                         </span>
-                        <Button size="sm" variant="ghost" onClick={() => setEditingCategory({ id: cat.id, name: cat.name, prepTime: cat.prepTime || 5 })}>
+                        <Button size="sm" variant="ghost" onClick={() => setEditingCategory({ id: cat.id, name: cat.name, prepTime: cat.prepTime || 5, station: cat.station || DEFAULT_STATION })}>
                           <Edit className="w-4 h-4" />
                         </Button>
                         <Button 
@@ -2385,11 +3048,15 @@ export default function Admin() {
               <div className="bg-muted p-4 rounded-lg">
                 <p className="text-sm text-muted-foreground">Loyalty Tier</p>
                 <p className="font-bold">
-                  {customerDetailModal.totalSpent >= 10000 ? '🥇 Gold' : 
-                   customerDetailModal.totalSpent >= 5000 ? '🥈 Silver' : 
-                   customerDetailModal.totalSpent >= 1000 ? '🥉 Bronze' : '⭐ Regular'}
+                  {getLoyaltyTier(customerDetailModal.totalSpent, settings)?.name ?? 'Regular'}
                 </p>
               </div>
+              {settings.pointSystemEnabled && (
+                <CustomerPointsPanel
+                  phone={customerDetailModal.phone}
+                  onAdjusted={points => setCustomerDetailModal(prev => prev && { ...prev, points })}
+                />
+              )}
             </div>
           )}
         </DialogContent>
@@ -2463,21 +3130,23 @@ export default function Admin() {
                   onChange={e => e.target.value && setStaffModal({ ...staffModal, editing: { ...staffModal.editing!, password: e.target.value }})} 
                 />
                 <Input 
-                  placeholder="PIN (4-6 digits for quick actions)" 
+                  placeholder={staffModal.editing.hasPin ? 'New PIN (leave empty to keep)' : 'PIN (4-6 digits for quick actions)'}
                   type="text"
                   inputMode="numeric"
                   maxLength={6}
                   value={staffModal.editing.pin || ''}
-                  onChange={e => setStaffModal({ ...staffModal, editing: { ...staffModal.editing!, pin: e.target.value.replace(/\D/g, '').slice(0, 6) }})} 
+                  onChange={e => setStaffModal({ ...staffModal, editing: { ...staffModal.editing!, pin: e.target.value.replace(/\D/g, '').slice(0, 6) || undefined }})} 
                 />
                 <Select 
                   value={staffModal.editing.role} 
-                  onValueChange={(v: 'admin' | 'counter') => setStaffModal({ ...staffModal, editing: { ...staffModal.editing!, role: v }})}
+                  onValueChange={(v) => setStaffModal({ ...staffModal, editing: { ...staffModal.editing!, role: v }})}
+                  disabled={staffModal.editing.role === OWNER_ROLE && currentUser?.role !== OWNER_ROLE}
                 >
                   <SelectTrigger><SelectValue /></SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="admin">Admin</SelectItem>
-                    <SelectItem value="counter">Counter</SelectItem>
+                    {assignableRoles.map(r => (
+                      <SelectItem key={r.id} value={r.id}>{r.name}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </>
@@ -2494,11 +3163,12 @@ export default function Admin() {
                   value={newStaff.pin}
                   onChange={e => setNewStaff({ ...newStaff, pin: e.target.value.replace(/\D/g, '').slice(0, 6) })} 
                 />
-                <Select value={newStaff.role} onValueChange={(v: 'admin' | 'counter') => setNewStaff({ ...newStaff, role: v })}>
+                <Select value={newStaff.role} onValueChange={(v) => setNewStaff({ ...newStaff, role: v })}>
                   <SelectTrigger><SelectValue /></SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="admin">Admin</SelectItem>
-                    <SelectItem value="counter">Counter</SelectItem>
+                    {assignableRoles.map(r => (
+                      <SelectItem key={r.id} value={r.id}>{r.name}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </>
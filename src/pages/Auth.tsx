@@ -3,34 +3,45 @@ import { useNavigate } from 'react-router-dom';
 import { useStore } from '@/store/useStore';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Lock, User, Coffee } from 'lucide-react';
+import { Lock, User, Coffee, BadgeCheck } from 'lucide-react';
 import { toast } from 'sonner';
 import { 
   usernameSchema, 
   passwordSchema, 
+  staffNameSchema, 
   validateInput, 
   checkLoginRateLimit, 
   recordLoginAttempt 
 } from '@/lib/validation';
+import { getHomeRoute } from '@/lib/permissions';
+import { authApi } from '@/lib/apiClient';
 
 export default function Auth() {
   const navigate = useNavigate();
-  const { login, isAuthenticated, currentUser, settings } = useStore();
+  const { login, setupOwner, verifySession, isAuthenticated, currentUser, settings } = useStore();
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [needsSetup, setNeedsSetup] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
 
+  // Pick up a still-valid session from an earlier sign-in
+  useEffect(() => {
+    verifySession();
+  }, [verifySession]);
+
+  // A fresh install has no staff yet: ask for the owner account instead
+  useEffect(() => {
+    authApi.needsSetup().then(setNeedsSetup).catch(() => setNeedsSetup(false));
+  }, []);
+
   // Redirect if already logged in
   useEffect(() => {
     if (isAuthenticated && currentUser) {
-      // Counter users go to admin if counterAsAdmin is enabled
-      if (currentUser.role === 'admin' || settings.counterAsAdmin) {
-        navigate('/admin');
-      } else {
-        navigate('/counter');
-      }
+      navigate(getHomeRoute(currentUser));
     }
-  }, [isAuthenticated, currentUser, settings.counterAsAdmin, navigate]);
+  }, [isAuthenticated, currentUser, navigate]);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -55,22 +66,39 @@ export default function Auth() {
       return;
     }
 
+    if (needsSetup) {
+      const nameValidation = validateInput(staffNameSchema, name);
+      if (!nameValidation.success) {
+        toast.error(nameValidation.error);
+        return;
+      }
+      if (password !== confirmPassword) {
+        toast.error('Passwords do not match');
+        return;
+      }
+      setIsLoading(true);
+      try {
+        const signedIn = await setupOwner(username, password, name);
+        setNeedsSetup(false);
+        toast.success(signedIn ? 'Owner account created' : 'Owner account created, please sign in');
+        if (signedIn) navigate(getHomeRoute(useStore.getState().currentUser));
+      } catch (err) {
+        toast.error((err as { message?: string })?.message || 'Could not create the owner account');
+        setNeedsSetup(await authApi.needsSetup().catch(() => false));
+      } finally {
+        setIsLoading(false);
+      }
+      return;
+    }
+
     setIsLoading(true);
-    await new Promise(resolve => setTimeout(resolve, 300));
 
-    const success = login(username, password);
+    const success = await login(username, password);
     recordLoginAttempt(username, success);
     
     if (success) {
       toast.success('Login successful!');
-      const user = useStore.getState().currentUser;
-      const currentSettings = useStore.getState().settings;
-      // Counter users go to admin if counterAsAdmin is enabled
-      if (user?.role === 'admin' || currentSettings.counterAsAdmin) {
-        navigate('/admin');
-      } else {
-        navigate('/counter');
-      }
+      navigate(getHomeRoute(useStore.getState().currentUser));
     } else {
       const attemptsLeft = rateLimit.attemptsLeft ? rateLimit.attemptsLeft - 1 : 0;
       if (attemptsLeft > 0) {
@@ -97,12 +125,27 @@ export default function Auth() {
           <Coffee className="w-8 h-8 text-primary-foreground" />
         </div>
         
-        <h1 className="font-serif text-3xl font-bold text-center mb-2">Welcome Back</h1>
+        <h1 className="font-serif text-3xl font-bold text-center mb-2">{needsSetup ? 'Welcome' : 'Welcome Back'}</h1>
         <p className="text-muted-foreground text-center mb-8">
-          Sign in to {settings.restaurantName}
+          {needsSetup ? `Create the owner account for ${settings.restaurantName}` : `Sign in to ${settings.restaurantName}`}
         </p>
 
         <form onSubmit={handleLogin} className="space-y-5">
+          {needsSetup && (
+            <div className="relative">
+              <BadgeCheck className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+              <Input
+                type="text"
+                placeholder="Your name"
+                value={name}
+                onChange={(e) => setName(e.target.value.slice(0, 50))}
+                className="pl-12 h-14 bg-muted/50 border-border rounded-xl text-base"
+                required
+                maxLength={50}
+              />
+            </div>
+          )}
+
           <div className="relative">
             <User className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
             <Input
@@ -129,17 +172,36 @@ export default function Auth() {
             />
           </div>
 
+          {needsSetup && (
+            <div className="relative">
+              <Lock className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+              <Input
+                type="password"
+                placeholder="Confirm password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value.slice(0, 50))}
+                className="pl-12 h-14 bg-muted/50 border-border rounded-xl text-base"
+                required
+                maxLength={50}
+              />
+            </div>
+          )}
+
           <Button
             type="submit"
             className="w-full h-14 gradient-primary text-primary-foreground font-bold rounded-xl shadow-warm hover:opacity-90 transition-opacity text-base"
             disabled={isLoading}
           >
-            {isLoading ? 'Signing In...' : 'Sign In'}
+            {needsSetup
+              ? (isLoading ? 'Creating Account...' : 'Create Owner Account')
+              : (isLoading ? 'Signing In...' : 'Sign In')}
           </Button>
         </form>
 
         <p className="mt-6 text-xs text-center text-muted-foreground">
-          Contact your administrator for login credentials
+          {needsSetup
+            ? 'This only shows until the first account exists. Add the rest of your staff from the admin panel.'
+            : 'Contact your administrator for login credentials'}
         </p>
       </div>
     </div>
@@ -1,7 +1,7 @@
-import { useState, useRef, useMemo } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useStore } from '@/store/useStore';
-import { Order, OrderItem, Expense } from '@/types';
+import { Order, OrderItem, OrderType, DeliveryDetails, Expense, Bill, PaymentMethod, GatewayMethod, PaymentGateway, Tender, Transaction, AppliedPromotion, Promotion } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
@@ -19,26 +19,57 @@ import {
   Bell,
   Settings,
   Map,
-  Calculator
+  Calculator,
+  RotateCcw,
+  ShoppingBag,
+  Bike
 } from 'lucide-react';
 import { toast } from 'sonner';
-import { formatNepalTime, formatNepalDateTime } from '@/lib/nepalTime';
-import FonepayQR from '@/components/FonepayQR';
+import { formatNepalTime, formatNepalDate, formatNepalDateTime } from '@/lib/nepalTime';
+import { formatBsDateTime } from '@/lib/bikramSambat';
+import { formatItemName } from '@/lib/modifiers';
+import { getPointsDiscount } from '@/lib/loyalty';
+import { applyPromotions, findCoupon, getPromotionDiscount } from '@/lib/promotions';
+import { getItemStatus, getOrderProgress, itemStatusLabels } from '@/lib/itemStatus';
+import { StatusBadge } from '@/components/ui/StatusBadge';
+import { getItemStation } from '@/lib/stations';
+import { getOrderIdsInOpenSplits, getPaidOrderIds, getPaymentMethodLabel, formatTenders, isSaleTransaction, roundMoney, SplitPart } from '@/lib/billing';
+import { getRefundableAmount, isCorrectable, transactionKindLabels } from '@/lib/refunds';
+import { canAccessAdmin } from '@/lib/permissions';
+import { calculateBillTax, formatInvoiceNumber, getBillTax, getInvoiceTitle, getServiceChargeRate, getVatRate, PrintMode } from '@/lib/tax';
+import { SplitBillDialog } from '@/components/SplitBillDialog';
+import { BillCorrectionDialog } from '@/components/BillCorrectionDialog';
+import { BsDatePicker } from '@/components/BsDatePicker';
+import { GatewayPayment } from '@/components/GatewayPayment';
+import { GATEWAY_METHODS, gatewayColors, isGatewayMethod, paymentMethodLabels } from '@/lib/paymentGateways';
+import { getAccountBalance, getAvailableCredit, hasAccount } from '@/lib/accounts';
+import { paymentGatewaysApi } from '@/lib/apiClient';
 import { useOrderNotification } from '@/hooks/useOrderNotification';
 import { useWaiterCallNotification } from '@/hooks/useWaiterCallNotification';
 import { useAutoCancel } from '@/hooks/useAutoCancel';
-import { TableMap } from '@/components/ui/TableMap';
+import { TableOverview } from '@/components/TableOverview';
+import { Reservations } from '@/components/Reservations';
 import { CashRegister } from '@/components/CashRegister';
+import { QuickSale } from '@/components/QuickSale';
+import { LowStockAlert } from '@/components/LowStockAlert';
 import { closeTableSession } from '@/lib/sessionManager';
+import { getTableName } from '@/lib/tables';
+import { getDeliveryFee, getOrderDestination, isTableOrder } from '@/lib/orderTypes';
+import { formatPickupTime, getReleaseTime, isReleasedToKitchen } from '@/lib/preOrders';
 import { recordPaymentBlocksForPhones } from '@/lib/paymentBlockApi';
 
 interface BillGroup {
   key: string;
   phone: string;
   tableNumber: number;
+  orderType?: OrderType;
+  orderIds: string[];
+  delivery?: DeliveryDetails;
+  scheduledFor?: string;
   points: number;
   subtotal: number;
   items: { name: string; qty: number; price: number; total: number }[];
+  progress: { done: number; total: number };
   createdAt: string;
 }
 
@@ -46,6 +77,8 @@ interface PendingOrderGroup {
   key: string;
   phone: string;
   tableNumber: number;
+  orderType?: OrderType;
+  scheduledFor?: string;
   orders: Order[];
   allItems: OrderItem[];
   createdAt: string;
@@ -69,9 +102,11 @@ export default function Counter() {
     bills, 
     transactions,
     customers,
+    accountPayments,
     expenses,
     waiterCalls,
     createBill, 
+    createSplitBills,
     payBill,
     updateOrderStatus,
     addExpense,
@@ -83,14 +118,20 @@ export default function Counter() {
     currentUser,
     logout,
     settings,
-    getCustomerPoints
+    diningTables,
+    menuItems,
+    promotions,
+    releaseTable,
+    assignRider,
+    getCustomerPoints,
+    hasPermission
   } = useStore();
 
-  const [activeTab, setActiveTab] = useState<'active' | 'accepted' | 'history' | 'expenses'>('active');
+  const [activeTab, setActiveTab] = useState<'active' | 'accepted' | 'history' | 'reservations' | 'expenses'>('active');
   const [searchInput, setSearchInput] = useState('');
-  const [selectedPhones, setSelectedPhones] = useState<string[]>([]);
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
   const [paymentModalOpen, setPaymentModalOpen] = useState(false);
-  const [fonepayModalOpen, setFonepayModalOpen] = useState(false);
+  const [gatewayModalOpen, setGatewayModalOpen] = useState(false);
   const [successModalOpen, setSuccessModalOpen] = useState(false);
   const [detailModalOpen, setDetailModalOpen] = useState(false);
   const [historyDate, setHistoryDate] = useState('');
@@ -99,6 +140,8 @@ export default function Counter() {
   const [acceptedLimit, setAcceptedLimit] = useState(10);
   const [expensesLimit, setExpensesLimit] = useState(10);
   const [redeemPoints, setRedeemPoints] = useState(false);
+  const [couponCode, setCouponCode] = useState('');
+  const [coupon, setCoupon] = useState<Promotion | null>(null);
   const [lastPaidData, setLastPaidData] = useState<any>(null);
   const [currentDetailData, setCurrentDetailData] = useState<any>(null);
   
@@ -109,9 +152,30 @@ export default function Counter() {
   // Table Map and Cash Register states
   const [tableMapOpen, setTableMapOpen] = useState(false);
   const [cashRegisterOpen, setCashRegisterOpen] = useState(false);
+  const [quickSaleOpen, setQuickSaleOpen] = useState(false);
+
+  // Split bill and tender states
+  const [splitDialogOpen, setSplitDialogOpen] = useState(false);
+  const [payingSplitBill, setPayingSplitBill] = useState<Bill | null>(null);
+  const [mixedCash, setMixedCash] = useState('');
+  const [accountPhone, setAccountPhone] = useState('');
+  const [mixedMethod, setMixedMethod] = useState<GatewayMethod>('fonepay');
+  const [pendingTenders, setPendingTenders] = useState<Tender[]>([]);
+  const [gateways, setGateways] = useState<PaymentGateway[]>([]);
+
+  // Void / refund of a paid sale
+  const [detailSale, setDetailSale] = useState<Transaction | null>(null);
+  const [correctionOpen, setCorrectionOpen] = useState(false);
 
   const isDataLoaded = useStore(state => state.isDataLoaded);
 
+  // Which gateways confirm by themselves; the rest are confirmed by staff
+  useEffect(() => {
+    paymentGatewaysApi.getAll()
+      .then(setGateways)
+      .catch(err => console.warn('[Counter] Could not load payment gateways:', err));
+  }, []);
+
   // Show loading while data is being fetched
   if (!isDataLoaded) {
     return (
@@ -124,15 +188,24 @@ export default function Counter() {
     );
   }
 
-  // Redirect if not authenticated
-  if (!isAuthenticated) {
+  // Redirect if not authenticated or not allowed on the counter
+  if (!isAuthenticated || !hasPermission('use_counter')) {
     navigate('/auth');
     return null;
   }
 
   // Filter orders
   const pendingOrdersRaw = orders.filter(o => o.status === 'pending');
-  const acceptedOrders = orders.filter(o => o.status === 'accepted');
+  // Accepted orders stay billable while the kitchen works through their lines
+  const paidOrderIds = getPaidOrderIds(bills);
+  const acceptedOrders = orders.filter(o => 
+    ['accepted', 'preparing', 'ready', 'served'].includes(o.status) && !paidOrderIds.has(o.id)
+  );
+  const splitOrderIds = getOrderIdsInOpenSplits(bills);
+  // Unpaid sub-bills, grouped by split
+  const openSplitBills = bills
+    .filter(b => b.splitGroupId && b.status === 'unpaid')
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
   
   // Filter accepted orders with search for display
   const getFilteredAcceptedOrders = () => {
@@ -141,6 +214,7 @@ export default function Counter() {
       const term = searchInput.toLowerCase();
       data = data.filter(o => 
         o.tableNumber.toString().includes(term) ||
+        getOrderDestination(o, diningTables).toLowerCase().includes(term) ||
         (o.customerPhone || '').toLowerCase().includes(term) ||
         o.id.toLowerCase().includes(term) ||
         o.items.some(i => i.name.toLowerCase().includes(term))
@@ -155,12 +229,15 @@ export default function Counter() {
     const groups: Record<string, PendingOrderGroup> = {};
     
     pendingOrdersRaw.forEach(order => {
-      const key = `${order.tableNumber}_${order.customerPhone || 'Guest'}`;
+      // Pre-orders are takeaway orders and are accepted one by one
+      const key = isTableOrder(order) ? `${order.tableNumber}_${order.customerPhone || 'Guest'}` : `order_${order.id}`;
       if (!groups[key]) {
         groups[key] = {
           key,
           phone: order.customerPhone || 'Guest',
           tableNumber: order.tableNumber,
+          orderType: order.orderType,
+          scheduledFor: order.scheduledFor,
           orders: [],
           allItems: [],
           createdAt: order.createdAt
@@ -181,36 +258,43 @@ export default function Counter() {
 
   const pendingOrders = getGroupedPendingOrders();
 
-  // Group accepted orders by table+phone for billing
+  // Group accepted orders by table+phone for billing; orders without a table are billed one by one
   const getBillGroups = (): BillGroup[] => {
     const groups: Record<string, BillGroup> = {};
     
     acceptedOrders.forEach(order => {
-      // Check if already billed
-      const alreadyBilled = bills.some(b => 
-        b.status === 'paid' && b.orders.some(bo => bo.id === order.id)
-      );
-      if (alreadyBilled) return;
+      // Orders in an unfinished split are paid through their sub-bills
+      if (splitOrderIds.has(order.id)) return;
 
-      const key = `${order.tableNumber}_${order.customerPhone || 'Guest'}`;
+      const key = isTableOrder(order) ? `${order.tableNumber}_${order.customerPhone || 'Guest'}` : `order_${order.id}`;
       if (!groups[key]) {
         const customerPoints = getCustomerPoints(order.customerPhone);
         groups[key] = {
           key,
           phone: order.customerPhone || 'Guest',
           tableNumber: order.tableNumber,
+          orderType: order.orderType,
+          orderIds: [],
+          delivery: order.delivery,
+          scheduledFor: order.scheduledFor,
           points: customerPoints,
           subtotal: 0,
           items: [],
+          progress: { done: 0, total: 0 },
           createdAt: order.createdAt
         };
       }
       
+      groups[key].orderIds.push(order.id);
+      const progress = getOrderProgress(order);
+      groups[key].progress.done += progress.done;
+      groups[key].progress.total += progress.total;
+
       order.items.forEach(item => {
         const itemTotal = item.qty * item.price;
         groups[key].subtotal += itemTotal;
         groups[key].items.push({
-          name: item.name,
+          name: formatItemName(item),
           qty: item.qty,
           price: item.price,
           total: itemTotal
@@ -218,27 +302,47 @@ export default function Counter() {
       });
     });
 
-    // Apply search filter
-    let result = Object.values(groups);
-    if (searchInput) {
-      const term = searchInput.toLowerCase();
-      result = result.filter(g => 
-        g.tableNumber.toString().includes(term) || 
-        g.phone.toLowerCase().includes(term)
-      );
-    }
-
-    return result.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    return Object.values(groups).sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
   };
 
-  const billGroups = getBillGroups();
+  const allBillGroups = getBillGroups();
+
+  // Apply search filter
+  const getFilteredBillGroups = () => {
+    if (!searchInput) return allBillGroups;
+    const term = searchInput.toLowerCase();
+    return allBillGroups.filter(g => 
+      g.tableNumber.toString().includes(term) || 
+      getOrderDestination(g, diningTables).toLowerCase().includes(term) ||
+      g.phone.toLowerCase().includes(term) ||
+      (g.delivery?.address || '').toLowerCase().includes(term)
+    );
+  };
+  const billGroups = getFilteredBillGroups();
 
   // Get selected groups for payment
-  const selectedGroups = billGroups.filter(g => selectedPhones.includes(g.phone));
+  const selectedGroups = allBillGroups.filter(g => selectedKeys.includes(g.key));
+  const selectedPhones = selectedGroups.map(g => g.phone);
   const paymentSubtotal = selectedGroups.reduce((sum, g) => sum + g.subtotal, 0);
-  const availablePoints = selectedPhones.length === 1 ? (selectedGroups[0]?.points || 0) : 0;
-  const discountAmount = redeemPoints ? Math.min(availablePoints, paymentSubtotal) : 0;
-  const paymentTotal = paymentSubtotal - discountAmount;
+  const selectedOrders = acceptedOrders.filter(o => selectedGroups.some(g => g.orderIds.includes(o.id)));
+  // Promotions come off first; points can cover what's left
+  const promo = applyPromotions(selectedOrders.flatMap(o => o.items), promotions, menuItems, coupon ?? undefined);
+  const availablePoints = settings.pointSystemEnabled && selectedGroups.length === 1 ? (selectedGroups[0]?.points || 0) : 0;
+  const pointsOffer = getPointsDiscount(availablePoints, paymentSubtotal - promo.discount, settings);
+  const pointsUsed = redeemPoints ? pointsOffer.points : 0;
+  const pointsDiscount = redeemPoints ? pointsOffer.discount : 0;
+  const discountAmount = roundMoney(promo.discount + pointsDiscount);
+  const paymentTax = calculateBillTax(selectedOrders.flatMap(o => o.items), discountAmount, settings, getDeliveryFee(selectedOrders));
+  const paymentTotal = paymentTax.total;
+  // A sub-bill of a split is paid on its own amount
+  const amountDue = payingSplitBill ? payingSplitBill.total : paymentTotal;
+  const dueTax = payingSplitBill ? getBillTax(payingSplitBill) : paymentTax;
+  // Customers on the bill who can put it on their tab
+  const accountCustomers = customers.filter(c =>
+    hasAccount(c) && (payingSplitBill ? payingSplitBill.customerPhones : selectedPhones).includes(c.phone)
+  );
+  const accountCustomer = accountCustomers.find(c => c.phone === accountPhone) ?? accountCustomers[0];
+  const accountBalance = accountCustomer ? getAccountBalance(accountCustomer.phone, transactions, accountPayments) : 0;
 
   // History data with search
   const getHistoryData = () => {
@@ -250,9 +354,11 @@ export default function Counter() {
       const term = searchInput.toLowerCase();
       data = data.filter(t => 
         t.tableNumber.toString().includes(term) ||
+        getOrderDestination(t, diningTables).toLowerCase().includes(term) ||
         t.customerPhones.some(p => p.toLowerCase().includes(term)) ||
         t.id.toLowerCase().includes(term) ||
-        t.paymentMethod.toLowerCase().includes(term)
+        formatTenders(t).toLowerCase().includes(term) ||
+        (t.splitLabel || '').toLowerCase().includes(term)
       );
     }
     return data.sort((a, b) => new Date(b.paidAt).getTime() - new Date(a.paidAt).getTime());
@@ -275,60 +381,6 @@ export default function Counter() {
   };
   const filteredExpenses = getFilteredExpenses();
 
-  // Table map data - compute table status with colors
-  const tableMapData = useMemo(() => {
-    const tableCount = settings.tableCount || 10;
-    const activeOrders = orders.filter(o => ['pending', 'accepted', 'preparing', 'ready'].includes(o.status));
-    const pendingOrders = orders.filter(o => o.status === 'pending');
-    const readyOrders = orders.filter(o => o.status === 'ready');
-    
-    return Array.from({ length: tableCount }, (_, i) => {
-      const tableNum = i + 1;
-      const tableOrders = activeOrders.filter(o => o.tableNumber === tableNum);
-      const hasPending = pendingOrders.some(o => o.tableNumber === tableNum);
-      const hasReady = readyOrders.some(o => o.tableNumber === tableNum);
-      const totalAmount = tableOrders.reduce((sum, o) => 
-        sum + o.items.reduce((s, item) => s + item.price * item.qty, 0), 0
-      );
-      
-      // Determine status: empty < ordering (pending) < occupied (in progress) < waiting (ready)
-      let status: 'empty' | 'ordering' | 'occupied' | 'waiting' = 'empty';
-      if (tableOrders.length > 0) {
-        if (hasReady) {
-          status = 'waiting'; // Ready to serve
-        } else if (hasPending) {
-          status = 'ordering'; // Has pending orders
-        } else {
-          status = 'occupied'; // Being prepared
-        }
-      }
-      
-      return {
-        tableNumber: tableNum,
-        status,
-        customerCount: new Set(tableOrders.map(o => o.customerPhone)).size || undefined,
-        totalAmount: totalAmount || undefined,
-        hasActiveOrders: tableOrders.length > 0,
-        hasPendingOrders: hasPending,
-      };
-    });
-  }, [orders, settings.tableCount]);
-
-  // Cash register data - calculate today's figures
-  const cashRegisterData = useMemo(() => {
-    const today = new Date().toISOString().slice(0, 10);
-    
-    const todayTransactions = transactions.filter(t => t.paidAt.startsWith(today));
-    const todayExpenses = expenses.filter(e => e.createdAt.startsWith(today));
-    
-    const todayRevenue = todayTransactions.reduce((sum, t) => sum + t.total, 0);
-    const todayExpenseTotal = todayExpenses.reduce((sum, e) => sum + e.amount, 0);
-    const cashPayments = todayTransactions.filter(t => t.paymentMethod === 'cash').reduce((sum, t) => sum + t.total, 0);
-    const fonepayPayments = todayTransactions.filter(t => t.paymentMethod === 'fonepay').reduce((sum, t) => sum + t.total, 0);
-    
-    return { todayRevenue, todayExpenseTotal, cashPayments, fonepayPayments };
-  }, [transactions, expenses]);
-
   const handleAcceptGroup = (group: PendingOrderGroup) => {
     // Accept all orders in the group
     let accepted = 0;
@@ -345,6 +397,11 @@ export default function Counter() {
       return;
     }
     
+    // Pre-orders reach the kitchen screens shortly before pickup, not now
+    if (group.scheduledFor && !isReleasedToKitchen(group.orders[0], settings)) {
+      toast.success(`Pre-order accepted, the kitchen gets it at ${formatNepalTime(getReleaseTime(group.orders[0], settings))}`);
+      return;
+    }
     toast.success(`${accepted} order${accepted > 1 ? 's' : ''} accepted`);
     printKOTGroup(group);
   };
@@ -371,22 +428,25 @@ export default function Counter() {
 
   const printKOTGroup = (group: PendingOrderGroup) => {
     const allNotes = group.orders.filter(o => o.notes).map(o => o.notes).join('; ');
-    const printContent = `
-      <div style="font-family: monospace; width: 300px; padding: 10px;">
+    // One chit per prep station, each on its own page
+    const stationNames = [...new Set(group.allItems.map(getItemStation))];
+    const printContent = stationNames.map((station, idx) => `
+      <div style="font-family: monospace; width: 300px; padding: 10px;${idx < stationNames.length - 1 ? ' page-break-after: always;' : ''}">
         <div style="text-align: center; border-bottom: 1px dashed black; padding-bottom: 10px; margin-bottom: 10px;">
-          <h2 style="margin: 0;">KITCHEN ORDER</h2>
+          <h2 style="margin: 0;">${stationNames.length > 1 ? station.toUpperCase() : 'KITCHEN ORDER'}</h2>
           <div>${formatNepalDateTime(new Date())}</div>
         </div>
         <div style="font-size: 1.2rem; font-weight: bold; text-align: center; margin: 10px 0; border: 2px solid black; padding: 5px;">
-          TABLE ${group.tableNumber}
+          ${getOrderDestination(group.orders[0], diningTables).toUpperCase()}
         </div>
+        ${group.orders[0].delivery ? `<div style="text-align: center; margin-bottom: 10px;">${group.orders[0].delivery.address}</div>` : ''}
         <div style="text-align: center; margin-bottom: 10px; font-weight: bold;">Customer: ${group.phone}</div>
         ${group.orders.length > 1 ? `<div style="text-align: center; margin-bottom: 10px; font-size: 0.9rem;">(${group.orders.length} orders combined)</div>` : ''}
         <div style="border-bottom: 2px solid black; margin-bottom: 10px;"></div>
-        ${group.allItems.map(i => `
+        ${group.allItems.filter(i => getItemStation(i) === station).map(i => `
           <div style="display: flex; justify-content: space-between; font-size: 1.2rem; font-weight: bold; margin-bottom: 5px;">
             <span>${i.qty} x</span>
-            <span>${i.name}</span>
+            <span>${formatItemName(i)}</span>
           </div>
         `).join('')}
         ${allNotes ? `
@@ -399,7 +459,7 @@ export default function Counter() {
           Ref: #${group.orders.map(o => o.id.slice(-6)).join(', #')}
         </div>
       </div>
-    `;
+    `).join('');
     
     const printWindow = window.open('', '_blank', 'width=400,height=600');
     if (printWindow) {
@@ -410,35 +470,125 @@ export default function Counter() {
     }
   };
 
-  const toggleSelectBill = (phone: string) => {
-    if (selectedPhones.includes(phone)) {
-      setSelectedPhones(selectedPhones.filter(p => p !== phone));
-    } else {
-      setSelectedPhones([...selectedPhones, phone]);
+  // Table bills can be paid together; takeaway and delivery orders are paid on their own
+  const toggleSelectBill = (group: BillGroup) => {
+    if (selectedKeys.includes(group.key)) {
+      setSelectedKeys(selectedKeys.filter(k => k !== group.key));
+      return;
     }
+    const combinable = isTableOrder(group) && selectedGroups.every(isTableOrder);
+    setSelectedKeys(combinable ? [...selectedKeys, group.key] : [group.key]);
   };
 
   const openPaymentModal = () => {
+    if (!hasPermission('take_payment')) {
+      toast.error('You are not allowed to take payments');
+      return;
+    }
     setRedeemPoints(false);
+    setCouponCode('');
+    setCoupon(null);
+    setPayingSplitBill(null);
+    setMixedCash('');
+    setAccountPhone('');
     setPaymentModalOpen(true);
   };
 
-  const processPayment = (method: 'cash' | 'fonepay') => {
-    if (method === 'fonepay') {
+  const applyCoupon = () => {
+    const { coupon: found, error } = findCoupon(couponCode, promotions);
+    if (!found) {
+      toast.error(error);
+      return;
+    }
+    setCoupon(found);
+    setCouponCode('');
+  };
+
+  // Takeaway and delivery orders go to the kitchen like accepted table orders; counter sales are handed over straight away
+  const handleQuickSaleCreated = (order: Order, payNow: boolean) => {
+    setActiveTab('active');
+    if (!isTableOrder(order) && order.status !== 'served') {
+      printKOTGroup({
+        key: order.id,
+        phone: order.customerPhone || 'Guest',
+        tableNumber: 0,
+        orders: [order],
+        allItems: order.items,
+        createdAt: order.createdAt,
+      });
+    }
+    if (payNow) {
+      setSelectedKeys([`order_${order.id}`]);
+      openPaymentModal();
+    }
+  };
+
+  const openSplitBillPayment = (bill: Bill) => {
+    if (!hasPermission('take_payment')) {
+      toast.error('You are not allowed to take payments');
+      return;
+    }
+    setPayingSplitBill(bill);
+    setMixedCash('');
+    setAccountPhone('');
+    setPaymentModalOpen(true);
+  };
+
+  // Turn the chosen method into tenders; mixed takes the cash part and puts the rest on the chosen digital method
+  const getTenders = (method: PaymentMethod | 'mixed'): Tender[] | null => {
+    if (method === 'account') {
+      if (!accountCustomer) return null;
+      const available = getAvailableCredit(accountCustomer, accountBalance);
+      if (amountDue > available) {
+        toast.error(`Over the account limit, only रू${available} left`);
+        return null;
+      }
+      return [{ method, amount: amountDue, customerPhone: accountCustomer.phone }];
+    }
+    if (method !== 'mixed') return [{ method, amount: amountDue }];
+
+    const cash = roundMoney(parseFloat(mixedCash) || 0);
+    if (cash <= 0 || cash >= amountDue) {
+      toast.error(`Cash amount must be between 0 and रू${amountDue}`);
+      return null;
+    }
+    return [
+      { method: 'cash', amount: cash },
+      { method: mixedMethod, amount: roundMoney(amountDue - cash) },
+    ];
+  };
+
+  const processPayment = (method: PaymentMethod | 'mixed') => {
+    const tenders = getTenders(method);
+    if (!tenders) return;
+
+    if (tenders.some(t => isGatewayMethod(t.method))) {
+      setPendingTenders(tenders);
       setPaymentModalOpen(false);
-      setFonepayModalOpen(true);
+      setGatewayModalOpen(true);
       return;
     }
 
-    if (!confirm(`Confirm CASH payment of रू${paymentTotal}?`)) return;
-    executePayment(method);
+    const prompt = method === 'account'
+      ? `Charge रू${amountDue} to ${accountCustomer?.name || accountCustomer?.phone}'s account?`
+      : `Confirm CASH payment of रू${amountDue}?`;
+    if (!confirm(prompt)) return;
+    completePayment(tenders);
   };
 
-  const executePayment = (method: 'cash' | 'fonepay') => {
+  const gatewayTender = pendingTenders.find(t => isGatewayMethod(t.method));
+
+  const completePayment = (tenders: Tender[]) => {
+    if (payingSplitBill) {
+      executeSplitPayment(payingSplitBill, tenders);
+    } else {
+      executePayment(tenders);
+    }
+  };
+
+  const executePayment = (tenders: Tender[]) => {
     // Get order IDs from selected groups
-    const orderIds = acceptedOrders
-      .filter(o => selectedPhones.includes(o.customerPhone))
-      .map(o => o.id);
+    const orderIds = selectedOrders.map(o => o.id);
 
     if (orderIds.length === 0) {
       toast.error('No orders to pay');
@@ -446,42 +596,146 @@ export default function Counter() {
     }
 
     const tableNumber = selectedGroups[0]?.tableNumber || 0;
-    const bill = createBill(tableNumber, orderIds, discountAmount);
-    payBill(bill.id, method);
+    const bill = createBill(tableNumber, orderIds, discountAmount, pointsUsed, promo.applied);
+    const sale = payBill(bill.id, tenders);
 
-    // Close customer sessions for all phones that paid
-    // This prevents reuse of old URLs from browser history
-    closeTableSession(tableNumber, selectedPhones);
-    
-    // Record payment blocks (3-hour cooldown)
-    // This prevents ordering from old QR codes after payment
-    recordPaymentBlocksForPhones(tableNumber, selectedPhones);
+    if (selectedGroups.every(isTableOrder)) {
+      // Close customer sessions for all phones that paid
+      // This prevents reuse of old URLs from browser history
+      closeTableSession(tableNumber, selectedPhones);
+      
+      // Record payment blocks (3-hour cooldown)
+      // This prevents ordering from old QR codes after payment
+      recordPaymentBlocksForPhones(tableNumber, selectedPhones);
+      releaseTable(tableNumber);
+    }
+
+    const paymentMethod = getPaymentMethodLabel(tenders);
 
     // Store last paid data for printing
-    setLastPaidData({
-      date: formatNepalDateTime(new Date()),
-      table: tableNumber,
-      phones: selectedPhones.join(', '),
-      items: selectedGroups.flatMap(g => g.items),
-      total: paymentTotal,
-      discount: discountAmount,
-      method
-    });
+    setLastPaidData(sale ? getReceiptData(sale) : null);
 
     setPaymentModalOpen(false);
-    setFonepayModalOpen(false);
+    setGatewayModalOpen(false);
     setSuccessModalOpen(true);
-    setSelectedPhones([]);
-    toast.success(`Payment completed via ${method}`);
+    setSelectedKeys([]);
+    toast.success(`Payment completed via ${paymentMethod}`);
   };
 
-  const printReceipt = (data: any) => {
+  const handleSplitBill = (parts: SplitPart[]) => {
+    const orderIds = selectedOrders.map(o => o.id);
+    if (orderIds.length === 0) {
+      toast.error('No orders to split');
+      return;
+    }
+
+    const tableNumber = selectedGroups[0]?.tableNumber || 0;
+    createSplitBills(tableNumber, orderIds, discountAmount, parts, pointsUsed, promo.applied);
+
+    setSplitDialogOpen(false);
+    setPaymentModalOpen(false);
+    setSelectedKeys([]);
+    toast.success(`Bill split into ${parts.length} parts`);
+  };
+
+  const executeSplitPayment = (bill: Bill, tenders: Tender[]) => {
+    const sale = payBill(bill.id, tenders);
+
+    // The table is only released once every part of the split is paid
+    const remaining = bills.filter(b =>
+      b.splitGroupId === bill.splitGroupId && b.status === 'unpaid' && b.id !== bill.id
+    );
+    if (remaining.length === 0) {
+      closeTableSession(bill.tableNumber, bill.customerPhones);
+      recordPaymentBlocksForPhones(bill.tableNumber, bill.customerPhones);
+      releaseTable(bill.tableNumber);
+    }
+
+    setLastPaidData(sale ? getReceiptData(sale) : null);
+
+    setPaymentModalOpen(false);
+    setGatewayModalOpen(false);
+    setPayingSplitBill(null);
+    setSuccessModalOpen(true);
+    toast.success(`${bill.splitLabel || 'Split'} paid${remaining.length > 0 ? ` · ${remaining.length} left` : ''}`);
+  };
+
+  // Receipt lines for a sale or correction; the invoice number is looked up when printing
+  const getReceiptData = (t: Transaction) => {
+    const tax = getBillTax(t);
+    return {
+      id: t.id,
+      date: t.paidAt,
+      place: getOrderDestination(t, diningTables),
+      phones: t.customerPhones.join(', ') || 'Guest',
+      items: t.items.map(item => ({
+        name: formatItemName(item),
+        qty: item.qty,
+        price: item.price,
+        total: item.qty * item.price
+      })),
+      total: t.total,
+      discount: t.discount,
+      promotions: t.promotions ?? [],
+      serviceCharge: tax.serviceCharge,
+      deliveryFee: tax.deliveryFee,
+      taxableAmount: tax.taxableAmount,
+      nonTaxableAmount: tax.nonTaxableAmount,
+      vat: tax.vat,
+      method: formatTenders(t),
+      splitLabel: t.splitLabel,
+      // Amount splits list the whole order but only pay a share of it
+      share: t.itemShare !== undefined
+        ? roundMoney(tax.taxableAmount + tax.nonTaxableAmount - tax.serviceCharge - tax.deliveryFee + t.discount)
+        : undefined,
+      correction: isSaleTransaction(t) ? undefined : `${transactionKindLabels[t.kind ?? 'sale']} · ${t.reason} · approved by ${t.approvedBy}`
+    };
+  };
+
+  // Estimate of what's about to be paid, printed before taking payment
+  const getEstimateData = () => {
+    const items = payingSplitBill
+      ? payingSplitBill.items ?? payingSplitBill.orders.flatMap(o => o.items)
+      : selectedOrders.flatMap(o => o.items);
+    return {
+      date: new Date().toISOString(),
+      place: payingSplitBill
+        ? getTableName(payingSplitBill.tableNumber, diningTables)
+        : selectedGroups[0] ? getOrderDestination(selectedGroups[0], diningTables) : '',
+      phones: (payingSplitBill ? payingSplitBill.customerPhones : selectedPhones).join(', ') || 'Guest',
+      items: items.map(item => ({ name: formatItemName(item), qty: item.qty, price: item.price, total: item.qty * item.price })),
+      total: amountDue,
+      discount: payingSplitBill ? payingSplitBill.discount : discountAmount,
+      promotions: payingSplitBill ? payingSplitBill.promotions ?? [] : promo.applied,
+      ...dueTax,
+      method: '',
+      splitLabel: payingSplitBill?.splitLabel,
+      share: payingSplitBill?.itemShare !== undefined ? payingSplitBill.subtotal : undefined
+    };
+  };
+
+  const printReceipt = (data: any, mode: PrintMode = 'tax_invoice', copy = false) => {
+    const sale = transactions.find(t => t.id === data.id);
+    const invoiceNumber = mode === 'tax_invoice' && sale ? formatInvoiceNumber(sale) : undefined;
+    const row = (label: string, value: string | number) => `
+          <div style="display: flex; justify-content: space-between;">
+            <span>${label}</span>
+            <span>${value}</span>
+          </div>
+        `;
     const printContent = `
       <div style="font-family: monospace; width: 300px; padding: 10px;">
         <div style="text-align: center; border-bottom: 1px dashed black; padding-bottom: 10px; margin-bottom: 10px;">
           <h2 style="margin: 0;">${settings.restaurantName.toUpperCase()}</h2>
-          <div>${data.date}</div>
-          <div>Table: ${data.table} | ${data.method.toUpperCase()}</div>
+          ${settings.panNumber ? `<div>PAN/VAT: ${settings.panNumber}</div>` : ''}
+          <div style="font-weight: bold; margin-top: 5px;">${getInvoiceTitle(mode, settings)}</div>
+          ${copy && mode === 'tax_invoice' ? '<div>COPY OF ORIGINAL</div>' : ''}
+          ${invoiceNumber ? `<div>Invoice No: ${invoiceNumber}</div>` : ''}
+          ${mode === 'tax_invoice' && !invoiceNumber && data.id ? `<div>Bill #: ${data.id.slice(-6)}</div>` : ''}
+          <div>Date: ${formatBsDateTime(data.date)} BS</div>
+          <div>(${formatNepalDate(data.date)} AD)</div>
+          <div>${data.place}${data.method ? ` | ${data.method.toUpperCase()}` : ''}</div>
+          ${data.splitLabel ? `<div>Split: ${data.splitLabel}</div>` : ''}
           <div>Customer: ${data.phones}</div>
         </div>
         ${data.items.map((i: any) => `
@@ -491,16 +745,19 @@ export default function Counter() {
           </div>
         `).join('')}
         <div style="border-top: 1px dashed black; margin-top: 5px; padding-top: 5px;"></div>
-        ${data.discount > 0 ? `
-          <div style="display: flex; justify-content: space-between;">
-            <span>Discount (Points)</span>
-            <span>-${data.discount}</span>
-          </div>
-        ` : ''}
+        ${data.share !== undefined ? row('This share', data.share) : ''}
+        ${data.promotions.map((p: AppliedPromotion) => row(p.name, `-${p.discount}`)).join('')}
+        ${data.discount > getPromotionDiscount(data.promotions) ? row('Discount (Points)', `-${roundMoney(data.discount - getPromotionDiscount(data.promotions))}`) : ''}
+        ${data.serviceCharge ? row(`Service Charge (${getServiceChargeRate(settings)}%)`, data.serviceCharge) : ''}
+        ${data.deliveryFee ? row('Delivery Fee', data.deliveryFee) : ''}
+        ${data.vat ? row('Taxable Amount', data.taxableAmount) : ''}
+        ${data.vat && data.nonTaxableAmount ? row('Non-taxable Amount', data.nonTaxableAmount) : ''}
+        ${data.vat ? row(`VAT (${getVatRate(settings)}%)`, data.vat) : ''}
         <div style="display: flex; justify-content: space-between; font-weight: bold; font-size: 1.2rem; margin-top: 10px;">
           <span>TOTAL</span>
           <span>रू${data.total}</span>
         </div>
+        ${mode === 'estimate' ? '<div style="text-align: center; margin-top: 10px;">This is not a tax invoice</div>' : ''}
         <div style="text-align: center; font-size: 0.8rem; margin-top: 20px;">Thank You!</div>
       </div>
     `;
@@ -515,24 +772,8 @@ export default function Counter() {
   };
 
   const viewTransactionDetail = (t: typeof transactions[0]) => {
-    // Map items to include total (qty * price)
-    const itemsWithTotal = t.items.map(item => ({
-      name: item.name,
-      qty: item.qty,
-      price: item.price,
-      total: item.qty * item.price
-    }));
-
-    setCurrentDetailData({
-      id: t.id,
-      date: t.paidAt,
-      table: t.tableNumber,
-      phones: t.customerPhones.join(', ') || 'Guest',
-      items: itemsWithTotal,
-      total: t.total,
-      discount: t.discount,
-      method: t.paymentMethod
-    });
+    setCurrentDetailData(getReceiptData(t));
+    setDetailSale(isSaleTransaction(t) ? t : null);
     setDetailModalOpen(true);
   };
 
@@ -577,7 +818,7 @@ export default function Counter() {
                 <div className="flex justify-between items-center mb-2">
                   <span className="font-bold text-gray-800 flex items-center gap-2">
                     <Bell className="w-4 h-4 text-amber-600" />
-                    Table {call.tableNumber}
+                    {getTableName(call.tableNumber, diningTables)}
                   </span>
                   <span className="text-xs text-gray-500">{formatNepalTime(call.createdAt)}</span>
                 </div>
@@ -588,7 +829,7 @@ export default function Counter() {
                     className="flex-1 h-8 text-xs bg-emerald-500 hover:bg-emerald-600 text-white"
                     onClick={() => {
                       acknowledgeWaiterCall(call.id);
-                      toast.success(`Going to Table ${call.tableNumber}`);
+                      toast.success(`Going to ${getTableName(call.tableNumber, diningTables)}`);
                     }}
                   >
                     <Check className="w-3 h-3 mr-1" /> On My Way
@@ -619,15 +860,18 @@ export default function Counter() {
               >
                 <div className="absolute top-0 left-0 w-1 h-full bg-gradient-to-b from-amber-400 to-orange-500" />
                 <div className="flex justify-between font-bold mb-1 text-gray-800">
-                  <span>Table {group.tableNumber}</span>
+                  <span>{getOrderDestination(group, diningTables)}</span>
                   <span className="text-xs font-normal text-gray-500">{formatNepalTime(group.createdAt)}</span>
                 </div>
+                {group.scheduledFor && (
+                  <div className="text-xs font-semibold text-indigo-600 mb-1">Pre-order · pickup {formatPickupTime(group.scheduledFor)}</div>
+                )}
                 <div className="text-xs text-gray-500 mb-1">
                   Customer: {group.phone}
                   {group.orders.length > 1 && <span className="ml-1 text-amber-600">({group.orders.length} orders)</span>}
                 </div>
                 <div className="text-xs text-gray-600 mb-2">
-                  {group.allItems.slice(0, 3).map(i => `${i.qty}x ${i.name}`).join(', ')}
+                  {group.allItems.slice(0, 3).map(i => `${i.qty}x ${formatItemName(i)}`).join(', ')}
                   {group.allItems.length > 3 && ` +${group.allItems.length - 3} more`}
                 </div>
                 <div className="flex gap-2">
@@ -670,7 +914,7 @@ export default function Counter() {
                 <div className="flex justify-between items-center mb-2">
                   <span className="font-bold text-gray-800 flex items-center gap-2">
                     <Bell className="w-4 h-4 text-amber-600" />
-                    Table {call.tableNumber}
+                    {getTableName(call.tableNumber, diningTables)}
                   </span>
                   <span className="text-xs text-gray-500">{formatNepalTime(call.createdAt)}</span>
                 </div>
@@ -681,7 +925,7 @@ export default function Counter() {
                     className="flex-1 h-8 text-xs bg-emerald-500 hover:bg-emerald-600 text-white"
                     onClick={() => {
                       acknowledgeWaiterCall(call.id);
-                      toast.success(`Going to Table ${call.tableNumber}`);
+                      toast.success(`Going to ${getTableName(call.tableNumber, diningTables)}`);
                     }}
                   >
                     <Check className="w-3 h-3 mr-1" /> On My Way
@@ -711,15 +955,18 @@ export default function Counter() {
               >
                 <div className="absolute top-0 left-0 w-1 h-full bg-gradient-to-b from-amber-400 to-orange-500" />
                 <div className="flex justify-between font-bold mb-1 text-gray-800">
-                  <span>Table {group.tableNumber}</span>
+                  <span>{getOrderDestination(group, diningTables)}</span>
                   <span className="text-xs font-normal text-gray-500">{formatNepalTime(group.createdAt)}</span>
                 </div>
+                {group.scheduledFor && (
+                  <div className="text-xs font-semibold text-indigo-600 mb-1">Pre-order · pickup {formatPickupTime(group.scheduledFor)}</div>
+                )}
                 <div className="text-xs text-gray-500 mb-1">
                   Customer: {group.phone}
                   {group.orders.length > 1 && <span className="ml-1 text-amber-600">({group.orders.length} orders)</span>}
                 </div>
                 <div className="text-xs text-gray-600 mb-2">
-                  {group.allItems.slice(0, 3).map(i => `${i.qty}x ${i.name}`).join(', ')}
+                  {group.allItems.slice(0, 3).map(i => `${i.qty}x ${formatItemName(i)}`).join(', ')}
                   {group.allItems.length > 3 && ` +${group.allItems.length - 3} more`}
                 </div>
                 <div className="flex gap-2">
@@ -801,7 +1048,7 @@ export default function Counter() {
                 >
                   <div className="absolute top-0 left-0 w-1.5 h-full bg-amber-500 rounded-l-xl" />
                   <div className="flex justify-between items-center mb-2">
-                    <span className="font-bold text-lg text-gray-800">Table {call.tableNumber}</span>
+                    <span className="font-bold text-lg text-gray-800">{getTableName(call.tableNumber, diningTables)}</span>
                     <span className="text-xs text-gray-500">{formatNepalTime(call.createdAt)}</span>
                   </div>
                   <div className="text-sm text-gray-600 mb-3">
@@ -813,7 +1060,7 @@ export default function Counter() {
                       className="flex-1 bg-emerald-500 hover:bg-emerald-600 text-white shadow-lg shadow-emerald-500/30"
                       onClick={() => {
                         acknowledgeWaiterCall(call.id);
-                        toast.success(`Going to Table ${call.tableNumber}`);
+                        toast.success(`Going to ${getTableName(call.tableNumber, diningTables)}`);
                       }}
                     >
                       <Check className="w-3 h-3 mr-1" /> On My Way
@@ -856,9 +1103,12 @@ export default function Counter() {
               >
                 <div className="absolute top-0 left-0 w-1.5 h-full bg-gradient-to-b from-amber-400 to-orange-500 rounded-l-xl" />
                 <div className="flex justify-between font-bold mb-1 border-b border-dashed border-gray-200 pb-2 text-gray-800">
-                  <span className="text-lg">Table {group.tableNumber}</span>
+                  <span className="text-lg">{getOrderDestination(group, diningTables)}</span>
                   <span className="text-sm font-normal text-gray-500">{formatNepalTime(group.createdAt)}</span>
                 </div>
+                {group.scheduledFor && (
+                  <div className="text-sm font-semibold text-indigo-600 mt-1">Pre-order · pickup {formatPickupTime(group.scheduledFor)}</div>
+                )}
                 <div className="text-sm text-gray-500 italic mb-2">
                   Customer: {group.phone}
                   {group.orders.length > 1 && <span className="ml-2 text-amber-600 font-medium not-italic">({group.orders.length} orders combined)</span>}
@@ -866,7 +1116,7 @@ export default function Counter() {
                 <div className="text-sm mb-3 space-y-1">
                   {group.allItems.map((item, idx) => (
                     <div key={idx} className="flex justify-between text-gray-700">
-                      <span className="font-medium">{item.qty}x {item.name}</span>
+                      <span className="font-medium">{item.qty}x {formatItemName(item)}</span>
                     </div>
                   ))}
                 </div>
@@ -948,26 +1198,48 @@ export default function Counter() {
               >
                 History
               </button>
+              {hasPermission('manage_reservations') && (
+                <button 
+                  onClick={() => setActiveTab('reservations')}
+                  className={`px-3 py-1.5 rounded-full font-semibold text-xs transition-all whitespace-nowrap flex-shrink-0 ${
+                    activeTab === 'reservations' 
+                      ? 'bg-[#333] text-white' 
+                      : 'bg-white border border-[#ddd] text-[#555] hover:bg-gray-50'
+                  }`}
+                >
+                  Reservations
+                </button>
+              )}
             </div>
             
             {/* Action buttons - stays in same row */}
             <div className="flex items-center gap-1.5 ml-auto">
+              <LowStockAlert />
               <Button 
-                onClick={() => setTableMapOpen(true)}
-                variant="outline"
+                onClick={() => setQuickSaleOpen(true)}
                 size="sm"
                 className="h-8 text-xs flex items-center gap-1"
               >
-                <Map className="w-3 h-3" /> Tables
+                <ShoppingBag className="w-3 h-3" /> Quick Sale
               </Button>
               <Button 
-                onClick={() => setCashRegisterOpen(true)}
+                onClick={() => setTableMapOpen(true)}
                 variant="outline"
                 size="sm"
                 className="h-8 text-xs flex items-center gap-1"
               >
-                <Calculator className="w-3 h-3" /> Register
+                <Map className="w-3 h-3" /> Tables
               </Button>
+              {hasPermission('manage_register') && (
+                <Button 
+                  onClick={() => setCashRegisterOpen(true)}
+                  variant="outline"
+                  size="sm"
+                  className="h-8 text-xs flex items-center gap-1"
+                >
+                  <Calculator className="w-3 h-3" /> Register
+                </Button>
+              )}
               <Button 
                 onClick={() => setActiveTab('expenses')}
                 variant="outline"
@@ -983,7 +1255,7 @@ export default function Counter() {
               <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => window.location.reload()}>
                 <RefreshCw className="w-3.5 h-3.5" />
               </Button>
-              {(settings.counterAsAdmin || currentUser?.role === 'admin') && (
+              {canAccessAdmin(currentUser) && (
                 <Button variant="outline" size="icon" className="h-8 w-8 bg-primary/10 border-primary text-primary hover:bg-primary/20" onClick={() => navigate('/admin')}>
                   <Settings className="w-3.5 h-3.5" />
                 </Button>
@@ -1000,20 +1272,73 @@ export default function Counter() {
           {/* Active Bills Tab */}
           {activeTab === 'active' && (
             <div className="flex flex-wrap gap-5">
+              {openSplitBills.map(bill => (
+                <div 
+                  key={bill.id}
+                  className="bg-white w-[280px] p-5 rounded-lg border-2 border-dashed border-[#3498db]"
+                >
+                  <div className="flex justify-between font-bold mb-2 border-b border-dashed border-[#eee] pb-1">
+                    <span>{bill.splitLabel}</span>
+                    <span>{getTableName(bill.tableNumber, diningTables)}</span>
+                  </div>
+                  <div className="text-sm text-[#666] mb-2">{bill.customerPhones.join(', ') || 'Guest'}</div>
+                  {bill.items && (
+                    <div className="mb-2">
+                      {bill.items.map(item => (
+                        <div key={item.id} className="flex justify-between text-sm">
+                          <span>{item.qty}x {formatItemName(item)}</span>
+                          <span>{item.qty * item.price}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex justify-between items-center border-t border-[#eee] pt-2">
+                    <span className="font-bold text-lg">रू{bill.total}</span>
+                    <Button size="sm" className="bg-[#27ae60] hover:bg-[#27ae60]/90" onClick={() => openSplitBillPayment(bill)}>
+                      Pay
+                    </Button>
+                  </div>
+                  <div className="text-xs text-[#888] mt-1">
+                    {bills.filter(b => b.splitGroupId === bill.splitGroupId && b.status === 'paid').length}/
+                    {bills.filter(b => b.splitGroupId === bill.splitGroupId).length} parts paid
+                  </div>
+                </div>
+              ))}
               {billGroups.slice(0, billsLimit).map(group => (
                 <div 
                   key={group.key}
-                  onClick={() => toggleSelectBill(group.phone)}
+                  onClick={() => toggleSelectBill(group)}
                   className={`bg-white w-[280px] p-5 rounded-lg border cursor-pointer transition-all hover:-translate-y-1 hover:shadow-lg ${
-                    selectedPhones.includes(group.phone) 
+                    selectedKeys.includes(group.key) 
                       ? 'border-2 border-[#27ae60] bg-[#f0fdf4]' 
                       : 'border-[#eee]'
                   }`}
                 >
                   <div className="flex justify-between font-bold mb-2 border-b border-dashed border-[#eee] pb-1">
                     <span>{group.phone}</span>
-                    <span>Table {group.tableNumber}</span>
+                    <span>{getOrderDestination(group, diningTables)}</span>
                   </div>
+                  {group.scheduledFor && (
+                    <div className="mb-2 text-sm font-semibold text-indigo-600">Pickup {formatPickupTime(group.scheduledFor)}</div>
+                  )}
+                  {group.delivery && (
+                    <div className="mb-2 text-sm" onClick={e => e.stopPropagation()}>
+                      <div className="text-[#555] mb-1">📍 {group.delivery.address}</div>
+                      <Select
+                        value={group.delivery.rider || 'none'}
+                        onValueChange={v => group.orderIds.forEach(id => assignRider(id, v === 'none' ? '' : v))}
+                      >
+                        <SelectTrigger className="h-8">
+                          <Bike className="w-4 h-4 mr-1" />
+                          <SelectValue placeholder="Assign rider" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">No rider yet</SelectItem>
+                          {(settings.deliveryRiders || []).map(r => <SelectItem key={r} value={r}>{r}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
                   <div className="mb-2">
                     {group.items.map((item, idx) => (
                       <div key={idx} className="flex justify-between text-sm">
@@ -1025,13 +1350,16 @@ export default function Counter() {
                   <div className="font-bold text-right text-lg border-t border-[#eee] pt-2">
                     रू{group.subtotal}
                   </div>
+                  {group.progress.done < group.progress.total && (
+                    <div className="text-xs text-[#3498db] mt-1">🍳 {group.progress.done}/{group.progress.total} ready</div>
+                  )}
                   {group.points > 0 && (
                     <div className="text-xs text-[#f39c12] mt-1">⭐ {group.points} points available</div>
                   )}
                   <div className="text-xs text-[#888] mt-1">{formatNepalTime(group.createdAt)}</div>
                 </div>
               ))}
-              {billGroups.length === 0 && (
+              {billGroups.length === 0 && openSplitBills.length === 0 && (
                 <div className="w-full text-center text-[#aaa] py-12">No unpaid bills found.</div>
               )}
               {billGroups.length > billsLimit && (
@@ -1056,22 +1384,34 @@ export default function Counter() {
                       <th className="p-3 md:p-4 text-left font-bold text-[#555] text-sm">Table</th>
                       <th className="p-3 md:p-4 text-left font-bold text-[#555] text-sm">Customer</th>
                       <th className="p-3 md:p-4 text-left font-bold text-[#555] text-sm">Items</th>
+                      <th className="p-3 md:p-4 text-left font-bold text-[#555] text-sm">Kitchen</th>
                       <th className="p-3 md:p-4 text-left font-bold text-[#555] text-sm">Total</th>
                     </tr>
                   </thead>
                   <tbody>
                     {filteredAcceptedOrders.length === 0 ? (
                       <tr>
-                        <td colSpan={6} className="text-center py-8 text-[#aaa]">No accepted orders.</td>
+                        <td colSpan={7} className="text-center py-8 text-[#aaa]">No accepted orders.</td>
                       </tr>
                     ) : (
                       filteredAcceptedOrders.slice(0, acceptedLimit).map(order => (
                         <tr key={order.id} className="border-t border-[#eee] hover:bg-[#f9f9f9]">
                           <td className="p-3 md:p-4 text-sm">#{order.id.slice(-6)}</td>
                           <td className="p-3 md:p-4 text-sm">{formatNepalTime(order.createdAt)}</td>
-                          <td className="p-3 md:p-4 text-sm">Table {order.tableNumber}</td>
+                          <td className="p-3 md:p-4 text-sm">{getOrderDestination(order, diningTables)}</td>
                           <td className="p-3 md:p-4 text-sm">{order.customerPhone}</td>
-                          <td className="p-3 md:p-4 text-sm">{order.items.map(i => `${i.qty}x ${i.name}`).join(', ')}</td>
+                          <td className="p-3 md:p-4 text-sm">
+                            {order.items.map((i, idx) => (
+                              <div key={idx} className={getItemStatus(i) === 'ready' || getItemStatus(i) === 'served' ? 'text-[#27ae60]' : ''}>
+                                {i.qty}x {formatItemName(i)}
+                                <span className="text-xs text-[#888] ml-1">({itemStatusLabels[getItemStatus(i)]})</span>
+                              </div>
+                            ))}
+                          </td>
+                          <td className="p-3 md:p-4 text-sm">
+                            <StatusBadge status={order.status} />
+                            <div className="text-xs text-[#888] mt-1">{getOrderProgress(order).done}/{getOrderProgress(order).total} ready</div>
+                          </td>
                           <td className="p-3 md:p-4 font-bold text-sm">रू{order.total}</td>
                         </tr>
                       ))
@@ -1093,10 +1433,10 @@ export default function Counter() {
           {activeTab === 'history' && (
             <div>
               <div className="mb-4 flex flex-wrap gap-3">
-                <Input 
-                  type="date" 
+                <BsDatePicker
                   value={historyDate}
-                  onChange={(e) => setHistoryDate(e.target.value)}
+                  onChange={setHistoryDate}
+                  placeholder="Filter by date"
                   className="w-full sm:w-48"
                 />
                 <Button onClick={() => setHistoryDate('')}>Clear Filter</Button>
@@ -1128,10 +1468,16 @@ export default function Counter() {
                           >
                             <td className="p-3 md:p-4 text-sm">#{t.id.slice(-6)}</td>
                             <td className="p-3 md:p-4 text-sm">{formatNepalTime(t.paidAt)}</td>
-                            <td className="p-3 md:p-4 text-sm">Table {t.tableNumber}</td>
+                            <td className="p-3 md:p-4 text-sm">{getOrderDestination(t, diningTables)}</td>
                             <td className="p-3 md:p-4 text-sm">{t.customerPhones.join(', ') || 'Guest'}</td>
-                            <td className="p-3 md:p-4 font-bold text-sm">रू{t.total}</td>
-                            <td className="p-3 md:p-4 text-sm">{t.paymentMethod.toUpperCase()}</td>
+                            <td className={`p-3 md:p-4 font-bold text-sm ${t.total < 0 ? 'text-[#e74c3c]' : ''}`}>रू{t.total}</td>
+                            <td className="p-3 md:p-4 text-sm">
+                              {formatTenders(t)}
+                              {t.splitLabel && <div className="text-xs text-[#888]">{t.splitLabel}</div>}
+                              {!isSaleTransaction(t) && (
+                                <div className="text-xs text-[#e74c3c]">{transactionKindLabels[t.kind ?? 'sale']} of #{t.refundOf?.slice(-6)}</div>
+                              )}
+                            </td>
                           </tr>
                         ))
                       )}
@@ -1149,15 +1495,19 @@ export default function Counter() {
             </div>
           )}
 
+          {/* Reservations Tab */}
+          {activeTab === 'reservations' && <Reservations />}
 
           {/* Expenses Tab */}
           {activeTab === 'expenses' && (
             <div>
               <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
                 <h3 className="text-lg font-bold">Expense Tracking</h3>
-                <Button onClick={() => setExpenseModalOpen(true)} className="bg-[#333] hover:bg-[#333]/90">
-                  <Plus className="w-4 h-4 mr-2" /> Add Expense
-                </Button>
+                {hasPermission('record_expense') && (
+                  <Button onClick={() => setExpenseModalOpen(true)} className="bg-[#333] hover:bg-[#333]/90">
+                    <Plus className="w-4 h-4 mr-2" /> Add Expense
+                  </Button>
+                )}
               </div>
               <div className="bg-white rounded-lg overflow-hidden shadow-sm">
                 <div className="overflow-x-auto">
@@ -1184,9 +1534,11 @@ export default function Counter() {
                             <td className="p-3 md:p-4 text-sm">{exp.description}</td>
                             <td className="p-3 md:p-4 font-bold text-red-600 text-sm">-रू{exp.amount}</td>
                             <td className="p-3 md:p-4">
-                              <Button size="sm" variant="destructive" onClick={() => { deleteExpense(exp.id); toast.success('Deleted'); }}>
-                                <Trash2 className="w-3 h-3" />
-                              </Button>
+                              {hasPermission('delete_expense') && !exp.goodsReceiptId && (
+                                <Button size="sm" variant="destructive" onClick={() => { deleteExpense(exp.id); toast.success('Deleted'); }}>
+                                  <Trash2 className="w-3 h-3" />
+                                </Button>
+                              )}
                             </td>
                           </tr>
                         ))
@@ -1215,9 +1567,9 @@ export default function Counter() {
         </div>
 
         {/* Action Bar - Desktop: below sidebar on left, Mobile: bottom right */}
-        {selectedPhones.length > 0 && (
+        {selectedKeys.length > 0 && (
           <div className="fixed bottom-5 left-5 lg:left-[360px] right-auto lg:right-auto bg-[#222] text-white px-8 py-4 rounded-full flex items-center gap-5 shadow-lg z-50 animate-slide-up">
-            <div><span className="font-bold">{selectedPhones.length}</span> bills selected</div>
+            <div><span className="font-bold">{selectedKeys.length}</span> bills selected</div>
             <Button className="bg-[#27ae60] hover:bg-[#27ae60]/90" onClick={openPaymentModal}>
               Pay & Clear
             </Button>
@@ -1229,11 +1581,20 @@ export default function Counter() {
       <Dialog open={paymentModalOpen} onOpenChange={setPaymentModalOpen}>
         <DialogContent className="max-w-md w-[calc(100%-2rem)] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>Confirm Payment</DialogTitle>
+            <DialogTitle>{payingSplitBill ? `Pay ${payingSplitBill.splitLabel}` : 'Confirm Payment'}</DialogTitle>
           </DialogHeader>
           
           <div className="max-h-[300px] overflow-y-auto border-b border-[#eee] pb-4 mb-4">
-            {selectedGroups.map(group => (
+            {payingSplitBill && (payingSplitBill.items ?? payingSplitBill.orders.flatMap(o => o.items)).map(item => (
+              <div key={item.id} className="flex justify-between text-sm">
+                <span>{item.qty}x {formatItemName(item)}</span>
+                <span>{item.qty * item.price}</span>
+              </div>
+            ))}
+            {payingSplitBill?.itemShare !== undefined && (
+              <div className="text-xs text-[#888] mt-2">Shared bill · this part pays रू{payingSplitBill.total}</div>
+            )}
+            {!payingSplitBill && selectedGroups.map(group => (
               <div key={group.key}>
                 <div className="font-bold text-sm mt-3 mb-1">Customer: {group.phone}</div>
                 {group.items.map((item, idx) => (
@@ -1247,10 +1608,10 @@ export default function Counter() {
           </div>
 
           {/* Loyalty Points */}
-          {availablePoints > 0 && (
+          {!payingSplitBill && pointsOffer.points > 0 && hasPermission('apply_discount') && (
             <div className="bg-[#e8f5e9] p-3 rounded-lg mb-4">
               <label className="flex justify-between items-center cursor-pointer">
-                <span>Redeem <b>{availablePoints}</b> points (रू{availablePoints} off)</span>
+                <span>Redeem <b>{pointsOffer.points}</b> of {availablePoints} points (रू{pointsOffer.discount} off)</span>
                 <input 
                   type="checkbox" 
                   checked={redeemPoints}
@@ -1261,16 +1622,69 @@ export default function Counter() {
             </div>
           )}
 
-          {discountAmount > 0 && (
+          {/* Coupon */}
+          {!payingSplitBill && (
+            <div className="mb-4">
+              {coupon ? (
+                <div className="flex justify-between items-center bg-[#fff8e1] p-3 rounded-lg text-sm">
+                  <span>
+                    Coupon <b>{coupon.code}</b> · {coupon.name}
+                    {!promo.applied.some(p => p.promotionId === coupon.id) && (
+                      <span className="block text-xs text-[#e67e22]">Doesn't apply to this bill</span>
+                    )}
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={() => setCoupon(null)}>Remove</Button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Coupon code"
+                    value={couponCode}
+                    onChange={e => setCouponCode(e.target.value)}
+                    className="uppercase"
+                  />
+                  <Button variant="outline" onClick={applyCoupon} disabled={!couponCode.trim()}>Apply</Button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {!payingSplitBill && promo.applied.map(p => (
+            <div key={p.promotionId} className="flex justify-between text-[#27ae60] mb-2">
+              <span>{p.name}</span>
+              <span>-रू{p.discount}</span>
+            </div>
+          ))}
+
+          {!payingSplitBill && pointsDiscount > 0 && (
             <div className="flex justify-between text-[#27ae60] mb-2">
               <span>Discount (Points)</span>
-              <span>-रू{discountAmount}</span>
+              <span>-रू{pointsDiscount}</span>
+            </div>
+          )}
+
+          {dueTax.serviceCharge > 0 && (
+            <div className="flex justify-between text-sm text-[#666]">
+              <span>Service Charge ({getServiceChargeRate(settings)}%)</span>
+              <span>रू{dueTax.serviceCharge}</span>
+            </div>
+          )}
+          {dueTax.deliveryFee > 0 && (
+            <div className="flex justify-between text-sm text-[#666]">
+              <span>Delivery Fee</span>
+              <span>रू{dueTax.deliveryFee}</span>
+            </div>
+          )}
+          {dueTax.vat > 0 && (
+            <div className="flex justify-between text-sm text-[#666] mb-2">
+              <span>VAT ({getVatRate(settings)}%)</span>
+              <span>रू{dueTax.vat}</span>
             </div>
           )}
 
           <div className="flex justify-between text-xl font-bold mb-6">
             <span>Total Pay:</span>
-            <span>रू{paymentTotal}</span>
+            <span>रू{amountDue}</span>
           </div>
 
           <div className="grid grid-cols-2 gap-3">
@@ -1281,25 +1695,115 @@ export default function Counter() {
             >
               CASH
             </Button>
-            <Button 
-              className="bg-[#c32148] hover:bg-[#c32148]/90 py-6 font-bold"
-              onClick={() => processPayment('fonepay')}
-            >
-              FONEPAY
+            {GATEWAY_METHODS.map(method => (
+              <Button
+                key={method}
+                className="py-6 font-bold text-white hover:opacity-90"
+                style={{ backgroundColor: gatewayColors[method] }}
+                onClick={() => processPayment(method)}
+              >
+                {paymentMethodLabels[method].toUpperCase()}
+              </Button>
+            ))}
+          </div>
+
+          {/* Mixed tender: part cash, rest on a digital method */}
+          <div className="flex gap-2 mt-3">
+            <Input
+              type="number"
+              placeholder="Cash part"
+              value={mixedCash}
+              onChange={e => setMixedCash(e.target.value)}
+            />
+            <Select value={mixedMethod} onValueChange={v => setMixedMethod(v as GatewayMethod)}>
+              <SelectTrigger className="w-28 shrink-0">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GATEWAY_METHODS.map(method => (
+                  <SelectItem key={method} value={method}>{paymentMethodLabels[method]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" className="shrink-0" onClick={() => processPayment('mixed')}>
+              MIXED
             </Button>
           </div>
+          {parseFloat(mixedCash) > 0 && parseFloat(mixedCash) < amountDue && (
+            <div className="text-xs text-[#888] mt-1">
+              Cash रू{roundMoney(parseFloat(mixedCash))} + {paymentMethodLabels[mixedMethod]}: रू{roundMoney(amountDue - parseFloat(mixedCash))}
+            </div>
+          )}
+
+          {/* Charge to a customer's account (khata) */}
+          {accountCustomer && (
+            <>
+              <div className="flex gap-2 mt-3">
+                {accountCustomers.length > 1 ? (
+                  <Select value={accountCustomer.phone} onValueChange={setAccountPhone}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {accountCustomers.map(c => (
+                        <SelectItem key={c.phone} value={c.phone}>{c.name || c.phone}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <div className="flex-1 flex items-center text-sm font-medium">{accountCustomer.name || accountCustomer.phone}</div>
+                )}
+                <Button variant="outline" className="shrink-0" onClick={() => processPayment('account')}>
+                  ACCOUNT
+                </Button>
+              </div>
+              <div className="text-xs text-[#888] mt-1">
+                Owes रू{accountBalance}
+                {accountCustomer.creditLimit ? ` of रू${accountCustomer.creditLimit} limit` : ''}
+              </div>
+            </>
+          )}
+
+          <Button variant="ghost" className="w-full mt-3" onClick={() => printReceipt(getEstimateData(), 'estimate')}>
+            <Printer className="w-4 h-4 mr-2" /> Print Estimate
+          </Button>
+          {!payingSplitBill && paymentTax.deliveryFee === 0 && (
+            <Button variant="ghost" className="w-full" onClick={() => setSplitDialogOpen(true)}>
+              Split Bill
+            </Button>
+          )}
         </DialogContent>
       </Dialog>
 
-      {/* Fonepay QR Modal */}
-      <Dialog open={fonepayModalOpen} onOpenChange={setFonepayModalOpen}>
+      {/* Split Bill Dialog */}
+      <SplitBillDialog
+        open={splitDialogOpen}
+        onOpenChange={setSplitDialogOpen}
+        items={selectedOrders.flatMap(o => o.items)}
+        subtotal={paymentSubtotal}
+        discount={discountAmount}
+        deliveryFee={paymentTax.deliveryFee}
+        total={paymentTotal}
+        onConfirm={handleSplitBill}
+      />
+
+      {/* Digital payment: gateway QR, or staff confirmation when it isn't set up */}
+      <Dialog open={gatewayModalOpen} onOpenChange={setGatewayModalOpen}>
         <DialogContent className="max-w-sm p-0">
-          <FonepayQR
-            amount={paymentTotal}
-            orderId={selectedGroups[0]?.key || 'ORDER'}
-            onSuccess={() => executePayment('fonepay')}
-            onCancel={() => setFonepayModalOpen(false)}
-          />
+          {gatewayTender && (
+            <GatewayPayment
+              method={gatewayTender.method as GatewayMethod}
+              amount={gatewayTender.amount}
+              label={payingSplitBill?.splitLabel
+                ? `${getTableName(payingSplitBill.tableNumber, diningTables)} · ${payingSplitBill.splitLabel}`
+                : selectedGroups[0] ? getOrderDestination(selectedGroups[0], diningTables) : 'Order'}
+              gateways={gateways}
+              onSuccess={(reference) => completePayment(pendingTenders.map(t =>
+                t === gatewayTender && reference ? { ...t, reference } : t
+              ))}
+              onCancel={() => setGatewayModalOpen(false)}
+            />
+          )}
         </DialogContent>
       </Dialog>
 
@@ -1313,7 +1817,7 @@ export default function Counter() {
               variant="outline"
               onClick={() => lastPaidData && printReceipt(lastPaidData)}
             >
-              <Printer className="w-4 h-4 mr-2" /> Print Receipt
+              <Printer className="w-4 h-4 mr-2" /> Print Invoice
             </Button>
             <Button onClick={() => setSuccessModalOpen(false)}>
               Done
@@ -1332,8 +1836,15 @@ export default function Counter() {
             <>
               <div className="mb-4">
                 <div className="font-bold">#{currentDetailData.id.slice(-6)}</div>
-                <div className="text-sm text-[#666]">{formatNepalDateTime(currentDetailData.date)}</div>
-                <div className="text-sm">Table {currentDetailData.table} | {currentDetailData.phones}</div>
+                {detailSale && formatInvoiceNumber(detailSale) && (
+                  <div className="text-sm text-[#666]">Invoice {formatInvoiceNumber(detailSale)}</div>
+                )}
+                <div className="text-sm text-[#666]">{formatBsDateTime(currentDetailData.date)} BS · {formatNepalDate(currentDetailData.date)} AD</div>
+                <div className="text-sm">{currentDetailData.place} | {currentDetailData.phones}</div>
+                <div className="text-sm text-[#666]">{currentDetailData.method}{currentDetailData.splitLabel && ` · ${currentDetailData.splitLabel}`}</div>
+                {currentDetailData.correction && (
+                  <div className="text-sm text-[#e74c3c]">{currentDetailData.correction}</div>
+                )}
               </div>
               <div className="border-t border-[#eee] pt-3 mb-3">
                 {currentDetailData.items.map((item: any, idx: number) => (
@@ -1343,10 +1854,34 @@ export default function Counter() {
                   </div>
                 ))}
               </div>
-              {currentDetailData.discount > 0 && (
+              {currentDetailData.share !== undefined && (
+                <div className="flex justify-between text-sm">
+                  <span>This share</span>
+                  <span>{currentDetailData.share}</span>
+                </div>
+              )}
+              {currentDetailData.promotions.map((p: AppliedPromotion) => (
+                <div key={p.promotionId} className="flex justify-between text-[#27ae60]">
+                  <span>{p.name}</span>
+                  <span>-{p.discount}</span>
+                </div>
+              ))}
+              {currentDetailData.discount > getPromotionDiscount(currentDetailData.promotions) && (
                 <div className="flex justify-between text-[#27ae60]">
                   <span>Discount</span>
-                  <span>-{currentDetailData.discount}</span>
+                  <span>-{roundMoney(currentDetailData.discount - getPromotionDiscount(currentDetailData.promotions))}</span>
+                </div>
+              )}
+              {currentDetailData.serviceCharge !== 0 && (
+                <div className="flex justify-between text-sm">
+                  <span>Service Charge</span>
+                  <span>{currentDetailData.serviceCharge}</span>
+                </div>
+              )}
+              {currentDetailData.vat !== 0 && (
+                <div className="flex justify-between text-sm">
+                  <span>VAT</span>
+                  <span>{currentDetailData.vat}</span>
                 </div>
               )}
               <div className="flex justify-between font-bold text-lg border-t border-[#eee] pt-3">
@@ -1356,15 +1891,31 @@ export default function Counter() {
               <Button 
                 variant="outline" 
                 className="w-full mt-4"
-                onClick={() => printReceipt(currentDetailData)}
+                onClick={() => printReceipt(currentDetailData, 'tax_invoice', true)}
               >
-                <Printer className="w-4 h-4 mr-2" /> Print Receipt
+                <Printer className="w-4 h-4 mr-2" /> Reprint Invoice
               </Button>
+              {detailSale && isCorrectable(detailSale) && getRefundableAmount(detailSale, transactions) > 0 && (
+                <Button
+                  variant="outline"
+                  className="w-full mt-2 text-[#e74c3c]"
+                  onClick={() => setCorrectionOpen(true)}
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" /> Void / Refund
+                </Button>
+              )}
             </>
           )}
         </DialogContent>
       </Dialog>
 
+      <BillCorrectionDialog
+        open={correctionOpen}
+        onOpenChange={setCorrectionOpen}
+        sale={detailSale}
+        onCorrected={() => setDetailModalOpen(false)}
+      />
+
       {/* Add Expense Modal */}
       <Dialog open={expenseModalOpen} onOpenChange={setExpenseModalOpen}>
         <DialogContent className="w-[calc(100%-2rem)] max-w-md max-h-[90vh] overflow-y-auto">
@@ -1415,40 +1966,26 @@ export default function Counter() {
         </DialogContent>
       </Dialog>
 
-      {/* Table Map Modal */}
-      <Dialog open={tableMapOpen} onOpenChange={setTableMapOpen}>
-        <DialogContent className="max-w-lg">
-          <DialogHeader>
-            <DialogTitle className="flex items-center gap-2">
-              <Map className="w-5 h-5 text-primary" />
-              Table Overview
-            </DialogTitle>
-          </DialogHeader>
-          <TableMap 
-            tables={tableMapData} 
-            onTableClick={(tableNum) => {
-              setSearchInput(tableNum.toString());
-              setTableMapOpen(false);
-              toast.info(`Filtered to Table ${tableNum}`);
-            }}
-          />
-          <div className="flex flex-wrap justify-center gap-4 text-sm text-muted-foreground px-4">
-            <span>🔴 Occupied: {tableMapData.filter(t => t.status === 'occupied').length}</span>
-            <span>🟡 Ordering: {tableMapData.filter(t => t.status === 'ordering').length}</span>
-            <span>🟢 Ready: {tableMapData.filter(t => t.status === 'waiting').length}</span>
-            <span>⚪ Empty: {tableMapData.filter(t => t.status === 'empty').length}</span>
-          </div>
-        </DialogContent>
-      </Dialog>
+      {/* Table Overview Modal */}
+      <QuickSale
+        open={quickSaleOpen}
+        onOpenChange={setQuickSaleOpen}
+        onCreated={handleQuickSaleCreated}
+      />
+
+      <TableOverview
+        open={tableMapOpen}
+        onOpenChange={setTableMapOpen}
+        onShowOrders={(tableNum) => {
+          setSearchInput(tableNum.toString());
+          toast.info(`Filtered to ${getTableName(tableNum, diningTables)}`);
+        }}
+      />
 
       {/* Cash Register Modal */}
       <CashRegister
         open={cashRegisterOpen}
         onOpenChange={setCashRegisterOpen}
-        todayRevenue={cashRegisterData.todayRevenue}
-        todayExpenses={cashRegisterData.todayExpenseTotal}
-        cashPayments={cashRegisterData.cashPayments}
-        fonepayPayments={cashRegisterData.fonepayPayments}
       />
     </div>
   );
@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Coffee, User, ChefHat, CreditCard, Settings, TrendingUp, Users, ShoppingBag, ArrowRight, Sparkles } from 'lucide-react';
 import { ServerConfig } from '@/components/ServerConfig';
 import { formatNepalDateTime } from '@/lib/nepalTime';
+import { getHomeRoute } from '@/lib/permissions';
 
 
 const modules = [
@@ -32,7 +33,7 @@ const modules = [
 
 export default function Hub() {
   
-  const { settings, isAuthenticated, currentUser, getTodayStats, getPendingOrders } = useStore();
+  const { settings, diningTables, isAuthenticated, currentUser, getTodayStats, getPendingOrders } = useStore();
   const stats = getTodayStats();
   const pendingOrders = getPendingOrders();
 
@@ -54,7 +55,7 @@ export default function Hub() {
           <div className="flex items-center gap-2 sm:gap-3">
             <ServerConfig />
             {isAuthenticated && currentUser ? (
-              <Link to={currentUser.role === 'admin' ? '/admin' : '/counter'}>
+              <Link to={getHomeRoute(currentUser)}>
                 <Button variant="outline" size="sm" className="rounded-xl border-border hover:bg-muted text-xs sm:text-sm h-8 sm:h-9">
                   <User className="w-3.5 h-3.5 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
                   <span className="hidden sm:inline">{currentUser.name}</span>
@@ -148,7 +149,7 @@ export default function Hub() {
             Scan the QR code at your table to place an order directly from your phone.
           </p>
           <p className="text-xs sm:text-sm text-muted-foreground mt-2 sm:mt-3">
-            Tables 1 - {settings.tableCount} available
+            {diningTables.length} tables available
           </p>
         </div>
 
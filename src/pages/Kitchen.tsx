@@ -1,44 +1,96 @@
-import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
 import { useStore } from '@/store/useStore';
-import { Order, OrderStatus } from '@/types';
+import { ItemStatus, Order, OrderItem, OrderStatus, OrderType } from '@/types';
 import { StatusBadge } from '@/components/ui/StatusBadge';
 import { Button } from '@/components/ui/button';
-import { Check, X, Clock, ChefHat, Bell, CheckCircle, LogOut, Coffee, RefreshCw, MonitorDot } from 'lucide-react';
+import { Check, X, Clock, ChefHat, Bell, CheckCircle, LogOut, Coffee, RefreshCw, MonitorDot, Printer } from 'lucide-react';
 import { toast } from 'sonner';
 import { formatNepalTime, formatNepalDateTime } from '@/lib/nepalTime';
+import { formatModifiers } from '@/lib/modifiers';
+import { deriveOrderStatus, getItemStatus, getNextItemStatus, itemStatusFlow, itemStatusLabels } from '@/lib/itemStatus';
+import { findStationBySlug, getItemStation, getStationItems, getStationSlug, getStations } from '@/lib/stations';
+import { useReceiptPrinter } from '@/lib/receiptPrinter';
+import { ORDER_TYPES, getOrderDestination, getOrderType, isTableOrder, orderTypeLabels } from '@/lib/orderTypes';
+import { useStationChits } from '@/hooks/useStationChits';
+import { formatPickupTime, getUpcomingPreOrders, isReleasedToKitchen } from '@/lib/preOrders';
 
-const statusFlow: OrderStatus[] = ['pending', 'accepted'];
+type KitchenFilter = 'all' | 'pending' | 'cooking' | 'ready';
 
 export default function Kitchen() {
   const navigate = useNavigate();
-  const { orders, updateOrderStatus, isAuthenticated, logout, settings } = useStore();
-  const [filter, setFilter] = useState<'all' | OrderStatus>('all');
+  const { station: stationSlug } = useParams();
+  const { orders, categories, updateOrderStatus, updateItemStatus, isAuthenticated, hasPermission, logout, settings, diningTables } = useStore();
+  const [filter, setFilter] = useState<KitchenFilter>('all');
+  const [typeFilter, setTypeFilter] = useState<OrderType | 'all'>('all');
+  const printer = useReceiptPrinter();
+  const [printerConnected, setPrinterConnected] = useState(printer.isConnected);
+  // Pre-orders join the queue on the clock, not on a store change
+  const [now, setNow] = useState(() => new Date());
 
-  if (!isAuthenticated) {
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const stations = getStations(settings, categories);
+  const station = stationSlug ? findStationBySlug(stationSlug, stations) : null;
+  useStationChits(station, now);
+
+  if (!isAuthenticated || !hasPermission('use_kitchen')) {
     navigate('/auth');
     return null;
   }
 
+  // A station screen only sees its own lines; /kitchen sees everything
+  const getViewItems = (order: Order) => station ? getStationItems(order, station) : order.items;
+  const getViewStatus = (order: Order) => deriveOrderStatus(order.status, getViewItems(order));
+
   const activeOrders = orders.filter(o => 
-    ['pending', 'accepted'].includes(o.status)
+    getViewItems(o).length > 0 &&
+    isReleasedToKitchen(o, settings, now) &&
+    ['pending', 'accepted', 'preparing', 'ready'].includes(getViewStatus(o))
   );
+  const upcomingPreOrders = getUpcomingPreOrders(orders, settings, now).filter(o => getViewItems(o).length > 0);
 
-  const filteredOrders = filter === 'all' 
-    ? activeOrders 
-    : activeOrders.filter(o => o.status === filter);
+  // Order type chips only show once takeaway, delivery or counter orders are in the queue
+  const showTypeFilter = activeOrders.some(o => !isTableOrder(o));
+  const filteredOrders = activeOrders.filter(o => {
+    if (showTypeFilter && typeFilter !== 'all' && getOrderType(o) !== typeFilter) return false;
+    const status = getViewStatus(o);
+    if (filter === 'pending') return status === 'pending';
+    if (filter === 'cooking') return status === 'accepted' || status === 'preparing';
+    if (filter === 'ready') return status === 'ready';
+    return true;
+  });
 
-  const pendingCount = orders.filter(o => o.status === 'pending').length;
-  const acceptedCount = orders.filter(o => o.status === 'accepted').length;
+  const pendingCount = activeOrders.filter(o => getViewStatus(o) === 'pending').length;
+  const cookingCount = activeOrders.filter(o => ['accepted', 'preparing'].includes(getViewStatus(o))).length;
+  const readyCount = activeOrders.filter(o => getViewStatus(o) === 'ready').length;
+
+  const handleConnectPrinter = async () => {
+    const connected = await printer.connect();
+    setPrinterConnected(connected);
+    if (connected) {
+      toast.success(`Printer connected${station ? ` for ${station}` : ''}`);
+    } else {
+      toast.error('Could not connect printer');
+    }
+  };
 
   const handleStatusChange = (order: Order, newStatus: OrderStatus) => {
-    updateOrderStatus(order.id, newStatus);
+    if (!updateOrderStatus(order.id, newStatus)) {
+      toast.error(`Order is already ${order.status}`);
+      return;
+    }
     toast.success(`Order marked as ${newStatus}`);
   };
 
-  const getNextStatus = (current: OrderStatus): OrderStatus | null => {
-    const idx = statusFlow.indexOf(current);
-    return idx >= 0 && idx < statusFlow.length - 1 ? statusFlow[idx + 1] : null;
+  const handleItemBump = (order: Order, items: OrderItem[], status: ItemStatus) => {
+    updateItemStatus(order.id, items.map(i => i.id), status);
+    if (items.length > 1) {
+      toast.success(`${getOrderDestination(order, diningTables)}: ${items.length} items ${itemStatusLabels[status].toLowerCase()}`);
+    }
   };
 
   const handleLogout = () => {
@@ -57,7 +109,9 @@ export default function Kitchen() {
             </div>
             <div>
               <h1 className="font-serif text-base sm:text-xl font-bold text-foreground">{settings.restaurantName}</h1>
-              <p className="text-xs sm:text-sm text-muted-foreground">Kitchen Display</p>
+              <p className="text-xs sm:text-sm text-muted-foreground">
+                Kitchen Display{station && ` · ${station}`}
+              </p>
             </div>
           </div>
           
@@ -69,6 +123,17 @@ export default function Kitchen() {
               </span>
             )}
             <span className="text-xs text-muted-foreground hidden lg:block">{formatNepalDateTime(new Date())}</span>
+            {printer.isSupported && station && (
+              <Button 
+                variant={printerConnected ? 'default' : 'outline'} 
+                size="icon"
+                className="h-8 w-8 sm:h-9 sm:w-9 rounded-lg"
+                onClick={handleConnectPrinter}
+                title={printerConnected ? 'Chit printer connected' : 'Connect chit printer'}
+              >
+                <Printer className="w-4 h-4" />
+              </Button>
+            )}
             <Button 
               variant="outline" 
               size="icon"
@@ -99,6 +164,77 @@ export default function Kitchen() {
       </header>
 
       <div className="p-4 sm:p-6">
+        {stationSlug && !station ? (
+          <div className="bg-card rounded-2xl border border-border p-8 text-center mb-6">
+            <h3 className="font-serif text-xl font-semibold mb-2">Unknown station "{stationSlug}"</h3>
+            <p className="text-sm text-muted-foreground">Pick one of the stations below.</p>
+          </div>
+        ) : null}
+
+        {/* Station Switcher */}
+        {stations.length > 1 && (
+          <div className="flex gap-2 mb-3 flex-wrap">
+            <Button 
+              variant={!station ? 'default' : 'outline'} 
+              size="sm" 
+              className="rounded-lg"
+              onClick={() => navigate('/kitchen')}
+            >
+              All Stations
+            </Button>
+            {stations.map(st => (
+              <Button 
+                key={st}
+                variant={station === st ? 'default' : 'outline'} 
+                size="sm" 
+                className="rounded-lg"
+                onClick={() => navigate(`/kitchen/${getStationSlug(st)}`)}
+              >
+                {st}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {/* Order Type Filter */}
+        {showTypeFilter && (
+          <div className="flex gap-2 mb-3 flex-wrap">
+            <Button 
+              variant={typeFilter === 'all' ? 'default' : 'outline'} 
+              size="sm" 
+              className="rounded-lg"
+              onClick={() => setTypeFilter('all')}
+            >
+              All Types
+            </Button>
+            {ORDER_TYPES.map(type => (
+              <Button 
+                key={type}
+                variant={typeFilter === type ? 'default' : 'outline'} 
+                size="sm" 
+                className="rounded-lg"
+                onClick={() => setTypeFilter(type)}
+              >
+                {orderTypeLabels[type]} ({activeOrders.filter(o => getOrderType(o) === type).length})
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {/* Pre-orders not yet released to the queue */}
+        {upcomingPreOrders.length > 0 && (
+          <div className="flex items-center gap-2 mb-3 flex-wrap text-sm text-muted-foreground">
+            <Clock className="w-4 h-4" />
+            <span className="font-medium">Coming up:</span>
+            {upcomingPreOrders.slice(0, 6).map(o => (
+              <span key={o.id} className="pill bg-muted text-muted-foreground text-xs">
+                #{o.id.slice(-6)} · {formatPickupTime(o.scheduledFor!, now)}
+              </span>
+            ))}
+            {upcomingPreOrders.length > 6 && <span className="text-xs">+{upcomingPreOrders.length - 6} more</span>}
+          </div>
+        )}
+
         {/* Filter Tabs */}
         <div className="flex gap-2 mb-4 sm:mb-6 flex-wrap">
           <FilterTab 
@@ -115,10 +251,16 @@ export default function Kitchen() {
             variant="warning" 
           />
           <FilterTab 
-            label="Accepted" 
-            count={acceptedCount} 
-            active={filter === 'accepted'} 
-            onClick={() => setFilter('accepted')} 
+            label="Cooking" 
+            count={cookingCount} 
+            active={filter === 'cooking'} 
+            onClick={() => setFilter('cooking')} 
+          />
+          <FilterTab 
+            label="Ready" 
+            count={readyCount} 
+            active={filter === 'ready'} 
+            onClick={() => setFilter('ready')} 
             variant="success" 
           />
         </div>
@@ -142,8 +284,10 @@ export default function Kitchen() {
               >
                 <OrderCard 
                   order={order}
+                  items={getViewItems(order)}
+                  showStation={!station && stations.length > 1}
                   onStatusChange={handleStatusChange}
-                  nextStatus={getNextStatus(order.status)}
+                  onItemBump={handleItemBump}
                 />
               </div>
             ))}
@@ -187,12 +331,28 @@ function FilterTab({
   );
 }
 
-function OrderCard({ order, onStatusChange, nextStatus }: { 
+function OrderCard({ order, items, showStation, onStatusChange, onItemBump }: { 
   order: Order; 
+  items: OrderItem[];
+  showStation: boolean;
   onStatusChange: (order: Order, status: OrderStatus) => void;
-  nextStatus: OrderStatus | null;
+  onItemBump: (order: Order, items: OrderItem[], status: ItemStatus) => void;
 }) {
+  const diningTables = useStore(state => state.diningTables);
   const isPending = order.status === 'pending';
+  const progress = {
+    done: items.filter(i => ['ready', 'served'].includes(getItemStatus(i))).reduce((sum, i) => sum + i.qty, 0),
+    total: items.reduce((sum, i) => sum + i.qty, 0),
+  };
+  // This station is done but the order still waits on other stations
+  const waitingOnOthers = items.length < order.items.length && 
+    progress.done === progress.total && order.status !== 'ready' && order.status !== 'served';
+
+  // "Bump all" advances the lines that are furthest behind
+  const openItems = items.filter(i => getItemStatus(i) !== 'served');
+  const lowestIdx = Math.min(...openItems.map(i => itemStatusFlow.indexOf(getItemStatus(i))));
+  const laggingItems = openItems.filter(i => itemStatusFlow.indexOf(getItemStatus(i)) === lowestIdx);
+  const bumpAllStatus = openItems.length > 0 ? getNextItemStatus(itemStatusFlow[lowestIdx]) : null;
 
   return (
     <div className={`bg-card rounded-2xl border overflow-hidden card-shadow-lg transition-all duration-200 hover:card-shadow-xl ${
@@ -211,7 +371,12 @@ function OrderCard({ order, onStatusChange, nextStatus }: {
                 <ChefHat className="w-5 h-5 text-success" />
               )}
             </div>
-            <span className="font-serif text-xl font-bold">Table {order.tableNumber}</span>
+            <div>
+              <span className="font-serif text-xl font-bold">{getOrderDestination(order, diningTables)}</span>
+              {!isTableOrder(order) && (
+                <span className="block text-xs font-semibold uppercase tracking-wide text-primary">#{order.id.slice(-6)}</span>
+              )}
+            </div>
           </div>
           <StatusBadge status={order.status} />
         </div>
@@ -219,18 +384,68 @@ function OrderCard({ order, onStatusChange, nextStatus }: {
           <span>{order.customerPhone}</span>
           <span>{formatNepalTime(order.createdAt)}</span>
         </div>
+        {order.scheduledFor && (
+          <p className="text-sm font-semibold text-primary mt-1">Pickup {formatPickupTime(order.scheduledFor)}</p>
+        )}
+        {order.delivery && (
+          <p className="text-sm text-muted-foreground mt-1">
+            📍 {order.delivery.address}{order.delivery.rider ? ` · ${order.delivery.rider}` : ''}
+          </p>
+        )}
+        {!isPending && (
+          <div className="mt-3">
+            <div className="h-1.5 bg-muted rounded-full overflow-hidden">
+              <div
+                className="h-full bg-success transition-all duration-300"
+                style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              {progress.done}/{progress.total} ready
+              {waitingOnOthers && <span className="ml-2 text-warning">· waiting on other stations</span>}
+            </p>
+          </div>
+        )}
       </div>
 
       {/* Items */}
       <div className="p-5 space-y-3">
-        {order.items.map((item, idx) => (
-          <div key={idx} className="flex justify-between items-center">
-            <span className="font-medium">
-              <span className="text-primary font-bold text-lg mr-2">{item.qty}×</span>
-              {item.name}
-            </span>
-          </div>
-        ))}
+        {items.map((item, idx) => {
+          const itemStatus = getItemStatus(item);
+          const next = getNextItemStatus(itemStatus);
+          return (
+            <div key={item.id || idx} className="flex justify-between items-center gap-2">
+              <span className={`font-medium ${itemStatus === 'served' ? 'line-through text-muted-foreground' : ''}`}>
+                <span className="text-primary font-bold text-lg mr-2">{item.qty}×</span>
+                {item.name}
+                {item.modifiers && item.modifiers.length > 0 && (
+                  <span className="block text-sm text-muted-foreground ml-8">{formatModifiers(item.modifiers)}</span>
+                )}
+                {showStation && (
+                  <span className="block text-xs text-primary/70 ml-8">{getItemStation(item)}</span>
+                )}
+                {!isPending && itemStatus !== 'queued' && (
+                  <span className="block text-xs text-muted-foreground ml-8">
+                    {itemStatusLabels[itemStatus]}
+                    {item.startedAt && ` · started ${formatNepalTime(item.startedAt)}`}
+                    {item.readyAt && ` · ready ${formatNepalTime(item.readyAt)}`}
+                  </span>
+                )}
+              </span>
+              {!isPending && next && (
+                <Button
+                  size="sm"
+                  variant={next === 'ready' ? 'default' : 'outline'}
+                  className="rounded-lg h-8 text-xs shrink-0"
+                  onClick={() => onItemBump(order, [item], next)}
+                >
+                  {itemStatusLabels[next]}
+                </Button>
+              )}
+              {itemStatus === 'served' && <CheckCircle className="w-4 h-4 text-success shrink-0" />}
+            </div>
+          );
+        })}
         {order.notes && (
           <div className="bg-muted/50 rounded-xl p-3 mt-3 border border-border">
             <p className="text-xs text-muted-foreground">{order.notes}</p>
@@ -259,13 +474,13 @@ function OrderCard({ order, onStatusChange, nextStatus }: {
             </Button>
           </>
         )}
-        {nextStatus && !isPending && (
+        {bumpAllStatus && !isPending && (
           <Button 
             size="sm" 
             className="w-full gradient-primary text-primary-foreground rounded-xl h-11"
-            onClick={() => onStatusChange(order, nextStatus)}
+            onClick={() => onItemBump(order, laggingItems, bumpAllStatus)}
           >
-            Mark as {nextStatus.charAt(0).toUpperCase() + nextStatus.slice(1)}
+            {laggingItems.length === items.length ? 'All' : `${laggingItems.length} left`} → {itemStatusLabels[bumpAllStatus]}
           </Button>
         )}
       </div>
@@ -0,0 +1,88 @@
+import { useEffect, useMemo, useRef } from "react";
+import { CheckCircle2, Loader2, Smartphone, XCircle } from "lucide-react";
+import { decodeCheckoutForm } from "@/lib/paymentGateways";
+
+type Outcome = "paid" | "failed" | "unknown";
+
+// Only gateway hosts are allowed, so the page can't be used to post forms elsewhere
+const isCheckoutHost = (url: string) => {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === "https:" && (hostname === "esewa.com.np" || hostname.endsWith(".esewa.com.np"));
+  } catch {
+    return false;
+  }
+};
+
+// What the gateway says when it sends the customer back here
+function getOutcome(params: URLSearchParams): Outcome {
+  // Khalti: ?status=Completed | Pending | User canceled ...
+  const khalti = params.get("status");
+  if (khalti) return khalti === "Completed" ? "paid" : khalti === "Pending" ? "unknown" : "failed";
+
+  // eSewa: ?data=<base64 JSON> on success
+  const esewa = params.get("data");
+  if (esewa) {
+    try {
+      return JSON.parse(atob(esewa)).status === "COMPLETE" ? "paid" : "unknown";
+    } catch {
+      return "unknown";
+    }
+  }
+  return "unknown";
+}
+
+// Customer-facing page behind eSewa and Khalti QR codes. With a checkout in the
+// hash it sends the phone on to the gateway; afterwards it's where the gateway
+// returns them. The counter confirms the payment with the gateway itself.
+const PayOnline = () => {
+  const formRef = useRef<HTMLFormElement>(null);
+  const checkout = useMemo(() => {
+    const form = decodeCheckoutForm(window.location.hash.slice(1));
+    return form && isCheckoutHost(form.url) ? form : null;
+  }, []);
+  const outcome = useMemo(() => getOutcome(new URLSearchParams(window.location.search)), []);
+
+  useEffect(() => {
+    formRef.current?.submit();
+  }, [checkout]);
+
+  if (checkout) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <div className="text-center">
+          <Loader2 className="w-12 h-12 animate-spin text-primary mx-auto mb-4" />
+          <p className="text-muted-foreground mb-6">Opening eSewa…</p>
+          <form ref={formRef} method="POST" action={checkout.url}>
+            {Object.entries(checkout.fields).map(([name, value]) => (
+              <input key={name} type="hidden" name={name} value={value} />
+            ))}
+            <button type="submit" className="underline text-primary">Continue to eSewa</button>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
+  const Icon = outcome === "paid" ? CheckCircle2 : outcome === "failed" ? XCircle : Smartphone;
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <div className="text-center max-w-md">
+        <div className="w-24 h-24 rounded-full bg-primary/10 flex items-center justify-center mx-auto mb-6">
+          <Icon className={`w-12 h-12 ${outcome === "paid" ? "text-success" : outcome === "failed" ? "text-destructive" : "text-primary"}`} />
+        </div>
+        <h1 className="font-serif text-2xl font-semibold text-foreground mb-2">
+          {outcome === "paid" ? "Payment sent" : outcome === "failed" ? "Payment not completed" : "Payment submitted"}
+        </h1>
+        <p className="text-muted-foreground">
+          {outcome === "failed"
+            ? "Nothing was charged. Scan the QR at the counter again or pay another way."
+            : "The counter will confirm it in a moment. Show this screen to staff if they ask."}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default PayOnline;
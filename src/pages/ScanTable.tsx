@@ -6,11 +6,12 @@ import { isPWA } from './Install';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { QRScanner } from '@/components/QRScanner';
+import { getTableName, isKnownTable } from '@/lib/tables';
 
 export default function ScanTable() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
-  const { settings } = useStore();
+  const { settings, diningTables } = useStore();
   const [showScanner, setShowScanner] = useState(false);
 
   // Check for table parameter from QR code scan
@@ -19,7 +20,7 @@ export default function ScanTable() {
   // Handle scan result from in-app scanner
   const handleScanResult = (tableNum: number) => {
     setShowScanner(false);
-    if (tableNum >= 1 && tableNum <= settings.tableCount) {
+    if (isKnownTable(tableNum, diningTables)) {
       // Get saved phone (persists across table sessions)
       const phoneKey = 'chiyadani:customerPhone';
       const savedPhone = localStorage.getItem(phoneKey) || '';
@@ -34,7 +35,7 @@ export default function ScanTable() {
         timestamp: Date.now()
       }));
       
-      toast.success(`Table ${tableNum}`);
+      toast.success(getTableName(tableNum, diningTables));
       navigate(`/table/${tableNum}`, { replace: true });
     } else {
       toast.error('Invalid table number');
@@ -45,7 +46,7 @@ export default function ScanTable() {
   useEffect(() => {
     if (tableFromQR) {
       const tableNum = parseInt(tableFromQR);
-      if (tableNum && tableNum >= 1 && tableNum <= settings.tableCount) {
+      if (tableNum && isKnownTable(tableNum, diningTables)) {
         // Get saved phone (persists across table sessions)
         const phoneKey = 'chiyadani:customerPhone';
         const savedPhone = localStorage.getItem(phoneKey) || '';
@@ -60,12 +61,12 @@ export default function ScanTable() {
           timestamp: Date.now()
         }));
         
-        toast.success(`Table ${tableNum}`);
+        toast.success(getTableName(tableNum, diningTables));
         navigate(`/table/${tableNum}`, { replace: true });
         return;
       }
     }
-  }, [tableFromQR, settings.tableCount, navigate]);
+  }, [tableFromQR, diningTables, navigate]);
 
   // Check for existing session (only if no QR table parameter) - only for PWA
   useEffect(() => {
@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useStore } from '@/store/useStore';
-import { OrderItem } from '@/types';
+import { CustomerLoyalty, MenuItem, OrderItem, SelectedModifier } from '@/types';
 import { 
   generateSessionToken, 
   getClosedSessions, 
@@ -41,6 +41,15 @@ import { useRushHour } from '@/hooks/useRushHour';
 import { LazyImage } from '@/components/ui/LazyImage';
 import { MenuItemBadge, BadgeType } from '@/components/ui/MenuItemBadge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { ModifierPicker } from '@/components/ModifierPicker';
+import { LoyaltyHistory } from '@/components/LoyaltyHistory';
+import { getItemStatus } from '@/lib/itemStatus';
+import { getPaidOrderIds } from '@/lib/billing';
+import { calculateBillTax, getServiceChargeRate, getVatRate } from '@/lib/tax';
+import { formatModifiers, getLineKey, getStartingPrice, getUnitPrice, hasModifiers } from '@/lib/modifiers';
+import { getTableName, isKnownTable } from '@/lib/tables';
+import { applyPromotions } from '@/lib/promotions';
+import { formatPickupTime, getPreOrderSlots, isSlotFull } from '@/lib/preOrders';
 import { isPWA } from './Install';
 import { 
   phoneSchema, 
@@ -50,22 +59,22 @@ import {
 } from '@/lib/validation';
 
 // Staff PIN approval component for payment block override
-function StaffApprovalInput({ onApprove }: { onApprove: () => void }) {
+function StaffApprovalInput({ onApprove }: { onApprove: (pin: string) => void }) {
   const [pin, setPin] = useState('');
   const [isVerifying, setIsVerifying] = useState(false);
-  const { staff } = useStore();
+  const { verifyStaffPin } = useStore();
 
   const handlePinSubmit = async () => {
     if (pin.length < 4) return;
     
     setIsVerifying(true);
     
-    // Check if PIN matches any staff member's PIN or password
-    // Staff with role 'counter' or 'admin' can approve
-    const matchedStaff = staff.find(s => s.pin === pin || s.password === pin);
+    // PIN is checked against staff PIN/password hashes on the server
+    // Only staff whose role grants override_payment_block can approve
+    const isValid = await verifyStaffPin(pin);
     
-    if (matchedStaff) {
-      await onApprove();
+    if (isValid) {
+      await onApprove(pin);
     } else {
       toast.error('Invalid PIN');
     }
@@ -100,11 +109,12 @@ function StaffApprovalInput({ onApprove }: { onApprove: () => void }) {
 export default function TableOrder() {
   const { tableNumber } = useParams();
   const navigate = useNavigate();
-  const { menuItems, categories, settings, addOrder, getCustomerPoints, updateOrderStatus, callWaiter, waiterCalls, bills } = useStore();
+  const { menuItems, categories, settings, addOrder, fetchCustomerLoyalty, promotions, cancelCustomerOrder, callWaiter, waiterCalls, bills, diningTables, setCustomerSession } = useStore();
   
   const [phone, setPhone] = useState('');
   const [isPhoneEntered, setIsPhoneEntered] = useState(false);
   const [cart, setCart] = useState<OrderItem[]>([]);
+  const [modifierItem, setModifierItem] = useState<MenuItem | null>(null);
   const [activeCategory, setActiveCategory] = useState<string>('');
   const [isScrolling, setIsScrolling] = useState(false);
   const scrollTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -116,6 +126,9 @@ export default function TableOrder() {
   const [successModalOpen, setSuccessModalOpen] = useState(false);
   const [showConfetti, setShowConfetti] = useState(false);
   const [specialInstructions, setSpecialInstructions] = useState('');
+  // Pre-orders: the pickup slot picked in the cart, empty for "now"
+  const [pickupSlot, setPickupSlot] = useState('');
+  const [placedPickup, setPlacedPickup] = useState<string | null>(null);
   const [lastAddedItemId, setLastAddedItemId] = useState<string | null>(null);
   const table = parseInt(tableNumber || '0');
   
@@ -236,7 +249,7 @@ export default function TableOrder() {
 
   // Validate table number and handle session
   useEffect(() => {
-    if (!table || table < 1 || table > settings.tableCount) {
+    if (!table || !isKnownTable(table, diningTables)) {
       toast.error('Invalid table number');
       navigate('/');
       return;
@@ -341,7 +354,12 @@ export default function TableOrder() {
     }
     
     setLockedTable(table);
-  }, [table, settings.tableCount, navigate]);
+  }, [table, diningTables, navigate]);
+
+  // Customers can only load their own orders and bills, keyed by this table and phone
+  useEffect(() => {
+    setCustomerSession(isPhoneEntered && phone && table ? { tableNumber: table, phone } : null);
+  }, [isPhoneEntered, phone, table, setCustomerSession]);
 
   // Check for stale session (customer returning from browser history after bill was paid)
   useEffect(() => {
@@ -363,7 +381,7 @@ export default function TableOrder() {
           o => o.tableNumber === table && 
                o.customerPhone === phone && 
                ['pending', 'accepted', 'preparing', 'ready'].includes(o.status) &&
-               !bills.some(b => b.status === 'paid' && b.orders.some(bo => bo.id === o.id))
+               !getPaidOrderIds(bills).has(o.id)
         );
         
         // Check if customer has paid bills for this table today (indicates they left and came back)
@@ -469,24 +487,49 @@ export default function TableOrder() {
     : 0;
   
   const myOrders = storeOrders.filter(
-    o => o.tableNumber === table && o.customerPhone === phone && ['pending', 'accepted'].includes(o.status)
+    o => o.tableNumber === table && o.customerPhone === phone && 
+         ['pending', 'accepted', 'preparing', 'ready', 'served'].includes(o.status) &&
+         !getPaidOrderIds(bills).has(o.id)
+  );
+  // What the counter will charge, running promotions off and service charge and VAT included
+  // Pre-orders are takeaway orders, paid when they're collected
+  const myPreOrders = storeOrders.filter(
+    o => o.scheduledFor && o.customerPhone === phone &&
+         ['pending', 'accepted', 'preparing', 'ready'].includes(o.status) &&
+         !getPaidOrderIds(bills).has(o.id)
   );
-  const totalDue = myOrders.reduce((sum, o) => 
-    sum + o.items.reduce((s, i) => s + i.price * i.qty, 0), 0
+  const preOrderSlots = useMemo(
+    () => (settings.preOrdersEnabled && cartModalOpen ? getPreOrderSlots(settings, storeOrders) : []),
+    [settings, storeOrders, cartModalOpen]
   );
+  const duePromotions = applyPromotions(myOrders.flatMap(o => o.items), promotions, menuItems);
+  const totalDue = calculateBillTax(myOrders.flatMap(o => o.items), duePromotions.discount, settings).total;
+  const chargesTax = getServiceChargeRate(settings) > 0 || getVatRate(settings) > 0;
 
-  // Get customer points
-  const customerPoints = phone ? getCustomerPoints(phone) : 0;
+  // Customer's points and history, refreshed whenever they open their account
+  const [loyalty, setLoyalty] = useState<CustomerLoyalty>({ points: 0, entries: [] });
+  const [pointsHistoryOpen, setPointsHistoryOpen] = useState(false);
+  useEffect(() => {
+    if (!phone || !isPhoneEntered || !settings.pointSystemEnabled) return;
+    fetchCustomerLoyalty(phone, table).then(setLoyalty);
+  }, [phone, isPhoneEntered, drawerOpen, settings.pointSystemEnabled, fetchCustomerLoyalty, table]);
+
+  const addToCart = (item: typeof menuItems[0], modifiers?: SelectedModifier[]) => {
+    // Items with options open the picker first
+    if (!modifiers && hasModifiers(item)) {
+      setModifierItem(item);
+      return;
+    }
 
-  const addToCart = (item: typeof menuItems[0]) => {
     hapticAddToCart();
     setLastAddedItemId(item.id);
     setTimeout(() => setLastAddedItemId(null), 400);
     
-    const existing = cart.find(c => c.menuItemId === item.id);
+    const lineKey = getLineKey(item.id, modifiers);
+    const existing = cart.find(c => getLineKey(c.menuItemId, c.modifiers) === lineKey);
     if (existing) {
       setCart(cart.map(c =>
-        c.menuItemId === item.id ? { ...c, qty: c.qty + 1 } : c
+        c.id === existing.id ? { ...c, qty: c.qty + 1 } : c
       ));
     } else {
       setCart([...cart, {
@@ -494,42 +537,39 @@ export default function TableOrder() {
         menuItemId: item.id,
         name: item.name,
         qty: 1,
-        price: item.price,
+        price: getUnitPrice(item.price, modifiers),
+        ...(modifiers && modifiers.length > 0 && { modifiers }),
       }]);
     }
   };
 
-  const updateQty = (menuItemId: string, delta: number) => {
+  const updateLineQty = (lineId: string, delta: number) => {
     hapticQuantityChange();
-    setCart(cart.map(c => {
-      if (c.menuItemId === menuItemId) {
-        const newQty = c.qty + delta;
-        return newQty > 0 ? { ...c, qty: newQty } : c;
-      }
-      return c;
-    }).filter(c => c.qty > 0 || cart.find(x => x.menuItemId === menuItemId)?.qty !== 1 || delta !== -1));
-    
-    // Remove items with qty 0
-    setCart(prev => prev.filter(c => {
-      const item = prev.find(x => x.menuItemId === menuItemId);
-      if (item && item.qty + delta <= 0 && c.menuItemId === menuItemId) {
-        return false;
-      }
-      return true;
-    }));
+    // Lines that drop to zero are removed
+    setCart(prev => prev
+      .map(c => c.id === lineId ? { ...c, qty: c.qty + delta } : c)
+      .filter(c => c.qty > 0)
+    );
+  };
+
+  // Menu list steppers only apply to items without options (one cart line each)
+  const updateQty = (menuItemId: string, delta: number) => {
+    const line = cart.find(c => c.menuItemId === menuItemId && !c.modifiers?.length);
+    if (line) updateLineQty(line.id, delta);
   };
 
-  const removeFromCart = (menuItemId: string) => {
+  const removeFromCart = (lineId: string) => {
     hapticDeleteItem();
-    setCart(cart.filter(c => c.menuItemId !== menuItemId));
+    setCart(cart.filter(c => c.id !== lineId));
   };
 
 
   const getItemQty = (menuItemId: string) => {
-    return cart.find(c => c.menuItemId === menuItemId)?.qty || 0;
+    return cart.filter(c => c.menuItemId === menuItemId).reduce((sum, c) => sum + c.qty, 0);
   };
 
-  const cartTotal = cart.reduce((sum, item) => sum + item.price * item.qty, 0);
+  const cartPromotions = applyPromotions(cart, promotions, menuItems);
+  const cartTotal = cart.reduce((sum, item) => sum + item.price * item.qty, 0) - cartPromotions.discount;
   const cartCount = cart.reduce((sum, item) => sum + item.qty, 0);
 
   const handlePhoneSubmit = (e: React.FormEvent) => {
@@ -597,6 +637,14 @@ export default function TableOrder() {
       }
     }
 
+    // Someone else may have taken the last place in the slot since it was picked
+    const slot = preOrderSlots.find(s => s.time === pickupSlot);
+    if (pickupSlot && (!slot || isSlotFull(slot))) {
+      toast.error('That pickup time is no longer available, please pick another');
+      setPickupSlot('');
+      return;
+    }
+
     setIsSubmitting(true);
     await new Promise(resolve => setTimeout(resolve, 500));
 
@@ -604,7 +652,16 @@ export default function TableOrder() {
       ? sanitizeText(specialInstructions.trim()) 
       : undefined;
     
-    addOrder(table, phone, cart, sanitizedInstructions);
+    if (pickupSlot) {
+      addOrder(0, phone, cart, sanitizedInstructions, { orderType: 'takeaway', scheduledFor: pickupSlot });
+    } else {
+      addOrder(table, phone, cart, sanitizedInstructions);
+    }
+    setPlacedPickup(pickupSlot || null);
+    // Customer phones aren't on the LAN hub, so an offline order waits on this phone
+    if (!navigator.onLine) {
+      toast.warning('You\'re offline, so the kitchen won\'t see this order until your phone reconnects. Please let a staff member know.');
+    }
     
     // Haptic feedback and sound for order success
     hapticOrderPlaced();
@@ -614,6 +671,7 @@ export default function TableOrder() {
     
     setCart([]);
     setSpecialInstructions('');
+    setPickupSlot('');
     setCartModalOpen(false);
     setSuccessModalOpen(true);
     setIsSubmitting(false);
@@ -659,6 +717,8 @@ export default function TableOrder() {
       case 'preparing': return { text: 'Preparing', color: '#3498db' };
       case 'ready': return { text: 'Ready', color: '#27ae60' };
       case 'served': return { text: 'Served', color: '#27ae60' };
+      case 'queued': return { text: 'In Queue', color: '#f39c12' };
+      case 'cooking': return { text: 'Cooking', color: '#3498db' };
       default: return { text: status, color: '#666' };
     }
   };
@@ -723,7 +783,7 @@ export default function TableOrder() {
           
           {/* Table Info */}
           <div className="bg-muted/50 p-4 rounded-xl mb-6 sm:mb-8">
-            <div className="text-lg sm:text-xl font-bold text-foreground">Table {table}</div>
+            <div className="text-lg sm:text-xl font-bold text-foreground">{getTableName(table, diningTables)}</div>
             <div className="text-muted-foreground text-sm mt-1">{phone}</div>
           </div>
           
@@ -736,9 +796,9 @@ export default function TableOrder() {
             </div>
             
             <StaffApprovalInput 
-              onApprove={async () => {
+              onApprove={async (pin) => {
                 if (paymentBlock.block_id) {
-                  const success = await overridePaymentBlock(paymentBlock.block_id);
+                  const success = await overridePaymentBlock(paymentBlock.block_id, pin);
                   if (success) {
                     setShowStaffConfirmation(false);
                     setPaymentBlock(null);
@@ -792,7 +852,7 @@ export default function TableOrder() {
             </button>
           </form>
           <p className="text-xs text-center text-[#999] mt-6">
-            Table {table} • {formatNepalTime(new Date())}
+            {getTableName(table, diningTables)} • {formatNepalTime(new Date())}
           </p>
         </div>
       </div>
@@ -828,7 +888,7 @@ export default function TableOrder() {
             </div>
           )}
           <div className="text-sm bg-[#f6f6f6] px-3 py-1.5 rounded-full font-medium">
-            Table {table}
+            {getTableName(table, diningTables)}
           </div>
         </div>
 
@@ -860,14 +920,30 @@ export default function TableOrder() {
           <div className="bg-[#fff8e1] p-4 rounded-xl border border-[#ffe0b2] mb-5">
             <span className="font-bold text-lg block mb-1">{phone}</span>
             {settings.pointSystemEnabled && (
-              <div className="text-[#f39c12] font-semibold flex items-center gap-1">
-                ⭐ {customerPoints} Points
-              </div>
+              <>
+                <div className="text-[#f39c12] font-semibold flex items-center gap-1">
+                  ⭐ {loyalty.points} Points
+                  {loyalty.tier && (
+                    <span className="ml-1 text-xs px-2 py-0.5 rounded-full bg-[#f39c12] text-white">{loyalty.tier}</span>
+                  )}
+                </div>
+                <button
+                  onClick={() => setPointsHistoryOpen(open => !open)}
+                  className="text-xs text-[#f39c12] underline mt-1"
+                >
+                  {pointsHistoryOpen ? 'Hide points history' : 'Points history'}
+                </button>
+              </>
             )}
             <div className="font-semibold text-[#7f8c8d] text-sm mt-2">
-              Table {table}
+              {getTableName(table, diningTables)}
             </div>
           </div>
+          {settings.pointSystemEnabled && pointsHistoryOpen && (
+            <div className="mb-5 max-h-[40vh] overflow-y-auto">
+              <LoyaltyHistory entries={loyalty.entries} />
+            </div>
+          )}
           <div className="flex flex-col gap-2.5">
             <button 
               onClick={() => {
@@ -1018,17 +1094,19 @@ export default function TableOrder() {
                           <Heart className="w-4 h-4 fill-current" />
                         </button>
                       </div>
-                      <p className="font-medium text-[#333]">रू{item.price}</p>
+                      <p className="font-medium text-[#333]">
+                        {hasModifiers(item) ? `from रू${getStartingPrice(item)}` : `रू${item.price}`}
+                      </p>
                       {item.description && (
                         <p className="text-xs text-[#888] mt-1 line-clamp-2">{item.description}</p>
                       )}
                       <div className="mt-3">
-                        {qty === 0 ? (
+                        {qty === 0 || hasModifiers(item) ? (
                           <button
                             onClick={() => addToCart(item)}
                             className={`bg-white border border-[#ddd] text-[#06C167] font-bold px-5 py-1.5 rounded-full shadow-sm hover:shadow-md transition-shadow ${lastAddedItemId === item.id ? 'cart-bounce' : ''}`}
                           >
-                            ADD
+                            ADD{hasModifiers(item) && qty > 0 && ` · ${qty}`}
                           </button>
                         ) : (
                           <div className="inline-flex items-center bg-white border border-[#eee] rounded-full overflow-hidden shadow-[0_2px_8px_rgba(0,0,0,0.1)]">
@@ -1095,7 +1173,9 @@ export default function TableOrder() {
                           <Heart className={`w-4 h-4 ${isFav ? 'fill-current' : ''}`} />
                         </button>
                       </div>
-                      <p className="font-medium text-[#333]">रू{item.price}</p>
+                      <p className="font-medium text-[#333]">
+                        {hasModifiers(item) ? `from रू${getStartingPrice(item)}` : `रू${item.price}`}
+                      </p>
                       {item.description && (
                         <p className="text-xs text-[#888] mt-1 line-clamp-2">{item.description}</p>
                       )}
@@ -1106,12 +1186,12 @@ export default function TableOrder() {
                           <span className="inline-block bg-gray-200 text-gray-500 font-medium px-4 py-1.5 rounded-full text-sm">
                             Unavailable
                           </span>
-                        ) : qty === 0 ? (
+                        ) : qty === 0 || hasModifiers(item) ? (
                           <button
                             onClick={() => addToCart(item)}
                             className={`bg-white border border-[#ddd] text-[#06C167] font-bold px-5 py-1.5 rounded-full shadow-sm hover:shadow-md transition-shadow ${lastAddedItemId === item.id ? 'cart-bounce' : ''}`}
                           >
-                            ADD
+                            ADD{hasModifiers(item) && qty > 0 && ` · ${qty}`}
                           </button>
                         ) : (
                           <div className="inline-flex items-center bg-white border border-[#eee] rounded-full overflow-hidden shadow-[0_2px_8px_rgba(0,0,0,0.1)]">
@@ -1167,6 +1247,18 @@ export default function TableOrder() {
         </div>
       )}
 
+      {/* Item Options Picker */}
+      {modifierItem && (
+        <ModifierPicker
+          item={modifierItem}
+          onClose={() => setModifierItem(null)}
+          onConfirm={(modifiers) => {
+            addToCart(modifierItem, modifiers);
+            setModifierItem(null);
+          }}
+        />
+      )}
+
       {/* Cart Modal */}
       {cartModalOpen && (
         <div className="fixed inset-0 bg-black/50 z-[2000] flex items-end">
@@ -1180,26 +1272,29 @@ export default function TableOrder() {
               <div key={item.id} className="flex justify-between items-center mb-4 pb-3 border-b border-[#eee]">
                 <div className="flex-1">
                   <div className="font-semibold">{item.name}</div>
+                  {item.modifiers && item.modifiers.length > 0 && (
+                    <div className="text-[#888] text-xs">{formatModifiers(item.modifiers)}</div>
+                  )}
                   <div className="text-[#666] text-sm">रू{item.price}</div>
                 </div>
                 <div className="flex items-center gap-3">
                   <div className="flex items-center gap-3">
                     <button 
-                      onClick={() => updateQty(item.menuItemId, -1)}
+                      onClick={() => updateLineQty(item.id, -1)}
                       className="w-8 h-8 rounded-full bg-[#eee] font-bold flex items-center justify-center"
                     >
                       -
                     </button>
                     <span className="font-medium w-4 text-center">{item.qty}</span>
                     <button 
-                      onClick={() => updateQty(item.menuItemId, 1)}
+                      onClick={() => updateLineQty(item.id, 1)}
                       className="w-8 h-8 rounded-full bg-[#eee] font-bold flex items-center justify-center"
                     >
                       +
                     </button>
                   </div>
                   <button 
-                    onClick={() => removeFromCart(item.menuItemId)}
+                    onClick={() => removeFromCart(item.id)}
                     className="w-8 h-8 rounded-full bg-red-50 text-red-500 flex items-center justify-center hover:bg-red-100 transition-colors"
                     aria-label="Remove item"
                   >
@@ -1226,16 +1321,68 @@ export default function TableOrder() {
                   {specialInstructions.length}/100
                 </div>
               </div>
-              <div className="flex justify-between font-bold text-xl mb-5">
+              {preOrderSlots.length > 0 && (
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-[#666] mb-2">When?</label>
+                  <div className="flex gap-2 mb-2">
+                    <button
+                      onClick={() => setPickupSlot('')}
+                      className={`flex-1 py-2 rounded-lg text-sm font-semibold border-2 ${!pickupSlot ? 'border-[#06C167] text-[#06C167]' : 'border-[#eee] text-[#666]'}`}
+                    >
+                      Now, at my table
+                    </button>
+                    <button
+                      onClick={() => {
+                        const firstOpen = preOrderSlots.find(s => !isSlotFull(s));
+                        if (firstOpen) setPickupSlot(firstOpen.time);
+                        else toast.error('All pickup times are taken');
+                      }}
+                      className={`flex-1 py-2 rounded-lg text-sm font-semibold border-2 ${pickupSlot ? 'border-[#06C167] text-[#06C167]' : 'border-[#eee] text-[#666]'}`}
+                    >
+                      Pickup later
+                    </button>
+                  </div>
+                  {pickupSlot && (
+                    <>
+                      <select
+                        value={pickupSlot}
+                        onChange={(e) => setPickupSlot(e.target.value)}
+                        className="w-full p-3 border-2 border-[#eee] rounded-lg text-sm outline-none focus:border-[#06C167] bg-white"
+                      >
+                        {[0, 1].map(day => (
+                          <optgroup key={day} label={day === 0 ? 'Today' : 'Tomorrow'}>
+                            {preOrderSlots.filter(s => s.day === day).map(s => (
+                              <option key={s.time} value={s.time} disabled={isSlotFull(s)}>
+                                {s.label}{isSlotFull(s) ? ' (full)' : ''}
+                              </option>
+                            ))}
+                          </optgroup>
+                        ))}
+                      </select>
+                      <div className="text-xs text-[#999] mt-1">Takeaway, paid at the counter when you collect</div>
+                    </>
+                  )}
+                </div>
+              )}
+              {cartPromotions.applied.map(p => (
+                <div key={p.promotionId} className="flex justify-between text-sm text-[#06C167] mb-1">
+                  <span>🎉 {p.name}</span>
+                  <span>-रू{p.discount}</span>
+                </div>
+              ))}
+              <div className={`flex justify-between font-bold text-xl ${chargesTax ? 'mb-1' : 'mb-5'}`}>
                 <span>Total</span>
                 <span>रू{cartTotal}</span>
               </div>
+              {chargesTax && (
+                <div className="text-xs text-[#999] text-right mb-5">Service charge and VAT are added at billing</div>
+              )}
               <button 
                 onClick={handleSubmitOrder}
                 disabled={isSubmitting}
                 className="w-full bg-black text-white p-4 rounded-lg text-lg font-semibold disabled:opacity-50"
               >
-                {isSubmitting ? 'Placing Order...' : 'Place Order'}
+                {isSubmitting ? 'Placing Order...' : pickupSlot ? 'Place Pre-order' : 'Place Order'}
               </button>
             </div>
           </div>
@@ -1250,7 +1397,11 @@ export default function TableOrder() {
               <Check className="w-10 h-10 text-white" />
             </div>
             <h2 className="text-2xl font-bold mb-2">Order Placed!</h2>
-            <p className="text-[#666] mb-8">The counter has received your order.</p>
+            <p className="text-[#666] mb-8">
+              {placedPickup
+                ? `We'll have it ready for pickup ${formatPickupTime(placedPickup)}.`
+                : 'The counter has received your order.'}
+            </p>
             <button 
               onClick={() => { setSuccessModalOpen(false); setBillModalOpen(true); }}
               className="w-full bg-black text-white p-4 rounded-lg text-lg font-semibold"
@@ -1279,20 +1430,23 @@ export default function TableOrder() {
               }} className="text-2xl">×</button>
             </div>
             
-            {myOrders.length === 0 ? (
+            {myOrders.length === 0 && myPreOrders.length === 0 ? (
               <p className="text-center text-[#999] py-5">No active orders.</p>
             ) : (
-              myOrders.map(order => (
+              [...myOrders, ...myPreOrders].map(order => (
                 <div key={order.id} className="mb-4 bg-[#f9f9f9] rounded-lg p-3">
                   <div className="flex justify-between items-center mb-2">
-                    <span className="text-xs text-[#888]">Order #{order.id.slice(-6)}</span>
+                    <span className="text-xs text-[#888]">
+                      Order #{order.id.slice(-6)}
+                      {order.scheduledFor && <span className="ml-1 font-semibold text-[#06C167]">· Pickup {formatPickupTime(order.scheduledFor)}</span>}
+                    </span>
                     {order.status === 'pending' && (
                       <button
                         onClick={() => {
                           // Re-check the latest status before canceling to avoid race condition
                           const currentOrder = storeOrders.find(o => o.id === order.id);
                           if (currentOrder && currentOrder.status === 'pending') {
-                            updateOrderStatus(order.id, 'cancelled');
+                            cancelCustomerOrder(order.id, phone);
                             toast.success('Order cancelled');
                           } else {
                             toast.error('Order already accepted, cannot cancel');
@@ -1305,11 +1459,17 @@ export default function TableOrder() {
                     )}
                   </div>
                   {order.items.map((item, idx) => {
-                    const status = getStatusText(order.status);
+                    // Once accepted, each line shows its own kitchen progress
+                    const status = order.status === 'pending' || order.status === 'cancelled'
+                      ? getStatusText(order.status)
+                      : getStatusText(getItemStatus(item));
                     return (
                       <div key={idx} className="flex justify-between items-center py-2 border-b border-[#eee] last:border-b-0">
                         <div>
                           <div className="font-semibold">{item.qty}x {item.name}</div>
+                          {item.modifiers && item.modifiers.length > 0 && (
+                            <div className="text-xs text-[#888]">{formatModifiers(item.modifiers)}</div>
+                          )}
                           <div className="text-sm text-[#888]">रू{item.price * item.qty}</div>
                         </div>
                         <span style={{ color: status.color }} className="font-bold text-sm">
@@ -1323,7 +1483,13 @@ export default function TableOrder() {
             )}
 
             <div className="mt-5 border-t border-[#eee] pt-4 text-right">
+              {duePromotions.applied.map(p => (
+                <div key={p.promotionId} className="text-sm text-[#06C167]">{p.name}: -रू{p.discount}</div>
+              ))}
               <h3 className="text-xl font-bold">Total Due: रू{totalDue}</h3>
+              {myPreOrders.length > 0 && (
+                <div className="text-xs text-[#999] mt-1">Pre-orders are paid when you collect them</div>
+              )}
             </div>
           </div>
         </div>
@@ -1,70 +1,115 @@
 import { create } from 'zustand';
 import {
+  AccountPayment,
+  AccountPaymentMethod,
+  AppliedPromotion,
+  AuditAction,
+  AuditEntry,
   Bill,
+  CashMovementType,
   Category,
   Customer,
+  CustomerLoyalty,
+  DeliveryDetails,
+  DiningTable,
   Expense,
+  GoodsReceipt,
+  GoodsReceiptLine,
+  Ingredient,
+  ItemStatus,
   MenuItem,
   Order,
   OrderItem,
   OrderStatus,
+  OrderType,
+  PaymentMethod,
+  Permission,
+  Promotion,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  RegisterSession,
+  Reservation,
+  ReservationStatus,
+  Role,
   Settings,
   Staff,
+  StockMovement,
+  StockMovementType,
+  Supplier,
+  SupplierPayment,
+  SupplierPaymentMethod,
+  Tender,
   Transaction,
   WaiterCall,
 } from '@/types';
 import { getNepalTimestamp, isToday } from '@/lib/nepalTime';
-import { billsApi, customersApi, ordersApi, menuApi, settingsApi, expensesApi, waiterCallsApi, staffApi, transactionsApi, categoriesApi } from '@/lib/apiClient';
+import { getLineTotal, getUnitPrice } from '@/lib/modifiers';
+import { applyItemStatus, canTransitionOrder, deriveOrderStatus } from '@/lib/itemStatus';
+import { getMenuItemStation } from '@/lib/stations';
+import { getPaidOrderIds, getPaymentMethodLabel, roundMoney, SplitPart } from '@/lib/billing';
+import { getDenominationTotal, getRegisterSummary } from '@/lib/register';
+import { STAFF_SESSION_KEY } from '@/lib/supabase';
+import { hasPermission } from '@/lib/permissions';
+import { pickFields } from '@/lib/audit';
+import { buildCorrectionTransaction, TransactionCorrection } from '@/lib/refunds';
+import { calculateBillTax, getFiscalYear, scaleBillTax } from '@/lib/tax';
+import { getSoldOutItems, getStockUsage, roundQty } from '@/lib/inventory';
+import { applyReceiptToOrder, getLinesTotal } from '@/lib/purchasing';
+import { getOpenTableOrders } from '@/lib/tables';
+import { getDeliveryFee, getOrderType, isTableOrder } from '@/lib/orderTypes';
+import { getEarnedPoints } from '@/lib/loyalty';
+import { scalePromotions } from '@/lib/promotions';
+import { outbox } from '@/lib/outbox';
+import { offlineStorage } from '@/lib/offlineStorage';
+import { auditLogApi, authApi, rolesApi, customersApi, settingsApi, staffApi, transactionsApi, stockMovementsApi, suppliersApi, purchaseOrdersApi, goodsReceiptsApi, supplierPaymentsApi } from '@/lib/apiClient';
 
 const generateId = () => Math.random().toString(36).substring(2, 11);
 
-// All actions sync to backend with retry logic
-const syncToBackend = async (fn: () => Promise<unknown>, retries = 2) => {
-  for (let attempt = 0; attempt <= retries; attempt++) {
-    try {
-      await fn();
-      return;
-    } catch (err) {
-      console.error(`[Store] Backend sync failed (attempt ${attempt + 1}/${retries + 1}):`, err);
-      if (attempt < retries) {
-        // Wait before retry (exponential backoff)
-        await new Promise(resolve => setTimeout(resolve, 1000 * (attempt + 1)));
-      }
-    }
-  }
+// The version the database will give a row once this device's update lands
+const nextVersion = (row: { version?: number }) => (row.version ?? 1) + 1;
+
+// Append-only audit trail. The database stamps the actor from the session token
+// and the time, so neither can be forged from the client
+const audit = (action: AuditAction, entityId: string, before?: unknown, after?: unknown) => {
+  outbox.enqueue('auditLogApi', 'create', { key: generateId(), action, entityId, before, after });
 };
 
 const defaultSettings: Settings = {
   restaurantName: 'Sajilo Orders',
-  tableCount: 10,
   wifiSSID: '',
   wifiPassword: '',
   baseUrl: typeof window !== 'undefined' ? window.location.origin : '',
-  counterAsAdmin: false,
+  deliveryFee: 0,
+  deliveryRiders: [],
 };
 
-const defaultStaff: Staff[] = [
-  {
-    id: '1',
-    username: 'admin',
-    password: 'admin123',
-    role: 'admin',
-    name: 'Administrator',
-    createdAt: new Date().toISOString(),
-  },
-  {
-    id: '2',
-    username: 'counter',
-    password: 'counter123',
-    role: 'counter',
-    name: 'Counter Staff',
-    createdAt: new Date().toISOString(),
-  },
-];
+// Orders rung up at the counter skip the pending step and may carry delivery details
+interface NewOrderOptions {
+  orderType?: OrderType;
+  delivery?: DeliveryDetails;
+  status?: OrderStatus;
+  scheduledFor?: string; // Pre-order pickup slot
+}
+
+// Older builds cached the full staff record (password included) here
+localStorage.removeItem('sajilo_auth');
+localStorage.removeItem('sajilo_user');
+
+// Only public fields are kept client-side; password and PIN are write-only
+const toPublicStaff = (s: Staff): Staff => ({
+  id: s.id,
+  username: s.username,
+  role: s.role,
+  name: s.name,
+  hasPin: s.pin !== undefined ? s.pin !== '' : s.hasPin,
+  createdAt: s.createdAt,
+});
 
 interface AuthState {
-  isAuthenticated: boolean;
+  isAuthenticated: boolean; // Only true once the server has verified the session
+  isSessionChecked: boolean;
   currentUser: Staff | null;
+  sessionToken: string | null;
 }
 
 interface StoreState extends AuthState {
@@ -73,14 +118,18 @@ interface StoreState extends AuthState {
   setDataLoaded: (loaded: boolean) => void;
 
   // Auth
-  login: (username: string, password: string) => boolean;
+  login: (username: string, password: string) => Promise<boolean>;
+  setupOwner: (username: string, password: string, name: string) => Promise<boolean>;
+  verifySession: () => Promise<boolean>;
   logout: () => void;
+  verifyStaffPin: (pin: string) => Promise<boolean>;
+  hasPermission: (permission: Permission) => boolean;
 
   // Categories
   categories: Category[];
   setCategories: (categories: Category[]) => void;
-  addCategory: (name: string, prepTime?: number) => void;
-  updateCategory: (id: string, name: string, prepTime?: number) => void;
+  addCategory: (name: string, prepTime?: number, station?: string) => void;
+  updateCategory: (id: string, name: string, prepTime?: number, station?: string) => void;
   deleteCategory: (id: string) => void;
   reorderCategories: (fromIndex: number, toIndex: number) => void;
 
@@ -96,8 +145,15 @@ interface StoreState extends AuthState {
   // Orders
   orders: Order[];
   setOrders: (orders: Order[]) => void;
-  addOrder: (tableNumber: number, customerPhone: string, items: OrderItem[], notes?: string) => Order;
-  updateOrderStatus: (id: string, status: OrderStatus) => void;
+  // The table and phone a customer ordered with; their orders and bills are loaded for it
+  customerSession: { tableNumber: number; phone: string } | null;
+  setCustomerSession: (session: { tableNumber: number; phone: string } | null) => void;
+  addOrder: (tableNumber: number, customerPhone: string, items: OrderItem[], notes?: string, options?: NewOrderOptions) => Order;
+  // False if the order can't move to that status (e.g. already served on another device)
+  updateOrderStatus: (id: string, status: OrderStatus) => boolean;
+  cancelCustomerOrder: (id: string, customerPhone: string) => void;
+  assignRider: (orderId: string, rider: string) => void;
+  updateItemStatus: (orderId: string, itemIds: string[], status: ItemStatus) => void;
   getOrdersByTable: (tableNumber: number) => Order[];
   getOrdersByPhone: (phone: string) => Order[];
   getPendingOrders: () => Order[];
@@ -106,34 +162,68 @@ interface StoreState extends AuthState {
   // Bills
   bills: Bill[];
   setBills: (bills: Bill[]) => void;
-  createBill: (tableNumber: number, orderIds: string[], discount?: number) => Bill;
-  payBill: (billId: string, paymentMethod: 'cash' | 'fonepay') => void;
+  // The discount includes what the promotions took off
+  createBill: (tableNumber: number, orderIds: string[], discount?: number, pointsRedeemed?: number, promotions?: AppliedPromotion[]) => Bill;
+  createSplitBills: (tableNumber: number, orderIds: string[], discount: number, parts: SplitPart[], pointsRedeemed?: number, promotions?: AppliedPromotion[]) => Bill[];
+  payBill: (billId: string, payment: PaymentMethod | Tender[]) => Transaction | undefined;
   redeemPoints: (phone: string, points: number) => void;
   getUnpaidOrdersByTable: (tableNumber: number) => Order[];
 
   // Transactions
   transactions: Transaction[];
   setTransactions: (transactions: Transaction[]) => void;
+  correctTransaction: (saleId: string, correction: TransactionCorrection, pin: string) => Promise<Transaction>;
 
   // Customers
   customers: Customer[];
   setCustomers: (customers: Customer[]) => void;
   getCustomerPoints: (phone: string) => number;
-  addOrUpdateCustomer: (phone: string, amount: number) => void;
+  fetchCustomerLoyalty: (phone: string, tableNumber?: number) => Promise<CustomerLoyalty>;
+  addOrUpdateCustomer: (phone: string, amount: number, points?: number) => void;
+  adjustCustomerPoints: (phone: string, points: number, reason: string) => Promise<void>;
   updateCustomerPhone: (oldPhone: string, newPhone: string) => Promise<void>;
+  // Customer accounts (khata)
+  accountPayments: AccountPayment[];
+  setAccountPayments: (payments: AccountPayment[]) => void;
+  setCustomerCreditLimit: (phone: string, creditLimit: number | null) => Promise<void>;
+  recordAccountPayment: (phone: string, amount: number, method: AccountPaymentMethod, note?: string) => void;
 
   // Staff
   staff: Staff[];
   setStaff: (staff: Staff[]) => void;
+  loadStaff: () => Promise<void>;
   addStaff: (staff: Omit<Staff, 'id' | 'createdAt'>) => void;
   updateStaff: (id: string, staff: Partial<Staff>) => void;
   deleteStaff: (id: string) => void;
 
+  // Roles
+  roles: Role[];
+  loadRoles: () => Promise<void>;
+  saveRole: (role: Role) => void;
+  deleteRole: (id: string) => void;
+
   // Settings
   settings: Settings;
   setSettings: (settings: Settings) => void;
   updateSettings: (settings: Partial<Settings>) => Promise<void>;
 
+  // Dining Tables
+  diningTables: DiningTable[];
+  setDiningTables: (tables: DiningTable[]) => void;
+  addDiningTable: (table: Omit<DiningTable, 'serviceStatus'>) => void;
+  updateDiningTable: (number: number, changes: Partial<Omit<DiningTable, 'number' | 'serviceStatus'>>) => void;
+  deleteDiningTable: (number: number) => void;
+  setTableServiceStatus: (number: number, status: DiningTable['serviceStatus']) => void;
+  releaseTable: (number: number) => void;
+  moveTable: (from: number, to: number) => void;
+
+  // Reservations & waitlist
+  reservations: Reservation[];
+  setReservations: (reservations: Reservation[]) => void;
+  addReservation: (reservation: Omit<Reservation, 'id' | 'createdBy' | 'createdAt'>) => void;
+  updateReservation: (id: string, changes: Partial<Omit<Reservation, 'id' | 'status' | 'createdBy' | 'createdAt'>>) => void;
+  setReservationStatus: (id: string, status: ReservationStatus, tableNumber?: number) => void;
+
   // Expenses
   expenses: Expense[];
   setExpenses: (expenses: Expense[]) => void;
@@ -141,6 +231,47 @@ interface StoreState extends AuthState {
   deleteExpense: (id: string) => void;
   getExpensesByDateRange: (start: string, end: string) => Expense[];
 
+  // Inventory
+  ingredients: Ingredient[];
+  setIngredients: (ingredients: Ingredient[]) => void;
+  addIngredient: (ingredient: Omit<Ingredient, 'id' | 'createdAt'>) => void;
+  updateIngredient: (id: string, ingredient: Partial<Ingredient>) => void;
+  deleteIngredient: (id: string) => void;
+  recordStockMovement: (ingredientId: string, type: StockMovementType, quantity: number, note?: string) => void;
+  deductStock: (transaction: Transaction) => void;
+  markSoldOutItems: () => void;
+  stockMovements: StockMovement[];
+  loadStockMovements: () => Promise<void>;
+
+  // Purchasing
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+  goodsReceipts: GoodsReceipt[];
+  supplierPayments: SupplierPayment[];
+  loadPurchasing: () => Promise<void>;
+  addSupplier: (supplier: Omit<Supplier, 'id' | 'createdAt'>) => void;
+  updateSupplier: (id: string, supplier: Partial<Supplier>) => void;
+  deleteSupplier: (id: string) => void;
+  createPurchaseOrder: (supplierId: string, lines: Omit<PurchaseOrderLine, 'receivedQty'>[], note?: string) => PurchaseOrder;
+  cancelPurchaseOrder: (id: string) => void;
+  receiveGoods: (supplierId: string, lines: GoodsReceiptLine[], purchaseOrderId?: string, note?: string) => GoodsReceipt;
+  paySupplier: (supplierId: string, amount: number, method: SupplierPaymentMethod, note?: string) => void;
+
+  // Promotions
+  promotions: Promotion[];
+  setPromotions: (promotions: Promotion[]) => void;
+  addPromotion: (promotion: Omit<Promotion, 'id' | 'uses' | 'createdAt'>) => void;
+  updatePromotion: (id: string, promotion: Partial<Promotion>) => void;
+  deletePromotion: (id: string) => void;
+
+  // Register Sessions
+  registerSessions: RegisterSession[];
+  setRegisterSessions: (sessions: RegisterSession[]) => void;
+  getOpenRegisterSession: () => RegisterSession | undefined;
+  openRegister: (openingFloat: number, openedBy: string) => RegisterSession | undefined;
+  addCashMovement: (type: CashMovementType, amount: number, reason: string, createdBy: string) => void;
+  closeRegister: (denominations: Record<string, number>, closedBy: string) => RegisterSession | undefined;
+
   // Waiter Calls
   waiterCalls: WaiterCall[];
   setWaiterCalls: (calls: WaiterCall[]) => void;
@@ -149,6 +280,10 @@ interface StoreState extends AuthState {
   dismissWaiterCall: (id: string) => void;
   getPendingWaiterCalls: () => WaiterCall[];
 
+  // Audit Log
+  auditLog: AuditEntry[];
+  loadAuditLog: (from?: string, to?: string) => Promise<void>;
+
   // Stats
   getTodayStats: () => { revenue: number; orders: number; activeOrders: number; activeTables: number };
 }
@@ -158,57 +293,123 @@ export const useStore = create<StoreState>()((set, get) => ({
   isDataLoaded: false,
   setDataLoaded: (loaded) => set({ isDataLoaded: loaded }),
 
-  // Auth - persisted separately in localStorage
-  isAuthenticated: JSON.parse(localStorage.getItem('sajilo_auth') || 'false'),
-  currentUser: JSON.parse(localStorage.getItem('sajilo_user') || 'null'),
+  // Auth - only the session token is persisted; the user comes from the server
+  isAuthenticated: false,
+  isSessionChecked: false,
+  currentUser: null,
+  sessionToken: localStorage.getItem(STAFF_SESSION_KEY),
 
-  login: (username, password) => {
-    const user = get().staff.find(
-      s => s.username === username && s.password === password
-    );
-    if (user) {
-      localStorage.setItem('sajilo_auth', 'true');
-      localStorage.setItem('sajilo_user', JSON.stringify(user));
-      set({ isAuthenticated: true, currentUser: user });
+  login: async (username, password) => {
+    const session = await authApi.login(username, password).catch((err) => {
+      console.error('[Store] Login failed:', err);
+      return null;
+    });
+    if (!session) return false;
+
+    localStorage.setItem(STAFF_SESSION_KEY, session.token);
+    set({ isAuthenticated: true, isSessionChecked: true, currentUser: session.user, sessionToken: session.token });
+    get().loadStaff();
+    get().loadRoles();
+    return true;
+  },
+
+  // First run: creates the owner account (the database refuses once staff exist), then signs in
+  setupOwner: async (username, password, name) => {
+    await authApi.setupOwner(username, password, name);
+    return get().login(username, password);
+  },
+
+  verifySession: async () => {
+    const token = get().sessionToken;
+    if (!token) {
+      set({ isAuthenticated: false, isSessionChecked: true, currentUser: null });
+      return false;
+    }
+
+    try {
+      const session = await authApi.verify(token);
+      if (!session) {
+        // Expired, logged out elsewhere, or revoked by a role/password change
+        localStorage.removeItem(STAFF_SESSION_KEY);
+        set({ isAuthenticated: false, isSessionChecked: true, currentUser: null, sessionToken: null, staff: [], roles: [] });
+        return false;
+      }
+      const isFirstCheck = !get().isAuthenticated;
+      set({ isAuthenticated: true, isSessionChecked: true, currentUser: session.user });
+      if (isFirstCheck) {
+        get().loadStaff();
+        get().loadRoles();
+      }
       return true;
+    } catch (err) {
+      // Network trouble is not a reason to sign staff out mid-shift; after a reload
+      // offline, the device's last snapshot vouches for the same token
+      console.error('[Store] Session check failed:', err);
+      const snapshot = await offlineStorage.getSnapshot().catch(() => null);
+      if (!get().isAuthenticated && snapshot?.token === token) {
+        set({ isAuthenticated: true, currentUser: snapshot.currentUser });
+      }
+      set({ isSessionChecked: true });
+      return get().isAuthenticated;
     }
-    return false;
   },
 
   logout: () => {
-    localStorage.removeItem('sajilo_auth');
-    localStorage.removeItem('sajilo_user');
-    set({ isAuthenticated: false, currentUser: null });
+    const token = get().sessionToken;
+    if (token) authApi.logout(token).catch((err) => console.error('[Store] Logout failed:', err));
+    localStorage.removeItem(STAFF_SESSION_KEY);
+    offlineStorage.clearSnapshot().catch(() => {});
+    set({ isAuthenticated: false, currentUser: null, sessionToken: null, staff: [], roles: [], auditLog: [] });
+  },
+
+  verifyStaffPin: async (pin) => {
+    return staffApi.verifyPin(pin).catch((err) => {
+      console.error('[Store] PIN check failed:', err);
+      return false;
+    });
   },
 
+  // UI gating only; the database checks the same permission on every write
+  hasPermission: (permission) => hasPermission(get().currentUser, permission),
+
   // Categories - starts empty, loaded from backend
   categories: [],
   setCategories: (categories) => set({ categories }),
 
-  addCategory: (name, prepTime) => {
+  addCategory: (name, prepTime, station) => {
     const maxOrder = Math.max(0, ...get().categories.map(c => c.sortOrder));
-    const newCategory = { id: generateId(), name, sortOrder: maxOrder + 1, prepTime: prepTime || 5 };
+    const newCategory = { id: generateId(), name, sortOrder: maxOrder + 1, prepTime: prepTime || 5, station: station || '' };
     set((state) => ({ categories: [...state.categories, newCategory] }));
-    syncToBackend(() => categoriesApi.create(newCategory));
+    outbox.enqueue('categoriesApi', 'create', newCategory);
+    audit('category.create', newCategory.id, undefined, newCategory);
   },
 
-  updateCategory: (id, name, prepTime) => {
+  updateCategory: (id, name, prepTime, station) => {
     const category = get().categories.find(c => c.id === id);
     if (!category) return;
-    const updated = { ...category, name, prepTime: prepTime !== undefined ? prepTime : category.prepTime };
+    const updated = { 
+      ...category, 
+      name, 
+      prepTime: prepTime !== undefined ? prepTime : category.prepTime,
+      station: station !== undefined ? station : category.station,
+    };
     set((state) => ({
       categories: state.categories.map(c => c.id === id ? updated : c)
     }));
-    syncToBackend(() => categoriesApi.update(id, updated));
+    outbox.enqueue('categoriesApi', 'update', id, updated);
+    audit('category.update', id, category, updated);
   },
 
   deleteCategory: (id) => {
+    const category = get().categories.find(c => c.id === id);
     set((state) => ({ categories: state.categories.filter(c => c.id !== id) }));
-    syncToBackend(() => categoriesApi.delete(id));
+    outbox.enqueue('categoriesApi', 'delete', id);
+    audit('category.delete', id, category);
   },
 
   reorderCategories: (fromIndex, toIndex) => {
     const cats = [...get().categories].sort((a, b) => a.sortOrder - b.sortOrder);
+    const previousOrder = cats.map(c => c.name);
     const [moved] = cats.splice(fromIndex, 1);
     cats.splice(toIndex, 0, moved);
     
@@ -218,8 +419,9 @@ export const useStore = create<StoreState>()((set, get) => ({
     
     // Sync all updated categories to backend
     updated.forEach(cat => {
-      syncToBackend(() => categoriesApi.update(cat.id, cat));
+      outbox.enqueue('categoriesApi', 'update', cat.id, cat);
     });
+    audit('category.reorder', moved.id, previousOrder, updated.map(c => c.name));
   },
 
   // Menu - starts empty, loaded from backend
@@ -234,10 +436,14 @@ export const useStore = create<StoreState>()((set, get) => ({
       category: item.category,
       available: item.available ?? true,
       description: item.description || '',
-      image: item.image || ''
+      image: item.image || '',
+      modifierGroups: item.modifierGroups || [],
+      taxable: item.taxable ?? true,
+      recipe: item.recipe || []
     };
     set((state) => ({ menuItems: [...state.menuItems, newItem] }));
-    syncToBackend(() => menuApi.create(newItem));
+    outbox.enqueue('menuApi', 'create', newItem);
+    audit('menu.create', newItem.id, undefined, newItem);
   },
 
   updateMenuItem: (id, item) => {
@@ -247,12 +453,15 @@ export const useStore = create<StoreState>()((set, get) => ({
     set((state) => ({
       menuItems: state.menuItems.map(m => m.id === id ? updatedItem : m)
     }));
-    syncToBackend(() => menuApi.update(id, updatedItem));
+    outbox.enqueue('menuApi', 'update', id, updatedItem);
+    audit('menu.update', id, pickFields(currentItem, Object.keys(item)), item);
   },
 
   deleteMenuItem: (id) => {
+    const item = get().menuItems.find(m => m.id === id);
     set((state) => ({ menuItems: state.menuItems.filter(m => m.id !== id) }));
-    syncToBackend(() => menuApi.delete(id));
+    outbox.enqueue('menuApi', 'delete', id);
+    audit('menu.delete', id, item);
   },
 
   toggleItemAvailability: (id) => {
@@ -264,7 +473,8 @@ export const useStore = create<StoreState>()((set, get) => ({
         m.id === id ? updatedItem : m
       )
     }));
-    syncToBackend(() => menuApi.update(id, updatedItem));
+    outbox.enqueue('menuApi', 'update', id, updatedItem);
+    audit('menu.availability', id, { available: item.available }, { available: updatedItem.available });
   },
 
   bulkToggleAvailability: (ids, available) => {
@@ -275,51 +485,123 @@ export const useStore = create<StoreState>()((set, get) => ({
     }));
     const items = get().menuItems.filter(m => ids.includes(m.id));
     items.forEach(item => {
-      syncToBackend(() => menuApi.update(item.id, { ...item, available }));
+      outbox.enqueue('menuApi', 'update', item.id, { ...item, available });
+      audit('menu.availability', item.id, undefined, { available });
     });
   },
 
   // Orders - starts empty, loaded from backend
   orders: [],
   setOrders: (orders) => set({ orders }),
+  customerSession: null,
+  setCustomerSession: (session) => {
+    const current = get().customerSession;
+    if (current?.tableNumber === session?.tableNumber && current?.phone === session?.phone) return;
+    set({ customerSession: session });
+  },
 
-  addOrder: (tableNumber, customerPhone, items, notes) => {
+  addOrder: (tableNumber, customerPhone, items, notes, options = {}) => {
     const now = getNepalTimestamp();
-    const total = items.reduce((sum, item) => sum + item.price * item.qty, 0);
+    const { menuItems, categories } = get();
     // Ensure all order items have required fields
-    const orderItems = items.map(item => ({
-      id: item.id || generateId(),
-      menuItemId: item.menuItemId,
-      name: item.name,
-      qty: item.qty,
-      price: item.price
-    }));
+    const orderItems: OrderItem[] = items.map(item => {
+      const menuItem = menuItems.find(m => m.id === item.menuItemId);
+      const modifiers = item.modifiers || [];
+      return {
+        id: item.id || generateId(),
+        menuItemId: item.menuItemId,
+        name: item.name,
+        qty: item.qty,
+        // Re-price from the menu so modifier deltas can't drift from the cart
+        price: menuItem ? getUnitPrice(menuItem.price, modifiers) : item.price,
+        ...(modifiers.length > 0 && { modifiers }),
+        station: getMenuItemStation(menuItem, categories),
+        ...(menuItem?.taxable === false && { taxable: false }),
+      };
+    });
+    const total = orderItems.reduce((sum, item) => sum + getLineTotal(item), 0);
     const newOrder: Order = {
       id: generateId(),
       tableNumber,
       customerPhone,
       items: orderItems,
-      status: 'pending',
+      status: options.status ?? 'pending',
       createdAt: now,
       updatedAt: now,
       total,
       notes: notes || '',
+      ...(options.orderType && options.orderType !== 'dine_in' && { orderType: options.orderType }),
+      ...(options.delivery && { delivery: options.delivery }),
+      ...(options.scheduledFor && { scheduledFor: options.scheduledFor }),
     };
     set((state) => ({ orders: [...state.orders, newOrder] }));
-    syncToBackend(() => ordersApi.create(newOrder));
-    get().addOrUpdateCustomer(customerPhone, 0);
+    // The database re-prices the order and registers the customer on insert
+    outbox.enqueue('ordersApi', 'create', newOrder);
+    audit('order.create', newOrder.id, undefined, newOrder);
     return newOrder;
   },
 
-  updateOrderStatus: (id, status) => set((state) => {
-    syncToBackend(() => ordersApi.updateStatus(id, status));
+  updateOrderStatus: (id, status) => {
+    const order = get().orders.find(o => o.id === id);
+    if (!order || !canTransitionOrder(order.status, status)) return false;
+    set((state) => ({
+      orders: state.orders.map(o =>
+        o.id === id ? { ...o, status, updatedAt: getNepalTimestamp(), version: nextVersion(o) } : o
+      )
+    }));
+    outbox.batch(() => {
+      outbox.enqueue('ordersApi', 'updateStatus', id, status, order.version ?? 1);
+      audit(status === 'cancelled' ? 'order.cancel' : 'order.status', id, { status: order.status }, { status });
+    });
+    return true;
+  },
+
+  cancelCustomerOrder: (id, customerPhone) => set((state) => {
+    outbox.enqueue('ordersApi', 'cancelByCustomer', id, customerPhone);
+    audit('order.cancel', id, { status: 'pending' }, { status: 'cancelled', customerPhone });
     return {
       orders: state.orders.map(o =>
-        o.id === id ? { ...o, status, updatedAt: getNepalTimestamp() } : o
+        o.id === id ? { ...o, status: 'cancelled' as const, updatedAt: getNepalTimestamp(), version: nextVersion(o) } : o
       )
     };
   }),
 
+  assignRider: (orderId, rider) => {
+    const order = get().orders.find(o => o.id === orderId);
+    if (!order?.delivery) return;
+    const delivery = { ...order.delivery, rider: rider || undefined };
+    set((state) => ({
+      orders: state.orders.map(o =>
+        o.id === orderId ? { ...o, delivery, updatedAt: getNepalTimestamp(), version: nextVersion(o) } : o
+      )
+    }));
+    outbox.batch(() => {
+      outbox.enqueue('ordersApi', 'updateDelivery', orderId, delivery, order.version ?? 1);
+      audit('order.rider', orderId, { rider: order.delivery?.rider }, { rider: delivery.rider });
+    });
+  },
+
+  updateItemStatus: (orderId, itemIds, status) => {
+    const order = get().orders.find(o => o.id === orderId);
+    if (!order) return;
+    const now = getNepalTimestamp();
+    const items = order.items.map(item =>
+      itemIds.includes(item.id) ? applyItemStatus(item, status, now) : item
+    );
+    const orderStatus = deriveOrderStatus(order.status, items);
+    set((state) => ({
+      orders: state.orders.map(o =>
+        o.id === orderId ? { ...o, items, status: orderStatus, updatedAt: now, version: nextVersion(o) } : o
+      )
+    }));
+    outbox.batch(() => {
+      outbox.enqueue('ordersApi', 'updateItems', orderId, items, orderStatus, order.version ?? 1);
+      audit('order.item_status', orderId,
+        { items: order.items.filter(i => itemIds.includes(i.id)).map(i => ({ name: i.name, status: i.status })) },
+        { itemStatus: status, status: orderStatus });
+    });
+  },
+
   getOrdersByTable: (tableNumber) =>
     get().orders.filter(o => o.tableNumber === tableNumber && o.status !== 'cancelled'),
 
@@ -336,10 +618,11 @@ export const useStore = create<StoreState>()((set, get) => ({
   bills: [],
   setBills: (bills) => set({ bills }),
 
-  createBill: (tableNumber, orderIds, discount = 0) => {
+  createBill: (tableNumber, orderIds, discount = 0, pointsRedeemed = 0, promotions = []) => {
     const orders = get().orders.filter(o => orderIds.includes(o.id));
-    const customerPhones = [...new Set(orders.map(o => o.customerPhone))];
+    const customerPhones = [...new Set(orders.map(o => o.customerPhone).filter(Boolean))];
     const subtotal = orders.reduce((sum, o) => sum + o.total, 0);
+    const tax = calculateBillTax(orders.flatMap(o => o.items), discount, get().settings, getDeliveryFee(orders));
 
     const bill: Bill = {
       id: generateId(),
@@ -348,21 +631,122 @@ export const useStore = create<StoreState>()((set, get) => ({
       customerPhones,
       subtotal,
       discount,
-      total: subtotal - discount,
+      ...(pointsRedeemed > 0 && { pointsRedeemed }),
+      ...(promotions.length > 0 && { promotions }),
+      ...tax,
       status: 'unpaid',
       createdAt: getNepalTimestamp(),
     };
 
     set((state) => ({ bills: [...state.bills, bill] }));
-    syncToBackend(() => billsApi.create(bill));
+    outbox.enqueue('billsApi', 'create', bill);
+    audit('bill.create', bill.id, undefined, {
+      tableNumber,
+      orderIds,
+      subtotal,
+      discount,
+      ...(pointsRedeemed > 0 && { pointsRedeemed }),
+      ...(promotions.length > 0 && { promotions: promotions.map(p => p.name) }),
+      serviceCharge: tax.serviceCharge,
+      ...(tax.deliveryFee > 0 && { deliveryFee: tax.deliveryFee }),
+      vat: tax.vat,
+      total: bill.total,
+    });
     return bill;
   },
 
-  payBill: (billId, paymentMethod) => {
+  createSplitBills: (tableNumber, orderIds, discount, parts, pointsRedeemed = 0, promotions = []) => {
+    const orders = get().orders.filter(o => orderIds.includes(o.id));
+    const customerPhones = [...new Set(orders.map(o => o.customerPhone).filter(Boolean))];
+    const subtotal = orders.reduce((sum, o) => sum + o.total, 0);
+    const { settings } = get();
+    const deliveryFee = getDeliveryFee(orders);
+    const wholeTax = calculateBillTax(orders.flatMap(o => o.items), discount, settings, deliveryFee);
+    const splitGroupId = generateId();
+    const createdAt = getNepalTimestamp();
+
+    const splitBills: Bill[] = parts.map(part => {
+      if (part.items) {
+        // Split by item: the sub-bill carries only its own lines and its share of the discount and delivery fee
+        const partSubtotal = part.items.reduce((sum, i) => sum + getLineTotal(i), 0);
+        const partDiscount = subtotal > 0 ? roundMoney((discount * partSubtotal) / subtotal) : 0;
+        const partDeliveryFee = subtotal > 0 ? roundMoney((deliveryFee * partSubtotal) / subtotal) : 0;
+        return {
+          id: generateId(),
+          tableNumber,
+          orders,
+          customerPhones,
+          subtotal: partSubtotal,
+          discount: partDiscount,
+          ...calculateBillTax(part.items, partDiscount, settings, partDeliveryFee),
+          total: part.amount,
+          status: 'unpaid',
+          createdAt,
+          splitGroupId,
+          splitLabel: part.label,
+          items: part.items,
+        };
+      }
+      // Split by amount: the sub-bill covers a share of every line
+      const share = wholeTax.total > 0 ? part.amount / wholeTax.total : 1 / parts.length;
+      return {
+        id: generateId(),
+        tableNumber,
+        orders,
+        customerPhones,
+        subtotal: roundMoney(subtotal * share),
+        discount: roundMoney(discount * share),
+        ...scaleBillTax(wholeTax, share),
+        total: part.amount,
+        status: 'unpaid',
+        createdAt,
+        splitGroupId,
+        splitLabel: part.label,
+        itemShare: share,
+      };
+    });
+
+    // Redeemed points and promotions follow each part's share of the discount;
+    // the last part takes the rounding of the points
+    let pointsLeft = pointsRedeemed;
+    const newBills = splitBills.map((bill, index) => {
+      const share = discount > 0 ? bill.discount / discount : 0;
+      const partPromotions = scalePromotions(promotions, share);
+      const points = pointsRedeemed <= 0 ? 0 : index === splitBills.length - 1
+        ? pointsLeft
+        : Math.min(pointsLeft, Math.round(pointsRedeemed * share));
+      pointsLeft -= points;
+      return {
+        ...bill,
+        ...(points > 0 && { pointsRedeemed: points }),
+        ...(partPromotions.length > 0 && { promotions: partPromotions }),
+      };
+    });
+
+    set((state) => ({ bills: [...state.bills, ...newBills] }));
+    newBills.forEach(bill => {
+      outbox.enqueue('billsApi', 'create', bill);
+    });
+    audit('bill.split', splitGroupId, undefined, {
+      tableNumber,
+      orderIds,
+      discount,
+      ...(pointsRedeemed > 0 && { pointsRedeemed }),
+      ...(promotions.length > 0 && { promotions: promotions.map(p => p.name) }),
+      parts: newBills.map(b => ({ billId: b.id, label: b.splitLabel, total: b.total })),
+    });
+    return newBills;
+  },
+
+  payBill: (billId, payment) => {
     const bill = get().bills.find(b => b.id === billId);
-    if (!bill) return;
+    if (!bill) return undefined;
 
     const paidAt = getNepalTimestamp();
+    const payments: Tender[] = typeof payment === 'string'
+      ? [{ method: payment, amount: bill.total }]
+      : payment;
+    const paymentMethod = getPaymentMethodLabel(payments);
 
     const transaction: Transaction = {
       id: generateId(),
@@ -371,55 +755,115 @@ export const useStore = create<StoreState>()((set, get) => ({
       customerPhones: bill.customerPhones,
       total: bill.total,
       discount: bill.discount,
+      ...(bill.pointsRedeemed && { pointsRedeemed: bill.pointsRedeemed }),
+      ...(bill.promotions?.length && { promotions: bill.promotions }),
       paymentMethod,
+      payments,
       paidAt,
-      items: bill.orders.flatMap(o => o.items),
+      items: bill.items ?? bill.orders.flatMap(o => o.items),
+      ...(bill.splitGroupId && { splitGroupId: bill.splitGroupId, splitLabel: bill.splitLabel }),
+      ...(bill.itemShare !== undefined && { itemShare: bill.itemShare }),
+      ...(bill.orders[0] && !isTableOrder(bill.orders[0]) && { orderType: getOrderType(bill.orders[0]) }),
+      ...(bill.vat !== undefined && {
+        serviceCharge: bill.serviceCharge,
+        deliveryFee: bill.deliveryFee,
+        taxableAmount: bill.taxableAmount,
+        nonTaxableAmount: bill.nonTaxableAmount,
+        vat: bill.vat,
+      }),
+      fiscalYear: getFiscalYear(paidAt),
     };
 
-    // Get order IDs that need to be marked as served
-    const orderIds = bill.orders.map(o => o.id);
+    const updatedBills = get().bills.map(b =>
+      b.id === billId ? { ...b, status: 'paid' as const, paymentMethod, payments, paidAt, version: nextVersion(b) } : b
+    );
+
+    // Table orders are served once the whole bill is settled (every sub-bill of a
+    // split); paid-up-front takeaway and delivery orders stay with the kitchen
+    const paidOrderIds = getPaidOrderIds(updatedBills);
+    const orderIds = bill.orders.filter(isTableOrder).map(o => o.id).filter(id => paidOrderIds.has(id));
 
     set((state) => ({
-      bills: state.bills.map(b =>
-        b.id === billId ? { ...b, status: 'paid' as const, paymentMethod, paidAt } : b
-      ),
+      bills: updatedBills,
       orders: state.orders.map(o =>
-        bill.orders.some(bo => bo.id === o.id) ? { ...o, status: 'served' as OrderStatus } : o
+        orderIds.includes(o.id) ? { ...o, status: 'served' as OrderStatus, version: nextVersion(o) } : o
       ),
       transactions: [...state.transactions, transaction],
     }));
 
-    // Sync bill payment to backend
-    syncToBackend(() => billsApi.pay(billId, paymentMethod));
-    syncToBackend(() => transactionsApi.create(transaction));
-    
-    // IMPORTANT: Also sync order status changes to database for realtime sync
-    orderIds.forEach(orderId => {
-      syncToBackend(() => ordersApi.updateStatus(orderId, 'served'));
-    });
-
-    bill.customerPhones.forEach(phone => {
-      get().addOrUpdateCustomer(phone, bill.total / bill.customerPhones.length);
-    });
+    // If another device took this bill's payment first, none of the rest is sent
+    outbox.batch(() => {
+      outbox.enqueue('billsApi', 'pay', billId, paymentMethod, payments, bill.version ?? 1);
+      // The invoice number arrives once the sale reaches the database (see below)
+      outbox.enqueue('transactionsApi', 'create', transaction);
+      get().deductStock(transaction);
+      audit('bill.pay', billId, { status: bill.status }, { status: 'paid', total: bill.total, discount: bill.discount, payments });
+
+      // IMPORTANT: Also sync order status changes to database for realtime sync
+      orderIds.forEach(orderId => {
+        outbox.enqueue('ordersApi', 'updateStatus', orderId, 'served');
+      });
 
-    if (bill.discount > 0) {
+      // The database books the points to the ledger; this only shows them straight away
+      if (bill.pointsRedeemed && bill.customerPhones[0]) {
+        get().redeemPoints(bill.customerPhones[0], bill.pointsRedeemed);
+      }
       bill.customerPhones.forEach(phone => {
-        get().redeemPoints(phone, bill.discount);
+        const customer = get().customers.find(c => c.phone === phone);
+        const points = getEarnedPoints(transaction, customer, get().settings, get().menuItems);
+        get().addOrUpdateCustomer(phone, bill.total / bill.customerPhones.length, points);
       });
-    }
+    });
+    return transaction;
   },
 
-  getUnpaidOrdersByTable: (tableNumber) =>
-    get().orders.filter(o =>
+  getUnpaidOrdersByTable: (tableNumber) => {
+    const paidOrderIds = getPaidOrderIds(get().bills);
+    return get().orders.filter(o =>
       o.tableNumber === tableNumber &&
       ['accepted', 'preparing', 'ready', 'served'].includes(o.status) &&
-      !get().bills.some(b => b.status === 'paid' && b.orders.some(bo => bo.id === o.id))
-    ),
+      !paidOrderIds.has(o.id)
+    );
+  },
 
   // Transactions - starts empty, loaded from backend
   transactions: [],
   setTransactions: (transactions) => set({ transactions }),
 
+  // Voids and refunds wait for the database, which checks the manager PIN,
+  // the reason and the amount, then takes back the loyalty points
+  correctTransaction: async (saleId, correction, pin) => {
+    const sale = get().transactions.find(t => t.id === saleId);
+    if (!sale) throw new Error('Sale not found');
+
+    const pending = buildCorrectionTransaction(sale, correction, generateId(), getNepalTimestamp());
+    const approvedBy = await transactionsApi.correct(pending, pin);
+    const transaction = { ...pending, approvedBy };
+
+    // A voided sub-bill goes back to unpaid so the rest of its split stays intact
+    const bill = get().bills.find(b => b.id === sale.billId);
+    const billUpdates: Partial<Bill> | null = correction.kind !== 'void' || !bill
+      ? null
+      : bill.splitGroupId
+        ? { status: 'unpaid', paymentMethod: undefined, payments: [], paidAt: undefined, version: nextVersion(bill) }
+        : { status: 'voided', version: nextVersion(bill) };
+
+    set((state) => ({
+      transactions: [...state.transactions, transaction],
+      bills: billUpdates ? state.bills.map(b => b.id === sale.billId ? { ...b, ...billUpdates } : b) : state.bills,
+    }));
+    get().deductStock(transaction);
+    customersApi.getAll().then(customers => set({ customers })).catch(() => {});
+    audit(correction.kind === 'void' ? 'bill.void' : 'bill.refund', sale.billId, { saleId, total: sale.total }, {
+      transactionId: transaction.id,
+      amount: -transaction.total,
+      payments: transaction.payments,
+      reason: transaction.reason,
+      approvedBy,
+    });
+    return transaction;
+  },
+
   // Customers - starts empty, loaded from backend
   customers: [],
   setCustomers: (customers) => set({ customers }),
@@ -429,9 +873,16 @@ export const useStore = create<StoreState>()((set, get) => ({
     return customer?.points || 0;
   },
 
-  addOrUpdateCustomer: (phone, amount) => set((state) => {
+  fetchCustomerLoyalty: async (phone, tableNumber) => {
+    return customersApi.getLoyalty(phone, tableNumber).catch((err) => {
+      console.error('[Store] Points lookup failed:', err);
+      return { points: 0, entries: [] };
+    });
+  },
+
+  // Only shown here: book_loyalty_points adds the sale to the customer's totals and points
+  addOrUpdateCustomer: (phone, amount, newPoints = 0) => set((state) => {
     const existing = state.customers.find(c => c.phone === phone);
-    const newPoints = Math.floor(amount / 10);
 
     const nextCustomers: Customer[] = existing
       ? state.customers.map(c =>
@@ -456,9 +907,9 @@ export const useStore = create<StoreState>()((set, get) => ({
 
     const payload = nextCustomers.find(c => c.phone === phone);
     if (payload) {
-      // Ensure name field exists for backend
-      const customerPayload = { ...payload, name: payload.name || '' };
-      syncToBackend(() => customersApi.upsert(customerPayload));
+      audit('customer.update', phone, existing && { totalSpent: existing.totalSpent }, {
+        totalSpent: payload.totalSpent,
+      });
     }
 
     return { customers: nextCustomers };
@@ -467,9 +918,9 @@ export const useStore = create<StoreState>()((set, get) => ({
   redeemPoints: (phone, points) => set((state) => {
     const existing = state.customers.find(c => c.phone === phone);
     if (!existing) return {};
+    // The sale carries the redemption to the ledger (pointsRedeemed), so nothing is sent here
     const updatedCustomer = { ...existing, points: Math.max(0, existing.points - points) };
-    // Sync redeemed points to backend
-    syncToBackend(() => customersApi.upsert({ ...updatedCustomer, name: updatedCustomer.name || '' }));
+    audit('customer.points_redeem', phone, { points: existing.points }, { points: updatedCustomer.points });
     return {
       customers: state.customers.map(c =>
         c.phone === phone ? updatedCustomer : c
@@ -477,6 +928,14 @@ export const useStore = create<StoreState>()((set, get) => ({
     };
   }),
 
+  // Waits for the database, which checks the permission and the balance and logs the change
+  adjustCustomerPoints: async (phone, points, reason) => {
+    const balance = await customersApi.adjustPoints(phone, points, reason);
+    set((state) => ({
+      customers: state.customers.map(c => c.phone === phone ? { ...c, points: balance } : c),
+    }));
+  },
+
   updateCustomerPhone: async (oldPhone, newPhone) => {
     const state = get();
     const existing = state.customers.find(c => c.phone === oldPhone);
@@ -496,31 +955,115 @@ export const useStore = create<StoreState>()((set, get) => ({
     
     // Sync to backend
     await customersApi.updatePhone(oldPhone, newPhone);
+    audit('customer.phone_change', newPhone, { phone: oldPhone }, { phone: newPhone });
+  },
+
+  // Customer accounts - payments are loaded with the sales; charges are account tenders on them
+  accountPayments: [],
+  setAccountPayments: (accountPayments) => set({ accountPayments }),
+
+  // Waits for the database, which only lets account managers change limits
+  setCustomerCreditLimit: async (phone, creditLimit) => {
+    const existing = get().customers.find(c => c.phone === phone);
+    const saved = await customersApi.setCreditLimit(phone, creditLimit);
+    set((state) => ({
+      customers: existing
+        ? state.customers.map(c => c.phone === phone ? { ...c, creditLimit: saved.creditLimit } : c)
+        : [...state.customers, saved],
+    }));
+    audit('customer.credit_limit', phone, { creditLimit: existing?.creditLimit ?? null }, { creditLimit });
+  },
+
+  // Cash paid towards an account goes into the till when a register is open
+  recordAccountPayment: (phone, amount, method, note) => {
+    const customer = get().customers.find(c => c.phone === phone);
+    const payment: AccountPayment = {
+      id: generateId(),
+      customerPhone: phone,
+      amount: roundMoney(amount),
+      method,
+      note: note || '',
+      createdBy: get().currentUser?.name || '',
+      createdAt: getNepalTimestamp(),
+    };
+    set((state) => ({ accountPayments: [payment, ...state.accountPayments] }));
+    outbox.enqueue('accountPaymentsApi', 'create', payment);
+    audit('customer.account_payment', phone, undefined, { amount: payment.amount, method, note: payment.note });
+    if (method === 'cash' && get().getOpenRegisterSession()) {
+      get().addCashMovement('cash_in', payment.amount, `Account: ${customer?.name || phone}`, payment.createdBy);
+    }
   },
 
-  // Staff - uses defaults until loaded from backend
-  staff: defaultStaff,
-  setStaff: (staff) => set({ staff: staff.length > 0 ? staff : defaultStaff }),
+  // Staff - only loaded for sessions allowed to manage staff
+  staff: [],
+  setStaff: (staff) => set({ staff }),
+
+  loadStaff: async () => {
+    const token = get().sessionToken;
+    if (!token) return;
+    const staff = await staffApi.getAll(token).catch(() => []);
+    set({ staff });
+  },
 
   addStaff: (staffData) => {
+    const token = get().sessionToken;
+    if (!token) return;
     const newStaff = { ...staffData, id: generateId(), createdAt: getNepalTimestamp() };
-    set((state) => ({ staff: [...state.staff, newStaff] }));
-    syncToBackend(() => staffApi.create(newStaff));
+    set((state) => ({ staff: [...state.staff, toPublicStaff(newStaff)] }));
+    outbox.enqueue('staffApi', 'save', token, newStaff);
+    audit('staff.create', newStaff.id, undefined, toPublicStaff(newStaff));
   },
 
   updateStaff: (id, staffData) => {
+    const token = get().sessionToken;
     const currentStaff = get().staff.find(s => s.id === id);
-    if (!currentStaff) return;
+    if (!token || !currentStaff) return;
     const updatedStaff = { ...currentStaff, ...staffData };
     set((state) => ({
-      staff: state.staff.map(s => s.id === id ? updatedStaff : s)
+      staff: state.staff.map(s => s.id === id ? toPublicStaff(updatedStaff) : s)
     }));
-    syncToBackend(() => staffApi.update(id, updatedStaff));
+    outbox.enqueue('staffApi', 'save', token, updatedStaff);
+    // Password and PIN never reach the log; only whether they were changed
+    audit('staff.update', id, toPublicStaff(currentStaff), {
+      ...toPublicStaff(updatedStaff),
+      ...(staffData.password && { passwordChanged: true }),
+      ...(staffData.pin !== undefined && { pinChanged: true }),
+    });
   },
 
   deleteStaff: (id) => {
+    const token = get().sessionToken;
+    if (!token) return;
+    const member = get().staff.find(s => s.id === id);
     set((state) => ({ staff: state.staff.filter(s => s.id !== id) }));
-    syncToBackend(() => staffApi.delete(id));
+    outbox.enqueue('staffApi', 'delete', token, id);
+    audit('staff.delete', id, member);
+  },
+
+  // Roles - readable by any signed-in staff, editable with manage_staff
+  roles: [],
+
+  loadRoles: async () => {
+    const roles = await rolesApi.getAll().catch(() => []);
+    set({ roles });
+  },
+
+  saveRole: (role) => {
+    const previous = get().roles.find(r => r.id === role.id);
+    set((state) => ({
+      roles: state.roles.some(r => r.id === role.id)
+        ? state.roles.map(r => r.id === role.id ? role : r)
+        : [...state.roles, role]
+    }));
+    outbox.enqueue('rolesApi', 'upsert', role);
+    audit('role.save', role.id, previous, role);
+  },
+
+  deleteRole: (id) => {
+    const role = get().roles.find(r => r.id === id);
+    set((state) => ({ roles: state.roles.filter(r => r.id !== id || r.builtIn) }));
+    outbox.enqueue('rolesApi', 'delete', id);
+    audit('role.delete', id, role);
   },
 
   // Settings - uses defaults until loaded from backend
@@ -543,6 +1086,7 @@ export const useStore = create<StoreState>()((set, get) => ({
     // Sync to backend - revert on failure
     try {
       await settingsApi.update(updated);
+      audit('settings.update', 'settings', pickFields(previousSettings, Object.keys(newSettings)), newSettings);
     } catch (err) {
       console.error('[Store] Settings sync failed, reverting:', err);
       set({ settings: previousSettings });
@@ -550,6 +1094,129 @@ export const useStore = create<StoreState>()((set, get) => ({
     }
   },
 
+  // Dining Tables - starts empty, loaded from backend
+  diningTables: [],
+  setDiningTables: (tables) => set({ diningTables: tables }),
+
+  addDiningTable: (table) => {
+    if (get().diningTables.some(t => t.number === table.number)) return;
+    const newTable: DiningTable = { ...table };
+    set((state) => ({ diningTables: [...state.diningTables, newTable].sort((a, b) => a.number - b.number) }));
+    outbox.enqueue('diningTablesApi', 'create', newTable);
+    audit('table.create', String(table.number), undefined, newTable);
+  },
+
+  updateDiningTable: (number, changes) => {
+    const current = get().diningTables.find(t => t.number === number);
+    if (!current) return;
+    const updated = { ...current, ...changes };
+    set((state) => ({
+      diningTables: state.diningTables.map(t => t.number === number ? updated : t)
+    }));
+    outbox.enqueue('diningTablesApi', 'update', number, updated);
+    // Dragging a table around the floor plan isn't worth an audit entry
+    const keys = Object.keys(changes).filter(k => k !== 'x' && k !== 'y');
+    if (keys.length > 0) audit('table.update', String(number), pickFields(current, keys), pickFields(changes, keys));
+  },
+
+  deleteDiningTable: (number) => {
+    const table = get().diningTables.find(t => t.number === number);
+    set((state) => ({ diningTables: state.diningTables.filter(t => t.number !== number) }));
+    outbox.enqueue('diningTablesApi', 'delete', number);
+    audit('table.delete', String(number), table);
+  },
+
+  setTableServiceStatus: (number, status) => {
+    const table = get().diningTables.find(t => t.number === number);
+    if (!table || table.serviceStatus === status) return;
+    set((state) => ({
+      diningTables: state.diningTables.map(t => t.number === number ? { ...t, serviceStatus: status } : t)
+    }));
+    outbox.enqueue('diningTablesApi', 'setServiceStatus', number, status);
+    audit('table.status', String(number), { serviceStatus: table.serviceStatus }, { serviceStatus: status });
+  },
+
+  // Called after a payment; the table needs clearing once nobody is left on the bill
+  releaseTable: (number) => {
+    const { orders, bills } = get();
+    const stillOpen = getOpenTableOrders(number, orders, bills).length > 0
+      || bills.some(b => b.tableNumber === number && b.status === 'unpaid');
+    if (!stillOpen) get().setTableServiceStatus(number, 'cleaning');
+  },
+
+  // Moves a table's open orders and unpaid bills; onto an occupied table it's a merge
+  moveTable: (from, to) => {
+    if (from === to) return;
+    const { orders, bills, diningTables } = get();
+    const orderIds = getOpenTableOrders(from, orders, bills).map(o => o.id);
+    const billIds = bills.filter(b => b.tableNumber === from && b.status === 'unpaid').map(b => b.id);
+    if (orderIds.length === 0 && billIds.length === 0) return;
+    const merge = getOpenTableOrders(to, orders, bills).length > 0;
+    const moveOrder = (o: Order) => orderIds.includes(o.id) ? { ...o, tableNumber: to, version: nextVersion(o) } : o;
+
+    set((state) => ({
+      orders: state.orders.map(moveOrder),
+      bills: state.bills.map(b =>
+        billIds.includes(b.id)
+          ? { ...b, tableNumber: to, orders: b.orders.map(o => ({ ...o, tableNumber: to })), version: nextVersion(b) }
+          : b
+      ),
+    }));
+    outbox.enqueue('diningTablesApi', 'moveOrders', orderIds, billIds, to);
+    audit(merge ? 'table.merge' : 'table.transfer', String(from), { tableNumber: from }, { tableNumber: to, orderIds, billIds });
+
+    // A waiting bill request follows the guests
+    const source = diningTables.find(t => t.number === from);
+    if (source?.serviceStatus === 'bill_requested') get().setTableServiceStatus(to, 'bill_requested');
+    get().setTableServiceStatus(from, undefined);
+  },
+
+  // Reservations - staff only, loaded after sign-in
+  reservations: [],
+  setReservations: (reservations) => set({ reservations }),
+
+  addReservation: (reservation) => {
+    const newReservation: Reservation = {
+      ...reservation,
+      id: generateId(),
+      createdBy: get().currentUser?.name || '',
+      createdAt: getNepalTimestamp(),
+    };
+    set((state) => ({ reservations: [...state.reservations, newReservation] }));
+    outbox.enqueue('reservationsApi', 'create', newReservation);
+    audit('reservation.create', newReservation.id, undefined, newReservation);
+  },
+
+  updateReservation: (id, changes) => {
+    const current = get().reservations.find(r => r.id === id);
+    if (!current) return;
+    const updated = { ...current, ...changes };
+    set((state) => ({
+      reservations: state.reservations.map(r => r.id === id ? updated : r)
+    }));
+    outbox.enqueue('reservationsApi', 'update', id, updated);
+    audit('reservation.update', id, pickFields(current, Object.keys(changes)), changes);
+  },
+
+  // Seating a party can also give them a (different) table
+  setReservationStatus: (id, status, tableNumber) => {
+    const current = get().reservations.find(r => r.id === id);
+    if (!current || current.status === status) return;
+    const updated: Reservation = {
+      ...current,
+      status,
+      ...(tableNumber !== undefined && { tableNumber }),
+      ...(status === 'seated' && { seatedAt: getNepalTimestamp() }),
+    };
+    set((state) => ({
+      reservations: state.reservations.map(r => r.id === id ? updated : r)
+    }));
+    outbox.enqueue('reservationsApi', 'update', id, updated);
+    audit('reservation.status', id,
+      { status: current.status, tableNumber: current.tableNumber },
+      { status, tableNumber: updated.tableNumber });
+  },
+
   // Expenses - starts empty, loaded from backend
   expenses: [],
   setExpenses: (expenses) => set({ expenses }),
@@ -564,12 +1231,15 @@ export const useStore = create<StoreState>()((set, get) => ({
       createdBy: expense.createdBy || ''
     };
     set((state) => ({ expenses: [...state.expenses, newExpense] }));
-    syncToBackend(() => expensesApi.create(newExpense));
+    outbox.enqueue('expensesApi', 'create', newExpense);
+    audit('expense.create', newExpense.id, undefined, newExpense);
   },
 
   deleteExpense: (id) => {
+    const expense = get().expenses.find(e => e.id === id);
     set((state) => ({ expenses: state.expenses.filter(e => e.id !== id) }));
-    syncToBackend(() => expensesApi.delete(id));
+    outbox.enqueue('expensesApi', 'delete', id);
+    audit('expense.delete', id, expense);
   },
 
   getExpensesByDateRange: (start, end) => {
@@ -579,6 +1249,363 @@ export const useStore = create<StoreState>()((set, get) => ({
     });
   },
 
+  // Inventory - staff only, loaded from backend once signed in
+  ingredients: [],
+  setIngredients: (ingredients) => set({ ingredients }),
+
+  addIngredient: (ingredient) => {
+    const newIngredient: Ingredient = {
+      id: generateId(),
+      name: ingredient.name,
+      unit: ingredient.unit,
+      stock: roundQty(ingredient.stock),
+      lowStockLevel: ingredient.lowStockLevel,
+      costPerUnit: ingredient.costPerUnit,
+      createdAt: getNepalTimestamp(),
+    };
+    // Opening stock is booked as a stock count once the ingredient exists
+    const opening: StockMovement | null = newIngredient.stock !== 0 ? {
+      id: generateId(),
+      ingredientId: newIngredient.id,
+      type: 'adjustment',
+      quantity: newIngredient.stock,
+      note: 'Opening stock',
+      createdBy: get().currentUser?.name || '',
+      createdAt: newIngredient.createdAt,
+    } : null;
+    set((state) => ({
+      ingredients: [...state.ingredients, newIngredient],
+      stockMovements: opening ? [opening, ...state.stockMovements] : state.stockMovements,
+    }));
+    // The outbox sends in order, so the ingredient exists before its opening stock
+    outbox.enqueue('ingredientsApi', 'create', newIngredient);
+    if (opening) outbox.enqueue('stockMovementsApi', 'create', opening);
+    audit('inventory.create', newIngredient.id, undefined, newIngredient);
+  },
+
+  updateIngredient: (id, ingredient) => {
+    const current = get().ingredients.find(i => i.id === id);
+    if (!current) return;
+    const updated = { ...current, ...ingredient, stock: current.stock };
+    set((state) => ({
+      ingredients: state.ingredients.map(i => i.id === id ? updated : i)
+    }));
+    outbox.enqueue('ingredientsApi', 'update', id, updated);
+    audit('inventory.update', id, pickFields(current, Object.keys(ingredient)), ingredient);
+  },
+
+  deleteIngredient: (id) => {
+    const ingredient = get().ingredients.find(i => i.id === id);
+    set((state) => ({ ingredients: state.ingredients.filter(i => i.id !== id) }));
+    outbox.enqueue('ingredientsApi', 'delete', id);
+    audit('inventory.delete', id, ingredient);
+  },
+
+  // The database adds the movement to the ingredient's stock
+  recordStockMovement: (ingredientId, type, quantity, note) => {
+    const ingredient = get().ingredients.find(i => i.id === ingredientId);
+    if (!ingredient || quantity === 0) return;
+    const movement: StockMovement = {
+      id: generateId(),
+      ingredientId,
+      type,
+      quantity: roundQty(quantity),
+      note: note || '',
+      createdBy: get().currentUser?.name || '',
+      createdAt: getNepalTimestamp(),
+    };
+    set((state) => ({
+      ingredients: state.ingredients.map(i =>
+        i.id === ingredientId ? { ...i, stock: roundQty(i.stock + movement.quantity) } : i
+      ),
+      stockMovements: [movement, ...state.stockMovements],
+    }));
+    outbox.enqueue('stockMovementsApi', 'create', movement);
+    audit('inventory.adjust', ingredientId, { stock: ingredient.stock }, { type, quantity: movement.quantity, note: movement.note });
+    get().markSoldOutItems();
+  },
+
+  // Local copy of the deduct_recipe_stock trigger so stock is current before realtime catches up
+  deductStock: (transaction) => {
+    const usage = getStockUsage(transaction, get().menuItems);
+    if (Object.keys(usage).length === 0) return;
+    set((state) => ({
+      ingredients: state.ingredients.map(i =>
+        usage[i.id] ? { ...i, stock: roundQty(i.stock - usage[i.id]) } : i
+      ),
+    }));
+    get().markSoldOutItems();
+  },
+
+  // Items that can't be made with the stock on hand come off the menu. Only on screen:
+  // the apply_stock_movement trigger takes them off the server's menu
+  markSoldOutItems: () => {
+    const soldOut = new Set(getSoldOutItems(get().menuItems, get().ingredients).map(item => item.id));
+    if (soldOut.size === 0) return;
+    set((state) => ({
+      menuItems: state.menuItems.map(m => soldOut.has(m.id) ? { ...m, available: false } : m),
+    }));
+    soldOut.forEach(id => audit('menu.availability', id, { available: true }, { available: false }));
+  },
+
+  stockMovements: [],
+
+  loadStockMovements: async () => {
+    const stockMovements = await stockMovementsApi.getAll().catch((err) => {
+      console.error('[Store] Stock movements load failed:', err);
+      return [];
+    });
+    set({ stockMovements });
+  },
+
+  // Purchasing - staff only, loaded when the purchasing tab opens
+  suppliers: [],
+  purchaseOrders: [],
+  goodsReceipts: [],
+  supplierPayments: [],
+
+  loadPurchasing: async () => {
+    const fail = (label: string) => (err: unknown) => {
+      console.error(`[Store] ${label} load failed:`, err);
+      return [];
+    };
+    const [suppliers, purchaseOrders, goodsReceipts, supplierPayments] = await Promise.all([
+      suppliersApi.getAll().catch(fail('Suppliers')),
+      purchaseOrdersApi.getAll().catch(fail('Purchase orders')),
+      goodsReceiptsApi.getAll().catch(fail('Goods receipts')),
+      supplierPaymentsApi.getAll().catch(fail('Supplier payments')),
+    ]);
+    set({ suppliers, purchaseOrders, goodsReceipts, supplierPayments });
+  },
+
+  addSupplier: (supplier) => {
+    const newSupplier: Supplier = {
+      id: generateId(),
+      name: supplier.name,
+      phone: supplier.phone,
+      contactPerson: supplier.contactPerson || '',
+      notes: supplier.notes || '',
+      createdAt: getNepalTimestamp(),
+    };
+    set((state) => ({ suppliers: [...state.suppliers, newSupplier] }));
+    outbox.enqueue('suppliersApi', 'create', newSupplier);
+    audit('supplier.create', newSupplier.id, undefined, newSupplier);
+  },
+
+  updateSupplier: (id, supplier) => {
+    const current = get().suppliers.find(s => s.id === id);
+    if (!current) return;
+    const updated = { ...current, ...supplier };
+    set((state) => ({
+      suppliers: state.suppliers.map(s => s.id === id ? updated : s)
+    }));
+    outbox.enqueue('suppliersApi', 'update', id, updated);
+    audit('supplier.update', id, pickFields(current, Object.keys(supplier)), supplier);
+  },
+
+  deleteSupplier: (id) => {
+    const supplier = get().suppliers.find(s => s.id === id);
+    set((state) => ({ suppliers: state.suppliers.filter(s => s.id !== id) }));
+    outbox.enqueue('suppliersApi', 'delete', id);
+    audit('supplier.delete', id, supplier);
+  },
+
+  // Promotions - loaded with the rest of the data; customers get the automatic ones
+  promotions: [],
+  setPromotions: (promotions) => set({ promotions }),
+
+  addPromotion: (promotion) => {
+    const newPromotion: Promotion = {
+      ...promotion,
+      id: generateId(),
+      code: promotion.code?.trim().toUpperCase() || undefined,
+      uses: 0,
+      createdAt: getNepalTimestamp(),
+    };
+    set((state) => ({ promotions: [...state.promotions, newPromotion] }));
+    outbox.enqueue('promotionsApi', 'create', newPromotion);
+    audit('promotion.create', newPromotion.id, undefined, newPromotion);
+  },
+
+  updatePromotion: (id, promotion) => {
+    const current = get().promotions.find(p => p.id === id);
+    if (!current) return;
+    const changes = promotion.code !== undefined ? { ...promotion, code: promotion.code.trim().toUpperCase() || undefined } : promotion;
+    const updated = { ...current, ...changes };
+    set((state) => ({
+      promotions: state.promotions.map(p => p.id === id ? updated : p)
+    }));
+    outbox.enqueue('promotionsApi', 'update', id, updated);
+    audit('promotion.update', id, pickFields(current, Object.keys(promotion)), changes);
+  },
+
+  deletePromotion: (id) => {
+    const promotion = get().promotions.find(p => p.id === id);
+    set((state) => ({ promotions: state.promotions.filter(p => p.id !== id) }));
+    outbox.enqueue('promotionsApi', 'delete', id);
+    audit('promotion.delete', id, promotion);
+  },
+
+  createPurchaseOrder: (supplierId, lines, note) => {
+    const order: PurchaseOrder = {
+      id: generateId(),
+      supplierId,
+      status: 'open',
+      lines: lines.map(line => ({ ...line, qty: roundQty(line.qty), receivedQty: 0 })),
+      note: note || '',
+      createdBy: get().currentUser?.name || '',
+      createdAt: getNepalTimestamp(),
+    };
+    set((state) => ({ purchaseOrders: [order, ...state.purchaseOrders] }));
+    outbox.enqueue('purchaseOrdersApi', 'create', order);
+    audit('purchase_order.create', order.id, undefined, { supplierId, total: getLinesTotal(order.lines), lines: order.lines.length });
+    return order;
+  },
+
+  cancelPurchaseOrder: (id) => {
+    const order = get().purchaseOrders.find(o => o.id === id);
+    if (!order) return;
+    set((state) => ({
+      purchaseOrders: state.purchaseOrders.map(o => o.id === id ? { ...o, status: 'cancelled' } : o)
+    }));
+    outbox.enqueue('purchaseOrdersApi', 'cancel', id);
+    audit('purchase_order.cancel', id, { status: order.status }, { status: 'cancelled' });
+  },
+
+  // The post_goods_receipt trigger adds the stock, books the expense and updates
+  // the order; the local copies below show it before the next load
+  receiveGoods: (supplierId, lines, purchaseOrderId, note) => {
+    const receipt: GoodsReceipt = {
+      id: generateId(),
+      supplierId,
+      purchaseOrderId,
+      lines: lines.map(line => ({ ...line, qty: roundQty(line.qty) })),
+      total: getLinesTotal(lines),
+      note: note || '',
+      createdBy: get().currentUser?.name || '',
+      createdAt: getNepalTimestamp(),
+    };
+    const supplier = get().suppliers.find(s => s.id === supplierId);
+    const expense: Expense = {
+      id: `grn-${receipt.id}`,
+      amount: receipt.total,
+      description: `Goods received from ${supplier?.name || 'supplier'}`,
+      category: 'ingredients',
+      createdAt: receipt.createdAt,
+      createdBy: receipt.createdBy,
+      supplierId,
+      goodsReceiptId: receipt.id,
+    };
+    set((state) => ({
+      goodsReceipts: [receipt, ...state.goodsReceipts],
+      purchaseOrders: state.purchaseOrders.map(o =>
+        o.id === purchaseOrderId ? applyReceiptToOrder(o, receipt.lines) : o
+      ),
+      ingredients: state.ingredients.map(i => {
+        const received = receipt.lines.filter(l => l.ingredientId === i.id).reduce((sum, l) => sum + l.qty, 0);
+        return received ? { ...i, stock: roundQty(i.stock + received) } : i;
+      }),
+      expenses: [...state.expenses, expense],
+    }));
+    outbox.enqueue('goodsReceiptsApi', 'create', receipt);
+    audit('goods_receipt.post', receipt.id, undefined, { supplierId, purchaseOrderId, total: receipt.total });
+    return receipt;
+  },
+
+  // Cash payments come out of the till when a register is open
+  paySupplier: (supplierId, amount, method, note) => {
+    const supplier = get().suppliers.find(s => s.id === supplierId);
+    const payment: SupplierPayment = {
+      id: generateId(),
+      supplierId,
+      amount: roundMoney(amount),
+      method,
+      note: note || '',
+      createdBy: get().currentUser?.name || '',
+      createdAt: getNepalTimestamp(),
+    };
+    set((state) => ({ supplierPayments: [payment, ...state.supplierPayments] }));
+    outbox.enqueue('supplierPaymentsApi', 'create', payment);
+    audit('supplier.payment', supplierId, undefined, { amount: payment.amount, method, note: payment.note });
+    if (method === 'cash' && get().getOpenRegisterSession()) {
+      get().addCashMovement('payout', payment.amount, `Supplier: ${supplier?.name || supplierId}`, payment.createdBy);
+    }
+  },
+
+  // Register Sessions - starts empty, loaded from backend
+  registerSessions: [],
+  setRegisterSessions: (sessions) => set({ registerSessions: sessions }),
+
+  getOpenRegisterSession: () => {
+    return get().registerSessions.find(s => s.status === 'open');
+  },
+
+  openRegister: (openingFloat, openedBy) => {
+    // Only one till can be open at a time
+    if (get().getOpenRegisterSession()) return undefined;
+
+    const session: RegisterSession = {
+      id: generateId(),
+      status: 'open',
+      openingFloat,
+      openedAt: getNepalTimestamp(),
+      openedBy,
+      movements: [],
+    };
+    set((state) => ({ registerSessions: [session, ...state.registerSessions] }));
+    outbox.enqueue('registerSessionsApi', 'create', session);
+    audit('register.open', session.id, undefined, { openingFloat, openedBy });
+    return session;
+  },
+
+  addCashMovement: (type, amount, reason, createdBy) => {
+    const session = get().getOpenRegisterSession();
+    if (!session) return;
+
+    const movements = [
+      ...session.movements,
+      { id: generateId(), type, amount, reason, createdAt: getNepalTimestamp(), createdBy },
+    ];
+    set((state) => ({
+      registerSessions: state.registerSessions.map(s => s.id === session.id ? { ...s, movements } : s),
+    }));
+    outbox.enqueue('registerSessionsApi', 'update', session.id, { movements });
+    audit('register.cash_movement', session.id, undefined, { type, amount, reason, createdBy });
+  },
+
+  closeRegister: (denominations, closedBy) => {
+    const session = get().getOpenRegisterSession();
+    if (!session) return undefined;
+
+    // Freeze the figures at close so the Z-report never changes afterwards
+    const closedAt = getNepalTimestamp();
+    const summary = getRegisterSummary({ ...session, closedAt }, get().transactions, get().expenses);
+    const countedCash = getDenominationTotal(denominations);
+    const updates: Partial<RegisterSession> = {
+      status: 'closed',
+      closedAt,
+      closedBy,
+      denominations,
+      countedCash,
+      expectedCash: summary.expectedCash,
+      variance: roundMoney(countedCash - summary.expectedCash),
+      cashPayments: summary.cashPayments,
+      fonepayPayments: summary.fonepayPayments,
+      esewaPayments: summary.esewaPayments,
+      khaltiPayments: summary.khaltiPayments,
+      expenseTotal: summary.expenseTotal,
+      transactionCount: summary.transactionCount,
+    };
+    const closed = { ...session, ...updates };
+
+    set((state) => ({
+      registerSessions: state.registerSessions.map(s => s.id === session.id ? closed : s),
+    }));
+    outbox.enqueue('registerSessionsApi', 'update', session.id, updates);
+    audit('register.close', session.id, { status: session.status }, updates);
+    return closed;
+  },
+
   // Waiter Calls - starts empty, loaded from backend
   waiterCalls: [],
   setWaiterCalls: (calls) => set({ waiterCalls: calls }),
@@ -597,7 +1624,8 @@ export const useStore = create<StoreState>()((set, get) => ({
       createdAt: getNepalTimestamp(),
     };
     set((state) => ({ waiterCalls: [...state.waiterCalls, newCall] }));
-    syncToBackend(() => waiterCallsApi.create(newCall));
+    outbox.enqueue('waiterCallsApi', 'create', newCall);
+    audit('waiter.call', newCall.id, undefined, { tableNumber, customerPhone });
   },
 
   acknowledgeWaiterCall: (id) => {
@@ -606,21 +1634,35 @@ export const useStore = create<StoreState>()((set, get) => ({
         c.id === id ? { ...c, status: 'acknowledged' as const, acknowledgedAt: getNepalTimestamp() } : c
       )
     }));
-    syncToBackend(() => waiterCallsApi.acknowledge(id));
+    outbox.enqueue('waiterCallsApi', 'acknowledge', id);
+    audit('waiter.acknowledge', id);
   },
 
   dismissWaiterCall: (id) => {
+    const call = get().waiterCalls.find(c => c.id === id);
     set((state) => ({ waiterCalls: state.waiterCalls.filter(c => c.id !== id) }));
-    syncToBackend(() => waiterCallsApi.dismiss(id));
+    outbox.enqueue('waiterCallsApi', 'dismiss', id);
+    audit('waiter.dismiss', id, call);
   },
 
   getPendingWaiterCalls: () => get().waiterCalls.filter(c => c.status === 'pending'),
 
+  // Audit Log - only fetched by the admin audit tab (view_audit_log)
+  auditLog: [],
+
+  loadAuditLog: async (from, to) => {
+    const auditLog = await auditLogApi.getAll(from, to).catch((err) => {
+      console.error('[Store] Audit log load failed:', err);
+      return [];
+    });
+    set({ auditLog });
+  },
+
   // Stats
   getTodayStats: () => {
     const todayTransactions = get().transactions.filter(t => isToday(t.paidAt));
     const activeOrders = get().getActiveOrders();
-    const activeTables = new Set(activeOrders.map(o => o.tableNumber)).size;
+    const activeTables = new Set(activeOrders.filter(isTableOrder).map(o => o.tableNumber)).size;
 
     return {
       revenue: todayTransactions.reduce((sum, t) => sum + t.total, 0),
@@ -630,3 +1672,12 @@ export const useStore = create<StoreState>()((set, get) => ({
     };
   },
 }));
+
+// The database numbers invoices, gap-free within the fiscal year, when the sale lands
+outbox.onApplied('transactionsApi', 'create', (saved) => {
+  useStore.setState((state) => ({
+    transactions: state.transactions.map(t =>
+      t.id === saved.id ? { ...t, invoiceNumber: saved.invoiceNumber } : t
+    ),
+  }));
+});
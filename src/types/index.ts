@@ -3,6 +3,7 @@ export interface Category {
   name: string;
   sortOrder: number;
   prepTime?: number; // Average prep time in minutes
+  station?: string; // Prep station name (e.g. 'Tea Bar'), defaults to the main kitchen
 }
 
 export interface MenuItem {
@@ -13,6 +14,37 @@ export interface MenuItem {
   available: boolean;
   description?: string;
   image?: string;
+  modifierGroups?: ModifierGroup[]; // Sizes, add-ons, variants
+  taxable?: boolean; // VAT applies unless false (exempt goods)
+  recipe?: RecipeLine[]; // Ingredients used per serving, deducted from stock when sold
+}
+
+export interface RecipeLine {
+  ingredientId: string;
+  qty: number; // In the ingredient's unit
+}
+
+export interface ModifierOption {
+  id: string;
+  name: string;
+  priceDelta: number; // Added to the item's base price (can be negative)
+}
+
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  required: boolean;
+  minSelections: number;
+  maxSelections: number; // 1 = pick one
+  options: ModifierOption[];
+}
+
+export interface SelectedModifier {
+  groupId: string;
+  groupName: string;
+  optionId: string;
+  optionName: string;
+  priceDelta: number;
 }
 
 export interface OrderItem {
@@ -20,12 +52,21 @@ export interface OrderItem {
   menuItemId: string;
   name: string;
   qty: number;
-  price: number;
+  price: number; // Unit price including modifier deltas
+  modifiers?: SelectedModifier[];
+  station?: string; // Prep station this line is routed to
+  taxable?: boolean; // Copied from the menu item when ordered
+  status?: ItemStatus; // Kitchen progress for this line (defaults to 'queued')
+  startedAt?: string;
+  readyAt?: string;
+  servedAt?: string;
 }
 
+export type ItemStatus = 'queued' | 'cooking' | 'ready' | 'served';
+
 export interface Order {
   id: string;
-  tableNumber: number;
+  tableNumber: number; // 0 for takeaway, delivery and counter sales
   customerPhone: string;
   items: OrderItem[];
   status: OrderStatus;
@@ -33,10 +74,47 @@ export interface Order {
   updatedAt: string;
   total: number;
   notes?: string;
+  orderType?: OrderType; // Defaults to 'dine_in'
+  delivery?: DeliveryDetails;
+  scheduledFor?: string; // Pre-orders: pickup slot; the kitchen gets it shortly before
+  version?: number; // Bumped by the database on every update
+}
+
+// Dine-in orders come from a table; the others are rung up at the counter
+export type OrderType = 'dine_in' | 'takeaway' | 'delivery' | 'counter';
+
+export interface DeliveryDetails {
+  address: string;
+  fee: number; // Added to the bill, VAT-able, no service charge
+  rider?: string; // One of settings.deliveryRiders
 }
 
 export type OrderStatus = 'pending' | 'accepted' | 'preparing' | 'ready' | 'served' | 'cancelled';
 
+// Digital payments taken through a gateway QR or checkout (see lib/paymentGateways)
+export type GatewayMethod = 'fonepay' | 'esewa' | 'khalti';
+
+// 'account' charges the bill to a customer's tab (khata), settled later
+export type PaymentMethod = 'cash' | GatewayMethod | 'account';
+
+// One tender on a bill; a bill paid part cash, part Fonepay has two
+export interface Tender {
+  method: PaymentMethod;
+  amount: number;
+  reference?: string; // Gateway payment id, when the gateway confirmed it
+  customerPhone?: string; // Account tenders: whose tab it goes on
+}
+
+// A gateway account as the app sees it; secrets stay in the database
+export interface PaymentGateway {
+  provider: GatewayMethod;
+  enabled: boolean;
+  live: boolean; // false uses the gateway's test servers
+  merchantCode: string;
+  username: string;
+  hasSecret: boolean;
+}
+
 export interface Bill {
   id: string;
   tableNumber: number;
@@ -44,13 +122,31 @@ export interface Bill {
   customerPhones: string[];
   subtotal: number;
   discount: number;
+  pointsRedeemed?: number; // Loyalty points behind the discount
+  promotions?: AppliedPromotion[]; // Part of the discount
   total: number;
-  status: 'unpaid' | 'paid';
-  paymentMethod?: 'cash' | 'fonepay';
+  status: 'unpaid' | 'paid' | 'voided';
+  paymentMethod?: PaymentMethod | 'mixed';
+  payments?: Tender[];
   paidAt?: string;
   createdAt: string;
+  version?: number; // Bumped by the database on every update
+  // Split bills: sub-bills of one table share a splitGroupId
+  splitGroupId?: string;
+  splitLabel?: string; // e.g. "Seat 2" or "Share 1/3"
+  items?: OrderItem[]; // Lines assigned to this sub-bill (split by item)
+  itemShare?: number; // Fraction of the orders' items this sub-bill covers (split by amount)
+  // Tax breakdown (total = taxableAmount + nonTaxableAmount + vat)
+  serviceCharge?: number;
+  deliveryFee?: number;
+  taxableAmount?: number;
+  nonTaxableAmount?: number;
+  vat?: number;
 }
 
+// Voids and refunds are compensating transactions with a negative total and tenders
+export type TransactionKind = 'sale' | 'void' | 'refund';
+
 export interface Transaction {
   id: string;
   billId: string;
@@ -58,9 +154,27 @@ export interface Transaction {
   customerPhones: string[];
   total: number;
   discount: number;
-  paymentMethod: 'cash' | 'fonepay';
+  pointsRedeemed?: number;
+  promotions?: AppliedPromotion[];
+  paymentMethod: PaymentMethod | 'mixed';
+  payments?: Tender[];
   paidAt: string;
   items: OrderItem[];
+  splitGroupId?: string;
+  splitLabel?: string;
+  itemShare?: number; // Item quantities/revenue are scaled by this in reports (default 1)
+  kind?: TransactionKind; // Defaults to 'sale'
+  refundOf?: string; // Sale reversed by a void or refund
+  reason?: string;
+  approvedBy?: string; // Manager whose PIN approved the void or refund
+  orderType?: OrderType; // Defaults to 'dine_in'
+  serviceCharge?: number;
+  deliveryFee?: number;
+  taxableAmount?: number;
+  nonTaxableAmount?: number;
+  vat?: number;
+  fiscalYear?: string; // Bikram Sambat fiscal year, e.g. "2082/83"
+  invoiceNumber?: number; // Gap-free per fiscal year, assigned by the database to sales only
 }
 
 export interface Customer {
@@ -68,23 +182,135 @@ export interface Customer {
   name?: string;
   totalOrders: number;
   totalSpent: number;
-  points: number;
+  points: number; // Sum of the customer's loyalty ledger, kept by the database
+  creditLimit?: number; // Set when the customer has an account (tab); 0 means no limit
   lastVisit: string;
 }
 
+// Loyalty ledger: redemptions, take-backs and expiries carry negative points
+export type LoyaltyEntryType = 'earn' | 'redeem' | 'adjust' | 'expire';
+
+export interface LoyaltyEntry {
+  id: string;
+  type: LoyaltyEntryType;
+  points: number;
+  reason?: string;
+  transactionId?: string;
+  expiresAt?: string; // Earned points only
+  createdBy?: string;
+  createdAt: string;
+}
+
+export interface CustomerLoyalty {
+  points: number;
+  tier?: string;
+  entries: LoyaltyEntry[]; // Most recent first
+}
+
+// Members reach a tier by lifetime spend; its multiplier scales what they earn
+export interface LoyaltyTier {
+  name: string;
+  minSpent: number;
+  multiplier: number;
+}
+
+export interface LoyaltyEarnRule {
+  category: string; // Menu category name
+  multiplier: number;
+}
+
+// Promotions: the bill discount is worked out from these rules (see lib/promotions)
+export type PromotionType = 'happy_hour' | 'combo' | 'bogo' | 'threshold';
+
+export interface PromotionComboItem {
+  menuItemId: string;
+  qty: number;
+}
+
+export interface Promotion {
+  id: string;
+  name: string;
+  type: PromotionType;
+  active: boolean;
+  code?: string; // Coupon code; without one the promotion applies by itself
+  maxUses?: number; // Coupon limit (1 = single use)
+  uses: number; // Bills it applied to, counted by the database
+  startsOn?: string; // YYYY-MM-DD
+  endsOn?: string;
+  days?: number[]; // 0 = Sunday; empty is every day
+  startTime?: string; // HH:MM Nepal time
+  endTime?: string;
+  // happy_hour and bogo: the items covered
+  categories?: string[];
+  menuItemIds?: string[];
+  percentOff?: number; // happy_hour, threshold
+  amountOff?: number; // threshold
+  minSubtotal?: number; // threshold
+  comboItems?: PromotionComboItem[]; // combo, sold together for bundlePrice
+  bundlePrice?: number;
+  buyQty?: number; // bogo: buy this many, get getQty more free (cheapest first)
+  getQty?: number;
+  createdAt: string;
+}
+
+// What a promotion took off one bill
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  discount: number;
+  code?: string;
+}
+
 export interface Staff {
   id: string;
   username: string;
-  password: string;
-  pin?: string; // 4-6 digit PIN for quick actions like approving orders
-  role: 'admin' | 'counter';
+  password?: string; // Write-only: sent when creating or changing, never loaded back
+  pin?: string; // Write-only 4-6 digit PIN for quick actions like approving orders
+  hasPin?: boolean;
+  role: string; // Role id: a built-in role (owner, manager, cashier, waiter, kitchen) or a custom one
+  permissions?: Permission[]; // Resolved from the role by the server
   name: string;
   createdAt: string;
 }
 
+export type Permission =
+  | 'use_counter'
+  | 'take_payment'
+  | 'apply_discount'
+  | 'void_paid_bill'
+  | 'record_expense'
+  | 'delete_expense'
+  | 'manage_register'
+  | 'use_kitchen'
+  | 'override_payment_block'
+  | 'edit_menu'
+  | 'view_analytics'
+  | 'view_customers'
+  | 'manage_staff'
+  | 'manage_settings'
+  | 'manage_inventory'
+  | 'manage_purchasing'
+  | 'view_audit_log'
+  | 'adjust_points'
+  | 'manage_promotions'
+  | 'manage_accounts'
+  | 'manage_reservations';
+
+export interface Role {
+  id: string;
+  name: string;
+  permissions: Permission[];
+  builtIn: boolean; // Built-in roles can be re-configured but not deleted
+}
+
+export interface StaffSession {
+  token: string;
+  expiresAt: string;
+  user: Staff;
+}
+
 export interface Settings {
   restaurantName: string;
-  tableCount: number;
   wifiSSID: string;
   wifiPassword: string;
   baseUrl: string;
@@ -94,20 +320,72 @@ export interface Settings {
   facebookUrl?: string;
   tiktokUrl?: string;
   googleReviewUrl?: string;
-  // Admin-less mode: counter gets full admin access
-  counterAsAdmin?: boolean;
   // Kitchen settings
   kitchenHandles?: number; // Number of parallel orders kitchen can handle (default: 3)
+  kitchenStations?: string[]; // Named prep stations, each with its own KDS screen and chit
+  // Pre-orders (each pickup slot takes kitchenHandles orders)
+  preOrdersEnabled?: boolean;
+  preOrderSlotMinutes?: number;    // Length of a pickup slot (default: 15)
+  preOrderReleaseMinutes?: number; // Ticket shows in the kitchen this long before pickup (default: 20)
+  preOrderOpenTime?: string;       // First pickup slot, HH:MM Nepal time
+  preOrderCloseTime?: string;      // Last pickup slot
   // Point system settings
   pointSystemEnabled?: boolean;
   pointsPerRupee?: number;       // How many points earned per rupee spent (e.g., 1 point per 10 rupees = 0.1)
   pointValueInRupees?: number;   // How much 1 point is worth in rupees (e.g., 1 point = 1 rupee)
   maxDiscountRupees?: number;    // Maximum discount in rupees that can be applied
   maxDiscountPoints?: number;    // Maximum points that can be used at once
+  pointsExpiryMonths?: number;   // Earned points lapse after this many months (0 = never)
+  loyaltyTiers?: LoyaltyTier[];
+  loyaltyEarnRules?: LoyaltyEarnRule[]; // Category multipliers, e.g. 2x on bakery
   // Theme
   theme?: 'light' | 'dark' | 'system';
   // Sound alerts
   soundAlertsEnabled?: boolean;
+  // Tax (service charge is added first, VAT is charged on top of it)
+  serviceChargeEnabled?: boolean;
+  serviceChargeRate?: number; // Percent, default 10
+  vatEnabled?: boolean;
+  vatRate?: number; // Percent, default 13
+  panNumber?: string; // PAN/VAT registration number printed on invoices
+  // Delivery
+  deliveryFee?: number; // Default fee for new delivery orders
+  deliveryRiders?: string[];
+  // Reservations
+  reservationMinutes?: number; // How long a party keeps a table, for bookings and waitlist estimates (default: 90)
+  reservationHoldMinutes?: number; // Table shows as reserved this long before the booking (default: 30)
+}
+
+// Occupancy comes from a table's open orders; staff flag bill requests and
+// cleaning; a free table is reserved shortly before a booking on it
+export type TableStatus = 'free' | 'reserved' | 'occupied' | 'bill_requested' | 'cleaning';
+
+export interface DiningTable {
+  number: number; // What QR codes, orders and bills refer to
+  name: string; // e.g. "R2"; falls back to "Table 2"
+  area: string; // e.g. Indoor, Rooftop, Garden
+  capacity: number;
+  x: number; // Floor plan position, percent of the area's width
+  y: number; // ...and height
+  serviceStatus?: 'bill_requested' | 'cleaning';
+}
+
+// Bookings are 'booked' until the party arrives; walk-ins wait on the waitlist
+export type ReservationStatus = 'booked' | 'waiting' | 'seated' | 'no_show' | 'cancelled';
+
+export interface Reservation {
+  id: string;
+  name: string;
+  phone: string;
+  partySize: number;
+  time: string; // Booked arrival; for walk-ins, when they joined the waitlist
+  walkIn: boolean;
+  tableNumber?: number; // Assigned table; must seat the party
+  status: ReservationStatus;
+  notes?: string;
+  seatedAt?: string;
+  createdBy: string;
+  createdAt: string;
 }
 
 export interface DashboardStats {
@@ -124,6 +402,117 @@ export interface Expense {
   category: 'ingredients' | 'utilities' | 'salary' | 'maintenance' | 'other';
   createdAt: string;
   createdBy: string;
+  // Set on expenses posted from a goods receipt (bought on credit, not paid from the till)
+  supplierId?: string;
+  goodsReceiptId?: string;
+}
+
+export interface Ingredient {
+  id: string;
+  name: string;
+  unit: string; // e.g. 'g', 'ml', 'pcs'
+  stock: number; // Kept by the database from stock movements
+  lowStockLevel: number; // Alert at or below this
+  costPerUnit: number; // Rupees per unit, for recipe costing
+  createdAt: string;
+}
+
+export type StockMovementType = 'sale' | 'purchase' | 'adjustment' | 'waste';
+
+// Signed change to an ingredient's stock: sales and waste are negative
+export interface StockMovement {
+  id: string;
+  ingredientId: string;
+  type: StockMovementType;
+  quantity: number;
+  reference?: string; // Transaction behind a sale, or goods receipt behind a purchase
+  note?: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  phone: string;
+  contactPerson?: string;
+  notes?: string;
+  createdAt: string;
+}
+
+export type PurchaseOrderStatus = 'open' | 'partial' | 'received' | 'cancelled';
+
+export interface PurchaseOrderLine {
+  ingredientId: string;
+  qty: number;
+  unitCost: number;
+  receivedQty: number; // Kept by the database as goods receipts are posted
+}
+
+export interface PurchaseOrder {
+  id: string;
+  supplierId: string;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  note?: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface GoodsReceiptLine {
+  ingredientId: string;
+  qty: number;
+  unitCost: number;
+}
+
+// Goods received note: posting one adds stock, books an expense and owes the supplier
+export interface GoodsReceipt {
+  id: string;
+  supplierId: string;
+  purchaseOrderId?: string; // Unset for deliveries that weren't ordered
+  lines: GoodsReceiptLine[];
+  total: number;
+  note?: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+export type SupplierPaymentMethod = 'cash' | 'bank' | 'fonepay';
+
+export interface SupplierPayment {
+  id: string;
+  supplierId: string;
+  amount: number;
+  method: SupplierPaymentMethod;
+  note?: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+// Money a customer paid towards their account
+export type AccountPaymentMethod = Exclude<PaymentMethod, 'account'>;
+
+export interface AccountPayment {
+  id: string;
+  customerPhone: string;
+  amount: number;
+  method: AccountPaymentMethod;
+  note?: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+// A line on a customer's account statement; charges are positive, payments and credits negative
+export type AccountEntryType = 'charge' | 'payment' | 'credit';
+
+export interface AccountEntry {
+  id: string;
+  type: AccountEntryType;
+  date: string;
+  description: string;
+  amount: number;
+  balance: number; // Running balance after this line
+  transactionId?: string;
 }
 
 export interface WaiterCall {
@@ -134,3 +523,115 @@ export interface WaiterCall {
   createdAt: string;
   acknowledgedAt?: string;
 }
+
+export type CashMovementType = 'cash_in' | 'cash_out' | 'payout';
+
+export interface CashMovement {
+  id: string;
+  type: CashMovementType;
+  amount: number;
+  reason: string;
+  createdAt: string;
+  createdBy: string;
+}
+
+export interface RegisterSession {
+  id: string;
+  status: 'open' | 'closed';
+  openingFloat: number;
+  openedAt: string;
+  openedBy: string;
+  movements: CashMovement[];
+  // Filled in at close - figures are frozen for the Z-report
+  closedAt?: string;
+  closedBy?: string;
+  denominations?: Record<string, number>; // Note value -> count
+  countedCash?: number;
+  expectedCash?: number;
+  variance?: number;
+  cashPayments?: number;
+  fonepayPayments?: number;
+  esewaPayments?: number;
+  khaltiPayments?: number;
+  expenseTotal?: number;
+  transactionCount?: number;
+}
+
+export type AuditAction =
+  | 'staff.login'
+  | 'staff.logout'
+  | 'staff.create'
+  | 'staff.update'
+  | 'staff.delete'
+  | 'role.save'
+  | 'role.delete'
+  | 'category.create'
+  | 'category.update'
+  | 'category.delete'
+  | 'category.reorder'
+  | 'menu.create'
+  | 'menu.update'
+  | 'menu.delete'
+  | 'menu.availability'
+  | 'order.create'
+  | 'order.status'
+  | 'order.item_status'
+  | 'order.cancel'
+  | 'order.rider'
+  | 'bill.create'
+  | 'bill.split'
+  | 'bill.pay'
+  | 'bill.void'
+  | 'bill.refund'
+  | 'customer.update'
+  | 'customer.phone_change'
+  | 'customer.points_redeem'
+  | 'customer.points_adjust'
+  | 'customer.credit_limit'
+  | 'customer.account_payment'
+  | 'table.create'
+  | 'table.update'
+  | 'table.delete'
+  | 'table.status'
+  | 'table.transfer'
+  | 'table.merge'
+  | 'reservation.create'
+  | 'reservation.update'
+  | 'reservation.status'
+  | 'waiter.call'
+  | 'waiter.acknowledge'
+  | 'waiter.dismiss'
+  | 'expense.create'
+  | 'expense.delete'
+  | 'inventory.create'
+  | 'inventory.update'
+  | 'inventory.delete'
+  | 'inventory.adjust'
+  | 'supplier.create'
+  | 'supplier.update'
+  | 'supplier.delete'
+  | 'supplier.payment'
+  | 'promotion.create'
+  | 'promotion.update'
+  | 'promotion.delete'
+  | 'purchase_order.create'
+  | 'purchase_order.cancel'
+  | 'goods_receipt.post'
+  | 'register.open'
+  | 'register.cash_movement'
+  | 'register.close'
+  | 'settings.update'
+  | 'payment_gateway.update'
+  | 'payment_block.override';
+
+// Append-only: rows can be inserted but never changed or deleted
+export interface AuditEntry {
+  id: string;
+  action: AuditAction;
+  entityId: string;
+  actorId?: string; // Empty for customer actions from the table QR page
+  actorName: string;
+  before?: unknown;
+  after?: unknown;
+  createdAt: string;
+}
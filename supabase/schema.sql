@@ -6,11 +6,34 @@
 
 -- Enable necessary extensions
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+-- Outgoing HTTPS calls to the payment gateways (Database > Extensions > http on Supabase).
+-- Kept in the extensions schema, out of the API's reach: installed in public, http_get
+-- and friends could be called by anyone. An older install in public is replaced
+CREATE SCHEMA IF NOT EXISTS extensions;
+DROP EXTENSION IF EXISTS http CASCADE;
+CREATE EXTENSION IF NOT EXISTS http WITH SCHEMA extensions;
 
 -- ===========================================
 -- DROP EXISTING TABLES (Clean Slate)
 -- ===========================================
 
+DROP TABLE IF EXISTS data_changes CASCADE;
+DROP TABLE IF EXISTS audit_log CASCADE;
+DROP TABLE IF EXISTS reservations CASCADE;
+DROP TABLE IF EXISTS account_payments CASCADE;
+DROP TABLE IF EXISTS loyalty_ledger CASCADE;
+DROP TABLE IF EXISTS promotions CASCADE;
+DROP TABLE IF EXISTS gateway_payments CASCADE;
+DROP TABLE IF EXISTS payment_gateways CASCADE;
+DROP TABLE IF EXISTS invoice_sequences CASCADE;
+DROP TABLE IF EXISTS supplier_payments CASCADE;
+DROP TABLE IF EXISTS goods_receipts CASCADE;
+DROP TABLE IF EXISTS purchase_orders CASCADE;
+DROP TABLE IF EXISTS suppliers CASCADE;
+DROP TABLE IF EXISTS stock_movements CASCADE;
+DROP TABLE IF EXISTS ingredients CASCADE;
+DROP TABLE IF EXISTS register_sessions CASCADE;
 DROP TABLE IF EXISTS payment_blocks CASCADE;
 DROP TABLE IF EXISTS waiter_calls CASCADE;
 DROP TABLE IF EXISTS expenses CASCADE;
@@ -18,7 +41,11 @@ DROP TABLE IF EXISTS transactions CASCADE;
 DROP TABLE IF EXISTS bills CASCADE;
 DROP TABLE IF EXISTS orders CASCADE;
 DROP TABLE IF EXISTS customers CASCADE;
+DROP TABLE IF EXISTS staff_sessions CASCADE;
+DROP TABLE IF EXISTS staff_pin_attempts CASCADE;
 DROP TABLE IF EXISTS staff CASCADE;
+DROP TABLE IF EXISTS roles CASCADE;
+DROP TABLE IF EXISTS dining_tables CASCADE;
 DROP TABLE IF EXISTS settings CASCADE;
 DROP TABLE IF EXISTS menu_items CASCADE;
 DROP TABLE IF EXISTS categories CASCADE;
@@ -33,6 +60,7 @@ CREATE TABLE IF NOT EXISTS categories (
   name TEXT NOT NULL,
   sort_order INTEGER DEFAULT 0,
   prep_time INTEGER DEFAULT 5,
+  station TEXT DEFAULT '',
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
@@ -45,20 +73,28 @@ CREATE TABLE IF NOT EXISTS menu_items (
   available BOOLEAN DEFAULT true,
   description TEXT DEFAULT '',
   image TEXT DEFAULT '',
+  modifier_groups JSONB DEFAULT '[]',
+  taxable BOOLEAN DEFAULT true, -- false for VAT-exempt items
+  recipe JSONB DEFAULT '[]', -- [{ ingredientId, qty }] used per serving
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
--- Orders table
+-- Orders table (table_number is 0 for takeaway, delivery and counter sales)
 CREATE TABLE IF NOT EXISTS orders (
   id TEXT PRIMARY KEY,
-  table_number INTEGER NOT NULL,
+  table_number INTEGER NOT NULL DEFAULT 0,
   customer_phone TEXT DEFAULT '',
   items JSONB NOT NULL DEFAULT '[]',
   status TEXT DEFAULT 'pending',
   total DECIMAL(10,2) NOT NULL DEFAULT 0,
   notes TEXT DEFAULT '',
+  order_type TEXT NOT NULL DEFAULT 'dine_in' CHECK (order_type IN ('dine_in', 'takeaway', 'delivery', 'counter')),
+  delivery JSONB, -- { address, fee, rider } on delivery orders
+  scheduled_for TIMESTAMPTZ, -- Pre-orders: the pickup slot, see PRE-ORDERS
+  version INTEGER NOT NULL DEFAULT 1, -- bumped on every update, see CONCURRENCY
   created_at TIMESTAMPTZ DEFAULT NOW(),
-  updated_at TIMESTAMPTZ DEFAULT NOW()
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK ((order_type = 'dine_in') = (table_number > 0))
 );
 
 -- Bills table
@@ -69,14 +105,28 @@ CREATE TABLE IF NOT EXISTS bills (
   customer_phones JSONB NOT NULL DEFAULT '[]',
   subtotal DECIMAL(10,2) NOT NULL DEFAULT 0,
   discount DECIMAL(10,2) DEFAULT 0,
+  points_redeemed INTEGER DEFAULT 0, -- Loyalty points behind the discount
+  promotions JSONB DEFAULT '[]', -- [{promotionId, name, discount, code}], part of the discount
   total DECIMAL(10,2) NOT NULL DEFAULT 0,
   status TEXT DEFAULT 'unpaid',
   payment_method TEXT,
+  payments JSONB DEFAULT '[]',
   paid_at TIMESTAMPTZ,
-  created_at TIMESTAMPTZ DEFAULT NOW()
+  split_group_id TEXT,
+  split_label TEXT,
+  items JSONB,
+  item_share DECIMAL(6,4),
+  service_charge DECIMAL(10,2),
+  delivery_fee DECIMAL(10,2),
+  taxable_amount DECIMAL(10,2),
+  non_taxable_amount DECIMAL(10,2),
+  vat DECIMAL(10,2),
+  version INTEGER NOT NULL DEFAULT 1, -- bumped on every update, see CONCURRENCY
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
--- Transactions table (completed sales)
+-- Transactions table (completed sales; voids and refunds are negative rows)
 CREATE TABLE IF NOT EXISTS transactions (
   id TEXT PRIMARY KEY,
   bill_id TEXT,
@@ -84,39 +134,140 @@ CREATE TABLE IF NOT EXISTS transactions (
   customer_phones JSONB DEFAULT '[]',
   total DECIMAL(10,2) NOT NULL,
   discount DECIMAL(10,2) DEFAULT 0,
+  points_redeemed INTEGER DEFAULT 0, -- Booked to the loyalty ledger by book_loyalty_points
+  promotions JSONB DEFAULT '[]', -- Counted against their usage limits by count_promotion_uses
   payment_method TEXT NOT NULL,
+  payments JSONB DEFAULT '[]', -- [{method, amount, reference, customerPhone}]; 'account' tenders go on a customer's tab
   paid_at TIMESTAMPTZ NOT NULL,
   items JSONB DEFAULT '[]',
+  split_group_id TEXT,
+  split_label TEXT,
+  item_share DECIMAL(6,4),
+  kind TEXT DEFAULT 'sale', -- sale | void | refund
+  refund_of TEXT, -- Sale reversed by a void or refund
+  reason TEXT,
+  approved_by TEXT,
+  order_type TEXT DEFAULT 'dine_in',
+  service_charge DECIMAL(10,2),
+  delivery_fee DECIMAL(10,2),
+  taxable_amount DECIMAL(10,2),
+  non_taxable_amount DECIMAL(10,2),
+  vat DECIMAL(10,2),
+  fiscal_year TEXT, -- Bikram Sambat, e.g. '2082/83'
+  invoice_number INTEGER, -- Set by assign_invoice_number on sales
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Invoice numbering (last number issued in each fiscal year)
+CREATE TABLE IF NOT EXISTS invoice_sequences (
+  fiscal_year TEXT PRIMARY KEY,
+  last_number INTEGER NOT NULL DEFAULT 0
+);
+
 -- Customers table
 CREATE TABLE IF NOT EXISTS customers (
   phone TEXT PRIMARY KEY,
   name TEXT DEFAULT '',
   total_orders INTEGER DEFAULT 0,
   total_spent DECIMAL(10,2) DEFAULT 0,
-  points INTEGER DEFAULT 0,
+  points INTEGER DEFAULT 0, -- Sum of the customer's loyalty_ledger entries
+  credit_limit DECIMAL(10,2), -- Set when the customer has an account (tab); 0 = no limit
   last_visit TIMESTAMPTZ DEFAULT NOW(),
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
--- Staff table
+-- Loyalty ledger (signed points; redemptions, take-backs and expiries are negative).
+-- Entries are never edited; a mistake is put right with an adjust entry. A customer
+-- with entries can't be deleted, so their history can't go with them
+CREATE TABLE IF NOT EXISTS loyalty_ledger (
+  id TEXT PRIMARY KEY,
+  customer_phone TEXT NOT NULL REFERENCES customers(phone) ON UPDATE CASCADE ON DELETE RESTRICT,
+  type TEXT NOT NULL CHECK (type IN ('earn', 'redeem', 'adjust', 'expire')),
+  points INTEGER NOT NULL,
+  transaction_id TEXT, -- Sale, void or refund behind the entry
+  reason TEXT DEFAULT '',
+  expires_at TIMESTAMPTZ, -- Earned points only, see expire_loyalty_points
+  created_by TEXT DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Customer account payments (settling a tab; charges are the 'account' tenders on transactions)
+CREATE TABLE IF NOT EXISTS account_payments (
+  id TEXT PRIMARY KEY,
+  customer_phone TEXT NOT NULL REFERENCES customers(phone) ON UPDATE CASCADE,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  method TEXT DEFAULT 'cash', -- cash | fonepay | esewa | khalti
+  note TEXT DEFAULT '',
+  created_by TEXT DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Promotions table (rules for automatic discounts and coupon codes, see lib/promotions)
+CREATE TABLE IF NOT EXISTS promotions (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('happy_hour', 'combo', 'bogo', 'threshold')),
+  active BOOLEAN DEFAULT true,
+  code TEXT UNIQUE, -- Coupon code, upper case; NULL applies automatically
+  max_uses INTEGER, -- Coupon limit (1 = single use); NULL is unlimited
+  uses INTEGER DEFAULT 0, -- Bills it applied to, kept by count_promotion_uses
+  starts_on DATE,
+  ends_on DATE,
+  days JSONB DEFAULT '[]', -- Weekdays it runs, 0 = Sunday; empty is every day
+  start_time TEXT, -- HH:MM Nepal time; a window past midnight ends the next day
+  end_time TEXT,
+  categories JSONB DEFAULT '[]', -- happy_hour and bogo: the items it covers
+  menu_item_ids JSONB DEFAULT '[]',
+  percent_off DECIMAL(5,2),
+  amount_off DECIMAL(10,2),
+  min_subtotal DECIMAL(10,2), -- threshold
+  combo_items JSONB DEFAULT '[]', -- combo: [{menuItemId, qty}]
+  bundle_price DECIMAL(10,2),
+  buy_qty INTEGER, -- bogo
+  get_qty INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Roles table (permission sets; the owner role always holds every permission)
+CREATE TABLE IF NOT EXISTS roles (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  permissions JSONB NOT NULL DEFAULT '[]',
+  built_in BOOLEAN DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Staff table (passwords and PINs are bcrypt hashes, never readable by clients)
 CREATE TABLE IF NOT EXISTS staff (
   id TEXT PRIMARY KEY,
   username TEXT UNIQUE NOT NULL,
-  password TEXT NOT NULL,
-  pin TEXT DEFAULT '',
-  role TEXT DEFAULT 'counter',
+  password_hash TEXT NOT NULL,
+  pin_hash TEXT,
+  role TEXT DEFAULT 'cashier',
   name TEXT DEFAULT '',
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Staff sessions table (token issued by staff_login)
+CREATE TABLE IF NOT EXISTS staff_sessions (
+  token TEXT PRIMARY KEY DEFAULT encode(gen_random_bytes(32), 'hex'),
+  staff_id TEXT NOT NULL REFERENCES staff(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  last_seen_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Wrong PINs entered for approvals, by who entered them (see staff_by_pin)
+CREATE TABLE IF NOT EXISTS staff_pin_attempts (
+  id BIGSERIAL PRIMARY KEY,
+  caller TEXT NOT NULL,
+  attempted_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 -- Settings table (single row for app configuration)
 CREATE TABLE IF NOT EXISTS settings (
   id SERIAL PRIMARY KEY,
   restaurant_name TEXT DEFAULT 'Chiyadani',
-  table_count INTEGER DEFAULT 10,
   wifi_ssid TEXT DEFAULT '',
   wifi_password TEXT DEFAULT '',
   base_url TEXT DEFAULT '',
@@ -125,17 +276,62 @@ CREATE TABLE IF NOT EXISTS settings (
   facebook_url TEXT DEFAULT '',
   tiktok_url TEXT DEFAULT '',
   google_review_url TEXT DEFAULT '',
-  counter_as_admin BOOLEAN DEFAULT false,
   kitchen_handles INTEGER DEFAULT 3,
+  kitchen_stations JSONB DEFAULT '[]',
+  pre_orders_enabled BOOLEAN DEFAULT false,
+  pre_order_slot_minutes INTEGER DEFAULT 15,
+  pre_order_release_minutes INTEGER DEFAULT 20, -- Tickets reach the kitchen this long before pickup
+  pre_order_open_time TEXT DEFAULT '08:00', -- First and last pickup slots, Nepal time
+  pre_order_close_time TEXT DEFAULT '20:00',
   point_system_enabled BOOLEAN DEFAULT false,
   points_per_rupee DECIMAL DEFAULT 0.1,
   point_value_in_rupees DECIMAL DEFAULT 1,
   max_discount_rupees DECIMAL DEFAULT 500,
   max_discount_points INTEGER DEFAULT 500,
+  points_expiry_months INTEGER DEFAULT 0, -- 0 keeps points forever
+  loyalty_tiers JSONB DEFAULT '[]', -- [{ name, minSpent, multiplier }] by lifetime spend
+  loyalty_earn_rules JSONB DEFAULT '[]', -- [{ category, multiplier }] by menu category name
+  service_charge_enabled BOOLEAN DEFAULT false,
+  service_charge_rate DECIMAL DEFAULT 10,
+  vat_enabled BOOLEAN DEFAULT false,
+  vat_rate DECIMAL DEFAULT 13,
+  pan_number TEXT DEFAULT '',
+  delivery_fee DECIMAL DEFAULT 0,
+  delivery_riders JSONB DEFAULT '[]',
+  reservation_minutes INTEGER DEFAULT 90, -- How long a party keeps a table
+  reservation_hold_minutes INTEGER DEFAULT 30, -- Table is held this long before a booking
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Dining tables (number is what QR codes, orders and bills refer to)
+CREATE TABLE IF NOT EXISTS dining_tables (
+  number INTEGER PRIMARY KEY CHECK (number > 0),
+  name TEXT DEFAULT '',
+  area TEXT DEFAULT 'Indoor',
+  capacity INTEGER DEFAULT 4,
+  pos_x DECIMAL(5,2) DEFAULT 0, -- Floor plan position, percent of the area's width
+  pos_y DECIMAL(5,2) DEFAULT 0,
+  service_status TEXT, -- bill_requested | cleaning; occupancy comes from open orders
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Reservations table (bookings and the walk-in waitlist, see lib/reservations)
+CREATE TABLE IF NOT EXISTS reservations (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL DEFAULT '',
+  phone TEXT DEFAULT '',
+  party_size INTEGER NOT NULL CHECK (party_size > 0),
+  time TIMESTAMPTZ NOT NULL, -- Booked arrival; walk-ins: when they joined the waitlist
+  walk_in BOOLEAN DEFAULT false,
+  table_number INTEGER REFERENCES dining_tables(number) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'booked' CHECK (status IN ('booked', 'waiting', 'seated', 'no_show', 'cancelled')),
+  notes TEXT DEFAULT '',
+  seated_at TIMESTAMPTZ,
+  created_by TEXT DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 -- Expenses table
 CREATE TABLE IF NOT EXISTS expenses (
   id TEXT PRIMARY KEY,
@@ -143,6 +339,75 @@ CREATE TABLE IF NOT EXISTS expenses (
   description TEXT DEFAULT '',
   category TEXT NOT NULL,
   created_by TEXT DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  supplier_id TEXT, -- Set with goods_receipt_id on expenses posted from a goods receipt
+  goods_receipt_id TEXT
+);
+
+-- Ingredients table (stock only changes through stock_movements)
+CREATE TABLE IF NOT EXISTS ingredients (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  unit TEXT DEFAULT 'pcs',
+  stock DECIMAL(12,3) DEFAULT 0,
+  low_stock_level DECIMAL(12,3) DEFAULT 0,
+  cost_per_unit DECIMAL(10,4) DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Stock movements table (signed quantities; sales and waste are negative)
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id TEXT PRIMARY KEY,
+  ingredient_id TEXT NOT NULL REFERENCES ingredients(id) ON DELETE CASCADE,
+  type TEXT NOT NULL, -- sale | purchase | adjustment | waste
+  quantity DECIMAL(12,3) NOT NULL,
+  reference TEXT, -- Transaction behind a sale movement, or goods receipt behind a purchase
+  note TEXT DEFAULT '',
+  created_by TEXT DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Suppliers table
+CREATE TABLE IF NOT EXISTS suppliers (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  phone TEXT DEFAULT '',
+  contact_person TEXT DEFAULT '',
+  notes TEXT DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Purchase orders table (lines: [{ingredientId, qty, unitCost, receivedQty}])
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id TEXT PRIMARY KEY,
+  supplier_id TEXT NOT NULL REFERENCES suppliers(id),
+  status TEXT DEFAULT 'open', -- open | partial | received | cancelled
+  lines JSONB DEFAULT '[]',
+  note TEXT DEFAULT '',
+  created_by TEXT DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Goods receipts table (lines: [{ingredientId, qty, unitCost}]; no update/delete)
+CREATE TABLE IF NOT EXISTS goods_receipts (
+  id TEXT PRIMARY KEY,
+  supplier_id TEXT NOT NULL REFERENCES suppliers(id),
+  purchase_order_id TEXT REFERENCES purchase_orders(id),
+  lines JSONB DEFAULT '[]',
+  total DECIMAL(10,2) NOT NULL,
+  note TEXT DEFAULT '',
+  created_by TEXT DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Supplier payments table (settles what goods receipts put on the supplier's account)
+CREATE TABLE IF NOT EXISTS supplier_payments (
+  id TEXT PRIMARY KEY,
+  supplier_id TEXT NOT NULL REFERENCES suppliers(id),
+  amount DECIMAL(10,2) NOT NULL,
+  method TEXT DEFAULT 'cash', -- cash | bank | fonepay
+  note TEXT DEFAULT '',
+  created_by TEXT DEFAULT '',
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
@@ -167,6 +432,73 @@ CREATE TABLE IF NOT EXISTS payment_blocks (
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Register sessions table (till open/close with float, movements and blind count)
+CREATE TABLE IF NOT EXISTS register_sessions (
+  id TEXT PRIMARY KEY,
+  status TEXT DEFAULT 'open',
+  opening_float DECIMAL(10,2) DEFAULT 0,
+  opened_at TIMESTAMPTZ DEFAULT NOW(),
+  opened_by TEXT DEFAULT '',
+  movements JSONB DEFAULT '[]',
+  closed_at TIMESTAMPTZ,
+  closed_by TEXT,
+  denominations JSONB,
+  counted_cash DECIMAL(10,2),
+  expected_cash DECIMAL(10,2),
+  variance DECIMAL(10,2),
+  cash_payments DECIMAL(10,2),
+  fonepay_payments DECIMAL(10,2),
+  esewa_payments DECIMAL(10,2),
+  khalti_payments DECIMAL(10,2),
+  expense_total DECIMAL(10,2),
+  transaction_count INTEGER
+);
+
+-- Audit log (append-only trail of who changed what; see the AUDIT LOG section)
+CREATE TABLE IF NOT EXISTS audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  idempotency_key TEXT UNIQUE, -- Set by the client outbox so a replayed entry is written once
+  action TEXT NOT NULL,
+  entity_id TEXT DEFAULT '',
+  actor_id TEXT,
+  actor_name TEXT DEFAULT '',
+  before JSONB,
+  after JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- When each staff-only table last changed, without any of its rows (see CHANGE SIGNALS)
+CREATE TABLE IF NOT EXISTS data_changes (
+  table_name TEXT PRIMARY KEY,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Payment gateway accounts (secrets are write-only; see PAYMENT GATEWAYS)
+CREATE TABLE IF NOT EXISTS payment_gateways (
+  provider TEXT PRIMARY KEY CHECK (provider IN ('fonepay', 'esewa', 'khalti')),
+  enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  live BOOLEAN NOT NULL DEFAULT FALSE, -- false uses the gateway's test servers
+  merchant_code TEXT NOT NULL DEFAULT '', -- Fonepay merchant code, eSewa product code
+  username TEXT NOT NULL DEFAULT '', -- Fonepay API user
+  secret_key TEXT NOT NULL DEFAULT '',
+  password TEXT NOT NULL DEFAULT '', -- Fonepay API password
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One row per QR or checkout shown to a customer; id is the reference sent to the gateway
+CREATE TABLE IF NOT EXISTS gateway_payments (
+  id TEXT PRIMARY KEY,
+  provider TEXT NOT NULL,
+  amount DECIMAL(10,2) NOT NULL,
+  label TEXT DEFAULT '',
+  gateway_ref TEXT, -- Khalti pidx
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'failed')),
+  response JSONB, -- The gateway's final answer
+  created_by TEXT DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  verified_at TIMESTAMPTZ
+);
+
 -- ===========================================
 -- INDEXES for Performance
 -- ===========================================
@@ -178,18 +510,41 @@ CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status);
 CREATE INDEX IF NOT EXISTS idx_orders_table ON orders(table_number);
 CREATE INDEX IF NOT EXISTS idx_orders_phone ON orders(customer_phone);
 CREATE INDEX IF NOT EXISTS idx_orders_created ON orders(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_type ON orders(order_type);
+CREATE INDEX IF NOT EXISTS idx_orders_scheduled ON orders(scheduled_for) WHERE scheduled_for IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_bills_status ON bills(status);
 CREATE INDEX IF NOT EXISTS idx_bills_table ON bills(table_number);
+CREATE INDEX IF NOT EXISTS idx_bills_split_group ON bills(split_group_id);
 CREATE INDEX IF NOT EXISTS idx_bills_paid ON bills(paid_at DESC);
 CREATE INDEX IF NOT EXISTS idx_transactions_paid ON transactions(paid_at DESC);
 CREATE INDEX IF NOT EXISTS idx_transactions_table ON transactions(table_number);
+CREATE INDEX IF NOT EXISTS idx_transactions_refund_of ON transactions(refund_of);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_invoice ON transactions(fiscal_year, invoice_number);
 CREATE INDEX IF NOT EXISTS idx_customers_phone ON customers(phone);
 CREATE INDEX IF NOT EXISTS idx_customers_last_visit ON customers(last_visit DESC);
+CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_customer ON loyalty_ledger(customer_phone, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_transaction ON loyalty_ledger(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_account_payments_customer ON account_payments(customer_phone, created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_staff_username ON staff(username);
+CREATE INDEX IF NOT EXISTS idx_staff_sessions_staff ON staff_sessions(staff_id);
+CREATE INDEX IF NOT EXISTS idx_staff_pin_attempts_caller ON staff_pin_attempts(caller, attempted_at);
 CREATE INDEX IF NOT EXISTS idx_expenses_created ON expenses(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_expenses_category ON expenses(category);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_ingredient ON stock_movements(ingredient_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_created ON stock_movements(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON purchase_orders(supplier_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_goods_receipts_supplier ON goods_receipts(supplier_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_goods_receipts_order ON goods_receipts(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_payments_supplier ON supplier_payments(supplier_id, created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_waiter_calls_status ON waiter_calls(status);
 CREATE INDEX IF NOT EXISTS idx_waiter_calls_table ON waiter_calls(table_number);
+CREATE INDEX IF NOT EXISTS idx_register_sessions_status ON register_sessions(status);
+CREATE INDEX IF NOT EXISTS idx_register_sessions_opened ON register_sessions(opened_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_created ON audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_action ON audit_log(action);
+CREATE INDEX IF NOT EXISTS idx_gateway_payments_created ON gateway_payments(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reservations_time ON reservations(time);
+CREATE INDEX IF NOT EXISTS idx_reservations_phone ON reservations(phone);
 CREATE INDEX IF NOT EXISTS idx_payment_blocks_lookup ON payment_blocks(table_number, customer_phone, paid_at DESC);
 
 -- ===========================================
@@ -202,77 +557,239 @@ ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
 ALTER TABLE bills ENABLE ROW LEVEL SECURITY;
 ALTER TABLE transactions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE loyalty_ledger ENABLE ROW LEVEL SECURITY;
+ALTER TABLE account_payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promotions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE roles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE staff ENABLE ROW LEVEL SECURITY;
+ALTER TABLE staff_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE staff_pin_attempts ENABLE ROW LEVEL SECURITY;
 ALTER TABLE settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dining_tables ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reservations ENABLE ROW LEVEL SECURITY;
 ALTER TABLE expenses ENABLE ROW LEVEL SECURITY;
 ALTER TABLE waiter_calls ENABLE ROW LEVEL SECURITY;
 ALTER TABLE payment_blocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE register_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE data_changes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ingredients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE goods_receipts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE supplier_payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_gateways ENABLE ROW LEVEL SECURITY;
+ALTER TABLE gateway_payments ENABLE ROW LEVEL SECURITY;
+
+-- ===========================================
+-- STAFF CLAIMS (used by the policies below)
+-- ===========================================
+
+-- Staff devices send their session token in the x-staff-token header;
+-- customer devices only hold the anon key and never send one
+CREATE OR REPLACE FUNCTION request_staff_token()
+RETURNS TEXT AS $$
+  SELECT NULLIF(current_setting('request.headers', true), '')::json->>'x-staff-token';
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION is_staff_request()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM staff_sessions
+    WHERE token = request_staff_token() AND expires_at > NOW()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Permissions granted by a role; owners hold every permission
+CREATE OR REPLACE FUNCTION role_has_permission(p_role TEXT, p_permission TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT p_role = 'owner' OR COALESCE((SELECT permissions ? p_permission FROM roles WHERE id = p_role), FALSE);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION staff_has_permission(p_token TEXT, p_permission TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM staff_sessions ss
+    JOIN staff s ON s.id = ss.staff_id
+    WHERE ss.token = p_token AND ss.expires_at > NOW()
+      AND role_has_permission(s.role, p_permission)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION request_has_permission(p_permission TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT staff_has_permission(request_staff_token(), p_permission);
+$$ LANGUAGE sql STABLE;
+
+-- A customer may order for a real table until their bill is paid (see payment_blocks)
+CREATE OR REPLACE FUNCTION is_open_table_session(p_table_number INTEGER, p_customer_phone TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM dining_tables WHERE number = p_table_number)
+    AND COALESCE(p_customer_phone, '') <> ''
+    AND NOT EXISTS (
+      SELECT 1 FROM payment_blocks
+      WHERE table_number = p_table_number
+        AND customer_phone = p_customer_phone
+        AND paid_at > NOW() - INTERVAL '3 hours'
+        AND staff_override = FALSE
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
 
 -- ===========================================
 -- RLS POLICIES (Drop existing, then create)
 -- ===========================================
+-- Customers (anon key, no staff token) may read the menu, place pending orders
+-- and call a waiter; they see their own orders/bills through get_customer_orders
+-- and get_customer_bills. Everything else needs
+-- a staff session; menu and settings changes need an admin session.
 
 -- Categories
 DROP POLICY IF EXISTS "Public read categories" ON categories;
 DROP POLICY IF EXISTS "Public insert categories" ON categories;
 DROP POLICY IF EXISTS "Public update categories" ON categories;
 DROP POLICY IF EXISTS "Public delete categories" ON categories;
+DROP POLICY IF EXISTS "Admin insert categories" ON categories;
+DROP POLICY IF EXISTS "Menu editors insert categories" ON categories;
+DROP POLICY IF EXISTS "Admin update categories" ON categories;
+DROP POLICY IF EXISTS "Menu editors update categories" ON categories;
+DROP POLICY IF EXISTS "Admin delete categories" ON categories;
+DROP POLICY IF EXISTS "Menu editors delete categories" ON categories;
 
 CREATE POLICY "Public read categories" ON categories FOR SELECT USING (true);
-CREATE POLICY "Public insert categories" ON categories FOR INSERT WITH CHECK (true);
-CREATE POLICY "Public update categories" ON categories FOR UPDATE USING (true);
-CREATE POLICY "Public delete categories" ON categories FOR DELETE USING (true);
+CREATE POLICY "Menu editors insert categories" ON categories FOR INSERT WITH CHECK (request_has_permission('edit_menu'));
+CREATE POLICY "Menu editors update categories" ON categories FOR UPDATE USING (request_has_permission('edit_menu'));
+CREATE POLICY "Menu editors delete categories" ON categories FOR DELETE USING (request_has_permission('edit_menu'));
 
 -- Menu Items
 DROP POLICY IF EXISTS "Public read menu_items" ON menu_items;
 DROP POLICY IF EXISTS "Public insert menu_items" ON menu_items;
 DROP POLICY IF EXISTS "Public update menu_items" ON menu_items;
 DROP POLICY IF EXISTS "Public delete menu_items" ON menu_items;
+DROP POLICY IF EXISTS "Admin insert menu_items" ON menu_items;
+DROP POLICY IF EXISTS "Menu editors insert menu_items" ON menu_items;
+DROP POLICY IF EXISTS "Admin update menu_items" ON menu_items;
+DROP POLICY IF EXISTS "Menu editors update menu_items" ON menu_items;
+DROP POLICY IF EXISTS "Admin delete menu_items" ON menu_items;
+DROP POLICY IF EXISTS "Menu editors delete menu_items" ON menu_items;
 
 CREATE POLICY "Public read menu_items" ON menu_items FOR SELECT USING (true);
-CREATE POLICY "Public insert menu_items" ON menu_items FOR INSERT WITH CHECK (true);
-CREATE POLICY "Public update menu_items" ON menu_items FOR UPDATE USING (true);
-CREATE POLICY "Public delete menu_items" ON menu_items FOR DELETE USING (true);
+CREATE POLICY "Menu editors insert menu_items" ON menu_items FOR INSERT WITH CHECK (request_has_permission('edit_menu'));
+CREATE POLICY "Menu editors update menu_items" ON menu_items FOR UPDATE USING (request_has_permission('edit_menu'));
+CREATE POLICY "Menu editors delete menu_items" ON menu_items FOR DELETE USING (request_has_permission('edit_menu'));
 
--- Orders
+-- Orders (customer inserts are re-priced by price_customer_order; pre-orders
+-- are takeaway orders for a pickup slot, checked by check_pre_order_slot)
 DROP POLICY IF EXISTS "Public read orders" ON orders;
 DROP POLICY IF EXISTS "Public insert orders" ON orders;
 DROP POLICY IF EXISTS "Public update orders" ON orders;
 DROP POLICY IF EXISTS "Public delete orders" ON orders;
+DROP POLICY IF EXISTS "Staff read orders" ON orders;
+DROP POLICY IF EXISTS "Customer insert orders" ON orders;
+DROP POLICY IF EXISTS "Staff update orders" ON orders;
+DROP POLICY IF EXISTS "Staff delete orders" ON orders;
 
-CREATE POLICY "Public read orders" ON orders FOR SELECT USING (true);
-CREATE POLICY "Public insert orders" ON orders FOR INSERT WITH CHECK (true);
-CREATE POLICY "Public update orders" ON orders FOR UPDATE USING (true);
-CREATE POLICY "Public delete orders" ON orders FOR DELETE USING (true);
+CREATE POLICY "Staff read orders" ON orders FOR SELECT USING (is_staff_request());
+CREATE POLICY "Customer insert orders" ON orders FOR INSERT WITH CHECK (
+  is_staff_request() OR (
+    status = 'pending' AND order_type = 'dine_in' AND is_open_table_session(table_number, customer_phone)
+  ) OR (
+    status = 'pending' AND order_type = 'takeaway' AND scheduled_for IS NOT NULL
+    AND COALESCE(customer_phone, '') <> ''
+  )
+);
+-- The kitchen moves orders along through update_order_progress
+CREATE POLICY "Staff update orders" ON orders FOR UPDATE USING (request_has_permission('use_counter'));
+CREATE POLICY "Staff delete orders" ON orders FOR DELETE USING (request_has_permission('void_paid_bill'));
 
 -- Bills
 DROP POLICY IF EXISTS "Public read bills" ON bills;
 DROP POLICY IF EXISTS "Public insert bills" ON bills;
 DROP POLICY IF EXISTS "Public update bills" ON bills;
 DROP POLICY IF EXISTS "Public delete bills" ON bills;
+DROP POLICY IF EXISTS "Staff read bills" ON bills;
+DROP POLICY IF EXISTS "Staff insert bills" ON bills;
+DROP POLICY IF EXISTS "Staff update bills" ON bills;
+DROP POLICY IF EXISTS "Staff delete bills" ON bills;
 
-CREATE POLICY "Public read bills" ON bills FOR SELECT USING (true);
-CREATE POLICY "Public insert bills" ON bills FOR INSERT WITH CHECK (true);
-CREATE POLICY "Public update bills" ON bills FOR UPDATE USING (true);
-CREATE POLICY "Public delete bills" ON bills FOR DELETE USING (true);
+CREATE POLICY "Staff read bills" ON bills FOR SELECT USING (is_staff_request());
+CREATE POLICY "Staff insert bills" ON bills FOR INSERT WITH CHECK (request_has_permission('use_counter'));
+CREATE POLICY "Staff update bills" ON bills FOR UPDATE USING (
+  request_has_permission('use_counter') OR request_has_permission('take_payment')
+);
+CREATE POLICY "Staff delete bills" ON bills FOR DELETE USING (request_has_permission('void_paid_bill'));
 
 -- Transactions
 DROP POLICY IF EXISTS "Public read transactions" ON transactions;
 DROP POLICY IF EXISTS "Public insert transactions" ON transactions;
+DROP POLICY IF EXISTS "Staff read transactions" ON transactions;
+DROP POLICY IF EXISTS "Staff insert transactions" ON transactions;
+DROP POLICY IF EXISTS "Cashiers insert transactions" ON transactions;
 
-CREATE POLICY "Public read transactions" ON transactions FOR SELECT USING (true);
-CREATE POLICY "Public insert transactions" ON transactions FOR INSERT WITH CHECK (true);
+CREATE POLICY "Staff read transactions" ON transactions FOR SELECT USING (is_staff_request());
+-- Voids and refunds only go through correct_transaction, which checks the manager
+-- PIN, so a sale can't carry a negative total or tender to act as one
+CREATE POLICY "Cashiers insert transactions" ON transactions FOR INSERT WITH CHECK (
+  request_has_permission('take_payment') AND COALESCE(kind, 'sale') = 'sale'
+  AND total >= 0
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(payments, '[]'::jsonb)) p
+    WHERE COALESCE((p->>'amount')::DECIMAL, 0) < 0
+  )
+);
+
+-- No policies on invoice_sequences: only assign_invoice_number touches it
 
--- Customers
+-- Customers (customers see their own points through lookup_customer_loyalty)
 DROP POLICY IF EXISTS "Public read customers" ON customers;
 DROP POLICY IF EXISTS "Public insert customers" ON customers;
 DROP POLICY IF EXISTS "Public update customers" ON customers;
 DROP POLICY IF EXISTS "Public delete customers" ON customers;
+DROP POLICY IF EXISTS "Staff read customers" ON customers;
+DROP POLICY IF EXISTS "Staff insert customers" ON customers;
+DROP POLICY IF EXISTS "Staff update customers" ON customers;
+DROP POLICY IF EXISTS "Staff delete customers" ON customers;
+
+-- Sales add to customers through book_loyalty_points, so only the customer and
+-- account screens write here
+CREATE POLICY "Staff read customers" ON customers FOR SELECT USING (is_staff_request());
+CREATE POLICY "Staff insert customers" ON customers FOR INSERT WITH CHECK (
+  request_has_permission('view_customers') OR request_has_permission('manage_accounts')
+);
+CREATE POLICY "Staff update customers" ON customers FOR UPDATE USING (
+  request_has_permission('view_customers') OR request_has_permission('manage_accounts')
+);
+CREATE POLICY "Staff delete customers" ON customers FOR DELETE USING (
+  request_has_permission('view_customers') OR request_has_permission('manage_accounts')
+);
+
+-- Loyalty Ledger (entries come from book_loyalty_points, expire_loyalty_points
+-- and adjust_loyalty_points; customers see theirs through lookup_customer_loyalty)
+DROP POLICY IF EXISTS "Staff read loyalty_ledger" ON loyalty_ledger;
+
+CREATE POLICY "Staff read loyalty_ledger" ON loyalty_ledger FOR SELECT USING (is_staff_request());
 
-CREATE POLICY "Public read customers" ON customers FOR SELECT USING (true);
-CREATE POLICY "Public insert customers" ON customers FOR INSERT WITH CHECK (true);
-CREATE POLICY "Public update customers" ON customers FOR UPDATE USING (true);
-CREATE POLICY "Public delete customers" ON customers FOR DELETE USING (true);
+-- Account payments (the counter reads them to check a tab against its limit)
+DROP POLICY IF EXISTS "Staff read account_payments" ON account_payments;
+DROP POLICY IF EXISTS "Account managers insert account_payments" ON account_payments;
+
+CREATE POLICY "Staff read account_payments" ON account_payments FOR SELECT USING (is_staff_request());
+CREATE POLICY "Account managers insert account_payments" ON account_payments FOR INSERT WITH CHECK (request_has_permission('manage_accounts'));
+
+-- Promotions (customers see the automatic ones running now so their cart shows the
+-- offer; coupon codes stay with staff)
+DROP POLICY IF EXISTS "Public read promotions" ON promotions;
+DROP POLICY IF EXISTS "Promotion managers insert promotions" ON promotions;
+DROP POLICY IF EXISTS "Promotion managers update promotions" ON promotions;
+DROP POLICY IF EXISTS "Promotion managers delete promotions" ON promotions;
+
+CREATE POLICY "Public read promotions" ON promotions FOR SELECT USING (
+  is_staff_request() OR (active AND code IS NULL)
+);
+CREATE POLICY "Promotion managers insert promotions" ON promotions FOR INSERT WITH CHECK (request_has_permission('manage_promotions'));
+CREATE POLICY "Promotion managers update promotions" ON promotions FOR UPDATE USING (request_has_permission('manage_promotions'));
+CREATE POLICY "Promotion managers delete promotions" ON promotions FOR DELETE USING (request_has_permission('manage_promotions'));
 
 -- Staff
 DROP POLICY IF EXISTS "Public read staff" ON staff;
@@ -280,48 +797,178 @@ DROP POLICY IF EXISTS "Public insert staff" ON staff;
 DROP POLICY IF EXISTS "Public update staff" ON staff;
 DROP POLICY IF EXISTS "Public delete staff" ON staff;
 
-CREATE POLICY "Public read staff" ON staff FOR SELECT USING (true);
-CREATE POLICY "Public insert staff" ON staff FOR INSERT WITH CHECK (true);
-CREATE POLICY "Public update staff" ON staff FOR UPDATE USING (true);
-CREATE POLICY "Public delete staff" ON staff FOR DELETE USING (true);
+-- No policies on staff, staff_sessions or staff_pin_attempts: clients go through the staff_* functions below
+
+-- Roles (built-in roles can be re-configured but not deleted; the owner role is fixed)
+DROP POLICY IF EXISTS "Staff read roles" ON roles;
+DROP POLICY IF EXISTS "Staff managers insert roles" ON roles;
+DROP POLICY IF EXISTS "Staff managers update roles" ON roles;
+DROP POLICY IF EXISTS "Staff managers delete roles" ON roles;
+
+CREATE POLICY "Staff read roles" ON roles FOR SELECT USING (is_staff_request());
+CREATE POLICY "Staff managers insert roles" ON roles FOR INSERT WITH CHECK (request_has_permission('manage_staff'));
+CREATE POLICY "Staff managers update roles" ON roles FOR UPDATE USING (request_has_permission('manage_staff') AND id <> 'owner');
+CREATE POLICY "Staff managers delete roles" ON roles FOR DELETE USING (
+  request_has_permission('manage_staff') AND NOT built_in AND NOT EXISTS (SELECT 1 FROM staff WHERE staff.role = roles.id)
+);
 
 -- Settings
 DROP POLICY IF EXISTS "Public read settings" ON settings;
 DROP POLICY IF EXISTS "Public insert settings" ON settings;
 DROP POLICY IF EXISTS "Public update settings" ON settings;
+DROP POLICY IF EXISTS "Admin insert settings" ON settings;
+DROP POLICY IF EXISTS "Admin update settings" ON settings;
+DROP POLICY IF EXISTS "Settings managers insert settings" ON settings;
+DROP POLICY IF EXISTS "Settings managers update settings" ON settings;
 
 CREATE POLICY "Public read settings" ON settings FOR SELECT USING (true);
-CREATE POLICY "Public insert settings" ON settings FOR INSERT WITH CHECK (true);
-CREATE POLICY "Public update settings" ON settings FOR UPDATE USING (true);
+CREATE POLICY "Settings managers insert settings" ON settings FOR INSERT WITH CHECK (request_has_permission('manage_settings'));
+CREATE POLICY "Settings managers update settings" ON settings FOR UPDATE USING (request_has_permission('manage_settings'));
+
+-- Dining Tables (the layout is a setting; counters flag status through set_table_service_status)
+DROP POLICY IF EXISTS "Public read dining_tables" ON dining_tables;
+DROP POLICY IF EXISTS "Settings managers insert dining_tables" ON dining_tables;
+DROP POLICY IF EXISTS "Settings managers update dining_tables" ON dining_tables;
+DROP POLICY IF EXISTS "Settings managers delete dining_tables" ON dining_tables;
+
+CREATE POLICY "Public read dining_tables" ON dining_tables FOR SELECT USING (true);
+CREATE POLICY "Settings managers insert dining_tables" ON dining_tables FOR INSERT WITH CHECK (request_has_permission('manage_settings'));
+CREATE POLICY "Settings managers update dining_tables" ON dining_tables FOR UPDATE USING (request_has_permission('manage_settings'));
+CREATE POLICY "Settings managers delete dining_tables" ON dining_tables FOR DELETE USING (request_has_permission('manage_settings'));
+
+-- Reservations (names and phones, so staff only)
+DROP POLICY IF EXISTS "Staff read reservations" ON reservations;
+DROP POLICY IF EXISTS "Reservation managers insert reservations" ON reservations;
+DROP POLICY IF EXISTS "Reservation managers update reservations" ON reservations;
+
+CREATE POLICY "Staff read reservations" ON reservations FOR SELECT USING (is_staff_request());
+CREATE POLICY "Reservation managers insert reservations" ON reservations FOR INSERT WITH CHECK (request_has_permission('manage_reservations'));
+CREATE POLICY "Reservation managers update reservations" ON reservations FOR UPDATE USING (request_has_permission('manage_reservations'));
 
 -- Expenses
 DROP POLICY IF EXISTS "Public read expenses" ON expenses;
 DROP POLICY IF EXISTS "Public insert expenses" ON expenses;
 DROP POLICY IF EXISTS "Public delete expenses" ON expenses;
+DROP POLICY IF EXISTS "Staff read expenses" ON expenses;
+DROP POLICY IF EXISTS "Staff insert expenses" ON expenses;
+DROP POLICY IF EXISTS "Staff delete expenses" ON expenses;
+
+CREATE POLICY "Staff read expenses" ON expenses FOR SELECT USING (is_staff_request());
+-- Goods receipt expenses are only written by post_goods_receipt and stay with their receipt
+CREATE POLICY "Staff insert expenses" ON expenses FOR INSERT WITH CHECK (
+  request_has_permission('record_expense') AND goods_receipt_id IS NULL
+);
+CREATE POLICY "Staff delete expenses" ON expenses FOR DELETE USING (
+  request_has_permission('delete_expense') AND goods_receipt_id IS NULL
+);
+
+-- Ingredients (stock itself only changes through stock movements)
+DROP POLICY IF EXISTS "Staff read ingredients" ON ingredients;
+DROP POLICY IF EXISTS "Inventory managers insert ingredients" ON ingredients;
+DROP POLICY IF EXISTS "Inventory managers update ingredients" ON ingredients;
+DROP POLICY IF EXISTS "Inventory managers delete ingredients" ON ingredients;
+
+CREATE POLICY "Staff read ingredients" ON ingredients FOR SELECT USING (is_staff_request());
+CREATE POLICY "Inventory managers insert ingredients" ON ingredients FOR INSERT WITH CHECK (request_has_permission('manage_inventory'));
+CREATE POLICY "Inventory managers update ingredients" ON ingredients FOR UPDATE USING (request_has_permission('manage_inventory'));
+CREATE POLICY "Inventory managers delete ingredients" ON ingredients FOR DELETE USING (request_has_permission('manage_inventory'));
+
+-- Stock Movements (no update/delete; sale movements come from deduct_recipe_stock)
+DROP POLICY IF EXISTS "Staff read stock_movements" ON stock_movements;
+DROP POLICY IF EXISTS "Inventory managers insert stock_movements" ON stock_movements;
+
+CREATE POLICY "Staff read stock_movements" ON stock_movements FOR SELECT USING (is_staff_request());
+CREATE POLICY "Inventory managers insert stock_movements" ON stock_movements FOR INSERT WITH CHECK (
+  request_has_permission('manage_inventory') AND type IN ('purchase', 'adjustment', 'waste')
+);
+
+-- Suppliers, Purchase Orders, Goods Receipts and Supplier Payments
+-- (receipts and payments are never edited; corrections go through a new entry)
+DROP POLICY IF EXISTS "Purchasing read suppliers" ON suppliers;
+DROP POLICY IF EXISTS "Purchasing insert suppliers" ON suppliers;
+DROP POLICY IF EXISTS "Purchasing update suppliers" ON suppliers;
+DROP POLICY IF EXISTS "Purchasing delete suppliers" ON suppliers;
+DROP POLICY IF EXISTS "Purchasing read purchase_orders" ON purchase_orders;
+DROP POLICY IF EXISTS "Purchasing insert purchase_orders" ON purchase_orders;
+DROP POLICY IF EXISTS "Purchasing update purchase_orders" ON purchase_orders;
+DROP POLICY IF EXISTS "Purchasing read goods_receipts" ON goods_receipts;
+DROP POLICY IF EXISTS "Purchasing insert goods_receipts" ON goods_receipts;
+DROP POLICY IF EXISTS "Purchasing read supplier_payments" ON supplier_payments;
+DROP POLICY IF EXISTS "Purchasing insert supplier_payments" ON supplier_payments;
 
-CREATE POLICY "Public read expenses" ON expenses FOR SELECT USING (true);
-CREATE POLICY "Public insert expenses" ON expenses FOR INSERT WITH CHECK (true);
-CREATE POLICY "Public delete expenses" ON expenses FOR DELETE USING (true);
+CREATE POLICY "Purchasing read suppliers" ON suppliers FOR SELECT USING (request_has_permission('manage_purchasing'));
+CREATE POLICY "Purchasing insert suppliers" ON suppliers FOR INSERT WITH CHECK (request_has_permission('manage_purchasing'));
+CREATE POLICY "Purchasing update suppliers" ON suppliers FOR UPDATE USING (request_has_permission('manage_purchasing'));
+CREATE POLICY "Purchasing delete suppliers" ON suppliers FOR DELETE USING (request_has_permission('manage_purchasing'));
+CREATE POLICY "Purchasing read purchase_orders" ON purchase_orders FOR SELECT USING (request_has_permission('manage_purchasing'));
+CREATE POLICY "Purchasing insert purchase_orders" ON purchase_orders FOR INSERT WITH CHECK (request_has_permission('manage_purchasing'));
+CREATE POLICY "Purchasing update purchase_orders" ON purchase_orders FOR UPDATE USING (request_has_permission('manage_purchasing'));
+CREATE POLICY "Purchasing read goods_receipts" ON goods_receipts FOR SELECT USING (request_has_permission('manage_purchasing'));
+CREATE POLICY "Purchasing insert goods_receipts" ON goods_receipts FOR INSERT WITH CHECK (request_has_permission('manage_purchasing'));
+CREATE POLICY "Purchasing read supplier_payments" ON supplier_payments FOR SELECT USING (request_has_permission('manage_purchasing'));
+CREATE POLICY "Purchasing insert supplier_payments" ON supplier_payments FOR INSERT WITH CHECK (request_has_permission('manage_purchasing'));
 
 -- Waiter Calls
 DROP POLICY IF EXISTS "Public read waiter_calls" ON waiter_calls;
 DROP POLICY IF EXISTS "Public insert waiter_calls" ON waiter_calls;
 DROP POLICY IF EXISTS "Public update waiter_calls" ON waiter_calls;
 DROP POLICY IF EXISTS "Public delete waiter_calls" ON waiter_calls;
+DROP POLICY IF EXISTS "Customer insert waiter_calls" ON waiter_calls;
+DROP POLICY IF EXISTS "Staff update waiter_calls" ON waiter_calls;
+DROP POLICY IF EXISTS "Staff delete waiter_calls" ON waiter_calls;
+DROP POLICY IF EXISTS "Staff read waiter_calls" ON waiter_calls;
 
-CREATE POLICY "Public read waiter_calls" ON waiter_calls FOR SELECT USING (true);
-CREATE POLICY "Public insert waiter_calls" ON waiter_calls FOR INSERT WITH CHECK (true);
-CREATE POLICY "Public update waiter_calls" ON waiter_calls FOR UPDATE USING (true);
-CREATE POLICY "Public delete waiter_calls" ON waiter_calls FOR DELETE USING (true);
+-- Customers see their table's calls, without phones, through get_table_waiter_calls
+CREATE POLICY "Staff read waiter_calls" ON waiter_calls FOR SELECT USING (is_staff_request());
+CREATE POLICY "Customer insert waiter_calls" ON waiter_calls FOR INSERT WITH CHECK (
+  is_staff_request() OR (status = 'pending' AND is_open_table_session(table_number, customer_phone))
+);
+CREATE POLICY "Staff update waiter_calls" ON waiter_calls FOR UPDATE USING (is_staff_request());
+CREATE POLICY "Staff delete waiter_calls" ON waiter_calls FOR DELETE USING (is_staff_request());
 
--- Payment Blocks
+-- Payment Blocks (customers check and override through the functions below)
 DROP POLICY IF EXISTS "Public read payment_blocks" ON payment_blocks;
 DROP POLICY IF EXISTS "Public insert payment_blocks" ON payment_blocks;
 DROP POLICY IF EXISTS "Public update payment_blocks" ON payment_blocks;
+DROP POLICY IF EXISTS "Staff read payment_blocks" ON payment_blocks;
+DROP POLICY IF EXISTS "Staff insert payment_blocks" ON payment_blocks;
+DROP POLICY IF EXISTS "Staff update payment_blocks" ON payment_blocks;
+
+CREATE POLICY "Staff read payment_blocks" ON payment_blocks FOR SELECT USING (is_staff_request());
+CREATE POLICY "Staff insert payment_blocks" ON payment_blocks FOR INSERT WITH CHECK (is_staff_request());
+CREATE POLICY "Staff update payment_blocks" ON payment_blocks FOR UPDATE USING (is_staff_request());
+
+-- Register Sessions (counters hear about changes through data_changes)
+DROP POLICY IF EXISTS "Public read register_sessions" ON register_sessions;
+DROP POLICY IF EXISTS "Public insert register_sessions" ON register_sessions;
+DROP POLICY IF EXISTS "Public update register_sessions" ON register_sessions;
+DROP POLICY IF EXISTS "Staff read register_sessions" ON register_sessions;
+DROP POLICY IF EXISTS "Staff insert register_sessions" ON register_sessions;
+DROP POLICY IF EXISTS "Staff update register_sessions" ON register_sessions;
+
+CREATE POLICY "Staff read register_sessions" ON register_sessions FOR SELECT USING (is_staff_request());
+CREATE POLICY "Staff insert register_sessions" ON register_sessions FOR INSERT WITH CHECK (request_has_permission('manage_register'));
+CREATE POLICY "Staff update register_sessions" ON register_sessions FOR UPDATE USING (request_has_permission('manage_register'));
+
+-- Payment gateways: no policies, so their secrets stay in the database.
+-- Gateway payments are written only by the PAYMENT GATEWAYS functions
+DROP POLICY IF EXISTS "Staff read gateway_payments" ON gateway_payments;
+
+CREATE POLICY "Staff read gateway_payments" ON gateway_payments FOR SELECT USING (is_staff_request());
+
+-- Audit Log (no update/delete policies; customers may only log their own orders and calls)
+DROP POLICY IF EXISTS "Staff read audit_log" ON audit_log;
+DROP POLICY IF EXISTS "Append audit_log" ON audit_log;
+
+CREATE POLICY "Staff read audit_log" ON audit_log FOR SELECT USING (request_has_permission('view_audit_log'));
+CREATE POLICY "Append audit_log" ON audit_log FOR INSERT WITH CHECK (
+  is_staff_request() OR action IN ('order.create', 'order.cancel', 'waiter.call')
+);
+
+-- Data Changes (no write policies; only signal_data_change writes it)
+DROP POLICY IF EXISTS "Public read data_changes" ON data_changes;
 
-CREATE POLICY "Public read payment_blocks" ON payment_blocks FOR SELECT USING (true);
-CREATE POLICY "Public insert payment_blocks" ON payment_blocks FOR INSERT WITH CHECK (true);
-CREATE POLICY "Public update payment_blocks" ON payment_blocks FOR UPDATE USING (true);
+CREATE POLICY "Public read data_changes" ON data_changes FOR SELECT USING (true);
 
 -- ===========================================
 -- REALTIME SUBSCRIPTIONS
@@ -350,6 +997,41 @@ BEGIN
   ) THEN
     ALTER PUBLICATION supabase_realtime ADD TABLE bills;
   END IF;
+  
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables 
+    WHERE pubname = 'supabase_realtime' AND tablename = 'register_sessions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE register_sessions;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables 
+    WHERE pubname = 'supabase_realtime' AND tablename = 'dining_tables'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE dining_tables;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables 
+    WHERE pubname = 'supabase_realtime' AND tablename = 'promotions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE promotions;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables 
+    WHERE pubname = 'supabase_realtime' AND tablename = 'reservations'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE reservations;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables 
+    WHERE pubname = 'supabase_realtime' AND tablename = 'data_changes'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE data_changes;
+  END IF;
 END $$;
 
 -- ===========================================
@@ -391,6 +1073,9 @@ RETURNS INTEGER AS $$
 DECLARE
   new_id INTEGER;
 BEGIN
+  IF NOT is_staff_request() THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = '42501';
+  END IF;
   INSERT INTO payment_blocks (table_number, customer_phone, paid_at)
   VALUES (p_table_number, p_customer_phone, NOW())
   RETURNING id INTO new_id;
@@ -398,12 +1083,34 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
--- Function to override a payment block (staff confirmation)
-CREATE OR REPLACE FUNCTION override_payment_block(p_block_id INTEGER)
+-- Function to override a payment block (staff confirmation with PIN)
+-- The approver is the signed-in staff member or, on a customer device, the PIN owner
+DROP FUNCTION IF EXISTS override_payment_block(INTEGER);
+CREATE OR REPLACE FUNCTION override_payment_block(p_block_id INTEGER, p_pin TEXT)
 RETURNS BOOLEAN AS $$
+DECLARE
+  v_approver_id TEXT;
+  v_approver_name TEXT;
 BEGIN
+  IF request_has_permission('override_payment_block') THEN
+    SELECT s.id, s.name INTO v_approver_id, v_approver_name FROM staff_session_staff(request_staff_token()) s;
+  ELSE
+    SELECT a.id, a.name INTO v_approver_id, v_approver_name FROM staff_by_pin(p_pin, 'override_payment_block') a;
+  END IF;
+  IF v_approver_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
   UPDATE payment_blocks SET staff_override = TRUE, override_at = NOW() WHERE id = p_block_id;
-  RETURN FOUND;
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO audit_log (action, entity_id, actor_id, actor_name, after)
+  SELECT 'payment_block.override', p_block_id::TEXT, v_approver_id, v_approver_name,
+    jsonb_build_object('tableNumber', pb.table_number, 'customerPhone', pb.customer_phone)
+  FROM payment_blocks pb WHERE pb.id = p_block_id;
+  RETURN TRUE;
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
@@ -420,10 +1127,1623 @@ END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
 -- ===========================================
--- DEFAULT DATA
+-- BILL CORRECTIONS (voids and refunds)
 -- ===========================================
 
--- Insert default settings if not exists
-INSERT INTO settings (restaurant_name, table_count)
-VALUES ('Chiyadani', 10)
-ON CONFLICT DO NOTHING;
+-- Void or partly refund one of today's sales with a manager PIN and a reason.
+-- Writes the negative compensating transaction and reopens the bill on a void;
+-- book_loyalty_points takes back the loyalty points the sale earned.
+-- Returns the approving manager's name, or NULL for a wrong PIN (so the failed
+-- attempt is kept for staff_by_pin's lockout rather than rolled back).
+CREATE OR REPLACE FUNCTION correct_transaction(
+  p_id TEXT,
+  p_sale_id TEXT,
+  p_kind TEXT,
+  p_amount DECIMAL,
+  p_payments JSONB,
+  p_items JSONB,
+  p_reason TEXT,
+  p_pin TEXT
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_approver_name TEXT;
+  v_sale transactions;
+  v_reversed DECIMAL(10,2);
+  v_phone_count INTEGER;
+BEGIN
+  IF NOT is_staff_request() THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = '42501';
+  END IF;
+  SELECT a.name INTO v_approver_name FROM staff_by_pin(p_pin, 'void_paid_bill') a;
+  IF v_approver_name IS NULL THEN
+    RETURN NULL;
+  END IF;
+  IF p_kind NOT IN ('void', 'refund') OR COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  SELECT * INTO v_sale FROM transactions WHERE id = p_sale_id AND COALESCE(kind, 'sale') = 'sale' FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale not found';
+  END IF;
+  IF (v_sale.paid_at AT TIME ZONE 'Asia/Kathmandu')::DATE <> (NOW() AT TIME ZONE 'Asia/Kathmandu')::DATE THEN
+    RAISE EXCEPTION 'Only today''s sales can be voided or refunded';
+  END IF;
+
+  SELECT COALESCE(-SUM(total), 0) INTO v_reversed FROM transactions WHERE refund_of = p_sale_id;
+  IF p_kind = 'void' AND (v_reversed > 0 OR p_amount <> v_sale.total) THEN
+    RAISE EXCEPTION 'This sale was already refunded; refund the remainder instead';
+  END IF;
+  IF p_amount <= 0 OR p_amount > v_sale.total - v_reversed THEN
+    RAISE EXCEPTION 'Refund is more than what is left on the sale';
+  END IF;
+  IF (SELECT COALESCE(SUM((p->>'amount')::DECIMAL), 0) FROM jsonb_array_elements(p_payments) p) <> -p_amount THEN
+    RAISE EXCEPTION 'Refund tenders must add up to the refund amount';
+  END IF;
+
+  INSERT INTO transactions (
+    id, bill_id, table_number, customer_phones, total, discount, payment_method, payments,
+    paid_at, items, split_group_id, split_label, item_share, kind, refund_of, reason, approved_by,
+    order_type, service_charge, delivery_fee, taxable_amount, non_taxable_amount, vat
+  )
+  SELECT p_id, v_sale.bill_id, v_sale.table_number, v_sale.customer_phones, -p_amount, 0,
+    CASE WHEN COUNT(DISTINCT p->>'method') = 1 THEN MIN(p->>'method') ELSE 'mixed' END,
+    p_payments, NOW(), p_items, v_sale.split_group_id, v_sale.split_label, v_sale.item_share,
+    p_kind, p_sale_id, trim(p_reason), v_approver_name, v_sale.order_type,
+    -- The refunded share of the sale's service charge, delivery fee and VAT
+    ROUND(-v_sale.service_charge * p_amount / v_sale.total, 2),
+    ROUND(-v_sale.delivery_fee * p_amount / v_sale.total, 2),
+    ROUND(-v_sale.taxable_amount * p_amount / v_sale.total, 2),
+    ROUND(-v_sale.non_taxable_amount * p_amount / v_sale.total, 2),
+    ROUND(-v_sale.vat * p_amount / v_sale.total, 2)
+  FROM jsonb_array_elements(p_payments) p;
+
+  -- A voided sub-bill goes back to unpaid so the rest of its split stays intact
+  IF p_kind = 'void' THEN
+    UPDATE bills SET
+      status = CASE WHEN split_group_id IS NULL THEN 'voided' ELSE 'unpaid' END,
+      payment_method = CASE WHEN split_group_id IS NULL THEN payment_method END,
+      payments = CASE WHEN split_group_id IS NULL THEN payments ELSE '[]'::jsonb END,
+      paid_at = CASE WHEN split_group_id IS NULL THEN paid_at END
+    WHERE id = v_sale.bill_id;
+  END IF;
+
+  -- Mirrors book_loyalty_points: each phone's spend went up by its share of the sale
+  v_phone_count := jsonb_array_length(COALESCE(v_sale.customer_phones, '[]'::jsonb));
+  IF v_phone_count > 0 THEN
+    UPDATE customers SET
+      total_spent = total_spent - p_amount / v_phone_count,
+      total_orders = GREATEST(0, total_orders - CASE WHEN p_kind = 'void' THEN 1 ELSE 0 END)
+    WHERE phone IN (SELECT jsonb_array_elements_text(v_sale.customer_phones));
+  END IF;
+
+  RETURN v_approver_name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ===========================================
+-- DINING TABLES
+-- ===========================================
+
+-- Counter staff flag a table as waiting on its bill or needing cleaning
+-- (NULL clears the flag) without being able to edit the floor plan
+CREATE OR REPLACE FUNCTION set_table_service_status(p_table_number INTEGER, p_status TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT request_has_permission('use_counter') THEN
+    RAISE EXCEPTION 'Not allowed to change table status';
+  END IF;
+  IF p_status IS NOT NULL AND p_status NOT IN ('bill_requested', 'cleaning') THEN
+    RAISE EXCEPTION 'Unknown table status %', p_status;
+  END IF;
+  UPDATE dining_tables SET service_status = p_status WHERE number = p_table_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Transfer or merge: a table's open orders and unpaid bills move together, so
+-- the counter never sees orders on one table and their bill on another.
+-- Runs as the caller, so the usual staff policies on orders and bills apply.
+CREATE OR REPLACE FUNCTION move_table_orders(p_order_ids TEXT[], p_bill_ids TEXT[], p_table_number INTEGER)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT request_has_permission('use_counter') THEN
+    RAISE EXCEPTION 'Not allowed to move tables';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM dining_tables WHERE number = p_table_number) THEN
+    RAISE EXCEPTION 'Unknown table %', p_table_number;
+  END IF;
+
+  UPDATE orders SET table_number = p_table_number, updated_at = NOW()
+  WHERE id = ANY(p_order_ids);
+
+  UPDATE bills
+  SET table_number = p_table_number,
+      orders = (
+        SELECT COALESCE(jsonb_agg(o || jsonb_build_object('tableNumber', p_table_number)), '[]'::JSONB)
+        FROM jsonb_array_elements(bills.orders) AS o
+      )
+  WHERE id = ANY(p_bill_ids) AND status = 'unpaid';
+END;
+$$ LANGUAGE plpgsql;
+
+-- A reserved or waitlisted party only goes on a table that seats them
+CREATE OR REPLACE FUNCTION check_reservation_table()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.table_number IS NOT NULL AND NEW.status IN ('booked', 'waiting', 'seated') AND EXISTS (
+    SELECT 1 FROM dining_tables WHERE number = NEW.table_number AND capacity < NEW.party_size
+  ) THEN
+    RAISE EXCEPTION 'Table % seats fewer than % guests', NEW.table_number, NEW.party_size;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_reservation_table_trigger ON reservations;
+CREATE TRIGGER check_reservation_table_trigger
+BEFORE INSERT OR UPDATE ON reservations
+FOR EACH ROW EXECUTE FUNCTION check_reservation_table();
+
+-- ===========================================
+-- CONCURRENCY
+-- ===========================================
+
+-- Devices update orders and bills with the version they last saw
+-- (.eq('version', n)), so a change made elsewhere in the meantime makes
+-- theirs match no row instead of silently overwriting it
+CREATE OR REPLACE FUNCTION bump_row_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.version := OLD.version + 1;
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bump_order_version_trigger ON orders;
+CREATE TRIGGER bump_order_version_trigger
+BEFORE UPDATE ON orders
+FOR EACH ROW EXECUTE FUNCTION bump_row_version();
+
+DROP TRIGGER IF EXISTS bump_bill_version_trigger ON bills;
+CREATE TRIGGER bump_bill_version_trigger
+BEFORE UPDATE ON bills
+FOR EACH ROW EXECUTE FUNCTION bump_row_version();
+
+-- Order status only moves forward (same rules as canTransitionOrder in the app),
+-- so a late write from an offline device can't reopen a served or cancelled order.
+-- SW409 is the code the app treats as "lost to a newer change"
+CREATE OR REPLACE FUNCTION check_order_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+  IF NOT (
+    (OLD.status = 'pending' AND NEW.status IN ('accepted', 'cancelled')) OR
+    (OLD.status = 'accepted' AND NEW.status IN ('preparing', 'ready', 'served', 'cancelled')) OR
+    (OLD.status = 'preparing' AND NEW.status IN ('ready', 'served', 'cancelled')) OR
+    (OLD.status = 'ready' AND NEW.status IN ('served', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'Order % is already %', OLD.id, OLD.status USING ERRCODE = 'SW409';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_order_status_transition_trigger ON orders;
+CREATE TRIGGER check_order_status_transition_trigger
+BEFORE UPDATE OF status ON orders
+FOR EACH ROW EXECUTE FUNCTION check_order_status_transition();
+
+-- Order status and per-line kitchen progress, for the counter and the kitchen.
+-- Other order changes need the counter (see "Staff update orders"), so the
+-- kitchen can't touch what was ordered, only how far along it is. p_items NULL
+-- leaves the lines as they are; p_version NULL skips the version check
+CREATE OR REPLACE FUNCTION update_order_progress(p_id TEXT, p_status TEXT, p_items JSONB, p_version INTEGER)
+RETURNS SETOF orders AS $$
+BEGIN
+  IF NOT (request_has_permission('use_counter') OR request_has_permission('use_kitchen')) THEN
+    RAISE EXCEPTION 'Not allowed to update orders' USING ERRCODE = '42501';
+  END IF;
+  IF p_items IS NOT NULL AND NOT request_has_permission('use_counter') AND EXISTS (
+    SELECT 1 FROM orders o
+    WHERE o.id = p_id AND (
+      SELECT jsonb_agg(i - 'status' - 'startedAt' - 'readyAt' - 'servedAt') FROM jsonb_array_elements(p_items) i
+    ) IS DISTINCT FROM (
+      SELECT jsonb_agg(i - 'status' - 'startedAt' - 'readyAt' - 'servedAt') FROM jsonb_array_elements(o.items) i
+    )
+  ) THEN
+    RAISE EXCEPTION 'The kitchen can only change item progress' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  UPDATE orders SET status = p_status, items = COALESCE(p_items, items)
+  WHERE id = p_id AND (p_version IS NULL OR version = p_version)
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ===========================================
+-- CHANGE SIGNALS
+-- ===========================================
+
+-- Realtime checks RLS with the anon key, which never carries the staff token,
+-- so it can't deliver rows from staff-only tables. Writes to them bump a row in
+-- data_changes instead; devices subscribe to that and reload through the API
+CREATE OR REPLACE FUNCTION signal_data_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO data_changes (table_name, changed_at) VALUES (TG_TABLE_NAME, NOW())
+  ON CONFLICT (table_name) DO UPDATE SET changed_at = NOW();
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS signal_orders_change_trigger ON orders;
+CREATE TRIGGER signal_orders_change_trigger
+AFTER INSERT OR UPDATE OR DELETE ON orders
+FOR EACH STATEMENT EXECUTE FUNCTION signal_data_change();
+
+DROP TRIGGER IF EXISTS signal_bills_change_trigger ON bills;
+CREATE TRIGGER signal_bills_change_trigger
+AFTER INSERT OR UPDATE OR DELETE ON bills
+FOR EACH STATEMENT EXECUTE FUNCTION signal_data_change();
+
+DROP TRIGGER IF EXISTS signal_register_sessions_change_trigger ON register_sessions;
+CREATE TRIGGER signal_register_sessions_change_trigger
+AFTER INSERT OR UPDATE OR DELETE ON register_sessions
+FOR EACH STATEMENT EXECUTE FUNCTION signal_data_change();
+
+DROP TRIGGER IF EXISTS signal_reservations_change_trigger ON reservations;
+CREATE TRIGGER signal_reservations_change_trigger
+AFTER INSERT OR UPDATE OR DELETE ON reservations
+FOR EACH STATEMENT EXECUTE FUNCTION signal_data_change();
+
+DROP TRIGGER IF EXISTS signal_waiter_calls_change_trigger ON waiter_calls;
+CREATE TRIGGER signal_waiter_calls_change_trigger
+AFTER INSERT OR UPDATE OR DELETE ON waiter_calls
+FOR EACH STATEMENT EXECUTE FUNCTION signal_data_change();
+
+-- ===========================================
+-- TAX INVOICES
+-- ===========================================
+
+-- Sales are numbered per fiscal year as they are inserted. The counter row is
+-- locked until the insert commits and rolls back with it, so numbers never
+-- skip or repeat. Voids and refunds don't take a number.
+CREATE OR REPLACE FUNCTION assign_invoice_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(NEW.kind, 'sale') <> 'sale' THEN
+    NEW.invoice_number := NULL;
+    RETURN NEW;
+  END IF;
+  IF COALESCE(NEW.fiscal_year, '') = '' THEN
+    RAISE EXCEPTION 'Fiscal year is required on a sale';
+  END IF;
+
+  INSERT INTO invoice_sequences (fiscal_year, last_number) VALUES (NEW.fiscal_year, 1)
+  ON CONFLICT (fiscal_year) DO UPDATE SET last_number = invoice_sequences.last_number + 1
+  RETURNING last_number INTO NEW.invoice_number;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS assign_invoice_number_trigger ON transactions;
+CREATE TRIGGER assign_invoice_number_trigger
+BEFORE INSERT ON transactions
+FOR EACH ROW EXECUTE FUNCTION assign_invoice_number();
+
+-- ===========================================
+-- INVENTORY
+-- ===========================================
+
+-- Every movement is added to the ingredient's stock in the same transaction,
+-- so stock always equals the sum of its movements. Items that can no longer be
+-- made with what's left come off the menu here (getSoldOutItems in the app),
+-- since the cashier whose sale ran them out can't edit the menu
+CREATE OR REPLACE FUNCTION apply_stock_movement()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE ingredients SET stock = stock + NEW.quantity WHERE id = NEW.ingredient_id;
+  IF NEW.quantity < 0 THEN
+    UPDATE menu_items m SET available = false
+    WHERE m.available AND EXISTS (
+      SELECT 1 FROM jsonb_array_elements(COALESCE(m.recipe, '[]')) AS line
+      JOIN ingredients i ON i.id = line->>'ingredientId'
+      WHERE i.id = NEW.ingredient_id AND i.stock < (line->>'qty')::DECIMAL
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS apply_stock_movement_trigger ON stock_movements;
+CREATE TRIGGER apply_stock_movement_trigger
+AFTER INSERT ON stock_movements
+FOR EACH ROW EXECUTE FUNCTION apply_stock_movement();
+
+-- Direct writes can't set stock; only apply_stock_movement (a nested trigger) can
+CREATE OR REPLACE FUNCTION protect_ingredient_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() = 1 THEN
+    NEW.stock := CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE OLD.stock END;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_ingredient_stock_trigger ON ingredients;
+CREATE TRIGGER protect_ingredient_stock_trigger
+BEFORE INSERT OR UPDATE ON ingredients
+FOR EACH ROW EXECUTE FUNCTION protect_ingredient_stock();
+
+-- Sales take their recipes' ingredients out of stock (scaled for amount-split
+-- sub-bills). Voids carry negative quantities and put the stock back; refunds
+-- don't, since the food was made.
+CREATE OR REPLACE FUNCTION deduct_recipe_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(NEW.kind, 'sale') = 'refund' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO stock_movements (id, ingredient_id, type, quantity, reference, created_by)
+  SELECT gen_random_uuid()::TEXT, usage.ingredient_id, 'sale', -usage.quantity, NEW.id, 'system'
+  FROM (
+    SELECT line->>'ingredientId' AS ingredient_id,
+           SUM((item->>'qty')::DECIMAL * (line->>'qty')::DECIMAL) * COALESCE(NEW.item_share, 1) AS quantity
+    FROM jsonb_array_elements(COALESCE(NEW.items, '[]')) AS item
+    JOIN menu_items m ON m.id = item->>'menuItemId'
+    CROSS JOIN jsonb_array_elements(COALESCE(m.recipe, '[]')) AS line
+    GROUP BY line->>'ingredientId'
+  ) usage
+  JOIN ingredients i ON i.id = usage.ingredient_id
+  WHERE usage.quantity <> 0;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS deduct_recipe_stock_trigger ON transactions;
+CREATE TRIGGER deduct_recipe_stock_trigger
+AFTER INSERT ON transactions
+FOR EACH ROW EXECUTE FUNCTION deduct_recipe_stock();
+
+-- ===========================================
+-- PURCHASING
+-- ===========================================
+
+-- Posting a goods receipt adds its lines to stock, books the expense (owed to
+-- the supplier until paid) and counts the lines as received on the order
+CREATE OR REPLACE FUNCTION post_goods_receipt()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO stock_movements (id, ingredient_id, type, quantity, reference, note, created_by)
+  SELECT gen_random_uuid()::TEXT, line->>'ingredientId', 'purchase', (line->>'qty')::DECIMAL, NEW.id, 'Goods received', NEW.created_by
+  FROM jsonb_array_elements(COALESCE(NEW.lines, '[]')) AS line
+  JOIN ingredients i ON i.id = line->>'ingredientId'
+  WHERE (line->>'qty')::DECIMAL > 0;
+
+  INSERT INTO expenses (id, amount, description, category, created_by, created_at, supplier_id, goods_receipt_id)
+  SELECT 'grn-' || NEW.id, NEW.total, 'Goods received from ' || s.name, 'ingredients',
+         NEW.created_by, NEW.created_at, NEW.supplier_id, NEW.id
+  FROM suppliers s
+  WHERE s.id = NEW.supplier_id;
+
+  IF NEW.purchase_order_id IS NOT NULL THEN
+    UPDATE purchase_orders po
+    SET lines = updated.lines,
+        status = CASE WHEN updated.complete THEN 'received' ELSE 'partial' END
+    FROM (
+      SELECT jsonb_agg(
+               ol.line || jsonb_build_object('receivedQty', COALESCE((ol.line->>'receivedQty')::DECIMAL, 0) + COALESCE(r.qty, 0))
+               ORDER BY ol.idx
+             ) AS lines,
+             bool_and(COALESCE((ol.line->>'receivedQty')::DECIMAL, 0) + COALESCE(r.qty, 0) >= (ol.line->>'qty')::DECIMAL) AS complete
+      FROM purchase_orders p
+      CROSS JOIN jsonb_array_elements(p.lines) WITH ORDINALITY AS ol(line, idx)
+      LEFT JOIN (
+        SELECT l->>'ingredientId' AS ingredient_id, SUM((l->>'qty')::DECIMAL) AS qty
+        FROM jsonb_array_elements(COALESCE(NEW.lines, '[]')) AS l
+        GROUP BY l->>'ingredientId'
+      ) r ON r.ingredient_id = ol.line->>'ingredientId'
+      WHERE p.id = NEW.purchase_order_id
+    ) updated
+    WHERE po.id = NEW.purchase_order_id
+      AND po.status <> 'cancelled'
+      AND updated.lines IS NOT NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS post_goods_receipt_trigger ON goods_receipts;
+CREATE TRIGGER post_goods_receipt_trigger
+AFTER INSERT ON goods_receipts
+FOR EACH ROW EXECUTE FUNCTION post_goods_receipt();
+
+-- ===========================================
+-- LOYALTY
+-- ===========================================
+
+-- Every ledger entry is added to the customer's balance in the same transaction,
+-- so points always equal the sum of the customer's entries
+CREATE OR REPLACE FUNCTION apply_loyalty_entry()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE customers SET points = COALESCE(points, 0) + NEW.points WHERE phone = NEW.customer_phone;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS apply_loyalty_entry_trigger ON loyalty_ledger;
+CREATE TRIGGER apply_loyalty_entry_trigger
+AFTER INSERT ON loyalty_ledger
+FOR EACH ROW EXECUTE FUNCTION apply_loyalty_entry();
+
+-- Direct writes can't set points; only apply_loyalty_entry (a nested trigger) can
+CREATE OR REPLACE FUNCTION protect_customer_points()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() = 1 THEN
+    NEW.points := CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE OLD.points END;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_customer_points_trigger ON customers;
+CREATE TRIGGER protect_customer_points_trigger
+BEFORE INSERT OR UPDATE ON customers
+FOR EACH ROW EXECUTE FUNCTION protect_customer_points();
+
+-- Visits and spend drive the tiers, so API writes can't set them; only the
+-- functions that book sales and corrections (running as their owner) can
+CREATE OR REPLACE FUNCTION protect_customer_totals()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    NEW.total_orders := CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE OLD.total_orders END;
+    NEW.total_spent := CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE OLD.total_spent END;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_customer_totals_trigger ON customers;
+CREATE TRIGGER protect_customer_totals_trigger
+BEFORE INSERT OR UPDATE ON customers
+FOR EACH ROW EXECUTE FUNCTION protect_customer_totals();
+
+-- Membership tier for a lifetime spend: the highest tier whose minimum it reaches
+CREATE OR REPLACE FUNCTION loyalty_tier(p_total_spent DECIMAL)
+RETURNS JSONB AS $$
+  SELECT t
+  FROM (SELECT loyalty_tiers FROM settings ORDER BY id LIMIT 1) s,
+       jsonb_array_elements(COALESCE(s.loyalty_tiers, '[]'::jsonb)) t
+  WHERE COALESCE((t->>'minSpent')::DECIMAL, 0) <= COALESCE(p_total_spent, 0)
+  ORDER BY COALESCE((t->>'minSpent')::DECIMAL, 0) DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Earned points lapse points_expiry_months after the sale. Points are spent
+-- oldest first, so what lapses is the part of the expired earnings that
+-- redemptions, take-backs and earlier expiries haven't already used up. Points
+-- given back (a void returning redeemed points, a manual top-up) are netted
+-- against what was used, so the expired earnings they restored lapse too.
+-- Runs before every sale and balance lookup; schedule it nightly to keep
+-- the Customers tab current (see the setup guide).
+CREATE OR REPLACE FUNCTION expire_loyalty_points(p_customer_phone TEXT DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_row RECORD;
+  v_total INTEGER := 0;
+BEGIN
+  FOR v_row IN
+    SELECT customer_phone,
+      COALESCE(SUM(points) FILTER (WHERE type = 'earn' AND expires_at <= NOW()), 0)
+        - GREATEST(0,
+          -COALESCE(SUM(points) FILTER (WHERE type <> 'expire' AND points < 0), 0)
+          - COALESCE(SUM(points) FILTER (WHERE type = 'adjust' AND points > 0), 0)
+        )
+        + COALESCE(SUM(points) FILTER (WHERE type = 'expire'), 0) AS lapsed
+    FROM loyalty_ledger
+    WHERE p_customer_phone IS NULL OR customer_phone = p_customer_phone
+    GROUP BY customer_phone
+  LOOP
+    IF v_row.lapsed > 0 THEN
+      INSERT INTO loyalty_ledger (id, customer_phone, type, points, created_by)
+      VALUES (gen_random_uuid()::TEXT, v_row.customer_phone, 'expire', -v_row.lapsed, 'system');
+      v_total := v_total + v_row.lapsed;
+    END IF;
+  END LOOP;
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the database runs expiry (sales, lookups, pg_cron)
+REVOKE EXECUTE ON FUNCTION expire_loyalty_points(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Sales earn points for each phone on the bill: its share of the total, weighted
+-- by the category earn rules and the customer's tier. The points behind the
+-- discount are taken from the first phone. Each phone's visit and share of the
+-- spend are added here too, after the tier is read, so counters paying at the
+-- same time can't overwrite each other and a resent sale isn't counted twice.
+-- Voids and refunds take back the same share of what the sale earned, and a
+-- void gives back the points redeemed (correct_transaction takes back the spend).
+CREATE OR REPLACE FUNCTION book_loyalty_points()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_settings settings;
+  v_phones JSONB := COALESCE(NEW.customer_phones, '[]'::jsonb);
+  v_phone TEXT;
+  v_base DECIMAL;
+  v_weighted DECIMAL;
+  v_points INTEGER;
+  v_balance INTEGER;
+  v_sale transactions;
+  v_reversed DECIMAL;
+  v_entry RECORD;
+BEGIN
+  IF jsonb_array_length(v_phones) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF COALESCE(NEW.kind, 'sale') = 'sale' THEN
+    SELECT * INTO v_settings FROM settings ORDER BY id LIMIT 1;
+
+    -- Spend on each category, and the same spend with the category multipliers applied
+    SELECT COALESCE(SUM(line), 0), COALESCE(SUM(line * multiplier), 0) INTO v_base, v_weighted
+    FROM (
+      SELECT (item->>'price')::DECIMAL * (item->>'qty')::INTEGER AS line,
+        COALESCE((
+          SELECT (r->>'multiplier')::DECIMAL
+          FROM jsonb_array_elements(COALESCE(v_settings.loyalty_earn_rules, '[]'::jsonb)) r
+          WHERE r->>'category' = m.category
+          LIMIT 1
+        ), 1) AS multiplier
+      FROM jsonb_array_elements(COALESCE(NEW.items, '[]'::jsonb)) item
+      LEFT JOIN menu_items m ON m.id = item->>'menuItemId'
+    ) lines;
+
+    FOR v_phone IN SELECT jsonb_array_elements_text(v_phones) LOOP
+      INSERT INTO customers (phone) VALUES (v_phone) ON CONFLICT (phone) DO NOTHING;
+      PERFORM expire_loyalty_points(v_phone);
+
+      IF v_phone = v_phones->>0 AND COALESCE(NEW.points_redeemed, 0) > 0 THEN
+        SELECT COALESCE(points, 0) INTO v_balance FROM customers WHERE phone = v_phone FOR UPDATE;
+        v_points := LEAST(NEW.points_redeemed, v_balance);
+        IF v_points > 0 THEN
+          INSERT INTO loyalty_ledger (id, customer_phone, type, points, transaction_id, created_by)
+          VALUES (gen_random_uuid()::TEXT, v_phone, 'redeem', -v_points, NEW.id, 'system');
+        END IF;
+      END IF;
+
+      IF COALESCE(v_settings.point_system_enabled, false) THEN
+        v_points := FLOOR(
+          NEW.total / jsonb_array_length(v_phones)
+          * CASE WHEN v_base > 0 THEN v_weighted / v_base ELSE 1 END
+          * COALESCE(v_settings.points_per_rupee, 0.1)
+          * COALESCE((loyalty_tier((SELECT total_spent FROM customers WHERE phone = v_phone))->>'multiplier')::DECIMAL, 1)
+        );
+        IF v_points > 0 THEN
+          INSERT INTO loyalty_ledger (id, customer_phone, type, points, transaction_id, expires_at, created_by)
+          VALUES (gen_random_uuid()::TEXT, v_phone, 'earn', v_points, NEW.id,
+            CASE WHEN COALESCE(v_settings.points_expiry_months, 0) > 0
+              THEN NEW.paid_at + make_interval(months => v_settings.points_expiry_months) END,
+            'system');
+        END IF;
+      END IF;
+
+      UPDATE customers SET
+        total_orders = total_orders + CASE WHEN NEW.total > 0 THEN 1 ELSE 0 END,
+        total_spent = total_spent + NEW.total / jsonb_array_length(v_phones),
+        last_visit = NOW()
+      WHERE phone = v_phone;
+    END LOOP;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_sale FROM transactions WHERE id = NEW.refund_of;
+  IF NOT FOUND OR v_sale.total = 0 THEN
+    RETURN NEW;
+  END IF;
+  -- What earlier voids and refunds of the sale already reversed
+  SELECT COALESCE(-SUM(total), 0) INTO v_reversed FROM transactions WHERE refund_of = NEW.refund_of AND id <> NEW.id;
+
+  FOR v_entry IN
+    SELECT l.customer_phone, l.type, l.points, COALESCE(c.points, 0) AS balance
+    FROM loyalty_ledger l JOIN customers c ON c.phone = l.customer_phone
+    WHERE l.transaction_id = v_sale.id AND l.type IN ('earn', 'redeem')
+  LOOP
+    IF v_entry.type = 'earn' THEN
+      v_points := LEAST(v_entry.balance,
+        FLOOR(v_entry.points * (v_reversed - NEW.total) / v_sale.total) - FLOOR(v_entry.points * v_reversed / v_sale.total));
+      v_points := -v_points;
+    ELSIF NEW.kind = 'void' THEN
+      v_points := -v_entry.points;
+    ELSE
+      CONTINUE;
+    END IF;
+    IF v_points <> 0 THEN
+      INSERT INTO loyalty_ledger (id, customer_phone, type, points, transaction_id, reason, created_by)
+      VALUES (gen_random_uuid()::TEXT, v_entry.customer_phone, 'adjust', v_points, NEW.id,
+        CASE WHEN NEW.kind = 'void' THEN 'Sale voided' ELSE 'Sale refunded' END, 'system');
+    END IF;
+  END LOOP;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS book_loyalty_points_trigger ON transactions;
+CREATE TRIGGER book_loyalty_points_trigger
+AFTER INSERT ON transactions
+FOR EACH ROW EXECUTE FUNCTION book_loyalty_points();
+
+-- Manual correction of a customer's points, with a reason. Returns the new balance
+CREATE OR REPLACE FUNCTION adjust_loyalty_points(p_customer_phone TEXT, p_points INTEGER, p_reason TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_actor staff;
+  v_balance INTEGER;
+BEGIN
+  IF NOT request_has_permission('adjust_points') THEN
+    RAISE EXCEPTION 'Not allowed to adjust points' USING ERRCODE = '42501';
+  END IF;
+  IF COALESCE(p_points, 0) = 0 OR COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Points and a reason are required';
+  END IF;
+
+  PERFORM expire_loyalty_points(p_customer_phone);
+  SELECT COALESCE(points, 0) INTO v_balance FROM customers WHERE phone = p_customer_phone FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+  IF v_balance + p_points < 0 THEN
+    RAISE EXCEPTION 'Only % points available', v_balance;
+  END IF;
+
+  v_actor := staff_session_staff(request_staff_token());
+  INSERT INTO loyalty_ledger (id, customer_phone, type, points, reason, created_by)
+  VALUES (gen_random_uuid()::TEXT, p_customer_phone, 'adjust', p_points, trim(p_reason), COALESCE(NULLIF(v_actor.name, ''), v_actor.username));
+
+  INSERT INTO audit_log (action, entity_id, actor_id, actor_name, before, after)
+  VALUES ('customer.points_adjust', p_customer_phone, v_actor.id, v_actor.name,
+    jsonb_build_object('points', v_balance),
+    jsonb_build_object('points', v_balance + p_points, 'reason', trim(p_reason)));
+  RETURN v_balance + p_points;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ===========================================
+-- CUSTOMER ACCOUNTS
+-- ===========================================
+
+-- Customer screen staff can update customers, but only account managers open
+-- accounts and set their limits
+CREATE OR REPLACE FUNCTION protect_customer_credit_limit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT request_has_permission('manage_accounts') THEN
+    NEW.credit_limit := CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.credit_limit END;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_customer_credit_limit_trigger ON customers;
+CREATE TRIGGER protect_customer_credit_limit_trigger
+BEFORE INSERT OR UPDATE ON customers
+FOR EACH ROW EXECUTE FUNCTION protect_customer_credit_limit();
+
+-- A transaction's tenders; rows without a payments list were paid in one method
+CREATE OR REPLACE FUNCTION transaction_tenders(p_payments JSONB, p_method TEXT, p_total DECIMAL)
+RETURNS JSONB AS $$
+  SELECT CASE WHEN jsonb_array_length(COALESCE(p_payments, '[]'::jsonb)) > 0 THEN p_payments
+    ELSE jsonb_build_array(jsonb_build_object('method', p_method, 'amount', p_total)) END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Sales only go on the tab of a customer with an account, and only up to its
+-- credit limit (0 = no limit), the same rule as getAvailableCredit in the app.
+-- The balance is the account tenders (tenders without a phone belong to the
+-- bill's first customer) less the payments. Locking the customer row stops two
+-- counters from both using the last of the credit
+CREATE OR REPLACE FUNCTION check_account_credit()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_charge RECORD;
+  v_customer customers;
+  v_balance DECIMAL(10,2);
+BEGIN
+  -- A resent sale that already landed is left to fail as a duplicate, which the outbox expects
+  IF COALESCE(NEW.kind, 'sale') <> 'sale' OR EXISTS (SELECT 1 FROM transactions WHERE id = NEW.id) THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_charge IN
+    SELECT COALESCE(p->>'customerPhone', NEW.customer_phones->>0) AS phone, SUM((p->>'amount')::DECIMAL) AS amount
+    FROM jsonb_array_elements(transaction_tenders(NEW.payments, NEW.payment_method, NEW.total)) p
+    WHERE p->>'method' = 'account'
+    GROUP BY 1
+  LOOP
+    SELECT * INTO v_customer FROM customers WHERE phone = v_charge.phone FOR UPDATE;
+    IF NOT FOUND OR v_customer.credit_limit IS NULL THEN
+      RAISE EXCEPTION 'Customer % has no account', COALESCE(v_charge.phone, '') USING ERRCODE = '42501';
+    END IF;
+    CONTINUE WHEN v_customer.credit_limit = 0;
+
+    SELECT COALESCE(SUM((p->>'amount')::DECIMAL), 0) INTO v_balance
+    FROM transactions t, jsonb_array_elements(transaction_tenders(t.payments, t.payment_method, t.total)) p
+    WHERE p->>'method' = 'account' AND COALESCE(p->>'customerPhone', t.customer_phones->>0) = v_charge.phone;
+    v_balance := v_balance - COALESCE((SELECT SUM(amount) FROM account_payments WHERE customer_phone = v_charge.phone), 0);
+
+    IF v_balance + v_charge.amount > v_customer.credit_limit THEN
+      RAISE EXCEPTION 'Over the credit limit for %: only % available',
+        v_charge.phone, GREATEST(0, v_customer.credit_limit - v_balance) USING ERRCODE = '42501';
+    END IF;
+  END LOOP;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_account_credit_trigger ON transactions;
+CREATE TRIGGER check_account_credit_trigger
+BEFORE INSERT ON transactions
+FOR EACH ROW EXECUTE FUNCTION check_account_credit();
+
+-- ===========================================
+-- PRE-ORDERS
+-- ===========================================
+
+-- Customers pick a pickup slot inside the opening window, far enough ahead for
+-- the kitchen to get the ticket in time; each slot takes kitchen_handles orders.
+-- Slots are counted from midnight Nepal time so 30 and 60 minute slots start on
+-- the hour
+CREATE OR REPLACE FUNCTION check_pre_order_slot(p_slot TIMESTAMPTZ)
+RETURNS VOID AS $$
+DECLARE
+  v_settings settings;
+  v_local TIME;
+  v_taken INTEGER;
+BEGIN
+  SELECT * INTO v_settings FROM settings ORDER BY id LIMIT 1;
+  IF NOT COALESCE(v_settings.pre_orders_enabled, false) THEN
+    RAISE EXCEPTION 'Pre-orders are not being taken' USING ERRCODE = '42501';
+  END IF;
+
+  -- A few minutes' grace for the time spent at checkout
+  IF p_slot < NOW() + make_interval(mins => COALESCE(v_settings.pre_order_release_minutes, 20) - 5)
+    OR p_slot > NOW() + INTERVAL '2 days' THEN
+    RAISE EXCEPTION 'Pickup time is not available' USING ERRCODE = '42501';
+  END IF;
+
+  v_local := (p_slot AT TIME ZONE 'Asia/Kathmandu')::TIME;
+  IF v_local < COALESCE(v_settings.pre_order_open_time, '08:00')::TIME
+    OR v_local > COALESCE(v_settings.pre_order_close_time, '20:00')::TIME
+    OR EXTRACT(EPOCH FROM v_local)::INTEGER % (GREATEST(COALESCE(v_settings.pre_order_slot_minutes, 15), 5) * 60) <> 0 THEN
+    RAISE EXCEPTION 'Pickup time is not available' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT COUNT(*) INTO v_taken FROM orders WHERE scheduled_for = p_slot AND status <> 'cancelled';
+  IF v_taken >= GREATEST(COALESCE(v_settings.kitchen_handles, 3), 1) THEN
+    RAISE EXCEPTION 'That pickup slot is full' USING ERRCODE = '42501';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ===========================================
+-- PROMOTIONS
+-- ===========================================
+
+-- Each paid bill counts once against the promotions on it, however many parts a
+-- split bill is paid in; voiding the whole bill gives the uses back. Counters
+-- check the limit before applying a coupon, so two devices offline at once can
+-- go one over.
+CREATE OR REPLACE FUNCTION count_promotion_uses()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_sale transactions%ROWTYPE;
+  v_step INTEGER;
+BEGIN
+  IF COALESCE(NEW.kind, 'sale') = 'sale' THEN
+    v_sale := NEW;
+    v_step := 1;
+  ELSIF NEW.kind = 'void' THEN
+    SELECT * INTO v_sale FROM transactions WHERE id = NEW.refund_of;
+    v_step := -1;
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  IF v_sale.id IS NULL OR jsonb_array_length(COALESCE(v_sale.promotions, '[]')) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  -- Other parts of the same split bill that are still standing
+  IF v_sale.split_group_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM transactions t
+    WHERE t.split_group_id = v_sale.split_group_id
+      AND t.id <> v_sale.id
+      AND COALESCE(t.kind, 'sale') = 'sale'
+      AND NOT EXISTS (SELECT 1 FROM transactions v WHERE v.refund_of = t.id AND v.kind = 'void')
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE promotions SET uses = GREATEST(0, COALESCE(uses, 0) + v_step)
+  WHERE id IN (SELECT p->>'promotionId' FROM jsonb_array_elements(v_sale.promotions) AS p);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS count_promotion_uses_trigger ON transactions;
+CREATE TRIGGER count_promotion_uses_trigger
+AFTER INSERT ON transactions
+FOR EACH ROW EXECUTE FUNCTION count_promotion_uses();
+
+-- Direct writes can't set uses; only count_promotion_uses (a nested trigger) can.
+-- Codes are kept in upper case so they match however they're typed
+CREATE OR REPLACE FUNCTION protect_promotion_uses()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() = 1 THEN
+    NEW.uses := CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE OLD.uses END;
+  END IF;
+  NEW.code := NULLIF(upper(trim(NEW.code)), '');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_promotion_uses_trigger ON promotions;
+CREATE TRIGGER protect_promotion_uses_trigger
+BEFORE INSERT OR UPDATE ON promotions
+FOR EACH ROW EXECUTE FUNCTION protect_promotion_uses();
+
+-- ===========================================
+-- PAYMENT GATEWAYS
+-- ===========================================
+
+-- Fonepay, eSewa and Khalti are called from here, so merchant secrets never
+-- reach a browser: save_payment_gateway stores them and nothing reads them back
+
+CREATE OR REPLACE FUNCTION gateway_request(p_method TEXT, p_url TEXT, p_body JSONB, p_headers extensions.http_header[] DEFAULT '{}')
+RETURNS JSONB AS $$
+DECLARE
+  v_response extensions.http_response;
+BEGIN
+  v_response := extensions.http((p_method, p_url, p_headers, 'application/json', p_body::TEXT)::extensions.http_request);
+  IF v_response.status NOT BETWEEN 200 AND 299 THEN
+    RAISE EXCEPTION 'Payment gateway answered %: %', v_response.status, left(v_response.content, 200);
+  END IF;
+  RETURN v_response.content::JSONB;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only start_gateway_payment and check_gateway_payment (SECURITY DEFINER) may make
+-- requests; over the API anyone could otherwise have the database fetch any URL
+REVOKE EXECUTE ON FUNCTION gateway_request(TEXT, TEXT, JSONB, extensions.http_header[]) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION gateway_base_url(p_provider TEXT, p_live BOOLEAN)
+RETURNS TEXT AS $$
+  SELECT CASE p_provider
+    WHEN 'fonepay' THEN CASE WHEN p_live THEN 'https://merchantapi.fonepay.com/api' ELSE 'https://dev-merchantapi.fonepay.com/api' END
+    WHEN 'esewa' THEN CASE WHEN p_live THEN 'https://epay.esewa.com.np/api/epay' ELSE 'https://rc-epay.esewa.com.np/api/epay' END
+    WHEN 'khalti' THEN CASE WHEN p_live THEN 'https://khalti.com/api/v2' ELSE 'https://dev.khalti.com/api/v2' END
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+REVOKE EXECUTE ON FUNCTION gateway_base_url(TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- What the counter and the settings page may know: which gateways are set up, never the secrets
+CREATE OR REPLACE FUNCTION get_payment_gateways()
+RETURNS TABLE (provider TEXT, enabled BOOLEAN, live BOOLEAN, merchant_code TEXT, username TEXT, has_secret BOOLEAN) AS $$
+  SELECT g.provider, g.enabled, g.live, g.merchant_code, g.username, g.secret_key <> ''
+  FROM payment_gateways g
+  WHERE is_staff_request();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Blank secret or password keeps the saved one, so the settings form never has to show them
+CREATE OR REPLACE FUNCTION save_payment_gateway(
+  p_provider TEXT,
+  p_enabled BOOLEAN,
+  p_live BOOLEAN,
+  p_merchant_code TEXT,
+  p_username TEXT,
+  p_secret_key TEXT,
+  p_password TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  v_actor staff;
+BEGIN
+  IF NOT request_has_permission('manage_settings') THEN
+    RAISE EXCEPTION 'Not allowed to change payment settings' USING ERRCODE = '42501';
+  END IF;
+  IF p_provider NOT IN ('fonepay', 'esewa', 'khalti') THEN
+    RAISE EXCEPTION 'Unknown payment gateway %', p_provider;
+  END IF;
+
+  INSERT INTO payment_gateways AS g (provider, enabled, live, merchant_code, username, secret_key, password)
+  VALUES (p_provider, p_enabled, p_live, COALESCE(trim(p_merchant_code), ''), COALESCE(trim(p_username), ''),
+          COALESCE(p_secret_key, ''), COALESCE(p_password, ''))
+  ON CONFLICT (provider) DO UPDATE SET
+    enabled = EXCLUDED.enabled,
+    live = EXCLUDED.live,
+    merchant_code = EXCLUDED.merchant_code,
+    username = EXCLUDED.username,
+    secret_key = COALESCE(NULLIF(p_secret_key, ''), g.secret_key),
+    password = COALESCE(NULLIF(p_password, ''), g.password),
+    updated_at = NOW();
+
+  v_actor := staff_session_staff(request_staff_token());
+  INSERT INTO audit_log (action, entity_id, actor_id, actor_name, after)
+  VALUES ('payment_gateway.update', p_provider, v_actor.id, v_actor.name, jsonb_build_object(
+    'enabled', p_enabled, 'live', p_live, 'merchantCode', p_merchant_code,
+    'secretChanged', COALESCE(p_secret_key, '') <> '' OR COALESCE(p_password, '') <> ''
+  ));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Starts a payment of p_amount under reference p_id. Returns { qr } with a Fonepay
+-- dynamic QR, { url } with Khalti's checkout page, or { url, fields } with the
+-- signed form that opens eSewa's checkout. p_return_url is where the customer's
+-- phone lands afterwards
+CREATE OR REPLACE FUNCTION start_gateway_payment(p_id TEXT, p_provider TEXT, p_amount DECIMAL, p_label TEXT, p_return_url TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  g payment_gateways;
+  v_amount TEXT := trim_scale(round(p_amount, 2))::TEXT;
+  v_label TEXT := left(COALESCE(NULLIF(trim(p_label), ''), 'POS'), 50);
+  v_response JSONB;
+  v_result JSONB;
+  v_gateway_ref TEXT;
+BEGIN
+  IF NOT request_has_permission('take_payment') THEN
+    RAISE EXCEPTION 'Not allowed to take payments' USING ERRCODE = '42501';
+  END IF;
+  IF p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be more than zero';
+  END IF;
+  SELECT * INTO g FROM payment_gateways WHERE provider = p_provider AND enabled;
+  IF NOT FOUND OR g.secret_key = '' OR (g.merchant_code = '' AND p_provider <> 'khalti') THEN
+    RAISE EXCEPTION '% is not set up in Settings', p_provider;
+  END IF;
+
+  IF p_provider = 'fonepay' THEN
+    -- dataValidation is HMAC-SHA512 over the fields in this order
+    v_response := gateway_request('POST', gateway_base_url('fonepay', g.live) || '/merchant/merchantDetailsForThirdParty/thirdPartyDynamicQrDownload',
+      jsonb_build_object(
+        'amount', v_amount, 'remarks1', v_label, 'remarks2', 'POS', 'prn', p_id, 'merchantCode', g.merchant_code,
+        'dataValidation', encode(hmac(v_amount || ',' || p_id || ',' || g.merchant_code || ',' || v_label || ',POS', g.secret_key, 'sha512'), 'hex'),
+        'username', g.username, 'password', g.password
+      ));
+    IF COALESCE(v_response->>'qrMessage', '') = '' THEN
+      RAISE EXCEPTION 'Fonepay: %', COALESCE(v_response->>'message', 'no QR returned');
+    END IF;
+    v_result := jsonb_build_object('qr', v_response->>'qrMessage');
+  ELSIF p_provider = 'esewa' THEN
+    -- eSewa's checkout is a signed form post, made from the customer's phone
+    v_result := jsonb_build_object('url', gateway_base_url('esewa', g.live) || '/main/v2/form', 'fields', jsonb_build_object(
+      'amount', v_amount, 'tax_amount', '0', 'total_amount', v_amount, 'transaction_uuid', p_id,
+      'product_code', g.merchant_code, 'product_service_charge', '0', 'product_delivery_charge', '0',
+      'success_url', p_return_url, 'failure_url', p_return_url,
+      'signed_field_names', 'total_amount,transaction_uuid,product_code',
+      'signature', encode(hmac('total_amount=' || v_amount || ',transaction_uuid=' || p_id || ',product_code=' || g.merchant_code, g.secret_key, 'sha256'), 'base64')
+    ));
+  ELSE
+    v_response := gateway_request('POST', gateway_base_url('khalti', g.live) || '/epayment/initiate/',
+      jsonb_build_object(
+        'return_url', p_return_url, 'website_url', substring(p_return_url FROM '^https?://[^/]+'),
+        'amount', round(p_amount * 100), 'purchase_order_id', p_id, 'purchase_order_name', v_label
+      ),
+      ARRAY[extensions.http_header('Authorization', 'Key ' || g.secret_key)]);
+    v_gateway_ref := v_response->>'pidx';
+    v_result := jsonb_build_object('url', v_response->>'payment_url');
+  END IF;
+
+  INSERT INTO gateway_payments (id, provider, amount, label, gateway_ref, created_by)
+  VALUES (p_id, p_provider, round(p_amount, 2), v_label, v_gateway_ref, (staff_session_staff(request_staff_token())).name);
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Asks the gateway whether the customer has paid: 'pending', 'paid' or 'failed'.
+-- The first definite answer is kept, so a paid QR can't be cancelled later
+CREATE OR REPLACE FUNCTION check_gateway_payment(p_id TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  p gateway_payments;
+  g payment_gateways;
+  v_amount TEXT;
+  v_response JSONB;
+  v_status TEXT;
+BEGIN
+  IF NOT request_has_permission('take_payment') THEN
+    RAISE EXCEPTION 'Not allowed to take payments' USING ERRCODE = '42501';
+  END IF;
+  SELECT * INTO p FROM gateway_payments WHERE id = p_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown payment %', p_id;
+  END IF;
+  IF p.status <> 'pending' THEN
+    RETURN p.status;
+  END IF;
+  SELECT * INTO g FROM payment_gateways WHERE provider = p.provider;
+  v_amount := trim_scale(p.amount)::TEXT;
+
+  BEGIN
+    IF p.provider = 'fonepay' THEN
+      v_response := gateway_request('POST', gateway_base_url('fonepay', g.live) || '/merchant/merchantDetailsForThirdParty/thirdPartyDynamicQrGetStatus',
+        jsonb_build_object(
+          'prn', p.id, 'merchantCode', g.merchant_code,
+          'dataValidation', encode(hmac(p.id || ',' || g.merchant_code, g.secret_key, 'sha512'), 'hex'),
+          'username', g.username, 'password', g.password
+        ));
+      v_status := CASE lower(v_response->>'paymentStatus') WHEN 'success' THEN 'paid' WHEN 'failed' THEN 'failed' ELSE 'pending' END;
+    ELSIF p.provider = 'esewa' THEN
+      v_response := gateway_request('GET', gateway_base_url('esewa', g.live) || '/transaction/status/?product_code=' || g.merchant_code
+        || '&total_amount=' || v_amount || '&transaction_uuid=' || p.id, NULL);
+      v_status := CASE v_response->>'status' WHEN 'COMPLETE' THEN 'paid' WHEN 'CANCELED' THEN 'failed' WHEN 'FULL_REFUND' THEN 'failed' ELSE 'pending' END;
+    ELSE
+      v_response := gateway_request('POST', gateway_base_url('khalti', g.live) || '/epayment/lookup/',
+        jsonb_build_object('pidx', p.gateway_ref),
+        ARRAY[extensions.http_header('Authorization', 'Key ' || g.secret_key)]);
+      v_status := CASE
+        WHEN v_response->>'status' = 'Completed' AND (v_response->>'total_amount')::DECIMAL = round(p.amount * 100) THEN 'paid'
+        WHEN v_response->>'status' IN ('Expired', 'User canceled', 'Refunded') THEN 'failed'
+        ELSE 'pending'
+      END;
+    END IF;
+  EXCEPTION WHEN OTHERS THEN
+    -- A slow or unreachable gateway isn't an answer; the counter asks again
+    RETURN 'pending';
+  END;
+
+  IF v_status <> 'pending' THEN
+    UPDATE gateway_payments SET status = v_status, response = v_response, verified_at = NOW() WHERE id = p_id;
+  END IF;
+  RETURN v_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ===========================================
+-- CUSTOMER FUNCTIONS
+-- ===========================================
+
+-- Customer orders are re-priced from the menu so an edited cart can't change
+-- prices, and the customer is registered for loyalty without table access
+CREATE OR REPLACE FUNCTION price_customer_order()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_item JSONB;
+  v_menu menu_items;
+  v_modifier JSONB;
+  v_option JSONB;
+  v_modifiers JSONB;
+  v_delta DECIMAL(10,2);
+  v_items JSONB := '[]'::jsonb;
+  v_total DECIMAL(10,2) := 0;
+BEGIN
+  IF is_staff_request() THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(NEW.items) LOOP
+    SELECT * INTO v_menu FROM menu_items WHERE id = v_item->>'menuItemId' AND available;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % is not available', v_item->>'menuItemId' USING ERRCODE = '42501';
+    END IF;
+    IF COALESCE((v_item->>'qty')::INTEGER, 0) < 1 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_menu.name USING ERRCODE = '42501';
+    END IF;
+
+    v_modifiers := '[]'::jsonb;
+    v_delta := 0;
+    FOR v_modifier IN SELECT * FROM jsonb_array_elements(COALESCE(v_item->'modifiers', '[]'::jsonb)) LOOP
+      SELECT o INTO v_option
+      FROM jsonb_array_elements(v_menu.modifier_groups) g, jsonb_array_elements(g->'options') o
+      WHERE g->>'id' = v_modifier->>'groupId' AND o->>'id' = v_modifier->>'optionId';
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invalid option for %', v_menu.name USING ERRCODE = '42501';
+      END IF;
+      v_delta := v_delta + COALESCE((v_option->>'priceDelta')::DECIMAL, 0);
+      v_modifiers := v_modifiers || jsonb_build_array(
+        v_modifier || jsonb_build_object('priceDelta', COALESCE((v_option->>'priceDelta')::DECIMAL, 0))
+      );
+    END LOOP;
+
+    -- Kitchen progress fields are set by staff only; VAT exemption comes from the menu
+    v_item := (v_item - 'status' - 'startedAt' - 'readyAt' - 'servedAt' - 'taxable')
+      || jsonb_build_object('name', v_menu.name, 'price', GREATEST(0, v_menu.price + v_delta));
+    IF NOT COALESCE(v_menu.taxable, true) THEN
+      v_item := v_item || jsonb_build_object('taxable', false);
+    END IF;
+    IF v_item ? 'modifiers' THEN
+      v_item := jsonb_set(v_item, '{modifiers}', v_modifiers);
+    END IF;
+    v_items := v_items || jsonb_build_array(v_item);
+    v_total := v_total + (v_item->>'price')::DECIMAL * (v_item->>'qty')::INTEGER;
+  END LOOP;
+
+  IF NEW.order_type <> 'takeaway' THEN
+    NEW.scheduled_for := NULL;
+  ELSIF NEW.scheduled_for IS NOT NULL THEN
+    PERFORM check_pre_order_slot(NEW.scheduled_for);
+  END IF;
+
+  NEW.items := v_items;
+  NEW.total := v_total;
+  NEW.status := 'pending';
+  NEW.delivery := NULL;
+  NEW.created_at := NOW();
+  NEW.updated_at := NOW();
+
+  INSERT INTO customers (phone, last_visit) VALUES (NEW.customer_phone, NOW())
+  ON CONFLICT (phone) DO UPDATE SET last_visit = NOW();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS price_customer_order_trigger ON orders;
+CREATE TRIGGER price_customer_order_trigger
+BEFORE INSERT ON orders
+FOR EACH ROW EXECUTE FUNCTION price_customer_order();
+
+-- Customers may cancel their own order until the counter accepts it
+CREATE OR REPLACE FUNCTION customer_cancel_order(p_order_id TEXT, p_customer_phone TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE orders SET status = 'cancelled', updated_at = NOW()
+  WHERE id = p_order_id AND customer_phone = p_customer_phone AND status = 'pending';
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Orders and bills are staff-only under RLS. A customer reads just their own
+-- from the last day: dine-in orders at the table they scanned, plus pre-orders
+CREATE OR REPLACE FUNCTION get_customer_orders(p_table_number INTEGER, p_customer_phone TEXT)
+RETURNS SETOF orders AS $$
+  SELECT * FROM orders
+  WHERE EXISTS (SELECT 1 FROM dining_tables WHERE number = p_table_number)
+    AND COALESCE(p_customer_phone, '') <> ''
+    AND customer_phone = p_customer_phone
+    AND (table_number = p_table_number OR scheduled_for IS NOT NULL)
+    AND (created_at > NOW() - INTERVAL '1 day' OR scheduled_for > NOW() - INTERVAL '1 day')
+  ORDER BY created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_customer_bills(p_table_number INTEGER, p_customer_phone TEXT)
+RETURNS SETOF bills AS $$
+  SELECT * FROM bills
+  WHERE EXISTS (SELECT 1 FROM dining_tables WHERE number = p_table_number)
+    AND COALESCE(p_customer_phone, '') <> ''
+    AND table_number = p_table_number
+    AND customer_phones ? p_customer_phone
+    AND created_at > NOW() - INTERVAL '1 day'
+  ORDER BY created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Open waiter calls at the customer's table, so they don't call twice; other
+-- callers' phones are left out
+CREATE OR REPLACE FUNCTION get_table_waiter_calls(p_table_number INTEGER, p_customer_phone TEXT)
+RETURNS SETOF waiter_calls AS $$
+  SELECT id, table_number, ''::TEXT, status, acknowledged_at, created_at FROM waiter_calls
+  WHERE table_number = p_table_number
+    AND is_open_table_session(p_table_number, p_customer_phone)
+    AND created_at > NOW() - INTERVAL '1 day'
+  ORDER BY created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- The kitchen queue without names, phones, notes or totals: what the ordering
+-- screen needs for wait times, pickup slot counts and popular items
+CREATE OR REPLACE FUNCTION get_order_queue()
+RETURNS TABLE (
+  id TEXT,
+  items JSONB,
+  status TEXT,
+  order_type TEXT,
+  scheduled_for TIMESTAMPTZ,
+  created_at TIMESTAMPTZ
+) AS $$
+  SELECT o.id, o.items, o.status, o.order_type, o.scheduled_for, o.created_at
+  FROM orders o
+  WHERE o.status IN ('pending', 'accepted', 'preparing')
+    OR (o.scheduled_for > NOW() AND o.status <> 'cancelled')
+    OR o.id IN (SELECT id FROM orders ORDER BY created_at DESC LIMIT 50);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Loyalty balance, tier and recent history. Not callable from the API, see
+-- lookup_customer_loyalty
+DROP FUNCTION IF EXISTS get_customer_points(TEXT);
+CREATE OR REPLACE FUNCTION get_customer_loyalty(p_customer_phone TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_customer customers;
+BEGIN
+  PERFORM expire_loyalty_points(p_customer_phone);
+  SELECT * INTO v_customer FROM customers WHERE phone = p_customer_phone;
+  RETURN jsonb_build_object(
+    'points', COALESCE(v_customer.points, 0),
+    'tier', loyalty_tier(v_customer.total_spent)->>'name',
+    'entries', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', l.id, 'type', l.type, 'points', l.points, 'reason', l.reason,
+        'transactionId', l.transaction_id, 'expiresAt', l.expires_at,
+        'createdBy', l.created_by, 'createdAt', l.created_at
+      ) ORDER BY l.created_at DESC)
+      FROM (
+        SELECT * FROM loyalty_ledger WHERE customer_phone = p_customer_phone
+        ORDER BY created_at DESC LIMIT 50
+      ) l
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION get_customer_loyalty(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Every request uses the anon key, so the caller is checked here: staff may
+-- look up anyone (the staff points dialog), a customer only a phone with a
+-- recent order or bill at the table they scanned, so knowing a number and a
+-- table isn't enough
+CREATE OR REPLACE FUNCTION lookup_customer_loyalty(p_customer_phone TEXT, p_table_number INTEGER DEFAULT NULL)
+RETURNS JSONB AS $$
+BEGIN
+  IF NOT is_staff_request() AND NOT (
+    EXISTS (SELECT 1 FROM get_customer_orders(p_table_number, p_customer_phone))
+    OR EXISTS (SELECT 1 FROM get_customer_bills(p_table_number, p_customer_phone))
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to look up points' USING ERRCODE = '42501';
+  END IF;
+  RETURN get_customer_loyalty(p_customer_phone);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ===========================================
+-- AUDIT LOG
+-- ===========================================
+
+-- Client inserts can't pick who or when: the actor comes from the session
+-- token (customers have none). SECURITY DEFINER functions set their own actor.
+CREATE OR REPLACE FUNCTION stamp_audit_entry()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_staff staff;
+BEGIN
+  NEW.created_at := NOW();
+  IF current_user IN ('anon', 'authenticated') THEN
+    v_staff := staff_session_staff(request_staff_token());
+    NEW.actor_id := v_staff.id;
+    NEW.actor_name := COALESCE(NULLIF(v_staff.name, ''), v_staff.username, 'Customer');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stamp_audit_entry_trigger ON audit_log;
+CREATE TRIGGER stamp_audit_entry_trigger
+BEFORE INSERT ON audit_log
+FOR EACH ROW EXECUTE FUNCTION stamp_audit_entry();
+
+-- Entries are never edited or removed, not even by the service role
+CREATE OR REPLACE FUNCTION prevent_audit_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only' USING ERRCODE = '42501';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log;
+CREATE TRIGGER audit_log_append_only
+BEFORE UPDATE OR DELETE ON audit_log
+FOR EACH ROW EXECUTE FUNCTION prevent_audit_change();
+
+DROP TRIGGER IF EXISTS audit_log_no_truncate ON audit_log;
+CREATE TRIGGER audit_log_no_truncate
+BEFORE TRUNCATE ON audit_log
+FOR EACH STATEMENT EXECUTE FUNCTION prevent_audit_change();
+
+-- ===========================================
+-- STAFF AUTH FUNCTIONS
+-- ===========================================
+
+-- Staff member behind a live session token (NULL when missing or expired)
+CREATE OR REPLACE FUNCTION staff_session_staff(p_token TEXT)
+RETURNS staff AS $$
+  SELECT s.* FROM staff s
+  JOIN staff_sessions ss ON ss.staff_id = s.id
+  WHERE ss.token = p_token AND ss.expires_at > NOW();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Permission list sent to the client with the signed-in staff member
+CREATE OR REPLACE FUNCTION role_permissions(p_role TEXT)
+RETURNS JSONB AS $$
+  SELECT COALESCE((SELECT permissions FROM roles WHERE id = p_role), '[]'::jsonb);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Check credentials and issue a 12-hour session
+DROP FUNCTION IF EXISTS staff_login(TEXT, TEXT);
+CREATE OR REPLACE FUNCTION staff_login(p_username TEXT, p_password TEXT)
+RETURNS TABLE (
+  token TEXT,
+  expires_at TIMESTAMPTZ,
+  id TEXT,
+  username TEXT,
+  role TEXT,
+  name TEXT,
+  has_pin BOOLEAN,
+  permissions JSONB,
+  created_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  v_staff staff;
+  v_session staff_sessions;
+BEGIN
+  SELECT * INTO v_staff FROM staff s
+  WHERE lower(s.username) = lower(p_username)
+    AND s.password_hash = crypt(p_password, s.password_hash);
+  IF v_staff.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM staff_sessions ss WHERE ss.expires_at < NOW();
+  INSERT INTO staff_sessions (staff_id, expires_at)
+  VALUES (v_staff.id, NOW() + INTERVAL '12 hours')
+  RETURNING * INTO v_session;
+
+  INSERT INTO audit_log (action, entity_id, actor_id, actor_name)
+  VALUES ('staff.login', v_staff.id, v_staff.id, v_staff.name);
+
+  RETURN QUERY SELECT v_session.token, v_session.expires_at, v_staff.id, v_staff.username,
+    v_staff.role, v_staff.name, v_staff.pin_hash IS NOT NULL, role_permissions(v_staff.role), v_staff.created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Validate a session token and return who it belongs to
+DROP FUNCTION IF EXISTS staff_verify_session(TEXT);
+CREATE OR REPLACE FUNCTION staff_verify_session(p_token TEXT)
+RETURNS TABLE (
+  expires_at TIMESTAMPTZ,
+  id TEXT,
+  username TEXT,
+  role TEXT,
+  name TEXT,
+  has_pin BOOLEAN,
+  permissions JSONB,
+  created_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  UPDATE staff_sessions ss SET last_seen_at = NOW()
+  WHERE ss.token = p_token AND ss.expires_at > NOW();
+
+  RETURN QUERY SELECT ss.expires_at, s.id, s.username, s.role, s.name, s.pin_hash IS NOT NULL,
+    role_permissions(s.role), s.created_at
+  FROM staff_sessions ss
+  JOIN staff s ON s.id = ss.staff_id
+  WHERE ss.token = p_token AND ss.expires_at > NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION staff_logout(p_token TEXT)
+RETURNS VOID AS $$
+DECLARE
+  v_staff staff := staff_session_staff(p_token);
+BEGIN
+  DELETE FROM staff_sessions WHERE token = p_token;
+  IF v_staff.id IS NOT NULL THEN
+    INSERT INTO audit_log (action, entity_id, actor_id, actor_name)
+    VALUES ('staff.logout', v_staff.id, v_staff.id, v_staff.name);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Staff list without password or PIN hashes (manage_staff only)
+CREATE OR REPLACE FUNCTION staff_list(p_token TEXT)
+RETURNS TABLE (
+  id TEXT,
+  username TEXT,
+  role TEXT,
+  name TEXT,
+  has_pin BOOLEAN,
+  created_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  IF NOT staff_has_permission(p_token, 'manage_staff') THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = '42501';
+  END IF;
+  RETURN QUERY SELECT s.id, s.username, s.role, s.name, s.pin_hash IS NOT NULL, s.created_at
+  FROM staff s ORDER BY s.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create or update a staff member; NULL password/PIN keeps the current one
+CREATE OR REPLACE FUNCTION staff_save(
+  p_token TEXT,
+  p_id TEXT,
+  p_username TEXT,
+  p_password TEXT,
+  p_pin TEXT,
+  p_role TEXT,
+  p_name TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  v_caller_role TEXT := (staff_session_staff(p_token)).role;
+BEGIN
+  IF NOT staff_has_permission(p_token, 'manage_staff') THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = '42501';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM roles WHERE id = p_role) THEN
+    RAISE EXCEPTION 'Unknown role %', p_role;
+  END IF;
+  -- Only owners may create owners or change an owner's account
+  IF v_caller_role <> 'owner'
+    AND (p_role = 'owner' OR EXISTS (SELECT 1 FROM staff WHERE id = p_id AND role = 'owner')) THEN
+    RAISE EXCEPTION 'Only an owner can manage owner accounts' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM staff WHERE id = p_id) THEN
+    UPDATE staff SET
+      username = p_username,
+      role = p_role,
+      name = p_name,
+      password_hash = CASE WHEN p_password IS NULL OR p_password = '' THEN password_hash ELSE crypt(p_password, gen_salt('bf')) END,
+      pin_hash = CASE WHEN p_pin IS NULL THEN pin_hash WHEN p_pin = '' THEN NULL ELSE crypt(p_pin, gen_salt('bf')) END
+    WHERE id = p_id;
+  ELSE
+    IF p_password IS NULL OR p_password = '' THEN
+      RAISE EXCEPTION 'Password is required';
+    END IF;
+    INSERT INTO staff (id, username, password_hash, pin_hash, role, name)
+    VALUES (
+      p_id, p_username, crypt(p_password, gen_salt('bf')),
+      CASE WHEN p_pin IS NULL OR p_pin = '' THEN NULL ELSE crypt(p_pin, gen_salt('bf')) END,
+      p_role, p_name
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A fresh install has no staff; the sign-in page then asks for the first owner
+CREATE OR REPLACE FUNCTION staff_needs_setup()
+RETURNS BOOLEAN AS $$
+  SELECT NOT EXISTS (SELECT 1 FROM staff);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Create the first owner account. Refused once any staff member exists, so it
+-- only works on a fresh install until the owner has set themselves up
+CREATE OR REPLACE FUNCTION staff_setup_owner(p_username TEXT, p_password TEXT, p_name TEXT)
+RETURNS VOID AS $$
+BEGIN
+  LOCK TABLE staff IN EXCLUSIVE MODE;
+  IF EXISTS (SELECT 1 FROM staff) THEN
+    RAISE EXCEPTION 'Setup is already done; sign in instead' USING ERRCODE = '42501';
+  END IF;
+  IF COALESCE(trim(p_username), '') = '' OR length(COALESCE(p_password, '')) < 6 THEN
+    RAISE EXCEPTION 'A username and a password of at least 6 characters are required';
+  END IF;
+  INSERT INTO staff (id, username, password_hash, role, name)
+  VALUES (encode(gen_random_bytes(6), 'hex'), trim(p_username), crypt(p_password, gen_salt('bf')), 'owner', COALESCE(NULLIF(trim(p_name), ''), 'Owner'));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION staff_delete(p_token TEXT, p_id TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT staff_has_permission(p_token, 'manage_staff') THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = '42501';
+  END IF;
+  IF (staff_session_staff(p_token)).role <> 'owner' AND EXISTS (SELECT 1 FROM staff WHERE id = p_id AND role = 'owner') THEN
+    RAISE EXCEPTION 'Only an owner can manage owner accounts' USING ERRCODE = '42501';
+  END IF;
+  DELETE FROM staff WHERE id = p_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Who is entering a PIN: the signed-in staff member, or for customer devices
+-- (anon key only) the address the request came from, so one device can't
+-- lock out anyone else's approvals
+CREATE OR REPLACE FUNCTION pin_attempt_caller()
+RETURNS TEXT AS $$
+DECLARE
+  v_headers JSON := NULLIF(current_setting('request.headers', true), '')::json;
+BEGIN
+  IF is_staff_request() THEN
+    RETURN 'staff:' || (staff_session_staff(request_staff_token())).id;
+  END IF;
+  RETURN 'anon:' || COALESCE(
+    v_headers->>'cf-connecting-ip',
+    v_headers->>'x-real-ip',
+    trim(split_part(v_headers->>'x-forwarded-for', ',', 1)),
+    ''
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Staff member whose PIN approves an action they hold the permission for
+-- (payment block overrides on customer devices, voids and refunds). A PIN
+-- isn't tied to a username, so wrong ones are counted per caller (see
+-- pin_attempt_caller) and too many in a short while lock that caller's PIN
+-- approvals for a bit. Only called from the functions below, never by clients.
+DROP FUNCTION IF EXISTS staff_by_pin(TEXT);
+DROP FUNCTION IF EXISTS staff_by_pin(TEXT, TEXT);
+CREATE OR REPLACE FUNCTION staff_by_pin(p_pin TEXT, p_permission TEXT)
+RETURNS TABLE (id TEXT, name TEXT) AS $$
+DECLARE
+  v_caller TEXT := pin_attempt_caller();
+  v_id TEXT;
+  v_name TEXT;
+BEGIN
+  IF (
+    SELECT COUNT(*) FROM staff_pin_attempts a
+    WHERE a.caller = v_caller AND a.attempted_at > NOW() - INTERVAL '15 minutes'
+  ) >= 10 THEN
+    RAISE EXCEPTION 'Too many wrong PINs, try again in 15 minutes' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT s.id, s.name INTO v_id, v_name FROM staff s
+  WHERE s.pin_hash IS NOT NULL AND s.pin_hash = crypt(p_pin, s.pin_hash)
+    AND role_has_permission(s.role, p_permission)
+  LIMIT 1;
+  IF v_id IS NULL THEN
+    DELETE FROM staff_pin_attempts a WHERE a.attempted_at < NOW() - INTERVAL '1 day';
+    INSERT INTO staff_pin_attempts (caller) VALUES (v_caller);
+    RETURN;
+  END IF;
+  RETURN QUERY SELECT v_id, v_name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION staff_by_pin(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION verify_staff_pin(p_pin TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM staff_by_pin(p_pin, 'override_payment_block'));
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER;
+
+-- Role or password changes end every open session for that staff member
+CREATE OR REPLACE FUNCTION staff_revoke_sessions()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role OR NEW.password_hash IS DISTINCT FROM OLD.password_hash THEN
+    DELETE FROM staff_sessions WHERE staff_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS staff_revoke_sessions_trigger ON staff;
+CREATE TRIGGER staff_revoke_sessions_trigger
+AFTER UPDATE ON staff
+FOR EACH ROW EXECUTE FUNCTION staff_revoke_sessions();
+
+-- ===========================================
+-- DEFAULT DATA
+-- ===========================================
+
+-- Insert default settings if not exists
+INSERT INTO settings (restaurant_name)
+VALUES ('Chiyadani')
+ON CONFLICT DO NOTHING;
+
+-- Ten indoor tables, five to a row on the floor plan
+INSERT INTO dining_tables (number, name, area, capacity, pos_x, pos_y)
+SELECT n, '', 'Indoor', 4, 10 + ((n - 1) % 5) * 20, 15 + ((n - 1) / 5) * 25
+FROM generate_series(1, 10) AS n
+ON CONFLICT DO NOTHING;
+
+-- Built-in roles (permissions can be changed from the admin panel)
+INSERT INTO roles (id, name, permissions, built_in)
+VALUES
+  ('owner', 'Owner', '["use_counter", "take_payment", "apply_discount", "void_paid_bill", "record_expense", "delete_expense", "manage_register", "override_payment_block", "manage_reservations", "use_kitchen", "edit_menu", "view_analytics", "view_customers", "manage_staff", "manage_settings", "manage_inventory", "manage_purchasing", "view_audit_log", "adjust_points", "manage_promotions", "manage_accounts"]', true),
+  ('manager', 'Manager', '["use_counter", "take_payment", "apply_discount", "void_paid_bill", "record_expense", "delete_expense", "manage_register", "override_payment_block", "manage_reservations", "use_kitchen", "edit_menu", "manage_inventory", "manage_purchasing", "view_analytics", "view_customers", "adjust_points", "manage_promotions", "manage_accounts"]', true),
+  ('cashier', 'Cashier', '["use_counter", "take_payment", "apply_discount", "record_expense", "manage_register", "override_payment_block", "manage_reservations"]', true),
+  ('waiter', 'Waiter', '["use_counter", "override_payment_block", "manage_reservations"]', true),
+  ('kitchen', 'Kitchen', '["use_kitchen"]', true)
+ON CONFLICT DO NOTHING;
+
+-- No staff accounts are seeded: the first owner is created at /auth (staff_setup_owner)